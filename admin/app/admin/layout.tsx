@@ -374,6 +374,27 @@ const PAGE_CONFIG: PageConfig[] = [
       </svg>
     ),
   },
+  {
+    path: '/admin/shipping/delivery-slots',
+    title: 'Delivery Slots',
+    matchType: 'section',
+    icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20" fill="none">
+        <path d="M10 5V10L13.3333 11.6667M18.3333 10C18.3333 14.6024 14.6024 18.3333 10 18.3333C5.39763 18.3333 1.66667 14.6024 1.66667 10C1.66667 5.39763 5.39763 1.66667 10 1.66667C14.6024 1.66667 18.3333 5.39763 18.3333 10Z" stroke="#030712" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+      </svg>
+    ),
+  },
+  {
+    path: '/admin/shipping/zones',
+    title: 'Delivery Zones',
+    matchType: 'section',
+    icon: (
+      <svg xmlns="http://www.w3.org/2000/svg" width="20" height="20" viewBox="0 0 20 20" fill="none">
+        <path d="M16.6667 8.33333C16.6667 13.3333 10 18.3333 10 18.3333C10 18.3333 3.33333 13.3333 3.33333 8.33333C3.33333 6.56522 4.03571 4.86953 5.28595 3.61929C6.5362 2.36905 8.23189 1.66667 10 1.66667C11.7681 1.66667 13.4638 2.36905 14.714 3.61929C15.9643 4.86953 16.6667 6.56522 16.6667 8.33333Z" stroke="#030712" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+        <path d="M10 10.8333C11.3807 10.8333 12.5 9.71405 12.5 8.33333C12.5 6.95262 11.3807 5.83333 10 5.83333C8.61929 5.83333 7.5 6.95262 7.5 8.33333C7.5 9.71405 8.61929 10.8333 10 10.8333Z" stroke="#030712" strokeWidth="1.5" strokeLinecap="round" strokeLinejoin="round"/>
+      </svg>
+    ),
+  },
   {
     path: '/admin/users-roles',
     title: 'Users & Roles',
@@ -1555,6 +1576,68 @@ export default function AdminLayout({
                     </svg>
                     {!isSidebarCollapsed && "Settings"}
                   </a>
+                  <a
+                    href="/admin/shipping/delivery-slots"
+                    className={`font-public flex items-center gap-3 px-3 py-2 rounded-lg text-[14px] font-medium tracking-[-0.14px] transition-all max-lg:py-3 max-lg:text-base ${
+                      pathname.startsWith("/admin/shipping/delivery-slots")
+                        ? "border border-[#D9D9D9] bg-[#FBFBFB] text-[#2F2F2F] shadow-[0_1px_1.5px_0_rgba(44,54,53,0.03)]"
+                        : "border border-transparent text-[#6A7282] hover:border-[#D9D9D9] hover:bg-[#FBFBFB]"
+                    } ${isSidebarCollapsed ? "lg:justify-center" : ""}`}
+                    title="Delivery Slots"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 16 16"
+                      fill="none"
+                      className="shrink-0"
+                    >
+                      <path
+                        d="M8 4V8L10.6667 9.33333M14.6667 8C14.6667 11.6819 11.6819 14.6667 8 14.6667C4.3181 14.6667 1.33333 11.6819 1.33333 8C1.33333 4.3181 4.3181 1.33333 8 1.33333C11.6819 1.33333 14.6667 4.3181 14.6667 8Z"
+                        stroke={
+                          pathname.startsWith("/admin/shipping/delivery-slots")
+                            ? "#2F2F2F"
+                            : "#6A7282"
+                        }
+                        strokeWidth="1.25"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      />
+                    </svg>
+                    {!isSidebarCollapsed && "Delivery Slots"}
+                  </a>
+                  <a
+                    href="/admin/shipping/zones"
+                    className={`font-public flex items-center gap-3 px-3 py-2 rounded-lg text-[14px] font-medium tracking-[-0.14px] transition-all max-lg:py-3 max-lg:text-base ${
+                      pathname.startsWith("/admin/shipping/zones")
+                        ? "border border-[#D9D9D9] bg-[#FBFBFB] text-[#2F2F2F] shadow-[0_1px_1.5px_0_rgba(44,54,53,0.03)]"
+                        : "border border-transparent text-[#6A7282] hover:border-[#D9D9D9] hover:bg-[#FBFBFB]"
+                    } ${isSidebarCollapsed ? "lg:justify-center" : ""}`}
+                    title="Delivery Zones"
+                  >
+                    <svg
+                      xmlns="http://www.w3.org/2000/svg"
+                      width="16"
+                      height="16"
+                      viewBox="0 0 16 16"
+                      fill="none"
+                      className="shrink-0"
+                    >
+                      <path
+                        d="M13.3333 6.66667C13.3333 10.6667 8 14.6667 8 14.6667C8 14.6667 2.66667 10.6667 2.66667 6.66667C2.66667 5.25218 3.22857 3.89562 4.22876 2.89543C5.22896 1.89524 6.58551 1.33333 8 1.33333C9.41449 1.33333 10.771 1.89524 11.7712 2.89543C12.7714 3.89562 13.3333 5.25218 13.3333 6.66667Z M8 8.66667C9.10457 8.66667 10 7.77124 10 6.66667C10 5.5621 9.10457 4.66667 8 4.66667C6.89543 4.66667 6 5.5621 6 6.66667C6 7.77124 6.89543 8.66667 8 8.66667Z"
+                        stroke={
+                          pathname.startsWith("/admin/shipping/zones")
+                            ? "#2F2F2F"
+                            : "#6A7282"
+                        }
+                        strokeWidth="1.25"
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                      />
+                    </svg>
+                    {!isSidebarCollapsed && "Delivery Zones"}
+                  </a>
                 </div>
               </div>
 
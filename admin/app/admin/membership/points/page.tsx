@@ -2,7 +2,7 @@
 
 import React, { useEffect, useState, useRef } from "react";
 import Link from "next/link";
-import { usePointsConfig } from "@/lib/api/queries";
+import { usePointsConfig, usePointsExpirations } from "@/lib/api/queries";
 import { useUpdatePointsConfig } from "@/lib/api/mutations";
 import type { PointsEarningType } from "@/lib/types/membership-settings";
 
@@ -101,6 +101,7 @@ function CustomDropdown({
 export default function PointsConfigPage(): React.JSX.Element {
   const { data: config, isLoading, error } = usePointsConfig();
   const updateConfig = useUpdatePointsConfig();
+  const { data: expirations, isLoading: isLoadingExpirations } = usePointsExpirations();
 
   // Form state - Earning
   const [earningType, setEarningType] = useState<PointsEarningType>("percentage");
@@ -116,6 +117,10 @@ export default function PointsConfigPage(): React.JSX.Element {
   // Form state - Expiration
   const [expirationMonths, setExpirationMonths] = useState<string>("0");
 
+  // Form state - Review rewards
+  const [reviewRewardPoints, setReviewRewardPoints] = useState<string>("0");
+  const [reviewPhotoBonusPoints, setReviewPhotoBonusPoints] = useState<string>("0");
+
   // Form state - Status
   const [isEnabled, setIsEnabled] = useState<boolean>(true);
 
@@ -132,6 +137,8 @@ export default function PointsConfigPage(): React.JSX.Element {
       setMinPointsToRedeem(config.min_points_to_redeem.toString());
       setMaxRedemptionPercentage(config.max_redemption_percentage.toString());
       setExpirationMonths(config.expiration_months.toString());
+      setReviewRewardPoints((config.review_reward_points ?? 0).toString());
+      setReviewPhotoBonusPoints((config.review_photo_bonus_points ?? 0).toString());
       setIsEnabled(config.is_enabled);
       setHasChanges(false);
     }
@@ -150,10 +157,12 @@ export default function PointsConfigPage(): React.JSX.Element {
         parseInt(minPointsToRedeem) !== config.min_points_to_redeem ||
         parseInt(maxRedemptionPercentage) !== config.max_redemption_percentage ||
         parseInt(expirationMonths) !== config.expiration_months ||
+        (parseInt(reviewRewardPoints) || 0) !== (config.review_reward_points ?? 0) ||
+        (parseInt(reviewPhotoBonusPoints) || 0) !== (config.review_photo_bonus_points ?? 0) ||
         isEnabled !== config.is_enabled;
       setHasChanges(changed);
     }
-  }, [earningType, earningRate, includeTax, includeShipping, pointsPerDollar, minPointsToRedeem, maxRedemptionPercentage, expirationMonths, isEnabled, config]);
+  }, [earningType, earningRate, includeTax, includeShipping, pointsPerDollar, minPointsToRedeem, maxRedemptionPercentage, expirationMonths, reviewRewardPoints, reviewPhotoBonusPoints, isEnabled, config]);
 
   const handleCancel = () => {
     if (config) {
@@ -165,6 +174,8 @@ export default function PointsConfigPage(): React.JSX.Element {
       setMinPointsToRedeem(config.min_points_to_redeem.toString());
       setMaxRedemptionPercentage(config.max_redemption_percentage.toString());
       setExpirationMonths(config.expiration_months.toString());
+      setReviewRewardPoints((config.review_reward_points ?? 0).toString());
+      setReviewPhotoBonusPoints((config.review_photo_bonus_points ?? 0).toString());
       setIsEnabled(config.is_enabled);
       setHasChanges(false);
     }
@@ -181,16 +192,18 @@ export default function PointsConfigPage(): React.JSX.Element {
       min_points_to_redeem: parseInt(minPointsToRedeem) || 0,
       max_redemption_percentage: parseInt(maxRedemptionPercentage) || 0,
       expiration_months: parseInt(expirationMonths) || 0,
+      review_reward_points: parseInt(reviewRewardPoints) || 0,
+      review_photo_bonus_points: parseInt(reviewPhotoBonusPoints) || 0,
       is_enabled: isEnabled,
     });
   };
 
   const expirationOptions: DropdownOption[] = [
     { label: "Never expire", value: "0" },
-    { label: "6 months of inactivity", value: "6" },
-    { label: "12 months of inactivity", value: "12" },
-    { label: "18 months of inactivity", value: "18" },
-    { label: "24 months of inactivity", value: "24" },
+    { label: "6 months after earning", value: "6" },
+    { label: "12 months after earning", value: "12" },
+    { label: "18 months after earning", value: "18" },
+    { label: "24 months after earning", value: "24" },
   ];
 
   // Calculate display values
@@ -472,6 +485,50 @@ export default function PointsConfigPage(): React.JSX.Element {
           </div>
         </div>
 
+        {/* Review Rewards */}
+        <div className="rounded-xl border border-[#E5E7EB] bg-white p-6">
+          <h2 className="mb-4 font-geist text-[18px] font-medium text-[#030712]">
+            Review Rewards
+          </h2>
+          <div className="space-y-4">
+            <div>
+              <label className="mb-2 block font-public text-[14px] font-medium text-[#030712]">
+                Points per Review
+              </label>
+              <input
+                type="text"
+                value={reviewRewardPoints}
+                onChange={(e) => {
+                  const value = e.target.value.replace(/[^0-9]/g, '');
+                  setReviewRewardPoints(value);
+                }}
+                className="w-32 rounded-lg border border-[#E5E7EB] px-4 py-2.5 font-public text-[14px] outline-none transition-colors focus:border-[#030712]"
+              />
+              <p className="mt-1 font-public text-[12px] text-[#6A7282]">
+                Awarded once a member&apos;s verified purchase review is published. 0 = no reward
+              </p>
+            </div>
+
+            <div>
+              <label className="mb-2 block font-public text-[14px] font-medium text-[#030712]">
+                Photo Bonus
+              </label>
+              <input
+                type="text"
+                value={reviewPhotoBonusPoints}
+                onChange={(e) => {
+                  const value = e.target.value.replace(/[^0-9]/g, '');
+                  setReviewPhotoBonusPoints(value);
+                }}
+                className="w-32 rounded-lg border border-[#E5E7EB] px-4 py-2.5 font-public text-[14px] outline-none transition-colors focus:border-[#030712]"
+              />
+              <p className="mt-1 font-public text-[12px] text-[#6A7282]">
+                Extra points when the review includes a photo
+              </p>
+            </div>
+          </div>
+        </div>
+
         {/* Expiration Rules */}
         <div className="rounded-xl border border-[#E5E7EB] bg-white p-6">
           <h2 className="mb-4 font-geist text-[18px] font-medium text-[#030712]">
@@ -488,8 +545,41 @@ export default function PointsConfigPage(): React.JSX.Element {
             <p className="mt-2 font-public text-[13px] text-[#6A7282]">
               {expirationMonths === "0"
                 ? "Points will never expire automatically"
-                : `Points will expire if a customer has no activity for ${expirationMonths} months`}
+                : `Each batch of earned points expires ${expirationMonths} months after it was earned. Redemptions use the oldest points first.`}
+            </p>
+          </div>
+
+          {/* Projected Expirations */}
+          <div className="mt-6 border-t border-[#E5E7EB] pt-4">
+            <p className="mb-3 font-public text-[14px] font-medium text-[#030712]">
+              Projected Expirations
             </p>
+            {isLoadingExpirations ? (
+              <div className="inline-block h-5 w-5 animate-spin rounded-full border-2 border-solid border-black border-r-transparent"></div>
+            ) : !expirations || expirations.expiration_months === 0 ? (
+              <p className="font-public text-[13px] text-[#6A7282]">
+                No points are set to expire
+              </p>
+            ) : (
+              <div className="grid grid-cols-3 gap-4">
+                {expirations.projections.map((projection) => (
+                  <div
+                    key={projection.days}
+                    className="rounded-lg border border-[#E5E7EB] p-4"
+                  >
+                    <p className="font-public text-[13px] text-[#6A7282]">
+                      Next {projection.days} days
+                    </p>
+                    <p className="mt-1 font-geist text-[20px] font-medium text-[#030712]">
+                      {projection.points.toLocaleString()} pts
+                    </p>
+                    <p className="font-public text-[12px] text-[#6A7282]">
+                      {projection.customers} {projection.customers === 1 ? "customer" : "customers"}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </div>
 
@@ -516,7 +606,7 @@ export default function PointsConfigPage(): React.JSX.Element {
             </p>
             <p>
               <span className="font-medium">Expiration:</span>{" "}
-              {expirationMonths === "0" ? "Points never expire" : `After ${expirationMonths} months of inactivity`}
+              {expirationMonths === "0" ? "Points never expire" : `${expirationMonths} months after earning`}
             </p>
           </div>
         </div>
@@ -111,6 +111,9 @@ export default function MembershipSettingsPage(): React.JSX.Element {
   const [evaluationPeriodMonths, setEvaluationPeriodMonths] = useState<string>("12");
   const [evaluationTrigger, setEvaluationTrigger] = useState<EvaluationTrigger>("both");
   const [autoEnroll, setAutoEnroll] = useState<boolean>(true);
+  const [excludePwp, setExcludePwp] = useState<boolean>(true);
+  const [excludeBulk, setExcludeBulk] = useState<boolean>(true);
+  const [excludeSale, setExcludeSale] = useState<boolean>(true);
   const [isEnabled, setIsEnabled] = useState<boolean>(true);
 
   const [hasChanges, setHasChanges] = useState(false);
@@ -124,6 +127,9 @@ export default function MembershipSettingsPage(): React.JSX.Element {
       setEvaluationPeriodMonths(settings.evaluation_period_months.toString());
       setEvaluationTrigger(settings.evaluation_trigger);
       setAutoEnroll(settings.auto_enroll_on_first_order);
+      setExcludePwp(settings.tier_discount_exclude_pwp);
+      setExcludeBulk(settings.tier_discount_exclude_bulk);
+      setExcludeSale(settings.tier_discount_exclude_sale);
       setIsEnabled(settings.is_enabled);
       setHasChanges(false);
     }
@@ -141,10 +147,13 @@ export default function MembershipSettingsPage(): React.JSX.Element {
         parseInt(evaluationPeriodMonths) !== settings.evaluation_period_months ||
         evaluationTrigger !== settings.evaluation_trigger ||
         autoEnroll !== settings.auto_enroll_on_first_order ||
+        excludePwp !== settings.tier_discount_exclude_pwp ||
+        excludeBulk !== settings.tier_discount_exclude_bulk ||
+        excludeSale !== settings.tier_discount_exclude_sale ||
         isEnabled !== settings.is_enabled;
       setHasChanges(changed);
     }
-  }, [programType, price, durationMonths, evaluationPeriodMonths, evaluationTrigger, autoEnroll, isEnabled, settings]);
+  }, [programType, price, durationMonths, evaluationPeriodMonths, evaluationTrigger, autoEnroll, excludePwp, excludeBulk, excludeSale, isEnabled, settings]);
 
   const handleCancel = () => {
     if (settings) {
@@ -154,6 +163,9 @@ export default function MembershipSettingsPage(): React.JSX.Element {
       setEvaluationPeriodMonths(settings.evaluation_period_months.toString());
       setEvaluationTrigger(settings.evaluation_trigger);
       setAutoEnroll(settings.auto_enroll_on_first_order);
+      setExcludePwp(settings.tier_discount_exclude_pwp);
+      setExcludeBulk(settings.tier_discount_exclude_bulk);
+      setExcludeSale(settings.tier_discount_exclude_sale);
       setIsEnabled(settings.is_enabled);
       setHasChanges(false);
     }
@@ -168,6 +180,9 @@ export default function MembershipSettingsPage(): React.JSX.Element {
       evaluation_period_months: parseInt(evaluationPeriodMonths),
       evaluation_trigger: evaluationTrigger,
       auto_enroll_on_first_order: autoEnroll,
+      tier_discount_exclude_pwp: excludePwp,
+      tier_discount_exclude_bulk: excludeBulk,
+      tier_discount_exclude_sale: excludeSale,
       is_enabled: isEnabled,
     });
   };
@@ -180,6 +195,27 @@ export default function MembershipSettingsPage(): React.JSX.Element {
     { label: "1 Year", value: "12" },
   ];
 
+  const tierDiscountExclusions = [
+    {
+      label: "Exclude PWP items",
+      description: "Purchase-with-purchase rewards are already discounted",
+      value: excludePwp,
+      onToggle: () => setExcludePwp(!excludePwp),
+    },
+    {
+      label: "Exclude bulk-priced items",
+      description: "Items priced at a wholesale quantity tier",
+      value: excludeBulk,
+      onToggle: () => setExcludeBulk(!excludeBulk),
+    },
+    {
+      label: "Exclude items on sale",
+      description: "Variants with a sale discount set on the product",
+      value: excludeSale,
+      onToggle: () => setExcludeSale(!excludeSale),
+    },
+  ];
+
   const evaluationPeriodOptions: DropdownOption[] = [
     { label: "Last 3 months", value: "3" },
     { label: "Last 6 months", value: "6" },
@@ -482,6 +518,45 @@ export default function MembershipSettingsPage(): React.JSX.Element {
           </div>
         </div>
 
+        {/* Tier Discount */}
+        <div className="rounded-xl border border-[#E5E7EB] bg-white p-6">
+          <h2 className="mb-1 font-geist text-[18px] font-medium text-[#030712]">
+            Tier Discount
+          </h2>
+          <p className="mb-4 font-public text-[13px] text-[#6A7282]">
+            Each tier&apos;s discount percentage is applied automatically to members&apos; carts. Choose which items it skips.
+          </p>
+          <div className="space-y-4">
+            {tierDiscountExclusions.map((exclusion, index) => (
+              <div
+                key={exclusion.label}
+                className={`flex items-center justify-between ${index > 0 ? "border-t border-[#E5E7EB] pt-4" : ""}`}
+              >
+                <div>
+                  <p className="font-public text-[14px] font-medium text-[#030712]">
+                    {exclusion.label}
+                  </p>
+                  <p className="font-public text-[13px] text-[#6A7282]">
+                    {exclusion.description}
+                  </p>
+                </div>
+                <button
+                  onClick={exclusion.onToggle}
+                  className={`relative inline-flex h-6 w-11 items-center rounded-full transition-colors ${
+                    exclusion.value ? "bg-[#10B981]" : "bg-[#E5E7EB]"
+                  }`}
+                >
+                  <span
+                    className={`inline-block h-4 w-4 transform rounded-full bg-white transition-transform ${
+                      exclusion.value ? "translate-x-6" : "translate-x-1"
+                    }`}
+                  />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
         {/* Related Settings */}
         <div className="rounded-xl border border-[#E5E7EB] bg-white p-6">
           <h2 className="mb-4 font-geist text-[18px] font-medium text-[#030712]">
@@ -0,0 +1,182 @@
+"use client"
+
+import React, { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useBirthdayVoucherReport, useTiers } from "@/lib/api/queries"
+import { formatCurrency } from "@/lib/api/tiers"
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleDateString("en-GB", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  })
+}
+
+/**
+ * Birthday Voucher Report Page
+ * Lists the birthday vouchers issued in a year and how many were redeemed
+ */
+export default function BirthdayVoucherReportPage(): React.JSX.Element {
+  const router = useRouter()
+  const currentYear = new Date().getFullYear()
+  const [year, setYear] = useState(currentYear)
+  const { data: report, isLoading, error } = useBirthdayVoucherReport(year)
+  const { data: tiersData } = useTiers(true)
+
+  const tierNames = new Map((tiersData?.tiers ?? []).map((tier) => [tier.slug, tier.name]))
+  const redemptionRate =
+    report && report.issued > 0 ? Math.round((report.redeemed / report.issued) * 100) : 0
+
+  if (error) {
+    return (
+      <div className="px-4 md:px-8">
+        <div className="flex h-64 items-center justify-center">
+          <p className="text-red-600">Failed to load birthday vouchers</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 md:px-8">
+      {/* Header */}
+      <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="font-geist text-[24px] font-medium text-neutral-900">
+            Birthday Vouchers
+          </h1>
+          <p className="mt-1 text-[14px] text-neutral-500">
+            Members receive a single-use voucher for their tier&apos;s birthday amount at the start of their birthday month.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => router.push("/admin/membership/tiers")}
+            className="cursor-pointer rounded-lg border border-neutral-200 bg-white px-4 py-2 text-[14px] font-medium text-neutral-900 hover:bg-neutral-50"
+          >
+            Back to Tiers
+          </button>
+          <div className="flex items-center rounded-lg border border-neutral-200 bg-white">
+            <button
+              onClick={() => setYear(year - 1)}
+              className="cursor-pointer px-3 py-2 text-[14px] text-neutral-900 hover:bg-neutral-50"
+              aria-label="Previous year"
+            >
+              ‹
+            </button>
+            <span className="px-2 text-[14px] font-medium text-neutral-900">{year}</span>
+            <button
+              onClick={() => setYear(year + 1)}
+              disabled={year >= currentYear}
+              className="cursor-pointer px-3 py-2 text-[14px] text-neutral-900 hover:bg-neutral-50 disabled:cursor-not-allowed disabled:opacity-40"
+              aria-label="Next year"
+            >
+              ›
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="flex h-64 items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-neutral-900 border-r-transparent" />
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="mb-6 grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <div className="rounded-lg border border-neutral-200 bg-white p-6">
+              <p className="text-[12px] font-medium uppercase tracking-wide text-neutral-500">Issued</p>
+              <p className="mt-2 text-[24px] font-medium text-neutral-900">{report.issued}</p>
+              <p className="text-[13px] text-neutral-500">{formatCurrency(report.issued_amount)} in vouchers</p>
+            </div>
+            <div className="rounded-lg border border-neutral-200 bg-white p-6">
+              <p className="text-[12px] font-medium uppercase tracking-wide text-neutral-500">Redeemed</p>
+              <p className="mt-2 text-[24px] font-medium text-neutral-900">{report.redeemed}</p>
+              <p className="text-[13px] text-neutral-500">{formatCurrency(report.redeemed_amount)} used</p>
+            </div>
+            <div className="rounded-lg border border-neutral-200 bg-white p-6">
+              <p className="text-[12px] font-medium uppercase tracking-wide text-neutral-500">Redemption Rate</p>
+              <p className="mt-2 text-[24px] font-medium text-neutral-900">{redemptionRate}%</p>
+            </div>
+            <div className="rounded-lg border border-neutral-200 bg-white p-6">
+              <p className="mb-2 text-[12px] font-medium uppercase tracking-wide text-neutral-500">By Tier</p>
+              {report.by_tier.length === 0 ? (
+                <p className="text-[14px] text-neutral-500">-</p>
+              ) : (
+                <div className="space-y-1 text-[14px]">
+                  {report.by_tier.map((tier) => (
+                    <div key={tier.tier_slug} className="flex justify-between">
+                      <span className="text-neutral-500">{tierNames.get(tier.tier_slug) ?? tier.tier_slug}:</span>
+                      <span className="font-medium text-neutral-900">
+                        {tier.redeemed}/{tier.issued}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+
+          {/* Vouchers */}
+          <div className="overflow-x-auto rounded-lg border border-neutral-200 bg-white">
+            <table className="w-full text-left text-[14px]">
+              <thead className="border-b border-neutral-200 bg-neutral-50 text-[12px] uppercase tracking-wide text-neutral-500">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Customer</th>
+                  <th className="px-4 py-3 font-medium">Code</th>
+                  <th className="px-4 py-3 font-medium">Tier</th>
+                  <th className="px-4 py-3 font-medium">Amount</th>
+                  <th className="px-4 py-3 font-medium">Valid</th>
+                  <th className="px-4 py-3 font-medium">Emailed</th>
+                  <th className="px-4 py-3 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.vouchers.length === 0 ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-12 text-center text-neutral-500">
+                      No birthday vouchers issued in {year}
+                    </td>
+                  </tr>
+                ) : (
+                  report.vouchers.map((voucher) => (
+                    <tr key={voucher.id} className="border-b border-neutral-100 last:border-0">
+                      <td className="px-4 py-3">
+                        <p className="font-medium text-neutral-900">{voucher.customer_name ?? "-"}</p>
+                        <p className="text-[12px] text-neutral-500">{voucher.customer_email ?? voucher.customer_id}</p>
+                      </td>
+                      <td className="px-4 py-3 font-mono text-neutral-900">{voucher.code}</td>
+                      <td className="px-4 py-3 text-neutral-900">
+                        {tierNames.get(voucher.tier_slug) ?? voucher.tier_slug}
+                      </td>
+                      <td className="px-4 py-3 text-neutral-900">{formatCurrency(voucher.amount)}</td>
+                      <td className="px-4 py-3 text-neutral-500">
+                        {formatDate(voucher.valid_from)} - {formatDate(voucher.valid_until)}
+                      </td>
+                      <td className="px-4 py-3 text-neutral-500">
+                        {voucher.email_sent_at ? formatDate(voucher.email_sent_at) : "Not sent"}
+                      </td>
+                      <td className="px-4 py-3">
+                        <span
+                          className={`inline-flex items-center rounded-full px-2 py-0.5 text-[11px] font-medium ${
+                            voucher.redeemed
+                              ? "bg-green-100 text-green-700"
+                              : "bg-neutral-100 text-neutral-500"
+                          }`}
+                        >
+                          {voucher.redeemed ? "Redeemed" : "Unused"}
+                        </span>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -83,12 +83,20 @@ export default function TierConfigurationPage(): React.JSX.Element {
             Configure membership tiers and their benefits. Customers automatically upgrade/downgrade based on rolling {evaluationPeriod}-month activity.
           </p>
         </div>
-        <button
-          onClick={() => router.push("/admin/membership/tiers/add")}
-          className="cursor-pointer rounded-lg bg-neutral-900 px-4 py-2 text-[14px] font-medium text-white hover:bg-neutral-800"
-        >
-          Add Tier
-        </button>
+        <div className="flex gap-2">
+          <button
+            onClick={() => router.push("/admin/membership/tiers/birthday-vouchers")}
+            className="cursor-pointer rounded-lg border border-neutral-200 bg-white px-4 py-2 text-[14px] font-medium text-neutral-900 hover:bg-neutral-50"
+          >
+            Birthday Vouchers
+          </button>
+          <button
+            onClick={() => router.push("/admin/membership/tiers/add")}
+            className="cursor-pointer rounded-lg bg-neutral-900 px-4 py-2 text-[14px] font-medium text-white hover:bg-neutral-800"
+          >
+            Add Tier
+          </button>
+        </div>
       </div>
 
       {/* Tier Cards Grid */}
@@ -220,6 +228,7 @@ export default function TierConfigurationPage(): React.JSX.Element {
           <li>• Customers upgrade automatically when they meet a higher tier&apos;s requirements</li>
           <li>• Customers may downgrade if their {evaluationPeriod}-month activity drops below their current tier&apos;s threshold</li>
           <li>• Points multiplier applies to all points earned from purchases</li>
+          <li>• Birthday vouchers are issued and emailed to members at the start of their birthday month</li>
         </ul>
       </div>
     </div>
@@ -8,6 +8,19 @@ import {
   PromoFormDateInput,
   PromoFormSection,
   PromoFormProductSelector,
+  CouponRestrictionsSection,
+  EMPTY_COUPON_RESTRICTIONS,
+  CouponConditionsSection,
+  EMPTY_COUPON_CONDITIONS,
+  toCouponConditionsInput,
+  PWPRuleOptionsSection,
+  EMPTY_PWP_RULE_OPTIONS,
+  toPWPRuleOptionsInput,
+} from "@/components/admin/promo";
+import type {
+  CouponConditionsFormData,
+  CouponRestrictionsFormData,
+  PWPRuleOptionsFormData,
 } from "@/components/admin/promo";
 import { useCreateCoupon, useCreatePWPRule } from "@/lib/api/mutations";
 import { useToast } from "@/contexts/ToastContext";
@@ -125,6 +138,21 @@ function AddPromoPageContent(): React.JSX.Element {
     endDate: "",
   });
 
+  // Coupon usage restrictions state
+  const [couponRestrictions, setCouponRestrictions] = useState<CouponRestrictionsFormData>(
+    EMPTY_COUPON_RESTRICTIONS
+  );
+
+  // Coupon cart conditions state
+  const [couponConditions, setCouponConditions] = useState<CouponConditionsFormData>(
+    EMPTY_COUPON_CONDITIONS
+  );
+
+  // PWP multi-product and stepped threshold options
+  const [pwpOptions, setPWPOptions] = useState<PWPRuleOptionsFormData>(
+    EMPTY_PWP_RULE_OPTIONS
+  );
+
   // PWP form state
   const [pwpForm, setPWPForm] = useState<PWPFormData>({
     name: "",
@@ -197,6 +225,12 @@ function AddPromoPageContent(): React.JSX.Element {
           status: "active",
           starts_at: couponForm.startDate ? new Date(couponForm.startDate).toISOString() : null,
           ends_at: couponForm.endDate ? new Date(couponForm.endDate).toISOString() : null,
+          usage_limit: couponRestrictions.usageLimit ? parseInt(couponRestrictions.usageLimit, 10) : null,
+          per_customer_limit: couponRestrictions.perCustomerLimit ? parseInt(couponRestrictions.perCustomerLimit, 10) : null,
+          first_order_only: couponRestrictions.firstOrderOnly,
+          eligible_customer_groups: couponRestrictions.eligibleCustomerGroups,
+          eligible_tier_slugs: couponRestrictions.eligibleTierSlugs,
+          ...toCouponConditionsInput(couponConditions, couponForm.type),
         });
         showToast("Coupon created successfully", "success");
       } else {
@@ -227,6 +261,7 @@ function AddPromoPageContent(): React.JSX.Element {
           reward_product_id: pwpForm.reward_product_id || null,
           reward_type: pwpForm.reward_type,
           reward_value: rewardValueCents,
+          ...toPWPRuleOptionsInput(pwpOptions, pwpForm.trigger_type),
           status: "active",
           starts_at: pwpForm.startDate ? new Date(pwpForm.startDate).toISOString() : null,
           ends_at: pwpForm.endDate ? new Date(pwpForm.endDate).toISOString() : null,
@@ -326,61 +361,74 @@ function AddPromoPageContent(): React.JSX.Element {
 
       {/* Coupon Form */}
       {isCoupon && (
-        <PromoFormSection title="Coupon">
-          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
-            {/* Left Column */}
-            <div className="space-y-4">
-              <PromoFormInput
-                label="Coupon Name"
-                placeholder="Enter coupon name"
-                value={couponForm.name}
-                onChange={(value) => handleCouponChange("name", value)}
-                icon={<GridIcon />}
-              />
+        <div className="space-y-6">
+          <PromoFormSection title="Coupon">
+            <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+              {/* Left Column */}
+              <div className="space-y-4">
+                <PromoFormInput
+                  label="Coupon Name"
+                  placeholder="Enter coupon name"
+                  value={couponForm.name}
+                  onChange={(value) => handleCouponChange("name", value)}
+                  icon={<GridIcon />}
+                />
 
-              <PromoFormInput
-                label="Coupon Code"
-                placeholder="Enter coupon code (e.g., SUMMER20)"
-                value={couponForm.code}
-                onChange={(value) => handleCouponChange("code", value.toUpperCase())}
-                icon={<GridIcon />}
-              />
+                <PromoFormInput
+                  label="Coupon Code"
+                  placeholder="Enter coupon code (e.g., SUMMER20)"
+                  value={couponForm.code}
+                  onChange={(value) => handleCouponChange("code", value.toUpperCase())}
+                  icon={<GridIcon />}
+                />
 
-              <PromoFormDropdown
-                label="Discount Type"
-                value={couponForm.type}
-                onChange={(value) => handleCouponChange("type", value)}
-                options={typeOptions}
-                icon={<GridIcon />}
-              />
+                <PromoFormDropdown
+                  label="Discount Type"
+                  value={couponForm.type}
+                  onChange={(value) => handleCouponChange("type", value)}
+                  options={typeOptions}
+                  icon={<GridIcon />}
+                />
 
-              <PromoFormInput
-                label={couponForm.type === "percentage" ? "Discount %" : "Discount Amount ($)"}
-                placeholder={couponForm.type === "percentage" ? "e.g., 20" : "e.g., 15 for $15 off"}
-                value={couponForm.value}
-                onChange={(value) => handleCouponChange("value", value)}
-                icon={<GridIcon />}
-              />
-            </div>
+                <PromoFormInput
+                  label={couponForm.type === "percentage" ? "Discount %" : "Discount Amount ($)"}
+                  placeholder={couponForm.type === "percentage" ? "e.g., 20" : "e.g., 15 for $15 off"}
+                  value={couponForm.value}
+                  onChange={(value) => handleCouponChange("value", value)}
+                  icon={<GridIcon />}
+                />
+              </div>
 
-            {/* Right Column */}
-            <div className="space-y-4">
-              <PromoFormDateInput
-                label="Start Date"
-                placeholder="Select start date"
-                value={couponForm.startDate}
-                onChange={(value) => handleCouponChange("startDate", value)}
-              />
+              {/* Right Column */}
+              <div className="space-y-4">
+                <PromoFormDateInput
+                  label="Start Date"
+                  placeholder="Select start date"
+                  value={couponForm.startDate}
+                  onChange={(value) => handleCouponChange("startDate", value)}
+                />
 
-              <PromoFormDateInput
-                label="End Date"
-                placeholder="Select end date"
-                value={couponForm.endDate}
-                onChange={(value) => handleCouponChange("endDate", value)}
-              />
+                <PromoFormDateInput
+                  label="End Date"
+                  placeholder="Select end date"
+                  value={couponForm.endDate}
+                  onChange={(value) => handleCouponChange("endDate", value)}
+                />
+              </div>
             </div>
-          </div>
-        </PromoFormSection>
+          </PromoFormSection>
+
+          <CouponRestrictionsSection
+            value={couponRestrictions}
+            onChange={setCouponRestrictions}
+          />
+
+          <CouponConditionsSection
+            value={couponConditions}
+            onChange={setCouponConditions}
+            discountType={couponForm.type}
+          />
+        </div>
       )}
 
       {/* PWP Rule Form */}
@@ -469,6 +517,12 @@ function AddPromoPageContent(): React.JSX.Element {
             </div>
           </PromoFormSection>
 
+          <PWPRuleOptionsSection
+            value={pwpOptions}
+            onChange={setPWPOptions}
+            triggerType={pwpForm.trigger_type}
+          />
+
           {/* Validity Section */}
           <PromoFormSection title="Validity">
             <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
@@ -0,0 +1,82 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  AutoPromotionFormSections,
+  EMPTY_AUTO_PROMOTION,
+  toAutoPromotionInput,
+} from "@/components/admin/promo";
+import type { AutoPromotionFormData } from "@/components/admin/promo";
+import { useCreateAutoPromotion } from "@/lib/api/mutations";
+import { useToast } from "@/contexts/ToastContext";
+
+export default function AddAutoPromotionPage(): React.JSX.Element {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const createAutoPromotionMutation = useCreateAutoPromotion();
+
+  const [form, setForm] = useState<AutoPromotionFormData>(EMPTY_AUTO_PROMOTION);
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!form.name) {
+      showToast("Please fill in the promotion name", "warning");
+      return;
+    }
+    if (form.type === "buy_x_get_y" && (!form.buyQuantity || !form.getQuantity)) {
+      showToast("Please fill in the buy and get quantities", "warning");
+      return;
+    }
+    if (form.type === "category_sale" && form.categoryIds.length === 0 && form.productIds.length === 0) {
+      showToast("Please select the categories or products on sale", "warning");
+      return;
+    }
+
+    try {
+      await createAutoPromotionMutation.mutateAsync(toAutoPromotionInput(form));
+      showToast("Promotion created successfully", "success");
+      router.push("/admin/promos");
+    } catch (error) {
+      console.error("Failed to create automatic promotion:", error);
+      showToast("Failed to create promotion. Please try again.", "error");
+    }
+  };
+
+  const isSubmitting = createAutoPromotionMutation.isPending;
+
+  return (
+    <div className="px-4 md:px-8">
+      {/* Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="font-geist text-[24px] font-medium leading-[120%] tracking-[-0.48px] text-[#030712]">
+          Add Automatic Promotion
+        </h1>
+
+        {/* Action Buttons */}
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => router.push("/admin/promos")}
+            disabled={isSubmitting}
+            className="h-10 cursor-pointer rounded-lg border border-[#E5E7EB] bg-white px-6 font-public text-[14px] font-medium text-[#030712] transition-colors hover:bg-[#F9FAFB] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Cancel
+          </button>
+
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="h-10 cursor-pointer rounded-lg bg-[#030712] px-6 font-public text-[14px] font-medium text-white transition-colors hover:bg-[#1f2937] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSubmitting ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <AutoPromotionFormSections value={form} onChange={setForm} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import {
+  AutoPromotionFormSections,
+  EMPTY_AUTO_PROMOTION,
+  fromAutoPromotion,
+  toAutoPromotionInput,
+} from "@/components/admin/promo";
+import type { AutoPromotionFormData } from "@/components/admin/promo";
+import { useAutoPromotion } from "@/lib/api/queries";
+import { useDeleteAutoPromotion, useUpdateAutoPromotion } from "@/lib/api/mutations";
+import { useToast } from "@/contexts/ToastContext";
+
+export default function EditAutoPromotionPage(): React.JSX.Element {
+  const router = useRouter();
+  const params = useParams();
+  const { showToast, confirm } = useToast();
+  const id = params.id as string;
+
+  const { data: promotion, isLoading } = useAutoPromotion(id);
+  const updateAutoPromotionMutation = useUpdateAutoPromotion();
+  const deleteAutoPromotionMutation = useDeleteAutoPromotion();
+
+  const [form, setForm] = useState<AutoPromotionFormData>(EMPTY_AUTO_PROMOTION);
+
+  // Populate form when data is loaded
+  useEffect(() => {
+    if (promotion) {
+      setForm(fromAutoPromotion(promotion));
+    }
+  }, [promotion]);
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!form.name) {
+      showToast("Please fill in the promotion name", "warning");
+      return;
+    }
+    if (form.type === "buy_x_get_y" && (!form.buyQuantity || !form.getQuantity)) {
+      showToast("Please fill in the buy and get quantities", "warning");
+      return;
+    }
+
+    try {
+      await updateAutoPromotionMutation.mutateAsync({ id, data: toAutoPromotionInput(form) });
+      showToast("Promotion updated successfully", "success");
+      router.push("/admin/promos");
+    } catch (error) {
+      console.error("Failed to update automatic promotion:", error);
+      showToast("Failed to update promotion. Please try again.", "error");
+    }
+  };
+
+  const handleDelete = async (): Promise<void> => {
+    const confirmed = await confirm({
+      title: "Delete Promotion",
+      message: "Are you sure you want to delete this promotion? It will stop applying to carts immediately.",
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      type: "danger",
+    });
+
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      await deleteAutoPromotionMutation.mutateAsync(id);
+      showToast("Promotion deleted successfully", "success");
+      router.push("/admin/promos");
+    } catch (error) {
+      console.error("Failed to delete automatic promotion:", error);
+      showToast("Failed to delete promotion. Please try again.", "error");
+    }
+  };
+
+  const isSubmitting = updateAutoPromotionMutation.isPending;
+  const isDeleting = deleteAutoPromotionMutation.isPending;
+
+  // Loading state
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-black border-r-transparent" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 md:px-8">
+      {/* Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="font-geist text-[24px] font-medium leading-[120%] tracking-[-0.48px] text-[#030712]">
+          Edit Automatic Promotion
+        </h1>
+
+        {/* Action Buttons */}
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={handleDelete}
+            disabled={isSubmitting || isDeleting}
+            className="h-10 cursor-pointer rounded-lg border border-[#E5E7EB] bg-white px-6 font-public text-[14px] font-medium text-[#EF4444] transition-colors hover:bg-[#FEF2F2] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isDeleting ? "Deleting..." : "Delete"}
+          </button>
+
+          <button
+            type="button"
+            onClick={() => router.push("/admin/promos")}
+            disabled={isSubmitting || isDeleting}
+            className="h-10 cursor-pointer rounded-lg border border-[#E5E7EB] bg-white px-6 font-public text-[14px] font-medium text-[#030712] transition-colors hover:bg-[#F9FAFB] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Cancel
+          </button>
+
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isSubmitting || isDeleting}
+            className="h-10 cursor-pointer rounded-lg bg-[#030712] px-6 font-public text-[14px] font-medium text-white transition-colors hover:bg-[#1f2937] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSubmitting ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <AutoPromotionFormSections value={form} onChange={setForm} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,245 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import {
+  PromoFormInput,
+  PromoFormDropdown,
+  PromoFormDateInput,
+  PromoFormSection,
+  CouponConditionsSection,
+  EMPTY_COUPON_CONDITIONS,
+  toCouponConditionsInput,
+} from "@/components/admin/promo";
+import type { CouponConditionsFormData } from "@/components/admin/promo";
+import { useCreateCouponBatch } from "@/lib/api/mutations";
+import { useToast } from "@/contexts/ToastContext";
+import type { PromoType } from "@/lib/types/promo";
+
+const DEFAULT_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+type BatchFormData = {
+  name: string;
+  prefix: string;
+  quantity: string;
+  codeLength: string;
+  alphabet: string;
+  usageLimitPerCode: string;
+  type: PromoType;
+  value: string;
+  startDate: string;
+  endDate: string;
+};
+
+/**
+ * Build a sample code so admins can see the format before generating
+ */
+function getSampleCode(prefix: string, length: number, alphabet: string): string {
+  const chars = alphabet || DEFAULT_ALPHABET;
+  const random = Array.from({ length }, (_, i) => chars[i % chars.length]).join("");
+  return prefix ? `${prefix}-${random}` : random;
+}
+
+export default function AddCouponBatchPage(): React.JSX.Element {
+  const router = useRouter();
+  const { showToast } = useToast();
+  const createBatchMutation = useCreateCouponBatch();
+
+  const [form, setForm] = useState<BatchFormData>({
+    name: "",
+    prefix: "",
+    quantity: "100",
+    codeLength: "8",
+    alphabet: DEFAULT_ALPHABET,
+    usageLimitPerCode: "1",
+    type: "percentage",
+    value: "",
+    startDate: "",
+    endDate: "",
+  });
+
+  const [conditions, setConditions] = useState<CouponConditionsFormData>(
+    EMPTY_COUPON_CONDITIONS
+  );
+
+  const handleChange = (field: keyof BatchFormData, value: string): void => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = async (): Promise<void> => {
+    if (!form.name || !form.quantity) {
+      showToast("Please fill in all required fields (Name and Quantity)", "warning");
+      return;
+    }
+
+    // Convert dollar amounts to cents for fixed discount
+    const valueCents = form.type === "fixed" && form.value
+      ? Math.round(parseFloat(form.value) * 100)
+      : (form.value ? parseFloat(form.value) : 0);
+
+    try {
+      const result = await createBatchMutation.mutateAsync({
+        name: form.name,
+        prefix: form.prefix.toUpperCase(),
+        quantity: parseInt(form.quantity, 10),
+        code_length: parseInt(form.codeLength, 10) || 8,
+        alphabet: form.alphabet.toUpperCase() || DEFAULT_ALPHABET,
+        usage_limit_per_code: parseInt(form.usageLimitPerCode, 10) || 1,
+        type: form.type,
+        value: valueCents,
+        status: "active",
+        starts_at: form.startDate ? new Date(form.startDate).toISOString() : null,
+        ends_at: form.endDate ? new Date(form.endDate).toISOString() : null,
+        ...toCouponConditionsInput(conditions, form.type),
+      });
+      showToast(`Generated ${result.generated} coupon codes`, "success");
+      router.push("/admin/promos");
+    } catch (error) {
+      console.error("Failed to generate coupon batch:", error);
+      showToast("Failed to generate coupon codes. Please check the settings and try again.", "error");
+    }
+  };
+
+  const typeOptions = [
+    { label: "%", value: "percentage" },
+    { label: "Fixed Amount", value: "fixed" },
+  ];
+
+  const isSubmitting = createBatchMutation.isPending;
+
+  return (
+    <div className="px-4 md:px-8">
+      {/* Header */}
+      <div className="mb-6 flex items-center justify-between">
+        <h1 className="font-geist text-[24px] font-medium leading-[120%] tracking-[-0.48px] text-[#030712]">
+          Generate Coupon Codes
+        </h1>
+
+        {/* Action Buttons */}
+        <div className="flex items-center gap-3">
+          <button
+            type="button"
+            onClick={() => router.push("/admin/promos")}
+            disabled={isSubmitting}
+            className="h-10 cursor-pointer rounded-lg border border-[#E5E7EB] bg-white px-6 font-public text-[14px] font-medium text-[#030712] transition-colors hover:bg-[#F9FAFB] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Cancel
+          </button>
+
+          <button
+            type="button"
+            onClick={handleSubmit}
+            disabled={isSubmitting}
+            className="h-10 cursor-pointer rounded-lg bg-[#030712] px-6 font-public text-[14px] font-medium text-white transition-colors hover:bg-[#1f2937] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {isSubmitting ? "Generating..." : "Generate"}
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-6">
+        <PromoFormSection title="Codes">
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <div className="space-y-4">
+              <PromoFormInput
+                label="Campaign Name"
+                placeholder="e.g., Frozen Flyer March"
+                value={form.name}
+                onChange={(value) => handleChange("name", value)}
+              />
+
+              <PromoFormInput
+                label="Code Prefix"
+                placeholder="e.g., FROZEN"
+                value={form.prefix}
+                onChange={(value) => handleChange("prefix", value.toUpperCase())}
+              />
+
+              <PromoFormInput
+                label="Number of Codes"
+                placeholder="e.g., 1000"
+                type="number"
+                value={form.quantity}
+                onChange={(value) => handleChange("quantity", value)}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <PromoFormInput
+                label="Random Part Length"
+                placeholder="e.g., 8"
+                type="number"
+                value={form.codeLength}
+                onChange={(value) => handleChange("codeLength", value)}
+              />
+
+              <PromoFormInput
+                label="Characters"
+                placeholder={DEFAULT_ALPHABET}
+                value={form.alphabet}
+                onChange={(value) => handleChange("alphabet", value.toUpperCase())}
+              />
+
+              <PromoFormInput
+                label="Uses Per Code"
+                placeholder="1 for single-use codes"
+                type="number"
+                value={form.usageLimitPerCode}
+                onChange={(value) => handleChange("usageLimitPerCode", value)}
+              />
+            </div>
+          </div>
+
+          <p className="font-public text-[12px] text-[#6A7282]">
+            Codes will look like{" "}
+            <span className="font-medium text-[#030712]">
+              {getSampleCode(form.prefix, parseInt(form.codeLength, 10) || 8, form.alphabet)}
+            </span>
+          </p>
+        </PromoFormSection>
+
+        <PromoFormSection title="Discount">
+          <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+            <div className="space-y-4">
+              <PromoFormDropdown
+                label="Discount Type"
+                value={form.type}
+                onChange={(value) => handleChange("type", value)}
+                options={typeOptions}
+              />
+
+              <PromoFormInput
+                label={form.type === "percentage" ? "Discount %" : "Discount Amount ($)"}
+                placeholder={form.type === "percentage" ? "e.g., 20" : "e.g., 15 for $15 off"}
+                value={form.value}
+                onChange={(value) => handleChange("value", value)}
+              />
+            </div>
+
+            <div className="space-y-4">
+              <PromoFormDateInput
+                label="Start Date"
+                placeholder="Select start date"
+                value={form.startDate}
+                onChange={(value) => handleChange("startDate", value)}
+              />
+
+              <PromoFormDateInput
+                label="End Date"
+                placeholder="Select end date"
+                value={form.endDate}
+                onChange={(value) => handleChange("endDate", value)}
+              />
+            </div>
+          </div>
+        </PromoFormSection>
+
+        <CouponConditionsSection
+          value={conditions}
+          onChange={setConditions}
+          discountType={form.type}
+        />
+      </div>
+    </div>
+  );
+}
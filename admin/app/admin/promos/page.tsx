@@ -7,21 +7,33 @@ import {
   PromoToolbar,
   PromoTable,
   PWPRulesTable,
+  AutoPromotionsTable,
   PromoPagination,
 } from "@/components/admin/promo";
-import type { Coupon, PWPRule, PromoTab } from "@/lib/types/promo";
+import type { AutoPromotion, Coupon, CouponBatchStats, PWPRule, PromoTab } from "@/lib/types/promo";
 import type { CouponSortField, SortDirection } from "@/components/admin/promo/PromoTable";
 import type { PWPSortField } from "@/components/admin/promo/PWPRulesTable";
-import { usePromoStats, useCoupons, usePWPRules } from "@/lib/api/queries";
-import { useDeleteCoupon, useDeletePWPRule } from "@/lib/api/mutations";
-import { transformCouponForDisplay, transformPWPRuleForDisplay } from "@/lib/api/promos";
+import type { AutoPromotionSortField } from "@/components/admin/promo/AutoPromotionsTable";
+import { usePromoStats, useCoupons, usePWPRules, useAutoPromotions } from "@/lib/api/queries";
+import {
+  useDeleteAutoPromotion,
+  useDeleteCoupon,
+  useDeleteCouponBatch,
+  useDeletePWPRule,
+} from "@/lib/api/mutations";
+import {
+  exportCouponBatchCSV,
+  transformAutoPromotionForDisplay,
+  transformCouponForDisplay,
+  transformPWPRuleForDisplay,
+} from "@/lib/api/promos";
 import { useToast } from "@/contexts/ToastContext";
 
 const ITEMS_PER_PAGE = 10;
 
 export default function PromosPage(): React.JSX.Element {
   const router = useRouter();
-  const { confirm } = useToast();
+  const { confirm, showToast } = useToast();
   const [activeTab, setActiveTab] = useState<PromoTab>("coupons");
   const [searchQuery, setSearchQuery] = useState("");
   const [sortBy, setSortBy] = useState("newest");
@@ -36,6 +48,10 @@ export default function PromosPage(): React.JSX.Element {
   const [pwpSortField, setPwpSortField] = useState<PWPSortField | undefined>(undefined);
   const [pwpSortDirection, setPwpSortDirection] = useState<SortDirection>("desc");
 
+  // Column sorting state for automatic promotions
+  const [autoSortField, setAutoSortField] = useState<AutoPromotionSortField | undefined>(undefined);
+  const [autoSortDirection, setAutoSortDirection] = useState<SortDirection>("desc");
+
   // API queries - fetch all items for client-side sorting to work correctly
   // Using high limit since promo datasets are typically small
   const { data: statsData, isLoading: isLoadingStats } = usePromoStats();
@@ -49,10 +65,17 @@ export default function PromosPage(): React.JSX.Element {
     limit: 1000,
     offset: 0,
   });
+  const { data: autoPromotionsData, isLoading: isLoadingAutoPromotions } = useAutoPromotions({
+    q: searchQuery || undefined,
+    limit: 1000,
+    offset: 0,
+  });
 
   // Mutations
   const deleteCouponMutation = useDeleteCoupon();
   const deletePWPRuleMutation = useDeletePWPRule();
+  const deleteCouponBatchMutation = useDeleteCouponBatch();
+  const deleteAutoPromotionMutation = useDeleteAutoPromotion();
 
   // Transform API data to display format
   const coupons: Coupon[] = useMemo(() => {
@@ -65,11 +88,17 @@ export default function PromosPage(): React.JSX.Element {
     return pwpRulesData.pwp_rules.map(transformPWPRuleForDisplay);
   }, [pwpRulesData]);
 
+  const autoPromotions: AutoPromotion[] = useMemo(() => {
+    if (!autoPromotionsData?.auto_promotions) return [];
+    return autoPromotionsData.auto_promotions.map(transformAutoPromotionForDisplay);
+  }, [autoPromotionsData]);
+
   // Default stats
   const stats = statsData ?? {
     totalPromo: 0,
     activePromo: 0,
     redemptionCoupons: 0,
+    batches: [],
   };
 
   // Filter and sort coupons
@@ -197,8 +226,81 @@ export default function PromosPage(): React.JSX.Element {
     return result;
   }, [pwpRules, sortBy, pwpSortField, pwpSortDirection]);
 
+  // Filter and sort automatic promotions
+  const filteredAutoPromotions = useMemo(() => {
+    const result = [...autoPromotions];
+
+    // Column sort
+    if (autoSortField) {
+      result.sort((a, b) => {
+        let aVal: string | number = "";
+        let bVal: string | number = "";
+
+        switch (autoSortField) {
+          case "displayId":
+            aVal = a.displayId;
+            bVal = b.displayId;
+            break;
+          case "name":
+            aVal = a.name;
+            bVal = b.name;
+            break;
+          case "type":
+            aVal = a.typeLabel;
+            bVal = b.typeLabel;
+            break;
+          case "date":
+            aVal = a.startDate;
+            bVal = b.startDate;
+            break;
+          case "priority":
+            aVal = a.priority;
+            bVal = b.priority;
+            break;
+          case "status":
+            aVal = a.status;
+            bVal = b.status;
+            break;
+        }
+
+        if (typeof aVal === "number" && typeof bVal === "number") {
+          return autoSortDirection === "asc" ? aVal - bVal : bVal - aVal;
+        }
+        if (typeof aVal === "string" && typeof bVal === "string") {
+          return autoSortDirection === "asc"
+            ? aVal.localeCompare(bVal)
+            : bVal.localeCompare(aVal);
+        }
+        return 0;
+      });
+    } else {
+      // Toolbar sort
+      switch (sortBy) {
+        case "oldest":
+          result.reverse();
+          break;
+        case "code_asc":
+          result.sort((a, b) => a.name.localeCompare(b.name));
+          break;
+        case "code_desc":
+          result.sort((a, b) => b.name.localeCompare(a.name));
+          break;
+        default:
+          // newest - keep original order
+          break;
+      }
+    }
+
+    return result;
+  }, [autoPromotions, sortBy, autoSortField, autoSortDirection]);
+
   // Get current data based on active tab
-  const currentData = activeTab === "coupons" ? filteredCoupons : filteredPWPRules;
+  const currentData =
+    activeTab === "coupons"
+      ? filteredCoupons
+      : activeTab === "pwp-rules"
+        ? filteredPWPRules
+        : filteredAutoPromotions;
 
   // Calculate pagination
   const totalItems = currentData.length;
@@ -216,6 +318,11 @@ export default function PromosPage(): React.JSX.Element {
     return filteredPWPRules.slice(startIndex, endIndex);
   }, [filteredPWPRules, startIndex, endIndex]);
 
+  // Get paginated automatic promotions
+  const paginatedAutoPromotions = useMemo(() => {
+    return filteredAutoPromotions.slice(startIndex, endIndex);
+  }, [filteredAutoPromotions, startIndex, endIndex]);
+
   // Handle tab change
   const handleTabChange = (tab: PromoTab): void => {
     setActiveTab(tab);
@@ -224,6 +331,7 @@ export default function PromosPage(): React.JSX.Element {
     // Reset column sorting
     setCouponSortField(undefined);
     setPwpSortField(undefined);
+    setAutoSortField(undefined);
   };
 
   // Handle search change
@@ -239,6 +347,7 @@ export default function PromosPage(): React.JSX.Element {
     // Reset column sorting when using toolbar sort
     setCouponSortField(undefined);
     setPwpSortField(undefined);
+    setAutoSortField(undefined);
   };
 
   // Handle coupon column sort
@@ -265,6 +374,18 @@ export default function PromosPage(): React.JSX.Element {
     setCurrentPage(1);
   };
 
+  // Handle automatic promotion column sort
+  const handleAutoPromotionSort = (field: AutoPromotionSortField): void => {
+    if (autoSortField === field) {
+      // Toggle direction
+      setAutoSortDirection(autoSortDirection === "asc" ? "desc" : "asc");
+    } else {
+      setAutoSortField(field);
+      setAutoSortDirection("asc");
+    }
+    setCurrentPage(1);
+  };
+
   // Handle page change
   const handlePageChange = (page: number): void => {
     setCurrentPage(page);
@@ -287,6 +408,8 @@ export default function PromosPage(): React.JSX.Element {
   const handleAddClick = (): void => {
     if (activeTab === "coupons") {
       router.push("/admin/promos/add?type=coupon");
+    } else if (activeTab === "auto-promotions") {
+      router.push("/admin/promos/auto-promotions/add");
     } else {
       router.push("/admin/promos/add?type=pwp");
     }
@@ -296,6 +419,8 @@ export default function PromosPage(): React.JSX.Element {
   const handleEdit = (id: string): void => {
     if (activeTab === "coupons") {
       router.push(`/admin/promos/edit/${id}?type=coupon`);
+    } else if (activeTab === "auto-promotions") {
+      router.push(`/admin/promos/auto-promotions/edit/${id}`);
     } else {
       router.push(`/admin/promos/edit/${id}?type=pwp`);
     }
@@ -314,18 +439,70 @@ export default function PromosPage(): React.JSX.Element {
     if (confirmed) {
       if (activeTab === "coupons") {
         deleteCouponMutation.mutate(id);
+      } else if (activeTab === "auto-promotions") {
+        deleteAutoPromotionMutation.mutate(id);
       } else {
         deletePWPRuleMutation.mutate(id);
       }
     }
   };
 
-  const isLoading = activeTab === "coupons" ? isLoadingCoupons : isLoadingPWPRules;
+  // Download the codes of a coupon batch
+  const handleExportBatch = async (batch: CouponBatchStats): Promise<void> => {
+    let blobUrl: string | null = null;
+
+    try {
+      const blob = await exportCouponBatchCSV(batch.batch_id);
+
+      blobUrl = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = blobUrl;
+      a.download = `coupon-batch-${batch.prefix || batch.batch_id}.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+    } catch (error) {
+      console.error("Failed to export coupon batch:", error);
+      showToast("Failed to export coupon codes. Please try again.", "error");
+    } finally {
+      if (blobUrl) {
+        window.URL.revokeObjectURL(blobUrl);
+      }
+    }
+  };
+
+  // Delete a coupon batch and all of its codes
+  const handleDeleteBatch = async (batch: CouponBatchStats): Promise<void> => {
+    const confirmed = await confirm({
+      title: "Delete Coupon Batch",
+      message: `Are you sure you want to delete "${batch.name}" and all ${batch.total_codes} of its codes?`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+      type: "danger",
+    });
+
+    if (confirmed) {
+      deleteCouponBatchMutation.mutate(batch.batch_id);
+    }
+  };
+
+  const isLoading =
+    activeTab === "coupons"
+      ? isLoadingCoupons
+      : activeTab === "pwp-rules"
+        ? isLoadingPWPRules
+        : isLoadingAutoPromotions;
 
   return (
     <div className="px-4 md:px-8">
       {/* Stats Cards */}
-      <PromoStatsCards stats={stats} isLoading={isLoadingStats} />
+      <PromoStatsCards
+        stats={stats}
+        isLoading={isLoadingStats}
+        onGenerateBatch={() => router.push("/admin/promos/batches/add")}
+        onExportBatch={handleExportBatch}
+        onDeleteBatch={handleDeleteBatch}
+      />
 
       {/* Toolbar with Tabs */}
       <PromoToolbar
@@ -364,6 +541,18 @@ export default function PromosPage(): React.JSX.Element {
         />
       )}
 
+      {activeTab === "auto-promotions" && (
+        <AutoPromotionsTable
+          promotions={paginatedAutoPromotions}
+          isLoading={isLoading}
+          sortField={autoSortField}
+          sortDirection={autoSortDirection}
+          onSort={handleAutoPromotionSort}
+          onEdit={handleEdit}
+          onDelete={handleDelete}
+        />
+      )}
+
       {/* Pagination */}
       {totalPages > 0 && (
         <PromoPagination
@@ -4,7 +4,7 @@ import React, { useState, useEffect, Suspense } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
 import { ReturnStatsCards, ReturnToolbar, ReturnsList, ReturnDetailsDrawer, CreateReturnDrawer, OrderSearchModal } from "@/components/admin";
 import { useReturns, useReturnStats } from "@/lib/api/queries";
-import { checkCanReturn } from "@/lib/api/returns";
+import { checkCanReturn, getReturnById } from "@/lib/api/returns";
 import {
   approveReturn,
   rejectReturn,
@@ -12,12 +12,22 @@ import {
   markReturnReceived,
   completeReturn,
   processRefund,
+  adjustRefundAmount,
+  inspectReturn,
   createReturn,
   createReplacementOrder,
 } from "@/lib/api/returns";
 import { useToast } from "@/contexts/ToastContext";
 import { useQueryClient } from "@tanstack/react-query";
-import type { Return, ReturnFilter, CreateReturnRequest, CanReturnResponse } from "@/lib/validators/return";
+import type {
+  Return,
+  ReturnFilter,
+  CreateReturnRequest,
+  CanReturnResponse,
+  ProcessRefundRequest,
+  AdjustRefundAmountRequest,
+  InspectReturnRequest,
+} from "@/lib/validators/return";
 
 const RETURNS_PER_PAGE = 10;
 
@@ -210,15 +220,17 @@ function ReturnsPageContent(): React.JSX.Element {
     }
   };
 
-  const handleProcessRefund = async (returnId: string): Promise<void> => {
+  const handleProcessRefund = async (returnId: string, data?: ProcessRefundRequest): Promise<void> => {
     try {
       showToast("Processing refund...", "info");
-      const result = await processRefund(returnId);
+      const result = await processRefund(returnId, data);
       queryClient.invalidateQueries({ queryKey: ["returns"] });
       queryClient.invalidateQueries({ queryKey: ["returns", "stats"] });
 
       // Build success message including points info if applicable
-      let successMessage = "Refund processed successfully";
+      let successMessage = result.remaining_refund > 0
+        ? "Partial refund processed successfully"
+        : "Refund processed successfully";
       if (result.points) {
         const pointsParts: string[] = [];
         if (result.points.points_deducted > 0) {
@@ -240,6 +252,40 @@ function ReturnsPageContent(): React.JSX.Element {
     }
   };
 
+  const handleAdjustRefund = async (returnId: string, data: AdjustRefundAmountRequest): Promise<void> => {
+    try {
+      await adjustRefundAmount(returnId, data);
+      queryClient.invalidateQueries({ queryKey: ["returns"] });
+      // Keep the drawer open with the new amounts
+      setSelectedReturn(await getReturnById(returnId));
+      showToast("Refund amount updated", "success");
+    } catch (error: unknown) {
+      console.error("Failed to adjust refund amount:", error);
+      showToast(getErrorMessage(error) || "Failed to adjust refund amount", "error");
+    }
+  };
+
+  const handleInspect = async (returnId: string, data: InspectReturnRequest): Promise<void> => {
+    try {
+      const result = await inspectReturn(returnId, data);
+      queryClient.invalidateQueries({ queryKey: ["returns"] });
+      setSelectedReturn(await getReturnById(returnId));
+      if (result.restock_errors.length > 0) {
+        showToast(`Inspection saved, but ${result.restock_errors.length} item(s) could not be restocked`, "error");
+      } else {
+        showToast(
+          result.restocked_units > 0
+            ? `Inspection saved, ${result.restocked_units} unit(s) restocked`
+            : "Inspection saved",
+          "success"
+        );
+      }
+    } catch (error: unknown) {
+      console.error("Failed to record inspection:", error);
+      showToast(getErrorMessage(error) || "Failed to record inspection", "error");
+    }
+  };
+
   const handleCreateReplacementOrder = async (returnId: string): Promise<void> => {
     try {
       showToast("Creating replacement order...", "info");
@@ -318,9 +364,17 @@ function ReturnsPageContent(): React.JSX.Element {
 
       {/* Returns Section */}
       <div>
-        <h2 className="mb-4 font-geist text-[20px] font-medium leading-[120%] tracking-[-0.4px] text-[#030712] md:mb-6">
-          Returns & Refunds
-        </h2>
+        <div className="mb-4 flex items-center justify-between md:mb-6">
+          <h2 className="font-geist text-[20px] font-medium leading-[120%] tracking-[-0.4px] text-[#030712]">
+            Returns & Refunds
+          </h2>
+          <button
+            onClick={() => router.push("/admin/returns/report")}
+            className="cursor-pointer rounded-lg border border-[#E5E7EB] bg-white px-4 py-2 font-geist text-[14px] font-medium text-[#030712] hover:bg-[#F9FAFB]"
+          >
+            Inspection Report
+          </button>
+        </div>
 
         {/* Toolbar */}
         <ReturnToolbar
@@ -359,6 +413,8 @@ function ReturnsPageContent(): React.JSX.Element {
         onMarkReceived={handleMarkReceived}
         onComplete={handleComplete}
         onProcessRefund={handleProcessRefund}
+        onAdjustRefund={handleAdjustRefund}
+        onInspect={handleInspect}
         onCreateReplacement={handleCreateReplacementOrder}
       />
 
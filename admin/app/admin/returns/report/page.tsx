@@ -0,0 +1,151 @@
+"use client"
+
+import React, { useState } from "react"
+import { useRouter } from "next/navigation"
+import { useReturnReport } from "@/lib/api/queries"
+import { formatCurrency } from "@/lib/api/tiers"
+import { inspectionResultLabels, type InspectionResult } from "@/lib/validators/return"
+
+function toDateInput(date: Date): string {
+  return date.toISOString().split("T")[0]
+}
+
+const RESULTS: InspectionResult[] = ["resellable", "damaged", "spoiled"]
+
+/**
+ * Returns Report Page
+ * Inspection outcomes of returned items and the value written off for spoiled stock
+ */
+export default function ReturnsReportPage(): React.JSX.Element {
+  const router = useRouter()
+  const today = new Date()
+  const [to, setTo] = useState(toDateInput(today))
+  const [from, setFrom] = useState(toDateInput(new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000)))
+  const { data: report, isLoading, error } = useReturnReport(from, to)
+
+  if (error) {
+    return (
+      <div className="px-4 md:px-8">
+        <div className="flex h-64 items-center justify-center">
+          <p className="text-red-600">Failed to load returns report</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="px-4 md:px-8">
+      {/* Header */}
+      <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="font-geist text-[24px] font-medium text-neutral-900">
+            Returns Report
+          </h1>
+          <p className="mt-1 text-[14px] text-neutral-500">
+            What came back from inspection, what went back into stock and what was written off.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => router.push("/admin/returns")}
+            className="cursor-pointer rounded-lg border border-neutral-200 bg-white px-4 py-2 text-[14px] font-medium text-neutral-900 hover:bg-neutral-50"
+          >
+            Back to Returns
+          </button>
+          <input
+            type="date"
+            value={from}
+            max={to}
+            onChange={(e) => e.target.value && setFrom(e.target.value)}
+            className="rounded-lg border border-neutral-200 bg-white px-3 py-2 text-[14px] text-neutral-900"
+            aria-label="From"
+          />
+          <span className="text-[14px] text-neutral-500">-</span>
+          <input
+            type="date"
+            value={to}
+            min={from}
+            max={toDateInput(today)}
+            onChange={(e) => e.target.value && setTo(e.target.value)}
+            className="rounded-lg border border-neutral-200 bg-white px-3 py-2 text-[14px] text-neutral-900"
+            aria-label="To"
+          />
+        </div>
+      </div>
+
+      {isLoading || !report ? (
+        <div className="flex h-64 items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-neutral-900 border-r-transparent" />
+        </div>
+      ) : (
+        <>
+          {/* Summary */}
+          <div className="mb-6 grid gap-4 md:grid-cols-2 lg:grid-cols-4">
+            <div className="rounded-lg border border-neutral-200 bg-white p-6">
+              <p className="text-[12px] font-medium uppercase tracking-wide text-neutral-500">Returns Inspected</p>
+              <p className="mt-2 text-[24px] font-medium text-neutral-900">{report.returns_inspected}</p>
+              <p className="text-[13px] text-neutral-500">{report.totals.units} unit(s)</p>
+            </div>
+            <div className="rounded-lg border border-neutral-200 bg-white p-6">
+              <p className="text-[12px] font-medium uppercase tracking-wide text-neutral-500">Restocked</p>
+              <p className="mt-2 text-[24px] font-medium text-neutral-900">{report.totals.restocked_units}</p>
+              <p className="text-[13px] text-neutral-500">unit(s) back in inventory</p>
+            </div>
+            <div className="rounded-lg border border-neutral-200 bg-white p-6">
+              <p className="text-[12px] font-medium uppercase tracking-wide text-neutral-500">Spoilage</p>
+              <p className="mt-2 text-[24px] font-medium text-red-600">{formatCurrency(report.spoilage.write_off)}</p>
+              <p className="text-[13px] text-neutral-500">
+                {report.spoilage.units} unit(s) across {report.spoilage.returns} return(s)
+              </p>
+            </div>
+            <div className="rounded-lg border border-neutral-200 bg-white p-6">
+              <p className="mb-2 text-[12px] font-medium uppercase tracking-wide text-neutral-500">By Result</p>
+              <div className="space-y-1 text-[14px]">
+                {RESULTS.map((result) => (
+                  <div key={result} className="flex justify-between">
+                    <span className="text-neutral-500">{inspectionResultLabels[result]}:</span>
+                    <span className="font-medium text-neutral-900">{report.by_result[result].units}</span>
+                  </div>
+                ))}
+                <div className="flex justify-between border-t border-neutral-100 pt-1">
+                  <span className="text-neutral-500">Total written off:</span>
+                  <span className="font-medium text-neutral-900">{formatCurrency(report.totals.write_off)}</span>
+                </div>
+              </div>
+            </div>
+          </div>
+
+          {/* Most spoiled products */}
+          <div className="overflow-x-auto rounded-lg border border-neutral-200 bg-white">
+            <table className="w-full text-left text-[14px]">
+              <thead className="border-b border-neutral-200 bg-neutral-50 text-[12px] uppercase tracking-wide text-neutral-500">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Spoiled Product</th>
+                  <th className="px-4 py-3 font-medium">Units</th>
+                  <th className="px-4 py-3 font-medium">Written Off</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.top_spoiled_products.length === 0 ? (
+                  <tr>
+                    <td colSpan={3} className="px-4 py-12 text-center text-neutral-500">
+                      No spoiled returns in this period
+                    </td>
+                  </tr>
+                ) : (
+                  report.top_spoiled_products.map((product) => (
+                    <tr key={product.variant_id ?? product.product_name} className="border-b border-neutral-100 last:border-0">
+                      <td className="px-4 py-3 font-medium text-neutral-900">{product.product_name}</td>
+                      <td className="px-4 py-3 text-neutral-900">{product.units}</td>
+                      <td className="px-4 py-3 text-red-600">{formatCurrency(product.write_off)}</td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -15,31 +15,64 @@ import {
   ShoppingBag,
   Clock,
   AlertCircle,
+  Flag,
+  MessageSquare,
+  History,
+  Settings,
 } from "lucide-react";
 import {
   getAdminReviews,
   approveReview,
   rejectReview,
   deleteAdminReview,
+  replyToReview,
+  deleteReviewReply,
   type AdminReview,
+  type ReviewModerationFlag,
+  type ReviewStatus,
+  type ReviewSort,
 } from "@/lib/api/reviews";
+import { ReviewSettingsPanel, ReviewModerationHistory } from "@/components/admin";
 import { useToast } from "@/contexts/ToastContext";
 import Image from "next/image";
 
-type FilterTab = "all" | "pending" | "approved" | "guest";
+type FilterTab = "all" | "queue" | "approved" | "rejected" | "guest";
+
+const FLAG_LABELS: Record<ReviewModerationFlag["rule"], string> = {
+  banned_word: "Banned word",
+  link: "Link",
+  phone_number: "Phone number",
+  duplicate: "Duplicate text",
+  rate_limit: "Too many reviews",
+  reported: "Reported",
+};
+
+const STATUS_BADGES: Record<ReviewStatus, { label: string; className: string }> = {
+  pending: { label: "Pending", className: "bg-yellow-100 text-yellow-700" },
+  flagged: { label: "Flagged", className: "bg-orange-100 text-orange-700" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-700" },
+  rejected: { label: "Rejected", className: "bg-gray-100 text-gray-600" },
+};
 
 export default function ReviewsPage() {
   const queryClient = useQueryClient();
   const { showToast } = useToast();
-  const [activeTab, setActiveTab] = useState<FilterTab>("pending");
+  const [activeTab, setActiveTab] = useState<FilterTab>("queue");
   const [selectedReview, setSelectedReview] = useState<AdminReview | null>(null);
+  const [showSettings, setShowSettings] = useState(false);
+  const [sortBy, setSortBy] = useState<ReviewSort>("recent");
+  // Reply being written per review id; absent when the editor is closed
+  const [replyDrafts, setReplyDrafts] = useState<Record<string, string>>({});
+  const [historyOpenId, setHistoryOpenId] = useState<string | null>(null);
 
   const getFilters = () => {
     switch (activeTab) {
-      case "pending":
-        return { is_approved: false };
+      case "queue":
+        return { status: ["pending", "flagged"] as ReviewStatus[] };
       case "approved":
-        return { is_approved: true };
+        return { status: ["approved"] as ReviewStatus[] };
+      case "rejected":
+        return { status: ["rejected"] as ReviewStatus[] };
       case "guest":
         return { is_guest_review: true };
       default:
@@ -48,18 +81,18 @@ export default function ReviewsPage() {
   };
 
   const { data, isLoading, error } = useQuery({
-    queryKey: ["admin-reviews", activeTab],
-    queryFn: () => getAdminReviews({ ...getFilters(), limit: 50 }),
+    queryKey: ["admin-reviews", activeTab, sortBy],
+    queryFn: () => getAdminReviews({ ...getFilters(), sort: sortBy, limit: 50 }),
   });
 
-  // Always fetch pending count for badge
+  // Always fetch the queue size for the badge
   const { data: pendingData } = useQuery({
     queryKey: ["admin-reviews", "pending-count"],
-    queryFn: () => getAdminReviews({ is_approved: false, limit: 1 }),
+    queryFn: () => getAdminReviews({ status: ["pending", "flagged"], limit: 1 }),
   });
 
   const approveMutation = useMutation({
-    mutationFn: approveReview,
+    mutationFn: (id: string) => approveReview(id),
     onSuccess: () => {
       showToast("Review approved", "success");
       queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
@@ -70,7 +103,7 @@ export default function ReviewsPage() {
   });
 
   const rejectMutation = useMutation({
-    mutationFn: rejectReview,
+    mutationFn: (id: string) => rejectReview(id),
     onSuccess: () => {
       showToast("Review rejected", "success");
       queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
@@ -92,6 +125,37 @@ export default function ReviewsPage() {
     },
   });
 
+  const replyMutation = useMutation({
+    mutationFn: ({ id, content }: { id: string; content: string }) => replyToReview(id, content),
+    onSuccess: (review) => {
+      showToast("Reply published", "success");
+      closeReplyEditor(review.id);
+      queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
+    },
+    onError: () => {
+      showToast("Failed to save reply", "error");
+    },
+  });
+
+  const deleteReplyMutation = useMutation({
+    mutationFn: deleteReviewReply,
+    onSuccess: () => {
+      showToast("Reply removed", "success");
+      queryClient.invalidateQueries({ queryKey: ["admin-reviews"] });
+    },
+    onError: () => {
+      showToast("Failed to remove reply", "error");
+    },
+  });
+
+  const closeReplyEditor = (id: string) => {
+    setReplyDrafts((drafts) => {
+      const next = { ...drafts };
+      delete next[id];
+      return next;
+    });
+  };
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-MY", {
       year: "numeric",
@@ -137,8 +201,9 @@ export default function ReviewsPage() {
   };
 
   const tabs: { key: FilterTab; label: string; count?: number }[] = [
-    { key: "pending", label: "Pending Approval" },
+    { key: "queue", label: "Moderation Queue" },
     { key: "approved", label: "Approved" },
+    { key: "rejected", label: "Rejected" },
     { key: "guest", label: "Guest Reviews" },
     { key: "all", label: "All Reviews" },
   ];
@@ -157,15 +222,26 @@ export default function ReviewsPage() {
   return (
     <div className="px-4 md:px-8 py-6">
       {/* Header */}
-      <div className="mb-6">
-        <h1 className="text-2xl font-bold text-gray-900">Review Management</h1>
-        <p className="text-gray-600 mt-1">
-          Manage and moderate customer reviews
-        </p>
+      <div className="mb-6 flex items-start justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Review Management</h1>
+          <p className="text-gray-600 mt-1">
+            Manage and moderate customer reviews
+          </p>
+        </div>
+        <button
+          onClick={() => setShowSettings((open) => !open)}
+          className="flex items-center gap-1 px-3 py-2 text-sm border border-gray-300 rounded-lg hover:bg-gray-50"
+        >
+          <Settings className="w-4 h-4" />
+          Moderation Settings
+        </button>
       </div>
 
+      {showSettings && <ReviewSettingsPanel onClose={() => setShowSettings(false)} />}
+
       {/* Tabs */}
-      <div className="flex gap-2 mb-6 border-b border-gray-200">
+      <div className="flex items-end gap-2 mb-6 border-b border-gray-200">
         {tabs.map((tab) => (
           <button
             key={tab.key}
@@ -177,13 +253,23 @@ export default function ReviewsPage() {
             }`}
           >
             {tab.label}
-            {tab.key === "pending" && pendingData?.count !== undefined && pendingData.count > 0 && (
+            {tab.key === "queue" && pendingData?.count !== undefined && pendingData.count > 0 && (
               <span className="ml-2 px-2 py-0.5 text-xs bg-red-100 text-red-600 rounded-full">
                 {pendingData.count}
               </span>
             )}
           </button>
         ))}
+        <select
+          value={sortBy}
+          onChange={(e) => setSortBy(e.target.value as ReviewSort)}
+          className="ml-auto mb-2 border border-gray-300 rounded-lg px-3 py-1.5 text-sm"
+        >
+          <option value="recent">Most recent</option>
+          <option value="helpful">Most helpful</option>
+          <option value="rating_desc">Highest rating</option>
+          <option value="rating_asc">Lowest rating</option>
+        </select>
       </div>
 
       {/* Content */}
@@ -201,7 +287,11 @@ export default function ReviewsPage() {
             <div
               key={review.id}
               className={`bg-white border rounded-lg p-4 hover:shadow-md transition-shadow ${
-                !review.is_approved ? "border-yellow-300 bg-yellow-50/30" : ""
+                review.status === "flagged"
+                  ? "border-orange-300 bg-orange-50/30"
+                  : review.status === "pending"
+                    ? "border-yellow-300 bg-yellow-50/30"
+                    : ""
               }`}
             >
               {/* Header */}
@@ -237,19 +327,35 @@ export default function ReviewsPage() {
                 </div>
 
                 {/* Status Badge */}
-                <div>
-                  {review.is_approved ? (
-                    <span className="px-2 py-1 text-xs bg-green-100 text-green-700 rounded">
-                      Approved
-                    </span>
-                  ) : (
-                    <span className="px-2 py-1 text-xs bg-yellow-100 text-yellow-700 rounded">
-                      Pending
+                <div className="flex items-center gap-2">
+                  {review.report_count > 0 && (
+                    <span className="flex items-center gap-1 px-2 py-1 text-xs bg-red-100 text-red-700 rounded">
+                      <Flag className="w-3 h-3" />
+                      {review.report_count} {review.report_count === 1 ? "report" : "reports"}
                     </span>
                   )}
+                  <span className={`px-2 py-1 text-xs rounded ${STATUS_BADGES[review.status]?.className ?? STATUS_BADGES.pending.className}`}>
+                    {STATUS_BADGES[review.status]?.label ?? review.status}
+                  </span>
                 </div>
               </div>
 
+              {/* Screening flags */}
+              {review.status === "flagged" && review.moderation_flags && review.moderation_flags.length > 0 && (
+                <div className="flex flex-wrap gap-2 mb-3">
+                  {review.moderation_flags.map((flag, idx) => (
+                    <span
+                      key={idx}
+                      className="flex items-center gap-1 px-2 py-0.5 text-xs bg-orange-100 text-orange-700 rounded"
+                      title={flag.detail}
+                    >
+                      <Flag className="w-3 h-3" />
+                      {FLAG_LABELS[flag.rule] ?? flag.rule}: {flag.detail}
+                    </span>
+                  ))}
+                </div>
+              )}
+
               {/* Contact Info for Guest */}
               {review.is_guest_review && (
                 <div className="flex gap-4 text-sm text-gray-500 mb-3">
@@ -315,9 +421,56 @@ export default function ReviewsPage() {
                 </div>
               )}
 
+              {/* Merchant reply */}
+              {review.reply_content && replyDrafts[review.id] === undefined && (
+                <div className="mt-3 p-3 bg-blue-50 border-l-2 border-blue-400 rounded">
+                  <div className="flex items-center justify-between mb-1">
+                    <span className="text-xs font-medium text-blue-700">Store reply</span>
+                    {review.replied_at && (
+                      <span className="text-xs text-gray-500">{formatDate(review.replied_at)}</span>
+                    )}
+                  </div>
+                  <p className="text-sm text-gray-700 whitespace-pre-line">{review.reply_content}</p>
+                </div>
+              )}
+              {replyDrafts[review.id] !== undefined && (
+                <div className="mt-3">
+                  <textarea
+                    value={replyDrafts[review.id]}
+                    onChange={(e) => setReplyDrafts((drafts) => ({ ...drafts, [review.id]: e.target.value }))}
+                    rows={3}
+                    maxLength={2000}
+                    placeholder="Write a public reply..."
+                    className="w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+                  />
+                  <div className="flex gap-2 mt-2">
+                    <button
+                      onClick={() => replyMutation.mutate({ id: review.id, content: replyDrafts[review.id] })}
+                      disabled={replyMutation.isPending || !replyDrafts[review.id].trim()}
+                      className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                      Publish Reply
+                    </button>
+                    <button
+                      onClick={() => closeReplyEditor(review.id)}
+                      className="px-3 py-1.5 text-sm text-gray-600 border border-gray-200 rounded hover:bg-gray-50"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {/* Moderation history */}
+              {historyOpenId === review.id && (
+                <div className="mt-3 p-3 bg-gray-50 rounded">
+                  <ReviewModerationHistory reviewId={review.id} />
+                </div>
+              )}
+
               {/* Actions */}
-              <div className="flex gap-2 mt-4 pt-3 border-t">
-                {!review.is_approved && (
+              <div className="flex flex-wrap gap-2 mt-4 pt-3 border-t">
+                {review.status !== "approved" && (
                   <button
                     onClick={() => approveMutation.mutate(review.id)}
                     disabled={approveMutation.isPending}
@@ -327,7 +480,7 @@ export default function ReviewsPage() {
                     Approve
                   </button>
                 )}
-                {review.is_approved && (
+                {review.status !== "rejected" && (
                   <button
                     onClick={() => rejectMutation.mutate(review.id)}
                     disabled={rejectMutation.isPending}
@@ -337,6 +490,35 @@ export default function ReviewsPage() {
                     Reject
                   </button>
                 )}
+                {replyDrafts[review.id] === undefined && (
+                  <button
+                    onClick={() => setReplyDrafts((drafts) => ({ ...drafts, [review.id]: review.reply_content || "" }))}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-blue-600 border border-blue-200 rounded hover:bg-blue-50"
+                  >
+                    <MessageSquare className="w-4 h-4" />
+                    {review.reply_content ? "Edit Reply" : "Reply"}
+                  </button>
+                )}
+                {review.reply_content && (
+                  <button
+                    onClick={() => {
+                      if (confirm("Remove the store reply from this review?")) {
+                        deleteReplyMutation.mutate(review.id);
+                      }
+                    }}
+                    disabled={deleteReplyMutation.isPending}
+                    className="px-3 py-1.5 text-sm text-gray-600 border border-gray-200 rounded hover:bg-gray-50 disabled:opacity-50"
+                  >
+                    Remove Reply
+                  </button>
+                )}
+                <button
+                  onClick={() => setHistoryOpenId(historyOpenId === review.id ? null : review.id)}
+                  className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 border border-gray-200 rounded hover:bg-gray-50"
+                >
+                  <History className="w-4 h-4" />
+                  History
+                </button>
                 <button
                   onClick={() => {
                     if (confirm("Are you sure you want to delete this review?")) {
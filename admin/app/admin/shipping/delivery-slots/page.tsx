@@ -0,0 +1,422 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { useDeliveryBlackouts, useDeliverySlots } from "@/lib/api/queries";
+import {
+  useCreateDeliveryBlackout,
+  useCreateDeliverySlot,
+  useDeleteDeliveryBlackout,
+  useDeleteDeliverySlot,
+  useUpdateDeliverySlot,
+} from "@/lib/api/mutations";
+import { useToast } from "@/contexts/ToastContext";
+import {
+  DAY_OF_WEEK_LABELS,
+  type DeliveryBlackoutFormData,
+  type DeliverySlotFormData,
+} from "@/lib/types/delivery-slot";
+
+const inputClassName =
+  "w-full rounded-lg border border-[#E5E5E5] px-4 py-2 font-public text-[14px] font-medium tracking-[-0.14px] text-[#030712] outline-none transition-colors focus:border-[#030712]";
+const labelClassName =
+  "mb-2 block font-geist text-[14px] font-medium tracking-[-0.14px] text-[#030712]";
+
+const EMPTY_SLOT: DeliverySlotFormData = {
+  service_zone_id: "",
+  day_of_week: 1,
+  start_time: "09:00",
+  end_time: "13:00",
+  capacity: 20,
+  same_day_cutoff: null,
+  is_active: true,
+};
+
+const EMPTY_BLACKOUT: DeliveryBlackoutFormData = {
+  date: "",
+  type: "holiday",
+  reason: "",
+  service_zone_id: null,
+};
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  const message = (error as { response?: { data?: { message?: string } } })?.response?.data?.message;
+  return message || fallback;
+}
+
+/**
+ * Delivery Slots Page
+ * Delivery windows customers can book at checkout per service zone,
+ * with capacity, same-day cut-off, and holidays without deliveries
+ */
+export default function DeliverySlotsPage(): React.JSX.Element {
+  const router = useRouter();
+  const { showToast, confirm } = useToast();
+  const { data, isLoading, error } = useDeliverySlots();
+  const { data: blackouts, isLoading: blackoutsLoading } = useDeliveryBlackouts();
+  const createSlot = useCreateDeliverySlot();
+  const updateSlot = useUpdateDeliverySlot();
+  const deleteSlot = useDeleteDeliverySlot();
+  const createBlackout = useCreateDeliveryBlackout();
+  const deleteBlackout = useDeleteDeliveryBlackout();
+
+  const [slotForm, setSlotForm] = useState<DeliverySlotFormData>(EMPTY_SLOT);
+  const [blackoutForm, setBlackoutForm] = useState<DeliveryBlackoutFormData>(EMPTY_BLACKOUT);
+
+  const serviceZones = data?.service_zones || [];
+  const zoneNames = new Map(serviceZones.map((zone) => [zone.id, zone.name]));
+
+  const handleCreateSlot = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!slotForm.service_zone_id) {
+      showToast("Choose a service zone", "error");
+      return;
+    }
+    if (slotForm.end_time <= slotForm.start_time) {
+      showToast("End time must be after start time", "error");
+      return;
+    }
+
+    try {
+      await createSlot.mutateAsync(slotForm);
+      setSlotForm({ ...EMPTY_SLOT, service_zone_id: slotForm.service_zone_id });
+      showToast("Delivery slot added", "success");
+    } catch (err) {
+      showToast(getErrorMessage(err, "Failed to add delivery slot"), "error");
+    }
+  };
+
+  const handleToggleSlot = async (id: string, isActive: boolean): Promise<void> => {
+    try {
+      await updateSlot.mutateAsync({ id, data: { is_active: isActive } });
+    } catch (err) {
+      showToast(getErrorMessage(err, "Failed to update delivery slot"), "error");
+    }
+  };
+
+  const handleUpdateCapacity = async (id: string, capacity: number): Promise<void> => {
+    if (!Number.isInteger(capacity) || capacity < 0) return;
+    try {
+      await updateSlot.mutateAsync({ id, data: { capacity } });
+      showToast("Capacity updated", "success");
+    } catch (err) {
+      showToast(getErrorMessage(err, "Failed to update capacity"), "error");
+    }
+  };
+
+  const handleDeleteSlot = async (id: string): Promise<void> => {
+    const confirmed = await confirm({
+      title: "Delete Delivery Slot",
+      message: "Orders already booked on this slot keep their delivery window.",
+      confirmText: "Delete",
+      cancelText: "Cancel",
+    });
+    if (!confirmed) return;
+    try {
+      await deleteSlot.mutateAsync(id);
+      showToast("Delivery slot deleted", "success");
+    } catch (err) {
+      showToast(getErrorMessage(err, "Failed to delete delivery slot"), "error");
+    }
+  };
+
+  const handleCreateBlackout = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+    if (!blackoutForm.date || !blackoutForm.reason.trim()) {
+      showToast("Date and reason are required", "error");
+      return;
+    }
+
+    try {
+      await createBlackout.mutateAsync({ ...blackoutForm, reason: blackoutForm.reason.trim() });
+      setBlackoutForm(EMPTY_BLACKOUT);
+      showToast("Blackout date added", "success");
+    } catch (err) {
+      showToast(getErrorMessage(err, "Failed to add blackout date"), "error");
+    }
+  };
+
+  const handleDeleteBlackout = async (id: string): Promise<void> => {
+    try {
+      await deleteBlackout.mutateAsync(id);
+      showToast("Blackout date removed", "success");
+    } catch (err) {
+      showToast(getErrorMessage(err, "Failed to remove blackout date"), "error");
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="px-4 md:px-8">
+        <div className="flex h-64 items-center justify-center">
+          <p className="font-public text-[14px] text-[#DC2626]">Failed to load delivery slots</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 md:px-8">
+      {/* Header */}
+      <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="font-geist text-[24px] font-medium leading-[120%] tracking-[-0.48px] text-[#030712]">
+            Delivery Slots
+          </h1>
+          <p className="mt-1 font-public text-[14px] text-[#6A7282]">
+            Delivery windows customers can book at checkout. Times are in store time.
+          </p>
+        </div>
+        <button
+          onClick={() => router.push("/admin/shipping/delivery-slots/pick-list")}
+          className="cursor-pointer rounded-lg bg-[#030712] px-4 py-2 font-public text-[14px] font-medium text-white hover:bg-[#1F2937]"
+        >
+          Pick List
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        {/* Slots */}
+        <div className="space-y-6 lg:col-span-2">
+          <div className="overflow-x-auto rounded-lg border border-[#E5E7EB] bg-white">
+            <table className="w-full text-left font-public text-[14px]">
+              <thead className="border-b border-[#E5E7EB] bg-[#F9FAFB] text-[12px] uppercase tracking-wide text-[#6A7282]">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Zone</th>
+                  <th className="px-4 py-3 font-medium">Day</th>
+                  <th className="px-4 py-3 font-medium">Window</th>
+                  <th className="px-4 py-3 font-medium">Capacity</th>
+                  <th className="px-4 py-3 font-medium">Same-day Cut-off</th>
+                  <th className="px-4 py-3 font-medium">Active</th>
+                  <th className="px-4 py-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {isLoading ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-12 text-center">
+                      <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-black border-r-transparent" />
+                    </td>
+                  </tr>
+                ) : !data?.delivery_slots.length ? (
+                  <tr>
+                    <td colSpan={7} className="px-4 py-12 text-center text-[#6A7282]">
+                      No delivery slots yet. Checkout won&apos;t ask for a delivery time until slots are added.
+                    </td>
+                  </tr>
+                ) : (
+                  data.delivery_slots.map((slot) => (
+                    <tr key={slot.id} className="border-b border-[#F3F4F6] last:border-0">
+                      <td className="px-4 py-3 text-[#030712]">{slot.service_zone_name || slot.service_zone_id}</td>
+                      <td className="px-4 py-3 text-[#030712]">{DAY_OF_WEEK_LABELS[slot.day_of_week]}</td>
+                      <td className="px-4 py-3 text-[#030712]">{slot.start_time} - {slot.end_time}</td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="number"
+                          min={0}
+                          defaultValue={slot.capacity}
+                          onBlur={(e) => {
+                            const capacity = Number(e.target.value);
+                            if (capacity !== slot.capacity) handleUpdateCapacity(slot.id, capacity);
+                          }}
+                          className="w-20 rounded-lg border border-[#E5E5E5] px-2 py-1 text-[14px] text-[#030712] outline-none focus:border-[#030712]"
+                          aria-label="Capacity"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-[#030712]">{slot.same_day_cutoff || "No same-day"}</td>
+                      <td className="px-4 py-3">
+                        <input
+                          type="checkbox"
+                          checked={slot.is_active}
+                          onChange={(e) => handleToggleSlot(slot.id, e.target.checked)}
+                          className="h-4 w-4 cursor-pointer"
+                          aria-label="Active"
+                        />
+                      </td>
+                      <td className="px-4 py-3 text-right">
+                        <button
+                          onClick={() => handleDeleteSlot(slot.id)}
+                          className="cursor-pointer text-[13px] font-medium text-[#DC2626] hover:underline"
+                        >
+                          Delete
+                        </button>
+                      </td>
+                    </tr>
+                  ))
+                )}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Add slot */}
+          <form onSubmit={handleCreateSlot} className="rounded-lg border border-[#E5E7EB] bg-white p-6">
+            <h2 className="mb-4 font-geist text-[18px] font-medium text-[#030712]">Add Delivery Slot</h2>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+              <div>
+                <label className={labelClassName}>Service Zone</label>
+                <select
+                  value={slotForm.service_zone_id}
+                  onChange={(e) => setSlotForm({ ...slotForm, service_zone_id: e.target.value })}
+                  className={inputClassName}
+                >
+                  <option value="">Select zone</option>
+                  {serviceZones.map((zone) => (
+                    <option key={zone.id} value={zone.id}>{zone.name}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClassName}>Day</label>
+                <select
+                  value={slotForm.day_of_week}
+                  onChange={(e) => setSlotForm({ ...slotForm, day_of_week: Number(e.target.value) })}
+                  className={inputClassName}
+                >
+                  {DAY_OF_WEEK_LABELS.map((label, index) => (
+                    <option key={label} value={index}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className={labelClassName}>Capacity (orders)</label>
+                <input
+                  type="number"
+                  min={0}
+                  value={slotForm.capacity}
+                  onChange={(e) => setSlotForm({ ...slotForm, capacity: Number(e.target.value) })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>Start</label>
+                <input
+                  type="time"
+                  value={slotForm.start_time}
+                  onChange={(e) => setSlotForm({ ...slotForm, start_time: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>End</label>
+                <input
+                  type="time"
+                  value={slotForm.end_time}
+                  onChange={(e) => setSlotForm({ ...slotForm, end_time: e.target.value })}
+                  className={inputClassName}
+                />
+              </div>
+              <div>
+                <label className={labelClassName}>Same-day Cut-off</label>
+                <input
+                  type="time"
+                  value={slotForm.same_day_cutoff || ""}
+                  onChange={(e) => setSlotForm({ ...slotForm, same_day_cutoff: e.target.value || null })}
+                  className={inputClassName}
+                />
+                <p className="mt-1 font-public text-[12px] text-[#6A7282]">
+                  Leave empty to only take bookings from the next day
+                </p>
+              </div>
+            </div>
+            <div className="mt-4 flex justify-end">
+              <button
+                type="submit"
+                disabled={createSlot.isPending}
+                className="cursor-pointer rounded-lg bg-[#030712] px-4 py-2 font-public text-[14px] font-medium text-white hover:bg-[#1F2937] disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {createSlot.isPending ? "Adding..." : "Add Slot"}
+              </button>
+            </div>
+          </form>
+        </div>
+
+        {/* Holidays and blackouts */}
+        <div className="rounded-lg border border-[#E5E7EB] bg-white p-6">
+          <h2 className="mb-1 font-geist text-[18px] font-medium text-[#030712]">Holidays &amp; Blackouts</h2>
+          <p className="mb-4 font-public text-[13px] text-[#6A7282]">
+            No deliveries can be booked on these dates.
+          </p>
+
+          <form onSubmit={handleCreateBlackout} className="mb-6 space-y-3">
+            <input
+              type="date"
+              value={blackoutForm.date}
+              onChange={(e) => setBlackoutForm({ ...blackoutForm, date: e.target.value })}
+              className={inputClassName}
+              aria-label="Date"
+            />
+            <input
+              value={blackoutForm.reason}
+              onChange={(e) => setBlackoutForm({ ...blackoutForm, reason: e.target.value })}
+              placeholder="Reason, e.g. Hari Raya Aidilfitri"
+              maxLength={255}
+              className={inputClassName}
+            />
+            <div className="grid grid-cols-2 gap-3">
+              <select
+                value={blackoutForm.type}
+                onChange={(e) => setBlackoutForm({ ...blackoutForm, type: e.target.value as DeliveryBlackoutFormData["type"] })}
+                className={inputClassName}
+                aria-label="Type"
+              >
+                <option value="holiday">Holiday</option>
+                <option value="blackout">Blackout</option>
+              </select>
+              <select
+                value={blackoutForm.service_zone_id || ""}
+                onChange={(e) => setBlackoutForm({ ...blackoutForm, service_zone_id: e.target.value || null })}
+                className={inputClassName}
+                aria-label="Service zone"
+              >
+                <option value="">All zones</option>
+                {serviceZones.map((zone) => (
+                  <option key={zone.id} value={zone.id}>{zone.name}</option>
+                ))}
+              </select>
+            </div>
+            <button
+              type="submit"
+              disabled={createBlackout.isPending}
+              className="w-full cursor-pointer rounded-lg border border-[#E5E5E5] bg-white px-4 py-2 font-public text-[14px] font-medium text-[#030712] hover:bg-[#F9FAFB] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {createBlackout.isPending ? "Adding..." : "Add Date"}
+            </button>
+          </form>
+
+          {blackoutsLoading ? (
+            <div className="h-16 animate-pulse rounded-lg bg-gray-100" />
+          ) : !blackouts?.length ? (
+            <p className="font-public text-[14px] text-[#6A7282]">No upcoming blackout dates</p>
+          ) : (
+            <ul className="divide-y divide-[#F3F4F6]">
+              {blackouts.map((blackout) => (
+                <li key={blackout.id} className="flex items-start justify-between gap-3 py-3">
+                  <div>
+                    <p className="font-public text-[14px] font-medium text-[#030712]">
+                      {new Date(`${blackout.date}T00:00:00`).toLocaleDateString("en-MY", {
+                        weekday: "short",
+                        day: "numeric",
+                        month: "short",
+                        year: "numeric",
+                      })}
+                    </p>
+                    <p className="font-public text-[13px] text-[#6A7282]">
+                      {blackout.reason} &middot; {blackout.type === "holiday" ? "Holiday" : "Blackout"}
+                      {" "}&middot; {blackout.service_zone_id ? zoneNames.get(blackout.service_zone_id) || "One zone" : "All zones"}
+                    </p>
+                  </div>
+                  <button
+                    onClick={() => handleDeleteBlackout(blackout.id)}
+                    className="cursor-pointer text-[13px] font-medium text-[#DC2626] hover:underline"
+                  >
+                    Remove
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
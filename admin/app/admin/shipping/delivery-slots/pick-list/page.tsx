@@ -0,0 +1,164 @@
+"use client";
+
+import React, { useState } from "react";
+import { useRouter } from "next/navigation";
+import { usePickList } from "@/lib/api/queries";
+
+function toDateInput(date: Date): string {
+  const year = date.getFullYear();
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${year}-${month}-${day}`;
+}
+
+/**
+ * Pick List Page
+ * Orders to pick and pack for a delivery date, grouped by delivery slot,
+ * laid out to be printed for the warehouse
+ */
+export default function PickListPage(): React.JSX.Element {
+  const router = useRouter();
+  const [date, setDate] = useState(toDateInput(new Date()));
+  const { data, isLoading, error } = usePickList(date);
+
+  return (
+    <div className="px-4 md:px-8">
+      {/* Header */}
+      <div className="mb-6 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between print:hidden">
+        <div>
+          <h1 className="font-geist text-[24px] font-medium leading-[120%] tracking-[-0.48px] text-[#030712]">
+            Pick List
+          </h1>
+          <p className="mt-1 font-public text-[14px] text-[#6A7282]">
+            Orders booked for delivery on the chosen date, grouped by delivery slot.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => router.push("/admin/shipping/delivery-slots")}
+            className="cursor-pointer rounded-lg border border-[#E5E5E5] bg-white px-4 py-2 font-public text-[14px] font-medium text-[#030712] hover:bg-[#F9FAFB]"
+          >
+            Delivery Slots
+          </button>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="rounded-lg border border-[#E5E5E5] bg-white px-3 py-2 font-public text-[14px] text-[#030712]"
+            aria-label="Delivery date"
+          />
+          <button
+            onClick={() => window.print()}
+            disabled={!data?.order_count}
+            className="cursor-pointer rounded-lg bg-[#030712] px-4 py-2 font-public text-[14px] font-medium text-white hover:bg-[#1F2937] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Print
+          </button>
+        </div>
+      </div>
+
+      <h2 className="mb-4 hidden font-geist text-[20px] font-medium text-[#030712] print:block">
+        Pick List &ndash; {date}
+      </h2>
+
+      {error ? (
+        <div className="flex h-64 items-center justify-center">
+          <p className="font-public text-[14px] text-[#DC2626]">Failed to load pick list</p>
+        </div>
+      ) : isLoading || !data ? (
+        <div className="flex h-64 items-center justify-center">
+          <div className="h-8 w-8 animate-spin rounded-full border-4 border-solid border-black border-r-transparent" />
+        </div>
+      ) : data.slots.length === 0 ? (
+        <div className="rounded-lg border border-[#E5E7EB] bg-white p-12 text-center">
+          <p className="font-public text-[14px] text-[#6A7282]">No orders booked for delivery on this date</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {data.slots.map((group) => (
+            <section
+              key={group.slot?.id ?? "unknown"}
+              className="break-inside-avoid rounded-lg border border-[#E5E7EB] bg-white p-6 print:border-black"
+            >
+              <div className="mb-4 flex items-center justify-between">
+                <h3 className="font-geist text-[18px] font-medium text-[#030712]">
+                  {group.slot ? `${group.slot.start_time} - ${group.slot.end_time}` : "Removed slot"}
+                </h3>
+                <span className="font-public text-[14px] text-[#6A7282]">
+                  {group.orders.length} order(s)
+                </span>
+              </div>
+
+              {/* Units to pull per product */}
+              <div className="mb-4 rounded-lg bg-[#F9FAFB] p-4 print:bg-white">
+                <p className="mb-2 font-public text-[12px] font-medium uppercase tracking-wide text-[#6A7282]">
+                  Total to pick
+                </p>
+                <ul className="grid grid-cols-1 gap-1 font-public text-[14px] sm:grid-cols-2">
+                  {group.totals.map((item) => (
+                    <li key={`${item.title}-${item.variant_title}-${item.sku}`} className="flex justify-between gap-4">
+                      <span className="text-[#030712]">
+                        {item.title}
+                        {item.variant_title && <span className="text-[#6A7282]"> / {item.variant_title}</span>}
+                      </span>
+                      <span className="font-medium text-[#030712]">&times; {item.quantity}</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+
+              {/* Orders */}
+              <table className="w-full text-left font-public text-[14px]">
+                <thead className="border-b border-[#E5E7EB] text-[12px] uppercase tracking-wide text-[#6A7282]">
+                  <tr>
+                    <th className="w-8 py-2 print:table-cell" />
+                    <th className="py-2 pr-4 font-medium">Order</th>
+                    <th className="py-2 pr-4 font-medium">Deliver To</th>
+                    <th className="py-2 font-medium">Items</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {group.orders.map((order) => (
+                    <tr key={order.id} className="border-b border-[#F3F4F6] align-top last:border-0">
+                      <td className="py-3">
+                        <span className="inline-block h-4 w-4 rounded border border-[#6A7282]" />
+                      </td>
+                      <td className="py-3 pr-4 font-medium text-[#030712]">#{order.display_id}</td>
+                      <td className="py-3 pr-4 text-[#030712]">
+                        {order.shipping_address ? (
+                          <>
+                            <p>{`${order.shipping_address.first_name} ${order.shipping_address.last_name}`.trim()}</p>
+                            <p className="text-[#6A7282]">
+                              {[order.shipping_address.address_1, order.shipping_address.address_2, order.shipping_address.postal_code, order.shipping_address.city]
+                                .filter(Boolean)
+                                .join(", ")}
+                            </p>
+                            {order.shipping_address.phone && (
+                              <p className="text-[#6A7282]">{order.shipping_address.phone}</p>
+                            )}
+                          </>
+                        ) : (
+                          <span className="text-[#6A7282]">{order.email || "-"}</span>
+                        )}
+                      </td>
+                      <td className="py-3 text-[#030712]">
+                        <ul>
+                          {order.items.map((item, index) => (
+                            <li key={index}>
+                              {item.quantity} &times; {item.title}
+                              {item.variant_title && <span className="text-[#6A7282]"> / {item.variant_title}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,500 @@
+"use client";
+
+import React, { useState } from "react";
+import { useDeliveryZones, useShippingOptions } from "@/lib/api/queries";
+import {
+  useCreateDeliveryZone,
+  useDeleteDeliveryZone,
+  useUpdateDeliveryZone,
+} from "@/lib/api/mutations";
+import { useToast } from "@/contexts/ToastContext";
+import type { DeliveryZone, PostcodeRange } from "@/lib/types/delivery-zone";
+
+const inputClassName =
+  "w-full rounded-lg border border-[#E5E5E5] px-4 py-2 font-public text-[14px] font-medium tracking-[-0.14px] text-[#030712] outline-none transition-colors focus:border-[#030712]";
+const labelClassName =
+  "mb-2 block font-geist text-[14px] font-medium tracking-[-0.14px] text-[#030712]";
+
+/**
+ * Zone form state - amounts are edited in RM and postcodes as free text
+ */
+type ZoneForm = {
+  name: string;
+  postcodes: string;
+  postcode_ranges: PostcodeRange[];
+  rate: string;
+  free_shipping_threshold: string;
+  minimum_order_value: string;
+  shipping_option_ids: string[];
+  priority: string;
+  is_active: boolean;
+};
+
+const EMPTY_ZONE: ZoneForm = {
+  name: "",
+  postcodes: "",
+  postcode_ranges: [],
+  rate: "",
+  free_shipping_threshold: "",
+  minimum_order_value: "",
+  shipping_option_ids: [],
+  priority: "0",
+  is_active: true,
+};
+
+function getErrorMessage(error: unknown, fallback: string): string {
+  const message = (error as { response?: { data?: { message?: string } } })?.response?.data?.message;
+  return message || fallback;
+}
+
+function toCents(value: string): number | null {
+  if (value.trim() === "") return null;
+  const amount = Number(value);
+  return Number.isFinite(amount) && amount >= 0 ? Math.round(amount * 100) : null;
+}
+
+function toRM(cents: number | null): string {
+  return cents === null ? "" : (cents / 100).toFixed(2);
+}
+
+function formatRM(cents: number): string {
+  return `RM${(cents / 100).toFixed(2)}`;
+}
+
+function zoneToForm(zone: DeliveryZone): ZoneForm {
+  return {
+    name: zone.name,
+    postcodes: (zone.postcodes || []).join(", "),
+    postcode_ranges: zone.postcode_ranges || [],
+    rate: toRM(zone.rate),
+    free_shipping_threshold: toRM(zone.free_shipping_threshold),
+    minimum_order_value: toRM(zone.minimum_order_value),
+    shipping_option_ids: zone.shipping_option_ids || [],
+    priority: String(zone.priority),
+    is_active: zone.is_active,
+  };
+}
+
+function describePostcodes(zone: DeliveryZone): string {
+  const parts = [
+    ...(zone.postcode_ranges || []).map((range) => `${range.from}–${range.to}`),
+    ...(zone.postcodes || []),
+  ];
+  if (parts.length <= 4) return parts.join(", ");
+  return `${parts.slice(0, 4).join(", ")} +${parts.length - 4} more`;
+}
+
+/**
+ * Delivery Zones Page
+ * Postcode-based delivery zones with their own delivery rate, free shipping
+ * threshold, minimum order value and shipping options offered at checkout
+ */
+export default function DeliveryZonesPage(): React.JSX.Element {
+  const { showToast, confirm } = useToast();
+  const { data: zones, isLoading, error } = useDeliveryZones();
+  const { data: shippingOptionData } = useShippingOptions();
+  const createZone = useCreateDeliveryZone();
+  const updateZone = useUpdateDeliveryZone();
+  const deleteZone = useDeleteDeliveryZone();
+
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<ZoneForm>(EMPTY_ZONE);
+
+  const shippingOptions = shippingOptionData?.shipping_options || [];
+  const optionNames = new Map(shippingOptions.map((option) => [option.id, option.name]));
+  const isSaving = createZone.isPending || updateZone.isPending;
+
+  const resetForm = (): void => {
+    setEditingId(null);
+    setForm(EMPTY_ZONE);
+  };
+
+  const handleEdit = (zone: DeliveryZone): void => {
+    setEditingId(zone.id);
+    setForm(zoneToForm(zone));
+  };
+
+  const updateRange = (index: number, field: keyof PostcodeRange, value: string): void => {
+    setForm({
+      ...form,
+      postcode_ranges: form.postcode_ranges.map((range, i) =>
+        i === index ? { ...range, [field]: value } : range
+      ),
+    });
+  };
+
+  const toggleShippingOption = (id: string): void => {
+    setForm({
+      ...form,
+      shipping_option_ids: form.shipping_option_ids.includes(id)
+        ? form.shipping_option_ids.filter((optionId) => optionId !== id)
+        : [...form.shipping_option_ids, id],
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent): Promise<void> => {
+    e.preventDefault();
+
+    const postcodes = form.postcodes
+      .split(/[\s,]+/)
+      .map((code) => code.trim())
+      .filter(Boolean);
+    const postcodeRanges = form.postcode_ranges
+      .map((range) => ({ from: range.from.trim(), to: range.to.trim() }))
+      .filter((range) => range.from && range.to);
+    const rate = toCents(form.rate);
+
+    if (!form.name.trim()) {
+      showToast("Zone name is required", "error");
+      return;
+    }
+    if (postcodes.length + postcodeRanges.length === 0) {
+      showToast("Add at least one postcode or postcode range", "error");
+      return;
+    }
+    if (rate === null) {
+      showToast("Enter a valid delivery rate", "error");
+      return;
+    }
+
+    const data = {
+      name: form.name.trim(),
+      postcodes,
+      postcode_ranges: postcodeRanges,
+      rate,
+      free_shipping_threshold: toCents(form.free_shipping_threshold),
+      minimum_order_value: toCents(form.minimum_order_value),
+      shipping_option_ids: form.shipping_option_ids,
+      priority: Number.parseInt(form.priority, 10) || 0,
+      is_active: form.is_active,
+    };
+
+    try {
+      if (editingId) {
+        await updateZone.mutateAsync({ id: editingId, data });
+        showToast("Delivery zone updated", "success");
+      } else {
+        await createZone.mutateAsync(data);
+        showToast("Delivery zone added", "success");
+      }
+      resetForm();
+    } catch (err) {
+      showToast(getErrorMessage(err, "Failed to save delivery zone"), "error");
+    }
+  };
+
+  const handleToggleZone = async (id: string, isActive: boolean): Promise<void> => {
+    try {
+      await updateZone.mutateAsync({ id, data: { is_active: isActive } });
+    } catch (err) {
+      showToast(getErrorMessage(err, "Failed to update delivery zone"), "error");
+    }
+  };
+
+  const handleDelete = async (zone: DeliveryZone): Promise<void> => {
+    const confirmed = await confirm({
+      title: "Delete Delivery Zone",
+      message: `Postcodes in ${zone.name} will fall back to another zone or the shipping options' own rates.`,
+      confirmText: "Delete",
+      cancelText: "Cancel",
+    });
+    if (!confirmed) return;
+    try {
+      await deleteZone.mutateAsync(zone.id);
+      if (editingId === zone.id) resetForm();
+      showToast("Delivery zone deleted", "success");
+    } catch (err) {
+      showToast(getErrorMessage(err, "Failed to delete delivery zone"), "error");
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="px-4 md:px-8">
+        <div className="flex h-64 items-center justify-center">
+          <p className="font-public text-[14px] text-[#DC2626]">Failed to load delivery zones</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="px-4 md:px-8">
+      {/* Header */}
+      <div className="mb-6">
+        <h1 className="font-geist text-[24px] font-medium leading-[120%] tracking-[-0.48px] text-[#030712]">
+          Delivery Zones
+        </h1>
+        <p className="mt-1 font-public text-[14px] text-[#6A7282]">
+          Delivery rates and order rules by postcode. Postcodes outside every zone use the shipping options&apos; own rates.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-3">
+        {/* Zones */}
+        <div className="overflow-x-auto rounded-lg border border-[#E5E7EB] bg-white lg:col-span-2 lg:self-start">
+          <table className="w-full text-left font-public text-[14px]">
+            <thead className="border-b border-[#E5E7EB] bg-[#F9FAFB] text-[12px] uppercase tracking-wide text-[#6A7282]">
+              <tr>
+                <th className="px-4 py-3 font-medium">Zone</th>
+                <th className="px-4 py-3 font-medium">Postcodes</th>
+                <th className="px-4 py-3 font-medium">Rate</th>
+                <th className="px-4 py-3 font-medium">Free From</th>
+                <th className="px-4 py-3 font-medium">Minimum</th>
+                <th className="px-4 py-3 font-medium">Active</th>
+                <th className="px-4 py-3" />
+              </tr>
+            </thead>
+            <tbody>
+              {isLoading ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-12 text-center">
+                    <div className="inline-block h-8 w-8 animate-spin rounded-full border-4 border-solid border-black border-r-transparent" />
+                  </td>
+                </tr>
+              ) : !zones?.length ? (
+                <tr>
+                  <td colSpan={7} className="px-4 py-12 text-center text-[#6A7282]">
+                    No delivery zones yet. Every postcode uses the shipping options&apos; own rates.
+                  </td>
+                </tr>
+              ) : (
+                zones.map((zone) => (
+                  <tr
+                    key={zone.id}
+                    className={`border-b border-[#F3F4F6] align-top last:border-0 ${editingId === zone.id ? "bg-[#F9FAFB]" : ""}`}
+                  >
+                    <td className="px-4 py-3">
+                      <p className="font-medium text-[#030712]">{zone.name}</p>
+                      <p className="text-[12px] text-[#6A7282]">
+                        Priority {zone.priority}
+                        {" "}&middot;{" "}
+                        {zone.shipping_option_ids?.length
+                          ? zone.shipping_option_ids.map((id) => optionNames.get(id) || id).join(", ")
+                          : "All shipping options"}
+                      </p>
+                    </td>
+                    <td className="px-4 py-3 text-[#030712]">{describePostcodes(zone)}</td>
+                    <td className="px-4 py-3 text-[#030712]">{formatRM(zone.rate)}</td>
+                    <td className="px-4 py-3 text-[#030712]">
+                      {zone.free_shipping_threshold !== null ? formatRM(zone.free_shipping_threshold) : "-"}
+                    </td>
+                    <td className="px-4 py-3 text-[#030712]">
+                      {zone.minimum_order_value !== null ? formatRM(zone.minimum_order_value) : "-"}
+                    </td>
+                    <td className="px-4 py-3">
+                      <input
+                        type="checkbox"
+                        checked={zone.is_active}
+                        onChange={(e) => handleToggleZone(zone.id, e.target.checked)}
+                        className="h-4 w-4 cursor-pointer"
+                        aria-label="Active"
+                      />
+                    </td>
+                    <td className="whitespace-nowrap px-4 py-3 text-right">
+                      <button
+                        onClick={() => handleEdit(zone)}
+                        className="mr-3 cursor-pointer text-[13px] font-medium text-[#030712] hover:underline"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => handleDelete(zone)}
+                        className="cursor-pointer text-[13px] font-medium text-[#DC2626] hover:underline"
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))
+              )}
+            </tbody>
+          </table>
+        </div>
+
+        {/* Zone editor */}
+        <form onSubmit={handleSubmit} className="space-y-4 rounded-lg border border-[#E5E7EB] bg-white p-6">
+          <h2 className="font-geist text-[18px] font-medium text-[#030712]">
+            {editingId ? "Edit Delivery Zone" : "Add Delivery Zone"}
+          </h2>
+
+          <div>
+            <label className={labelClassName}>Name</label>
+            <input
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+              placeholder="e.g. Klang Valley"
+              maxLength={255}
+              className={inputClassName}
+            />
+          </div>
+
+          <div>
+            <label className={labelClassName}>Postcode Ranges</label>
+            <div className="space-y-2">
+              {form.postcode_ranges.map((range, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <input
+                    value={range.from}
+                    onChange={(e) => updateRange(index, "from", e.target.value)}
+                    placeholder="From"
+                    maxLength={10}
+                    className={inputClassName}
+                    aria-label="Range start"
+                  />
+                  <span className="text-[#6A7282]">&ndash;</span>
+                  <input
+                    value={range.to}
+                    onChange={(e) => updateRange(index, "to", e.target.value)}
+                    placeholder="To"
+                    maxLength={10}
+                    className={inputClassName}
+                    aria-label="Range end"
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setForm({
+                      ...form,
+                      postcode_ranges: form.postcode_ranges.filter((_, i) => i !== index),
+                    })}
+                    className="cursor-pointer text-[13px] font-medium text-[#DC2626] hover:underline"
+                  >
+                    Remove
+                  </button>
+                </div>
+              ))}
+              <button
+                type="button"
+                onClick={() => setForm({
+                  ...form,
+                  postcode_ranges: [...form.postcode_ranges, { from: "", to: "" }],
+                })}
+                className="cursor-pointer text-[13px] font-medium text-[#030712] hover:underline"
+              >
+                + Add range
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className={labelClassName}>Individual Postcodes</label>
+            <textarea
+              value={form.postcodes}
+              onChange={(e) => setForm({ ...form, postcodes: e.target.value })}
+              placeholder="e.g. 63000, 63100"
+              rows={3}
+              className={inputClassName}
+            />
+            <p className="mt-1 font-public text-[12px] text-[#6A7282]">
+              Separate postcodes with commas, spaces or new lines
+            </p>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className={labelClassName}>Rate (RM)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.rate}
+                onChange={(e) => setForm({ ...form, rate: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Priority</label>
+              <input
+                type="number"
+                step={1}
+                value={form.priority}
+                onChange={(e) => setForm({ ...form, priority: e.target.value })}
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Free From (RM)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.free_shipping_threshold}
+                onChange={(e) => setForm({ ...form, free_shipping_threshold: e.target.value })}
+                placeholder="Never"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className={labelClassName}>Minimum Order (RM)</label>
+              <input
+                type="number"
+                min={0}
+                step="0.01"
+                value={form.minimum_order_value}
+                onChange={(e) => setForm({ ...form, minimum_order_value: e.target.value })}
+                placeholder="None"
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <p className="font-public text-[12px] text-[#6A7282]">
+            Order value is the items total after discounts. Higher priority zones win where postcodes overlap.
+          </p>
+
+          <div>
+            <label className={labelClassName}>Shipping Options</label>
+            {shippingOptions.length === 0 ? (
+              <p className="font-public text-[13px] text-[#6A7282]">No shipping options</p>
+            ) : (
+              <div className="space-y-2">
+                {shippingOptions.map((option) => (
+                  <label key={option.id} className="flex cursor-pointer items-center gap-2 font-public text-[14px] text-[#030712]">
+                    <input
+                      type="checkbox"
+                      checked={form.shipping_option_ids.includes(option.id)}
+                      onChange={() => toggleShippingOption(option.id)}
+                      className="h-4 w-4 cursor-pointer"
+                    />
+                    {option.name}
+                  </label>
+                ))}
+              </div>
+            )}
+            <p className="mt-1 font-public text-[12px] text-[#6A7282]">
+              Leave all unticked to offer every shipping option in this zone
+            </p>
+          </div>
+
+          <label className="flex cursor-pointer items-center gap-2 font-public text-[14px] text-[#030712]">
+            <input
+              type="checkbox"
+              checked={form.is_active}
+              onChange={(e) => setForm({ ...form, is_active: e.target.checked })}
+              className="h-4 w-4 cursor-pointer"
+            />
+            Active
+          </label>
+
+          <div className="flex justify-end gap-2">
+            {editingId && (
+              <button
+                type="button"
+                onClick={resetForm}
+                className="cursor-pointer rounded-lg border border-[#E5E5E5] bg-white px-4 py-2 font-public text-[14px] font-medium text-[#030712] hover:bg-[#F9FAFB]"
+              >
+                Cancel
+              </button>
+            )}
+            <button
+              type="submit"
+              disabled={isSaving}
+              className="cursor-pointer rounded-lg bg-[#030712] px-4 py-2 font-public text-[14px] font-medium text-white hover:bg-[#1F2937] disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {isSaving ? "Saving..." : editingId ? "Save Zone" : "Add Zone"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
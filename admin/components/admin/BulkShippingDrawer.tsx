@@ -5,6 +5,7 @@ import type { Order } from "@/lib/validators/order";
 import { getAvatarColorClass } from "@/lib/utils/overview";
 import { useEasyParcelRates } from "@/lib/api/queries";
 import { api } from "@/lib/api/client";
+import { printShippingLabels } from "@/lib/api/easyparcel";
 import { useToast } from "@/contexts/ToastContext";
 import type { EasyParcelRate } from "@/lib/types/shipping-settings";
 
@@ -76,6 +77,7 @@ export function BulkShippingDrawer({
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [submissionResults, setSubmissionResults] = useState<SubmissionResult[]>([]);
   const [processingStep, setProcessingStep] = useState<"submitting" | "paying" | "done">("submitting");
+  const [isPrinting, setIsPrinting] = useState(false);
 
   // Dropdown states
   const [isDateOpen, setIsDateOpen] = useState(false);
@@ -285,6 +287,31 @@ export function BulkShippingDrawer({
     }
   };
 
+  // Open the merged labels and packing slips of every shipped order
+  const handlePrintLabels = async (): Promise<void> => {
+    const orderIds = submissionResults.filter((r) => r.awb).map((r) => r.order_id);
+    if (orderIds.length === 0) return;
+
+    // Open the tab before awaiting, otherwise popup blockers treat it as unsolicited
+    const printWindow = window.open("", "_blank");
+    setIsPrinting(true);
+    try {
+      const pdf = await printShippingLabels(orderIds);
+      const url = URL.createObjectURL(pdf);
+      if (printWindow) {
+        printWindow.location.href = url;
+      } else {
+        window.open(url, "_blank");
+      }
+    } catch (error) {
+      printWindow?.close();
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      showToast(`Failed to print labels: ${errorMessage}`, "error");
+    } finally {
+      setIsPrinting(false);
+    }
+  };
+
   // Render step content
   const renderStepContent = (): React.JSX.Element => {
     switch (currentStep) {
@@ -801,7 +828,16 @@ export function BulkShippingDrawer({
 
       case "complete":
         return (
-          <div className="border-t border-[#E5E7EB] p-6">
+          <div className="border-t border-[#E5E7EB] p-6 space-y-3">
+            {submissionResults.some((r) => r.awb) && (
+              <button
+                onClick={handlePrintLabels}
+                disabled={isPrinting}
+                className="w-full cursor-pointer rounded-lg border border-[#E5E7EB] px-4 py-3 font-public text-[14px] font-medium text-[#030712] hover:bg-[#F9FAFB] disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {isPrinting ? "Preparing Labels..." : "Print Labels & Packing Slips"}
+              </button>
+            )}
             <button
               onClick={() => {
                 onComplete?.();
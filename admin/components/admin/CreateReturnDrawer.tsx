@@ -25,6 +25,7 @@ const returnReasonOptions: { value: ReturnReason; label: string }[] = [
 // Return type options
 const returnTypeOptions: { value: ReturnType; label: string; description: string }[] = [
   { value: "refund", label: "Refund", description: "Refund to original payment method" },
+  { value: "store_credit", label: "Store Credit", description: "Refund as points" },
   { value: "replacement", label: "Replacement", description: "Send a replacement item" },
 ];
 
@@ -223,7 +224,7 @@ export function CreateReturnDrawer({
             <label className="mb-3 block font-geist text-[14px] font-medium text-[#030712]">
               Return Type
             </label>
-            <div className="grid grid-cols-2 gap-3">
+            <div className="grid grid-cols-3 gap-3">
               {returnTypeOptions.map((option) => (
                 <button
                   key={option.value}
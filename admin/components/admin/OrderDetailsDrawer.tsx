@@ -3,7 +3,7 @@
 import React, { useEffect, useState, useRef } from "react";
 import { createPortal } from "react-dom";
 import type { Order, OrderItem, PaymentStatus, FulfillmentStatus } from "@/lib/validators/order";
-import type { Return } from "@/lib/validators/return";
+import { returnTypeLabels, type Return } from "@/lib/validators/return";
 import type { EasyParcelRate } from "@/lib/types/shipping-settings";
 import { getEasyParcelRates } from "@/lib/api/shipping-settings";
 import { printOrderReceipt } from "@/lib/utils/print";
@@ -423,13 +423,13 @@ export function OrderDetailsDrawer({
     (order.metadata?.shipping_pending_admin_selection === true || order.metadata?.free_shipping_no_method_selected === true);
 
   // Coupon discount calculation:
-  // Medusa's discount_total may include various adjustments (coupons, promotions, points)
-  // We need to subtract PWP discount and points discount to get the actual coupon discount
+  // Medusa's discount_total may include various adjustments (coupons, promotions, points, tier discount)
+  // We need to subtract PWP, points and tier discounts to get the actual coupon discount
   // Only show coupon discount if there's actually a coupon code applied
   const totalDiscount = order.discount_total || 0;
   const hasCoupon = Boolean(order.coupon_code || order.metadata?.coupon_code);
-  // Calculate coupon discount: total discount minus PWP minus points (to avoid double-counting)
-  const couponDiscount = hasCoupon ? Math.max(0, totalDiscount - pwpDiscount - pointsDiscount) : 0;
+  // Calculate coupon discount: total discount minus PWP, points and tier (to avoid double-counting)
+  const couponDiscount = hasCoupon ? Math.max(0, totalDiscount - pwpDiscount - pointsDiscount - tierDiscount) : 0;
 
   const tax = order.tax_total || 0;
   // Calculate correct total with all discounts (including free shipping)
@@ -609,7 +609,7 @@ export function OrderDetailsDrawer({
                                 {statusConfig.label}
                               </span>
                               <span className="text-xs text-gray-500">
-                                {ret.return_type === "refund" ? "Refund" : "Replacement"}
+                                {returnTypeLabels[ret.return_type] || ret.return_type}
                               </span>
                             </div>
                             <p className="mt-1 text-sm text-gray-700">
@@ -675,6 +675,23 @@ export function OrderDetailsDrawer({
               <span className="font-geist text-[14px] font-medium text-[#030712]">{formatDate(order.created_at)}</span>
             </div>
 
+            {/* Delivery Slot */}
+            {order.delivery_slot && (
+              <div className="flex items-center justify-between">
+                <span className="font-geist text-[14px] font-medium text-[#858585]">Delivery Slot</span>
+                <span className="font-geist text-[14px] font-medium text-[#030712]">
+                  {new Date(`${order.delivery_slot.date}T00:00:00`).toLocaleDateString("en-GB", {
+                    weekday: "short",
+                    day: "2-digit",
+                    month: "short",
+                    year: "numeric",
+                  })}
+                  {", "}
+                  {order.delivery_slot.start_time} - {order.delivery_slot.end_time}
+                </span>
+              </div>
+            )}
+
             {/* Shipping Info */}
             {(order.courier || order.tracking_number) && (
               <>
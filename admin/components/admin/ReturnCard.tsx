@@ -50,6 +50,10 @@ const returnTypeConfig: Record<ReturnType, { label: string; className: string }>
     label: "Refund",
     className: "bg-emerald-100 text-emerald-800",
   },
+  store_credit: {
+    label: "Store Credit",
+    className: "bg-amber-100 text-amber-800",
+  },
   replacement: {
     label: "Replacement",
     className: "bg-cyan-100 text-cyan-800",
@@ -193,6 +197,7 @@ export function ReturnCard({ returnItem, index, onViewDetails }: ReturnCardProps
                   "text-[#858585]"
                 }`}>
                   {returnItem.refund_status === "completed" ? "Refunded" :
+                   returnItem.refund_status === "partially_refunded" ? "Partially Refunded" :
                    returnItem.refund_status === "failed" ? "Failed" :
                    returnItem.refund_status === "processing" ? "Processing" :
                    "Pending"}
@@ -2,8 +2,24 @@
 
 import React, { useEffect, useState } from "react";
 import { createPortal } from "react-dom";
-import type { Return, ReturnStatus, ReturnType, ReturnReason } from "@/lib/validators/return";
 import {
+  refundMethodLabels,
+  inspectionResultLabels,
+  type Return,
+  type ReturnStatus,
+  type ReturnType,
+  type ReturnReason,
+  type ReturnRefund,
+  type ProcessRefundRequest,
+  type AdjustRefundAmountRequest,
+  type InspectionResult,
+  type InspectReturnRequest,
+  type ReturnInspection,
+  type StockLocationOption,
+} from "@/lib/validators/return";
+import {
+  getReturnById,
+  getReturnInspection,
   getReturnShippingRates,
   submitReturnShipping,
   payReturnShipping,
@@ -11,6 +27,7 @@ import {
   type ShippingRate,
   type ReturnShippingStatus,
 } from "@/lib/api/returns";
+import { uploadFiles } from "@/lib/api/uploads";
 
 type ReturnDetailsDrawerProps = {
   isOpen: boolean;
@@ -21,10 +38,33 @@ type ReturnDetailsDrawerProps = {
   onMarkInTransit?: (returnId: string, courier: string, trackingNumber: string) => Promise<void>;
   onMarkReceived?: (returnId: string) => Promise<void>;
   onComplete?: (returnId: string) => Promise<void>;
-  onProcessRefund?: (returnId: string) => Promise<void>;
+  onProcessRefund?: (returnId: string, data?: ProcessRefundRequest) => Promise<void>;
+  onAdjustRefund?: (returnId: string, data: AdjustRefundAmountRequest) => Promise<void>;
+  onInspect?: (returnId: string, data: InspectReturnRequest) => Promise<void>;
   onCreateReplacement?: (returnId: string) => Promise<void>;
 };
 
+// Inspection form row for one returned item
+type InspectRow = {
+  item_id: string;
+  product_name: string;
+  unit_price: number;
+  remaining: number;
+  quantity: string;
+  result: InspectionResult;
+  restock_damaged: boolean;
+  write_off: string; // dollars, empty for the default
+  notes: string;
+  photo_urls: string[];
+};
+
+// Inspection result badge styles
+const inspectionResultClassNames: Record<InspectionResult, string> = {
+  resellable: "bg-green-100 text-green-800",
+  damaged: "bg-orange-100 text-orange-800",
+  spoiled: "bg-red-100 text-red-800",
+};
+
 // Return status badge configuration
 const returnStatusConfig: Record<ReturnStatus, { label: string; className: string }> = {
   requested: { label: "Pending Review", className: "bg-yellow-100 text-yellow-800" },
@@ -40,6 +80,7 @@ const returnStatusConfig: Record<ReturnStatus, { label: string; className: strin
 // Return type badge configuration
 const returnTypeConfig: Record<ReturnType, { label: string; className: string }> = {
   refund: { label: "Refund", className: "bg-emerald-100 text-emerald-800" },
+  store_credit: { label: "Store Credit", className: "bg-amber-100 text-amber-800" },
   replacement: { label: "Replacement", className: "bg-cyan-100 text-cyan-800" },
 };
 
@@ -62,6 +103,8 @@ export function ReturnDetailsDrawer({
   onMarkReceived,
   onComplete,
   onProcessRefund,
+  onAdjustRefund,
+  onInspect,
   onCreateReplacement,
 }: ReturnDetailsDrawerProps): React.JSX.Element | null {
   const [mounted, setMounted] = useState(false);
@@ -81,6 +124,25 @@ export function ReturnDetailsDrawer({
   const [easyParcelStatus, setEasyParcelStatus] = useState<ReturnShippingStatus | null>(null);
   const [easyParcelError, setEasyParcelError] = useState<string | null>(null);
 
+  // Refund states - amounts are entered in dollars
+  const [showRefundModal, setShowRefundModal] = useState(false);
+  const [cardRefundInput, setCardRefundInput] = useState("");
+  const [storeCreditInput, setStoreCreditInput] = useState("");
+  const [refundNote, setRefundNote] = useState("");
+  const [showAdjustModal, setShowAdjustModal] = useState(false);
+  const [adjustAmountInput, setAdjustAmountInput] = useState("");
+  const [adjustReason, setAdjustReason] = useState("");
+  const [refundHistory, setRefundHistory] = useState<ReturnRefund[]>([]);
+
+  // Inspection states - one row per item with units left to inspect
+  const [inspections, setInspections] = useState<ReturnInspection[]>([]);
+  const [stockLocations, setStockLocations] = useState<StockLocationOption[]>([]);
+  const [showInspectModal, setShowInspectModal] = useState(false);
+  const [inspectLocationId, setInspectLocationId] = useState("");
+  const [inspectRows, setInspectRows] = useState<InspectRow[]>([]);
+  const [inspectError, setInspectError] = useState<string | null>(null);
+  const [uploadingRow, setUploadingRow] = useState<string | null>(null);
+
   // Mount check for portal
   useEffect(() => {
     setMounted(true);
@@ -105,6 +167,12 @@ export function ReturnDetailsDrawer({
       if (e.key === "Escape") {
         if (showRejectModal) {
           setShowRejectModal(false);
+        } else if (showRefundModal) {
+          setShowRefundModal(false);
+        } else if (showAdjustModal) {
+          setShowAdjustModal(false);
+        } else if (showInspectModal) {
+          setShowInspectModal(false);
         } else if (showEasyParcelModal) {
           setShowEasyParcelModal(false);
         } else {
@@ -120,7 +188,7 @@ export function ReturnDetailsDrawer({
     return () => {
       document.removeEventListener("keydown", handleEscape);
     };
-  }, [isOpen, onClose, showRejectModal, showEasyParcelModal]);
+  }, [isOpen, onClose, showRejectModal, showRefundModal, showAdjustModal, showInspectModal, showEasyParcelModal]);
 
   // Fetch EasyParcel status when drawer opens for an approved return
   useEffect(() => {
@@ -131,6 +199,31 @@ export function ReturnDetailsDrawer({
     }
   }, [isOpen, returnItem]);
 
+  // Fetch refund transactions once a return has been (partly) refunded or a refund failed
+  useEffect(() => {
+    if (isOpen && returnItem && (returnItem.refunded_amount || returnItem.refund_status === "failed")) {
+      getReturnById(returnItem.id)
+        .then((details) => setRefundHistory(details.refunds || []))
+        .catch(() => setRefundHistory([]));
+    } else {
+      setRefundHistory([]);
+    }
+  }, [isOpen, returnItem]);
+
+  // Fetch inspection results once the return is back at the warehouse
+  useEffect(() => {
+    if (isOpen && returnItem && ["received", "inspecting", "completed"].includes(returnItem.status)) {
+      getReturnInspection(returnItem.id)
+        .then((data) => {
+          setInspections(data.inspections);
+          setStockLocations(data.stock_locations);
+        })
+        .catch(() => setInspections([]));
+    } else {
+      setInspections([]);
+    }
+  }, [isOpen, returnItem]);
+
   const formatCurrency = (amount: number, currency: string = "sgd"): string => {
     const currencySymbol = "$";
     return `${currencySymbol} ${(amount / 100).toFixed(2)}`;
@@ -174,6 +267,141 @@ export function ReturnDetailsDrawer({
     }
   };
 
+  const toCents = (value: string): number => Math.round((parseFloat(value) || 0) * 100);
+
+  const handleOpenRefundModal = (): void => {
+    if (!returnItem) return;
+    const remaining = Math.max(0, returnItem.total_refund - (returnItem.refunded_amount || 0));
+    // Prefill the full remaining amount on the return's own method
+    const prefill = (remaining / 100).toFixed(2);
+    setCardRefundInput(returnItem.return_type === "store_credit" ? "" : prefill);
+    setStoreCreditInput(returnItem.return_type === "store_credit" ? prefill : "");
+    setRefundNote("");
+    setShowRefundModal(true);
+  };
+
+  const handleSubmitRefund = async (): Promise<void> => {
+    if (!returnItem || !onProcessRefund) return;
+    const refunds: ProcessRefundRequest["refunds"] = [];
+    if (toCents(cardRefundInput) > 0) {
+      refunds.push({ method: "card", amount: toCents(cardRefundInput) });
+    }
+    if (toCents(storeCreditInput) > 0) {
+      refunds.push({ method: "store_credit", amount: toCents(storeCreditInput) });
+    }
+    if (refunds.length === 0) return;
+
+    await handleAction("refund", () =>
+      onProcessRefund(returnItem.id, { refunds, note: refundNote.trim() || undefined })
+    );
+    setShowRefundModal(false);
+  };
+
+  const handleOpenAdjustModal = (): void => {
+    if (!returnItem) return;
+    setAdjustAmountInput((returnItem.refund_amount / 100).toFixed(2));
+    setAdjustReason(returnItem.refund_adjustment_reason || "");
+    setShowAdjustModal(true);
+  };
+
+  const handleSubmitAdjust = async (): Promise<void> => {
+    if (!returnItem || !onAdjustRefund || !adjustReason.trim()) return;
+    await handleAction("adjust_refund", () =>
+      onAdjustRefund(returnItem.id, {
+        refund_amount: toCents(adjustAmountInput),
+        reason: adjustReason.trim(),
+      })
+    );
+    setShowAdjustModal(false);
+  };
+
+  const handleOpenInspectModal = (): void => {
+    if (!returnItem) return;
+    const rows: InspectRow[] = returnItem.items
+      .map((item) => {
+        const inspected = inspections
+          .filter((inspection) => inspection.item_id === item.item_id)
+          .reduce((sum, inspection) => sum + inspection.quantity, 0);
+        const remaining = item.quantity - inspected;
+        return {
+          item_id: item.item_id,
+          product_name: item.product_name,
+          unit_price: item.unit_price,
+          remaining,
+          quantity: String(remaining),
+          result: "resellable" as InspectionResult,
+          restock_damaged: false,
+          write_off: "",
+          notes: "",
+          photo_urls: [],
+        };
+      })
+      .filter((row) => row.remaining > 0);
+
+    setInspectRows(rows);
+    setInspectLocationId(stockLocations[0]?.id || "");
+    setInspectError(null);
+    setShowInspectModal(true);
+  };
+
+  const updateInspectRow = (itemId: string, changes: Partial<InspectRow>): void => {
+    setInspectRows((rows) => rows.map((row) => (row.item_id === itemId ? { ...row, ...changes } : row)));
+  };
+
+  // Units that go back into stock for a row, mirroring the server defaults
+  const getRestockQuantity = (row: InspectRow): number => {
+    const quantity = parseInt(row.quantity) || 0;
+    if (row.result === "resellable") return quantity;
+    if (row.result === "damaged" && row.restock_damaged) return quantity;
+    return 0;
+  };
+
+  const getDefaultWriteOff = (row: InspectRow): number =>
+    row.unit_price * ((parseInt(row.quantity) || 0) - getRestockQuantity(row));
+
+  const handleInspectPhotos = async (itemId: string, files: FileList | null): Promise<void> => {
+    const row = inspectRows.find((r) => r.item_id === itemId);
+    if (!row || !files || files.length === 0) return;
+    setUploadingRow(itemId);
+    setInspectError(null);
+    try {
+      const urls = await uploadFiles(Array.from(files).slice(0, 5 - row.photo_urls.length));
+      updateInspectRow(itemId, { photo_urls: [...row.photo_urls, ...urls] });
+    } catch (err) {
+      setInspectError(err instanceof Error ? err.message : "Failed to upload photos");
+    } finally {
+      setUploadingRow(null);
+    }
+  };
+
+  const handleSubmitInspection = async (): Promise<void> => {
+    if (!returnItem || !onInspect) return;
+    const rows = inspectRows.filter((row) => (parseInt(row.quantity) || 0) > 0);
+    if (rows.length === 0) return;
+
+    const needsLocation = rows.some((row) => getRestockQuantity(row) > 0);
+    if (needsLocation && !inspectLocationId) {
+      setInspectError("Select the stock location to restock to");
+      return;
+    }
+
+    await handleAction("inspect", () =>
+      onInspect(returnItem.id, {
+        stock_location_id: needsLocation ? inspectLocationId : undefined,
+        items: rows.map((row) => ({
+          item_id: row.item_id,
+          quantity: parseInt(row.quantity),
+          result: row.result,
+          restock_quantity: row.result === "damaged" ? getRestockQuantity(row) : undefined,
+          write_off_amount: row.write_off ? toCents(row.write_off) : undefined,
+          photo_urls: row.photo_urls.length > 0 ? row.photo_urls : undefined,
+          notes: row.notes.trim() || undefined,
+        })),
+      })
+    );
+    setShowInspectModal(false);
+  };
+
   // EasyParcel handlers
   const handleOpenEasyParcel = async (): Promise<void> => {
     if (!returnItem) return;
@@ -292,12 +520,22 @@ export function ReturnDetailsDrawer({
   const canMarkInTransit = returnItem.status === "approved";
   const canMarkReceived = returnItem.status === "in_transit";
   const canComplete = returnItem.status === "received" || returnItem.status === "inspecting";
-  // Can process refund: completed return, refund type, and refund not yet processed
-  // Also check for stripe_refund_id to ensure refund wasn't already processed
+  // Inspection can be recorded while any returned unit has no result yet
+  const inspectedUnits = inspections.reduce((sum, inspection) => sum + inspection.quantity, 0);
+  const returnedUnits = returnItem.items.reduce((sum, item) => sum + item.quantity, 0);
+  const canInspect = canComplete && inspectedUnits < returnedUnits;
+  const stockLocationNames = new Map(stockLocations.map((location) => [location.id, location.name]));
+  // Can process refund: completed refund or store credit return with an amount left to refund
+  const remainingRefund = Math.max(0, returnItem.total_refund - (returnItem.refunded_amount || 0));
   const canProcessRefund = returnItem.status === "completed" &&
-    returnItem.return_type === "refund" &&
+    returnItem.return_type !== "replacement" &&
     returnItem.refund_status !== "completed" &&
-    !returnItem.stripe_refund_id;
+    remainingRefund > 0;
+  // Refund amount can be edited until the return is fully refunded
+  const canAdjustRefund = returnItem.return_type !== "replacement" &&
+    returnItem.status !== "rejected" &&
+    returnItem.status !== "cancelled" &&
+    returnItem.refund_status !== "completed";
 
   // Can create replacement order: completed return, replacement type, and no replacement order yet
   const canCreateReplacement = returnItem.status === "completed" &&
@@ -305,7 +543,7 @@ export function ReturnDetailsDrawer({
     !returnItem.replacement_order_id;
 
   // Timeline steps - different for Refund vs Replacement
-  const isRefund = returnItem.return_type === "refund";
+  const isRefund = returnItem.return_type !== "replacement";
 
   const refundTimelineSteps = [
     {
@@ -431,10 +669,11 @@ export function ReturnDetailsDrawer({
             {returnItem.refund_status && (
               <span className={`inline-flex items-center rounded-full px-3 py-1 text-sm font-medium ${
                 returnItem.refund_status === "completed" ? "bg-green-100 text-green-800" :
+                returnItem.refund_status === "partially_refunded" ? "bg-amber-100 text-amber-800" :
                 returnItem.refund_status === "failed" ? "bg-red-100 text-red-800" :
                 "bg-gray-100 text-gray-800"
               }`}>
-                Refund: {returnItem.refund_status}
+                Refund: {returnItem.refund_status.replace("_", " ")}
               </span>
             )}
           </div>
@@ -533,6 +772,26 @@ export function ReturnDetailsDrawer({
               </div>
             )}
 
+            {/* Photo Evidence (customer-requested returns) */}
+            {returnItem.evidence_urls && returnItem.evidence_urls.length > 0 && (
+              <div>
+                <span className="block font-geist text-[14px] font-medium text-[#858585]">Photos from customer</span>
+                <div className="mt-2 flex flex-wrap gap-2">
+                  {returnItem.evidence_urls.map((url) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="h-16 w-16 overflow-hidden rounded-lg border border-[#E5E5E5]"
+                    >
+                      <img src={url} alt="Return evidence" className="h-full w-full object-cover" />
+                    </a>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Rejection Reason */}
             {returnItem.status === "rejected" && returnItem.rejection_reason && (
               <div className="rounded-lg bg-red-50 p-3">
@@ -600,6 +859,71 @@ export function ReturnDetailsDrawer({
             </div>
           </div>
 
+          {/* Inspection Section - once the return is back at the warehouse */}
+          {(canInspect || inspections.length > 0) && (
+            <>
+              {/* Divider */}
+              <div className="mb-6 border-t border-[#E5E7EB]"></div>
+
+              <div className="mb-6">
+                <div className="mb-4 flex items-center justify-between">
+                  <h3 className="font-geist text-[16px] font-medium text-[#030712]">Inspection</h3>
+                  {canInspect && onInspect && (
+                    <button
+                      onClick={handleOpenInspectModal}
+                      disabled={isLoading}
+                      className="font-geist text-[13px] font-medium text-[#2563EB] hover:underline disabled:cursor-not-allowed disabled:opacity-50"
+                    >
+                      {inspections.length > 0 ? "Inspect Remaining" : "Record Inspection"}
+                    </button>
+                  )}
+                </div>
+                {inspections.length > 0 ? (
+                  <div className="space-y-2">
+                    {inspections.map((inspection) => (
+                      <div key={inspection.id} className="rounded-lg bg-[#F9FAFB] p-3">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="truncate font-geist text-[13px] font-medium text-[#030712]">
+                            {inspection.product_name} x{inspection.quantity}
+                          </span>
+                          <span className={`shrink-0 rounded-full px-2 py-0.5 font-geist text-[12px] font-medium ${inspectionResultClassNames[inspection.result]}`}>
+                            {inspectionResultLabels[inspection.result]}
+                          </span>
+                        </div>
+                        {inspection.restocked_quantity > 0 && (
+                          <p className="font-geist text-[12px] text-[#6B7280]">
+                            {inspection.restocked_quantity} restocked
+                            {inspection.stock_location_id && ` at ${stockLocationNames.get(inspection.stock_location_id) || inspection.stock_location_id}`}
+                          </p>
+                        )}
+                        {inspection.write_off_amount > 0 && (
+                          <p className="font-geist text-[12px] text-red-700">
+                            Written off: {formatCurrency(inspection.write_off_amount)}
+                          </p>
+                        )}
+                        {inspection.notes && (
+                          <p className="whitespace-pre-line font-geist text-[12px] text-[#6B7280]">{inspection.notes}</p>
+                        )}
+                        {inspection.photo_urls.length > 0 && (
+                          <div className="mt-2 flex flex-wrap gap-2">
+                            {inspection.photo_urls.map((url) => (
+                              <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+                                <img src={url} alt="Inspection photo" className="h-14 w-14 rounded-lg object-cover" />
+                              </a>
+                            ))}
+                          </div>
+                        )}
+                        <p className="font-geist text-[12px] text-[#6B7280]">{formatDate(inspection.inspected_at)}</p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="font-geist text-[14px] text-[#858585]">No items inspected yet</p>
+                )}
+              </div>
+            </>
+          )}
+
           {/* Divider */}
           <div className="mb-6 border-t border-[#E5E7EB]"></div>
 
@@ -669,7 +993,18 @@ export function ReturnDetailsDrawer({
 
           {/* Refund Details Section */}
           <div>
-            <h3 className="mb-4 font-geist text-[16px] font-medium text-[#030712]">Refund Details</h3>
+            <div className="mb-4 flex items-center justify-between">
+              <h3 className="font-geist text-[16px] font-medium text-[#030712]">Refund Details</h3>
+              {canAdjustRefund && onAdjustRefund && (
+                <button
+                  onClick={handleOpenAdjustModal}
+                  disabled={isLoading}
+                  className="font-geist text-[14px] font-medium text-[#2563EB] hover:underline disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Adjust amount
+                </button>
+              )}
+            </div>
             <div className="space-y-3">
               {/* Item Refund */}
               <div className="flex items-center justify-between">
@@ -698,8 +1033,78 @@ export function ReturnDetailsDrawer({
                 </span>
               </div>
 
-              {/* Refund Status */}
-              {returnItem.refund_status && returnItem.stripe_refund_id && (
+              {/* Admin adjustment of the calculated refund */}
+              {returnItem.original_refund_amount != null && returnItem.original_refund_amount !== returnItem.refund_amount && (
+                <div className="rounded-lg bg-amber-50 p-3">
+                  <p className="font-geist text-[12px] text-amber-800">
+                    Items refund adjusted from {formatCurrency(returnItem.original_refund_amount)}
+                  </p>
+                  {returnItem.refund_adjustment_reason && (
+                    <p className="font-geist text-[12px] text-amber-700">
+                      Reason: {returnItem.refund_adjustment_reason}
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {/* Refunded so far */}
+              {(returnItem.refunded_amount || 0) > 0 && (
+                <>
+                  <div className="flex items-center justify-between">
+                    <span className="font-geist text-[14px] text-[#858585]">Refunded</span>
+                    <span className="font-geist text-[14px] text-green-700">
+                      {formatCurrency(returnItem.refunded_amount || 0)}
+                    </span>
+                  </div>
+                  {remainingRefund > 0 && (
+                    <div className="flex items-center justify-between">
+                      <span className="font-geist text-[14px] text-[#858585]">Remaining</span>
+                      <span className="font-geist text-[14px] text-[#030712]">
+                        {formatCurrency(remainingRefund)}
+                      </span>
+                    </div>
+                  )}
+                </>
+              )}
+
+              {/* Refund transactions */}
+              {refundHistory.length > 0 && (
+                <div className="space-y-2">
+                  {refundHistory.map((refund) => (
+                    <div
+                      key={refund.id}
+                      className={`rounded-lg p-3 ${refund.status === "failed" ? "bg-red-50" : refund.status === "completed" ? "bg-green-50" : "bg-[#F9FAFB]"}`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <span className="font-geist text-[13px] font-medium text-[#030712]">
+                          {refundMethodLabels[refund.method]} · {refund.status}
+                        </span>
+                        <span className="font-geist text-[13px] font-medium text-[#030712]">
+                          {formatCurrency(refund.amount)}
+                        </span>
+                      </div>
+                      {refund.stripe_refund_id && (
+                        <p className="font-geist text-[12px] text-[#6B7280]">Stripe Refund ID: {refund.stripe_refund_id}</p>
+                      )}
+                      {refund.points_credited != null && (
+                        <p className="font-geist text-[12px] text-[#6B7280]">{refund.points_credited} points credited</p>
+                      )}
+                      {refund.failure_reason && (
+                        <p className="font-geist text-[12px] text-red-700">{refund.failure_reason}</p>
+                      )}
+                      {refund.note && (
+                        <p className="font-geist text-[12px] text-[#6B7280]">Note: {refund.note}</p>
+                      )}
+                      <p className="font-geist text-[12px] text-[#6B7280]">
+                        {formatDate(refund.processed_at || refund.created_at)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Refund Status - returns refunded before refund transactions were recorded */}
+              {refundHistory.length === 0 && returnItem.refund_status && returnItem.stripe_refund_id && (
                 <div className="mt-2 rounded-lg bg-green-50 p-3">
                   <p className="font-geist text-[12px] text-green-700">
                     Stripe Refund ID: {returnItem.stripe_refund_id}
@@ -852,10 +1257,10 @@ export function ReturnDetailsDrawer({
               </button>
             )}
 
-            {/* Process Refund - Only for completed refund type with pending refund */}
+            {/* Process Refund - Only for completed refund types with an amount left to refund */}
             {canProcessRefund && onProcessRefund && (
               <button
-                onClick={() => handleAction("refund", () => onProcessRefund(returnItem.id))}
+                onClick={handleOpenRefundModal}
                 disabled={isLoading}
                 className="flex-1 rounded-lg bg-emerald-600 px-4 py-2.5 font-geist text-[14px] font-medium text-white transition-colors hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
               >
@@ -868,7 +1273,7 @@ export function ReturnDetailsDrawer({
                     Processing...
                   </span>
                 ) : (
-                  "Process Refund"
+                  (returnItem.refunded_amount || 0) > 0 ? "Refund Remaining" : "Process Refund"
                 )}
               </button>
             )}
@@ -957,6 +1362,282 @@ export function ReturnDetailsDrawer({
         </div>
       )}
 
+      {/* Refund Modal */}
+      {showRefundModal && (
+        <div className="fixed inset-0 z-200 flex items-center justify-center">
+          <div
+            className="absolute inset-0 bg-black/50"
+            onClick={() => setShowRefundModal(false)}
+          />
+          <div className="relative z-10 w-full max-w-md rounded-xl bg-white p-6 shadow-xl">
+            <h3 className="mb-4 font-geist text-[18px] font-medium text-[#030712]">
+              Process Refund
+            </h3>
+            <p className="mb-4 font-geist text-[14px] text-[#6B7280]">
+              {formatCurrency(remainingRefund)} left to refund. Split it between the card and store credit,
+              or refund part now and the rest later.
+            </p>
+            <div className="mb-4 space-y-3">
+              <div>
+                <label className="mb-1 block font-geist text-[14px] font-medium text-[#030712]">
+                  To card ($)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={cardRefundInput}
+                  onChange={(e) => setCardRefundInput(e.target.value)}
+                  placeholder="0.00"
+                  className="w-full rounded-lg border border-[#E5E7EB] p-3 font-geist text-[14px] focus:border-[#030712] focus:outline-none"
+                />
+              </div>
+              <div>
+                <label className="mb-1 block font-geist text-[14px] font-medium text-[#030712]">
+                  As store credit ($)
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={storeCreditInput}
+                  onChange={(e) => setStoreCreditInput(e.target.value)}
+                  placeholder="0.00"
+                  className="w-full rounded-lg border border-[#E5E7EB] p-3 font-geist text-[14px] focus:border-[#030712] focus:outline-none"
+                />
+                <p className="mt-1 font-geist text-[12px] text-[#6B7280]">
+                  Credited to the customer&apos;s points balance at the redemption rate
+                </p>
+              </div>
+              <textarea
+                value={refundNote}
+                onChange={(e) => setRefundNote(e.target.value)}
+                placeholder="Note (optional)"
+                className="h-20 w-full resize-none rounded-lg border border-[#E5E7EB] p-3 font-geist text-[14px] focus:border-[#030712] focus:outline-none"
+              />
+            </div>
+            {toCents(cardRefundInput) + toCents(storeCreditInput) > remainingRefund && (
+              <p className="mb-4 font-geist text-[12px] text-red-600">
+                The refund cannot be more than {formatCurrency(remainingRefund)}
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setShowRefundModal(false)}
+                disabled={isLoading}
+                className="rounded-lg border border-[#E5E7EB] bg-white px-4 py-2 font-geist text-[14px] font-medium text-[#030712] transition-colors hover:bg-[#F9FAFB] disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmitRefund}
+                disabled={
+                  isLoading ||
+                  toCents(cardRefundInput) + toCents(storeCreditInput) <= 0 ||
+                  toCents(cardRefundInput) + toCents(storeCreditInput) > remainingRefund
+                }
+                className="rounded-lg bg-emerald-600 px-4 py-2 font-geist text-[14px] font-medium text-white transition-colors hover:bg-emerald-700 disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {loadingAction === "refund" ? "Processing..." : `Refund ${formatCurrency(toCents(cardRefundInput) + toCents(storeCreditInput))}`}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Adjust Refund Amount Modal */}
+      {showAdjustModal && (
+        <div className="fixed inset-0 z-200 flex items-center justify-center">
+          <div
+            className="absolute inset-0 bg-black/50"
+            onClick={() => setShowAdjustModal(false)}
+          />
+          <div className="relative z-10 w-full max-w-md rounded-xl bg-white p-6 shadow-xl">
+            <h3 className="mb-4 font-geist text-[18px] font-medium text-[#030712]">
+              Adjust Items Refund
+            </h3>
+            <p className="mb-4 font-geist text-[14px] text-[#6B7280]">
+              Calculated refund: {formatCurrency(returnItem.original_refund_amount ?? returnItem.refund_amount)}.
+              Lower it when only part of the value should be refunded, e.g. items thawed but still usable.
+            </p>
+            <input
+              type="number"
+              min="0"
+              step="0.01"
+              value={adjustAmountInput}
+              onChange={(e) => setAdjustAmountInput(e.target.value)}
+              className="mb-3 w-full rounded-lg border border-[#E5E7EB] p-3 font-geist text-[14px] focus:border-[#030712] focus:outline-none"
+            />
+            <textarea
+              value={adjustReason}
+              onChange={(e) => setAdjustReason(e.target.value)}
+              placeholder="Reason for the adjustment..."
+              className="mb-4 h-24 w-full resize-none rounded-lg border border-[#E5E7EB] p-3 font-geist text-[14px] focus:border-[#030712] focus:outline-none"
+            />
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setShowAdjustModal(false)}
+                disabled={isLoading}
+                className="rounded-lg border border-[#E5E7EB] bg-white px-4 py-2 font-geist text-[14px] font-medium text-[#030712] transition-colors hover:bg-[#F9FAFB] disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmitAdjust}
+                disabled={!adjustReason.trim() || isLoading}
+                className="rounded-lg bg-[#030712] px-4 py-2 font-geist text-[14px] font-medium text-white transition-colors hover:bg-[#1F2937] disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {loadingAction === "adjust_refund" ? "Saving..." : "Save"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Inspection Modal */}
+      {showInspectModal && (
+        <div className="fixed inset-0 z-200 flex items-center justify-center">
+          <div
+            className="absolute inset-0 bg-black/50"
+            onClick={() => setShowInspectModal(false)}
+          />
+          <div className="relative z-10 max-h-[90vh] w-full max-w-lg overflow-y-auto rounded-xl bg-white p-6 shadow-xl">
+            <h3 className="mb-4 font-geist text-[18px] font-medium text-[#030712]">
+              Record Inspection
+            </h3>
+            <p className="mb-4 font-geist text-[14px] text-[#6B7280]">
+              Resellable units go back into stock. Thawed or spoiled units are written off.
+              To split an item across results, inspect part of it now and the rest afterwards.
+            </p>
+
+            {inspectError && (
+              <div className="mb-4 rounded-lg bg-red-50 p-3">
+                <p className="font-geist text-[13px] text-red-700">{inspectError}</p>
+              </div>
+            )}
+
+            <div className="mb-4">
+              <label className="mb-1 block font-geist text-[14px] font-medium text-[#030712]">
+                Restock to
+              </label>
+              <select
+                value={inspectLocationId}
+                onChange={(e) => setInspectLocationId(e.target.value)}
+                className="w-full rounded-lg border border-[#E5E7EB] p-3 font-geist text-[14px] focus:border-[#030712] focus:outline-none"
+              >
+                <option value="">Select stock location</option>
+                {stockLocations.map((location) => (
+                  <option key={location.id} value={location.id}>{location.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="mb-4 space-y-4">
+              {inspectRows.map((row) => (
+                <div key={row.item_id} className="rounded-lg border border-[#E5E7EB] p-3">
+                  <p className="mb-2 font-geist text-[14px] font-medium text-[#030712]">
+                    {row.product_name}
+                    <span className="ml-1 font-normal text-[#858585]">({row.remaining} to inspect)</span>
+                  </p>
+                  <div className="mb-2 grid grid-cols-2 gap-2">
+                    <input
+                      type="number"
+                      min="0"
+                      max={row.remaining}
+                      value={row.quantity}
+                      onChange={(e) => updateInspectRow(row.item_id, { quantity: e.target.value })}
+                      className="rounded-lg border border-[#E5E7EB] p-2 font-geist text-[14px] focus:border-[#030712] focus:outline-none"
+                    />
+                    <select
+                      value={row.result}
+                      onChange={(e) => updateInspectRow(row.item_id, { result: e.target.value as InspectionResult })}
+                      className="rounded-lg border border-[#E5E7EB] p-2 font-geist text-[14px] focus:border-[#030712] focus:outline-none"
+                    >
+                      {(Object.keys(inspectionResultLabels) as InspectionResult[]).map((result) => (
+                        <option key={result} value={result}>{inspectionResultLabels[result]}</option>
+                      ))}
+                    </select>
+                  </div>
+                  {row.result === "damaged" && (
+                    <label className="mb-2 flex items-center gap-2 font-geist text-[13px] text-[#030712]">
+                      <input
+                        type="checkbox"
+                        checked={row.restock_damaged}
+                        onChange={(e) => updateInspectRow(row.item_id, { restock_damaged: e.target.checked })}
+                      />
+                      Restock anyway (packaging damage only)
+                    </label>
+                  )}
+                  {getRestockQuantity(row) < (parseInt(row.quantity) || 0) && (
+                    <div className="mb-2">
+                      <input
+                        type="number"
+                        min="0"
+                        step="0.01"
+                        value={row.write_off}
+                        onChange={(e) => updateInspectRow(row.item_id, { write_off: e.target.value })}
+                        placeholder={`Write-off ($), default ${(getDefaultWriteOff(row) / 100).toFixed(2)}`}
+                        className="w-full rounded-lg border border-[#E5E7EB] p-2 font-geist text-[14px] focus:border-[#030712] focus:outline-none"
+                      />
+                    </div>
+                  )}
+                  <input
+                    type="text"
+                    value={row.notes}
+                    onChange={(e) => updateInspectRow(row.item_id, { notes: e.target.value })}
+                    placeholder="Notes (optional)"
+                    className="mb-2 w-full rounded-lg border border-[#E5E7EB] p-2 font-geist text-[14px] focus:border-[#030712] focus:outline-none"
+                  />
+                  <div className="flex flex-wrap items-center gap-2">
+                    {row.photo_urls.map((url) => (
+                      <img key={url} src={url} alt="Inspection photo" className="h-12 w-12 rounded-lg object-cover" />
+                    ))}
+                    {row.photo_urls.length < 5 && (
+                      <label className="cursor-pointer font-geist text-[13px] font-medium text-[#2563EB] hover:underline">
+                        {uploadingRow === row.item_id ? "Uploading..." : "Add photos"}
+                        <input
+                          type="file"
+                          accept="image/*"
+                          multiple
+                          className="hidden"
+                          disabled={uploadingRow !== null}
+                          onChange={(e) => {
+                            handleInspectPhotos(row.item_id, e.target.files);
+                            e.target.value = "";
+                          }}
+                        />
+                      </label>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <button
+                onClick={() => setShowInspectModal(false)}
+                disabled={isLoading}
+                className="rounded-lg border border-[#E5E7EB] bg-white px-4 py-2 font-geist text-[14px] font-medium text-[#030712] transition-colors hover:bg-[#F9FAFB] disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSubmitInspection}
+                disabled={
+                  isLoading ||
+                  uploadingRow !== null ||
+                  !inspectRows.some((row) => (parseInt(row.quantity) || 0) > 0) ||
+                  inspectRows.some((row) => (parseInt(row.quantity) || 0) > row.remaining)
+                }
+                className="rounded-lg bg-[#030712] px-4 py-2 font-geist text-[14px] font-medium text-white transition-colors hover:bg-[#1F2937] disabled:cursor-not-allowed disabled:opacity-50"
+              >
+                {loadingAction === "inspect" ? "Saving..." : "Save Inspection"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* EasyParcel Shipping Modal */}
       {showEasyParcelModal && (
         <div className="fixed inset-0 z-200 flex items-center justify-center">
@@ -31,6 +31,7 @@ const statusFilterOptions = [
 const returnTypeOptions = [
   { value: "all", label: "All Types" },
   { value: "refund", label: "Refund" },
+  { value: "store_credit", label: "Store Credit" },
   { value: "replacement", label: "Replacement" },
 ];
 
@@ -23,3 +23,5 @@ export { CategoryStatsCards, CategoryToolbar, CategoryTable } from "./categories
 // Brand components
 export { BrandStatsCards, BrandToolbar, BrandTable } from "./brands";
 export * from "./membership";
+// Review moderation components
+export * from "./reviews";
@@ -0,0 +1,410 @@
+"use client";
+
+import React from "react";
+import { FormCheckbox } from "@/components/admin/membership/FormCheckbox";
+import { useCategories, useProducts } from "@/lib/api/queries";
+import type {
+  AutoPromotionAPI,
+  AutoPromotionType,
+  CreateAutoPromotionInput,
+  PromoStatus,
+  PromoType,
+} from "@/lib/types/promo";
+import { PromoFormChips } from "./PromoFormChips";
+import { PromoFormDateInput } from "./PromoFormDateInput";
+import { PromoFormDropdown } from "./PromoFormDropdown";
+import { PromoFormInput } from "./PromoFormInput";
+import { PromoFormProductSelector } from "./PromoFormProductSelector";
+import { PromoFormSection } from "./PromoFormSection";
+
+export type AutoPromotionFormData = {
+  name: string;
+  description: string;
+  type: AutoPromotionType;
+  status: PromoStatus;
+  priority: string;
+  startDate: string;
+  endDate: string;
+  minSubtotal: string;
+  buyQuantity: string;
+  getQuantity: string;
+  productIds: string[];
+  categoryIds: string[];
+  discountType: PromoType;
+  discountValue: string;
+  maxDiscountAmount: string;
+  exclusive: boolean;
+  combineWithCoupons: boolean;
+  combineWithPwp: boolean;
+  combineWithMembershipPromos: boolean;
+  combineWithPoints: boolean;
+};
+
+export const EMPTY_AUTO_PROMOTION: AutoPromotionFormData = {
+  name: "",
+  description: "",
+  type: "spend_threshold",
+  status: "active",
+  priority: "0",
+  startDate: "",
+  endDate: "",
+  minSubtotal: "",
+  buyQuantity: "",
+  getQuantity: "",
+  productIds: [],
+  categoryIds: [],
+  discountType: "percentage",
+  discountValue: "",
+  maxDiscountAmount: "",
+  exclusive: false,
+  combineWithCoupons: true,
+  combineWithPwp: true,
+  combineWithMembershipPromos: true,
+  combineWithPoints: true,
+};
+
+type Option = { label: string; value: string };
+
+const typeOptions: Option[] = [
+  { label: "Spend Threshold", value: "spend_threshold" },
+  { label: "Buy X Get Y", value: "buy_x_get_y" },
+  { label: "Category Sale", value: "category_sale" },
+  { label: "Free Shipping", value: "free_shipping" },
+];
+
+const statusOptions: Option[] = [
+  { label: "Active", value: "active" },
+  { label: "Non Active", value: "non-active" },
+];
+
+const discountTypeOptions: Option[] = [
+  { label: "%", value: "percentage" },
+  { label: "Fixed Amount", value: "fixed" },
+];
+
+function dollarsToCents(value: string): number | null {
+  return value ? Math.round(parseFloat(value) * 100) : null;
+}
+
+function centsToDollars(value: number | null): string {
+  return value !== null && value !== undefined ? (value / 100).toString() : "";
+}
+
+function toDateInput(value: string | null): string {
+  return value ? value.split("T")[0] : "";
+}
+
+/**
+ * Convert the form (dollar amounts) into automatic promotion API fields (cents)
+ * Fields that don't apply to the selected type are cleared
+ */
+export function toAutoPromotionInput(data: AutoPromotionFormData): CreateAutoPromotionInput {
+  const isBuyXGetY = data.type === "buy_x_get_y";
+  const hasDiscount = data.type !== "free_shipping";
+
+  let discountValue = 0;
+  if (hasDiscount && data.discountValue) {
+    discountValue = data.discountType === "fixed"
+      ? Math.round(parseFloat(data.discountValue) * 100)
+      : parseFloat(data.discountValue);
+  }
+
+  return {
+    name: data.name,
+    description: data.description || null,
+    type: data.type,
+    status: data.status,
+    priority: parseInt(data.priority, 10) || 0,
+    starts_at: data.startDate ? new Date(data.startDate).toISOString() : null,
+    ends_at: data.endDate ? new Date(data.endDate).toISOString() : null,
+    min_subtotal: dollarsToCents(data.minSubtotal),
+    buy_quantity: isBuyXGetY && data.buyQuantity ? parseInt(data.buyQuantity, 10) : null,
+    get_quantity: isBuyXGetY && data.getQuantity ? parseInt(data.getQuantity, 10) : null,
+    product_ids: data.productIds,
+    category_ids: data.categoryIds,
+    discount_type: data.discountType,
+    discount_value: discountValue,
+    max_discount_amount: hasDiscount ? dollarsToCents(data.maxDiscountAmount) : null,
+    exclusive: data.exclusive,
+    combine_with_coupons: data.combineWithCoupons,
+    combine_with_pwp: data.combineWithPwp,
+    combine_with_membership_promos: data.combineWithMembershipPromos,
+    combine_with_points: data.combineWithPoints,
+  };
+}
+
+/**
+ * Populate the form from an existing automatic promotion
+ */
+export function fromAutoPromotion(promotion: AutoPromotionAPI): AutoPromotionFormData {
+  return {
+    name: promotion.name,
+    description: promotion.description ?? "",
+    type: promotion.type,
+    status: promotion.status,
+    priority: promotion.priority.toString(),
+    startDate: toDateInput(promotion.starts_at),
+    endDate: toDateInput(promotion.ends_at),
+    minSubtotal: centsToDollars(promotion.min_subtotal),
+    buyQuantity: promotion.buy_quantity ? promotion.buy_quantity.toString() : "",
+    getQuantity: promotion.get_quantity ? promotion.get_quantity.toString() : "",
+    productIds: promotion.product_ids ?? [],
+    categoryIds: promotion.category_ids ?? [],
+    discountType: promotion.discount_type,
+    discountValue: promotion.discount_type === "fixed"
+      ? centsToDollars(promotion.discount_value)
+      : promotion.discount_value.toString(),
+    maxDiscountAmount: centsToDollars(promotion.max_discount_amount),
+    exclusive: promotion.exclusive,
+    combineWithCoupons: promotion.combine_with_coupons,
+    combineWithPwp: promotion.combine_with_pwp,
+    combineWithMembershipPromos: promotion.combine_with_membership_promos,
+    combineWithPoints: promotion.combine_with_points,
+  };
+}
+
+type AutoPromotionFormSectionsProps = {
+  value: AutoPromotionFormData;
+  onChange: (value: AutoPromotionFormData) => void;
+};
+
+/**
+ * Form sections of an automatic promotion - details, the reward for the
+ * selected type, qualifying items and how it stacks with other discounts
+ */
+export function AutoPromotionFormSections({
+  value,
+  onChange,
+}: AutoPromotionFormSectionsProps): React.JSX.Element {
+  const { data: productsData } = useProducts({ limit: 100 });
+  const { data: categoriesData } = useCategories();
+
+  const productLabels = new Map(
+    (productsData?.products ?? []).map((product) => [product.id, product.title])
+  );
+  const categoryOptions: Option[] = (categoriesData?.product_categories ?? []).map(
+    (category) => ({ label: category.name, value: category.id })
+  );
+  const categoryLabels = new Map(categoryOptions.map((option) => [option.value, option.label]));
+
+  const update = (updates: Partial<AutoPromotionFormData>): void => {
+    onChange({ ...value, ...updates });
+  };
+
+  const isBuyXGetY = value.type === "buy_x_get_y";
+  const hasDiscount = value.type !== "free_shipping";
+
+  return (
+    <>
+      <PromoFormSection title="Details">
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <div className="space-y-4">
+            <PromoFormInput
+              label="Name"
+              placeholder="e.g., Ice Cream Buy 2 Get 1"
+              value={value.name}
+              onChange={(name) => update({ name })}
+            />
+
+            <PromoFormInput
+              label="Customer Message"
+              placeholder="e.g., Buy 2 get 1 free on all ice cream"
+              value={value.description}
+              onChange={(description) => update({ description })}
+            />
+
+            <PromoFormDropdown
+              label="Promotion Type"
+              value={value.type}
+              onChange={(type) => update({ type: type as AutoPromotionType })}
+              options={typeOptions}
+            />
+          </div>
+
+          <div className="space-y-4">
+            <PromoFormDropdown
+              label="Status"
+              value={value.status}
+              onChange={(status) => update({ status: status as PromoStatus })}
+              options={statusOptions}
+            />
+
+            <PromoFormDateInput
+              label="Start Date"
+              placeholder="Select start date"
+              value={value.startDate}
+              onChange={(startDate) => update({ startDate })}
+            />
+
+            <PromoFormDateInput
+              label="End Date"
+              placeholder="Select end date"
+              value={value.endDate}
+              onChange={(endDate) => update({ endDate })}
+            />
+          </div>
+        </div>
+      </PromoFormSection>
+
+      <PromoFormSection title="Reward">
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          {isBuyXGetY && (
+            <>
+              <PromoFormInput
+                label="Buy Quantity"
+                placeholder="e.g., 2"
+                type="number"
+                value={value.buyQuantity}
+                onChange={(buyQuantity) => update({ buyQuantity })}
+              />
+              <PromoFormInput
+                label="Get Quantity"
+                placeholder="e.g., 1"
+                type="number"
+                value={value.getQuantity}
+                onChange={(getQuantity) => update({ getQuantity })}
+              />
+            </>
+          )}
+
+          <PromoFormInput
+            label="Minimum Qualifying Spend ($)"
+            placeholder="Leave empty for no minimum"
+            type="number"
+            value={value.minSubtotal}
+            onChange={(minSubtotal) => update({ minSubtotal })}
+          />
+
+          {hasDiscount && (
+            <>
+              <PromoFormDropdown
+                label="Discount Type"
+                value={value.discountType}
+                onChange={(discountType) => update({ discountType: discountType as PromoType })}
+                options={discountTypeOptions}
+              />
+              <PromoFormInput
+                label={value.discountType === "percentage" ? "Discount %" : "Discount Amount ($)"}
+                placeholder={isBuyXGetY ? "100 = free" : value.discountType === "percentage" ? "e.g., 15" : "e.g., 20"}
+                type="number"
+                value={value.discountValue}
+                onChange={(discountValue) => update({ discountValue })}
+              />
+              <PromoFormInput
+                label="Maximum Discount ($)"
+                placeholder="Leave empty for no cap"
+                type="number"
+                value={value.maxDiscountAmount}
+                onChange={(maxDiscountAmount) => update({ maxDiscountAmount })}
+              />
+            </>
+          )}
+        </div>
+
+        {isBuyXGetY && (
+          <p className="font-public text-[12px] text-[#6A7282]">
+            Qualifying items are grouped most expensive first; the cheapest items of every full
+            group get the discount. The discount applies per item, e.g. 100% makes them free.
+          </p>
+        )}
+      </PromoFormSection>
+
+      <PromoFormSection title="Qualifying Items">
+        <p className="font-public text-[12px] text-[#6A7282]">
+          Leave both lists empty to include every item. PWP items never count towards an
+          automatic promotion.
+        </p>
+
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <div>
+            <PromoFormProductSelector
+              label="Products"
+              value=""
+              placeholder="Add a product"
+              onChange={(productId) => {
+                if (productId && !value.productIds.includes(productId)) {
+                  update({ productIds: [...value.productIds, productId] });
+                }
+              }}
+            />
+            <PromoFormChips
+              ids={value.productIds}
+              labels={productLabels}
+              onRemove={(id) => update({ productIds: value.productIds.filter((entry) => entry !== id) })}
+            />
+          </div>
+
+          <div>
+            <PromoFormDropdown
+              label="Categories"
+              value=""
+              onChange={(id) => {
+                if (id && !value.categoryIds.includes(id)) {
+                  update({ categoryIds: [...value.categoryIds, id] });
+                }
+              }}
+              options={categoryOptions.filter((option) => !value.categoryIds.includes(option.value))}
+            />
+            <PromoFormChips
+              ids={value.categoryIds}
+              labels={categoryLabels}
+              onRemove={(id) => update({ categoryIds: value.categoryIds.filter((entry) => entry !== id) })}
+            />
+          </div>
+        </div>
+      </PromoFormSection>
+
+      <PromoFormSection title="Stacking">
+        <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+          <div className="space-y-4">
+            <PromoFormInput
+              label="Priority"
+              placeholder="Higher priority promotions apply first"
+              type="number"
+              value={value.priority}
+              onChange={(priority) => update({ priority })}
+            />
+
+            <FormCheckbox
+              label="Exclusive - no other automatic promotion applies with this one"
+              checked={value.exclusive}
+              onChange={(exclusive) => update({ exclusive })}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <p className="font-geist text-[14px] font-medium tracking-[-0.14px] text-[#030712]">
+              Applies together with
+            </p>
+            <FormCheckbox
+              label="Coupon codes"
+              checked={value.combineWithCoupons}
+              onChange={(combineWithCoupons) => update({ combineWithCoupons })}
+            />
+            <FormCheckbox
+              label="PWP offers"
+              checked={value.combineWithPwp}
+              onChange={(combineWithPwp) => update({ combineWithPwp })}
+            />
+            <FormCheckbox
+              label="Membership promotions"
+              checked={value.combineWithMembershipPromos}
+              onChange={(combineWithMembershipPromos) => update({ combineWithMembershipPromos })}
+            />
+            <FormCheckbox
+              label="Points redemption"
+              checked={value.combineWithPoints}
+              onChange={(combineWithPoints) => update({ combineWithPoints })}
+            />
+          </div>
+        </div>
+
+        <p className="font-public text-[12px] text-[#6A7282]">
+          Each item gets at most one item-level promotion (Buy X Get Y or Category Sale); spend
+          thresholds apply on top. Unchecked discounts switch this promotion off while they are
+          in the cart, and the customer sees why.
+        </p>
+      </PromoFormSection>
+    </>
+  );
+}
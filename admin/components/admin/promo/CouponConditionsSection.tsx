@@ -0,0 +1,225 @@
+"use client";
+
+import React from "react";
+import { useBrands, useCategories, useProducts } from "@/lib/api/queries";
+import type { CouponAPI, CreateCouponInput } from "@/lib/types/promo";
+import { PromoFormChips } from "./PromoFormChips";
+import { PromoFormDropdown } from "./PromoFormDropdown";
+import { PromoFormInput } from "./PromoFormInput";
+import { PromoFormProductSelector } from "./PromoFormProductSelector";
+import { PromoFormSection } from "./PromoFormSection";
+
+export type CouponConditionsFormData = {
+  minSubtotal: string;
+  maxDiscountAmount: string;
+  includeProductIds: string[];
+  excludeProductIds: string[];
+  includeCategoryIds: string[];
+  excludeCategoryIds: string[];
+  includeBrandIds: string[];
+  excludeBrandIds: string[];
+};
+
+export const EMPTY_COUPON_CONDITIONS: CouponConditionsFormData = {
+  minSubtotal: "",
+  maxDiscountAmount: "",
+  includeProductIds: [],
+  excludeProductIds: [],
+  includeCategoryIds: [],
+  excludeCategoryIds: [],
+  includeBrandIds: [],
+  excludeBrandIds: [],
+};
+
+type Option = { label: string; value: string };
+
+function dollarsToCents(value: string): number | null {
+  return value ? Math.round(parseFloat(value) * 100) : null;
+}
+
+function centsToDollars(value: number | null): string {
+  return value !== null && value !== undefined ? (value / 100).toString() : "";
+}
+
+/**
+ * Convert the conditions form (dollar amounts) into coupon API fields (cents)
+ */
+export function toCouponConditionsInput(
+  data: CouponConditionsFormData,
+  discountType: "percentage" | "fixed"
+): Partial<CreateCouponInput> {
+  return {
+    min_subtotal: dollarsToCents(data.minSubtotal),
+    max_discount_amount: discountType === "percentage" ? dollarsToCents(data.maxDiscountAmount) : null,
+    include_product_ids: data.includeProductIds,
+    exclude_product_ids: data.excludeProductIds,
+    include_category_ids: data.includeCategoryIds,
+    exclude_category_ids: data.excludeCategoryIds,
+    include_brand_ids: data.includeBrandIds,
+    exclude_brand_ids: data.excludeBrandIds,
+  };
+}
+
+/**
+ * Populate the conditions form from an existing coupon
+ */
+export function fromCouponConditions(coupon: CouponAPI): CouponConditionsFormData {
+  return {
+    minSubtotal: centsToDollars(coupon.min_subtotal),
+    maxDiscountAmount: centsToDollars(coupon.max_discount_amount),
+    includeProductIds: coupon.include_product_ids ?? [],
+    excludeProductIds: coupon.exclude_product_ids ?? [],
+    includeCategoryIds: coupon.include_category_ids ?? [],
+    excludeCategoryIds: coupon.exclude_category_ids ?? [],
+    includeBrandIds: coupon.include_brand_ids ?? [],
+    excludeBrandIds: coupon.exclude_brand_ids ?? [],
+  };
+}
+
+type CouponConditionsSectionProps = {
+  value: CouponConditionsFormData;
+  onChange: (value: CouponConditionsFormData) => void;
+  discountType: "percentage" | "fixed";
+};
+
+type ScopeDropdownProps = {
+  label: string;
+  ids: string[];
+  options: Option[];
+  onChange: (ids: string[]) => void;
+};
+
+function ScopeDropdown({ label, ids, options, onChange }: ScopeDropdownProps): React.JSX.Element {
+  const labels = new Map(options.map((option) => [option.value, option.label]));
+
+  return (
+    <div>
+      <PromoFormDropdown
+        label={label}
+        value=""
+        onChange={(id) => {
+          if (id && !ids.includes(id)) onChange([...ids, id]);
+        }}
+        options={options.filter((option) => !ids.includes(option.value))}
+      />
+      <PromoFormChips
+        ids={ids}
+        labels={labels}
+        onRemove={(id) => onChange(ids.filter((entry) => entry !== id))}
+      />
+    </div>
+  );
+}
+
+/**
+ * Cart conditions for a coupon - minimum spend, discount cap and which
+ * products, categories and brands the discount applies to
+ * Exclusions take priority over inclusions
+ */
+export function CouponConditionsSection({
+  value,
+  onChange,
+  discountType,
+}: CouponConditionsSectionProps): React.JSX.Element {
+  const { data: productsData } = useProducts({ limit: 100 });
+  const { data: categoriesData } = useCategories();
+  const { data: brandsData } = useBrands({ limit: 100 });
+
+  const productLabels = new Map(
+    (productsData?.products ?? []).map((product) => [product.id, product.title])
+  );
+  const categoryOptions: Option[] = (categoriesData?.product_categories ?? []).map(
+    (category) => ({ label: category.name, value: category.id })
+  );
+  const brandOptions: Option[] = (brandsData?.brands ?? []).map((brand) => ({
+    label: brand.name,
+    value: brand.id,
+  }));
+
+  const update = (updates: Partial<CouponConditionsFormData>): void => {
+    onChange({ ...value, ...updates });
+  };
+
+  const renderProductScope = (
+    label: string,
+    field: "includeProductIds" | "excludeProductIds"
+  ): React.JSX.Element => (
+    <div>
+      <PromoFormProductSelector
+        label={label}
+        value=""
+        placeholder="Add a product"
+        onChange={(productId) => {
+          if (productId && !value[field].includes(productId)) {
+            update({ [field]: [...value[field], productId] });
+          }
+        }}
+      />
+      <PromoFormChips
+        ids={value[field]}
+        labels={productLabels}
+        onRemove={(id) => update({ [field]: value[field].filter((entry) => entry !== id) })}
+      />
+    </div>
+  );
+
+  return (
+    <PromoFormSection title="Conditions">
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <PromoFormInput
+          label="Minimum Spend ($)"
+          placeholder="Leave empty for no minimum"
+          type="number"
+          value={value.minSubtotal}
+          onChange={(minSubtotal) => update({ minSubtotal })}
+        />
+
+        {discountType === "percentage" && (
+          <PromoFormInput
+            label="Maximum Discount ($)"
+            placeholder="Leave empty for no cap"
+            type="number"
+            value={value.maxDiscountAmount}
+            onChange={(maxDiscountAmount) => update({ maxDiscountAmount })}
+          />
+        )}
+      </div>
+
+      <p className="font-public text-[12px] text-[#6A7282]">
+        Leave the lists below empty to apply the coupon to the whole cart. The discount is
+        only applied to eligible items, and exclusions always take priority.
+      </p>
+
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {renderProductScope("Only Products", "includeProductIds")}
+        {renderProductScope("Exclude Products", "excludeProductIds")}
+
+        <ScopeDropdown
+          label="Only Categories"
+          ids={value.includeCategoryIds}
+          options={categoryOptions}
+          onChange={(includeCategoryIds) => update({ includeCategoryIds })}
+        />
+        <ScopeDropdown
+          label="Exclude Categories"
+          ids={value.excludeCategoryIds}
+          options={categoryOptions}
+          onChange={(excludeCategoryIds) => update({ excludeCategoryIds })}
+        />
+
+        <ScopeDropdown
+          label="Only Brands"
+          ids={value.includeBrandIds}
+          options={brandOptions}
+          onChange={(includeBrandIds) => update({ includeBrandIds })}
+        />
+        <ScopeDropdown
+          label="Exclude Brands"
+          ids={value.excludeBrandIds}
+          options={brandOptions}
+          onChange={(excludeBrandIds) => update({ excludeBrandIds })}
+        />
+      </div>
+    </PromoFormSection>
+  );
+}
@@ -0,0 +1,112 @@
+"use client";
+
+import React, { useState } from "react";
+import { useCouponRedemptions } from "@/lib/api/queries";
+import { PromoFormSection } from "./PromoFormSection";
+
+type CouponRedemptionsTableProps = {
+  couponId: string;
+};
+
+const PAGE_SIZE = 10;
+
+function formatAmount(cents: number, currencyCode: string): string {
+  return `${currencyCode.toUpperCase()} ${(cents / 100).toFixed(2)}`;
+}
+
+function formatDateTime(dateString: string): string {
+  return new Date(dateString).toLocaleString("en-GB", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+/**
+ * Redemption ledger of a coupon - which customer used it on which order
+ */
+export function CouponRedemptionsTable({
+  couponId,
+}: CouponRedemptionsTableProps): React.JSX.Element {
+  const [offset, setOffset] = useState(0);
+  const { data, isLoading } = useCouponRedemptions(couponId, PAGE_SIZE, offset);
+
+  const redemptions = data?.redemptions ?? [];
+  const count = data?.count ?? 0;
+
+  return (
+    <PromoFormSection title={`Redemptions (${count})`}>
+      {isLoading ? (
+        <div className="p-4 text-center">
+          <div className="inline-block h-6 w-6 animate-spin rounded-full border-4 border-solid border-black border-r-transparent" />
+        </div>
+      ) : redemptions.length === 0 ? (
+        <p className="font-public text-[14px] text-[#6A7282]">
+          This coupon has not been redeemed yet.
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full">
+            <thead>
+              <tr className="border-b border-[#E5E7EB] bg-[#F9FAFB]">
+                <th className="px-3 py-3 text-left font-geist text-[12px] font-medium tracking-[-0.12px] text-[#6A7282]">
+                  Date
+                </th>
+                <th className="px-3 py-3 text-left font-geist text-[12px] font-medium tracking-[-0.12px] text-[#6A7282]">
+                  Customer
+                </th>
+                <th className="px-3 py-3 text-left font-geist text-[12px] font-medium tracking-[-0.12px] text-[#6A7282]">
+                  Order
+                </th>
+                <th className="px-3 py-3 text-left font-geist text-[12px] font-medium tracking-[-0.12px] text-[#6A7282]">
+                  Discount
+                </th>
+              </tr>
+            </thead>
+            <tbody>
+              {redemptions.map((redemption) => (
+                <tr key={redemption.id} className="border-b border-[#E5E7EB]">
+                  <td className="px-3 py-3 font-public text-[14px] text-[#030712]">
+                    {formatDateTime(redemption.created_at)}
+                  </td>
+                  <td className="px-3 py-3 font-public text-[14px] text-[#030712]">
+                    {redemption.email || redemption.customer_id || "Guest"}
+                  </td>
+                  <td className="px-3 py-3 font-public text-[14px] text-[#030712]">
+                    {redemption.order_id}
+                  </td>
+                  <td className="px-3 py-3 font-public text-[14px] text-[#030712]">
+                    {formatAmount(redemption.discount_amount, redemption.currency_code)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {count > PAGE_SIZE && (
+        <div className="flex items-center justify-end gap-3">
+          <button
+            type="button"
+            onClick={() => setOffset(Math.max(0, offset - PAGE_SIZE))}
+            disabled={offset === 0}
+            className="h-9 cursor-pointer rounded-lg border border-[#E5E7EB] bg-white px-4 font-public text-[14px] font-medium text-[#030712] transition-colors hover:bg-[#F9FAFB] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Previous
+          </button>
+          <button
+            type="button"
+            onClick={() => setOffset(offset + PAGE_SIZE)}
+            disabled={offset + PAGE_SIZE >= count}
+            className="h-9 cursor-pointer rounded-lg border border-[#E5E7EB] bg-white px-4 font-public text-[14px] font-medium text-[#030712] transition-colors hover:bg-[#F9FAFB] disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </PromoFormSection>
+  );
+}
@@ -0,0 +1,137 @@
+"use client";
+
+import React from "react";
+import { FormCheckbox } from "@/components/admin/membership/FormCheckbox";
+import { useTiers } from "@/lib/api/queries";
+import type { CustomerGroupRole } from "@/lib/types/promo";
+import { PromoFormInput } from "./PromoFormInput";
+import { PromoFormSection } from "./PromoFormSection";
+
+export type CouponRestrictionsFormData = {
+  usageLimit: string;
+  perCustomerLimit: string;
+  firstOrderOnly: boolean;
+  eligibleCustomerGroups: CustomerGroupRole[];
+  eligibleTierSlugs: string[];
+};
+
+export const EMPTY_COUPON_RESTRICTIONS: CouponRestrictionsFormData = {
+  usageLimit: "",
+  perCustomerLimit: "",
+  firstOrderOnly: false,
+  eligibleCustomerGroups: [],
+  eligibleTierSlugs: [],
+};
+
+const CUSTOMER_GROUP_OPTIONS: { label: string; value: CustomerGroupRole }[] = [
+  { label: "Retail", value: "retail" },
+  { label: "Bulk", value: "bulk" },
+  { label: "VIP", value: "vip" },
+  { label: "Supplier", value: "supplier" },
+];
+
+type CouponRestrictionsSectionProps = {
+  value: CouponRestrictionsFormData;
+  onChange: (value: CouponRestrictionsFormData) => void;
+};
+
+function toggleItem<T extends string>(list: T[], item: T, checked: boolean): T[] {
+  if (checked) {
+    return list.includes(item) ? list : [...list, item];
+  }
+  return list.filter((entry) => entry !== item);
+}
+
+/**
+ * Usage limits and eligibility settings for a coupon
+ * Empty group/tier selections mean the coupon is available to everyone
+ */
+export function CouponRestrictionsSection({
+  value,
+  onChange,
+}: CouponRestrictionsSectionProps): React.JSX.Element {
+  const { data: tiersData } = useTiers();
+  const tiers = tiersData?.tiers ?? [];
+
+  const update = (updates: Partial<CouponRestrictionsFormData>): void => {
+    onChange({ ...value, ...updates });
+  };
+
+  return (
+    <PromoFormSection title="Usage Restrictions">
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        <div className="space-y-4">
+          <PromoFormInput
+            label="Total Usage Limit"
+            placeholder="Leave empty for unlimited"
+            type="number"
+            value={value.usageLimit}
+            onChange={(usageLimit) => update({ usageLimit })}
+          />
+
+          <PromoFormInput
+            label="Usage Limit Per Customer"
+            placeholder="Leave empty for unlimited"
+            type="number"
+            value={value.perCustomerLimit}
+            onChange={(perCustomerLimit) => update({ perCustomerLimit })}
+          />
+
+          <FormCheckbox
+            label="Valid on the customer's first order only"
+            checked={value.firstOrderOnly}
+            onChange={(firstOrderOnly) => update({ firstOrderOnly })}
+          />
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <p className="mb-2 font-geist text-[14px] font-medium tracking-[-0.14px] text-[#030712]">
+              Eligible Customer Groups
+            </p>
+            <p className="mb-3 font-public text-[12px] text-[#6A7282]">
+              Leave all unchecked to allow every customer group.
+            </p>
+            <div className="flex flex-wrap gap-4">
+              {CUSTOMER_GROUP_OPTIONS.map((option) => (
+                <FormCheckbox
+                  key={option.value}
+                  label={option.label}
+                  checked={value.eligibleCustomerGroups.includes(option.value)}
+                  onChange={(checked) =>
+                    update({
+                      eligibleCustomerGroups: toggleItem(value.eligibleCustomerGroups, option.value, checked),
+                    })
+                  }
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <p className="mb-2 font-geist text-[14px] font-medium tracking-[-0.14px] text-[#030712]">
+              Eligible Membership Tiers
+            </p>
+            <p className="mb-3 font-public text-[12px] text-[#6A7282]">
+              Leave all unchecked to allow members and non-members alike.
+            </p>
+            <div className="flex flex-wrap gap-4">
+              {tiers.map((tier) => (
+                <FormCheckbox
+                  key={tier.slug}
+                  label={tier.name}
+                  checked={value.eligibleTierSlugs.includes(tier.slug)}
+                  onChange={(checked) =>
+                    update({
+                      eligibleTierSlugs: toggleItem(value.eligibleTierSlugs, tier.slug, checked),
+                    })
+                  }
+                />
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </PromoFormSection>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import React from "react";
+import { useProducts } from "@/lib/api/queries";
+import type {
+  CreatePWPRuleInput,
+  PromoType,
+  PWPRuleAPI,
+  TriggerMatch,
+  TriggerType,
+} from "@/lib/types/promo";
+import { PromoFormChips } from "./PromoFormChips";
+import { PromoFormDropdown } from "./PromoFormDropdown";
+import { PromoFormInput } from "./PromoFormInput";
+import { PromoFormProductSelector } from "./PromoFormProductSelector";
+import { PromoFormSection } from "./PromoFormSection";
+
+type RewardTierFormData = {
+  minCartValue: string;
+  rewardType: PromoType;
+  rewardValue: string;
+};
+
+export type PWPRuleOptionsFormData = {
+  triggerProductIds: string[];
+  triggerMatch: TriggerMatch;
+  rewardProductIds: string[];
+  maxRewardQuantity: string;
+  rewardTiers: RewardTierFormData[];
+};
+
+export const EMPTY_PWP_RULE_OPTIONS: PWPRuleOptionsFormData = {
+  triggerProductIds: [],
+  triggerMatch: "any",
+  rewardProductIds: [],
+  maxRewardQuantity: "",
+  rewardTiers: [],
+};
+
+function dollarsToCents(value: string): number {
+  return value ? Math.round(parseFloat(value) * 100) : 0;
+}
+
+function centsToDollars(value: number): string {
+  return (value / 100).toString();
+}
+
+/**
+ * Convert the options form (dollar amounts) into PWP rule API fields (cents)
+ * Tiers without a threshold are dropped
+ */
+export function toPWPRuleOptionsInput(
+  data: PWPRuleOptionsFormData,
+  triggerType: TriggerType
+): Partial<CreatePWPRuleInput> {
+  return {
+    trigger_product_ids: triggerType === "product" ? data.triggerProductIds : [],
+    trigger_match: data.triggerMatch,
+    reward_product_ids: data.rewardProductIds,
+    max_reward_quantity: data.maxRewardQuantity ? parseInt(data.maxRewardQuantity, 10) : null,
+    reward_tiers: data.rewardTiers
+      .filter((tier) => tier.minCartValue)
+      .map((tier) => ({
+        min_cart_value: dollarsToCents(tier.minCartValue),
+        reward_type: tier.rewardType,
+        reward_value: tier.rewardType === "fixed"
+          ? dollarsToCents(tier.rewardValue)
+          : (tier.rewardValue ? parseFloat(tier.rewardValue) : 0),
+      })),
+  };
+}
+
+/**
+ * Populate the options form from an existing PWP rule
+ */
+export function fromPWPRuleOptions(rule: PWPRuleAPI): PWPRuleOptionsFormData {
+  return {
+    triggerProductIds: rule.trigger_product_ids ?? [],
+    triggerMatch: rule.trigger_match ?? "any",
+    rewardProductIds: rule.reward_product_ids ?? [],
+    maxRewardQuantity: rule.max_reward_quantity ? rule.max_reward_quantity.toString() : "",
+    rewardTiers: (rule.reward_tiers ?? []).map((tier) => ({
+      minCartValue: centsToDollars(tier.min_cart_value),
+      rewardType: tier.reward_type,
+      rewardValue: tier.reward_type === "fixed"
+        ? centsToDollars(tier.reward_value)
+        : tier.reward_value.toString(),
+    })),
+  };
+}
+
+type PWPRuleOptionsSectionProps = {
+  value: PWPRuleOptionsFormData;
+  onChange: (value: PWPRuleOptionsFormData) => void;
+  triggerType: TriggerType;
+};
+
+const triggerMatchOptions = [
+  { label: "Any of the trigger products", value: "any" },
+  { label: "All of the trigger products", value: "all" },
+];
+
+const rewardTypeOptions = [
+  { label: "%", value: "percentage" },
+  { label: "Fixed Amount", value: "fixed" },
+];
+
+/**
+ * Multi-product and stepped options for a PWP rule - extra trigger products
+ * (any-of / all-of), a reward product pool, the reward quantity cap per order
+ * and stepped cart value thresholds
+ */
+export function PWPRuleOptionsSection({
+  value,
+  onChange,
+  triggerType,
+}: PWPRuleOptionsSectionProps): React.JSX.Element {
+  const { data: productsData } = useProducts({ limit: 100 });
+
+  const productLabels = new Map(
+    (productsData?.products ?? []).map((product) => [product.id, product.title])
+  );
+
+  const update = (updates: Partial<PWPRuleOptionsFormData>): void => {
+    onChange({ ...value, ...updates });
+  };
+
+  const updateTier = (index: number, updates: Partial<RewardTierFormData>): void => {
+    update({
+      rewardTiers: value.rewardTiers.map((tier, i) => (i === index ? { ...tier, ...updates } : tier)),
+    });
+  };
+
+  const renderProductList = (
+    label: string,
+    field: "triggerProductIds" | "rewardProductIds"
+  ): React.JSX.Element => (
+    <div>
+      <PromoFormProductSelector
+        label={label}
+        value=""
+        placeholder="Add a product"
+        onChange={(productId) => {
+          if (productId && !value[field].includes(productId)) {
+            update({ [field]: [...value[field], productId] });
+          }
+        }}
+      />
+      <PromoFormChips
+        ids={value[field]}
+        labels={productLabels}
+        onRemove={(id) => update({ [field]: value[field].filter((entry) => entry !== id) })}
+      />
+    </div>
+  );
+
+  return (
+    <PromoFormSection title="Multi-Product & Tiers">
+      <div className="grid grid-cols-1 gap-6 lg:grid-cols-2">
+        {triggerType === "product" && (
+          <>
+            {renderProductList("Additional Trigger Products", "triggerProductIds")}
+            <PromoFormDropdown
+              label="Trigger Match"
+              value={value.triggerMatch}
+              onChange={(triggerMatch) => update({ triggerMatch: triggerMatch as TriggerMatch })}
+              options={triggerMatchOptions}
+            />
+          </>
+        )}
+
+        {renderProductList("Additional Reward Products", "rewardProductIds")}
+
+        <PromoFormInput
+          label="Max Reward Items per Order"
+          placeholder="Leave empty for 1"
+          type="number"
+          value={value.maxRewardQuantity}
+          onChange={(maxRewardQuantity) => update({ maxRewardQuantity })}
+        />
+      </div>
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="font-public text-[12px] text-[#6A7282]">
+            Stepped thresholds replace the reward above. The highest threshold reached by the
+            cart value (excluding PWP items) applies, e.g. $100 → 20% off, $200 → 40% off.
+          </p>
+          <button
+            type="button"
+            onClick={() =>
+              update({
+                rewardTiers: [
+                  ...value.rewardTiers,
+                  { minCartValue: "", rewardType: "percentage", rewardValue: "" },
+                ],
+              })
+            }
+            className="h-9 shrink-0 cursor-pointer rounded-lg border border-[#E5E7EB] bg-white px-4 font-public text-[14px] font-medium text-[#030712] transition-colors hover:bg-[#F9FAFB]"
+          >
+            Add Threshold
+          </button>
+        </div>
+
+        {value.rewardTiers.map((tier, index) => (
+          <div key={index} className="grid grid-cols-1 items-end gap-4 lg:grid-cols-[1fr_1fr_1fr_auto]">
+            <PromoFormInput
+              label="Cart Value ($)"
+              placeholder="e.g., 100"
+              type="number"
+              value={tier.minCartValue}
+              onChange={(minCartValue) => updateTier(index, { minCartValue })}
+            />
+            <PromoFormDropdown
+              label="Reward Type"
+              value={tier.rewardType}
+              onChange={(rewardType) => updateTier(index, { rewardType: rewardType as PromoType })}
+              options={rewardTypeOptions}
+            />
+            <PromoFormInput
+              label={tier.rewardType === "percentage" ? "Reward Discount %" : "Reward Amount ($)"}
+              placeholder={tier.rewardType === "percentage" ? "e.g., 20" : "e.g., 15"}
+              type="number"
+              value={tier.rewardValue}
+              onChange={(rewardValue) => updateTier(index, { rewardValue })}
+            />
+            <button
+              type="button"
+              onClick={() => update({ rewardTiers: value.rewardTiers.filter((_, i) => i !== index) })}
+              className="h-[46px] cursor-pointer font-public text-[14px] font-medium text-[#EF4444] hover:underline"
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+      </div>
+    </PromoFormSection>
+  );
+}
@@ -0,0 +1,35 @@
+import React from "react";
+
+type PromoFormChipsProps = {
+  ids: string[];
+  labels: Map<string, string>;
+  onRemove: (id: string) => void;
+};
+
+/**
+ * Removable chips for the entries picked in a multi-select promo field
+ */
+export function PromoFormChips({ ids, labels, onRemove }: PromoFormChipsProps): React.JSX.Element | null {
+  if (ids.length === 0) return null;
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-2">
+      {ids.map((id) => (
+        <span
+          key={id}
+          className="inline-flex items-center gap-1 rounded-full bg-[#F3F4F6] px-3 py-1 font-public text-[12px] text-[#030712]"
+        >
+          {labels.get(id) ?? id}
+          <button
+            type="button"
+            onClick={() => onRemove(id)}
+            className="cursor-pointer text-[#6A7282] hover:text-[#030712]"
+            aria-label="Remove"
+          >
+            ×
+          </button>
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -1,15 +1,26 @@
 import React from "react";
 import { StatCard } from "@/components/admin/StatCard";
-import type { PromoStats } from "@/lib/types/promo";
+import type { CouponBatchStats, PromoStats } from "@/lib/types/promo";
 
 type PromoStatsCardsProps = {
   stats: PromoStats;
   isLoading?: boolean;
+  onGenerateBatch?: () => void;
+  onExportBatch?: (batch: CouponBatchStats) => void;
+  onDeleteBatch?: (batch: CouponBatchStats) => void;
 };
 
+function formatRedemptionRate(batch: CouponBatchStats): string {
+  if (batch.total_codes === 0) return "0%";
+  return `${Math.round((batch.redeemed_codes / batch.total_codes) * 100)}%`;
+}
+
 export function PromoStatsCards({
   stats,
   isLoading = false,
+  onGenerateBatch,
+  onExportBatch,
+  onDeleteBatch,
 }: PromoStatsCardsProps): React.JSX.Element {
   if (isLoading) {
     return (
@@ -24,20 +35,118 @@ export function PromoStatsCards({
     );
   }
 
+  const batches = stats.batches ?? [];
+
   return (
-    <div className="mb-8 grid grid-cols-1 gap-4 md:grid-cols-3">
-      <StatCard
-        title="Total Promo"
-        value={stats.totalPromo}
-      />
-      <StatCard
-        title="Active Promo"
-        value={stats.activePromo}
-      />
-      <StatCard
-        title="Redemption Coupons"
-        value={stats.redemptionCoupons}
-      />
+    <div className="mb-8 space-y-4">
+      <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+        <StatCard
+          title="Total Promo"
+          value={stats.totalPromo}
+        />
+        <StatCard
+          title="Active Promo"
+          value={stats.activePromo}
+        />
+        <StatCard
+          title="Redemption Coupons"
+          value={stats.redemptionCoupons}
+        />
+      </div>
+
+      {/* Per-batch redemption stats for generated codes */}
+      <div className="rounded-lg border border-[#E5E7EB] bg-white">
+        <div className="flex items-center justify-between border-b border-[#E5E7EB] px-4 py-3">
+          <h2 className="font-geist text-[16px] font-semibold tracking-[-0.16px] text-[#030712]">
+            Coupon Batches
+          </h2>
+          {onGenerateBatch && (
+            <button
+              type="button"
+              onClick={onGenerateBatch}
+              className="h-9 cursor-pointer rounded-lg bg-[#030712] px-4 font-public text-[14px] font-medium text-white transition-colors hover:bg-[#1f2937]"
+            >
+              Generate Codes
+            </button>
+          )}
+        </div>
+
+        {batches.length === 0 ? (
+          <p className="px-4 py-4 font-public text-[14px] text-[#6A7282]">
+            No coupon batches yet. Generate unique single-use codes for campaigns.
+          </p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="border-b border-[#E5E7EB] bg-[#F9FAFB]">
+                  <th className="px-4 py-3 text-left font-geist text-[12px] font-medium tracking-[-0.12px] text-[#6A7282]">
+                    Campaign
+                  </th>
+                  <th className="px-4 py-3 text-left font-geist text-[12px] font-medium tracking-[-0.12px] text-[#6A7282]">
+                    Prefix
+                  </th>
+                  <th className="px-4 py-3 text-left font-geist text-[12px] font-medium tracking-[-0.12px] text-[#6A7282]">
+                    Codes
+                  </th>
+                  <th className="px-4 py-3 text-left font-geist text-[12px] font-medium tracking-[-0.12px] text-[#6A7282]">
+                    Redeemed
+                  </th>
+                  <th className="px-4 py-3 text-left font-geist text-[12px] font-medium tracking-[-0.12px] text-[#6A7282]">
+                    Redemption Rate
+                  </th>
+                  <th className="px-4 py-3 text-right font-geist text-[12px] font-medium tracking-[-0.12px] text-[#6A7282]">
+                    Actions
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {batches.map((batch) => (
+                  <tr key={batch.batch_id} className="border-b border-[#E5E7EB] last:border-b-0">
+                    <td className="px-4 py-3 font-public text-[14px] text-[#030712]">
+                      {batch.name}
+                    </td>
+                    <td className="px-4 py-3 font-public text-[14px] text-[#030712]">
+                      {batch.prefix || "-"}
+                    </td>
+                    <td className="px-4 py-3 font-public text-[14px] text-[#030712]">
+                      {batch.total_codes}
+                    </td>
+                    <td className="px-4 py-3 font-public text-[14px] text-[#030712]">
+                      {batch.redeemed_codes}
+                    </td>
+                    <td className="px-4 py-3 font-public text-[14px] text-[#030712]">
+                      {formatRedemptionRate(batch)}
+                    </td>
+                    <td className="px-4 py-3 text-right">
+                      <div className="flex items-center justify-end gap-3">
+                        {onExportBatch && (
+                          <button
+                            type="button"
+                            onClick={() => onExportBatch(batch)}
+                            className="cursor-pointer font-public text-[14px] font-medium text-[#030712] hover:underline"
+                          >
+                            Export CSV
+                          </button>
+                        )}
+                        {onDeleteBatch && (
+                          <button
+                            type="button"
+                            onClick={() => onDeleteBatch(batch)}
+                            className="cursor-pointer font-public text-[14px] font-medium text-[#EF4444] hover:underline"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
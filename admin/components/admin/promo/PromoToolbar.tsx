@@ -361,6 +361,16 @@ export function PromoToolbar({
         >
           PWP Rules
         </button>
+        <button
+          onClick={() => onTabChange("auto-promotions")}
+          className={`cursor-pointer rounded-full px-4 py-2 font-geist text-[14px] font-medium transition-colors ${
+            activeTab === "auto-promotions"
+              ? "bg-[#030712] text-white"
+              : "bg-white text-[#030712] hover:bg-[#F9FAFB]"
+          }`}
+        >
+          Automatic
+        </button>
       </div>
 
       {/* Filter Popup Portal */}
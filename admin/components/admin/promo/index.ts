@@ -8,3 +8,32 @@ export { PromoFormDropdown } from "./PromoFormDropdown";
 export { PromoFormDateInput } from "./PromoFormDateInput";
 export { PromoFormSection } from "./PromoFormSection";
 export { PromoFormProductSelector } from "./PromoFormProductSelector";
+export { PromoFormChips } from "./PromoFormChips";
+export {
+  CouponRestrictionsSection,
+  EMPTY_COUPON_RESTRICTIONS,
+} from "./CouponRestrictionsSection";
+export type { CouponRestrictionsFormData } from "./CouponRestrictionsSection";
+export { CouponRedemptionsTable } from "./CouponRedemptionsTable";
+export {
+  CouponConditionsSection,
+  EMPTY_COUPON_CONDITIONS,
+  toCouponConditionsInput,
+  fromCouponConditions,
+} from "./CouponConditionsSection";
+export type { CouponConditionsFormData } from "./CouponConditionsSection";
+export {
+  PWPRuleOptionsSection,
+  EMPTY_PWP_RULE_OPTIONS,
+  toPWPRuleOptionsInput,
+  fromPWPRuleOptions,
+} from "./PWPRuleOptionsSection";
+export type { PWPRuleOptionsFormData } from "./PWPRuleOptionsSection";
+export { AutoPromotionsTable } from "./AutoPromotionsTable";
+export {
+  AutoPromotionFormSections,
+  EMPTY_AUTO_PROMOTION,
+  toAutoPromotionInput,
+  fromAutoPromotion,
+} from "./AutoPromotionFormSections";
+export type { AutoPromotionFormData } from "./AutoPromotionFormSections";
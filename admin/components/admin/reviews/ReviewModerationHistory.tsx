@@ -0,0 +1,76 @@
+"use client";
+
+import React from "react";
+import { useQuery } from "@tanstack/react-query";
+import { getReviewModerationLog, type ReviewModerationLogEntry } from "@/lib/api/reviews";
+
+interface ReviewModerationHistoryProps {
+  reviewId: string;
+}
+
+const ACTION_LABELS: Record<ReviewModerationLogEntry["action"], string> = {
+  submitted: "Submitted",
+  flagged: "Flagged by screening",
+  edited: "Edited by author",
+  approved: "Approved",
+  rejected: "Rejected",
+  replied: "Replied",
+  reply_removed: "Reply removed",
+};
+
+/**
+ * Timeline of moderation actions on a review, followed by its abuse reports
+ */
+export function ReviewModerationHistory({ reviewId }: ReviewModerationHistoryProps): React.JSX.Element {
+  const { data, isLoading } = useQuery({
+    queryKey: ["admin-reviews", reviewId, "moderation-log"],
+    queryFn: () => getReviewModerationLog(reviewId),
+  });
+  const entries = data?.moderation_log ?? [];
+  const reports = data?.reports ?? [];
+
+  if (isLoading) {
+    return <p className="text-xs text-gray-500">Loading history...</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {entries.length === 0 ? (
+        <p className="text-xs text-gray-500">No moderation history</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {entries.map((entry) => (
+            <li key={entry.id} className="text-xs text-gray-600">
+              <span className="font-medium text-gray-800">{ACTION_LABELS[entry.action]}</span>
+              {" · "}
+              {entry.actor_type === "admin" ? `by ${entry.actor_id || "admin"}` : "automatic"}
+              {" · "}
+              {new Date(entry.created_at).toLocaleString("en-MY")}
+              {entry.note && <span className="block text-gray-500">&quot;{entry.note}&quot;</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {reports.length > 0 && (
+        <div>
+          <p className="text-xs font-medium text-gray-800 mb-1">Reports</p>
+          <ul className="space-y-1.5">
+            {reports.map((report) => (
+              <li
+                key={report.id}
+                className={`text-xs ${report.status === "dismissed" ? "text-gray-400" : "text-gray-600"}`}
+              >
+                <span className="font-medium capitalize">{report.reason}</span>
+                {" · "}
+                {new Date(report.created_at).toLocaleString("en-MY")}
+                {report.status === "dismissed" && " · dismissed"}
+                {report.details && <span className="block text-gray-500">&quot;{report.details}&quot;</span>}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,199 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Save, X } from "lucide-react";
+import {
+  getReviewSettings,
+  updateReviewSettings,
+  type ReviewSettings,
+} from "@/lib/api/reviews";
+import { useToast } from "@/contexts/ToastContext";
+
+interface ReviewSettingsPanelProps {
+  onClose: () => void;
+}
+
+/**
+ * Default review status and the screening rules that hold reviews back
+ * for manual moderation
+ */
+export function ReviewSettingsPanel({ onClose }: ReviewSettingsPanelProps): React.JSX.Element {
+  const queryClient = useQueryClient();
+  const { showToast } = useToast();
+  const [form, setForm] = useState<ReviewSettings | null>(null);
+  const [bannedWords, setBannedWords] = useState("");
+
+  const { data: settings, isLoading } = useQuery({
+    queryKey: ["admin-review-settings"],
+    queryFn: getReviewSettings,
+  });
+
+  useEffect(() => {
+    if (settings) {
+      setForm(settings);
+      setBannedWords(settings.banned_words.join(", "));
+    }
+  }, [settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: updateReviewSettings,
+    onSuccess: (saved) => {
+      showToast("Review settings saved", "success");
+      queryClient.setQueryData(["admin-review-settings"], saved);
+      onClose();
+    },
+    onError: () => {
+      showToast("Failed to save review settings", "error");
+    },
+  });
+
+  const handleSave = () => {
+    if (!form) return;
+    saveMutation.mutate({
+      ...form,
+      banned_words: bannedWords.split(/[,\n]/).map((word) => word.trim()).filter(Boolean),
+    });
+  };
+
+  const statusOptions = [
+    { value: "approved", label: "Publish immediately" },
+    { value: "pending", label: "Hold for approval" },
+  ] as const;
+
+  const rules: { key: "flag_links" | "flag_phone_numbers" | "flag_duplicates"; label: string }[] = [
+    { key: "flag_links", label: "Flag reviews containing links" },
+    { key: "flag_phone_numbers", label: "Flag reviews containing phone numbers" },
+    { key: "flag_duplicates", label: "Flag text already posted in another review" },
+  ];
+
+  return (
+    <div className="bg-white border rounded-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-lg font-semibold text-gray-900">Moderation Settings</h2>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {isLoading || !form ? (
+        <div className="flex justify-center py-6">
+          <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-blue-600" />
+        </div>
+      ) : (
+        <div className="space-y-5">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Verified purchase reviews</span>
+              <select
+                value={form.default_status}
+                onChange={(e) => setForm({ ...form, default_status: e.target.value as ReviewSettings["default_status"] })}
+                className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                {statusOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Guest reviews</span>
+              <select
+                value={form.guest_default_status}
+                onChange={(e) => setForm({ ...form, guest_default_status: e.target.value as ReviewSettings["guest_default_status"] })}
+                className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              >
+                {statusOptions.map((option) => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <label className="block">
+            <span className="text-sm font-medium text-gray-700">Banned words</span>
+            <textarea
+              value={bannedWords}
+              onChange={(e) => setBannedWords(e.target.value)}
+              rows={3}
+              placeholder="Comma or line separated"
+              className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+          </label>
+
+          <div className="space-y-2">
+            {rules.map((rule) => (
+              <label key={rule.key} className="flex items-center gap-2 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form[rule.key]}
+                  onChange={(e) => setForm({ ...form, [rule.key]: e.target.checked })}
+                  className="rounded border-gray-300"
+                />
+                {rule.label}
+              </label>
+            ))}
+          </div>
+
+          <label className="block max-w-xs">
+            <span className="text-sm font-medium text-gray-700">Max reviews per email per day</span>
+            <input
+              type="number"
+              min={0}
+              value={form.max_reviews_per_day}
+              onChange={(e) => setForm({ ...form, max_reviews_per_day: Math.max(0, Number(e.target.value) || 0) })}
+              className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+            <span className="text-xs text-gray-500">0 = no limit</span>
+          </label>
+
+          <label className="block max-w-xs">
+            <span className="text-sm font-medium text-gray-700">Hide a review after this many reports</span>
+            <input
+              type="number"
+              min={0}
+              value={form.report_threshold}
+              onChange={(e) => setForm({ ...form, report_threshold: Math.max(0, Number(e.target.value) || 0) })}
+              className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+            />
+            <span className="text-xs text-gray-500">0 = never hide automatically</span>
+          </label>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Ask for a review this many days after delivery</span>
+              <input
+                type="number"
+                min={0}
+                value={form.request_delay_days}
+                onChange={(e) => setForm({ ...form, request_delay_days: Math.max(0, Number(e.target.value) || 0) })}
+                className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              />
+              <span className="text-xs text-gray-500">0 = don&apos;t send review request emails</span>
+            </label>
+            <label className="block">
+              <span className="text-sm font-medium text-gray-700">Review links valid for (days)</span>
+              <input
+                type="number"
+                min={1}
+                value={form.request_link_valid_days}
+                onChange={(e) => setForm({ ...form, request_link_valid_days: Math.max(1, Number(e.target.value) || 1) })}
+                className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 text-sm"
+              />
+            </label>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              onClick={handleSave}
+              disabled={saveMutation.isPending}
+              className="flex items-center gap-1 px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saveMutation.isPending ? "Saving..." : "Save Settings"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
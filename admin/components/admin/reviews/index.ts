@@ -0,0 +1,2 @@
+export { ReviewSettingsPanel } from "./ReviewSettingsPanel";
+export { ReviewModerationHistory } from "./ReviewModerationHistory";
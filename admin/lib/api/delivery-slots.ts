@@ -0,0 +1,91 @@
+import { api } from "./client";
+import type {
+  DeliveryBlackout,
+  DeliveryBlackoutFormData,
+  DeliverySlot,
+  DeliverySlotFormData,
+  DeliverySlotListResponse,
+  PickListResponse,
+} from "../types/delivery-slot";
+
+/**
+ * Fetch delivery slots with the service zones they can be created for
+ */
+export async function getDeliverySlots(): Promise<DeliverySlotListResponse> {
+  const { data } = await api.get<DeliverySlotListResponse>("/admin/delivery-slots");
+  return data;
+}
+
+/**
+ * Create a delivery slot
+ */
+export async function createDeliverySlot(
+  input: DeliverySlotFormData
+): Promise<DeliverySlot> {
+  const { data } = await api.post<{ delivery_slot: DeliverySlot }>(
+    "/admin/delivery-slots",
+    input
+  );
+  return data.delivery_slot;
+}
+
+/**
+ * Update a delivery slot
+ */
+export async function updateDeliverySlot(
+  id: string,
+  input: Partial<DeliverySlotFormData>
+): Promise<DeliverySlot> {
+  const { data } = await api.post<{ delivery_slot: DeliverySlot }>(
+    `/admin/delivery-slots/${id}`,
+    input
+  );
+  return data.delivery_slot;
+}
+
+/**
+ * Delete a delivery slot
+ */
+export async function deleteDeliverySlot(id: string): Promise<void> {
+  await api.delete(`/admin/delivery-slots/${id}`);
+}
+
+/**
+ * Fetch upcoming holidays and blackout dates
+ */
+export async function getDeliveryBlackouts(): Promise<DeliveryBlackout[]> {
+  const { data } = await api.get<{ blackouts: DeliveryBlackout[] }>(
+    "/admin/delivery-slots/blackouts"
+  );
+  return data.blackouts;
+}
+
+/**
+ * Block deliveries on a date
+ */
+export async function createDeliveryBlackout(
+  input: DeliveryBlackoutFormData
+): Promise<DeliveryBlackout> {
+  const { data } = await api.post<{ blackout: DeliveryBlackout }>(
+    "/admin/delivery-slots/blackouts",
+    input
+  );
+  return data.blackout;
+}
+
+/**
+ * Remove a blackout date
+ */
+export async function deleteDeliveryBlackout(id: string): Promise<void> {
+  await api.delete(`/admin/delivery-slots/blackouts/${id}`);
+}
+
+/**
+ * Fetch the pick list of orders booked for delivery on a date
+ */
+export async function getPickList(date: string): Promise<PickListResponse> {
+  const { data } = await api.get<PickListResponse>(
+    `/admin/delivery-slots/pick-list?date=${encodeURIComponent(date)}`
+  );
+  return data;
+}
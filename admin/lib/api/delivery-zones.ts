@@ -0,0 +1,44 @@
+import { api } from "./client";
+import type { DeliveryZone, DeliveryZoneFormData } from "../types/delivery-zone";
+
+/**
+ * Fetch delivery zones, highest priority first
+ */
+export async function getDeliveryZones(): Promise<DeliveryZone[]> {
+  const { data } = await api.get<{ delivery_zones: DeliveryZone[] }>("/admin/delivery-zones");
+  return data.delivery_zones;
+}
+
+/**
+ * Create a delivery zone
+ */
+export async function createDeliveryZone(
+  input: DeliveryZoneFormData
+): Promise<DeliveryZone> {
+  const { data } = await api.post<{ delivery_zone: DeliveryZone }>(
+    "/admin/delivery-zones",
+    input
+  );
+  return data.delivery_zone;
+}
+
+/**
+ * Update a delivery zone
+ */
+export async function updateDeliveryZone(
+  id: string,
+  input: Partial<DeliveryZoneFormData>
+): Promise<DeliveryZone> {
+  const { data } = await api.post<{ delivery_zone: DeliveryZone }>(
+    `/admin/delivery-zones/${id}`,
+    input
+  );
+  return data.delivery_zone;
+}
+
+/**
+ * Delete a delivery zone
+ */
+export async function deleteDeliveryZone(id: string): Promise<void> {
+  await api.delete(`/admin/delivery-zones/${id}`);
+}
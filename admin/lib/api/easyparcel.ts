@@ -57,6 +57,7 @@ export interface EasyParcelPayResult {
   parcel_no?: string;
   awb?: string;
   tracking_url?: string;
+  label_url?: string;
   message?: string;
 }
 
@@ -212,3 +213,15 @@ export async function trackEasyParcelShipment(
   const res = await api.get(`/admin/easyparcel/track/${encodeURIComponent(awb)}`);
   return res.data;
 }
+
+/**
+ * Merged AWB labels and packing slips of the given orders, as one PDF
+ */
+export async function printShippingLabels(orderIds: string[]): Promise<Blob> {
+  const res = await api.post(
+    "/admin/easyparcel/labels/print",
+    { order_ids: orderIds },
+    { responseType: "blob" }
+  );
+  return res.data;
+}
@@ -5,6 +5,8 @@ import type {
   UpdateMembershipSettingsInput,
   PointsConfig,
   PointsConfigResponse,
+  PointsExpirations,
+  PointsExpirationsResponse,
   UpdatePointsConfigInput,
 } from "../types/membership-settings";
 
@@ -51,3 +53,11 @@ export async function updatePointsConfig(
   const response = await api.put<PointsConfigResponse>("/admin/points/config", input);
   return response.data.config;
 }
+
+/**
+ * Get points projected to expire in the next 30, 60 and 90 days
+ */
+export async function getPointsExpirations(): Promise<PointsExpirations> {
+  const response = await api.get<PointsExpirationsResponse>("/admin/points/expirations");
+  return response.data.expirations;
+}
@@ -22,17 +22,27 @@ import {
   createCoupon,
   updateCoupon,
   deleteCoupon,
+  createCouponBatch,
+  deleteCouponBatch,
   createPWPRule,
   updatePWPRule,
   deletePWPRule,
+  createAutoPromotion,
+  updateAutoPromotion,
+  deleteAutoPromotion,
 } from "./promos";
 import type {
   CouponAPI,
   PWPRuleAPI,
   CreateCouponInput,
   UpdateCouponInput,
+  CouponBatchAPI,
+  CreateCouponBatchInput,
   CreatePWPRuleInput,
   UpdatePWPRuleInput,
+  AutoPromotionAPI,
+  CreateAutoPromotionInput,
+  UpdateAutoPromotionInput,
 } from "../types/promo";
 import { createBanner, updateBanner, deleteBanner, toggleBannerStatus } from "./banners";
 import type { BannerAPI, BannerFormData } from "../types/banner";
@@ -262,6 +272,40 @@ export function useDeleteCoupon(): UseMutationResult<void, Error, string> {
   });
 }
 
+/**
+ * React Query mutation hook to generate a coupon batch
+ * @returns UseMutationResult for create coupon batch operation
+ */
+export function useCreateCouponBatch(): UseMutationResult<
+  { batch: CouponBatchAPI; generated: number },
+  Error,
+  CreateCouponBatchInput
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateCouponBatchInput) => createCouponBatch(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["promos", "stats"] });
+    },
+  });
+}
+
+/**
+ * React Query mutation hook to delete a coupon batch and its codes
+ * @returns UseMutationResult for delete coupon batch operation
+ */
+export function useDeleteCouponBatch(): UseMutationResult<void, Error, string> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteCouponBatch(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["promos", "stats"] });
+    },
+  });
+}
+
 /**
  * React Query mutation hook to create a PWP rule
  * @returns UseMutationResult for create PWP rule operation
@@ -322,6 +366,66 @@ export function useDeletePWPRule(): UseMutationResult<void, Error, string> {
   });
 }
 
+/**
+ * React Query mutation hook to create an automatic promotion
+ * @returns UseMutationResult for create automatic promotion operation
+ */
+export function useCreateAutoPromotion(): UseMutationResult<
+  AutoPromotionAPI,
+  Error,
+  CreateAutoPromotionInput
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: CreateAutoPromotionInput) => createAutoPromotion(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["promos", "auto-promotions"] });
+      queryClient.invalidateQueries({ queryKey: ["promos", "stats"] });
+    },
+  });
+}
+
+/**
+ * React Query mutation hook to update an automatic promotion
+ * @returns UseMutationResult for update automatic promotion operation
+ */
+export function useUpdateAutoPromotion(): UseMutationResult<
+  AutoPromotionAPI,
+  Error,
+  { id: string; data: UpdateAutoPromotionInput }
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, data }: { id: string; data: UpdateAutoPromotionInput }) =>
+      updateAutoPromotion(id, data),
+    onSuccess: (result, variables) => {
+      queryClient.invalidateQueries({
+        queryKey: ["promos", "auto-promotions", "list"],
+      });
+      queryClient.invalidateQueries({ queryKey: ["promos", "stats"] });
+      queryClient.setQueryData(["promos", "auto-promotions", variables.id], result);
+    },
+  });
+}
+
+/**
+ * React Query mutation hook to delete an automatic promotion
+ * @returns UseMutationResult for delete automatic promotion operation
+ */
+export function useDeleteAutoPromotion(): UseMutationResult<void, Error, string> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteAutoPromotion(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["promos", "auto-promotions"] });
+      queryClient.invalidateQueries({ queryKey: ["promos", "stats"] });
+    },
+  });
+}
+
 // ============================================================
 // Banner Mutations
 // ============================================================
@@ -831,6 +935,8 @@ export function useUpdatePointsConfig(): UseMutationResult<
     mutationFn: (data: UpdatePointsConfigInput) => updatePointsConfig(data),
     onSuccess: (result) => {
       queryClient.setQueryData(["points", "config"], result);
+      // Changing expiration_months changes the projected expirations
+      queryClient.invalidateQueries({ queryKey: ["points", "expirations"] });
     },
   });
 }
@@ -958,3 +1064,184 @@ export function useTestEasyParcelConnection(): UseMutationResult<
     mutationFn: () => testEasyParcelConnection(),
   });
 }
+
+// ============================================================
+// Delivery Slot Mutations
+// ============================================================
+
+import {
+  createDeliverySlot,
+  updateDeliverySlot,
+  deleteDeliverySlot,
+  createDeliveryBlackout,
+  deleteDeliveryBlackout,
+} from "./delivery-slots";
+import type {
+  DeliverySlot,
+  DeliverySlotFormData,
+  DeliveryBlackout,
+  DeliveryBlackoutFormData,
+} from "../types/delivery-slot";
+
+/**
+ * React Query mutation hook to create a delivery slot
+ * @returns UseMutationResult for create delivery slot operation
+ */
+export function useCreateDeliverySlot(): UseMutationResult<
+  DeliverySlot,
+  Error,
+  DeliverySlotFormData
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: DeliverySlotFormData) => createDeliverySlot(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["delivery-slots"] });
+    },
+  });
+}
+
+/**
+ * React Query mutation hook to update a delivery slot
+ * @returns UseMutationResult for update delivery slot operation
+ */
+export function useUpdateDeliverySlot(): UseMutationResult<
+  DeliverySlot,
+  Error,
+  { id: string; data: Partial<DeliverySlotFormData> }
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Partial<DeliverySlotFormData>;
+    }) => updateDeliverySlot(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["delivery-slots"] });
+    },
+  });
+}
+
+/**
+ * React Query mutation hook to delete a delivery slot
+ * @returns UseMutationResult for delete delivery slot operation
+ */
+export function useDeleteDeliverySlot(): UseMutationResult<void, Error, string> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteDeliverySlot(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["delivery-slots"] });
+    },
+  });
+}
+
+/**
+ * React Query mutation hook to add a holiday or blackout date
+ * @returns UseMutationResult for create blackout operation
+ */
+export function useCreateDeliveryBlackout(): UseMutationResult<
+  DeliveryBlackout,
+  Error,
+  DeliveryBlackoutFormData
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: DeliveryBlackoutFormData) => createDeliveryBlackout(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["delivery-slots", "blackouts"] });
+    },
+  });
+}
+
+/**
+ * React Query mutation hook to remove a blackout date
+ * @returns UseMutationResult for delete blackout operation
+ */
+export function useDeleteDeliveryBlackout(): UseMutationResult<void, Error, string> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteDeliveryBlackout(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["delivery-slots", "blackouts"] });
+    },
+  });
+}
+
+// ============================================================
+// Delivery Zone Mutations
+// ============================================================
+
+import {
+  createDeliveryZone,
+  updateDeliveryZone,
+  deleteDeliveryZone,
+} from "./delivery-zones";
+import type { DeliveryZone, DeliveryZoneFormData } from "../types/delivery-zone";
+
+/**
+ * React Query mutation hook to create a delivery zone
+ * @returns UseMutationResult for create delivery zone operation
+ */
+export function useCreateDeliveryZone(): UseMutationResult<
+  DeliveryZone,
+  Error,
+  DeliveryZoneFormData
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: DeliveryZoneFormData) => createDeliveryZone(data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["delivery-zones"] });
+    },
+  });
+}
+
+/**
+ * React Query mutation hook to update a delivery zone
+ * @returns UseMutationResult for update delivery zone operation
+ */
+export function useUpdateDeliveryZone(): UseMutationResult<
+  DeliveryZone,
+  Error,
+  { id: string; data: Partial<DeliveryZoneFormData> }
+> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      id,
+      data,
+    }: {
+      id: string;
+      data: Partial<DeliveryZoneFormData>;
+    }) => updateDeliveryZone(id, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["delivery-zones"] });
+    },
+  });
+}
+
+/**
+ * React Query mutation hook to delete a delivery zone
+ * @returns UseMutationResult for delete delivery zone operation
+ */
+export function useDeleteDeliveryZone(): UseMutationResult<void, Error, string> {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => deleteDeliveryZone(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["delivery-zones"] });
+    },
+  });
+}
@@ -1,7 +1,8 @@
 /**
  * Promo API Functions
  *
- * API layer for promo operations (coupons and PWP rules)
+ * API layer for promo operations (coupons, PWP rules, automatic promotions
+ * and birthday vouchers)
  */
 
 import { api } from "./client";
@@ -10,14 +11,24 @@ import type {
   CouponAPI,
   PWPRuleAPI,
   CouponListResponse,
+  CouponRedemptionListResponse,
   PWPRuleListResponse,
   CreateCouponInput,
   UpdateCouponInput,
+  CouponBatchAPI,
+  CreateCouponBatchInput,
   CreatePWPRuleInput,
   UpdatePWPRuleInput,
+  AutoPromotionAPI,
+  AutoPromotionListResponse,
+  CreateAutoPromotionInput,
+  UpdateAutoPromotionInput,
   PromoFilter,
   Coupon,
   PWPRule,
+  AutoPromotion,
+  AutoPromotionType,
+  BirthdayVoucherReport,
 } from "../types/promo";
 
 // ============================================================
@@ -121,6 +132,63 @@ export async function deleteCoupon(id: string): Promise<void> {
   await api.delete(`/admin/promos/coupons/${id}`);
 }
 
+/**
+ * Fetch redemptions (usage ledger) of a coupon
+ * @param id - Coupon ID
+ * @param limit - Page size
+ * @param offset - Pagination offset
+ * @returns Paginated list of redemptions
+ */
+export async function getCouponRedemptions(
+  id: string,
+  limit = 20,
+  offset = 0
+): Promise<CouponRedemptionListResponse> {
+  const response = await api.get<CouponRedemptionListResponse>(
+    `/admin/promos/coupons/${id}/redemptions?limit=${limit}&offset=${offset}`
+  );
+  return response.data;
+}
+
+// ============================================================
+// Coupon Batches
+// ============================================================
+
+/**
+ * Create a coupon batch and generate its unique codes
+ * @param data - Batch settings (prefix, length, alphabet, quantity) and shared discount settings
+ * @returns Created batch and number of generated codes
+ */
+export async function createCouponBatch(
+  data: CreateCouponBatchInput
+): Promise<{ batch: CouponBatchAPI; generated: number }> {
+  const response = await api.post<{ batch: CouponBatchAPI; generated: number }>(
+    "/admin/promos/batches",
+    data
+  );
+  return response.data;
+}
+
+/**
+ * Delete a coupon batch together with its generated codes
+ * @param id - Batch ID
+ */
+export async function deleteCouponBatch(id: string): Promise<void> {
+  await api.delete(`/admin/promos/batches/${id}`);
+}
+
+/**
+ * Export the codes of a coupon batch to CSV
+ * @param id - Batch ID
+ * @returns Blob containing the CSV data
+ */
+export async function exportCouponBatchCSV(id: string): Promise<Blob> {
+  const response = await api.get(`/admin/promos/batches/${id}/export`, {
+    responseType: "blob",
+  });
+  return response.data;
+}
+
 // ============================================================
 // PWP Rules
 // ============================================================
@@ -205,6 +273,109 @@ export async function deletePWPRule(id: string): Promise<void> {
   await api.delete(`/admin/promos/pwp-rules/${id}`);
 }
 
+// ============================================================
+// Automatic Promotions
+// ============================================================
+
+/**
+ * Fetch automatic promotions with filtering and pagination
+ * @param filters - Optional filter parameters
+ * @returns List of automatic promotions
+ */
+export async function getAutoPromotions(
+  filters?: PromoFilter
+): Promise<AutoPromotionListResponse> {
+  const queryParams = new URLSearchParams();
+
+  queryParams.append("limit", String(filters?.limit ?? 100));
+  queryParams.append("offset", String(filters?.offset ?? 0));
+
+  if (filters?.status) {
+    queryParams.append("status", filters.status);
+  }
+
+  if (filters?.q) {
+    queryParams.append("q", filters.q);
+  }
+
+  const response = await api.get<AutoPromotionListResponse>(
+    `/admin/promos/auto-promotions?${queryParams.toString()}`
+  );
+
+  return response.data;
+}
+
+/**
+ * Fetch a single automatic promotion by ID
+ * @param id - Automatic promotion ID
+ * @returns Automatic promotion entity
+ */
+export async function getAutoPromotion(id: string): Promise<AutoPromotionAPI> {
+  const response = await api.get<{ auto_promotion: AutoPromotionAPI }>(
+    `/admin/promos/auto-promotions/${id}`
+  );
+  return response.data.auto_promotion;
+}
+
+/**
+ * Create a new automatic promotion
+ * @param data - Automatic promotion data
+ * @returns Created automatic promotion
+ */
+export async function createAutoPromotion(
+  data: CreateAutoPromotionInput
+): Promise<AutoPromotionAPI> {
+  const response = await api.post<{ auto_promotion: AutoPromotionAPI }>(
+    "/admin/promos/auto-promotions",
+    data
+  );
+  return response.data.auto_promotion;
+}
+
+/**
+ * Update an existing automatic promotion
+ * @param id - Automatic promotion ID
+ * @param data - Updated automatic promotion data
+ * @returns Updated automatic promotion
+ */
+export async function updateAutoPromotion(
+  id: string,
+  data: UpdateAutoPromotionInput
+): Promise<AutoPromotionAPI> {
+  const response = await api.post<{ auto_promotion: AutoPromotionAPI }>(
+    `/admin/promos/auto-promotions/${id}`,
+    data
+  );
+  return response.data.auto_promotion;
+}
+
+/**
+ * Delete an automatic promotion
+ * @param id - Automatic promotion ID
+ */
+export async function deleteAutoPromotion(id: string): Promise<void> {
+  await api.delete(`/admin/promos/auto-promotions/${id}`);
+}
+
+// ============================================================
+// Birthday Vouchers
+// ============================================================
+
+/**
+ * Fetch the birthday voucher report for a year
+ * @param year - Report year, defaults to the current year
+ * @returns Issued vouchers and redemption counts
+ */
+export async function getBirthdayVoucherReport(
+  year?: number
+): Promise<BirthdayVoucherReport> {
+  const query = year ? `?year=${year}` : "";
+  const response = await api.get<{ report: BirthdayVoucherReport }>(
+    `/admin/promos/birthday-vouchers${query}`
+  );
+  return response.data.report;
+}
+
 // ============================================================
 // Utility Functions - Transform API data to display format
 // ============================================================
@@ -283,3 +454,57 @@ export function transformPWPRuleForDisplay(rule: PWPRuleAPI): PWPRule {
     status: rule.status,
   };
 }
+
+export const AUTO_PROMOTION_TYPE_LABELS: Record<AutoPromotionType, string> = {
+  buy_x_get_y: "Buy X Get Y",
+  spend_threshold: "Spend Threshold",
+  category_sale: "Category Sale",
+  free_shipping: "Free Shipping",
+};
+
+/**
+ * Transform API automatic promotion to display format
+ */
+export function transformAutoPromotionForDisplay(promotion: AutoPromotionAPI): AutoPromotion {
+  const discount =
+    promotion.discount_type === "percentage"
+      ? `${promotion.discount_value}%`
+      : formatCurrency(promotion.discount_value);
+
+  let reward: string;
+  switch (promotion.type) {
+    case "buy_x_get_y":
+      reward = `Buy ${promotion.buy_quantity ?? 1} get ${promotion.get_quantity ?? 1} ${
+        promotion.discount_type === "percentage" && promotion.discount_value >= 100
+          ? "free"
+          : `at ${discount} off`
+      }`;
+      break;
+    case "free_shipping":
+      reward = promotion.min_subtotal
+        ? `Free shipping above ${formatCurrency(promotion.min_subtotal)}`
+        : "Free shipping";
+      break;
+    case "spend_threshold":
+      reward = promotion.min_subtotal
+        ? `${discount} off above ${formatCurrency(promotion.min_subtotal)}`
+        : `${discount} off`;
+      break;
+    default:
+      reward = `${discount} off`;
+  }
+
+  return {
+    id: promotion.id,
+    displayId: generateDisplayId(promotion.id),
+    name: promotion.name,
+    type: promotion.type,
+    typeLabel: AUTO_PROMOTION_TYPE_LABELS[promotion.type],
+    reward,
+    startDate: formatDate(promotion.starts_at),
+    endDate: formatDate(promotion.ends_at),
+    endsAt: promotion.ends_at,
+    priority: promotion.priority,
+    status: promotion.status,
+  };
+}
@@ -36,6 +36,7 @@ import {
   getReturnStats,
   getReturns,
   getReturnById,
+  getReturnReport,
   checkCanReturn,
 } from "./returns";
 import type {
@@ -43,21 +44,30 @@ import type {
   ReturnListResponse,
   Return,
   ReturnFilter,
+  ReturnReport,
   CanReturnResponse,
 } from "../validators/return";
 import {
   getPromoStats,
   getCoupons,
   getCoupon,
+  getCouponRedemptions,
   getPWPRules,
   getPWPRule,
+  getAutoPromotions,
+  getAutoPromotion,
+  getBirthdayVoucherReport,
 } from "./promos";
 import type {
   PromoStats,
   CouponListResponse,
   CouponAPI,
+  CouponRedemptionListResponse,
   PWPRuleListResponse,
   PWPRuleAPI,
+  AutoPromotionListResponse,
+  AutoPromotionAPI,
+  BirthdayVoucherReport,
   PromoFilter,
 } from "../types/promo";
 import { getBanners } from "./banners";
@@ -411,6 +421,24 @@ export function useReturn(id: string): UseQueryResult<Return, Error> {
   });
 }
 
+/**
+ * React Query hook to fetch the returns inspection report
+ * @param from - Start date (YYYY-MM-DD)
+ * @param to - End date (YYYY-MM-DD)
+ * @returns UseQueryResult with inspection outcomes and spoilage write-offs
+ */
+export function useReturnReport(
+  from: string,
+  to: string
+): UseQueryResult<ReturnReport, Error> {
+  return useQuery({
+    queryKey: ["returns", "report", from, to],
+    queryFn: () => getReturnReport({ from, to }),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
 /**
  * React Query hook to check if an order can be returned
  * @param orderId - Order ID to check
@@ -511,6 +539,27 @@ export function useCoupon(id: string): UseQueryResult<CouponAPI, Error> {
   });
 }
 
+/**
+ * React Query hook to fetch redemptions of a coupon
+ * @param id - Coupon ID
+ * @param limit - Page size
+ * @param offset - Pagination offset
+ * @returns UseQueryResult with coupon redemptions
+ */
+export function useCouponRedemptions(
+  id: string,
+  limit = 20,
+  offset = 0
+): UseQueryResult<CouponRedemptionListResponse, Error> {
+  return useQuery({
+    queryKey: ["promos", "coupons", id, "redemptions", { limit, offset }],
+    queryFn: () => getCouponRedemptions(id, limit, offset),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    refetchOnWindowFocus: false,
+    enabled: !!id,
+  });
+}
+
 /**
  * React Query hook to fetch PWP rules list
  * @param filters - Filter parameters (status, search, pagination)
@@ -542,6 +591,53 @@ export function usePWPRule(id: string): UseQueryResult<PWPRuleAPI, Error> {
   });
 }
 
+/**
+ * React Query hook to fetch automatic promotions list
+ * @param filters - Filter parameters (status, search, pagination)
+ * @returns UseQueryResult with automatic promotions list data
+ */
+export function useAutoPromotions(
+  filters?: PromoFilter
+): UseQueryResult<AutoPromotionListResponse, Error> {
+  return useQuery({
+    queryKey: ["promos", "auto-promotions", "list", filters],
+    queryFn: () => getAutoPromotions(filters),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * React Query hook to fetch a single automatic promotion by ID
+ * @param id - Automatic promotion ID
+ * @returns UseQueryResult with automatic promotion data
+ */
+export function useAutoPromotion(id: string): UseQueryResult<AutoPromotionAPI, Error> {
+  return useQuery({
+    queryKey: ["promos", "auto-promotions", id],
+    queryFn: () => getAutoPromotion(id),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    refetchOnWindowFocus: false,
+    enabled: !!id,
+  });
+}
+
+/**
+ * React Query hook to fetch the birthday voucher report
+ * @param year - Report year
+ * @returns UseQueryResult with issued and redeemed birthday vouchers
+ */
+export function useBirthdayVoucherReport(
+  year: number
+): UseQueryResult<BirthdayVoucherReport, Error> {
+  return useQuery({
+    queryKey: ["promos", "birthday-vouchers", year],
+    queryFn: () => getBirthdayVoucherReport(year),
+    staleTime: 1000 * 60 * 2, // 2 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
 // ============================================================
 // Banner Queries
 // ============================================================
@@ -722,10 +818,15 @@ export function useTier(id: string): UseQueryResult<TierConfig, Error> {
 // Membership Settings Queries
 // ============================================================
 
-import { getMembershipSettings, getPointsConfig } from "./membership-settings";
+import {
+  getMembershipSettings,
+  getPointsConfig,
+  getPointsExpirations,
+} from "./membership-settings";
 import type {
   MembershipSettings,
   PointsConfig,
+  PointsExpirations,
 } from "../types/membership-settings";
 
 /**
@@ -776,6 +877,19 @@ export function usePointsConfig(): UseQueryResult<PointsConfig, Error> {
   });
 }
 
+/**
+ * React Query hook to fetch projected points expirations
+ * @returns UseQueryResult with points expiring in the next 30, 60 and 90 days
+ */
+export function usePointsExpirations(): UseQueryResult<PointsExpirations, Error> {
+  return useQuery({
+    queryKey: ["points", "expirations"],
+    queryFn: () => getPointsExpirations(),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
 // ============================================================
 // Shipment Queries
 // ============================================================
@@ -908,3 +1022,74 @@ export function useEasyParcelRates(): UseQueryResult<
     refetchOnWindowFocus: false,
   });
 }
+
+// ============================================================
+// Delivery Slot Queries
+// ============================================================
+
+import { getDeliverySlots, getDeliveryBlackouts, getPickList } from "./delivery-slots";
+import type {
+  DeliverySlotListResponse,
+  DeliveryBlackout,
+  PickListResponse,
+} from "../types/delivery-slot";
+
+/**
+ * React Query hook to fetch delivery slots
+ * @returns UseQueryResult with delivery slots and service zones
+ */
+export function useDeliverySlots(): UseQueryResult<DeliverySlotListResponse, Error> {
+  return useQuery({
+    queryKey: ["delivery-slots"],
+    queryFn: () => getDeliverySlots(),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * React Query hook to fetch upcoming holidays and blackout dates
+ * @returns UseQueryResult with blackout dates
+ */
+export function useDeliveryBlackouts(): UseQueryResult<DeliveryBlackout[], Error> {
+  return useQuery({
+    queryKey: ["delivery-slots", "blackouts"],
+    queryFn: () => getDeliveryBlackouts(),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
+
+/**
+ * React Query hook to fetch the pick list for a delivery date
+ * @param date - Delivery date (YYYY-MM-DD)
+ * @returns UseQueryResult with orders grouped by delivery slot
+ */
+export function usePickList(date: string): UseQueryResult<PickListResponse, Error> {
+  return useQuery({
+    queryKey: ["delivery-slots", "pick-list", date],
+    queryFn: () => getPickList(date),
+    staleTime: 1000 * 60, // 1 minute - new orders keep coming in
+    refetchOnWindowFocus: false,
+  });
+}
+
+// ============================================================
+// Delivery Zone Queries
+// ============================================================
+
+import { getDeliveryZones } from "./delivery-zones";
+import type { DeliveryZone } from "../types/delivery-zone";
+
+/**
+ * React Query hook to fetch delivery zones
+ * @returns UseQueryResult with delivery zones
+ */
+export function useDeliveryZones(): UseQueryResult<DeliveryZone[], Error> {
+  return useQuery({
+    queryKey: ["delivery-zones"],
+    queryFn: () => getDeliveryZones(),
+    staleTime: 1000 * 60 * 5, // 5 minutes
+    refetchOnWindowFocus: false,
+  });
+}
@@ -4,6 +4,8 @@ import {
   ReturnStatsSchema,
   ReturnListResponseSchema,
   CanReturnResponseSchema,
+  ReturnInspectionSchema,
+  ReturnReportSchema,
   type Return,
   type ReturnStats,
   type ReturnListResponse,
@@ -13,6 +15,12 @@ import {
   type RejectReturnRequest,
   type MarkInTransitRequest,
   type CompleteReturnRequest,
+  type ProcessRefundRequest,
+  type AdjustRefundAmountRequest,
+  type InspectReturnRequest,
+  type ReturnInspection,
+  type ReturnReport,
+  type StockLocationOption,
   type CanReturnResponse,
 } from "@/lib/validators/return";
 
@@ -211,25 +219,127 @@ export async function completeReturn(
 }
 
 /**
- * Process refund via Stripe
+ * Issue refunds for a completed return, to card (Stripe) and/or store credit
  */
-export async function processRefund(id: string): Promise<{
+export async function processRefund(
+  id: string,
+  data?: ProcessRefundRequest
+): Promise<{
   success: boolean;
   return: Return;
-  refund: {
+  refunds: Array<{
     id: string;
+    method: "card" | "store_credit";
     amount: number;
-    status: string;
-    currency: string;
-  };
+    stripe_refund_id?: string;
+    points_credited?: number;
+  }>;
+  remaining_refund: number;
+  payment_status: string | null;
   points?: {
     points_deducted: number;
     points_restored: number;
     new_balance: number;
   } | null;
 }> {
-  const res = await api.post(`/admin/return-requests/${id}/refund`);
-  return res.data;
+  try {
+    const res = await api.post(`/admin/return-requests/${id}/refund`, data || {});
+    return res.data;
+  } catch (error: unknown) {
+    // Surface the actual server error message (e.g. Stripe failures)
+    const axiosError = error as { response?: { data?: { message?: string } } };
+    if (axiosError.response?.data?.message) {
+      throw new Error(axiosError.response.data.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Change the product refund of a return, with a reason
+ */
+export async function adjustRefundAmount(
+  id: string,
+  data: AdjustRefundAmountRequest
+): Promise<void> {
+  try {
+    await api.post(`/admin/return-requests/${id}/refund-amount`, data);
+  } catch (error: unknown) {
+    const axiosError = error as { response?: { data?: { message?: string } } };
+    if (axiosError.response?.data?.message) {
+      throw new Error(axiosError.response.data.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get inspection results of a return and the stock locations to restock to
+ */
+export async function getReturnInspection(id: string): Promise<{
+  inspections: ReturnInspection[];
+  stock_locations: StockLocationOption[];
+}> {
+  const res = await api.get(`/admin/return-requests/${id}/inspection`);
+  const parsed = ReturnInspectionSchema.array().safeParse(res.data.inspections);
+
+  if (!parsed.success) {
+    throw new Error("Invalid inspection response");
+  }
+
+  return {
+    inspections: parsed.data,
+    stock_locations: res.data.stock_locations || [],
+  };
+}
+
+/**
+ * Record inspection results for returned items, restocking resellable units
+ */
+export async function inspectReturn(
+  id: string,
+  data: InspectReturnRequest
+): Promise<{
+  success: boolean;
+  restocked_units: number;
+  restock_errors: Array<{ item_id: string; error: string }>;
+}> {
+  try {
+    const res = await api.post(`/admin/return-requests/${id}/inspection`, data);
+    return res.data;
+  } catch (error: unknown) {
+    const axiosError = error as { response?: { data?: { message?: string } } };
+    if (axiosError.response?.data?.message) {
+      throw new Error(axiosError.response.data.message);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Get inspection outcomes and spoilage write-offs for a date range
+ */
+export async function getReturnReport(params?: {
+  from?: string;
+  to?: string;
+}): Promise<ReturnReport> {
+  const searchParams = new URLSearchParams();
+  if (params?.from) searchParams.append("from", params.from);
+  if (params?.to) searchParams.append("to", params.to);
+
+  const queryString = searchParams.toString();
+  const url = queryString
+    ? `/admin/return-requests/report?${queryString}`
+    : "/admin/return-requests/report";
+
+  const res = await api.get(url);
+  const parsed = ReturnReportSchema.safeParse(res.data.report);
+
+  if (!parsed.success) {
+    throw new Error("Invalid returns report response");
+  }
+
+  return parsed.data;
 }
 
 /**
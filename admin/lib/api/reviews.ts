@@ -5,6 +5,13 @@
 
 import { api } from "./client";
 
+export type ReviewStatus = "pending" | "flagged" | "approved" | "rejected";
+
+export interface ReviewModerationFlag {
+  rule: "banned_word" | "link" | "phone_number" | "duplicate" | "rate_limit" | "reported";
+  detail: string;
+}
+
 export interface AdminReview {
   id: string;
   product_id: string;
@@ -23,6 +30,15 @@ export interface AdminReview {
   is_approved: boolean;
   is_featured: boolean;
   helpful_count: number;
+  not_helpful_count: number;
+  report_count: number;
+  status: ReviewStatus;
+  moderation_flags: ReviewModerationFlag[] | null;
+  moderated_by: string | null;
+  moderated_at: string | null;
+  reply_content: string | null;
+  reply_author_id: string | null;
+  replied_at: string | null;
   created_at: string;
   updated_at: string;
   // Populated fields
@@ -40,6 +56,44 @@ export interface AdminReview {
   } | null;
 }
 
+export interface ReviewModerationLogEntry {
+  id: string;
+  review_id: string;
+  action: "submitted" | "flagged" | "edited" | "approved" | "rejected" | "replied" | "reply_removed";
+  actor_type: "system" | "admin";
+  actor_id: string | null;
+  previous_status: string | null;
+  new_status: string | null;
+  note: string | null;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+export interface ReviewSettings {
+  default_status: "approved" | "pending";
+  guest_default_status: "approved" | "pending";
+  banned_words: string[];
+  flag_links: boolean;
+  flag_phone_numbers: boolean;
+  flag_duplicates: boolean;
+  max_reviews_per_day: number;
+  report_threshold: number;
+  request_delay_days: number;
+  request_link_valid_days: number;
+}
+
+export type ReviewSort = "recent" | "helpful" | "rating_desc" | "rating_asc";
+
+export interface ReviewReport {
+  id: string;
+  review_id: string;
+  customer_id: string;
+  reason: "spam" | "offensive" | "inappropriate" | "fake" | "other";
+  details: string | null;
+  status: "open" | "dismissed";
+  created_at: string;
+}
+
 export interface AdminReviewListResponse {
   reviews: AdminReview[];
   count: number;
@@ -51,10 +105,12 @@ export interface AdminReviewFilters {
   limit?: number;
   offset?: number;
   is_approved?: boolean;
+  status?: ReviewStatus[];
   is_featured?: boolean;
   is_guest_review?: boolean;
   product_id?: string;
   customer_id?: string;
+  sort?: ReviewSort;
 }
 
 /**
@@ -68,10 +124,12 @@ export async function getAdminReviews(
   if (filters?.limit) params.append("limit", filters.limit.toString());
   if (filters?.offset) params.append("offset", filters.offset.toString());
   if (filters?.is_approved !== undefined) params.append("is_approved", filters.is_approved.toString());
+  if (filters?.status?.length) params.append("status", filters.status.join(","));
   if (filters?.is_featured !== undefined) params.append("is_featured", filters.is_featured.toString());
   if (filters?.is_guest_review !== undefined) params.append("is_guest_review", filters.is_guest_review.toString());
   if (filters?.product_id) params.append("product_id", filters.product_id);
   if (filters?.customer_id) params.append("customer_id", filters.customer_id);
+  if (filters?.sort) params.append("sort", filters.sort);
 
   const queryString = params.toString();
   const response = await api.get<AdminReviewListResponse>(
@@ -88,12 +146,27 @@ export async function getAdminReviewById(id: string): Promise<AdminReview> {
   return response.data.review;
 }
 
+/**
+ * Get the moderation history and abuse reports of a review
+ */
+export async function getReviewModerationLog(
+  id: string
+): Promise<{ moderation_log: ReviewModerationLogEntry[]; reports: ReviewReport[] }> {
+  const response = await api.get<{
+    review: AdminReview;
+    moderation_log: ReviewModerationLogEntry[];
+    reports: ReviewReport[];
+  }>(`/admin/reviews/${id}`);
+  return { moderation_log: response.data.moderation_log, reports: response.data.reports };
+}
+
 /**
  * Approve a review
  */
-export async function approveReview(id: string): Promise<AdminReview> {
+export async function approveReview(id: string, note?: string): Promise<AdminReview> {
   const response = await api.post<{ review: AdminReview; message: string }>(
-    `/admin/reviews/${id}/approve`
+    `/admin/reviews/${id}/approve`,
+    { note }
   );
   return response.data.review;
 }
@@ -101,13 +174,54 @@ export async function approveReview(id: string): Promise<AdminReview> {
 /**
  * Reject/Unapprove a review
  */
-export async function rejectReview(id: string): Promise<AdminReview> {
+export async function rejectReview(id: string, note?: string): Promise<AdminReview> {
+  const response = await api.post<{ review: AdminReview; message: string }>(
+    `/admin/reviews/${id}/reject`,
+    { note }
+  );
+  return response.data.review;
+}
+
+/**
+ * Add or replace the public merchant reply
+ */
+export async function replyToReview(id: string, content: string): Promise<AdminReview> {
   const response = await api.post<{ review: AdminReview; message: string }>(
-    `/admin/reviews/${id}/reject`
+    `/admin/reviews/${id}/reply`,
+    { content }
+  );
+  return response.data.review;
+}
+
+/**
+ * Remove the merchant reply
+ */
+export async function deleteReviewReply(id: string): Promise<AdminReview> {
+  const response = await api.delete<{ review: AdminReview; message: string }>(
+    `/admin/reviews/${id}/reply`
   );
   return response.data.review;
 }
 
+/**
+ * Get the moderation settings
+ */
+export async function getReviewSettings(): Promise<ReviewSettings> {
+  const response = await api.get<{ settings: ReviewSettings }>("/admin/reviews/settings");
+  return response.data.settings;
+}
+
+/**
+ * Update the moderation settings
+ */
+export async function updateReviewSettings(data: Partial<ReviewSettings>): Promise<ReviewSettings> {
+  const response = await api.post<{ settings: ReviewSettings; message: string }>(
+    "/admin/reviews/settings",
+    data
+  );
+  return response.data.settings;
+}
+
 /**
  * Toggle featured status
  */
@@ -127,9 +241,9 @@ export async function deleteAdminReview(id: string): Promise<void> {
 }
 
 /**
- * Get pending reviews count (for badge)
+ * Get the moderation queue size (for badge)
  */
 export async function getPendingReviewsCount(): Promise<number> {
-  const response = await getAdminReviews({ is_approved: false, limit: 1 });
+  const response = await getAdminReviews({ status: ["pending", "flagged"], limit: 1 });
   return response.count;
 }
@@ -0,0 +1,109 @@
+// ============================================================
+// Delivery Slot Types (cold-chain delivery scheduling)
+// ============================================================
+
+export type DeliverySlot = {
+  id: string;
+  service_zone_id: string;
+  service_zone_name: string | null;
+  day_of_week: number; // 0 (Sunday) to 6 (Saturday)
+  start_time: string; // HH:MM
+  end_time: string; // HH:MM
+  capacity: number;
+  same_day_cutoff: string | null; // HH:MM, null when same-day bookings aren't allowed
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type DeliverySlotListResponse = {
+  delivery_slots: DeliverySlot[];
+  service_zones: Array<{ id: string; name: string }>;
+};
+
+export type DeliverySlotFormData = {
+  service_zone_id: string;
+  day_of_week: number;
+  start_time: string;
+  end_time: string;
+  capacity: number;
+  same_day_cutoff: string | null;
+  is_active: boolean;
+};
+
+export type DeliveryBlackoutType = "holiday" | "blackout";
+
+export type DeliveryBlackout = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  type: DeliveryBlackoutType;
+  reason: string;
+  service_zone_id: string | null; // null blocks all zones
+  created_at: string;
+};
+
+export type DeliveryBlackoutFormData = {
+  date: string;
+  type: DeliveryBlackoutType;
+  reason: string;
+  service_zone_id: string | null;
+};
+
+// Delivery slot chosen at checkout, stored on the order
+export type OrderDeliverySlot = {
+  slot_id: string;
+  service_zone_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+};
+
+export type PickListItem = {
+  title: string;
+  variant_title: string | null;
+  sku: string | null;
+  quantity: number;
+};
+
+export type PickListOrder = {
+  id: string;
+  display_id: number;
+  email: string | null;
+  shipping_address: {
+    first_name: string;
+    last_name: string;
+    address_1: string;
+    address_2: string;
+    city: string;
+    province: string;
+    postal_code: string;
+    country_code: string;
+    phone: string;
+  } | null;
+  items: PickListItem[];
+};
+
+export type PickListResponse = {
+  date: string;
+  order_count: number;
+  slots: Array<{
+    slot: {
+      id: string;
+      start_time: string;
+      end_time: string;
+      service_zone_id: string;
+    } | null;
+    orders: PickListOrder[];
+    totals: PickListItem[];
+  }>;
+};
+
+export const DAY_OF_WEEK_LABELS = [
+  "Sunday",
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+];
@@ -0,0 +1,35 @@
+// ============================================================
+// Delivery Zone Types (postcode-based delivery rates)
+// ============================================================
+
+export type PostcodeRange = {
+  from: string;
+  to: string; // Inclusive
+};
+
+export type DeliveryZone = {
+  id: string;
+  name: string;
+  postcodes: string[] | null;
+  postcode_ranges: PostcodeRange[] | null;
+  rate: number; // Cents
+  free_shipping_threshold: number | null; // Cents, null when delivery is never free
+  minimum_order_value: number | null; // Cents, null when there is no minimum
+  shipping_option_ids: string[] | null; // Empty or null for all shipping options
+  priority: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+};
+
+export type DeliveryZoneFormData = {
+  name: string;
+  postcodes: string[];
+  postcode_ranges: PostcodeRange[];
+  rate: number;
+  free_shipping_threshold: number | null;
+  minimum_order_value: number | null;
+  shipping_option_ids: string[];
+  priority: number;
+  is_active: boolean;
+};
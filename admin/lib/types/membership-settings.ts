@@ -13,6 +13,9 @@ export type MembershipSettings = {
   evaluation_period_months: number;
   evaluation_trigger: EvaluationTrigger;
   auto_enroll_on_first_order: boolean;
+  tier_discount_exclude_pwp: boolean;
+  tier_discount_exclude_bulk: boolean;
+  tier_discount_exclude_sale: boolean;
   is_enabled: boolean;
   created_at: string;
   updated_at: string;
@@ -29,6 +32,9 @@ export type UpdateMembershipSettingsInput = {
   evaluation_period_months?: number;
   evaluation_trigger?: EvaluationTrigger;
   auto_enroll_on_first_order?: boolean;
+  tier_discount_exclude_pwp?: boolean;
+  tier_discount_exclude_bulk?: boolean;
+  tier_discount_exclude_sale?: boolean;
   is_enabled?: boolean;
 };
 
@@ -51,6 +57,9 @@ export type PointsConfig = {
   max_redemption_percentage: number;
   // Expiration settings
   expiration_months: number;
+  // Review rewards
+  review_reward_points: number;
+  review_photo_bonus_points: number;
   // Status
   is_enabled: boolean;
   updated_at: string;
@@ -65,6 +74,21 @@ export type PointsConfigResponse = {
   config: PointsConfig;
 };
 
+export type PointsExpirationProjection = {
+  days: number;
+  points: number;
+  customers: number;
+};
+
+export type PointsExpirations = {
+  expiration_months: number;
+  projections: PointsExpirationProjection[];
+};
+
+export type PointsExpirationsResponse = {
+  expirations: PointsExpirations;
+};
+
 export type UpdatePointsConfigInput = {
   earning_type?: PointsEarningType;
   earning_rate?: number;
@@ -74,5 +98,7 @@ export type UpdatePointsConfigInput = {
   min_points_to_redeem?: number;
   max_redemption_percentage?: number;
   expiration_months?: number;
+  review_reward_points?: number;
+  review_photo_bonus_points?: number;
   is_enabled?: boolean;
 };
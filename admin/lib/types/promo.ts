@@ -4,6 +4,17 @@ export type PromoType = "percentage" | "fixed";
 
 export type TriggerType = "product" | "cart_value";
 
+export type TriggerMatch = "any" | "all";
+
+/**
+ * Stepped PWP threshold - the highest tier the cart value reaches applies
+ */
+export type PWPRewardTier = {
+  min_cart_value: number;
+  reward_type: PromoType;
+  reward_value: number;
+};
+
 /**
  * Coupon entity from server API
  */
@@ -19,11 +30,52 @@ export type CouponAPI = {
   ends_at: string | null;
   usage_limit: number | null;
   usage_count: number;
+  reserved_count: number;
+  per_customer_limit: number | null;
+  first_order_only: boolean;
+  eligible_customer_groups: CustomerGroupRole[] | null;
+  eligible_tier_slugs: string[] | null;
+  min_subtotal: number | null;
+  max_discount_amount: number | null;
+  include_product_ids: string[] | null;
+  exclude_product_ids: string[] | null;
+  include_category_ids: string[] | null;
+  exclude_category_ids: string[] | null;
+  include_brand_ids: string[] | null;
+  exclude_brand_ids: string[] | null;
+  batch_id: string | null;
   metadata: Record<string, unknown> | null;
   created_at: string;
   updated_at: string;
 };
 
+/**
+ * Customer roles a coupon can be restricted to
+ */
+export type CustomerGroupRole = "retail" | "bulk" | "vip" | "supplier";
+
+/**
+ * Coupon redemption ledger entry from server API
+ */
+export type CouponRedemptionAPI = {
+  id: string;
+  coupon_id: string;
+  code: string;
+  customer_id: string | null;
+  email: string | null;
+  order_id: string;
+  discount_amount: number;
+  currency_code: string;
+  created_at: string;
+};
+
+export type CouponRedemptionListResponse = {
+  redemptions: CouponRedemptionAPI[];
+  count: number;
+  offset: number;
+  limit: number;
+};
+
 /**
  * PWP Rule entity from server API
  */
@@ -33,15 +85,57 @@ export type PWPRuleAPI = {
   rule_description: string;
   trigger_type: TriggerType;
   trigger_product_id: string | null;
+  trigger_product_ids: string[] | null;
+  trigger_match: TriggerMatch;
   trigger_cart_value: number | null;
   reward_product_id: string | null;
+  reward_product_ids: string[] | null;
   reward_type: PromoType;
   reward_value: number;
+  reward_tiers: PWPRewardTier[] | null;
+  max_reward_quantity: number | null;
   status: PromoStatus;
   starts_at: string | null;
   ends_at: string | null;
   usage_limit: number | null;
   redemption_count: number;
+  reserved_count: number;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type AutoPromotionType =
+  | "buy_x_get_y"
+  | "spend_threshold"
+  | "category_sale"
+  | "free_shipping";
+
+/**
+ * Automatic (no code) cart promotion from server API
+ */
+export type AutoPromotionAPI = {
+  id: string;
+  name: string;
+  description: string | null;
+  type: AutoPromotionType;
+  status: PromoStatus;
+  starts_at: string | null;
+  ends_at: string | null;
+  priority: number;
+  min_subtotal: number | null;
+  buy_quantity: number | null;
+  get_quantity: number | null;
+  product_ids: string[] | null;
+  category_ids: string[] | null;
+  discount_type: PromoType;
+  discount_value: number;
+  max_discount_amount: number | null;
+  exclusive: boolean;
+  combine_with_coupons: boolean;
+  combine_with_pwp: boolean;
+  combine_with_membership_promos: boolean;
+  combine_with_points: boolean;
   metadata: Record<string, unknown> | null;
   created_at: string;
   updated_at: string;
@@ -78,10 +172,67 @@ export type PWPRule = {
   status: PromoStatus;
 };
 
+/**
+ * Display-formatted automatic promotion for UI tables
+ */
+export type AutoPromotion = {
+  id: string;
+  displayId: string;
+  name: string;
+  type: AutoPromotionType;
+  typeLabel: string;
+  reward: string;
+  startDate: string;
+  endDate: string;
+  endsAt: string | null;
+  priority: number;
+  status: PromoStatus;
+};
+
 export type PromoStats = {
   totalPromo: number;
   activePromo: number;
   redemptionCoupons: number;
+  batches: CouponBatchStats[];
+};
+
+/**
+ * Redemption stats of a coupon batch
+ */
+export type CouponBatchStats = {
+  batch_id: string;
+  name: string;
+  prefix: string;
+  total_codes: number;
+  redeemed_codes: number;
+  redemption_count: number;
+};
+
+/**
+ * Coupon batch (generated single-use codes) from server API
+ */
+export type CouponBatchAPI = {
+  id: string;
+  name: string;
+  prefix: string;
+  code_length: number;
+  alphabet: string;
+  quantity: number;
+  type: PromoType;
+  value: number;
+  currency_code: string;
+  usage_limit_per_code: number;
+  starts_at: string | null;
+  ends_at: string | null;
+  metadata: Record<string, unknown> | null;
+  stats: CouponBatchStats | null;
+  created_at: string;
+  updated_at: string;
+};
+
+export type CouponBatchListResponse = {
+  batches: CouponBatchAPI[];
+  count: number;
 };
 
 export type CouponListResponse = {
@@ -98,7 +249,14 @@ export type PWPRuleListResponse = {
   limit: number;
 };
 
-export type PromoTab = "coupons" | "pwp-rules";
+export type AutoPromotionListResponse = {
+  auto_promotions: AutoPromotionAPI[];
+  count: number;
+  offset: number;
+  limit: number;
+};
+
+export type PromoTab = "coupons" | "pwp-rules" | "auto-promotions";
 
 /**
  * Input for creating a coupon
@@ -113,9 +271,33 @@ export type CreateCouponInput = {
   starts_at?: string | null;
   ends_at?: string | null;
   usage_limit?: number | null;
+  per_customer_limit?: number | null;
+  first_order_only?: boolean;
+  eligible_customer_groups?: CustomerGroupRole[] | null;
+  eligible_tier_slugs?: string[] | null;
+  min_subtotal?: number | null;
+  max_discount_amount?: number | null;
+  include_product_ids?: string[] | null;
+  exclude_product_ids?: string[] | null;
+  include_category_ids?: string[] | null;
+  exclude_category_ids?: string[] | null;
+  include_brand_ids?: string[] | null;
+  exclude_brand_ids?: string[] | null;
   metadata?: Record<string, unknown> | null;
 };
 
+/**
+ * Input for generating a coupon batch
+ * Shares all coupon settings except the code; usage_limit_per_code replaces usage_limit
+ */
+export type CreateCouponBatchInput = Omit<CreateCouponInput, "code" | "usage_limit"> & {
+  prefix: string;
+  code_length?: number;
+  alphabet?: string;
+  quantity: number;
+  usage_limit_per_code?: number;
+};
+
 /**
  * Input for updating a coupon
  */
@@ -129,10 +311,15 @@ export type CreatePWPRuleInput = {
   rule_description: string;
   trigger_type?: TriggerType;
   trigger_product_id?: string | null;
+  trigger_product_ids?: string[] | null;
+  trigger_match?: TriggerMatch;
   trigger_cart_value?: number | null;
   reward_product_id?: string | null;
+  reward_product_ids?: string[] | null;
   reward_type?: PromoType;
   reward_value?: number;
+  reward_tiers?: PWPRewardTier[] | null;
+  max_reward_quantity?: number | null;
   status?: PromoStatus;
   starts_at?: string | null;
   ends_at?: string | null;
@@ -145,6 +332,70 @@ export type CreatePWPRuleInput = {
  */
 export type UpdatePWPRuleInput = Partial<CreatePWPRuleInput>;
 
+/**
+ * Input for creating an automatic promotion
+ */
+export type CreateAutoPromotionInput = {
+  name: string;
+  description?: string | null;
+  type: AutoPromotionType;
+  status?: PromoStatus;
+  starts_at?: string | null;
+  ends_at?: string | null;
+  priority?: number;
+  min_subtotal?: number | null;
+  buy_quantity?: number | null;
+  get_quantity?: number | null;
+  product_ids?: string[] | null;
+  category_ids?: string[] | null;
+  discount_type?: PromoType;
+  discount_value?: number;
+  max_discount_amount?: number | null;
+  exclusive?: boolean;
+  combine_with_coupons?: boolean;
+  combine_with_pwp?: boolean;
+  combine_with_membership_promos?: boolean;
+  combine_with_points?: boolean;
+  metadata?: Record<string, unknown> | null;
+};
+
+/**
+ * Input for updating an automatic promotion
+ */
+export type UpdateAutoPromotionInput = Partial<CreateAutoPromotionInput>;
+
+/**
+ * Birthday voucher as returned in the admin report
+ */
+export type BirthdayVoucherAPI = {
+  id: string;
+  customer_id: string;
+  customer_email: string | null;
+  customer_name: string | null;
+  code: string;
+  tier_slug: string;
+  amount: number; // in cents
+  currency_code: string;
+  valid_from: string;
+  valid_until: string;
+  email_sent_at: string | null;
+  redeemed: boolean;
+  created_at: string;
+};
+
+/**
+ * Birthday vouchers issued in a year and how many were redeemed
+ */
+export type BirthdayVoucherReport = {
+  year: number;
+  issued: number;
+  redeemed: number;
+  issued_amount: number; // in cents
+  redeemed_amount: number; // in cents
+  by_tier: Array<{ tier_slug: string; issued: number; redeemed: number }>;
+  vouchers: BirthdayVoucherAPI[];
+};
+
 /**
  * Filter parameters for listing promos
  */
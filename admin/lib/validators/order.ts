@@ -68,6 +68,13 @@ export const OrderSchema = z.object({
   shipped_at: z.union([z.string(), z.date()]).nullable().optional(),
   delivered_at: z.union([z.string(), z.date()]).nullable().optional(),
   estimated_delivery: z.union([z.string(), z.date()]).nullable().optional(),
+  // Delivery window booked at checkout
+  delivery_slot: z.object({
+    slot_id: z.string(),
+    date: z.string(),
+    start_time: z.string(),
+    end_time: z.string(),
+  }).nullable().optional(),
   // Shipping address (recipient info - may differ from customer account)
   shipping_address: ShippingAddressSchema.nullable().optional(),
   // Totals
@@ -12,7 +12,7 @@ export const ReturnStatusSchema = z.enum([
   "cancelled",
 ]);
 
-export const ReturnTypeSchema = z.enum(["refund", "replacement"]);
+export const ReturnTypeSchema = z.enum(["refund", "store_credit", "replacement"]);
 
 export const ReturnReasonSchema = z.enum([
   "defective",
@@ -22,12 +22,18 @@ export const ReturnReasonSchema = z.enum([
   "other",
 ]);
 
-export const RefundStatusSchema = z.enum(["pending", "processing", "completed", "failed"]);
+export const RefundStatusSchema = z.enum(["pending", "processing", "partially_refunded", "completed", "failed"]);
+
+export const RefundMethodSchema = z.enum(["card", "store_credit"]);
+
+export const InspectionResultSchema = z.enum(["resellable", "damaged", "spoiled"]);
 
 export type ReturnStatus = z.infer<typeof ReturnStatusSchema>;
 export type ReturnType = z.infer<typeof ReturnTypeSchema>;
 export type ReturnReason = z.infer<typeof ReturnReasonSchema>;
 export type RefundStatus = z.infer<typeof RefundStatusSchema>;
+export type RefundMethod = z.infer<typeof RefundMethodSchema>;
+export type InspectionResult = z.infer<typeof InspectionResultSchema>;
 
 // Return Item Schema
 export const ReturnItemSchema = z.object({
@@ -41,6 +47,42 @@ export const ReturnItemSchema = z.object({
 
 export type ReturnItem = z.infer<typeof ReturnItemSchema>;
 
+// Refund transaction issued against a return
+export const ReturnRefundSchema = z.object({
+  id: z.string(),
+  method: RefundMethodSchema,
+  amount: z.number(),
+  status: z.enum(["pending", "completed", "failed"]),
+  stripe_refund_id: z.string().nullable(),
+  points_credited: z.number().nullable(),
+  note: z.string().nullable(),
+  failure_reason: z.string().nullable(),
+  created_by: z.string().nullable(),
+  processed_at: z.union([z.string(), z.date()]).nullable(),
+  created_at: z.union([z.string(), z.date()]),
+});
+
+export type ReturnRefund = z.infer<typeof ReturnRefundSchema>;
+
+// Inspection outcome recorded for (part of) a returned item
+export const ReturnInspectionSchema = z.object({
+  id: z.string(),
+  item_id: z.string(),
+  variant_id: z.string().nullable(),
+  product_name: z.string(),
+  quantity: z.number(),
+  result: InspectionResultSchema,
+  restocked_quantity: z.number(),
+  stock_location_id: z.string().nullable(),
+  write_off_amount: z.number(),
+  photo_urls: z.array(z.string()),
+  notes: z.string().nullable(),
+  inspected_by: z.string().nullable(),
+  inspected_at: z.union([z.string(), z.date()]),
+});
+
+export type ReturnInspection = z.infer<typeof ReturnInspectionSchema>;
+
 // Return Schema
 export const ReturnSchema = z.object({
   id: z.string(),
@@ -50,10 +92,15 @@ export const ReturnSchema = z.object({
   return_type: ReturnTypeSchema,
   reason: ReturnReasonSchema,
   reason_details: z.string().nullable(),
+  evidence_urls: z.array(z.string()).optional(),
+  requested_by: z.enum(["admin", "customer"]).optional(),
   items: z.array(ReturnItemSchema),
   refund_amount: z.number(),
   shipping_refund: z.number(),
   total_refund: z.number(),
+  refunded_amount: z.number().optional(),
+  original_refund_amount: z.number().nullable().optional(),
+  refund_adjustment_reason: z.string().nullable().optional(),
   // Original order discount info
   original_order_total: z.number().optional(),
   coupon_code: z.string().nullable().optional(),
@@ -73,6 +120,8 @@ export const ReturnSchema = z.object({
   refund_status: RefundStatusSchema.nullable(),
   stripe_refund_id: z.string().nullable(),
   refunded_at: z.union([z.string(), z.date()]).nullable(),
+  refunds: z.array(ReturnRefundSchema).optional(),
+  inspections: z.array(ReturnInspectionSchema).optional(),
   // Replacement order info
   replacement_order_id: z.string().nullable().optional(),
   replacement_created_at: z.union([z.string(), z.date()]).nullable().optional(),
@@ -127,7 +176,7 @@ export const ReturnFilterSchema = z.object({
     "completed",
     "cancelled",
   ]).optional(),
-  return_type: z.enum(["all", "refund", "replacement"]).optional(),
+  return_type: z.enum(["all", "refund", "store_credit", "replacement"]).optional(),
   date_range: z.enum([
     "all",
     "today",
@@ -187,6 +236,67 @@ export type CompleteReturnRequest = {
   admin_notes?: string;
 };
 
+// Process Refund Request - omit refunds to refund the remaining amount in full
+export type ProcessRefundRequest = {
+  refunds?: Array<{ method: RefundMethod; amount: number }>;
+  note?: string;
+};
+
+// Adjust Refund Amount Request
+export type AdjustRefundAmountRequest = {
+  refund_amount: number;
+  reason: string;
+};
+
+// Inspect Return Request - an item can be split across results
+export type InspectReturnRequest = {
+  stock_location_id?: string;
+  items: Array<{
+    item_id: string;
+    quantity: number;
+    result: InspectionResult;
+    restock_quantity?: number;
+    write_off_amount?: number;
+    photo_urls?: string[];
+    notes?: string;
+  }>;
+};
+
+export type StockLocationOption = {
+  id: string;
+  name: string;
+};
+
+// Returns Report Schema - inspection outcomes for a period
+const InspectionTotalsSchema = z.object({
+  units: z.number(),
+  restocked_units: z.number(),
+  write_off: z.number(),
+});
+
+export const ReturnReportSchema = z.object({
+  from: z.union([z.string(), z.date()]),
+  to: z.union([z.string(), z.date()]),
+  returns_inspected: z.number(),
+  totals: InspectionTotalsSchema,
+  by_result: z.object({
+    resellable: InspectionTotalsSchema,
+    damaged: InspectionTotalsSchema,
+    spoiled: InspectionTotalsSchema,
+  }),
+  spoilage: InspectionTotalsSchema.extend({
+    returns: z.number(),
+  }),
+  top_spoiled_products: z.array(z.object({
+    variant_id: z.string().nullable(),
+    product_name: z.string(),
+    units: z.number(),
+    write_off: z.number(),
+  })),
+});
+
+export type ReturnReport = z.infer<typeof ReturnReportSchema>;
+
 // Discount Info Schema for Can Return Response
 export const DiscountInfoSchema = z.object({
   original_order_total: z.number(),
@@ -250,5 +360,19 @@ export const returnStatusLabels: Record<ReturnStatus, string> = {
 // Return type labels for display
 export const returnTypeLabels: Record<ReturnType, string> = {
   refund: "Refund",
+  store_credit: "Store Credit",
   replacement: "Replacement",
 };
+
+// Refund method labels for display
+export const refundMethodLabels: Record<RefundMethod, string> = {
+  card: "Card",
+  store_credit: "Store Credit",
+};
+
+// Inspection result labels for display
+export const inspectionResultLabels: Record<InspectionResult, string> = {
+  resellable: "Resellable",
+  damaged: "Damaged",
+  spoiled: "Thawed/Spoiled",
+};
@@ -20,7 +20,11 @@ import {
   MINIO_SECRET_KEY,
   MINIO_BUCKET,
   MEILISEARCH_HOST,
-  MEILISEARCH_ADMIN_KEY
+  MEILISEARCH_ADMIN_KEY,
+  COURIER_PROVIDER,
+  EASYPARCEL_API_KEY,
+  EASYPARCEL_USE_DEMO,
+  EASYPARCEL_MOCK_PAYMENT
 } from './src/lib/constants';
 
 loadEnv(process.env.NODE_ENV, process.cwd());
@@ -217,6 +221,26 @@ const medusaConfig = {
     },
     {
       resolve: './src/modules/easyparcel-return'
+    },
+    {
+      resolve: './src/modules/delivery-slot'
+    },
+    {
+      resolve: './src/modules/delivery-zone'
+    },
+    {
+      resolve: './src/modules/courier',
+      options: {
+        provider: COURIER_PROVIDER,
+        mock_payment: EASYPARCEL_MOCK_PAYMENT,
+        easyparcel: {
+          api_key: EASYPARCEL_API_KEY,
+          use_demo: EASYPARCEL_USE_DEMO
+        }
+      }
+    },
+    {
+      resolve: './src/modules/product-search'
     }
   ],
   plugins: [
@@ -238,6 +262,19 @@ const medusaConfig = {
               filterableAttributes: ['id', 'handle'],
             },
             primaryKey: 'id',
+          },
+          // Documents built by src/utils/product-search - the custom type keeps
+          // the plugin's own product sync away from this index
+          product_search: {
+            type: 'product_search',
+            enabled: true,
+            indexSettings: {
+              searchableAttributes: ['title', 'brand_name', 'category_names', 'tags', 'skus', 'subtitle', 'description'],
+              filterableAttributes: ['category_ids', 'brand_id', 'tags', 'min_price', 'price_bucket', 'rating_bucket', 'shipping_min_days', 'flash_sale', 'trending', 'on_brand'],
+              sortableAttributes: ['product_created_at', 'title', 'min_price', 'sold_count', 'average_rating'],
+              rankingRules: ['words', 'typo', 'proximity', 'attribute', 'sort', 'exactness', 'sold_count:desc'],
+            },
+            primaryKey: 'id',
           }
         }
       }
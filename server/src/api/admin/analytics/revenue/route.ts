@@ -2,6 +2,7 @@ import type { MedusaResponse } from "@medusajs/framework/http";
 import { Modules } from "@medusajs/framework/utils";
 import type { RevenueResponse } from "../schemas";
 import { withAdminAuth } from "../../../../utils/admin-auth";
+import { isTierDiscountAdjustment } from "../../../../utils/tier-discount-cart";
 
 /**
  * Get original price before any variant discounts
@@ -82,11 +83,11 @@ function calculateOrderNetRevenue(order: any): { gross: number; net: number; dis
   }, 0);
 
   // Calculate adjustment discount (coupons applied as line item adjustments)
+  // Tier discount adjustments are counted from order metadata below
   const adjustmentDiscount = items.reduce((sum: number, item: any) => {
-    const itemDiscount = (item.adjustments || []).reduce(
-      (adjSum: number, adj: any) => adjSum + (Number(adj.amount) || 0),
-      0
-    );
+    const itemDiscount = (item.adjustments || [])
+      .filter((adj: any) => !isTierDiscountAdjustment(adj))
+      .reduce((adjSum: number, adj: any) => adjSum + (Number(adj.amount) || 0), 0);
     return sum + itemDiscount;
   }, 0);
 
@@ -2,6 +2,7 @@ import type { MedusaResponse } from "@medusajs/framework/http";
 import { Modules } from "@medusajs/framework/utils";
 import type { RevenueTimeseriesResponse } from "../../schemas";
 import { withAdminAuth } from "../../../../../utils/admin-auth";
+import { isTierDiscountAdjustment } from "../../../../../utils/tier-discount-cart";
 
 /**
  * Get original price before any variant discounts
@@ -80,11 +81,11 @@ function calculateOrderNetRevenue(order: any): number {
     return sum;
   }, 0);
 
-  // Calculate adjustment discount
+  // Calculate adjustment discount (tier discount is counted from order metadata below)
   const adjustmentDiscount = items.reduce((sum: number, item: any) => {
-    return sum + ((item.adjustments || []).reduce(
-      (adjSum: number, adj: any) => adjSum + (Number(adj.amount) || 0), 0
-    ));
+    return sum + ((item.adjustments || [])
+      .filter((adj: any) => !isTierDiscountAdjustment(adj))
+      .reduce((adjSum: number, adj: any) => adjSum + (Number(adj.amount) || 0), 0));
   }, 0);
 
   // Get coupon discount from order metadata (fallback, only if not already in adjustments)
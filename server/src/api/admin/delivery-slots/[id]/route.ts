@@ -0,0 +1,73 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import { DELIVERY_SLOT_MODULE } from "../../../../modules/delivery-slot";
+import { withAdminAuth } from "../../../../utils/admin-auth";
+import { UpdateDeliverySlotSchema } from "../schemas";
+
+async function getSlotOrThrow(deliverySlotService: any, id: string) {
+  const [slot] = await deliverySlotService.listDeliverySlots({ id }, { take: 1 });
+  if (!slot) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Delivery slot with id ${id} not found`
+    );
+  }
+  return slot;
+}
+
+/**
+ * POST /admin/delivery-slots/:id
+ * Update a delivery slot
+ * Lowering the capacity doesn't cancel bookings already over it, the slot
+ * just stops taking new ones.
+ */
+export const POST = withAdminAuth(async (req, res) => {
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any;
+  const { id } = req.params;
+
+  const validationResult = UpdateDeliverySlotSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      validationResult.error.message
+    );
+  }
+
+  const slot = await getSlotOrThrow(deliverySlotService, id);
+  const data = validationResult.data;
+
+  const startTime = data.start_time ?? slot.start_time;
+  const endTime = data.end_time ?? slot.end_time;
+  if (endTime <= startTime) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      "End time must be after start time"
+    );
+  }
+
+  const updated = await deliverySlotService.updateDeliverySlots({
+    id,
+    ...data,
+  });
+
+  res.json({
+    delivery_slot: updated,
+  });
+});
+
+/**
+ * DELETE /admin/delivery-slots/:id
+ * Remove a delivery slot
+ * Orders already booked on it keep their delivery window.
+ */
+export const DELETE = withAdminAuth(async (req, res) => {
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any;
+  const { id } = req.params;
+
+  await getSlotOrThrow(deliverySlotService, id);
+  await deliverySlotService.softDeleteDeliverySlots([id]);
+
+  res.json({
+    id,
+    deleted: true,
+  });
+});
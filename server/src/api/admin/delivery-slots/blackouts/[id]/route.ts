@@ -0,0 +1,27 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import { DELIVERY_SLOT_MODULE } from "../../../../../modules/delivery-slot";
+import { withAdminAuth } from "../../../../../utils/admin-auth";
+
+/**
+ * DELETE /admin/delivery-slots/blackouts/:id
+ * Reopen a blacked out date for deliveries
+ */
+export const DELETE = withAdminAuth(async (req, res) => {
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any;
+  const { id } = req.params;
+
+  const [blackout] = await deliverySlotService.listDeliveryBlackouts({ id }, { take: 1 });
+  if (!blackout) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Blackout with id ${id} not found`
+    );
+  }
+
+  await deliverySlotService.softDeleteDeliveryBlackouts([id]);
+
+  res.json({
+    id,
+    deleted: true,
+  });
+});
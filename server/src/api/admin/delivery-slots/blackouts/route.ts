@@ -0,0 +1,54 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import { DELIVERY_SLOT_MODULE } from "../../../../modules/delivery-slot";
+import { withAdminAuth } from "../../../../utils/admin-auth";
+import { CreateDeliveryBlackoutSchema } from "../schemas";
+
+/**
+ * GET /admin/delivery-slots/blackouts
+ * List holidays and blackout dates
+ *
+ * Query params:
+ * - include_past: "true" to include dates that have passed
+ */
+export const GET = withAdminAuth(async (req, res) => {
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any;
+  const includePast = req.query.include_past === "true";
+
+  const filters: Record<string, unknown> = {};
+  if (!includePast) {
+    filters.date = { $gte: new Date().toISOString().slice(0, 10) };
+  }
+
+  const blackouts = await deliverySlotService.listDeliveryBlackouts(filters, {
+    order: { date: "ASC" },
+  });
+
+  res.json({
+    blackouts,
+  });
+});
+
+/**
+ * POST /admin/delivery-slots/blackouts
+ * Block deliveries on a date, for all service zones or one zone
+ */
+export const POST = withAdminAuth(async (req, res) => {
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any;
+
+  const validationResult = CreateDeliveryBlackoutSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      validationResult.error.message
+    );
+  }
+
+  const blackout = await deliverySlotService.createDeliveryBlackouts({
+    ...validationResult.data,
+    service_zone_id: validationResult.data.service_zone_id ?? null,
+  });
+
+  res.status(201).json({
+    blackout,
+  });
+});
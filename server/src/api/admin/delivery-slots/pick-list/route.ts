@@ -0,0 +1,105 @@
+import { MedusaError, Modules } from "@medusajs/framework/utils";
+import { DELIVERY_SLOT_MODULE } from "../../../../modules/delivery-slot";
+import { getStoreDateTime } from "../../../../modules/delivery-slot/services/delivery-slot";
+import { withAdminAuth } from "../../../../utils/admin-auth";
+import { formatShippingAddress } from "../../../../utils/format-order";
+
+type PickListItem = {
+  title: string;
+  variant_title: string | null;
+  sku: string | null;
+  quantity: number;
+};
+
+/**
+ * GET /admin/delivery-slots/pick-list
+ * Orders to pick and pack for a delivery date, grouped by delivery slot
+ * Each slot lists its orders with their items, plus the total units per
+ * product so the warehouse can pull stock from the freezer in one go.
+ *
+ * Query params:
+ * - date: YYYY-MM-DD, defaults to today (store time)
+ */
+export const GET = withAdminAuth(async (req, res) => {
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any;
+  const orderModule = req.scope.resolve(Modules.ORDER);
+
+  const date = (req.query.date as string) || getStoreDateTime().date;
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, "Date must be in YYYY-MM-DD format");
+  }
+
+  const bookings: Array<{ order_id: string; slot: any }> = await deliverySlotService.getBookingsForDate(date);
+
+  const orders = bookings.length > 0
+    ? await orderModule.listOrders(
+      { id: bookings.map((b) => b.order_id) },
+      { relations: ["items", "shipping_address"] }
+    )
+    : [];
+
+  const slotGroups = new Map<string, {
+    slot: { id: string; start_time: string; end_time: string; service_zone_id: string } | null;
+    orders: any[];
+    totals: Map<string, PickListItem>;
+  }>();
+
+  for (const order of orders as any[]) {
+    if (order.status === "canceled") continue;
+
+    const slot = bookings.find((b) => b.order_id === order.id)?.slot ?? null;
+    const key = slot?.id ?? "unknown";
+    if (!slotGroups.has(key)) {
+      slotGroups.set(key, {
+        slot: slot && {
+          id: slot.id,
+          start_time: slot.start_time,
+          end_time: slot.end_time,
+          service_zone_id: slot.service_zone_id,
+        },
+        orders: [],
+        totals: new Map(),
+      });
+    }
+    const group = slotGroups.get(key)!;
+
+    const items: PickListItem[] = (order.items || []).map((item: any) => ({
+      title: item.product_title || item.title,
+      variant_title: item.variant_title || null,
+      sku: item.variant_sku || null,
+      quantity: Number(item.quantity) || 0,
+    }));
+
+    for (const item of items) {
+      const totalKey = `${item.title}|${item.variant_title || ""}|${item.sku || ""}`;
+      const total = group.totals.get(totalKey);
+      if (total) {
+        total.quantity += item.quantity;
+      } else {
+        group.totals.set(totalKey, { ...item });
+      }
+    }
+
+    group.orders.push({
+      id: order.id,
+      display_id: order.display_id,
+      email: order.email,
+      shipping_address: formatShippingAddress(order.shipping_address),
+      items,
+    });
+  }
+
+  const slots = Array.from(slotGroups.values())
+    .sort((a, b) => (a.slot?.start_time || "99:99").localeCompare(b.slot?.start_time || "99:99"))
+    .map((group) => ({
+      slot: group.slot,
+      orders: group.orders.sort((a, b) => (a.display_id || 0) - (b.display_id || 0)),
+      totals: Array.from(group.totals.values()).sort((a, b) => a.title.localeCompare(b.title)),
+    }));
+
+  res.json({
+    date,
+    order_count: slots.reduce((sum, group) => sum + group.orders.length, 0),
+    slots,
+  });
+});
@@ -0,0 +1,75 @@
+import { MedusaError, Modules } from "@medusajs/framework/utils";
+import { DELIVERY_SLOT_MODULE } from "../../../modules/delivery-slot";
+import { withAdminAuth } from "../../../utils/admin-auth";
+import { CreateDeliverySlotSchema } from "./schemas";
+
+/**
+ * GET /admin/delivery-slots
+ * List delivery slots with their service zone names
+ *
+ * Query params:
+ * - service_zone_id: only slots of this zone
+ */
+export const GET = withAdminAuth(async (req, res) => {
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any;
+  const fulfillmentModule = req.scope.resolve(Modules.FULFILLMENT);
+  const serviceZoneId = req.query.service_zone_id as string | undefined;
+
+  const filters: Record<string, unknown> = {};
+  if (serviceZoneId) {
+    filters.service_zone_id = serviceZoneId;
+  }
+
+  const [slots, serviceZones] = await Promise.all([
+    deliverySlotService.listDeliverySlots(filters, {
+      order: { day_of_week: "ASC", start_time: "ASC" },
+    }),
+    fulfillmentModule.listServiceZones(),
+  ]);
+
+  const zoneNames = new Map(serviceZones.map((zone: any) => [zone.id, zone.name]));
+
+  res.json({
+    delivery_slots: slots.map((slot: any) => ({
+      ...slot,
+      service_zone_name: zoneNames.get(slot.service_zone_id) || null,
+    })),
+    service_zones: serviceZones.map((zone: any) => ({
+      id: zone.id,
+      name: zone.name,
+    })),
+  });
+});
+
+/**
+ * POST /admin/delivery-slots
+ * Create a delivery slot for a service zone and weekday
+ */
+export const POST = withAdminAuth(async (req, res) => {
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any;
+  const fulfillmentModule = req.scope.resolve(Modules.FULFILLMENT);
+
+  const validationResult = CreateDeliverySlotSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      validationResult.error.message
+    );
+  }
+
+  const data = validationResult.data;
+
+  const serviceZones = await fulfillmentModule.listServiceZones({ id: data.service_zone_id });
+  if (serviceZones.length === 0) {
+    throw new MedusaError(MedusaError.Types.NOT_FOUND, "Service zone not found");
+  }
+
+  const slot = await deliverySlotService.createDeliverySlots({
+    ...data,
+    same_day_cutoff: data.same_day_cutoff ?? null,
+  });
+
+  res.status(201).json({
+    delivery_slot: slot,
+  });
+});
@@ -0,0 +1,106 @@
+import { z } from "zod"
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi'
+
+extendZodWithOpenApi(z)
+
+const TimeSchema = z
+  .string()
+  .regex(/^([01]\d|2[0-3]):[0-5]\d$/, "Time must be in HH:MM format")
+
+const DeliverySlotFields = {
+  service_zone_id: z
+    .string()
+    .min(1)
+    .describe("Service zone the slot delivers to"),
+  day_of_week: z
+    .number()
+    .int()
+    .min(0)
+    .max(6)
+    .describe("Weekday the slot runs on, 0 (Sunday) to 6 (Saturday)"),
+  start_time: TimeSchema.describe("Start of the delivery window (HH:MM, store time)"),
+  end_time: TimeSchema.describe("End of the delivery window (HH:MM, store time)"),
+  capacity: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Orders that can be delivered in the slot per date"),
+  same_day_cutoff: TimeSchema
+    .nullable()
+    .optional()
+    .describe("Latest time the slot can be booked for the same day (HH:MM), no same-day bookings if not set"),
+  is_active: z
+    .boolean()
+    .optional()
+    .describe("Whether the slot is offered at checkout"),
+}
+
+/**
+ * Schema for creating a delivery slot
+ * POST /admin/delivery-slots
+ */
+export const CreateDeliverySlotSchema = z.object(DeliverySlotFields)
+  .refine((data) => data.end_time > data.start_time, {
+    message: "End time must be after start time",
+    path: ["end_time"],
+  })
+  .openapi('CreateDeliverySlotRequest', {
+    example: {
+      service_zone_id: 'serzo_01HQZJQY9X1K2P3M4N5B6C7D8E',
+      day_of_week: 1,
+      start_time: '14:00',
+      end_time: '18:00',
+      capacity: 20,
+      same_day_cutoff: '11:00',
+    }
+  })
+
+/**
+ * Schema for updating a delivery slot
+ * POST /admin/delivery-slots/:id
+ */
+export const UpdateDeliverySlotSchema = z.object(DeliverySlotFields)
+  .partial()
+  .openapi('UpdateDeliverySlotRequest', {
+    example: {
+      capacity: 30,
+      same_day_cutoff: null,
+    }
+  })
+
+/**
+ * Schema for blocking out a delivery date
+ * POST /admin/delivery-slots/blackouts
+ */
+export const CreateDeliveryBlackoutSchema = z.object({
+  date: z
+    .string()
+    .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format")
+    .describe("Date without deliveries"),
+  type: z
+    .enum(["holiday", "blackout"])
+    .default("holiday")
+    .describe("Public holiday or operational blackout"),
+  reason: z
+    .string()
+    .min(1)
+    .max(255)
+    .describe("Shown to customers, e.g. Hari Raya Aidilfitri"),
+  service_zone_id: z
+    .string()
+    .min(1)
+    .nullable()
+    .optional()
+    .describe("Only block this service zone, all zones if not set"),
+}).openapi('CreateDeliveryBlackoutRequest', {
+  example: {
+    date: '2026-03-31',
+    type: 'holiday',
+    reason: 'Hari Raya Aidilfitri',
+  }
+})
+
+// Type exports
+export type CreateDeliverySlotRequest = z.infer<typeof CreateDeliverySlotSchema>
+export type UpdateDeliverySlotRequest = z.infer<typeof UpdateDeliverySlotSchema>
+export type CreateDeliveryBlackoutRequest = z.infer<typeof CreateDeliveryBlackoutSchema>
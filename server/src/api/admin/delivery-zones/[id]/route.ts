@@ -0,0 +1,73 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import { DELIVERY_ZONE_MODULE } from "../../../../modules/delivery-zone";
+import { withAdminAuth } from "../../../../utils/admin-auth";
+import { UpdateDeliveryZoneSchema } from "../schemas";
+
+async function getZoneOrThrow(deliveryZoneService: any, id: string) {
+  const [zone] = await deliveryZoneService.listDeliveryZones({ id }, { take: 1 });
+  if (!zone) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Delivery zone with id ${id} not found`
+    );
+  }
+  return zone;
+}
+
+/**
+ * POST /admin/delivery-zones/:id
+ * Update a delivery zone
+ * Carts pick up the new rates the next time they are updated.
+ */
+export const POST = withAdminAuth(async (req, res) => {
+  const deliveryZoneService = req.scope.resolve(DELIVERY_ZONE_MODULE) as any;
+  const { id } = req.params;
+
+  const validationResult = UpdateDeliveryZoneSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      validationResult.error.message
+    );
+  }
+
+  const zone = await getZoneOrThrow(deliveryZoneService, id);
+  const data = validationResult.data;
+
+  const postcodes = data.postcodes ?? zone.postcodes ?? [];
+  const postcodeRanges = data.postcode_ranges ?? zone.postcode_ranges ?? [];
+  if (postcodes.length + postcodeRanges.length === 0) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      "Add at least one postcode or postcode range"
+    );
+  }
+
+  const updated = await deliveryZoneService.updateDeliveryZones({
+    id,
+    ...data,
+  });
+
+  res.json({
+    delivery_zone: updated,
+  });
+});
+
+/**
+ * DELETE /admin/delivery-zones/:id
+ * Remove a delivery zone
+ * Its postcodes fall back to another zone covering them, or to the shipping
+ * options' own prices.
+ */
+export const DELETE = withAdminAuth(async (req, res) => {
+  const deliveryZoneService = req.scope.resolve(DELIVERY_ZONE_MODULE) as any;
+  const { id } = req.params;
+
+  await getZoneOrThrow(deliveryZoneService, id);
+  await deliveryZoneService.softDeleteDeliveryZones([id]);
+
+  res.json({
+    id,
+    deleted: true,
+  });
+});
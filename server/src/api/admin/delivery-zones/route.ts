@@ -0,0 +1,60 @@
+import { MedusaError, Modules } from "@medusajs/framework/utils";
+import { DELIVERY_ZONE_MODULE } from "../../../modules/delivery-zone";
+import { withAdminAuth } from "../../../utils/admin-auth";
+import { CreateDeliveryZoneSchema } from "./schemas";
+
+/**
+ * GET /admin/delivery-zones
+ * List delivery zones, highest priority first
+ */
+export const GET = withAdminAuth(async (req, res) => {
+  const deliveryZoneService = req.scope.resolve(DELIVERY_ZONE_MODULE) as any;
+
+  const zones = await deliveryZoneService.listDeliveryZones(
+    {},
+    { order: { priority: "DESC", name: "ASC" } }
+  );
+
+  res.json({
+    delivery_zones: zones,
+  });
+});
+
+/**
+ * POST /admin/delivery-zones
+ * Create a delivery zone
+ */
+export const POST = withAdminAuth(async (req, res) => {
+  const deliveryZoneService = req.scope.resolve(DELIVERY_ZONE_MODULE) as any;
+
+  const validationResult = CreateDeliveryZoneSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      validationResult.error.message
+    );
+  }
+
+  const data = validationResult.data;
+
+  if (data.shipping_option_ids.length > 0) {
+    const fulfillmentModule = req.scope.resolve(Modules.FULFILLMENT);
+    const options = await fulfillmentModule.listShippingOptions(
+      { id: data.shipping_option_ids },
+      { select: ["id"] }
+    );
+    if (options.length !== new Set(data.shipping_option_ids).size) {
+      throw new MedusaError(MedusaError.Types.NOT_FOUND, "Shipping option not found");
+    }
+  }
+
+  const zone = await deliveryZoneService.createDeliveryZones({
+    ...data,
+    free_shipping_threshold: data.free_shipping_threshold ?? null,
+    minimum_order_value: data.minimum_order_value ?? null,
+  });
+
+  res.status(201).json({
+    delivery_zone: zone,
+  });
+});
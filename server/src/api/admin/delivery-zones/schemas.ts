@@ -0,0 +1,119 @@
+import { z } from "zod"
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi'
+import {
+  comparePostcodes,
+  normalizePostcode,
+} from "../../../modules/delivery-zone/services/delivery-zone"
+
+extendZodWithOpenApi(z)
+
+const PostcodeSchema = z
+  .string()
+  .trim()
+  .min(1)
+  .max(10)
+
+const PostcodeRangeSchema = z.object({
+  from: PostcodeSchema.describe("First postcode of the range"),
+  to: PostcodeSchema.describe("Last postcode of the range (inclusive)"),
+}).refine(
+  (range) => comparePostcodes(normalizePostcode(range.from), normalizePostcode(range.to)) <= 0,
+  { message: "Range must not end before it starts", path: ["to"] }
+)
+
+const DeliveryZoneFields = {
+  name: z
+    .string()
+    .min(1)
+    .max(255)
+    .describe("Zone name, e.g. Klang Valley"),
+  postcodes: z
+    .array(PostcodeSchema)
+    .default([])
+    .describe("Single postcodes in the zone"),
+  postcode_ranges: z
+    .array(PostcodeRangeSchema)
+    .default([])
+    .describe("Inclusive postcode ranges in the zone"),
+  rate: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Delivery charge in cents"),
+  free_shipping_threshold: z
+    .number()
+    .int()
+    .min(0)
+    .nullable()
+    .optional()
+    .describe("Order value in cents from which delivery is free, never free if not set"),
+  minimum_order_value: z
+    .number()
+    .int()
+    .min(0)
+    .nullable()
+    .optional()
+    .describe("Order value in cents below which the zone won't deliver, no minimum if not set"),
+  shipping_option_ids: z
+    .array(z.string().min(1))
+    .default([])
+    .describe("Shipping options offered in the zone, all options if empty"),
+  priority: z
+    .number()
+    .int()
+    .default(0)
+    .describe("Zones with a higher priority win where postcodes overlap"),
+  is_active: z
+    .boolean()
+    .optional()
+    .describe("Whether the zone is used at checkout"),
+}
+
+function hasPostcodes(data: { postcodes?: string[]; postcode_ranges?: unknown[] }): boolean {
+  return (data.postcodes?.length || 0) + (data.postcode_ranges?.length || 0) > 0
+}
+
+/**
+ * Schema for creating a delivery zone
+ * POST /admin/delivery-zones
+ */
+export const CreateDeliveryZoneSchema = z.object(DeliveryZoneFields)
+  .refine(hasPostcodes, {
+    message: "Add at least one postcode or postcode range",
+    path: ["postcodes"],
+  })
+  .openapi('CreateDeliveryZoneRequest', {
+    example: {
+      name: 'Klang Valley',
+      postcodes: ['63000'],
+      postcode_ranges: [{ from: '40000', to: '48300' }, { from: '50000', to: '60000' }],
+      rate: 800,
+      free_shipping_threshold: 15000,
+      minimum_order_value: 5000,
+      shipping_option_ids: [],
+      priority: 10,
+    }
+  })
+
+/**
+ * Schema for updating a delivery zone
+ * POST /admin/delivery-zones/:id
+ */
+export const UpdateDeliveryZoneSchema = z.object({
+  ...DeliveryZoneFields,
+  postcodes: z.array(PostcodeSchema).optional(),
+  postcode_ranges: z.array(PostcodeRangeSchema).optional(),
+  shipping_option_ids: z.array(z.string().min(1)).optional(),
+  priority: z.number().int().optional(),
+})
+  .partial()
+  .openapi('UpdateDeliveryZoneRequest', {
+    example: {
+      rate: 1000,
+      minimum_order_value: null,
+    }
+  })
+
+// Type exports
+export type CreateDeliveryZoneRequest = z.infer<typeof CreateDeliveryZoneSchema>
+export type UpdateDeliveryZoneRequest = z.infer<typeof UpdateDeliveryZoneSchema>
@@ -0,0 +1,75 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { buildLabelBatch } from "../../../../../utils/shipping-labels"
+
+/**
+ * Batch print request body
+ */
+interface PrintLabelsRequest {
+  order_ids: string[] // Medusa order IDs, printed in this order
+}
+
+/**
+ * POST /admin/easyparcel/labels/print
+ * One PDF with the AWB label and packing slip of every selected order.
+ * Labels not stored yet are fetched from the courier first
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const body = req.body as PrintLabelsRequest
+  if (!Array.isArray(body.order_ids) || body.order_ids.length === 0) {
+    res.status(400).json({
+      success: false,
+      message: "No order IDs provided",
+    } as any)
+    return
+  }
+
+  try {
+    const batch = await buildLabelBatch(req.scope, body.order_ids)
+
+    if (batch.printed === 0) {
+      res.status(404).json({
+        success: false,
+        message: "None of the selected orders were found",
+      } as any)
+      return
+    }
+
+    if (batch.missing_labels.length > 0) {
+      // Their packing slips say so; the labels can be reprinted once available
+      const logger = req.scope.resolve("logger")
+      logger.warn(`[EasyParcel Labels] Printed without label: ${batch.missing_labels.join(", ")}`)
+    }
+
+    res.setHeader("Content-Type", "application/pdf")
+    res.setHeader("Content-Disposition", `inline; filename="shipping-labels-${Date.now()}.pdf"`)
+    res.send(batch.pdf)
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error occurred"
+    res.status(500).json({
+      success: false,
+      message: `Failed to print labels: ${errorMessage}`,
+    } as any)
+  }
+}
+
+/**
+ * OPTIONS /admin/easyparcel/labels/print
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -1,4 +1,10 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import {
+  COURIER_MODULE,
+  CourierApiError,
+  type CourierModuleService,
+  type CourierOrderResult,
+} from "../../../../modules/courier"
 import { EASYPARCEL_ORDER_MODULE } from "../../../../modules/easyparcel-order"
 import { SHIPPING_SETTINGS_MODULE } from "../../../../modules/shipping-settings"
 
@@ -27,68 +33,6 @@ interface OrderSubmissionRequest {
   orders: OrderSubmissionItem[]
 }
 
-/**
- * Format and validate Malaysia phone number for EasyParcel
- * EasyParcel requires format: 9-11 digit number (no country code)
- * Returns null if phone number is invalid
- */
-function formatMalaysiaPhone(phone: string): string | null {
-  if (!phone) return null
-
-  // Remove all non-digit characters
-  let cleaned = phone.replace(/\D/g, "")
-
-  // Remove country code if present (60)
-  if (cleaned.startsWith("60") && cleaned.length > 9) {
-    cleaned = cleaned.slice(2)
-  }
-
-  // Remove leading 0 if present
-  if (cleaned.startsWith("0")) {
-    cleaned = cleaned.slice(1)
-  }
-
-  // Malaysia mobile numbers are 9-10 digits starting with 1
-  if ((cleaned.length === 9 || cleaned.length === 10) && cleaned.startsWith("1")) {
-    return cleaned
-  }
-
-  // Malaysia landlines are 8-9 digits starting with 3, 4, 5, 6, 7, 8, 9
-  if ((cleaned.length === 8 || cleaned.length === 9) && /^[3-9]/.test(cleaned)) {
-    return cleaned
-  }
-
-  // Return original cleaned number if it looks reasonable
-  if (cleaned.length >= 8 && cleaned.length <= 11) {
-    return cleaned
-  }
-
-  return null
-}
-
-// Alias for backward compatibility
-const formatSingaporePhone = formatMalaysiaPhone
-
-/**
- * EasyParcel API response types
- */
-interface EasyParcelSubmitResult {
-  status: string
-  remarks?: string
-  order_number?: string
-  parcel_number?: string
-  price?: string
-  courier?: string
-  collect_date?: string
-}
-
-interface EasyParcelAPIResponse {
-  api_status: string
-  error_code?: string | number
-  error_remark?: string
-  result?: EasyParcelSubmitResult[]
-}
-
 /**
  * POST /admin/easyparcel/orders
  * Submit orders to EasyParcel for shipping
@@ -104,10 +48,9 @@ export const POST = async (
     return
   }
 
-  const apiKey = process.env.EASYPARCEL_API_KEY
-  const useDemo = process.env.EASYPARCEL_USE_DEMO === "true"
+  const courierService = req.scope.resolve<CourierModuleService>(COURIER_MODULE)
 
-  if (!apiKey) {
+  if (!courierService.isConfigured()) {
     res.status(400).json({
       success: false,
       message: "EasyParcel API key is not configured",
@@ -139,17 +82,9 @@ export const POST = async (
     return
   }
 
-  const baseUrl = useDemo
-    ? "http://demo.connect.easyparcel.sg"
-    : "http://connect.easyparcel.sg"
-
   try {
-    // Build request with PHP-style array format
-    const params = new URLSearchParams()
-    params.append("api", apiKey)
-
     // Validate and format sender phone
-    const senderPhone = formatSingaporePhone(senderSettings.sender_phone)
+    const senderPhone = courierService.formatPhone(senderSettings.sender_phone)
     console.log("[EasyParcel] Sender phone validation:", {
       raw: senderSettings.sender_phone,
       formatted: senderPhone,
@@ -166,7 +101,7 @@ export const POST = async (
     // Validate receiver phones before making API call
     const phoneErrors: string[] = []
     body.orders.forEach((order, index) => {
-      const formattedPhone = formatSingaporePhone(order.receiver_phone)
+      const formattedPhone = courierService.formatPhone(order.receiver_phone)
       console.log(`[EasyParcel] Receiver ${index + 1} phone validation:`, {
         raw: order.receiver_phone,
         formatted: formattedPhone,
@@ -187,51 +122,6 @@ export const POST = async (
       return
     }
 
-    // Add each order to the bulk request
-    // Based on EasyParcel Singapore API documentation
-    body.orders.forEach((order, index) => {
-      // Sender (pickup) info - all required fields per EasyParcel docs
-      params.append(`bulk[${index}][pick_name]`, senderSettings.sender_name)
-      params.append(`bulk[${index}][pick_company]`, senderSettings.sender_name)
-      params.append(`bulk[${index}][pick_contact]`, senderPhone)
-      params.append(`bulk[${index}][pick_mobile]`, senderPhone)
-      params.append(`bulk[${index}][pick_addr1]`, senderSettings.sender_address)
-      params.append(`bulk[${index}][pick_addr2]`, "")
-      params.append(`bulk[${index}][pick_unit]`, senderSettings.sender_unit || "-")
-      params.append(`bulk[${index}][pick_state]`, "Singapore")
-      params.append(`bulk[${index}][pick_code]`, senderSettings.sender_postcode)
-      params.append(`bulk[${index}][pick_country]`, senderSettings.sender_country || "SG")
-
-      // Receiver info - format phone number
-      const receiverPhone = formatSingaporePhone(order.receiver_phone) || order.receiver_phone
-      params.append(`bulk[${index}][send_name]`, order.receiver_name)
-      params.append(`bulk[${index}][send_company]`, "")
-      params.append(`bulk[${index}][send_contact]`, receiverPhone)
-      params.append(`bulk[${index}][send_mobile]`, receiverPhone)
-      params.append(`bulk[${index}][send_addr1]`, order.receiver_address)
-      params.append(`bulk[${index}][send_addr2]`, "")
-      params.append(`bulk[${index}][send_unit]`, "-")
-      params.append(`bulk[${index}][send_state]`, "Singapore")
-      params.append(`bulk[${index}][send_code]`, order.receiver_postcode)
-      params.append(`bulk[${index}][send_country]`, order.receiver_country || "SG")
-
-      // Package details - all required fields
-      params.append(`bulk[${index}][weight]`, order.weight.toString())
-      params.append(`bulk[${index}][width]`, "10")
-      params.append(`bulk[${index}][length]`, "10")
-      params.append(`bulk[${index}][height]`, "10")
-      params.append(`bulk[${index}][content]`, order.content)
-      params.append(`bulk[${index}][value]`, (order.rate / 100).toFixed(2))
-      params.append(`bulk[${index}][service_id]`, order.service_id)
-      params.append(`bulk[${index}][collect_date]`, order.pickup_date)
-      params.append(`bulk[${index}][sms]`, "0") // SMS notification: 0=no, 1=yes
-
-      // Reference for tracking back to Medusa order
-      params.append(`bulk[${index}][reference]`, order.order_id)
-    })
-
-    // Log the request for debugging
-    console.log("[EasyParcel] Submitting orders to:", `${baseUrl}/?ac=EPSubmitOrderBulk`)
     console.log("[EasyParcel] Sender (pickup) info:", {
       name: senderSettings.sender_name,
       phone_raw: senderSettings.sender_phone,
@@ -240,46 +130,55 @@ export const POST = async (
       postcode: senderSettings.sender_postcode,
     })
     console.log("[EasyParcel] Order data:", JSON.stringify(body.orders, null, 2))
-    // Log the actual params being sent
-    console.log("[EasyParcel] Request params:", params.toString())
 
-    let response: Response
-    let data: EasyParcelAPIResponse
+    let submitted: CourierOrderResult[]
 
     try {
-      response = await fetch(`${baseUrl}/?ac=EPSubmitOrderBulk`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: params,
-      })
-      data = await response.json()
-    } catch (fetchError) {
-      console.error("[EasyParcel] Fetch error:", fetchError)
+      submitted = await courierService.submitOrders(
+        body.orders.map((order) => ({
+          reference: order.order_id, // For tracking back to Medusa order
+          service_id: order.service_id,
+          collect_date: order.pickup_date,
+          sender: {
+            name: senderSettings.sender_name,
+            company: senderSettings.sender_name,
+            phone: senderPhone,
+            address_1: senderSettings.sender_address,
+            unit: senderSettings.sender_unit,
+            postcode: senderSettings.sender_postcode,
+            country: senderSettings.sender_country || "SG",
+          },
+          receiver: {
+            name: order.receiver_name,
+            phone: order.receiver_phone,
+            address_1: order.receiver_address,
+            postcode: order.receiver_postcode,
+            country: order.receiver_country || "SG",
+          },
+          weight: order.weight,
+          content: order.content,
+          value: order.rate / 100,
+        }))
+      )
+    } catch (submitError) {
+      if (submitError instanceof CourierApiError) {
+        res.status(400).json({
+          success: false,
+          message: submitError.message || "Failed to submit orders to EasyParcel",
+          results: [],
+        } as any)
+        return
+      }
+      console.error("[EasyParcel] Fetch error:", submitError)
       res.status(500).json({
         success: false,
-        message: `Failed to connect to EasyParcel API: ${fetchError instanceof Error ? fetchError.message : "Network error"}`,
+        message: `Failed to connect to EasyParcel API: ${submitError instanceof Error ? submitError.message : "Network error"}`,
         results: [],
       } as any)
       return
     }
 
-    // Log the response for debugging
-    console.log("[EasyParcel] API Response:", JSON.stringify(data, null, 2))
-
-    // Check for API errors
-    if (
-      data.api_status === "Error" ||
-      (data.error_code && data.error_code !== "0" && data.error_code !== 0)
-    ) {
-      res.status(400).json({
-        success: false,
-        message: data.error_remark || "Failed to submit orders to EasyParcel",
-        results: [],
-      } as any)
-      return
-    }
+    console.log("[EasyParcel] Submit results:", JSON.stringify(submitted, null, 2))
 
     // Process results and save to database
     const easyParcelOrderService = req.scope.resolve(EASYPARCEL_ORDER_MODULE) as any
@@ -290,45 +189,43 @@ export const POST = async (
       message?: string
     }> = []
 
-    if (data.result) {
-      for (let i = 0; i < data.result.length; i++) {
-        const result = data.result[i]
-        const orderData = body.orders[i]
-
-        if (result.status === "Success" && result.order_number) {
-          // Save to database
-          await easyParcelOrderService.createOrder({
-            order_id: orderData.order_id,
-            order_no: result.order_number,
-            parcel_no: result.parcel_number,
-            service_id: orderData.service_id,
-            service_name: orderData.service_name,
-            courier_id: orderData.courier_id,
-            courier_name: orderData.courier_name,
-            weight: orderData.weight,
-            rate: orderData.rate,
-            pickup_date: orderData.pickup_date,
-            pickup_time: orderData.pickup_time,
-            receiver_name: orderData.receiver_name,
-            receiver_phone: orderData.receiver_phone,
-            receiver_address: orderData.receiver_address,
-            receiver_postcode: orderData.receiver_postcode,
-            receiver_country: orderData.receiver_country || "SG",
-            status: "order_created",
-          })
-
-          results.push({
-            order_id: orderData.order_id,
-            success: true,
-            order_no: result.order_number,
-          })
-        } else {
-          results.push({
-            order_id: orderData.order_id,
-            success: false,
-            message: result.remarks || "Failed to create order",
-          })
-        }
+    for (let i = 0; i < submitted.length; i++) {
+      const result = submitted[i]
+      const orderData = body.orders[i]
+
+      if (result.success && result.order_no) {
+        // Save to database
+        await easyParcelOrderService.createOrder({
+          order_id: orderData.order_id,
+          order_no: result.order_no,
+          parcel_no: result.parcel_no,
+          service_id: orderData.service_id,
+          service_name: orderData.service_name,
+          courier_id: orderData.courier_id,
+          courier_name: orderData.courier_name,
+          weight: orderData.weight,
+          rate: orderData.rate,
+          pickup_date: orderData.pickup_date,
+          pickup_time: orderData.pickup_time,
+          receiver_name: orderData.receiver_name,
+          receiver_phone: orderData.receiver_phone,
+          receiver_address: orderData.receiver_address,
+          receiver_postcode: orderData.receiver_postcode,
+          receiver_country: orderData.receiver_country || "SG",
+          status: "order_created",
+        })
+
+        results.push({
+          order_id: orderData.order_id,
+          success: true,
+          order_no: result.order_no,
+        })
+      } else {
+        results.push({
+          order_id: orderData.order_id,
+          success: false,
+          message: result.message || "Failed to create order",
+        })
       }
     }
 
@@ -350,7 +247,7 @@ export const POST = async (
       success: successCount > 0,
       message,
       results,
-      environment: useDemo ? "demo" : "production",
+      environment: courierService.getEnvironment(),
     })
   } catch (error) {
     const errorMessage =
@@ -1,5 +1,11 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import {
+  COURIER_MODULE,
+  CourierApiError,
+  type CourierModuleService,
+} from "../../../../modules/courier"
 import { EASYPARCEL_ORDER_MODULE } from "../../../../modules/easyparcel-order"
+import { storeShippingLabel } from "../../../../utils/shipping-labels"
 
 /**
  * Payment request body
@@ -8,54 +14,6 @@ interface PaymentRequest {
   order_nos: string[] // EasyParcel order numbers to pay
 }
 
-/**
- * EasyParcel API response types
- */
-interface EasyParcelPayResult {
-  status?: string
-  remarks?: string
-  messagenow?: string // EasyParcel uses this for error messages
-  order_no?: string
-  order_number?: string
-  orderno?: string // EasyParcel sometimes uses this
-  parcel_no?: string
-  parcel_number?: string
-  awb?: string
-  awb_id_link?: string
-  tracking_url?: string
-  tracking_number?: string
-  parcel?: Array<{
-    awb?: string
-    tracking_url?: string
-  }>
-}
-
-interface EasyParcelAPIResponse {
-  api_status: string
-  error_code?: string | number
-  error_remark?: string
-  result?: EasyParcelPayResult[]
-}
-
-/**
- * Generate a mock AWB number for development/testing
- * Format: MOCK-{timestamp}-{random}
- */
-function generateMockAwb(): string {
-  const timestamp = Date.now().toString(36).toUpperCase()
-  const random = Math.random().toString(36).substring(2, 8).toUpperCase()
-  return `MOCK-${timestamp}-${random}`
-}
-
-/**
- * Generate a mock parcel number
- * Format: MP-{5 digit number}
- */
-function generateMockParcelNo(): string {
-  const num = Math.floor(10000 + Math.random() * 90000)
-  return `MP-${num}`
-}
-
 /**
  * POST /admin/easyparcel/pay
  * Pay for submitted orders and get AWB numbers
@@ -74,11 +32,10 @@ export const POST = async (
     return
   }
 
-  const apiKey = process.env.EASYPARCEL_API_KEY
-  const useDemo = process.env.EASYPARCEL_USE_DEMO === "true"
-  const useMockPayment = process.env.EASYPARCEL_MOCK_PAYMENT === "true"
+  const courierService = req.scope.resolve<CourierModuleService>(COURIER_MODULE)
+  const isMockPayment = courierService.isMockPayment()
 
-  if (!apiKey) {
+  if (!courierService.isConfigured()) {
     res.status(400).json({
       success: false,
       message: "EasyParcel API key is not configured",
@@ -97,96 +54,12 @@ export const POST = async (
 
   const easyParcelOrderService = req.scope.resolve(EASYPARCEL_ORDER_MODULE) as any
 
-  // === MOCK PAYMENT MODE ===
-  // For development without EasyParcel credits
-  if (useMockPayment) {
-    console.log("[EasyParcel Pay] MOCK MODE - Generating simulated payment results")
-
-    const results: Array<{
-      order_no: string
-      success: boolean
-      parcel_no?: string
-      awb?: string
-      tracking_url?: string
-      message?: string
-    }> = []
-
-    for (const orderNo of body.order_nos) {
-      const mockAwb = generateMockAwb()
-      const mockParcelNo = generateMockParcelNo()
-      const mockTrackingUrl = `https://track.easyparcel.sg/?awb=${mockAwb}`
-
-      // Update database with mock data
-      const existingOrder = await easyParcelOrderService.getByOrderNo(orderNo)
-      if (existingOrder) {
-        await easyParcelOrderService.markAsPaid(
-          existingOrder.id,
-          mockParcelNo,
-          mockAwb,
-          mockTrackingUrl
-        )
-      }
-
-      results.push({
-        order_no: orderNo,
-        success: true,
-        parcel_no: mockParcelNo,
-        awb: mockAwb,
-        tracking_url: mockTrackingUrl,
-      })
-    }
-
-    res.json({
-      success: true,
-      message: `[MOCK] Successfully paid for ${results.length} orders (simulated)`,
-      results,
-      environment: "mock",
-      mock_mode: true,
-    })
-    return
-  }
-
-  // === REAL PAYMENT MODE ===
-  const baseUrl = useDemo
-    ? "http://demo.connect.easyparcel.sg"
-    : "http://connect.easyparcel.sg"
-
   try {
-    // Build request with PHP-style array format
-    const params = new URLSearchParams()
-    params.append("api", apiKey)
+    console.log("[EasyParcel Pay] Paying orders:", body.order_nos)
 
-    // Add each order number to the bulk request
-    body.order_nos.forEach((orderNo, index) => {
-      params.append(`bulk[${index}][order_no]`, orderNo)
-    })
+    const payments = await courierService.payOrders(body.order_nos)
 
-    console.log("[EasyParcel Pay] Request params:", params.toString())
-
-    const response = await fetch(`${baseUrl}/?ac=EPPayOrderBulk`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: params,
-    })
-
-    const data: EasyParcelAPIResponse = await response.json()
-
-    console.log("[EasyParcel Pay] API Response:", JSON.stringify(data, null, 2))
-
-    // Check for API errors
-    if (
-      data.api_status === "Error" ||
-      (data.error_code && data.error_code !== "0" && data.error_code !== 0)
-    ) {
-      res.status(400).json({
-        success: false,
-        message: data.error_remark || "Failed to pay for orders",
-        results: [],
-      } as any)
-      return
-    }
+    console.log("[EasyParcel Pay] Payment results:", JSON.stringify(payments, null, 2))
 
     // Process results and update database
     const results: Array<{
@@ -195,81 +68,74 @@ export const POST = async (
       parcel_no?: string
       awb?: string
       tracking_url?: string
+      label_url?: string
       message?: string
     }> = []
 
-    if (data.result) {
-      for (const result of data.result) {
-        // Handle different field names from EasyParcel API
-        // EasyParcel uses various field names: orderno, order_no, order_number
-        const orderNo = result.orderno || result.order_no || result.order_number || ""
-        const parcelNo = result.parcel_no || result.parcel_number || ""
-
-        // AWB might be in different places
-        let awb = result.awb || result.tracking_number || ""
-        let trackingUrl = result.tracking_url || result.awb_id_link || ""
-
-        // Check parcel array for AWB (sometimes nested)
-        if (!awb && result.parcel && result.parcel.length > 0) {
-          awb = result.parcel[0].awb || ""
-          trackingUrl = trackingUrl || result.parcel[0].tracking_url || ""
-        }
-
-        // Check for error message in messagenow field
-        const errorMessage = result.messagenow || result.remarks || ""
-
-        // In demo mode, payment might succeed without AWB
-        // Check for Success status (case-insensitive)
-        // Also check if there's no error message
-        const isSuccess = result.status?.toLowerCase() === "success" ||
-          (awb && !errorMessage.toLowerCase().includes("insufficient"))
-
-        // Check for specific error conditions
-        const isInsufficientCredit = errorMessage.toLowerCase().includes("insufficient credit")
-
-        if (isInsufficientCredit) {
-          results.push({
-            order_no: orderNo,
-            success: false,
-            message: "Insufficient credit in EasyParcel wallet. Please top up your EasyParcel account.",
-          })
-        } else if (isSuccess) {
-          // Find and update the order in database
-          const existingOrder = await easyParcelOrderService.getByOrderNo(orderNo)
-
-          if (existingOrder && awb) {
-            await easyParcelOrderService.markAsPaid(
-              existingOrder.id,
-              parcelNo,
-              awb,
-              trackingUrl
-            )
+    for (const payment of payments) {
+      if (payment.insufficient_credit) {
+        results.push({
+          order_no: payment.order_no,
+          success: false,
+          message: "Insufficient credit in EasyParcel wallet. Please top up your EasyParcel account.",
+        })
+      } else if (payment.success) {
+        // Find and update the order in database
+        const existingOrder = await easyParcelOrderService.getByOrderNo(payment.order_no)
+
+        let labelUrl: string | undefined
+        if (existingOrder && payment.awb) {
+          const paidOrder = await easyParcelOrderService.markAsPaid(
+            existingOrder.id,
+            payment.parcel_no,
+            payment.awb,
+            payment.tracking_url,
+            payment.label_url
+          )
+
+          // The label can be fetched again when printing, so don't fail the payment
+          try {
+            const labelled = await storeShippingLabel(req.scope, paidOrder)
+            labelUrl = labelled.label_url || undefined
+          } catch (error) {
+            const logger = req.scope.resolve("logger")
+            logger.warn(`[EasyParcel Pay] Could not store label for ${payment.awb}: ${error}`)
           }
-
-          results.push({
-            order_no: orderNo,
-            success: true,
-            parcel_no: parcelNo,
-            awb: awb || "Pending (Demo Mode)",
-            tracking_url: trackingUrl,
-          })
-        } else {
-          results.push({
-            order_no: orderNo,
-            success: false,
-            message: errorMessage || "Failed to pay for order",
-          })
         }
+
+        results.push({
+          order_no: payment.order_no,
+          success: true,
+          parcel_no: payment.parcel_no,
+          awb: payment.awb || "Pending (Demo Mode)",
+          tracking_url: payment.tracking_url,
+          label_url: labelUrl,
+        })
+      } else {
+        results.push({
+          order_no: payment.order_no,
+          success: false,
+          message: payment.message || "Failed to pay for order",
+        })
       }
     }
 
+    if (isMockPayment) {
+      res.json({
+        success: true,
+        message: `[MOCK] Successfully paid for ${results.length} orders (simulated)`,
+        results,
+        environment: "mock",
+        mock_mode: true,
+      })
+      return
+    }
+
     const successCount = results.filter((r) => r.success).length
     const failCount = results.length - successCount
 
     // Check if any failed due to insufficient credit
-    const insufficientCreditError = results.find((r) =>
-      r.message?.toLowerCase().includes("insufficient credit")
-    )
+    const insufficientCreditError = payments.find((p) => p.insufficient_credit)
 
     let message: string
     if (failCount === 0) {
@@ -285,9 +151,17 @@ export const POST = async (
       success: successCount > 0,
       message,
       results,
-      environment: useDemo ? "demo" : "production",
+      environment: courierService.getEnvironment(),
     })
   } catch (error) {
+    if (error instanceof CourierApiError) {
+      res.status(400).json({
+        success: false,
+        message: error.message || "Failed to pay for orders",
+        results: [],
+      } as any)
+      return
+    }
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error occurred"
     res.status(500).json({
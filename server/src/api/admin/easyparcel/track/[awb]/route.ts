@@ -1,34 +1,10 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
-
-/**
- * EasyParcel tracking event
- */
-interface TrackingEvent {
-  date: string
-  time: string
-  status: string
-  location?: string
-  description?: string
-}
-
-/**
- * EasyParcel API response types
- */
-interface EasyParcelTrackResult {
-  status: string
-  remarks?: string
-  awb?: string
-  courier?: string
-  parcel_status?: string
-  tracking?: TrackingEvent[]
-}
-
-interface EasyParcelAPIResponse {
-  api_status: string
-  error_code?: string | number
-  error_remark?: string
-  result?: EasyParcelTrackResult[]
-}
+import {
+  COURIER_MODULE,
+  CourierApiError,
+  type CourierModuleService,
+} from "../../../../../modules/courier"
+import { applyCourierTracking } from "../../../../../utils/courier-tracking"
 
 /**
  * GET /admin/easyparcel/track/[awb]
@@ -45,10 +21,9 @@ export const GET = async (
     return
   }
 
-  const apiKey = process.env.EASYPARCEL_API_KEY
-  const useDemo = process.env.EASYPARCEL_USE_DEMO === "true"
+  const courierService = req.scope.resolve<CourierModuleService>(COURIER_MODULE)
 
-  if (!apiKey) {
+  if (!courierService.isConfigured()) {
     res.status(400).json({
       success: false,
       message: "EasyParcel API key is not configured",
@@ -65,57 +40,37 @@ export const GET = async (
     return
   }
 
-  const baseUrl = useDemo
-    ? "http://demo.connect.easyparcel.sg"
-    : "http://connect.easyparcel.sg"
-
   try {
-    // Build request with PHP-style array format
-    const params = new URLSearchParams()
-    params.append("api", apiKey)
-    params.append("bulk[0][awb]", awb)
-
-    const response = await fetch(`${baseUrl}/?ac=EPTrackingBulk`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: params,
-    })
+    const result = await courierService.track(awb)
 
-    const data: EasyParcelAPIResponse = await response.json()
-
-    // Check for API errors
-    if (
-      data.api_status === "Error" ||
-      (data.error_code && data.error_code !== "0" && data.error_code !== 0)
-    ) {
-      res.status(400).json({
-        success: false,
-        message: data.error_remark || "Failed to fetch tracking info",
-      } as any)
-      return
-    }
-
-    const result = data.result?.[0]
-    if (!result || result.status !== "Success") {
+    if (!result.success) {
       res.json({
         success: false,
-        message: result?.remarks || "No tracking information available",
+        message: result.message || "No tracking information available",
         awb,
       })
       return
     }
 
+    // Keep the stored history of the shipment up to date as well
+    await applyCourierTracking(req.scope, result)
+
     res.json({
       success: true,
       awb,
       courier: result.courier,
       parcel_status: result.parcel_status,
-      tracking: result.tracking || [],
-      environment: useDemo ? "demo" : "production",
+      tracking: result.events,
+      environment: courierService.getEnvironment(),
     })
   } catch (error) {
+    if (error instanceof CourierApiError) {
+      res.status(400).json({
+        success: false,
+        message: error.message || "Failed to fetch tracking info",
+      } as any)
+      return
+    }
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error occurred"
     res.status(500).json({
@@ -21,6 +21,9 @@ export const GET = withAdminAuth(async (req, res) => {
       evaluation_period_months: config.evaluation_period_months,
       evaluation_trigger: config.evaluation_trigger,
       auto_enroll_on_first_order: config.auto_enroll_on_first_order,
+      tier_discount_exclude_pwp: config.tier_discount_exclude_pwp,
+      tier_discount_exclude_bulk: config.tier_discount_exclude_bulk,
+      tier_discount_exclude_sale: config.tier_discount_exclude_sale,
       is_enabled: config.is_enabled,
       created_at: config.created_at,
       updated_at: config.updated_at,
@@ -43,6 +46,9 @@ export const PUT = withAdminAuth(async (req, res) => {
     evaluation_period_months,
     evaluation_trigger,
     auto_enroll_on_first_order,
+    tier_discount_exclude_pwp,
+    tier_discount_exclude_bulk,
+    tier_discount_exclude_sale,
     is_enabled,
   } = req.body as {
     program_type?: "free" | "paid"
@@ -51,6 +57,9 @@ export const PUT = withAdminAuth(async (req, res) => {
     evaluation_period_months?: number
     evaluation_trigger?: "on_order" | "daily" | "both"
     auto_enroll_on_first_order?: boolean
+    tier_discount_exclude_pwp?: boolean
+    tier_discount_exclude_bulk?: boolean
+    tier_discount_exclude_sale?: boolean
     is_enabled?: boolean
   }
 
@@ -61,6 +70,9 @@ export const PUT = withAdminAuth(async (req, res) => {
     evaluation_period_months,
     evaluation_trigger,
     auto_enroll_on_first_order,
+    tier_discount_exclude_pwp,
+    tier_discount_exclude_bulk,
+    tier_discount_exclude_sale,
     is_enabled,
   })
 
@@ -73,6 +85,9 @@ export const PUT = withAdminAuth(async (req, res) => {
       evaluation_period_months: config.evaluation_period_months,
       evaluation_trigger: config.evaluation_trigger,
       auto_enroll_on_first_order: config.auto_enroll_on_first_order,
+      tier_discount_exclude_pwp: config.tier_discount_exclude_pwp,
+      tier_discount_exclude_bulk: config.tier_discount_exclude_bulk,
+      tier_discount_exclude_sale: config.tier_discount_exclude_sale,
       is_enabled: config.is_enabled,
       created_at: config.created_at,
       updated_at: config.updated_at,
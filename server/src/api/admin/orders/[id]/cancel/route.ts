@@ -1,23 +1,20 @@
 import type { MedusaResponse } from "@medusajs/framework/http";
-import { Modules, MedusaError, ContainerRegistrationKeys } from "@medusajs/framework/utils";
+import { Modules, MedusaError } from "@medusajs/framework/utils";
 import { ORDER_EXTENSION_MODULE } from "../../../../../modules/order-extension";
-import { POINTS_MODULE } from "../../../../../modules/points";
 import { withAdminAuth } from "../../../../../utils/admin-auth";
+import { cancelOrder } from "../../../../../utils/cancel-order";
 import { formatOrderResponse } from "../../../../../utils/format-order";
-import Stripe from "stripe";
 
 /**
  * POST /admin/orders/:id/cancel
  * Cancel an order by updating its status to "canceled"
- * Also processes a full refund via Stripe if the order was paid
+ * Also processes a full refund via Stripe if the order was paid, adjusts points,
+ * releases reserved inventory and coupon/PWP uses, and emails the customer
  */
 export const POST = withAdminAuth(async (req, res) => {
   const orderModule = req.scope.resolve(Modules.ORDER);
   const customerModule = req.scope.resolve(Modules.CUSTOMER);
   const orderExtensionService = req.scope.resolve(ORDER_EXTENSION_MODULE) as any;
-  const pointsService = req.scope.resolve(POINTS_MODULE) as any;
-  const query = req.scope.resolve(ContainerRegistrationKeys.QUERY);
-  const logger = req.scope.resolve("logger") as any;
 
   const { id } = req.params;
 
@@ -79,118 +76,10 @@ export const POST = withAdminAuth(async (req, res) => {
     }
   }
 
-  // Cancel the order by updating its status
-  const updatedOrders = await orderModule.updateOrders([
-    {
-      id: order.id,
-      status: "canceled",
-    },
-  ]);
-
-  const updatedOrder = updatedOrders[0];
-
-  // Process Stripe refund if the order was paid
-  let refundResult: { refunded: boolean; stripe_refund_id?: string; error?: string } = { refunded: false };
-  
-  try {
-    // Get the order's payment collection using Query graph API
-    const { data: ordersWithPayments } = await query.graph({
-      entity: "order",
-      filters: { id },
-      fields: [
-        "id",
-        "payment_collections.id",
-        "payment_collections.status",
-        "payment_collections.payments.id",
-        "payment_collections.payments.provider_id",
-        "payment_collections.payments.captured_at",
-        "payment_collections.payments.data",
-        "payment_collections.payments.amount",
-      ],
-    });
-
-    if (ordersWithPayments && ordersWithPayments.length > 0) {
-      const orderWithPayments = ordersWithPayments[0] as any;
-      const paymentCollections = orderWithPayments.payment_collections || [];
-
-      // Find a successful Stripe payment (captured)
-      let stripePayment: any = null;
-      for (const collection of paymentCollections) {
-        const payments = collection.payments || [];
-        stripePayment = payments.find(
-          (p: any) =>
-            p.provider_id === "pp_stripe_stripe" && p.captured_at !== null
-        );
-        if (stripePayment) break;
-      }
-
-      if (stripePayment) {
-        // Initialize Stripe
-        const stripeApiKey = process.env.STRIPE_API_KEY;
-        if (stripeApiKey) {
-          const stripe = new Stripe(stripeApiKey, {
-            // @ts-ignore - Using latest Stripe API version
-            apiVersion: "2024-12-18.acacia",
-          });
-
-          // Get the payment intent ID from the payment data
-          const paymentData = stripePayment.data as any;
-          const paymentIntentId = paymentData?.id;
-
-          if (paymentIntentId) {
-            // Create a full refund in Stripe
-            const stripeRefund = await stripe.refunds.create({
-              payment_intent: paymentIntentId,
-              reason: "requested_by_customer",
-              metadata: {
-                order_id: id,
-                cancellation_reason: "order_cancelled",
-              },
-            });
-
-            refundResult = {
-              refunded: true,
-              stripe_refund_id: stripeRefund.id,
-            };
-
-            logger.info(
-              `[CANCEL] Stripe refund processed for order ${id}: refund_id=${stripeRefund.id}, amount=${stripeRefund.amount}`
-            );
-          } else {
-            logger.warn(`[CANCEL] Could not find payment intent ID for order ${id}`);
-            refundResult.error = "Could not find payment intent ID";
-          }
-        } else {
-          logger.warn(`[CANCEL] Stripe API key not configured, skipping refund for order ${id}`);
-          refundResult.error = "Stripe API key not configured";
-        }
-      } else {
-        logger.info(`[CANCEL] No captured Stripe payment found for order ${id}, no refund needed`);
-      }
-    }
-  } catch (refundError: any) {
-    logger.error(`[CANCEL] Error processing refund for order ${id}: ${refundError.message}`);
-    refundResult.error = refundError.message;
-    // Don't fail the cancellation if refund fails - order is already cancelled
-  }
-
-  // Update order extension to reflect cancelled status and payment status
-  const paymentStatus = refundResult.refunded ? "refunded" : (extension?.payment_status || "awaiting");
-  
-  if (extension) {
-    await orderExtensionService.updateOrderExtensions({
-      id: extension.id,
-      fulfillment_status: "cancelled",
-      payment_status: paymentStatus,
-    });
-  } else {
-    // Create extension if it doesn't exist
-    await orderExtensionService.createOrderExtensions({
-      order_id: id,
-      payment_status: paymentStatus,
-      fulfillment_status: "cancelled",
-    });
-  }
+  // Cancel, refund, adjust points, release inventory and promo uses, notify the customer
+  const result = await cancelOrder(req.scope, order, { cancelled_by: "admin" });
+  const updatedOrder = result.order;
+  const paymentStatus = result.payment_status;
 
   // Get customer info
   let customer = null;
@@ -201,42 +90,6 @@ export const POST = withAdminAuth(async (req, res) => {
     customer = customers[0] || null;
   }
 
-  // Handle points adjustment for the cancelled order
-  let pointsResult = null;
-  if (order.customer_id) {
-    try {
-      // Get points earned from the original order
-      const pointsEarned = await pointsService.getPointsEarnedFromOrder(
-        order.customer_id,
-        order.id
-      );
-
-      // Get points redeemed on the original order
-      const pointsRedeemed = await pointsService.getPointsRedeemedOnOrder(
-        order.customer_id,
-        order.id
-      );
-
-      if (pointsEarned > 0 || pointsRedeemed > 0) {
-        pointsResult = await pointsService.handleCancelOrderPoints({
-          customer_id: order.customer_id,
-          order_id: order.id,
-          points_to_deduct: pointsEarned,
-          points_to_restore: pointsRedeemed,
-        });
-
-        logger.info(
-          `[CANCEL] Points adjusted for order ${id}: ` +
-          `deducted=${pointsResult.points_deducted}, restored=${pointsResult.points_restored}, ` +
-          `new_balance=${pointsResult.new_balance}`
-        );
-      }
-    } catch (pointsError: any) {
-      // Log but don't fail the cancellation if points adjustment fails
-      logger.error(`[CANCEL] Error adjusting points for order ${id}: ${pointsError.message}`);
-    }
-  }
-
   const formattedOrder = formatOrderResponse({
     order: { ...updatedOrder, items: order.items },
     customer,
@@ -249,7 +102,7 @@ export const POST = withAdminAuth(async (req, res) => {
 
   res.json({
     order: formattedOrder,
-    points: pointsResult,
-    refund: refundResult,
+    points: result.points,
+    refund: result.refund,
   });
 });
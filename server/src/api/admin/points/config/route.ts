@@ -25,6 +25,9 @@ export const GET = withAdminAuth(async (req, res) => {
       max_redemption_percentage: config.max_redemption_percentage ?? 50,
       // Expiration settings
       expiration_months: config.expiration_months ?? 0,
+      // Review rewards
+      review_reward_points: config.review_reward_points ?? 0,
+      review_photo_bonus_points: config.review_photo_bonus_points ?? 0,
       // Status
       is_enabled: config.is_enabled,
       updated_at: config.updated_at,
@@ -52,6 +55,8 @@ export const PUT = withAdminAuth(async (req, res) => {
     min_points_to_redeem,
     max_redemption_percentage,
     expiration_months,
+    review_reward_points,
+    review_photo_bonus_points,
     is_enabled,
   } = req.body as {
     earning_type?: "percentage" | "per_currency"
@@ -62,6 +67,8 @@ export const PUT = withAdminAuth(async (req, res) => {
     min_points_to_redeem?: number
     max_redemption_percentage?: number
     expiration_months?: number
+    review_reward_points?: number
+    review_photo_bonus_points?: number
     is_enabled?: boolean
   }
 
@@ -77,6 +84,8 @@ export const PUT = withAdminAuth(async (req, res) => {
     min_points_to_redeem,
     max_redemption_percentage,
     expiration_months,
+    review_reward_points,
+    review_photo_bonus_points,
     is_enabled,
   })
 
@@ -95,6 +104,8 @@ export const PUT = withAdminAuth(async (req, res) => {
       min_points_to_redeem: updatedConfig.min_points_to_redeem,
       max_redemption_percentage: updatedConfig.max_redemption_percentage,
       expiration_months: updatedConfig.expiration_months,
+      review_reward_points: updatedConfig.review_reward_points,
+      review_photo_bonus_points: updatedConfig.review_photo_bonus_points,
       is_enabled: updatedConfig.is_enabled,
       updated_at: updatedConfig.updated_at,
     },
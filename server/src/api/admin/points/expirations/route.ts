@@ -0,0 +1,16 @@
+import type { MedusaResponse } from "@medusajs/framework/http"
+import { POINTS_MODULE } from "../../../../modules/points"
+import { withAdminAuth } from "../../../../utils/admin-auth"
+
+/**
+ * GET /admin/points/expirations
+ * Get points projected to expire in the next 30, 60 and 90 days
+ * Requires admin authentication
+ */
+export const GET = withAdminAuth(async (req, res) => {
+  const pointsService = req.scope.resolve(POINTS_MODULE) as any
+
+  const expirations = await pointsService.getExpirationProjections()
+
+  res.json({ expirations })
+})
@@ -0,0 +1,109 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../../../../../modules/promo"
+import type PromoModuleService from "../../../../../modules/promo/services/promo"
+import { UpdateAutoPromotionSchema } from "../../schemas"
+
+/**
+ * GET /admin/promos/auto-promotions/:id
+ * Get a single automatic promotion by ID
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const { id } = req.params
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  try {
+    const promotion = await promoService.retrieveAutoPromotion(id)
+    res.json({ auto_promotion: promotion })
+  } catch (error) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Automatic promotion with id ${id} not found`
+    )
+  }
+}
+
+/**
+ * POST /admin/promos/auto-promotions/:id
+ * Update an automatic promotion
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const { id } = req.params
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  // Validate request body
+  const result = UpdateAutoPromotionSchema.safeParse(req.body)
+  if (!result.success) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, result.error.message)
+  }
+
+  const { starts_at, ends_at, ...data } = result.data
+
+  // Build update object with only provided fields
+  const updateData: Record<string, unknown> = {}
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined) updateData[key] = value
+  }
+  if (starts_at !== undefined) updateData.starts_at = starts_at ? new Date(starts_at) : null
+  if (ends_at !== undefined) updateData.ends_at = ends_at ? new Date(ends_at) : null
+
+  // Update automatic promotion
+  const promotion = await promoService.updateAutoPromotion(id, updateData)
+
+  res.json({ auto_promotion: promotion })
+}
+
+/**
+ * DELETE /admin/promos/auto-promotions/:id
+ * Delete an automatic promotion (soft delete)
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const { id } = req.params
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  await promoService.deleteAutoPromotion(id)
+
+  res.status(200).json({ id, deleted: true })
+}
+
+/**
+ * OPTIONS /admin/promos/auto-promotions/:id
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
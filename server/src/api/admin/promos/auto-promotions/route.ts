@@ -0,0 +1,132 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../../../../modules/promo"
+import type PromoModuleService from "../../../../modules/promo/services/promo"
+import { CreateAutoPromotionSchema, ListQuerySchema } from "../schemas"
+
+/**
+ * GET /admin/promos/auto-promotions
+ * List automatic promotions with pagination and filtering
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  // Parse query params
+  const queryResult = ListQuerySchema.safeParse(req.query)
+  if (!queryResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      queryResult.error.message
+    )
+  }
+
+  const { limit, offset, status, q } = queryResult.data
+
+  // Build filters
+  const filters: Record<string, unknown> = {}
+  if (status) {
+    filters.status = status
+  }
+
+  // Get automatic promotions
+  const [promotions, count] = await Promise.all([
+    promoService.listAutoPromotions(filters, {
+      skip: offset,
+      take: limit,
+      order: { priority: "DESC", created_at: "DESC" },
+    }),
+    promoService.listAutoPromotions(filters, {}),
+  ])
+
+  // Filter by search query if provided
+  let filteredPromotions = promotions
+  if (q) {
+    const searchLower = q.toLowerCase()
+    filteredPromotions = promotions.filter(
+      (p) =>
+        p.name.toLowerCase().includes(searchLower) ||
+        (p.description || "").toLowerCase().includes(searchLower)
+    )
+  }
+
+  res.json({
+    auto_promotions: filteredPromotions,
+    count: count.length,
+    limit,
+    offset,
+  })
+}
+
+/**
+ * POST /admin/promos/auto-promotions
+ * Create an automatic promotion
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  // Validate request body
+  const result = CreateAutoPromotionSchema.safeParse(req.body)
+  if (!result.success) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, result.error.message)
+  }
+
+  const data = result.data
+
+  // Create automatic promotion
+  const promotion = await promoService.createAutoPromotion({
+    name: data.name,
+    description: data.description,
+    type: data.type,
+    status: data.status,
+    starts_at: data.starts_at ? new Date(data.starts_at) : null,
+    ends_at: data.ends_at ? new Date(data.ends_at) : null,
+    priority: data.priority,
+    min_subtotal: data.min_subtotal,
+    buy_quantity: data.buy_quantity,
+    get_quantity: data.get_quantity,
+    product_ids: data.product_ids,
+    category_ids: data.category_ids,
+    discount_type: data.discount_type,
+    discount_value: data.discount_value,
+    max_discount_amount: data.max_discount_amount,
+    exclusive: data.exclusive,
+    combine_with_coupons: data.combine_with_coupons,
+    combine_with_pwp: data.combine_with_pwp,
+    combine_with_membership_promos: data.combine_with_membership_promos,
+    combine_with_points: data.combine_with_points,
+    metadata: data.metadata,
+  })
+
+  res.status(201).json({ auto_promotion: promotion })
+}
+
+/**
+ * OPTIONS /admin/promos/auto-promotions
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -0,0 +1,82 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../../../../../../modules/promo"
+import type PromoModuleService from "../../../../../../modules/promo/services/promo"
+
+/**
+ * Escape CSV value to handle special characters
+ */
+function escapeCSVValue(value: string): string {
+  if (value.includes(",") || value.includes('"') || value.includes("\n")) {
+    return `"${value.replace(/"/g, '""')}"`
+  }
+  return value
+}
+
+/**
+ * GET /admin/promos/batches/:id/export
+ * Export the codes of a coupon batch to CSV
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const { id } = req.params
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  let batch: Awaited<ReturnType<PromoModuleService["retrieveCouponBatch"]>>
+  try {
+    batch = await promoService.retrieveCouponBatch(id)
+  } catch (error) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Coupon batch with id ${id} not found`
+    )
+  }
+
+  const coupons = await promoService.listCoupons(
+    { batch_id: id },
+    {
+      select: ["code", "status", "usage_count", "usage_limit"],
+      order: { code: "ASC" },
+    }
+  )
+
+  const headers = ["Code", "Status", "Times Used", "Usage Limit", "Redeemed"]
+  const rows = coupons.map((coupon) => [
+    coupon.code,
+    coupon.status,
+    String(coupon.usage_count || 0),
+    coupon.usage_limit !== null ? String(coupon.usage_limit) : "",
+    (coupon.usage_count || 0) > 0 ? "Yes" : "No",
+  ])
+
+  const csvContent = [
+    headers.map(escapeCSVValue).join(","),
+    ...rows.map((row) => row.map(escapeCSVValue).join(",")),
+  ].join("\n")
+
+  const filename = `coupon-batch-${batch.prefix || batch.id}.csv`
+
+  res.setHeader("Content-Type", "text/csv; charset=utf-8")
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`)
+  res.send(csvContent)
+}
+
+/**
+ * OPTIONS /admin/promos/batches/:id/export
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -0,0 +1,68 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../../../../../modules/promo"
+import type PromoModuleService from "../../../../../modules/promo/services/promo"
+
+/**
+ * GET /admin/promos/batches/:id
+ * Get a coupon batch with its redemption stats
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const { id } = req.params
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  try {
+    const batch = await promoService.retrieveCouponBatch(id)
+    const [stats] = await promoService.getCouponBatchStats([id])
+    res.json({ batch: { ...batch, stats: stats ?? null } })
+  } catch (error) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Coupon batch with id ${id} not found`
+    )
+  }
+}
+
+/**
+ * DELETE /admin/promos/batches/:id
+ * Delete a coupon batch and all of its generated codes (soft delete)
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const { id } = req.params
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  await promoService.deleteCouponBatch(id)
+
+  res.status(200).json({ id, deleted: true })
+}
+
+/**
+ * OPTIONS /admin/promos/batches/:id
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -0,0 +1,89 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../../../../modules/promo"
+import type PromoModuleService from "../../../../modules/promo/services/promo"
+import { CreateCouponBatchSchema } from "../schemas"
+
+/**
+ * GET /admin/promos/batches
+ * List coupon batches with their redemption stats
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  const [batches, stats] = await Promise.all([
+    promoService.listCouponBatches({}, { order: { created_at: "DESC" } }),
+    promoService.getCouponBatchStats(),
+  ])
+
+  const statsByBatch = new Map(stats.map((s) => [s.batch_id, s]))
+
+  res.json({
+    batches: batches.map((batch) => ({
+      ...batch,
+      stats: statsByBatch.get(batch.id) ?? null,
+    })),
+    count: batches.length,
+  })
+}
+
+/**
+ * POST /admin/promos/batches
+ * Create a coupon batch and generate its unique codes
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+  const logger = req.scope.resolve("logger")
+
+  // Validate request body
+  const result = CreateCouponBatchSchema.safeParse(req.body)
+  if (!result.success) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, result.error.message)
+  }
+
+  const data = result.data
+
+  const { batch, codes } = await promoService.generateCouponBatch({
+    ...data,
+    starts_at: data.starts_at ? new Date(data.starts_at) : null,
+    ends_at: data.ends_at ? new Date(data.ends_at) : null,
+  })
+
+  logger.info(`[COUPON] Generated ${codes.length} codes for batch ${batch.id} (${batch.prefix})`)
+
+  res.status(201).json({
+    batch,
+    generated: codes.length,
+  })
+}
+
+/**
+ * OPTIONS /admin/promos/batches
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
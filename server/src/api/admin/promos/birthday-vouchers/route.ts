@@ -0,0 +1,74 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import type { ICustomerModuleService } from "@medusajs/framework/types"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../../../../modules/promo"
+import type PromoModuleService from "../../../../modules/promo/services/promo"
+import { BirthdayVoucherReportQuerySchema } from "../schemas"
+
+/**
+ * GET /admin/promos/birthday-vouchers
+ * Birthday vouchers issued in a year and how many were redeemed
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  // Parse query params
+  const queryResult = BirthdayVoucherReportQuerySchema.safeParse(req.query)
+  if (!queryResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      queryResult.error.message
+    )
+  }
+
+  const year = queryResult.data.year ?? new Date().getFullYear()
+  const report = await promoService.getBirthdayVoucherReport(year)
+
+  // Add customer names and emails for display
+  const customerIds = Array.from(new Set(report.vouchers.map((v) => v.customer_id)))
+  const customerModuleService = req.scope.resolve<ICustomerModuleService>(Modules.CUSTOMER)
+  const customers = customerIds.length > 0
+    ? await customerModuleService.listCustomers(
+      { id: customerIds },
+      { select: ["id", "email", "first_name", "last_name"] }
+    )
+    : []
+  const customersById = new Map(customers.map((c) => [c.id, c]))
+
+  res.json({
+    report: {
+      ...report,
+      vouchers: report.vouchers.map((voucher) => {
+        const customer = customersById.get(voucher.customer_id)
+        return {
+          ...voucher,
+          customer_email: customer?.email ?? null,
+          customer_name: customer
+            ? [customer.first_name, customer.last_name].filter(Boolean).join(" ") || null
+            : null,
+        }
+      }),
+    },
+  })
+}
+
+/**
+ * OPTIONS /admin/promos/birthday-vouchers
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  _req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
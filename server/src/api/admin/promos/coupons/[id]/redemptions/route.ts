@@ -0,0 +1,70 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../../../../../../modules/promo"
+import type PromoModuleService from "../../../../../../modules/promo/services/promo"
+import { RedemptionListQuerySchema } from "../../../schemas"
+
+/**
+ * GET /admin/promos/coupons/:id/redemptions
+ * List redemptions of a coupon (who used it on which order)
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  // Custom auth check
+  const authContext = (req as any).auth_context
+  if (!authContext?.actor_id) {
+    res.status(401).json({ message: "Unauthorized" } as any)
+    return
+  }
+
+  const { id } = req.params
+  const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
+
+  const queryResult = RedemptionListQuerySchema.safeParse(req.query)
+  if (!queryResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      queryResult.error.message
+    )
+  }
+
+  const { limit, offset } = queryResult.data
+
+  try {
+    await promoService.retrieveCoupon(id)
+  } catch (error) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Coupon with id ${id} not found`
+    )
+  }
+
+  const [redemptions, count] = await promoService.listAndCountCouponRedemptions(
+    { coupon_id: id },
+    {
+      skip: offset,
+      take: limit,
+      order: { created_at: "DESC" },
+    }
+  )
+
+  res.json({
+    redemptions,
+    count,
+    limit,
+    offset,
+  })
+}
+
+/**
+ * OPTIONS /admin/promos/coupons/:id/redemptions
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -71,6 +71,18 @@ export const POST = async (
   if (data.starts_at !== undefined) updateData.starts_at = data.starts_at ? new Date(data.starts_at) : null
   if (data.ends_at !== undefined) updateData.ends_at = data.ends_at ? new Date(data.ends_at) : null
   if (data.usage_limit !== undefined) updateData.usage_limit = data.usage_limit
+  if (data.per_customer_limit !== undefined) updateData.per_customer_limit = data.per_customer_limit
+  if (data.first_order_only !== undefined) updateData.first_order_only = data.first_order_only
+  if (data.eligible_customer_groups !== undefined) updateData.eligible_customer_groups = data.eligible_customer_groups
+  if (data.eligible_tier_slugs !== undefined) updateData.eligible_tier_slugs = data.eligible_tier_slugs
+  if (data.min_subtotal !== undefined) updateData.min_subtotal = data.min_subtotal
+  if (data.max_discount_amount !== undefined) updateData.max_discount_amount = data.max_discount_amount
+  if (data.include_product_ids !== undefined) updateData.include_product_ids = data.include_product_ids
+  if (data.exclude_product_ids !== undefined) updateData.exclude_product_ids = data.exclude_product_ids
+  if (data.include_category_ids !== undefined) updateData.include_category_ids = data.include_category_ids
+  if (data.exclude_category_ids !== undefined) updateData.exclude_category_ids = data.exclude_category_ids
+  if (data.include_brand_ids !== undefined) updateData.include_brand_ids = data.include_brand_ids
+  if (data.exclude_brand_ids !== undefined) updateData.exclude_brand_ids = data.exclude_brand_ids
   if (data.metadata !== undefined) updateData.metadata = data.metadata
 
   // Update coupon
@@ -30,10 +30,12 @@ export const GET = async (
     )
   }
 
-  const { limit, offset, status, type, q } = queryResult.data
+  const { limit, offset, status, type, q, batch_id } = queryResult.data
 
   // Build filters
-  const filters: Record<string, unknown> = {}
+  // Generated batch codes are only listed when a batch is requested, and
+  // personal coupons (birthday vouchers) have their own report
+  const filters: Record<string, unknown> = { batch_id: batch_id ?? null, customer_id: null }
   if (status) {
     filters.status = status
   }
@@ -106,6 +108,18 @@ export const POST = async (
     starts_at: data.starts_at ? new Date(data.starts_at) : null,
     ends_at: data.ends_at ? new Date(data.ends_at) : null,
     usage_limit: data.usage_limit,
+    per_customer_limit: data.per_customer_limit,
+    first_order_only: data.first_order_only,
+    eligible_customer_groups: data.eligible_customer_groups,
+    eligible_tier_slugs: data.eligible_tier_slugs,
+    min_subtotal: data.min_subtotal,
+    max_discount_amount: data.max_discount_amount,
+    include_product_ids: data.include_product_ids,
+    exclude_product_ids: data.exclude_product_ids,
+    include_category_ids: data.include_category_ids,
+    exclude_category_ids: data.exclude_category_ids,
+    include_brand_ids: data.include_brand_ids,
+    exclude_brand_ids: data.exclude_brand_ids,
     metadata: data.metadata,
   })
 
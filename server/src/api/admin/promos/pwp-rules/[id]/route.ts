@@ -66,10 +66,15 @@ export const POST = async (
   if (data.rule_description !== undefined) updateData.rule_description = data.rule_description
   if (data.trigger_type !== undefined) updateData.trigger_type = data.trigger_type
   if (data.trigger_product_id !== undefined) updateData.trigger_product_id = data.trigger_product_id
+  if (data.trigger_product_ids !== undefined) updateData.trigger_product_ids = data.trigger_product_ids
+  if (data.trigger_match !== undefined) updateData.trigger_match = data.trigger_match
   if (data.trigger_cart_value !== undefined) updateData.trigger_cart_value = data.trigger_cart_value
   if (data.reward_product_id !== undefined) updateData.reward_product_id = data.reward_product_id
+  if (data.reward_product_ids !== undefined) updateData.reward_product_ids = data.reward_product_ids
   if (data.reward_type !== undefined) updateData.reward_type = data.reward_type
   if (data.reward_value !== undefined) updateData.reward_value = data.reward_value
+  if (data.reward_tiers !== undefined) updateData.reward_tiers = data.reward_tiers
+  if (data.max_reward_quantity !== undefined) updateData.max_reward_quantity = data.max_reward_quantity
   if (data.status !== undefined) updateData.status = data.status
   if (data.starts_at !== undefined) updateData.starts_at = data.starts_at ? new Date(data.starts_at) : null
   if (data.ends_at !== undefined) updateData.ends_at = data.ends_at ? new Date(data.ends_at) : null
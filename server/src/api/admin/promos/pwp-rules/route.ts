@@ -98,10 +98,15 @@ export const POST = async (
     rule_description: data.rule_description,
     trigger_type: data.trigger_type,
     trigger_product_id: data.trigger_product_id,
+    trigger_product_ids: data.trigger_product_ids,
+    trigger_match: data.trigger_match,
     trigger_cart_value: data.trigger_cart_value,
     reward_product_id: data.reward_product_id,
+    reward_product_ids: data.reward_product_ids,
     reward_type: data.reward_type,
     reward_value: data.reward_value,
+    reward_tiers: data.reward_tiers,
+    max_reward_quantity: data.max_reward_quantity,
     status: data.status,
     starts_at: data.starts_at ? new Date(data.starts_at) : null,
     ends_at: data.ends_at ? new Date(data.ends_at) : null,
@@ -49,6 +49,47 @@ export const CreateCouponSchema = z.object({
     .nullable()
     .optional()
     .describe("Maximum usage count"),
+  per_customer_limit: z
+    .number()
+    .int()
+    .positive()
+    .nullable()
+    .optional()
+    .describe("Maximum uses per customer (or per email for guests)"),
+  first_order_only: z
+    .boolean()
+    .default(false)
+    .describe("Only valid on the customer's first order"),
+  eligible_customer_groups: z
+    .array(z.enum(["retail", "bulk", "vip", "supplier"]))
+    .nullable()
+    .optional()
+    .describe("Customer roles allowed to use the coupon (empty = all)"),
+  eligible_tier_slugs: z
+    .array(z.string().min(1))
+    .nullable()
+    .optional()
+    .describe("Membership tier slugs allowed to use the coupon (empty = all)"),
+  min_subtotal: z
+    .number()
+    .int()
+    .min(0)
+    .nullable()
+    .optional()
+    .describe("Minimum cart subtotal in cents"),
+  max_discount_amount: z
+    .number()
+    .int()
+    .positive()
+    .nullable()
+    .optional()
+    .describe("Maximum discount in cents (percentage coupons)"),
+  include_product_ids: z.array(z.string().min(1)).nullable().optional().describe("Only these products are discounted"),
+  exclude_product_ids: z.array(z.string().min(1)).nullable().optional().describe("These products are never discounted"),
+  include_category_ids: z.array(z.string().min(1)).nullable().optional().describe("Only products in these categories are discounted"),
+  exclude_category_ids: z.array(z.string().min(1)).nullable().optional().describe("Products in these categories are never discounted"),
+  include_brand_ids: z.array(z.string().min(1)).nullable().optional().describe("Only products of these brands are discounted"),
+  exclude_brand_ids: z.array(z.string().min(1)).nullable().optional().describe("Products of these brands are never discounted"),
   metadata: z.record(z.string(), z.unknown()).nullable().optional().describe("Additional data"),
 })
 
@@ -62,11 +103,86 @@ export const UpdateCouponSchema = z.object({
   starts_at: z.string().datetime().nullable().optional().describe("Start date"),
   ends_at: z.string().datetime().nullable().optional().describe("End date"),
   usage_limit: z.number().int().positive().nullable().optional().describe("Max uses"),
+  per_customer_limit: z.number().int().positive().nullable().optional().describe("Max uses per customer"),
+  first_order_only: z.boolean().optional().describe("First order only"),
+  eligible_customer_groups: z
+    .array(z.enum(["retail", "bulk", "vip", "supplier"]))
+    .nullable()
+    .optional()
+    .describe("Eligible customer roles"),
+  eligible_tier_slugs: z.array(z.string().min(1)).nullable().optional().describe("Eligible tier slugs"),
+  min_subtotal: z.number().int().min(0).nullable().optional().describe("Minimum subtotal"),
+  max_discount_amount: z.number().int().positive().nullable().optional().describe("Max discount"),
+  include_product_ids: z.array(z.string().min(1)).nullable().optional().describe("Included products"),
+  exclude_product_ids: z.array(z.string().min(1)).nullable().optional().describe("Excluded products"),
+  include_category_ids: z.array(z.string().min(1)).nullable().optional().describe("Included categories"),
+  exclude_category_ids: z.array(z.string().min(1)).nullable().optional().describe("Excluded categories"),
+  include_brand_ids: z.array(z.string().min(1)).nullable().optional().describe("Included brands"),
+  exclude_brand_ids: z.array(z.string().min(1)).nullable().optional().describe("Excluded brands"),
   metadata: z.record(z.string(), z.unknown()).nullable().optional().describe("Additional data"),
 })
 
+// ============ Coupon Batch Schemas ============
+
+/**
+ * Generated codes share every coupon setting except the code itself;
+ * usage_limit_per_code replaces usage_limit (1 = single-use codes)
+ */
+export const CreateCouponBatchSchema = CreateCouponSchema.omit({
+  code: true,
+  usage_limit: true,
+}).extend({
+  prefix: z
+    .string()
+    .max(20)
+    .regex(/^[A-Za-z0-9]*$/, "Prefix may only contain letters and numbers")
+    .default("")
+    .describe("Code prefix, e.g. FROZEN -> FROZEN-XXXX"),
+  code_length: z
+    .number()
+    .int()
+    .min(4)
+    .max(20)
+    .default(8)
+    .describe("Length of the random part of each code"),
+  alphabet: z
+    .string()
+    .regex(/^[A-Za-z0-9]+$/, "Alphabet may only contain letters and numbers")
+    .refine((value) => new Set(value.toUpperCase()).size >= 2, "Alphabet needs at least 2 distinct characters")
+    .default("ABCDEFGHJKLMNPQRSTUVWXYZ23456789")
+    .describe("Characters used for the random part (default omits 0/O and 1/I)"),
+  quantity: z
+    .number()
+    .int()
+    .min(1)
+    .max(10000)
+    .describe("Number of codes to generate"),
+  usage_limit_per_code: z
+    .number()
+    .int()
+    .positive()
+    .default(1)
+    .describe("Maximum uses of each generated code"),
+})
+
 // ============ PWP Rule Schemas ============
 
+const PWPRewardTierSchema = z.object({
+  min_cart_value: z
+    .number()
+    .int()
+    .min(0)
+    .describe("Cart value (in cents, excluding PWP items) that unlocks this tier"),
+  reward_type: z
+    .enum(["percentage", "fixed"])
+    .default("percentage")
+    .describe("Reward discount type for this tier"),
+  reward_value: z
+    .number()
+    .min(0)
+    .describe("Discount on reward product for this tier"),
+})
+
 export const CreatePWPRuleSchema = z.object({
   name: z
     .string()
@@ -87,6 +203,15 @@ export const CreatePWPRuleSchema = z.object({
     .nullable()
     .optional()
     .describe("Product ID that triggers the rule"),
+  trigger_product_ids: z
+    .array(z.string())
+    .nullable()
+    .optional()
+    .describe("Additional products that trigger the rule"),
+  trigger_match: z
+    .enum(["any", "all"])
+    .default("any")
+    .describe("Whether any or all trigger products must be in the cart"),
   trigger_cart_value: z
     .number()
     .min(0)
@@ -107,6 +232,23 @@ export const CreatePWPRuleSchema = z.object({
     .min(0)
     .default(0)
     .describe("Discount on reward product"),
+  reward_product_ids: z
+    .array(z.string())
+    .nullable()
+    .optional()
+    .describe("Additional reward products the customer can choose from"),
+  reward_tiers: z
+    .array(PWPRewardTierSchema)
+    .nullable()
+    .optional()
+    .describe("Stepped thresholds - the highest tier reached by the cart value applies"),
+  max_reward_quantity: z
+    .number()
+    .int()
+    .positive()
+    .nullable()
+    .optional()
+    .describe("Maximum reward items per order (defaults to 1)"),
   status: z
     .enum(["active", "non-active"])
     .default("active")
@@ -122,10 +264,15 @@ export const UpdatePWPRuleSchema = z.object({
   rule_description: z.string().min(1).max(500).optional().describe("Description"),
   trigger_type: z.enum(["product", "cart_value"]).optional().describe("Trigger type"),
   trigger_product_id: z.string().nullable().optional().describe("Trigger product"),
+  trigger_product_ids: z.array(z.string()).nullable().optional().describe("Additional trigger products"),
+  trigger_match: z.enum(["any", "all"]).optional().describe("Trigger product match"),
   trigger_cart_value: z.number().min(0).nullable().optional().describe("Trigger cart value"),
   reward_product_id: z.string().nullable().optional().describe("Reward product"),
+  reward_product_ids: z.array(z.string()).nullable().optional().describe("Additional reward products"),
   reward_type: z.enum(["percentage", "fixed"]).optional().describe("Reward type"),
   reward_value: z.number().min(0).optional().describe("Reward value"),
+  reward_tiers: z.array(PWPRewardTierSchema).nullable().optional().describe("Stepped thresholds"),
+  max_reward_quantity: z.number().int().positive().nullable().optional().describe("Max reward items per order"),
   status: z.enum(["active", "non-active"]).optional().describe("Rule status"),
   starts_at: z.string().datetime().nullable().optional().describe("Start date"),
   ends_at: z.string().datetime().nullable().optional().describe("End date"),
@@ -133,6 +280,117 @@ export const UpdatePWPRuleSchema = z.object({
   metadata: z.record(z.string(), z.unknown()).nullable().optional().describe("Additional data"),
 })
 
+// ============ Automatic Promotion Schemas ============
+
+const AutoPromotionTypeSchema = z.enum(["buy_x_get_y", "spend_threshold", "category_sale", "free_shipping"])
+
+export const CreateAutoPromotionSchema = z
+  .object({
+    name: z
+      .string()
+      .min(1, "Name is required")
+      .max(255)
+      .describe("Internal name"),
+    description: z
+      .string()
+      .max(500)
+      .nullable()
+      .optional()
+      .describe("Customer-facing explanation shown in the cart"),
+    type: AutoPromotionTypeSchema.describe("Promotion type"),
+    status: z
+      .enum(["active", "non-active"])
+      .default("active")
+      .describe("Promotion status"),
+    starts_at: z.string().datetime().nullable().optional().describe("Start date"),
+    ends_at: z.string().datetime().nullable().optional().describe("End date"),
+    priority: z
+      .number()
+      .int()
+      .default(0)
+      .describe("Higher priority promotions are evaluated first"),
+    min_subtotal: z
+      .number()
+      .int()
+      .min(0)
+      .nullable()
+      .optional()
+      .describe("Qualifying subtotal in cents required (spend threshold / free shipping)"),
+    buy_quantity: z
+      .number()
+      .int()
+      .positive()
+      .nullable()
+      .optional()
+      .describe("Buy X (buy_x_get_y)"),
+    get_quantity: z
+      .number()
+      .int()
+      .positive()
+      .nullable()
+      .optional()
+      .describe("Get Y (buy_x_get_y)"),
+    product_ids: z.array(z.string().min(1)).nullable().optional().describe("Qualifying products (empty = all)"),
+    category_ids: z.array(z.string().min(1)).nullable().optional().describe("Qualifying categories (empty = all)"),
+    discount_type: z
+      .enum(["percentage", "fixed"])
+      .default("percentage")
+      .describe("Discount type"),
+    discount_value: z
+      .number()
+      .min(0)
+      .default(0)
+      .describe("Discount value (percentage 0-100 or fixed amount in cents). For buy X get Y, 100% = free"),
+    max_discount_amount: z
+      .number()
+      .int()
+      .positive()
+      .nullable()
+      .optional()
+      .describe("Maximum discount in cents"),
+    exclusive: z
+      .boolean()
+      .default(false)
+      .describe("Blocks every other automatic promotion"),
+    combine_with_coupons: z.boolean().default(true).describe("Applies together with a coupon code"),
+    combine_with_pwp: z.boolean().default(true).describe("Applies while the cart has PWP items"),
+    combine_with_membership_promos: z.boolean().default(true).describe("Applies together with a membership promotion"),
+    combine_with_points: z.boolean().default(true).describe("Applies together with a points redemption"),
+    metadata: z.record(z.string(), z.unknown()).nullable().optional().describe("Additional data"),
+  })
+  .refine(
+    (data) => data.type !== "buy_x_get_y" || (data.buy_quantity && data.get_quantity),
+    { message: "Buy and get quantities are required for buy X get Y promotions", path: ["buy_quantity"] }
+  )
+  .refine(
+    (data) => data.type !== "category_sale" || (data.category_ids?.length || data.product_ids?.length),
+    { message: "Category sales need at least one category or product", path: ["category_ids"] }
+  )
+
+export const UpdateAutoPromotionSchema = z.object({
+  name: z.string().min(1).max(255).optional().describe("Internal name"),
+  description: z.string().max(500).nullable().optional().describe("Customer-facing explanation"),
+  type: AutoPromotionTypeSchema.optional().describe("Promotion type"),
+  status: z.enum(["active", "non-active"]).optional().describe("Promotion status"),
+  starts_at: z.string().datetime().nullable().optional().describe("Start date"),
+  ends_at: z.string().datetime().nullable().optional().describe("End date"),
+  priority: z.number().int().optional().describe("Evaluation priority"),
+  min_subtotal: z.number().int().min(0).nullable().optional().describe("Qualifying subtotal"),
+  buy_quantity: z.number().int().positive().nullable().optional().describe("Buy X"),
+  get_quantity: z.number().int().positive().nullable().optional().describe("Get Y"),
+  product_ids: z.array(z.string().min(1)).nullable().optional().describe("Qualifying products"),
+  category_ids: z.array(z.string().min(1)).nullable().optional().describe("Qualifying categories"),
+  discount_type: z.enum(["percentage", "fixed"]).optional().describe("Discount type"),
+  discount_value: z.number().min(0).optional().describe("Discount value"),
+  max_discount_amount: z.number().int().positive().nullable().optional().describe("Max discount"),
+  exclusive: z.boolean().optional().describe("Exclusive"),
+  combine_with_coupons: z.boolean().optional().describe("Combines with coupons"),
+  combine_with_pwp: z.boolean().optional().describe("Combines with PWP"),
+  combine_with_membership_promos: z.boolean().optional().describe("Combines with membership promotions"),
+  combine_with_points: z.boolean().optional().describe("Combines with points"),
+  metadata: z.record(z.string(), z.unknown()).nullable().optional().describe("Additional data"),
+})
+
 // ============ Query Schemas ============
 
 export const ListQuerySchema = z.object({
@@ -141,12 +399,27 @@ export const ListQuerySchema = z.object({
   status: z.enum(["active", "non-active"]).optional().describe("Filter by status"),
   type: z.enum(["percentage", "fixed"]).optional().describe("Filter by type"),
   q: z.string().optional().describe("Search query"),
+  batch_id: z.string().optional().describe("List the codes of a coupon batch"),
+})
+
+export const RedemptionListQuerySchema = z.object({
+  limit: z.coerce.number().int().positive().default(20).describe("Items per page"),
+  offset: z.coerce.number().int().min(0).default(0).describe("Offset for pagination"),
+})
+
+export const BirthdayVoucherReportQuerySchema = z.object({
+  year: z.coerce.number().int().min(2000).max(2100).optional().describe("Report year, defaults to the current year"),
 })
 
 // ============ Types ============
 
 export type CreateCouponInput = z.infer<typeof CreateCouponSchema>
 export type UpdateCouponInput = z.infer<typeof UpdateCouponSchema>
+export type CreateCouponBatchInput = z.infer<typeof CreateCouponBatchSchema>
 export type CreatePWPRuleInput = z.infer<typeof CreatePWPRuleSchema>
 export type UpdatePWPRuleInput = z.infer<typeof UpdatePWPRuleSchema>
+export type CreateAutoPromotionInput = z.infer<typeof CreateAutoPromotionSchema>
+export type UpdateAutoPromotionInput = z.infer<typeof UpdateAutoPromotionSchema>
 export type ListQueryInput = z.infer<typeof ListQuerySchema>
+export type RedemptionListQueryInput = z.infer<typeof RedemptionListQuerySchema>
+export type BirthdayVoucherReportQueryInput = z.infer<typeof BirthdayVoucherReportQuerySchema>
@@ -0,0 +1,77 @@
+import { MedusaError, Modules } from "@medusajs/framework/utils";
+import { RETURN_MODULE } from "../../../../../modules/return";
+import { withAdminAuth } from "../../../../../utils/admin-auth";
+import { formatInspection, inspectReturnItems } from "../../../../../utils/return-inspection";
+import { InspectReturnSchema } from "../../schemas";
+
+/**
+ * GET /admin/returns/:id/inspection
+ * Get inspection results of a return and the stock locations items can be restocked to
+ */
+export const GET = withAdminAuth(async (req, res) => {
+  const returnService = req.scope.resolve(RETURN_MODULE) as any;
+  const stockLocationModule = req.scope.resolve(Modules.STOCK_LOCATION);
+  const { id } = req.params;
+
+  const [inspections, stockLocations] = await Promise.all([
+    returnService.getInspectionsByReturnId(id),
+    stockLocationModule.listStockLocations({}, { select: ["id", "name"] }),
+  ]);
+
+  res.json({
+    inspections: inspections.map(formatInspection),
+    stock_locations: stockLocations.map((location) => ({
+      id: location.id,
+      name: location.name,
+    })),
+  });
+});
+
+/**
+ * POST /admin/returns/:id/inspection
+ * Record inspection results for returned items
+ * Starts the inspection for received returns. Restocked units are added to
+ * inventory at the given stock location; spoiled units are written off.
+ */
+export const POST = withAdminAuth(async (req, res) => {
+  const returnService = req.scope.resolve(RETURN_MODULE) as any;
+  const { id } = req.params;
+
+  const validationResult = InspectReturnSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      validationResult.error.message
+    );
+  }
+
+  const returns = await returnService.listReturns({ id });
+  if (!returns || returns.length === 0) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Return with id ${id} not found`
+    );
+  }
+
+  try {
+    const result = await inspectReturnItems(req.scope, returns[0], {
+      ...validationResult.data,
+      inspected_by: req.auth_context.actor_id,
+    });
+
+    const returnRequest = await returnService.getReturn(id);
+
+    res.json({
+      success: true,
+      return: returnRequest,
+      inspections: result.inspections.map(formatInspection),
+      restocked_units: result.restocked_units,
+      restock_errors: result.restock_errors,
+    });
+  } catch (error: any) {
+    if (error instanceof MedusaError) {
+      throw error;
+    }
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, error.message);
+  }
+});
@@ -0,0 +1,33 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import { RETURN_MODULE } from "../../../../../modules/return";
+import { withAdminAuth } from "../../../../../utils/admin-auth";
+import { AdjustRefundAmountSchema } from "../../schemas";
+
+/**
+ * POST /admin/returns/:id/refund-amount
+ * Change the product refund of a return before it is fully refunded
+ * e.g. items came back thawed but usable and only part of their value is refunded
+ */
+export const POST = withAdminAuth(async (req, res) => {
+  const returnService = req.scope.resolve(RETURN_MODULE) as any;
+  const { id } = req.params;
+
+  const validationResult = AdjustRefundAmountSchema.safeParse(req.body);
+  if (!validationResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      validationResult.error.message
+    );
+  }
+
+  try {
+    const returnRequest = await returnService.adjustRefundAmount(id, validationResult.data);
+
+    res.json({
+      success: true,
+      return: returnRequest,
+    });
+  } catch (error: any) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, error.message);
+  }
+});
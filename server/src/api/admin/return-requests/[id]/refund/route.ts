@@ -1,56 +1,110 @@
-import type { MedusaResponse } from "@medusajs/framework/http";
-import { MedusaError, Modules, ContainerRegistrationKeys } from "@medusajs/framework/utils";
+import { MedusaError, ContainerRegistrationKeys } from "@medusajs/framework/utils";
+import { STRIPE_API_KEY } from "../../../../../lib/constants";
 import { RETURN_MODULE } from "../../../../../modules/return";
 import { POINTS_MODULE } from "../../../../../modules/points";
+import { ORDER_EXTENSION_MODULE } from "../../../../../modules/order-extension";
 import { withAdminAuth } from "../../../../../utils/admin-auth";
+import { ProcessRefundSchema } from "../../schemas";
 import Stripe from "stripe";
 
 /**
  * POST /admin/returns/:id/refund
- * Process refund via Stripe for a completed return
+ * Issue refund transactions for a completed return
+ *
+ * Body (optional):
+ * - refunds: [{ method: "card" | "store_credit", amount }] - at most one per method,
+ *   so a refund can be split between the card and store credit. Without it the
+ *   remaining refund is issued in full, as store credit for store_credit returns
+ *   and to the card otherwise.
+ * - note: stored on each refund transaction
+ *
+ * Can be called again until total_refund is covered. Points earned and redeemed
+ * on the order are adjusted once, by the first refund that goes out.
  */
 export const POST = withAdminAuth(async (req, res) => {
   const returnService = req.scope.resolve(RETURN_MODULE) as any;
   const pointsService = req.scope.resolve(POINTS_MODULE) as any;
+  const orderExtensionService = req.scope.resolve(ORDER_EXTENSION_MODULE) as any;
   const query = req.scope.resolve(ContainerRegistrationKeys.QUERY);
   const logger = req.scope.resolve("logger") as any;
   const { id } = req.params;
+  const adminId = req.auth_context.actor_id;
 
-  try {
-    // Get the return request
-    const returns = await returnService.listReturns({ id });
-    if (!returns || returns.length === 0) {
-      throw new MedusaError(
-        MedusaError.Types.NOT_FOUND,
-        `Return with id ${id} not found`
-      );
-    }
+  const validationResult = ProcessRefundSchema.safeParse(req.body || {});
+  if (!validationResult.success) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      validationResult.error.message
+    );
+  }
+  const body = validationResult.data;
 
-    const returnRequest = returns[0];
+  // Get the return request
+  const returns = await returnService.listReturns({ id });
+  if (!returns || returns.length === 0) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      `Return with id ${id} not found`
+    );
+  }
 
-    // Check if return is in a valid state for refund
-    if (returnRequest.status !== "completed") {
-      throw new MedusaError(
-        MedusaError.Types.INVALID_DATA,
-        "Return must be completed before processing refund"
-      );
-    }
+  const returnRequest = returns[0];
 
-    if (returnRequest.refund_status === "completed") {
-      throw new MedusaError(
-        MedusaError.Types.INVALID_DATA,
-        "Refund has already been processed"
-      );
-    }
+  // Check if return is in a valid state for refund
+  if (returnRequest.status !== "completed") {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      "Return must be completed before processing refund"
+    );
+  }
 
-    // Only process refund for refund type (not replacement)
-    if (returnRequest.return_type !== "refund") {
-      throw new MedusaError(
-        MedusaError.Types.INVALID_DATA,
-        "This return is for replacement, not refund"
-      );
-    }
+  if (returnRequest.refund_status === "completed") {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      "Refund has already been processed"
+    );
+  }
+
+  // Only process refund for refund and store credit types (not replacement)
+  if (returnRequest.return_type === "replacement") {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      "This return is for replacement, not refund"
+    );
+  }
+
+  const remaining = returnService.getRemainingRefund(returnRequest);
+  if (remaining <= 0) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      "Nothing left to refund on this return"
+    );
+  }
+
+  const refunds = body.refunds || [{
+    method: returnRequest.return_type === "store_credit" ? "store_credit" as const : "card" as const,
+    amount: remaining,
+  }];
+
+  if (new Set(refunds.map((r) => r.method)).size !== refunds.length) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      "Use at most one refund per method"
+    );
+  }
+
+  const requestedTotal = refunds.reduce((sum, r) => sum + r.amount, 0);
+  if (requestedTotal > remaining) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      `Refund total ${requestedTotal} exceeds the remaining refund of ${remaining}`
+    );
+  }
 
+  // Card refunds need the captured Stripe payment - look it up before anything is issued
+  let stripe: Stripe | null = null;
+  let stripePayment: any = null;
+  if (refunds.some((r) => r.method === "card")) {
     // Get the order's payment collection using Query graph API (Medusa 2.x pattern)
     const { data: ordersWithPayments } = await query.graph({
       entity: "order",
@@ -67,25 +121,9 @@ export const POST = withAdminAuth(async (req, res) => {
       ],
     });
 
-    if (!ordersWithPayments || ordersWithPayments.length === 0) {
-      throw new MedusaError(
-        MedusaError.Types.NOT_FOUND,
-        "Order not found"
-      );
-    }
-
-    const orderWithPayments = ordersWithPayments[0] as any;
-    const paymentCollections = orderWithPayments.payment_collections || [];
-
-    if (paymentCollections.length === 0) {
-      throw new MedusaError(
-        MedusaError.Types.NOT_FOUND,
-        "No payment collection found for this order"
-      );
-    }
+    const paymentCollections = (ordersWithPayments[0] as any)?.payment_collections || [];
 
     // Find the successful Stripe payment across all collections
-    let stripePayment: any = null;
     for (const collection of paymentCollections) {
       const payments = collection.payments || [];
       stripePayment = payments.find(
@@ -102,62 +140,113 @@ export const POST = withAdminAuth(async (req, res) => {
       );
     }
 
-    // Update refund status to processing
-    await returnService.updateRefundStatus(id, "processing");
+    if (!(stripePayment.data as any)?.id) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        "Could not find Stripe payment intent ID"
+      );
+    }
 
-    // Initialize Stripe
-    const stripeApiKey = process.env.STRIPE_API_KEY;
-    if (!stripeApiKey) {
-      await returnService.updateRefundStatus(id, "failed");
+    if (!STRIPE_API_KEY) {
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
         "Stripe API key not configured"
       );
     }
 
-    const stripe = new Stripe(stripeApiKey, {
+    stripe = new Stripe(STRIPE_API_KEY, {
       // @ts-ignore - Using latest Stripe API version
       apiVersion: "2024-12-18.acacia",
     });
+  }
+
+  const issued: Array<{
+    id: string;
+    method: "card" | "store_credit";
+    amount: number;
+    stripe_refund_id?: string;
+    points_credited?: number;
+  }> = [];
 
-    // Get the payment intent ID from the payment data
-    const paymentData = stripePayment.data as any;
-    const paymentIntentId = paymentData?.id;
+  for (const refund of refunds) {
+    const transaction = await returnService.startRefund(id, {
+      method: refund.method,
+      amount: refund.amount,
+      note: body.note,
+      created_by: adminId,
+    });
+
+    // Issue the money or points - a failure here means nothing went out
+    let completion: { stripe_refund_id?: string; points_credited?: number };
+    try {
+      if (refund.method === "card") {
+        const stripeRefund = await stripe!.refunds.create(
+          {
+            payment_intent: (stripePayment.data as any).id,
+            amount: refund.amount, // Amount in cents
+            reason: "requested_by_customer",
+            metadata: {
+              return_id: returnRequest.id,
+              order_id: returnRequest.order_id,
+              return_reason: returnRequest.reason,
+              return_refund_id: transaction.id,
+            },
+          },
+          { idempotencyKey: transaction.id }
+        );
+        completion = { stripe_refund_id: stripeRefund.id };
+      } else {
+        const credit = await pointsService.creditStoreCredit({
+          customer_id: returnRequest.customer_id,
+          order_id: returnRequest.order_id,
+          return_id: returnRequest.id,
+          amount: refund.amount,
+          admin_id: adminId,
+        });
+        completion = { points_credited: credit.points_credited };
+      }
+    } catch (error: any) {
+      await returnService.failRefund(transaction.id, error.message);
 
-    if (!paymentIntentId) {
-      await returnService.updateRefundStatus(id, "failed");
+      const issuedNote = issued.length > 0
+        ? ` (${issued.map((i) => `${i.method} ${i.amount}`).join(", ")} already issued)`
+        : "";
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
-        "Could not find Stripe payment intent ID"
+        `Refund failed: ${error.message}${issuedNote}`
       );
     }
 
-    // Create the refund in Stripe
-    // Use refund_amount + shipping_refund to ensure consistency with displayed values
-    // This avoids issues with legacy returns that may have stored incorrect total_refund values
-    const refundAmount = Number(returnRequest.refund_amount) + Number(returnRequest.shipping_refund || 0);
-
-    const stripeRefund = await stripe.refunds.create({
-      payment_intent: paymentIntentId,
-      amount: refundAmount, // Amount in cents
-      reason: "requested_by_customer",
-      metadata: {
-        return_id: returnRequest.id,
-        order_id: returnRequest.order_id,
-        return_reason: returnRequest.reason,
-      },
-    });
+    // The refund went out, so it is never marked failed and refunded again. If
+    // recording it fails, say how far the recording got
+    try {
+      await returnService.completeRefund(transaction.id, completion);
+    } catch (error: any) {
+      const reference = completion.stripe_refund_id || `${completion.points_credited} points`;
+      logger.error(
+        `[REFUND] ${refund.method} refund ${transaction.id} for return ${id} was issued (${reference}) ` +
+        `but could not be recorded: ${error.message}`
+      );
 
-    // Update the return with refund info
-    await returnService.updateReturns({
-      id: returnRequest.id,
-      refund_status: "completed",
-      stripe_refund_id: stripeRefund.id,
-      refunded_at: new Date(),
-    });
+      const recorded = await returnService.retrieveReturnRefund(transaction.id).catch(() => null);
+      const state = recorded?.status === "pending"
+        ? `Transaction ${transaction.id} is left pending, still holding its amount`
+        : `Transaction ${transaction.id} is marked completed, but the return's refund totals may not include it yet`;
+      throw new MedusaError(
+        MedusaError.Types.UNEXPECTED_STATE,
+        `The ${refund.method} refund of ${refund.amount} was issued (${reference}) but could not be fully recorded. ` +
+        `${state} - do not refund it again.`
+      );
+    }
+
+    issued.push({ id: transaction.id, method: refund.method, amount: refund.amount, ...completion });
+    logger.info(`[REFUND] Issued ${refund.method} refund of ${refund.amount} for return ${id}`);
+  }
 
-    // Handle points adjustment for the return
-    let pointsResult = null;
+  // Handle points adjustment for the return, claimed once per return so
+  // concurrent refunds can't both adjust the points
+  let pointsResult = null;
+  if (await returnService.claimPointsAdjustment(id)) {
     try {
       // Get points earned from the original order
       const pointsEarned = await pointsService.getPointsEarnedFromOrder(
@@ -171,13 +260,6 @@ export const POST = withAdminAuth(async (req, res) => {
         returnRequest.order_id
       );
 
-      // Calculate proportional points to deduct based on return amount vs order total
-      // For full returns, deduct all earned points; for partial returns, calculate proportionally
-      const returnItems = returnRequest.items || [];
-      const returnItemsValue = returnItems.reduce((sum: number, item: any) => {
-        return sum + (Number(item.unit_price) || 0) * (Number(item.quantity) || 0);
-      }, 0);
-
       // For now, we deduct all points if any items are returned
       // In a more sophisticated implementation, you could calculate proportionally
       const pointsToDeduct = pointsEarned;
@@ -202,38 +284,43 @@ export const POST = withAdminAuth(async (req, res) => {
       // Log but don't fail the refund if points adjustment fails
       logger.error(`[REFUND] Error adjusting points for return ${id}: ${pointsError.message}`);
     }
+  }
 
-    // Get updated return
-    const updatedReturns = await returnService.listReturns({ id });
-    const updatedReturn = updatedReturns[0];
-
-    res.json({
-      success: true,
-      return: updatedReturn,
-      refund: {
-        id: stripeRefund.id,
-        amount: stripeRefund.amount,
-        status: stripeRefund.status,
-        currency: stripeRefund.currency,
-      },
-      points: pointsResult,
-    });
-  } catch (error: any) {
-    // If it's already a MedusaError, rethrow it
-    if (error instanceof MedusaError) {
-      throw error;
-    }
-
-    // Update status to failed if Stripe error
+  // Card refunds change what was paid - compare everything refunded to the card
+  // across the order's returns with the captured payment
+  let paymentStatus: string | null = null;
+  if (stripePayment) {
     try {
-      await returnService.updateRefundStatus(id, "failed");
-    } catch {
-      // Ignore errors from status update
-    }
+      const cardRefunded = await returnService.getRefundedAmountForOrder(returnRequest.order_id, "card");
+      paymentStatus = cardRefunded >= Number(stripePayment.amount) ? "refunded" : "partially_refunded";
 
-    throw new MedusaError(
-      MedusaError.Types.INVALID_DATA,
-      `Refund failed: ${error.message}`
-    );
+      const extension = await orderExtensionService.getByOrderId(returnRequest.order_id);
+      if (extension) {
+        await orderExtensionService.updateOrderExtensions({
+          id: extension.id,
+          payment_status: paymentStatus,
+        });
+      } else {
+        await orderExtensionService.createOrderExtensions({
+          order_id: returnRequest.order_id,
+          payment_status: paymentStatus,
+        });
+      }
+    } catch (extensionError: any) {
+      logger.error(`[REFUND] Error updating payment status for order ${returnRequest.order_id}: ${extensionError.message}`);
+    }
   }
+
+  // Get updated return
+  const updatedReturns = await returnService.listReturns({ id });
+  const updatedReturn = updatedReturns[0];
+
+  res.json({
+    success: true,
+    return: updatedReturn,
+    refunds: issued,
+    remaining_refund: returnService.getRemainingRefund(updatedReturn),
+    payment_status: paymentStatus,
+    points: pointsResult,
+  });
 });
@@ -3,6 +3,7 @@ import { Modules, MedusaError } from "@medusajs/framework/utils";
 import { RETURN_MODULE } from "../../../../modules/return";
 import { withAdminAuth } from "../../../../utils/admin-auth";
 import { formatCustomerName } from "../../../../utils/format-customer";
+import { formatInspection } from "../../../../utils/return-inspection";
 
 /**
  * GET /admin/returns/:id
@@ -22,10 +23,12 @@ export const GET = withAdminAuth(async (req, res) => {
     throw new MedusaError(MedusaError.Types.NOT_FOUND, "Return not found");
   }
 
-  // Get order and customer details
-  const [orders, customers] = await Promise.all([
+  // Get order, customer, refund transactions and inspection results
+  const [orders, customers, refunds, inspections] = await Promise.all([
     orderModule.listOrders({ id: returnRequest.order_id }),
     customerModule.listCustomers({ id: [returnRequest.customer_id] }),
+    returnService.getRefundsByReturnId(id),
+    returnService.getInspectionsByReturnId(id),
   ]);
 
   const order = orders[0];
@@ -61,10 +64,17 @@ export const GET = withAdminAuth(async (req, res) => {
       return_type: returnRequest.return_type,
       reason: returnRequest.reason,
       reason_details: returnRequest.reason_details,
+      evidence_urls: returnRequest.evidence_urls || [],
+      requested_by: returnRequest.requested_by,
       items: returnRequest.items || [],
       refund_amount: Number(returnRequest.refund_amount) || 0,
       shipping_refund: Number(returnRequest.shipping_refund) || 0,
       total_refund: Number(returnRequest.total_refund) || 0,
+      refunded_amount: Number(returnRequest.refunded_amount) || 0,
+      original_refund_amount: returnRequest.original_refund_amount != null
+        ? Number(returnRequest.original_refund_amount)
+        : null,
+      refund_adjustment_reason: returnRequest.refund_adjustment_reason,
       // Original order discount info
       original_order_total: Number(returnRequest.original_order_total) || 0,
       coupon_code: returnRequest.coupon_code,
@@ -84,6 +94,20 @@ export const GET = withAdminAuth(async (req, res) => {
       refund_status: returnRequest.refund_status,
       stripe_refund_id: returnRequest.stripe_refund_id,
       refunded_at: returnRequest.refunded_at,
+      refunds: refunds.map((refund: any) => ({
+        id: refund.id,
+        method: refund.method,
+        amount: Number(refund.amount) || 0,
+        status: refund.status,
+        stripe_refund_id: refund.stripe_refund_id,
+        points_credited: refund.points_credited,
+        note: refund.note,
+        failure_reason: refund.failure_reason,
+        created_by: refund.created_by,
+        processed_at: refund.processed_at,
+        created_at: refund.created_at,
+      })),
+      inspections: inspections.map(formatInspection),
       // Replacement order info
       replacement_order_id: returnRequest.replacement_order_id,
       replacement_created_at: returnRequest.replacement_created_at,
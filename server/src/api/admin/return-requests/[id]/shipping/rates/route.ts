@@ -1,50 +1,17 @@
 import type { MedusaResponse } from "@medusajs/framework/http";
 import { MedusaError, Modules } from "@medusajs/framework/utils";
+import {
+  COURIER_MODULE,
+  CourierApiError,
+  type CourierModuleService,
+  type CourierRate,
+} from "../../../../../../modules/courier";
 import { RETURN_MODULE } from "../../../../../../modules/return";
 import { SHIPPING_SETTINGS_MODULE } from "../../../../../../modules/shipping-settings";
 import { withAdminAuth } from "../../../../../../utils/admin-auth";
 
-/**
- * EasyParcel Rate Response Types
- */
-interface EasyParcelRate {
-  service_id: string;
-  service_name: string;
-  courier_id: string;
-  courier_name: string;
-  courier_logo: string;
-  price: number;
-  pickup_date: string;
-  delivery: string;
-  addon_cod: string;
-  addon_insurance: string;
-}
-
-interface EasyParcelRateCheckResult {
-  status: string;
-  remarks?: string;
-  rates?: EasyParcelRate[];
-}
-
-interface EasyParcelAPIResponse {
-  api_status: string;
-  error_code?: string | number;
-  error_remark?: string;
-  result?: EasyParcelRateCheckResult[];
-}
-
-interface FormattedRate {
-  service_id: string;
-  service_name: string;
-  courier_id: string;
-  courier_name: string;
-  courier_logo: string;
-  price: number;
+interface FormattedRate extends CourierRate {
   price_display: string;
-  pickup_date: string;
-  delivery_eta: string;
-  has_cod: boolean;
-  has_insurance: boolean;
 }
 
 /**
@@ -58,10 +25,10 @@ export const POST = withAdminAuth(async (req, res) => {
   const { id } = req.params;
   const body = req.body as { weight?: number } | undefined;
 
-  const apiKey = process.env.EASYPARCEL_API_KEY;
-  const useDemo = process.env.EASYPARCEL_USE_DEMO === "true";
+  const courierService = req.scope.resolve<CourierModuleService>(COURIER_MODULE);
+  const environment = courierService.getEnvironment();
 
-  if (!apiKey) {
+  if (!courierService.isConfigured()) {
     throw new MedusaError(
       MedusaError.Types.INVALID_DATA,
       "EasyParcel API key is not configured"
@@ -148,24 +115,11 @@ export const POST = withAdminAuth(async (req, res) => {
     );
   }
 
-  const baseUrl = useDemo
-    ? "http://demo.connect.easyparcel.sg"
-    : "http://connect.easyparcel.sg";
-
   try {
-    // For returns: pickup from customer (pick_code), deliver to warehouse (send_code)
+    // For returns: pickup from customer, deliver to warehouse
     const customerPostcode = customerAddress.postal_code || "";
     const warehousePostcode = warehouseSettings.sender_postcode;
 
-    // Build request with PHP-style array format
-    const params = new URLSearchParams();
-    params.append("api", apiKey);
-    params.append("bulk[0][pick_code]", customerPostcode); // Customer postcode (pickup)
-    params.append("bulk[0][pick_country]", "SG");
-    params.append("bulk[0][send_code]", warehousePostcode); // Warehouse postcode (delivery)
-    params.append("bulk[0][send_country]", "SG");
-    params.append("bulk[0][weight]", weight.toString());
-
     console.log("[EasyParcel Return Rates] Request params:", {
       pick_code: customerPostcode,
       send_code: warehousePostcode,
@@ -173,71 +127,35 @@ export const POST = withAdminAuth(async (req, res) => {
       calculated_weight: calculatedWeight,
     });
 
-    const response = await fetch(`${baseUrl}/?ac=EPRateCheckingBulk`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
-      },
-      body: params,
+    const result = await courierService.checkRates({
+      sender_postcode: customerPostcode,
+      sender_country: "SG",
+      receiver_postcode: warehousePostcode,
+      receiver_country: "SG",
+      weight,
     });
 
-    const data: EasyParcelAPIResponse = await response.json();
-
-    // Check for API errors
-    if (
-      data.api_status === "Error" ||
-      (data.error_code && data.error_code !== "0" && data.error_code !== 0)
-    ) {
-      throw new MedusaError(
-        MedusaError.Types.INVALID_DATA,
-        data.error_remark || "Failed to fetch rates from EasyParcel"
-      );
-    }
-
-    // Extract rates from result
-    const result = data.result?.[0];
-    if (!result || result.status !== "Success" || !result.rates) {
+    if (result.rates.length === 0) {
       res.json({
         success: true,
-        message: result?.remarks || "No rates available",
+        message: result.message || "No rates available",
         rates: [],
         return_id: id,
         weight,
         calculated_weight: calculatedWeight,
         customer_postcode: customerPostcode,
         warehouse_postcode: warehousePostcode,
-        environment: useDemo ? "demo" : "production",
+        environment,
       });
       return;
     }
 
-    // Filter out point-to-point services that require locker/dropoff selection
-    const filteredRates = result.rates.filter((rate) => {
-      const serviceName = rate.service_name.toLowerCase();
-      if (serviceName.includes("point to point") || serviceName.includes("dropoff")) {
-        return false;
-      }
-      return true;
-    });
-
     // Format rates for frontend
-    const formattedRates: FormattedRate[] = filteredRates.map((rate) => ({
-      service_id: rate.service_id,
-      service_name: rate.service_name,
-      courier_id: rate.courier_id,
-      courier_name: rate.courier_name,
-      courier_logo: rate.courier_logo,
-      price: parseFloat(rate.price.toString()),
-      price_display: `$${parseFloat(rate.price.toString()).toFixed(2)}`,
-      pickup_date: rate.pickup_date,
-      delivery_eta: rate.delivery,
-      has_cod: rate.addon_cod === "1",
-      has_insurance: rate.addon_insurance === "1",
+    const formattedRates: FormattedRate[] = result.rates.map((rate) => ({
+      ...rate,
+      price_display: `$${rate.price.toFixed(2)}`,
     }));
 
-    // Sort by price (lowest first)
-    formattedRates.sort((a, b) => a.price - b.price);
-
     res.json({
       success: true,
       rates: formattedRates,
@@ -259,11 +177,14 @@ export const POST = withAdminAuth(async (req, res) => {
         postcode: warehousePostcode,
         phone: warehouseSettings.sender_phone,
       },
-      environment: useDemo ? "demo" : "production",
+      environment,
     });
   } catch (error) {
-    if (error instanceof MedusaError) {
-      throw error;
+    if (error instanceof CourierApiError) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        error.message || "Failed to fetch rates from EasyParcel"
+      );
     }
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     throw new MedusaError(
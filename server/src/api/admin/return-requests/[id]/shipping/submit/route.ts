@@ -1,50 +1,15 @@
 import type { MedusaResponse } from "@medusajs/framework/http";
 import { MedusaError, Modules } from "@medusajs/framework/utils";
+import {
+  COURIER_MODULE,
+  CourierApiError,
+  type CourierModuleService,
+} from "../../../../../../modules/courier";
 import { RETURN_MODULE } from "../../../../../../modules/return";
 import { SHIPPING_SETTINGS_MODULE } from "../../../../../../modules/shipping-settings";
 import { EASYPARCEL_RETURN_MODULE } from "../../../../../../modules/easyparcel-return";
 import { withAdminAuth } from "../../../../../../utils/admin-auth";
 
-/**
- * Format and validate Malaysia phone number for EasyParcel
- */
-function formatMalaysiaPhone(phone: string): string | null {
-  if (!phone) return null;
-
-  // Remove all non-digit characters
-  let cleaned = phone.replace(/\D/g, "");
-
-  // Remove country code if present (60)
-  if (cleaned.startsWith("60") && cleaned.length > 9) {
-    cleaned = cleaned.slice(2);
-  }
-
-  // Remove leading 0 if present
-  if (cleaned.startsWith("0")) {
-    cleaned = cleaned.slice(1);
-  }
-
-  // Malaysia mobile numbers are 9-10 digits starting with 1
-  if ((cleaned.length === 9 || cleaned.length === 10) && cleaned.startsWith("1")) {
-    return cleaned;
-  }
-
-  // Malaysia landlines are 8-9 digits starting with 3, 4, 5, 6, 7, 8, 9
-  if ((cleaned.length === 8 || cleaned.length === 9) && /^[3-9]/.test(cleaned)) {
-    return cleaned;
-  }
-
-  // Return original cleaned number if it looks reasonable
-  if (cleaned.length >= 8 && cleaned.length <= 11) {
-    return cleaned;
-  }
-
-  return null;
-}
-
-// Alias for backward compatibility
-const formatSingaporePhone = formatMalaysiaPhone;
-
 interface SubmitRequest {
   service_id: string;
   service_name: string;
@@ -57,20 +22,6 @@ interface SubmitRequest {
   content?: string; // Package content description
 }
 
-interface EasyParcelSubmitResult {
-  status: string;
-  remarks?: string;
-  order_number?: string;
-  parcel_number?: string;
-}
-
-interface EasyParcelAPIResponse {
-  api_status: string;
-  error_code?: string | number;
-  error_remark?: string;
-  result?: EasyParcelSubmitResult[];
-}
-
 /**
  * POST /admin/return-requests/:id/shipping/submit
  * Submit return shipment to EasyParcel
@@ -87,10 +38,9 @@ export const POST = withAdminAuth(async (req, res) => {
     );
   }
 
-  const apiKey = process.env.EASYPARCEL_API_KEY;
-  const useDemo = process.env.EASYPARCEL_USE_DEMO === "true";
+  const courierService = req.scope.resolve<CourierModuleService>(COURIER_MODULE);
 
-  if (!apiKey) {
+  if (!courierService.isConfigured()) {
     throw new MedusaError(
       MedusaError.Types.INVALID_DATA,
       "EasyParcel API key is not configured"
@@ -155,8 +105,8 @@ export const POST = withAdminAuth(async (req, res) => {
   }
 
   // Validate phone numbers
-  const customerPhone = formatSingaporePhone(customerAddress.phone || "");
-  const warehousePhone = formatSingaporePhone(warehouseSettings.sender_phone);
+  const customerPhone = courierService.formatPhone(customerAddress.phone || "");
+  const warehousePhone = courierService.formatPhone(warehouseSettings.sender_phone);
 
   if (!customerPhone) {
     throw new MedusaError(
@@ -172,53 +122,9 @@ export const POST = withAdminAuth(async (req, res) => {
     );
   }
 
-  const baseUrl = useDemo
-    ? "http://demo.connect.easyparcel.sg"
-    : "http://connect.easyparcel.sg";
-
   try {
-    // Build request - For returns: sender is customer, receiver is warehouse
-    const params = new URLSearchParams();
-    params.append("api", apiKey);
-
-    // Sender (pickup) info - Customer address
+    // For returns: sender is customer, receiver is warehouse
     const customerName = `${customerAddress.first_name || ""} ${customerAddress.last_name || ""}`.trim();
-    params.append("bulk[0][pick_name]", customerName || "Customer");
-    params.append("bulk[0][pick_company]", "");
-    params.append("bulk[0][pick_contact]", customerPhone);
-    params.append("bulk[0][pick_mobile]", customerPhone);
-    params.append("bulk[0][pick_addr1]", customerAddress.address_1 || "");
-    params.append("bulk[0][pick_addr2]", customerAddress.address_2 || "");
-    params.append("bulk[0][pick_unit]", "-");
-    params.append("bulk[0][pick_state]", "Singapore");
-    params.append("bulk[0][pick_code]", customerAddress.postal_code || "");
-    params.append("bulk[0][pick_country]", "SG");
-
-    // Receiver (delivery) info - Warehouse address
-    params.append("bulk[0][send_name]", warehouseSettings.sender_name);
-    params.append("bulk[0][send_company]", warehouseSettings.sender_name);
-    params.append("bulk[0][send_contact]", warehousePhone);
-    params.append("bulk[0][send_mobile]", warehousePhone);
-    params.append("bulk[0][send_addr1]", warehouseSettings.sender_address);
-    params.append("bulk[0][send_addr2]", "");
-    params.append("bulk[0][send_unit]", warehouseSettings.sender_unit || "-");
-    params.append("bulk[0][send_state]", "Singapore");
-    params.append("bulk[0][send_code]", warehouseSettings.sender_postcode);
-    params.append("bulk[0][send_country]", warehouseSettings.sender_country || "SG");
-
-    // Package details
-    params.append("bulk[0][weight]", (body.weight || 1).toString());
-    params.append("bulk[0][width]", "10");
-    params.append("bulk[0][length]", "10");
-    params.append("bulk[0][height]", "10");
-    params.append("bulk[0][content]", body.content || "Return Items");
-    params.append("bulk[0][value]", ((body.rate || 0) / 100).toFixed(2));
-    params.append("bulk[0][service_id]", body.service_id);
-    params.append("bulk[0][collect_date]", body.pickup_date);
-    params.append("bulk[0][sms]", "1"); // Enable SMS notification for returns
-
-    // Reference for tracking
-    params.append("bulk[0][reference]", `RETURN-${id}`);
 
     console.log("[EasyParcel Return Submit] Submitting return shipment:", {
       return_id: id,
@@ -229,35 +135,41 @@ export const POST = withAdminAuth(async (req, res) => {
       deliver_to: warehouseSettings.sender_name,
     });
 
-    const response = await fetch(`${baseUrl}/?ac=EPSubmitOrderBulk`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/x-www-form-urlencoded",
+    const [result] = await courierService.submitOrders([
+      {
+        reference: `RETURN-${id}`,
+        service_id: body.service_id,
+        collect_date: body.pickup_date,
+        sender: {
+          name: customerName || "Customer",
+          phone: customerPhone,
+          address_1: customerAddress.address_1 || "",
+          address_2: customerAddress.address_2 || "",
+          postcode: customerAddress.postal_code || "",
+          country: "SG",
+        },
+        receiver: {
+          name: warehouseSettings.sender_name,
+          company: warehouseSettings.sender_name,
+          phone: warehousePhone,
+          address_1: warehouseSettings.sender_address,
+          unit: warehouseSettings.sender_unit,
+          postcode: warehouseSettings.sender_postcode,
+          country: warehouseSettings.sender_country || "SG",
+        },
+        weight: body.weight || 1,
+        content: body.content || "Return Items",
+        value: (body.rate || 0) / 100,
+        sms: true, // Enable SMS notification for returns
       },
-      body: params,
-    });
-
-    const data: EasyParcelAPIResponse = await response.json();
+    ]);
 
-    console.log("[EasyParcel Return Submit] API Response:", JSON.stringify(data, null, 2));
+    console.log("[EasyParcel Return Submit] Submit result:", JSON.stringify(result, null, 2));
 
-    // Check for API errors
-    if (
-      data.api_status === "Error" ||
-      (data.error_code && data.error_code !== "0" && data.error_code !== 0)
-    ) {
+    if (!result || !result.success || !result.order_no) {
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
-        data.error_remark || "Failed to submit return shipment to EasyParcel"
-      );
-    }
-
-    // Process result
-    const result = data.result?.[0];
-    if (!result || result.status !== "Success" || !result.order_number) {
-      throw new MedusaError(
-        MedusaError.Types.INVALID_DATA,
-        result?.remarks || "Failed to create return shipment order"
+        result?.message || "Failed to create return shipment order"
       );
     }
 
@@ -265,8 +177,8 @@ export const POST = withAdminAuth(async (req, res) => {
     const easyParcelReturn = await easyParcelReturnService.createReturn({
       return_id: id,
       order_id: returnRequest.order_id,
-      order_no: result.order_number,
-      parcel_no: result.parcel_number || null,
+      order_no: result.order_no,
+      parcel_no: result.parcel_no || null,
       service_id: body.service_id,
       service_name: body.service_name,
       courier_id: body.courier_id,
@@ -292,14 +204,20 @@ export const POST = withAdminAuth(async (req, res) => {
       success: true,
       message: "Return shipment submitted to EasyParcel",
       return_id: id,
-      order_no: result.order_number,
+      order_no: result.order_no,
       easyparcel_return_id: easyParcelReturn.id,
-      environment: useDemo ? "demo" : "production",
+      environment: courierService.getEnvironment(),
     });
   } catch (error) {
     if (error instanceof MedusaError) {
       throw error;
     }
+    if (error instanceof CourierApiError) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        error.message || "Failed to submit return shipment to EasyParcel"
+      );
+    }
     const errorMessage = error instanceof Error ? error.message : "Unknown error";
     throw new MedusaError(
       MedusaError.Types.INVALID_DATA,
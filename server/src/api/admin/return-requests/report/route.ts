@@ -0,0 +1,48 @@
+import { MedusaError } from "@medusajs/framework/utils";
+import { RETURN_MODULE } from "../../../../modules/return";
+import { withAdminAuth } from "../../../../utils/admin-auth";
+
+/**
+ * GET /admin/returns/report
+ * Inspection outcomes and spoilage write-offs for a period
+ *
+ * Query params:
+ * - from: ISO date, defaults to 30 days ago
+ * - to: ISO date, defaults to now (a plain date covers the whole day)
+ */
+export const GET = withAdminAuth(async (req, res) => {
+  const returnService = req.scope.resolve(RETURN_MODULE) as any;
+  const { from, to } = req.query as { from?: string; to?: string };
+
+  const toDate = to ? new Date(to) : new Date();
+  const fromDate = from
+    ? new Date(from)
+    : new Date(toDate.getTime() - 30 * 24 * 60 * 60 * 1000);
+
+  if (isNaN(fromDate.getTime()) || isNaN(toDate.getTime())) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, "Invalid date range");
+  }
+
+  // A plain date includes the whole day
+  if (to && /^\d{4}-\d{2}-\d{2}$/.test(to)) {
+    toDate.setUTCHours(23, 59, 59, 999);
+  }
+
+  if (fromDate > toDate) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, "from must be before to");
+  }
+
+  try {
+    const report = await returnService.getInspectionReport(fromDate, toDate);
+
+    res.json({
+      report,
+    });
+  } catch (error: any) {
+    const logger = req.scope.resolve("logger");
+    logger.error(`[RETURN-REPORT] Failed to build returns report: ${error.message}`);
+    res.status(500).json({
+      message: "Failed to build returns report",
+    } as any);
+  }
+});
@@ -1,9 +1,11 @@
 import type { MedusaResponse } from "@medusajs/framework/http";
 import { Modules, MedusaError } from "@medusajs/framework/utils";
+import { RETURN_WINDOW_DAYS } from "../../../lib/constants";
 import { RETURN_MODULE } from "../../../modules/return";
 import { ORDER_EXTENSION_MODULE } from "../../../modules/order-extension";
 import { withAdminAuth } from "../../../utils/admin-auth";
 import { formatCustomerName } from "../../../utils/format-customer";
+import { isTierDiscountAdjustment } from "../../../utils/tier-discount-cart";
 
 type ReturnItem = {
   item_id: string;
@@ -15,7 +17,7 @@ type ReturnItem = {
 
 type CreateReturnBody = {
   order_id: string;
-  return_type: "refund" | "replacement";
+  return_type: "refund" | "store_credit" | "replacement";
   reason: "defective" | "wrong_item" | "not_as_described" | "changed_mind" | "other";
   reason_details?: string;
   items: ReturnItem[];
@@ -100,10 +102,17 @@ export const GET = withAdminAuth(async (req, res) => {
       return_type: returnRequest.return_type,
       reason: returnRequest.reason,
       reason_details: returnRequest.reason_details,
+      evidence_urls: returnRequest.evidence_urls || [],
+      requested_by: returnRequest.requested_by,
       items: returnRequest.items || [],
       refund_amount: Number(returnRequest.refund_amount) || 0,
       shipping_refund: Number(returnRequest.shipping_refund) || 0,
       total_refund: Number(returnRequest.total_refund) || 0,
+      refunded_amount: Number(returnRequest.refunded_amount) || 0,
+      original_refund_amount: returnRequest.original_refund_amount != null
+        ? Number(returnRequest.original_refund_amount)
+        : null,
+      refund_adjustment_reason: returnRequest.refund_adjustment_reason,
       // Original order discount info
       original_order_total: Number(returnRequest.original_order_total) || 0,
       coupon_code: returnRequest.coupon_code,
@@ -194,16 +203,16 @@ export const POST = withAdminAuth(async (req, res) => {
     );
   }
 
-  // Check 30-day return window
+  // Check return window
   const deliveredAt = extension.delivered_at;
   if (deliveredAt) {
     const daysSinceDelivery = Math.floor(
       (Date.now() - new Date(deliveredAt).getTime()) / (1000 * 60 * 60 * 24)
     );
-    if (daysSinceDelivery > 30) {
+    if (daysSinceDelivery > RETURN_WINDOW_DAYS) {
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
-        "Return window has expired (30 days)"
+        `Return window has expired (${RETURN_WINDOW_DAYS} days)`
       );
     }
   }
@@ -233,11 +242,11 @@ export const POST = withAdminAuth(async (req, res) => {
     return sum;
   }, 0);
 
-  // Calculate adjustment discount (from item.adjustments - coupons)
+  // Calculate adjustment discount (from item.adjustments - coupons, not the tier discount)
   const adjustmentDiscount = orderItems.reduce((sum: number, item: any) => {
-    return sum + (item.adjustments || []).reduce(
-      (adjSum: number, adj: any) => adjSum + (Number(adj.amount) || 0), 0
-    );
+    return sum + (item.adjustments || [])
+      .filter((adj: any) => !isTierDiscountAdjustment(adj))
+      .reduce((adjSum: number, adj: any) => adjSum + (Number(adj.amount) || 0), 0);
   }, 0);
 
   // Get coupon and points info from order metadata
@@ -22,9 +22,9 @@ export const CreateReturnSchema = z.object({
     .min(1)
     .describe("Order ID to create return for"),
   return_type: z
-    .enum(["refund", "replacement"])
+    .enum(["refund", "store_credit", "replacement"])
     .default("refund")
-    .describe("Type of return - refund or replacement"),
+    .describe("Type of return - refund to card, store credit (points) or replacement"),
   reason: z
     .enum(["defective", "wrong_item", "not_as_described", "changed_mind", "other"])
     .describe("Reason for return"),
@@ -145,14 +145,112 @@ export const CompleteReturnSchema = z.object({
  * POST /admin/return-requests/:id/refund
  */
 export const ProcessRefundSchema = z.object({
+  refunds: z
+    .array(z.object({
+      method: z
+        .enum(["card", "store_credit"])
+        .describe("Refund to the original card or to the customer's points balance"),
+      amount: z
+        .number()
+        .int()
+        .positive()
+        .describe("Amount in cents"),
+    }))
+    .min(1)
+    .max(2)
+    .optional()
+    .describe("Refund transactions to issue (refunds the remaining amount in full if not specified)"),
+  note: z
+    .string()
+    .max(500)
+    .optional()
+    .describe("Admin note stored on the refund transactions"),
+}).openapi('ProcessRefundRequest', {
+  example: {
+    refunds: [
+      { method: 'card', amount: 2000 },
+      { method: 'store_credit', amount: 999 }
+    ],
+    note: 'Half to card, rest as store credit at customer request'
+  }
+})
+
+/**
+ * Schema for adjusting the refund amount
+ * POST /admin/return-requests/:id/refund-amount
+ */
+export const AdjustRefundAmountSchema = z.object({
   refund_amount: z
     .number()
-    .positive()
+    .int()
+    .min(0)
+    .describe("New product refund in cents"),
+  reason: z
+    .string()
+    .trim()
+    .min(1)
+    .max(500)
+    .describe("Why the refund differs from the calculated amount"),
+}).openapi('AdjustRefundAmountRequest', {
+  example: {
+    refund_amount: 1500,
+    reason: 'Items thawed in transit but still usable'
+  }
+})
+
+/**
+ * Schema for recording inspection results
+ * POST /admin/return-requests/:id/inspection
+ */
+export const InspectReturnSchema = z.object({
+  stock_location_id: z
+    .string()
+    .min(1)
     .optional()
-    .describe("Override refund amount (uses return total if not specified)"),
-}).openapi('ProcessRefundRequest', {
+    .describe("Stock location that restocked units go back to (required when restocking)"),
+  items: z
+    .array(z.object({
+      item_id: z.string().min(1).describe("Order line item ID of the returned item"),
+      quantity: z
+        .number()
+        .int()
+        .positive()
+        .describe("Units inspected with this result"),
+      result: z
+        .enum(["resellable", "damaged", "spoiled"])
+        .describe("Inspection outcome - spoiled covers thawed stock"),
+      restock_quantity: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Units to put back into inventory (all for resellable, none for damaged if not specified; spoiled is never restocked)"),
+      write_off_amount: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe("Written off value in cents (refunded value of units not restocked if not specified)"),
+      photo_urls: z
+        .array(z.string().url())
+        .max(5)
+        .optional()
+        .describe("Photos taken during inspection"),
+      notes: z
+        .string()
+        .max(1000)
+        .optional()
+        .describe("Inspection notes"),
+    }))
+    .min(1)
+    .describe("Inspection results, an item can be split across results"),
+}).openapi('InspectReturnRequest', {
   example: {
-    refund_amount: 2999
+    stock_location_id: 'sloc_01HQZJQY9X1K2P3M4N5B6C7D8E',
+    items: [
+      { item_id: 'item_01HQZJQY9X1K2P3M4N5B6C7D8E', quantity: 1, result: 'resellable' },
+      { item_id: 'item_01HQZJQY9X1K2P3M4N5B6C7D8E', quantity: 1, result: 'spoiled', notes: 'Thawed on arrival' }
+    ]
   }
 })
 
@@ -163,3 +261,5 @@ export type RejectReturnRequest = z.infer<typeof RejectReturnSchema>
 export type InTransitRequest = z.infer<typeof InTransitSchema>
 export type CompleteReturnRequest = z.infer<typeof CompleteReturnSchema>
 export type ProcessRefundRequest = z.infer<typeof ProcessRefundSchema>
+export type AdjustRefundAmountRequest = z.infer<typeof AdjustRefundAmountSchema>
+export type InspectReturnRequest = z.infer<typeof InspectReturnSchema>
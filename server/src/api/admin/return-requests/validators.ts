@@ -10,7 +10,7 @@ const ReturnItemSchema = z.object({
 
 export const PostAdminReturnsSchema = z.object({
   order_id: z.string(),
-  return_type: z.enum(["refund", "replacement"]),
+  return_type: z.enum(["refund", "store_credit", "replacement"]),
   reason: z.enum(["defective", "wrong_item", "not_as_described", "changed_mind", "other"]),
   reason_details: z.string().optional(),
   items: z.array(ReturnItemSchema).min(1),
@@ -1,6 +1,8 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { REVIEW_MODULE } from "../../../../../modules/review"
 import type ReviewModuleService from "../../../../../modules/review/services/review"
+import { emitReviewEvent } from "../../../../../utils/review-events"
+import { getAdminActorId } from "../../../../../utils/admin-auth"
 
 /**
  * POST /admin/reviews/:id/reject
@@ -13,11 +15,16 @@ export const POST = async (
   const { id } = req.params
   const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
 
+  const body = (req.body || {}) as { note?: string }
+
   try {
-    const review = await reviewService.updateReview({
+    const review = await reviewService.moderateReview(
       id,
-      is_approved: false,
-    })
+      "rejected",
+      getAdminActorId(req) ?? null,
+      body.note
+    )
+    await emitReviewEvent(req.scope, "review.updated", review)
     res.json({ review, message: "Review rejected successfully" })
   } catch {
     res.status(404).json({ message: "Review not found" })
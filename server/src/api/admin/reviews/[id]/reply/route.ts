@@ -0,0 +1,60 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { REVIEW_MODULE } from "../../../../../modules/review"
+import type ReviewModuleService from "../../../../../modules/review/services/review"
+import { getAdminActorId } from "../../../../../utils/admin-auth"
+import { z } from "zod"
+
+const ReplySchema = z.object({
+  content: z.string().trim().min(1, "Reply cannot be empty").max(2000),
+})
+
+/**
+ * POST /admin/reviews/:id/reply
+ * Add or replace the public merchant reply shown under a review
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const { id } = req.params
+  const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
+
+  const parseResult = ReplySchema.safeParse(req.body)
+  if (!parseResult.success) {
+    res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.issues,
+    })
+    return
+  }
+
+  try {
+    const review = await reviewService.replyToReview(
+      id,
+      parseResult.data.content,
+      getAdminActorId(req) ?? null
+    )
+    res.json({ review, message: "Reply saved successfully" })
+  } catch {
+    res.status(404).json({ message: "Review not found" })
+  }
+}
+
+/**
+ * DELETE /admin/reviews/:id/reply
+ * Remove the merchant reply of a review
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const { id } = req.params
+  const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
+
+  try {
+    const review = await reviewService.removeReply(id, getAdminActorId(req) ?? null)
+    res.json({ review, message: "Reply removed successfully" })
+  } catch {
+    res.status(404).json({ message: "Review or reply not found" })
+  }
+}
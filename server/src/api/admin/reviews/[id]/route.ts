@@ -1,6 +1,8 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { REVIEW_MODULE } from "../../../../modules/review"
 import type ReviewModuleService from "../../../../modules/review/services/review"
+import { emitReviewEvent } from "../../../../utils/review-events"
+import { getAdminActorId } from "../../../../utils/admin-auth"
 import { z } from "zod"
 
 const UpdateReviewSchema = z.object({
@@ -13,7 +15,7 @@ const UpdateReviewSchema = z.object({
 
 /**
  * GET /admin/reviews/:id
- * Get single review by ID
+ * Get single review by ID, with its moderation history and abuse reports
  */
 export const GET = async (
   req: MedusaRequest,
@@ -24,7 +26,9 @@ export const GET = async (
 
   try {
     const review = await reviewService.getReviewById(id)
-    res.json({ review })
+    const moderationLog = await reviewService.getModerationLog(id)
+    const reports = await reviewService.getReviewReports(id)
+    res.json({ review, moderation_log: moderationLog, reports })
   } catch {
     res.status(404).json({ message: "Review not found" })
   }
@@ -50,11 +54,22 @@ export const PUT = async (
     return
   }
 
+  const { is_approved, ...changes } = parseResult.data
+
   try {
-    const review = await reviewService.updateReview({
+    let review = await reviewService.updateReview({
       id,
-      ...parseResult.data,
+      ...changes,
     })
+    // Approval changes go through moderation so they are logged
+    if (is_approved !== undefined && is_approved !== review.is_approved) {
+      review = await reviewService.moderateReview(
+        id,
+        is_approved ? "approved" : "rejected",
+        getAdminActorId(req) ?? null
+      )
+    }
+    await emitReviewEvent(req.scope, "review.updated", review)
     res.json({ review, message: "Review updated successfully" })
   } catch {
     res.status(404).json({ message: "Review not found" })
@@ -73,7 +88,9 @@ export const DELETE = async (
   const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
 
   try {
+    const review = await reviewService.getReviewById(id)
     await reviewService.deleteReviewById(id)
+    await emitReviewEvent(req.scope, "review.deleted", review)
     res.json({ message: "Review deleted successfully" })
   } catch {
     res.status(404).json({ message: "Review not found" })
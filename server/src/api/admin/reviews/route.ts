@@ -1,6 +1,8 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { REVIEW_MODULE } from "../../../modules/review"
 import type ReviewModuleService from "../../../modules/review/services/review"
+import type { ListReviewsFilter, ReviewSort } from "../../../modules/review/services/review"
+import { REVIEW_SORT_ORDERS } from "../../../modules/review/services/review"
 import { Modules } from "@medusajs/framework/utils"
 import { z } from "zod"
 
@@ -10,8 +12,11 @@ const ListQuerySchema = z.object({
   product_id: z.string().optional(),
   customer_id: z.string().optional(),
   is_approved: z.string().optional().transform(v => v === undefined ? undefined : v === "true"),
+  // Comma-separated, e.g. "pending,flagged" for the moderation queue
+  status: z.string().optional().transform(v => v ? v.split(",").filter(Boolean) : undefined),
   is_featured: z.string().optional().transform(v => v === undefined ? undefined : v === "true"),
   is_guest_review: z.string().optional().transform(v => v === undefined ? undefined : v === "true"),
+  sort: z.enum(Object.keys(REVIEW_SORT_ORDERS) as [ReviewSort, ...ReviewSort[]]).optional().default("recent"),
 })
 
 /**
@@ -34,24 +39,25 @@ export const GET = async (
     console.log("Admin reviews parse error:", JSON.stringify(parseResult.error.issues))
   }
   
-  const query = parseResult.success ? parseResult.data : { limit: 20, offset: 0 }
+  const query = parseResult.success ? parseResult.data : { limit: 20, offset: 0, sort: "recent" as const }
   console.log("Admin reviews parsed query:", JSON.stringify(query))
 
   const filters: Record<string, unknown> = {}
   if (query.product_id) filters.product_id = query.product_id
   if (query.customer_id) filters.customer_id = query.customer_id
   if (query.is_approved !== undefined) filters.is_approved = query.is_approved
+  if (query.status?.length) filters.status = query.status
   if (query.is_featured !== undefined) filters.is_featured = query.is_featured
   if (query.is_guest_review !== undefined) filters.is_guest_review = query.is_guest_review
 
   console.log("Admin reviews query filters:", JSON.stringify(filters))
 
   const { reviews, count } = await reviewService.listReviewsWithFilters(
-    filters as { product_id?: string; customer_id?: string; is_approved?: boolean; is_featured?: boolean; is_guest_review?: boolean },
+    filters as ListReviewsFilter,
     {
       skip: query.offset,
       take: query.limit,
-      order: { created_at: "DESC" },
+      order: REVIEW_SORT_ORDERS[query.sort],
     }
   )
 
@@ -0,0 +1,53 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { REVIEW_MODULE } from "../../../../modules/review"
+import type ReviewModuleService from "../../../../modules/review/services/review"
+import { z } from "zod"
+
+const ReviewSettingsSchema = z.object({
+  default_status: z.enum(["approved", "pending"]).optional(),
+  guest_default_status: z.enum(["approved", "pending"]).optional(),
+  banned_words: z.array(z.string().max(100)).max(500).optional(),
+  flag_links: z.boolean().optional(),
+  flag_phone_numbers: z.boolean().optional(),
+  flag_duplicates: z.boolean().optional(),
+  max_reviews_per_day: z.number().int().min(0).max(100).optional(),
+  report_threshold: z.number().int().min(0).max(1000).optional(),
+  request_delay_days: z.number().int().min(0).max(90).optional(),
+  request_link_valid_days: z.number().int().min(1).max(365).optional(),
+})
+
+/**
+ * GET /admin/reviews/settings
+ * Get the review moderation settings (defaults until saved)
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
+  const settings = await reviewService.getSettings()
+  res.json({ settings })
+}
+
+/**
+ * POST /admin/reviews/settings
+ * Update the default review status, the screening rules and review requests
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
+
+  const parseResult = ReviewSettingsSchema.safeParse(req.body)
+  if (!parseResult.success) {
+    res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.issues,
+    })
+    return
+  }
+
+  const settings = await reviewService.upsertSettings(parseResult.data)
+  res.json({ settings, message: "Review settings saved successfully" })
+}
@@ -1,5 +1,5 @@
 import { defineMiddlewares } from "@medusajs/framework/http"
-import { rateLimitAuth, rateLimitRegistration } from "./middlewares/rate-limit"
+import { rateLimitAuth, rateLimitRegistration, rateLimitReviewVote } from "./middlewares/rate-limit"
 import { securityHeaders } from "./middlewares/security-headers"
 
 /**
@@ -11,6 +11,7 @@ import { securityHeaders } from "./middlewares/security-headers"
  *   - Brute force password attacks
  *   - Account enumeration
  *   - Registration spam
+ * - Rate limiting to review votes
  */
 export default defineMiddlewares({
   routes: [
@@ -83,5 +84,13 @@ export default defineMiddlewares({
       method: "POST",
       middlewares: [rateLimitAuth],
     },
+
+    // ===== REVIEW VOTES =====
+    // Rate limit helpful / not helpful votes (guests can vote)
+    {
+      matcher: "/store/reviews/:reviewId/vote",
+      method: ["POST", "DELETE"],
+      middlewares: [rateLimitReviewVote],
+    },
   ],
 })
@@ -126,6 +126,14 @@ const registrationRateLimiter = new InMemoryRateLimiter({
   blockDurationMs: 60 * 60 * 1000, // 1 hour
 })
 
+// Rate limiter for guest-friendly review votes
+// 30 votes per 10 minutes, block for 30 minutes if exceeded
+const reviewVoteRateLimiter = new InMemoryRateLimiter({
+  windowMs: 10 * 60 * 1000, // 10 minutes
+  maxRequests: 30,
+  blockDurationMs: 30 * 60 * 1000, // 30 minutes
+})
+
 /**
  * Rate limiting middleware for webhook endpoints
  * Prevents DoS attacks and brute force attempts
@@ -217,6 +225,19 @@ function getClientIP(req: MedusaRequest): string {
   )
 }
 
+/**
+ * Client IP for places where the IP identifies a person, not just throttles them.
+ * Uses the last x-forwarded-for hop, the one our own proxy appended, since
+ * earlier hops are whatever the client put in the header
+ */
+export function getTrustedClientIP(req: MedusaRequest): string {
+  const forwarded = (req.headers['x-forwarded-for'] as string | undefined)
+    ?.split(',')
+    .map((hop) => hop.trim())
+    .filter(Boolean)
+  return forwarded?.[forwarded.length - 1] || req.ip || 'unknown'
+}
+
 /**
  * Rate limiting middleware for authentication endpoints (login)
  * Strict limits to prevent brute force attacks
@@ -286,3 +307,38 @@ export const rateLimitRegistration = (
   res.setHeader('X-RateLimit-Limit', '3')
   next()
 }
+
+/**
+ * Rate limiting middleware for review votes
+ * Caps how fast one address can cast and undo votes
+ * 30 votes per 10 minutes, block for 30 minutes if exceeded
+ */
+export const rateLimitReviewVote = (
+  req: MedusaRequest,
+  res: MedusaResponse,
+  next: MedusaNextFunction
+) => {
+  const ip = getTrustedClientIP(req)
+
+  const { allowed, retryAfter } = reviewVoteRateLimiter.checkLimit(ip)
+
+  if (!allowed) {
+    const logger = req.scope.resolve("logger")
+    logger.warn(
+      `[SECURITY] Review vote rate limit exceeded for IP ${ip}. Blocked for ${retryAfter} seconds`
+    )
+
+    res.setHeader('Retry-After', retryAfter || 1800)
+    res.setHeader('X-RateLimit-Limit', '30')
+    res.setHeader('X-RateLimit-Remaining', '0')
+    res.setHeader('X-RateLimit-Reset', Date.now() + (retryAfter || 1800) * 1000)
+
+    throw new MedusaError(
+      MedusaError.Types.NOT_ALLOWED,
+      `Too many votes. Please try again in ${Math.ceil((retryAfter || 1800) / 60)} minutes.`
+    )
+  }
+
+  res.setHeader('X-RateLimit-Limit', '30')
+  next()
+}
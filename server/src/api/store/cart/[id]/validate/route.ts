@@ -3,13 +3,14 @@ import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/frame
 import { PROMO_MODULE } from "../../../../../modules/promo"
 import type PromoModuleService from "../../../../../modules/promo/services/promo"
 import {
-  validateCart,
+  validatePWPItem,
   calculateCartValueExcludingPWP,
   getApplicableBulkTier,
   getBasePrice,
   type CartItem,
   type ValidationIssue,
 } from "../../../../../utils/cart-validation"
+import { getCartProductIds, type PWPRuleConditions } from "../../../../../utils/pwp-rules"
 
 interface FixAction {
   item_id: string
@@ -37,7 +38,6 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
 
   try {
     const cartModuleService = req.scope.resolve(Modules.CART)
-    const productModuleService = req.scope.resolve(Modules.PRODUCT)
     const pricingModule = req.scope.resolve(Modules.PRICING)
     const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
     const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
@@ -58,6 +58,11 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
     // Calculate cart value excluding PWP items
     const cartValueExcludingPWP = calculateCartValueExcludingPWP(items)
 
+    // Products in cart, used to re-check PWP trigger products
+    const cartProductIds = items.some((item) => item.metadata?.is_pwp_item)
+      ? await getCartProductIds(req.scope, items)
+      : new Set<string>()
+
     // ========================================
     // 1. Validate PWP Items
     // ========================================
@@ -77,56 +82,17 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
         if (!rule || rule.status !== "active") {
           isEligible = false
           issueMessage = `PWP offer "${item.metadata.pwp_rule_name}" is no longer active`
-        } else if (rule.trigger_type === "cart_value") {
-          const minCartValue = rule.trigger_cart_value || 0
-
-          if (cartValueExcludingPWP < minCartValue) {
-            isEligible = false
-            issueMessage = `Cart value ($${(cartValueExcludingPWP / 100).toFixed(2)}) is below the minimum ($${(minCartValue / 100).toFixed(2)}) required for "${rule.name}" offer`
-
-            issues.push({
-              item_id: item.id,
-              variant_id: item.variant_id,
-              issue_type: "pwp_ineligible",
-              message: issueMessage,
-              current_value: cartValueExcludingPWP,
-              required_value: minCartValue,
-              recommended_action: "remove_item",
-            })
-          }
-        } else if (rule.trigger_type === "product") {
-          // Check if trigger product is still in cart
-          const triggerProductId = rule.trigger_product_id
-          let triggerFound = false
-
-          for (const cartItem of items) {
-            if (cartItem.metadata?.is_pwp_item) continue
-            if (!cartItem.variant_id) continue
-
-            try {
-              const variant = await productModuleService.retrieveProductVariant(cartItem.variant_id, {
-                select: ["product_id"],
-              })
-              if (variant?.product_id === triggerProductId) {
-                triggerFound = true
-                break
-              }
-            } catch {
-              // Continue checking
-            }
-          }
-
-          if (!triggerFound) {
+        } else {
+          // Re-check trigger products, cart value tier and reward quantity cap
+          const issue = validatePWPItem(item, items, cartValueExcludingPWP, {
+            rule: rule as unknown as PWPRuleConditions,
+            cartProductIds,
+          })
+
+          if (issue) {
             isEligible = false
-            issueMessage = `Trigger product for "${rule.name}" offer is no longer in cart`
-
-            issues.push({
-              item_id: item.id,
-              variant_id: item.variant_id,
-              issue_type: "trigger_product_removed",
-              message: issueMessage,
-              recommended_action: "remove_item",
-            })
+            issueMessage = issue.message
+            issues.push(issue)
           }
         }
       } catch (err) {
@@ -0,0 +1,107 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { DELIVERY_SLOT_MODULE } from "../../../../../modules/delivery-slot"
+import { getCartServiceZoneId } from "../../../../../utils/delivery-slot-cart"
+
+type SelectDeliverySlotBody = {
+  slot_id?: string
+  date?: string
+}
+
+/**
+ * POST /store/carts/:id/delivery-slot
+ * Choose a delivery slot for the cart
+ * Holds a place in the slot until the order is placed or the hold expires,
+ * and stores the choice in cart metadata so it is carried onto the order.
+ */
+export const POST = async (
+  req: MedusaRequest<SelectDeliverySlotBody>,
+  res: MedusaResponse
+): Promise<void> => {
+  const { id: cart_id } = req.params
+  const { slot_id, date } = req.body || {}
+
+  if (!slot_id || !date) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, "slot_id and date are required")
+  }
+
+  const cartModule = req.scope.resolve(Modules.CART)
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any
+
+  const [cart] = await cartModule.listCarts({ id: cart_id }, { relations: ["shipping_methods"] })
+  if (!cart) {
+    throw new MedusaError(MedusaError.Types.NOT_FOUND, `Cart with id ${cart_id} not found`)
+  }
+
+  if (cart.completed_at) {
+    throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "Cart has already been checked out")
+  }
+
+  const serviceZoneId = await getCartServiceZoneId(req.scope, cart as any)
+  if (!serviceZoneId) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_ALLOWED,
+      "Choose a shipping method before picking a delivery slot"
+    )
+  }
+
+  const selection = await deliverySlotService.reserveSlot(cart_id, slot_id, date, serviceZoneId)
+  if (!selection) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_ALLOWED,
+      "This delivery slot is fully booked, please choose another"
+    )
+  }
+
+  const updatedCart = await cartModule.updateCarts(cart_id, {
+    metadata: {
+      ...(cart.metadata || {}),
+      delivery_slot: selection,
+    },
+  })
+
+  res.json({
+    cart: updatedCart,
+    delivery_slot: selection,
+  })
+}
+
+/**
+ * DELETE /store/carts/:id/delivery-slot
+ * Remove the cart's delivery slot and give its place back
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const { id: cart_id } = req.params
+
+  const cartModule = req.scope.resolve(Modules.CART)
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any
+
+  const [cart] = await cartModule.listCarts({ id: cart_id })
+  if (!cart) {
+    throw new MedusaError(MedusaError.Types.NOT_FOUND, `Cart with id ${cart_id} not found`)
+  }
+
+  await deliverySlotService.releaseCartReservation(cart_id)
+
+  const { delivery_slot: _removed, ...metadata } = (cart.metadata || {}) as Record<string, unknown>
+  const updatedCart = await cartModule.updateCarts(cart_id, { metadata })
+
+  res.json({
+    cart: updatedCart,
+    delivery_slot: null,
+  })
+}
+
+/**
+ * OPTIONS /store/carts/:id/delivery-slot
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
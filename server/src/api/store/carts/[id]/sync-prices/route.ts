@@ -1,15 +1,24 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/framework/utils"
+import type { DeliveryZoneQuote } from "../../../../../modules/delivery-zone/services/delivery-zone"
 import { PROMO_MODULE } from "../../../../../modules/promo"
-import { MEMBERSHIP_MODULE } from "../../../../../modules/membership"
-import { TIER_CONFIG_MODULE } from "../../../../../modules/tier-config"
-import { getVerifiedCustomerId } from "../../../../../utils/store-auth"
+import {
+  applyAutoPromotionsToCart,
+  getCartAutoPromotionSummary,
+} from "../../../../../utils/auto-promotion-cart"
 import {
   calculateCartValueExcludingPWP,
   getApplicableBulkTier,
   getBasePrice,
+  validatePWPItem,
   type CartItem,
 } from "../../../../../utils/cart-validation"
+import { applyDeliveryZoneToCart } from "../../../../../utils/delivery-zone-cart"
+import { getCartProductIds, type PWPRuleConditions } from "../../../../../utils/pwp-rules"
+import {
+  applyTierDiscountToCart,
+  type CartTierDiscountSummary,
+} from "../../../../../utils/tier-discount-cart"
 
 /**
  * POST /store/carts/:id/sync-prices
@@ -20,7 +29,9 @@ import {
  * This endpoint:
  * 1. Updates bulk prices based on current quantities
  * 2. Removes ineligible PWP items
- * 3. Returns the corrected cart
+ * 3. Re-applies automatic promotions and the member's tier discount
+ * 4. Re-prices delivery by the zone of the shipping postcode
+ * 5. Returns the corrected cart
  *
  * Frontend should call this:
  * - Before proceeding to checkout
@@ -61,6 +72,11 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse): Promise<voi
     // Calculate cart value excluding PWP
     const cartValueExcludingPWP = calculateCartValueExcludingPWP(items)
 
+    // Products in cart, used to re-check PWP trigger products
+    const cartProductIds = items.some((item) => item.metadata?.is_pwp_item)
+      ? await getCartProductIds(req.scope, items)
+      : new Set<string>()
+
     // ========================================
     // 1. Validate PWP Items
     // ========================================
@@ -87,33 +103,15 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse): Promise<voi
           } else if (rule.ends_at && new Date(rule.ends_at) < now) {
             shouldRemove = true
             reason = "PWP offer has expired"
-          } else if (rule.trigger_type === "cart_value") {
-            const minCartValue = rule.trigger_cart_value || 0
-            if (cartValueExcludingPWP < minCartValue) {
-              shouldRemove = true
-              reason = `Cart value ($${(cartValueExcludingPWP / 100).toFixed(2)}) is below minimum ($${(minCartValue / 100).toFixed(2)})`
-            }
-          } else if (rule.trigger_type === "product") {
-            let triggerFound = false
-            for (const cartItem of items) {
-              if (cartItem.metadata?.is_pwp_item) continue
-              if (!cartItem.variant_id) continue
-
-              try {
-                const variant = await productModuleService.retrieveProductVariant(cartItem.variant_id, {
-                  select: ["product_id"],
-                })
-                if (variant?.product_id === rule.trigger_product_id) {
-                  triggerFound = true
-                  break
-                }
-              } catch {
-                // Continue
-              }
-            }
-            if (!triggerFound) {
+          } else {
+            // Re-check trigger products, cart value tier and reward quantity cap
+            const issue = validatePWPItem(item, items, cartValueExcludingPWP, {
+              rule: rule as PWPRuleConditions,
+              cartProductIds,
+            })
+            if (issue) {
               shouldRemove = true
-              reason = "Required product is no longer in cart"
+              reason = issue.message
             }
           }
         }
@@ -290,74 +288,55 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse): Promise<voi
       relations: ["items", "items.adjustments"],
     })
 
+    // Re-evaluate automatic promotions against the synced items
+    try {
+      const evaluation = await applyAutoPromotionsToCart(req.scope, updatedCart)
+      if (evaluation) {
+        updatedCart = await cartModuleService.retrieveCart(cart_id, {
+          relations: ["items", "items.adjustments"],
+        })
+      }
+    } catch (err) {
+      logger.warn(`[SYNC-PRICES] Failed to apply automatic promotions: ${err}`)
+    }
+
     // ========================================
-    // 4. Calculate Tier Discount (for authenticated members)
+    // 4. Apply Tier Discount (for members with a discount tier)
     // ========================================
-    let tierDiscountAmount = 0
-    let tierDiscountPercentage = 0
-    let tierSlug: string | null = null
-    let tierName: string | null = null
+    let tierInfo: CartTierDiscountSummary | null = null
 
-    const customerId = getVerifiedCustomerId(req)
+    try {
+      tierInfo = await applyTierDiscountToCart(req.scope, updatedCart)
+      updatedCart = await cartModuleService.retrieveCart(cart_id, {
+        relations: ["items", "items.adjustments"],
+      })
 
-    if (customerId && cart.customer_id === customerId) {
-      try {
-        const membershipService = req.scope.resolve(MEMBERSHIP_MODULE) as any
-        const tierConfigService = req.scope.resolve(TIER_CONFIG_MODULE) as any
-
-        // Get membership with tier info
-        const membershipData = await membershipService.getMembershipWithActivity(customerId)
-
-        if (membershipData?.membership?.status === "active" && membershipData.membership.tier_slug) {
-          const tier = await tierConfigService.getTierBySlug(membershipData.membership.tier_slug)
-
-          if (tier && tier.discount_percentage > 0) {
-            tierDiscountPercentage = tier.discount_percentage
-            tierSlug = tier.slug
-            tierName = tier.name
-
-            // Calculate NET subtotal for tier discount calculation
-            // PWP items have discounted prices, so we need to subtract pwp_discount_amount
-            const currentSubtotal = (updatedCart.items || []).reduce((sum, item) => {
-              const lineTotal = Number(item.unit_price) * Number(item.quantity)
-              // Subtract PWP discount to get net price
-              if (item.metadata?.is_pwp_item && item.metadata?.pwp_discount_amount) {
-                const pwpDiscount = Number(item.metadata.pwp_discount_amount) * Number(item.quantity)
-                return sum + (lineTotal - pwpDiscount)
-              }
-              return sum + lineTotal
-            }, 0)
-
-            // Calculate tier discount on NET subtotal
-            tierDiscountAmount = Math.round(currentSubtotal * tierDiscountPercentage / 100)
-
-            logger.info(
-              `[SYNC-PRICES] Tier discount applied: ${tierDiscountPercentage}% = ${tierDiscountAmount} cents for tier ${tierSlug}`
-            )
-          }
-        }
-      } catch (err) {
-        logger.warn(`[SYNC-PRICES] Failed to calculate tier discount: ${err}`)
+      if (tierInfo) {
+        logger.info(
+          `[SYNC-PRICES] Tier discount applied: ${tierInfo.discount_percentage}% = ${tierInfo.discount_amount} cents for tier ${tierInfo.slug}`
+        )
       }
+    } catch (err) {
+      logger.warn(`[SYNC-PRICES] Failed to apply tier discount: ${err}`)
     }
 
-    // Store tier discount in cart metadata (or clear if no longer applicable)
-    const existingTierDiscount = updatedCart.metadata?.tier_discount_amount
-    if (tierDiscountAmount > 0 || existingTierDiscount) {
-      await cartModuleService.updateCarts(cart_id, {
-        metadata: {
-          ...updatedCart.metadata,
-          tier_discount_percentage: tierDiscountPercentage || null,
-          tier_discount_amount: tierDiscountAmount || null,
-          tier_slug: tierSlug,
-          tier_name: tierName,
-        },
-      })
+    // ========================================
+    // 5. Apply Delivery Zone Rate (once a shipping postcode is known)
+    // ========================================
+    let deliveryZone: DeliveryZoneQuote | null = null
 
-      // Refresh cart to get updated metadata
-      updatedCart = await cartModuleService.retrieveCart(cart_id, {
-        relations: ["items", "items.adjustments"],
+    try {
+      const zoneCart = await cartModuleService.retrieveCart(cart_id, {
+        relations: ["items", "items.adjustments", "shipping_address", "shipping_methods"],
       })
+      deliveryZone = await applyDeliveryZoneToCart(req.scope, zoneCart)
+      if (deliveryZone) {
+        updatedCart = await cartModuleService.retrieveCart(cart_id, {
+          relations: ["items", "items.adjustments"],
+        })
+      }
+    } catch (err) {
+      logger.warn(`[SYNC-PRICES] Failed to apply delivery zone: ${err}`)
     }
 
     // Calculate totals
@@ -388,10 +367,12 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse): Promise<voi
       )
     }, 0)
 
+    const promotions = getCartAutoPromotionSummary(updatedCart.metadata)
+
     const pointsDiscount = Number(updatedCart.metadata?.points_discount_amount) || 0
     // Note: variantDiscount is already in unit_price, so don't subtract again
-    // Tier discount was calculated above and stored in cart metadata
-    const totalDiscount = pwpDiscount + adjustmentDiscount + pointsDiscount + tierDiscountAmount
+    // Tier discount is a line item adjustment, so it's part of adjustmentDiscount
+    const totalDiscount = pwpDiscount + adjustmentDiscount + pointsDiscount
     const total = Math.max(0, subtotal - totalDiscount)
 
     logger.info(
@@ -407,17 +388,17 @@ export const POST = async (req: MedusaRequest, res: MedusaResponse): Promise<voi
         pwp_discount: pwpDiscount,
         variant_discount: variantDiscount, // For display - already in unit_price
         adjustment_discount: adjustmentDiscount,
+        auto_promotion_discount: promotions.discount_total, // For display - already in adjustment_discount
         points_discount: pointsDiscount,
-        tier_discount: tierDiscountAmount,
+        tier_discount: tierInfo?.discount_amount || 0, // For display - already in adjustment_discount
         total_discount: totalDiscount,
         total,
       },
-      tier_info: tierSlug ? {
-        slug: tierSlug,
-        name: tierName,
-        discount_percentage: tierDiscountPercentage,
-        discount_amount: tierDiscountAmount,
-      } : null,
+      tier_info: tierInfo,
+      // Delivery zone of the shipping postcode, with its minimum order and free shipping progress
+      delivery_zone: deliveryZone,
+      // Automatic promotions that applied, and why the others didn't
+      promotions,
       summary: {
         items_removed: itemsToRemove.length,
         items_updated: itemsToUpdate.length,
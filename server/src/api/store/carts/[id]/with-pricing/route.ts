@@ -1,6 +1,19 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/framework/utils"
 import { PROMO_MODULE } from "../../../../../modules/promo"
+import { getCartAutoPromotionSummary } from "../../../../../utils/auto-promotion-cart"
+import { getCartTierDiscountSummary } from "../../../../../utils/tier-discount-cart"
+import {
+  countPWPRewardQuantity,
+  evaluatePWPRule,
+  getCartProductIds,
+  getPWPMaxRewardQuantity,
+  getPWPRewardProductIds,
+  getPWPRewardTiers,
+  getPWPTriggerProductIds,
+  type PWPRewardTier,
+  type PWPRuleConditions,
+} from "../../../../../utils/pwp-rules"
 
 /**
  * GET /store/carts/:id/with-pricing
@@ -9,6 +22,8 @@ import { PROMO_MODULE } from "../../../../../modules/promo"
  * - Cart items with current prices
  * - Bulk pricing tiers for each variant
  * - Eligible PWP offers with requirements
+ * - Automatic promotions applied to the cart and why others didn't apply
+ * - The member tier discount applied to the cart
  *
  * Frontend can use this data to:
  * - Show correct price based on quantity (no server call needed)
@@ -126,9 +141,17 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
       trigger_type: string
       trigger_cart_value: number | null
       trigger_product_id: string | null
+      trigger_product_ids: string[]
+      trigger_match: "any" | "all"
       reward_product_id: string
+      reward_product_ids: string[]
       reward_type: string
       reward_value: number
+      reward_tiers: PWPRewardTier[]
+      current_reward: PWPRewardTier | null
+      next_tier: PWPRewardTier | null
+      max_reward_quantity: number
+      remaining_reward_quantity: number
       is_eligible: boolean
       current_cart_value: number
       amount_needed: number | null
@@ -143,6 +166,9 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
         return sum + unitPrice * qty
       }, 0)
 
+      // Products in cart (PWP items don't trigger other offers)
+      const cartProductIds = await getCartProductIds(req.scope, items)
+
       // Get all active PWP rules
       const allRules = await promoService.listPWPRules(
         { status: "active" },
@@ -159,40 +185,15 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
         // Check usage limit
         if (rule.usage_limit && rule.redemption_count >= rule.usage_limit) continue
 
-        // Check if already applied
-        const alreadyApplied = items.some(
-          (item) => item.metadata?.is_pwp_item && item.metadata?.pwp_rule_id === rule.id
-        )
-        if (alreadyApplied) continue
-
-        let isEligible = false
-        let amountNeeded: number | null = null
-
-        if (rule.trigger_type === "cart_value") {
-          const minValue = rule.trigger_cart_value || 0
-          isEligible = cartValue >= minValue
-          amountNeeded = isEligible ? null : minValue - cartValue
-        } else if (rule.trigger_type === "product") {
-          // Check if trigger product is in cart
-          for (const item of items) {
-            if (item.metadata?.is_pwp_item) continue
-            if (!item.variant_id) continue
-
-            try {
-              const { data: variants } = await query.graph({
-                entity: "product_variant",
-                fields: ["id", "product_id"],
-                filters: { id: item.variant_id },
-              })
-              if (variants[0]?.product_id === rule.trigger_product_id) {
-                isEligible = true
-                break
-              }
-            } catch {
-              // Continue
-            }
-          }
-        }
+        // Skip offers whose reward quantity cap is already used by this cart
+        const ruleConditions = rule as PWPRuleConditions
+        const maxRewardQuantity = getPWPMaxRewardQuantity(ruleConditions)
+        const rewardQuantityInCart = countPWPRewardQuantity(items, rule.id)
+        if (rewardQuantityInCart >= maxRewardQuantity) continue
+
+        const evaluation = evaluatePWPRule(ruleConditions, cartValue, cartProductIds)
+        const rewardTiers = getPWPRewardTiers(ruleConditions)
+        const displayReward = evaluation.reward || rewardTiers[0]
 
         pwpOffers.push({
           id: rule.id,
@@ -201,12 +202,20 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
           trigger_type: rule.trigger_type,
           trigger_cart_value: rule.trigger_cart_value,
           trigger_product_id: rule.trigger_product_id,
+          trigger_product_ids: getPWPTriggerProductIds(ruleConditions),
+          trigger_match: rule.trigger_match || "any",
           reward_product_id: rule.reward_product_id,
-          reward_type: rule.reward_type,
-          reward_value: rule.reward_value,
-          is_eligible: isEligible,
+          reward_product_ids: getPWPRewardProductIds(ruleConditions),
+          reward_type: displayReward?.reward_type || rule.reward_type,
+          reward_value: displayReward?.reward_value ?? rule.reward_value,
+          reward_tiers: rewardTiers,
+          current_reward: evaluation.reward,
+          next_tier: evaluation.next_tier,
+          max_reward_quantity: maxRewardQuantity,
+          remaining_reward_quantity: maxRewardQuantity - rewardQuantityInCart,
+          is_eligible: evaluation.trigger_met,
           current_cart_value: cartValue,
-          amount_needed: amountNeeded,
+          amount_needed: evaluation.amount_needed,
         })
       }
     } catch (err) {
@@ -324,7 +333,7 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
       return sum
     }, 0)
 
-    // Adjustment discount (coupons)
+    // Adjustment discount (coupons, automatic promotions, tier discount)
     const adjustmentDiscount = enhancedItems.reduce((sum, item) => {
       const itemAdj = (item.adjustments || []).reduce(
         (adjSum: number, adj: any) => adjSum + (Number(adj.amount) || 0),
@@ -336,6 +345,8 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
     // Points discount
     const pointsDiscount = Number(cart.metadata?.points_discount_amount) || 0
 
+    const tierDiscount = getCartTierDiscountSummary(cart.metadata)
+
     const totalDiscount = pwpDiscount + adjustmentDiscount + pointsDiscount
     const total = Math.max(0, subtotal - totalDiscount)
 
@@ -347,6 +358,8 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
       pricing: {
         bulk_pricing_map: bulkPricingMap,
         pwp_offers: pwpOffers,
+        promotions: getCartAutoPromotionSummary(cart.metadata),
+        tier_discount: tierDiscount,
       },
       // Inventory map: variant_id -> available quantity
       inventory: inventoryMap,
@@ -355,6 +368,7 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
         pwp_discount: pwpDiscount,
         adjustment_discount: adjustmentDiscount,
         points_discount: pointsDiscount,
+        tier_discount: tierDiscount?.discount_amount || 0, // For display - already in adjustment_discount
         total_discount: totalDiscount,
         total,
       },
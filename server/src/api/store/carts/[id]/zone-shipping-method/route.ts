@@ -0,0 +1,94 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { addShippingMethodToCartWorkflow } from "@medusajs/medusa/core-flows"
+import { isShippingOptionInZone } from "../../../../../modules/delivery-zone/services/delivery-zone"
+import {
+  applyDeliveryZoneToCart,
+  getCartDeliveryZone,
+} from "../../../../../utils/delivery-zone-cart"
+import { formatPrice } from "../../../../../utils/format-price"
+
+type ZoneShippingMethodBody = {
+  option_id?: string
+}
+
+/**
+ * POST /store/carts/:id/zone-shipping-method
+ * Set the cart's shipping method, priced by the delivery zone of its shipping address
+ * Rejects options the zone doesn't offer and carts below the zone's minimum
+ * order value. Without a shipping address, or outside every zone, the option
+ * keeps its own price.
+ */
+export const POST = async (
+  req: MedusaRequest<ZoneShippingMethodBody>,
+  res: MedusaResponse
+): Promise<void> => {
+  const { id: cart_id } = req.params
+  const { option_id } = req.body || {}
+
+  if (!option_id) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, "option_id is required")
+  }
+
+  const cartModule = req.scope.resolve(Modules.CART)
+  const [cart] = await cartModule.listCarts(
+    { id: cart_id },
+    { relations: ["items", "items.adjustments", "shipping_address"] }
+  )
+  if (!cart) {
+    throw new MedusaError(MedusaError.Types.NOT_FOUND, `Cart with id ${cart_id} not found`)
+  }
+
+  if (cart.completed_at) {
+    throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "Cart has already been checked out")
+  }
+
+  const resolved = await getCartDeliveryZone(req.scope, cart as any)
+  if (resolved) {
+    const { zone, quote } = resolved
+
+    if (!isShippingOptionInZone(zone, option_id)) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `This shipping option isn't available for postcode ${quote.postal_code}`
+      )
+    }
+
+    if (!quote.meets_minimum) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `The minimum order for delivery to ${quote.name} is ${formatPrice(quote.minimum_order_value || 0)}. ` +
+        `Add ${formatPrice(quote.amount_to_minimum)} more to check out.`
+      )
+    }
+  }
+
+  await addShippingMethodToCartWorkflow(req.scope).run({
+    input: {
+      cart_id,
+      options: [{ id: option_id }],
+    },
+  })
+
+  // The workflow prices the method from the shipping option - put the zone rate back on it
+  const updatedCart = await cartModule.retrieveCart(cart_id, {
+    relations: ["items", "items.adjustments", "shipping_address", "shipping_methods"],
+  })
+  const deliveryZone = await applyDeliveryZoneToCart(req.scope, updatedCart as any)
+
+  res.json({
+    cart: await cartModule.retrieveCart(cart_id, { relations: ["shipping_methods"] }),
+    delivery_zone: deliveryZone,
+  })
+}
+
+/**
+ * OPTIONS /store/carts/:id/zone-shipping-method
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -1,6 +1,8 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { MedusaError, Modules } from "@medusajs/framework/utils"
 import { PROMO_MODULE } from "../../../../modules/promo"
+import { calculateCouponDiscount } from "../../../../utils/coupon-discount"
+import { getCouponCustomerContext } from "../../../../utils/coupon-eligibility"
 import type { ApplyCouponRequest } from "../schemas"
 
 /**
@@ -89,10 +91,10 @@ export const POST = async (
       )
     }
 
-    // Check usage limit
+    // Check usage limit (uses held by other carts count as taken)
     if (
       coupon.usage_limit !== null &&
-      coupon.usage_count >= coupon.usage_limit
+      coupon.usage_count + (coupon.reserved_count || 0) >= coupon.usage_limit
     ) {
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
@@ -100,61 +102,72 @@ export const POST = async (
       )
     }
 
-    // Calculate cart subtotal from items (in cents)
-    // cart.subtotal might not be populated, so calculate from items
-    logger.info(`Cart items for subtotal calculation:`)
-    cart.items.forEach((item: any, index: number) => {
-      logger.info(`  Item ${index}: unit_price=${item.unit_price}, quantity=${item.quantity}, total=${Number(item.unit_price) * item.quantity}`)
-    })
-
-    const cartSubtotal = cart.items.reduce((sum: number, item: any) => {
-      return sum + (Number(item.unit_price) * item.quantity)
-    }, 0)
+    // Check customer-specific restrictions (per-customer limit, first order, group/tier)
+    const customerContext = await getCouponCustomerContext(req.scope, cart)
+    const eligibilityError = await promoService.getCouponEligibilityError(
+      coupon,
+      customerContext
+    )
+    if (eligibilityError) {
+      throw new MedusaError(MedusaError.Types.NOT_ALLOWED, eligibilityError)
+    }
 
-    logger.info(`Cart subtotal calculated: ${cartSubtotal} cents (cart.subtotal was: ${cart.subtotal})`)
+    // Calculate discount against the coupon's cart conditions
+    // (minimum spend, included/excluded products, categories and brands, discount cap)
+    const discount = await calculateCouponDiscount(req.scope, coupon, cart.items)
 
-    // Calculate discount
-    let discountAmount: number
+    logger.info(`Cart subtotal: ${discount.cart_subtotal} cents, eligible subtotal: ${discount.eligible_subtotal} cents`)
 
-    if (coupon.type === "percentage") {
-      discountAmount = Math.round((cartSubtotal * coupon.value) / 100)
-    } else {
-      // Fixed amount in cents
-      discountAmount = coupon.value
+    if (discount.error) {
+      throw new MedusaError(MedusaError.Types.NOT_ALLOWED, discount.error)
     }
 
-    // Ensure discount doesn't exceed cart subtotal
-    discountAmount = Math.min(discountAmount, cartSubtotal)
+    const discountAmount = discount.discount_amount
 
     logger.info(`Discount amount: ${discountAmount} cents (${coupon.type} - ${coupon.value})`)
 
-    // Apply adjustment to cart (apply to first item for simplicity)
-    // Note: In Medusa v2, adjustment amounts should be positive - they represent the discount value
-    // Medusa handles the subtraction from the total internally
-    await cartModuleService.addLineItemAdjustments([
-      {
-        item_id: cart.items[0].id,
-        code: `COUPON_${code}`,
-        amount: discountAmount, // Positive value - Medusa subtracts this from total
-        description: `Coupon: ${code} (${coupon.name})`,
-        promotion_id: null,
-      },
-    ])
-
-    // Store coupon info in cart metadata
-    // Note: Usage count is incremented in order-placed subscriber when order is completed
-    await cartModuleService.updateCarts(cart_id, {
-      metadata: {
-        ...cart.metadata,
-        applied_coupon_code: code,
-        applied_coupon_id: coupon.id,
-        applied_coupon_name: coupon.name,
-        applied_coupon_type: coupon.type,
-        applied_coupon_value: coupon.value,
-        applied_coupon_discount: discountAmount,
-        applied_coupon_currency: coupon.currency_code,
-      },
-    })
+    // Reserve one use of the coupon for this cart (atomic - guarantees usage_limit)
+    const reservation = await promoService.reservePromo("coupon", coupon.id, cart_id)
+    if (!reservation) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        "This coupon has reached its usage limit"
+      )
+    }
+
+    try {
+      // Apply one adjustment per eligible item, allocated proportionally to line totals
+      // Note: In Medusa v2, adjustment amounts should be positive - they represent the discount value
+      // Medusa handles the subtraction from the total internally
+      await cartModuleService.addLineItemAdjustments(
+        discount.allocations.map((allocation) => ({
+          item_id: allocation.item_id,
+          code: `COUPON_${code}`,
+          amount: allocation.amount, // Positive value - Medusa subtracts this from total
+          description: `Coupon: ${code} (${coupon.name})`,
+          promotion_id: null,
+        }))
+      )
+
+      // Store coupon info in cart metadata
+      // Note: The reservation is converted to a use in order-placed subscriber when order is completed
+      await cartModuleService.updateCarts(cart_id, {
+        metadata: {
+          ...cart.metadata,
+          applied_coupon_code: code,
+          applied_coupon_id: coupon.id,
+          applied_coupon_name: coupon.name,
+          applied_coupon_type: coupon.type,
+          applied_coupon_value: coupon.value,
+          applied_coupon_discount: discountAmount,
+          applied_coupon_currency: coupon.currency_code,
+        },
+      })
+    } catch (error) {
+      // Give the reserved use back if the coupon couldn't be applied
+      await promoService.releasePromoReservation("coupon", coupon.id, cart_id)
+      throw error
+    }
 
     // Retrieve updated cart
     const updatedCart = await cartModuleService.retrieveCart(cart_id, {
@@ -1,11 +1,12 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { removeCouponFromCart } from "../../../../utils/coupon-cart"
 import type { RemoveCouponRequest } from "../schemas"
 
 /**
  * POST /store/coupons/remove
  * Remove an applied coupon from the cart
- * Removes the line item adjustment and clears metadata
+ * Removes the line item adjustments, clears metadata and releases the reserved use
  */
 export const POST = async (
   req: MedusaRequest<RemoveCouponRequest>,
@@ -50,46 +51,8 @@ export const POST = async (
       return
     }
 
-    // Remove the coupon adjustment from all items
-    // In Medusa v2, we use setLineItemAdjustments to replace the existing adjustments
-    // By excluding the coupon adjustment, it gets removed
-    for (const item of cart.items || []) {
-      const couponAdjustmentCode = `COUPON_${appliedCode}`
-      const hasAdjustment = (item.adjustments || []).some(
-        (adj: any) => adj.code === couponAdjustmentCode
-      )
-
-      if (hasAdjustment) {
-        // Keep only non-coupon adjustments
-        const remainingAdjustments = (item.adjustments || [])
-          .filter((adj: any) => adj.code !== couponAdjustmentCode)
-          .map((adj: any) => ({
-            id: adj.id,
-            item_id: item.id,
-            code: adj.code,
-            amount: adj.amount,
-            description: adj.description,
-            promotion_id: adj.promotion_id || null,
-          }))
-
-        await cartModuleService.setLineItemAdjustments(cart_id, remainingAdjustments)
-      }
-    }
-
-    // Clear coupon metadata by setting values to null
-    // Using null instead of delete to ensure proper clearing in database
-    const metadata = { ...cart.metadata }
-    metadata.applied_coupon_code = null
-    metadata.applied_coupon_id = null
-    metadata.applied_coupon_name = null
-    metadata.applied_coupon_type = null
-    metadata.applied_coupon_value = null
-    metadata.applied_coupon_discount = null
-    metadata.applied_coupon_currency = null
-
-    await cartModuleService.updateCarts(cart_id, {
-      metadata,
-    })
+    // Remove the coupon adjustments, clear metadata and release the reserved use
+    await removeCouponFromCart(req.scope, cart)
 
     // Retrieve updated cart
     const updatedCart = await cartModuleService.retrieveCart(cart_id, {
@@ -1,6 +1,8 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { MedusaError, Modules } from "@medusajs/framework/utils"
 import { PROMO_MODULE } from "../../../../modules/promo"
+import { calculateCouponDiscount } from "../../../../utils/coupon-discount"
+import { getCouponCustomerContext } from "../../../../utils/coupon-eligibility"
 import type { ValidateCouponRequest } from "../schemas"
 
 /**
@@ -89,10 +91,10 @@ export const POST = async (
       return
     }
 
-    // Check usage limit
+    // Check usage limit (uses held by other carts count as taken)
     if (
       coupon.usage_limit !== null &&
-      coupon.usage_count >= coupon.usage_limit
+      coupon.usage_count + (coupon.reserved_count || 0) >= coupon.usage_limit
     ) {
       res.json({
         valid: false,
@@ -101,24 +103,33 @@ export const POST = async (
       return
     }
 
-    // Calculate cart subtotal from items (in cents)
-    // cart.subtotal might not be populated, so calculate from items
-    const cartSubtotal = (cart.items || []).reduce((sum: number, item: any) => {
-      return sum + (Number(item.unit_price) * item.quantity)
-    }, 0)
-
-    // Calculate discount
-    let discountAmount: number
+    // Check customer-specific restrictions (per-customer limit, first order, group/tier)
+    const customerContext = await getCouponCustomerContext(req.scope, cart)
+    const eligibilityError = await promoService.getCouponEligibilityError(
+      coupon,
+      customerContext
+    )
+    if (eligibilityError) {
+      res.json({
+        valid: false,
+        message: eligibilityError,
+      })
+      return
+    }
 
-    if (coupon.type === "percentage") {
-      discountAmount = Math.round((cartSubtotal * coupon.value) / 100)
-    } else {
-      // Fixed amount in cents
-      discountAmount = coupon.value
+    // Calculate discount against the coupon's cart conditions
+    // (minimum spend, included/excluded products, categories and brands, discount cap)
+    const discount = await calculateCouponDiscount(req.scope, coupon, cart.items || [])
+    if (discount.error) {
+      res.json({
+        valid: false,
+        message: discount.error,
+      })
+      return
     }
 
-    // Ensure discount doesn't exceed cart subtotal
-    discountAmount = Math.min(discountAmount, cartSubtotal)
+    const cartSubtotal = discount.cart_subtotal
+    const discountAmount = discount.discount_amount
 
     logger.info(
       `Validated coupon ${code} for cart ${cart_id} - discount: ${discountAmount} cents`
@@ -142,6 +153,7 @@ export const POST = async (
             : `${coupon.currency_code} ${(discountAmount / 100).toFixed(2)}`,
       },
       cart_subtotal: cartSubtotal,
+      eligible_subtotal: discount.eligible_subtotal,
       new_total: cartSubtotal - discountAmount,
     })
   } catch (error) {
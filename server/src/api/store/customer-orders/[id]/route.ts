@@ -1,5 +1,6 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { EASYPARCEL_ORDER_MODULE } from "../../../../modules/easyparcel-order"
 import { ORDER_EXTENSION_MODULE } from "../../../../modules/order-extension"
 import { mapMedusaPaymentStatus } from "../../../../utils/format-order"
 import { getVerifiedCustomerId } from "../../../../utils/store-auth"
@@ -23,6 +24,7 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
   const orderModule = req.scope.resolve(Modules.ORDER)
   const productModule = req.scope.resolve(Modules.PRODUCT)
   const orderExtensionService = req.scope.resolve(ORDER_EXTENSION_MODULE) as any
+  const easyParcelOrderService = req.scope.resolve(EASYPARCEL_ORDER_MODULE) as any
   const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
 
   // Fetch the order with shipping methods
@@ -46,9 +48,10 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
     return
   }
 
-  // Fetch order extension and payment status
-  const [orderExtensions, ordersWithPayment] = await Promise.all([
+  // Fetch order extension, courier shipment and payment status
+  const [orderExtensions, shipment, ordersWithPayment] = await Promise.all([
     orderExtensionService.listOrderExtensions({ order_id: [orderId] }),
+    easyParcelOrderService.getByOrderId(orderId),
     query.graph({
       entity: "order",
       filters: { id: [orderId] },
@@ -276,6 +279,19 @@ export const GET = async (req: MedusaRequest, res: MedusaResponse): Promise<void
     // Tracking info from order extension
     courier: extension?.courier || null,
     tracking_number: extension?.tracking_number || null,
+    // Checkpoint history stored by the courier tracking sync
+    tracking: shipment?.awb
+      ? {
+          courier: shipment.courier_name,
+          awb: shipment.awb,
+          tracking_url: shipment.tracking_url || null,
+          status: shipment.status,
+          tracking_status: shipment.tracking_status || null,
+          events: shipment.tracking_events || [],
+          last_tracked_at: shipment.last_tracked_at || null,
+          delivered_at: shipment.delivered_at || null,
+        }
+      : null,
     created_at: order.created_at,
     updated_at: order.updated_at || order.created_at,
     metadata: (order as any).metadata || null,
@@ -5,7 +5,7 @@ import { getVerifiedCustomerId } from "../../../../../../utils/store-auth"
 
 /**
  * POST /store/customer/reviews/:reviewId/helpful
- * Mark a review as helpful (increment helpful_count)
+ * Mark a review as helpful - counted once per customer
  */
 export const POST = async (
   req: MedusaRequest,
@@ -22,8 +22,12 @@ export const POST = async (
   const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
 
   try {
-    const review = await reviewService.markReviewHelpful(reviewId)
-    
+    const review = await reviewService.castVote(
+      reviewId,
+      { key: `customer:${customerId}`, customer_id: customerId, fingerprint: null },
+      "helpful"
+    )
+
     res.json({
       review,
       message: "Review marked as helpful",
@@ -33,6 +37,40 @@ export const POST = async (
   }
 }
 
+/**
+ * DELETE /store/customer/reviews/:reviewId/helpful
+ * Undo the customer's vote
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    res.status(401).json({ message: "Unauthorized" })
+    return
+  }
+
+  const { reviewId } = req.params
+  const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
+
+  try {
+    const review = await reviewService.removeVote(reviewId, {
+      key: `customer:${customerId}`,
+      customer_id: customerId,
+      fingerprint: null,
+    })
+
+    res.json({
+      review,
+      message: "Vote removed",
+    })
+  } catch (error) {
+    res.status(404).json({ message: "Review not found" })
+  }
+}
+
 /**
  * OPTIONS /store/customer/reviews/:reviewId/helpful
  */
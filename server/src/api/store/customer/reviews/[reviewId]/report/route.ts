@@ -0,0 +1,75 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { REVIEW_MODULE } from "../../../../../../modules/review"
+import type ReviewModuleService from "../../../../../../modules/review/services/review"
+import { getVerifiedCustomerId } from "../../../../../../utils/store-auth"
+import { emitReviewEvent } from "../../../../../../utils/review-events"
+import { z } from "zod"
+
+const ReportSchema = z.object({
+  reason: z.enum(["spam", "offensive", "inappropriate", "fake", "other"]),
+  details: z.string().max(1000).optional().nullable(),
+})
+
+/**
+ * POST /store/customer/reviews/:reviewId/report
+ * Report a review as abusive. Enough reports hide the review until a
+ * moderator looks at it
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    res.status(401).json({ message: "Unauthorized" })
+    return
+  }
+
+  const parseResult = ReportSchema.safeParse(req.body)
+  if (!parseResult.success) {
+    res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.issues,
+    })
+    return
+  }
+
+  const { reviewId } = req.params
+  const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
+
+  try {
+    const review = await reviewService.reportReview(
+      reviewId,
+      customerId,
+      parseResult.data.reason,
+      parseResult.data.details
+    )
+    if (!review.is_approved) {
+      await emitReviewEvent(req.scope, "review.updated", review)
+    }
+
+    res.status(201).json({ message: "Thank you, the review has been reported" })
+  } catch (error) {
+    if (error instanceof MedusaError && error.type === MedusaError.Types.DUPLICATE_ERROR) {
+      res.status(409).json({ message: error.message })
+      return
+    }
+    if (error instanceof MedusaError && error.type === MedusaError.Types.NOT_ALLOWED) {
+      res.status(400).json({ message: error.message })
+      return
+    }
+    res.status(404).json({ message: "Review not found" })
+  }
+}
+
+/**
+ * OPTIONS /store/customer/reviews/:reviewId/report
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -2,6 +2,7 @@ import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { REVIEW_MODULE } from "../../../../../modules/review"
 import type ReviewModuleService from "../../../../../modules/review/services/review"
 import { getVerifiedCustomerId } from "../../../../../utils/store-auth"
+import { emitReviewEvent } from "../../../../../utils/review-events"
 import { z } from "zod"
 
 const UpdateReviewSchema = z.object({
@@ -89,7 +90,7 @@ export const PUT = async (
   const data = parseResult.data
 
   // Update the review
-  const review = await reviewService.updateReview({
+  let review = await reviewService.updateReview({
     id: reviewId,
     rating: data.rating,
     title: data.title,
@@ -97,6 +98,12 @@ export const PUT = async (
     images: data.images,
   })
 
+  // Edited text goes through screening again
+  if (data.title !== undefined || data.content !== undefined) {
+    review = await reviewService.rescreenReview(reviewId)
+  }
+  await emitReviewEvent(req.scope, "review.updated", review)
+
   res.json({
     review,
     message: "Review updated successfully",
@@ -138,6 +145,7 @@ export const DELETE = async (
 
   // Delete the review
   await reviewService.deleteReviewById(reviewId)
+  await emitReviewEvent(req.scope, "review.deleted", existingReview)
 
   res.json({
     message: "Review deleted successfully",
@@ -4,6 +4,7 @@ import { REVIEW_MODULE } from "../../../../modules/review"
 import { ORDER_EXTENSION_MODULE } from "../../../../modules/order-extension"
 import type ReviewModuleService from "../../../../modules/review/services/review"
 import { getVerifiedCustomerId } from "../../../../utils/store-auth"
+import { emitReviewEvent } from "../../../../utils/review-events"
 import { z } from "zod"
 
 const ListQuerySchema = z.object({
@@ -169,7 +170,7 @@ export const POST = async (
   }
 
   // Create the review - verified purchase since we validated order
-  const review = await reviewService.createReview({
+  const review = await reviewService.submitReview({
     product_id: data.product_id,
     customer_id: customerId,
     order_id: order.id,
@@ -179,12 +180,14 @@ export const POST = async (
     content: data.content || null,
     images: data.images && data.images.length > 0 ? data.images : [],
     is_verified_purchase: true, // Always true since we require order
-    is_approved: true,
   })
+  await emitReviewEvent(req.scope, "review.created", review)
 
   res.status(201).json({
     review,
-    message: "Review created successfully",
+    message: review.is_approved
+      ? "Review created successfully"
+      : "Review submitted successfully. It will be visible after moderation.",
   })
 }
 
@@ -0,0 +1,63 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { DELIVERY_SLOT_MODULE } from "../../../modules/delivery-slot"
+import { getCartServiceZoneId } from "../../../utils/delivery-slot-cart"
+
+/**
+ * GET /store/delivery-slots
+ * Delivery dates and slots a cart can book, with remaining capacity
+ * This is a public endpoint - no auth required
+ *
+ * Query params:
+ * - cart_id: the zone is taken from the cart's shipping method
+ * - service_zone_id: zone to list slots for when there is no cart
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const deliverySlotService = req.scope.resolve(DELIVERY_SLOT_MODULE) as any
+  const { cart_id, service_zone_id } = req.query as { cart_id?: string; service_zone_id?: string }
+
+  let serviceZoneId = service_zone_id || null
+  let selected = null
+
+  if (cart_id) {
+    const cartModule = req.scope.resolve(Modules.CART)
+    const [cart] = await cartModule.listCarts({ id: cart_id }, { relations: ["shipping_methods"] })
+    if (!cart) {
+      throw new MedusaError(MedusaError.Types.NOT_FOUND, `Cart with id ${cart_id} not found`)
+    }
+
+    serviceZoneId = await getCartServiceZoneId(req.scope, cart as any)
+    selected = (cart.metadata?.delivery_slot as Record<string, unknown> | undefined) || null
+  }
+
+  if (!serviceZoneId) {
+    res.json({
+      service_zone_id: null,
+      dates: [],
+      selected,
+    })
+    return
+  }
+
+  const dates = await deliverySlotService.getAvailableSlots(serviceZoneId)
+
+  res.json({
+    service_zone_id: serviceZoneId,
+    dates,
+    selected,
+  })
+}
+
+/**
+ * OPTIONS /store/delivery-slots
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
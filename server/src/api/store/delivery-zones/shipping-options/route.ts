@@ -0,0 +1,71 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { listShippingOptionsForCartWorkflow } from "@medusajs/medusa/core-flows"
+import { isShippingOptionInZone } from "../../../../modules/delivery-zone/services/delivery-zone"
+import { getCartDeliveryZone } from "../../../../utils/delivery-zone-cart"
+
+/**
+ * GET /store/delivery-zones/shipping-options
+ * Shipping options of a cart, filtered and priced by the delivery zone of its postcode
+ * Postcodes outside every zone get the options with their own prices.
+ * This is a public endpoint - no auth required
+ *
+ * Query params:
+ * - cart_id: cart to list shipping options for (required)
+ * - postal_code: postcode to use before the shipping address is saved on the cart
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const { cart_id, postal_code } = req.query as { cart_id?: string; postal_code?: string }
+
+  if (!cart_id) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, "cart_id is required")
+  }
+
+  const cartModule = req.scope.resolve(Modules.CART)
+  const [cart] = await cartModule.listCarts(
+    { id: cart_id },
+    { relations: ["items", "items.adjustments", "shipping_address"] }
+  )
+  if (!cart) {
+    throw new MedusaError(MedusaError.Types.NOT_FOUND, `Cart with id ${cart_id} not found`)
+  }
+
+  const { result: shippingOptions } = await listShippingOptionsForCartWorkflow(req.scope).run({
+    input: { cart_id, is_return: false },
+  })
+
+  const resolved = await getCartDeliveryZone(req.scope, cart as any, postal_code)
+  if (!resolved) {
+    res.json({
+      shipping_options: shippingOptions,
+      delivery_zone: null,
+    })
+    return
+  }
+
+  const { zone, quote } = resolved
+
+  res.json({
+    shipping_options: (shippingOptions as any[])
+      .filter((option) => isShippingOptionInZone(zone, option.id))
+      .map((option) => ({
+        ...option,
+        amount: quote.shipping_amount,
+      })),
+    delivery_zone: quote,
+  })
+}
+
+/**
+ * OPTIONS /store/delivery-zones/shipping-options
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -0,0 +1,96 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { MEMBERSHIP_MODULE } from "../../../../modules/membership"
+import { ACTIVITY_WINDOW_MONTHS } from "../../../../modules/membership/services/membership"
+import { TIER_CONFIG_MODULE } from "../../../../modules/tier-config"
+import { getVerifiedCustomerId } from "../../../../utils/store-auth"
+import { calculateTierProgress, type ProgressTier } from "../../../../utils/tier-progress"
+
+function formatTier(tier: ProgressTier | null) {
+  return tier
+    ? {
+        slug: tier.slug,
+        name: tier.name,
+        rank: tier.rank,
+        order_threshold: tier.order_threshold,
+        spend_threshold: Number(tier.spend_threshold),
+      }
+    : null
+}
+
+/**
+ * GET /store/membership/progress
+ * Get the current customer's progress towards the next tier
+ *
+ * Returns the current and next tier, the orders and spend still needed,
+ * when the oldest orders drop out of the rolling evaluation window and
+ * whether that will downgrade the customer.
+ * Requires authentication
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    throw new MedusaError(
+      MedusaError.Types.UNAUTHORIZED,
+      "Authentication required"
+    )
+  }
+
+  const membershipService = req.scope.resolve(MEMBERSHIP_MODULE) as any
+  const tierConfigService = req.scope.resolve(TIER_CONFIG_MODULE) as any
+
+  const membership = await membershipService.getMembershipByCustomer(customerId)
+
+  if (!membership || membership.status !== "active") {
+    throw new MedusaError(
+      MedusaError.Types.NOT_FOUND,
+      "No active membership found"
+    )
+  }
+
+  const [tiers, orders] = await Promise.all([
+    tierConfigService.getActiveTiers(),
+    membershipService.listRollingActivityOrders(customerId),
+  ])
+
+  const progress = calculateTierProgress(tiers, membership.tier_slug, orders)
+  const downgrade = progress.projected_downgrade
+
+  res.json({
+    progress: {
+      current_tier: formatTier(progress.current_tier),
+      next_tier: formatTier(progress.next_tier),
+      activity: {
+        order_count: progress.order_count,
+        spend_total: progress.spend_total,
+        window_months: ACTIVITY_WINDOW_MONTHS,
+      },
+      orders_needed: progress.orders_needed,
+      spend_needed: progress.spend_needed,
+      next_drop_off: progress.next_drop_off,
+      projected_downgrade: downgrade
+        ? {
+            date: downgrade.date,
+            tier: formatTier(downgrade.tier),
+            orders_to_keep: downgrade.orders_to_keep,
+            spend_to_keep: downgrade.spend_to_keep,
+          }
+        : null,
+    },
+  })
+}
+
+/**
+ * OPTIONS /store/membership/progress
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  _req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -0,0 +1,56 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { WISHLIST_MODULE } from "../../../../modules/wishlist"
+import type { WishlistModuleService } from "../../../../modules/wishlist"
+import { verifyStockSubscriptionToken } from "../../../../utils/stock-subscription-token"
+import { z } from "zod"
+
+const TokenSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+})
+
+/**
+ * POST /store/notify-me/unsubscribe
+ * Cancel a back in stock request from the link in its email, so guests can
+ * stop an alert without an account
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const parseResult = TokenSchema.safeParse(req.body ?? {})
+  if (!parseResult.success) {
+    res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.issues,
+    })
+    return
+  }
+
+  const payload = verifyStockSubscriptionToken(parseResult.data.token, "unsubscribe")
+  if (!payload) {
+    res.status(410).json({ message: "This link is invalid" })
+    return
+  }
+
+  const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+  const subscription = await wishlistService.cancelStockSubscription(payload.subscription_id)
+  if (!subscription) {
+    res.status(404).json({ message: "Alert not found" })
+    return
+  }
+
+  res.json({
+    subscribed: false,
+    product_id: subscription.product_id,
+  })
+}
+
+/**
+ * OPTIONS /store/notify-me/unsubscribe
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
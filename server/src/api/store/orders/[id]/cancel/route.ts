@@ -0,0 +1,105 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { Modules, MedusaError } from "@medusajs/framework/utils"
+import { CUSTOMER_CANCEL_GRACE_MINUTES } from "../../../../../lib/constants"
+import { ORDER_EXTENSION_MODULE } from "../../../../../modules/order-extension"
+import { cancelOrder } from "../../../../../utils/cancel-order"
+import { getVerifiedCustomerId } from "../../../../../utils/store-auth"
+
+type StoreCancelBody = {
+  reason?: string
+}
+
+/**
+ * POST /store/orders/:id/cancel
+ * Cancel the customer's own order
+ *
+ * Allowed within CUSTOMER_CANCEL_GRACE_MINUTES of placing the order, while it
+ * is still unfulfilled. The payment is refunded (or the card authorization
+ * released), points and promo uses are given back, reserved stock is freed
+ * and the customer gets a cancellation email.
+ * Requires authentication
+ */
+export const POST = async (
+  req: MedusaRequest<StoreCancelBody>,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    throw new MedusaError(
+      MedusaError.Types.UNAUTHORIZED,
+      "Authentication required"
+    )
+  }
+
+  const orderModule = req.scope.resolve(Modules.ORDER)
+  const orderExtensionService = req.scope.resolve(ORDER_EXTENSION_MODULE) as any
+
+  const orders = await orderModule.listOrders(
+    { id: req.params.id },
+    { relations: ["items"] }
+  )
+  const order = orders[0]
+
+  // Same response for another customer's order, so order IDs can't be probed
+  if (!order || order.customer_id !== customerId) {
+    throw new MedusaError(MedusaError.Types.NOT_FOUND, "Order not found")
+  }
+
+  if (order.status === "canceled") {
+    throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "This order is already cancelled")
+  }
+
+  if (order.status === "completed" || order.status === "archived") {
+    throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "This order can no longer be cancelled")
+  }
+
+  // Once the warehouse starts on an order it can only be returned after delivery
+  const extension = await orderExtensionService.getByOrderId(order.id)
+  if (extension && extension.fulfillment_status !== "unfulfilled") {
+    throw new MedusaError(
+      MedusaError.Types.NOT_ALLOWED,
+      "This order is already being prepared and can no longer be cancelled. Please contact support."
+    )
+  }
+
+  const minutesSincePlaced = (Date.now() - new Date(order.created_at).getTime()) / (1000 * 60)
+  if (minutesSincePlaced > CUSTOMER_CANCEL_GRACE_MINUTES) {
+    throw new MedusaError(
+      MedusaError.Types.NOT_ALLOWED,
+      `Orders can only be cancelled within ${CUSTOMER_CANCEL_GRACE_MINUTES} minutes of checkout. Please contact support.`
+    )
+  }
+
+  const result = await cancelOrder(req.scope, order, {
+    cancelled_by: "customer",
+    reason: req.body?.reason?.trim().slice(0, 500) || undefined,
+  })
+
+  res.json({
+    order: {
+      id: order.id,
+      display_id: order.display_id,
+      status: "canceled",
+      payment_status: result.payment_status,
+      fulfillment_status: "cancelled",
+    },
+    refund: {
+      refunded: result.refund.refunded,
+      voided: result.refund.voided || false,
+      amount: result.refund.amount || 0,
+    },
+    points_restored: result.points?.points_restored || 0,
+  })
+}
+
+/**
+ * OPTIONS /store/orders/:id/cancel
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  _req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -0,0 +1,245 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { Modules, MedusaError } from "@medusajs/framework/utils"
+import { RETURN_MODULE } from "../../../../../modules/return"
+import {
+  calculateReturnRefund,
+  getReturnEligibility,
+  type ReturnItemSelection,
+} from "../../../../../utils/return-eligibility"
+import { getVerifiedCustomerId } from "../../../../../utils/store-auth"
+import { isUploadedFileUrl } from "../../../../../utils/uploaded-file"
+
+const RETURN_TYPES = ["refund", "store_credit", "replacement"] as const
+const RETURN_REASONS = ["defective", "wrong_item", "not_as_described", "changed_mind", "other"] as const
+const MAX_EVIDENCE_PHOTOS = 5
+
+type ReturnReason = (typeof RETURN_REASONS)[number]
+
+type StoreReturnBody = {
+  items: ReturnItemSelection[]
+  reason: ReturnReason
+  reason_details?: string
+  evidence_urls?: string[]
+  return_type?: "refund" | "store_credit" | "replacement"
+}
+
+/**
+ * Load an order with items and adjustments, checking it belongs to the customer
+ */
+async function retrieveCustomerOrder(req: MedusaRequest, customerId: string): Promise<any> {
+  const orderModule = req.scope.resolve(Modules.ORDER)
+
+  const orders = await orderModule.listOrders(
+    { id: req.params.id },
+    { relations: ["items", "items.adjustments"] }
+  )
+  const order = orders[0]
+
+  // Same response for another customer's order, so order IDs can't be probed
+  if (!order || order.customer_id !== customerId) {
+    throw new MedusaError(MedusaError.Types.NOT_FOUND, "Order not found")
+  }
+
+  return order
+}
+
+/**
+ * Customer-facing view of a return request - no admin notes
+ */
+function formatStoreReturn(returnRequest: any) {
+  return {
+    id: returnRequest.id,
+    status: returnRequest.status,
+    return_type: returnRequest.return_type,
+    reason: returnRequest.reason,
+    reason_details: returnRequest.reason_details,
+    evidence_urls: returnRequest.evidence_urls || [],
+    items: returnRequest.items || [],
+    refund_amount: Number(returnRequest.refund_amount) || 0,
+    shipping_refund: Number(returnRequest.shipping_refund) || 0,
+    total_refund: Number(returnRequest.total_refund) || 0,
+    refunded_amount: Number(returnRequest.refunded_amount) || 0,
+    refund_adjustment_reason: returnRequest.refund_adjustment_reason,
+    refund_status: returnRequest.refund_status,
+    refunded_at: returnRequest.refunded_at,
+    rejection_reason: returnRequest.rejection_reason,
+    return_tracking_number: returnRequest.return_tracking_number,
+    return_courier: returnRequest.return_courier,
+    requested_at: returnRequest.requested_at,
+    approved_at: returnRequest.approved_at,
+    rejected_at: returnRequest.rejected_at,
+    received_at: returnRequest.received_at,
+    completed_at: returnRequest.completed_at,
+    updated_at: returnRequest.updated_at,
+  }
+}
+
+/**
+ * GET /store/orders/:id/return
+ * Get the customer's return requests for an order, newest first, and whether
+ * the order can still be returned (with the returnable items and refund amounts)
+ * Requires authentication - customer can only access their own orders
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    throw new MedusaError(
+      MedusaError.Types.UNAUTHORIZED,
+      "Authentication required"
+    )
+  }
+
+  const order = await retrieveCustomerOrder(req, customerId)
+  const returnService = req.scope.resolve(RETURN_MODULE) as any
+
+  const [returns, eligibility] = await Promise.all([
+    returnService.listReturns({ order_id: order.id }, { order: { requested_at: "DESC" } }),
+    getReturnEligibility(req.scope, order),
+  ])
+
+  res.json({
+    returns: returns.map(formatStoreReturn),
+    eligibility,
+  })
+}
+
+/**
+ * POST /store/orders/:id/return
+ * Request a return for delivered items of the customer's order
+ *
+ * Body:
+ * - items: [{ item_id, quantity }] - lines and quantities to return
+ * - reason: defective | wrong_item | not_as_described | changed_mind | other
+ * - reason_details: optional description
+ * - evidence_urls: optional photo URLs, uploaded beforehand via /store/uploads;
+ *   URLs on any other host are rejected
+ * - return_type: refund (default), store_credit (refund as points) or replacement
+ *
+ * The refund amount is worked out here from what was paid for each line,
+ * never taken from the request.
+ */
+export const POST = async (
+  req: MedusaRequest<StoreReturnBody>,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    throw new MedusaError(
+      MedusaError.Types.UNAUTHORIZED,
+      "Authentication required"
+    )
+  }
+
+  const body = req.body || ({} as StoreReturnBody)
+
+  if (!Array.isArray(body.items) || body.items.length === 0) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, "Select at least one item to return")
+  }
+  if (!RETURN_REASONS.includes(body.reason)) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, "A valid return reason is required")
+  }
+  if (body.return_type && !RETURN_TYPES.includes(body.return_type)) {
+    throw new MedusaError(MedusaError.Types.INVALID_DATA, "Return type must be refund, store_credit or replacement")
+  }
+
+  const evidenceUrls = body.evidence_urls || []
+  if (!Array.isArray(evidenceUrls) || evidenceUrls.length > MAX_EVIDENCE_PHOTOS) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      `Up to ${MAX_EVIDENCE_PHOTOS} uploaded photos can be attached`
+    )
+  }
+  if (!evidenceUrls.every(isUploadedFileUrl)) {
+    throw new MedusaError(
+      MedusaError.Types.INVALID_DATA,
+      "Photos must be uploaded through /store/uploads"
+    )
+  }
+
+  const order = await retrieveCustomerOrder(req, customerId)
+
+  // Delivered, within the return window, and no other return in progress
+  const eligibility = await getReturnEligibility(req.scope, order)
+  if (!eligibility.can_return) {
+    throw new MedusaError(MedusaError.Types.NOT_ALLOWED, eligibility.reason)
+  }
+
+  // Merge repeated lines, then check each against what is still returnable
+  const quantities = new Map<string, number>()
+  for (const selection of body.items) {
+    const quantity = Number(selection?.quantity)
+    if (!selection?.item_id || !Number.isInteger(quantity) || quantity < 1) {
+      throw new MedusaError(MedusaError.Types.INVALID_DATA, "Each item needs an item_id and a quantity of at least 1")
+    }
+    quantities.set(selection.item_id, (quantities.get(selection.item_id) || 0) + quantity)
+  }
+
+  const selections: ReturnItemSelection[] = Array.from(quantities.entries()).map(
+    ([item_id, quantity]) => ({ item_id, quantity })
+  )
+
+  const items = selections.map((selection) => {
+    const returnable = eligibility.returnable_items.find((item) => item.item_id === selection.item_id)
+
+    if (!returnable) {
+      throw new MedusaError(MedusaError.Types.INVALID_DATA, `Item ${selection.item_id} cannot be returned`)
+    }
+    if (selection.quantity > returnable.returnable_quantity) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Only ${returnable.returnable_quantity} of ${returnable.product_name} can be returned`
+      )
+    }
+
+    return {
+      item_id: returnable.item_id,
+      variant_id: returnable.variant_id,
+      product_name: returnable.product_name,
+      quantity: selection.quantity,
+      unit_price: returnable.unit_price,
+    }
+  })
+
+  const returnService = req.scope.resolve(RETURN_MODULE) as any
+  const discountInfo = eligibility.discount_info
+
+  const returnRequest = await returnService.createReturnRequest({
+    order_id: order.id,
+    customer_id: customerId,
+    return_type: body.return_type || "refund",
+    reason: body.reason,
+    reason_details: body.reason_details?.trim().slice(0, 2000) || undefined,
+    evidence_urls: evidenceUrls,
+    requested_by: "customer",
+    items,
+    refund_amount: calculateReturnRefund(eligibility.returnable_items, selections),
+    shipping_refund: 0,
+    // Original order discount info
+    original_order_total: discountInfo.original_order_total,
+    coupon_code: discountInfo.coupon_code,
+    coupon_discount: discountInfo.coupon_discount,
+    points_redeemed: discountInfo.points_redeemed,
+    points_discount: discountInfo.points_discount,
+    pwp_discount: discountInfo.pwp_discount,
+  })
+
+  res.status(201).json({
+    return: formatStoreReturn(returnRequest),
+  })
+}
+
+/**
+ * OPTIONS /store/orders/:id/return
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  _req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -4,9 +4,12 @@ import { MEMBERSHIP_MODULE } from "../../../modules/membership"
 import { POINTS_MODULE } from "../../../modules/points"
 import { getVerifiedCustomerId } from "../../../utils/store-auth"
 
+const EXPIRING_SOON_DAYS = 30
+
 /**
  * GET /store/points
- * Get customer's points balance and redemption info
+ * Get customer's points balance, redemption info and points expiring
+ * in the next 30 days
  * Requires authentication + membership
  */
 export const GET = async (
@@ -51,9 +54,16 @@ export const GET = async (
         points_per_dollar: pointsPerDollar,
         example: `${pointsPerDollar} points = $1.00`,
       },
+      expiring_soon: {
+        points: 0,
+        expires_at: null,
+        within_days: EXPIRING_SOON_DAYS,
+      },
     })
   }
 
+  const expiringSoon = await pointsService.getExpiringPoints(customerId, EXPIRING_SOON_DAYS)
+
   res.json({
     balance: Number(balance.balance),
     total_earned: Number(balance.total_earned),
@@ -63,6 +73,11 @@ export const GET = async (
       points_per_dollar: pointsPerDollar,
       example: `${pointsPerDollar} points = $1.00`,
     },
+    expiring_soon: {
+      points: expiringSoon.points,
+      expires_at: expiringSoon.expires_at,
+      within_days: EXPIRING_SOON_DAYS,
+    },
   })
 }
 
@@ -0,0 +1,179 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import type { INotificationModuleService } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+import { STOREFRONT_URL } from "../../../../../lib/constants"
+import { EmailTemplates } from "../../../../../modules/email-notifications/templates"
+import { WISHLIST_MODULE } from "../../../../../modules/wishlist"
+import type { WishlistModuleService } from "../../../../../modules/wishlist"
+import { signStockSubscriptionToken } from "../../../../../utils/stock-subscription-token"
+import { getVerifiedCustomerId } from "../../../../../utils/store-auth"
+import { getProductAvailability } from "../../../../../utils/wishlist-alerts"
+import { z } from "zod"
+
+const NotifyMeSchema = z.object({
+  email: z.string().email("Valid email is required").optional(),
+  variant_id: z.string().optional(),
+})
+
+/**
+ * GET /store/products/[id]/notify-me
+ * Whether the logged-in customer is waiting for this product
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.json({ subscribed: false })
+  }
+
+  const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+  const subscribed = await wishlistService.hasActiveStockSubscription(customerId, req.params.id)
+
+  res.json({ subscribed })
+}
+
+/**
+ * POST /store/products/[id]/notify-me
+ * Ask to be emailed once an out of stock product is available again.
+ * Customers are subscribed with their account email. Guests give an email
+ * and are sent a confirmation link first - the request only counts once
+ * confirmed, so nobody can sign up an address they don't own.
+ * Products (or the chosen variant) that can be bought now are refused
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+  const productId = req.params.id
+
+  const parseResult = NotifyMeSchema.safeParse(req.body ?? {})
+  if (!parseResult.success) {
+    return res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.flatten(),
+    })
+  }
+
+  const data = parseResult.data
+  const productModule = req.scope.resolve(Modules.PRODUCT)
+  const customerModule = req.scope.resolve(Modules.CUSTOMER)
+
+  const [product] = await productModule.listProducts(
+    { id: productId, status: "published" },
+    { relations: ["variants"], select: ["id", "title", "thumbnail"] }
+  )
+  if (!product) {
+    return res.status(404).json({ message: "Product not found" })
+  }
+  if (data.variant_id && !product.variants?.some((v) => v.id === data.variant_id)) {
+    return res.status(400).json({ message: "Variant does not belong to this product" })
+  }
+
+  const availability = (await getProductAvailability(req.scope, [productId])).get(productId)
+  const inStock = data.variant_id
+    ? availability?.variants.get(data.variant_id)?.in_stock
+    : availability?.in_stock
+  if (inStock) {
+    return res.status(400).json({ message: "This product is in stock and can be ordered now" })
+  }
+
+  let email = data.email
+  if (customerId) {
+    const customer = await customerModule.retrieveCustomer(customerId)
+    email = customer.email || undefined
+  }
+  if (!email) {
+    return res.status(400).json({ message: "Email is required" })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    const { subscription, is_new } = await wishlistService.subscribeToStock({
+      product_id: productId,
+      variant_id: data.variant_id,
+      email,
+      customer_id: customerId,
+      confirmed: !!customerId,
+    })
+
+    if (subscription.status === "active") {
+      return res.status(201).json({
+        subscribed: true,
+        message: "We'll email you when this product is back in stock",
+      })
+    }
+
+    // Only a new request sends the confirmation, so repeating the request
+    // can't be used to flood an inbox
+    if (is_new) {
+      const notificationModuleService = req.scope.resolve<INotificationModuleService>(
+        Modules.NOTIFICATION
+      )
+      await notificationModuleService.createNotifications({
+        to: subscription.email,
+        channel: "email",
+        template: EmailTemplates.NOTIFY_ME_CONFIRM,
+        data: {
+          emailOptions: {
+            replyTo: "support@lb-frozen.com",
+            subject: `Confirm your alert for ${product.title}`,
+          },
+          productTitle: product.title,
+          thumbnail: product.thumbnail || undefined,
+          confirmLink: `${STOREFRONT_URL}/notify-me?action=confirm&token=${encodeURIComponent(
+            signStockSubscriptionToken(subscription.id, "confirm")
+          )}`,
+          unsubscribeLink: `${STOREFRONT_URL}/notify-me?action=unsubscribe&token=${encodeURIComponent(
+            signStockSubscriptionToken(subscription.id, "unsubscribe")
+          )}`,
+          preview: `Confirm your alert for ${product.title}`,
+        },
+      })
+    }
+
+    res.status(201).json({
+      subscribed: false,
+      pending_confirmation: true,
+      message: "Check your email to confirm the alert",
+    })
+  } catch (error) {
+    console.error("[API] Failed to subscribe to stock notification:", error)
+    res.status(500).json({ message: "Failed to subscribe to stock notification" })
+  }
+}
+
+/**
+ * DELETE /store/products/[id]/notify-me
+ * Stop waiting for a product (customers only)
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+  await wishlistService.cancelStockSubscriptions(customerId, req.params.id)
+
+  res.json({ subscribed: false })
+}
+
+/**
+ * OPTIONS /store/products/[id]/notify-me
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
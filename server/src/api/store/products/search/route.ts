@@ -1,7 +1,31 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
 import { z } from "zod"
+import type { ProductSearchSortField } from "../../../../modules/product-search"
 import { REVIEW_MODULE } from "../../../../modules/review"
+import { searchProducts } from "../../../../utils/product-search"
+
+/**
+ * Sort fields accepted by `order`, prefixed with "-" for descending
+ */
+const SORT_FIELDS: Record<string, ProductSearchSortField> = {
+  created_at: "created_at",
+  title: "title",
+  price: "price",
+  sold_count: "sold_count",
+  popularity: "sold_count",
+  rating: "rating",
+}
+
+/**
+ * Most delivery days allowed per delivery speed
+ */
+const DELIVERY_SPEED_DAYS: Record<string, number | undefined> = {
+  today: 0,
+  tomorrow: 1,
+  few_days: 3,
+  anytime: undefined,
+}
 
 /**
  * Search Query Schema
@@ -9,10 +33,20 @@ import { REVIEW_MODULE } from "../../../../modules/review"
 const SearchQuerySchema = z.object({
   q: z.string().optional(),
   category_id: z.string().optional(),
+  brand_id: z.string().optional(),
+  tags: z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .transform((v) => (v === undefined ? undefined : (Array.isArray(v) ? v : v.split(",")).filter(Boolean))),
   limit: z.coerce.number().min(1).max(100).default(12),
   offset: z.coerce.number().min(0).default(0),
-  order: z.string().optional(),
+  order: z
+    .string()
+    .optional()
+    .refine((v) => !v || (v.replace(/^-/, "") in SORT_FIELDS), { message: "Unknown sort field" }),
   // Custom filters
+  min_price: z.coerce.number().min(0).optional(),
+  max_price: z.coerce.number().min(0).optional(),
   min_rating: z.coerce.number().min(1).max(5).optional(),
   delivery_speed: z.enum(["today", "tomorrow", "few_days", "anytime"]).optional(),
   flash_sale: z.coerce.boolean().optional(),
@@ -23,15 +57,22 @@ const SearchQuerySchema = z.object({
 
 /**
  * GET /store/products/search
- * Advanced product search with filtering by rating, delivery speed, and tags
+ * Product search backed by the search index (Meilisearch when configured,
+ * SQL otherwise), with facet counts for the filter UI
  * 
  * Query params:
- * - q: search query
+ * - q: search query (typo-tolerant with Meilisearch)
  * - category_id: filter by category
+ * - brand_id: filter by brand
+ * - tags: filter by tag values, comma-separated (all must match)
  * - limit: max results (default 12)
  * - offset: pagination offset
- * - order: sort field (e.g., "created_at", "-created_at", "title", "-title")
- * - min_rating: minimum rating filter (1-5)
+ * - order: sort field, "-" prefix for descending - created_at, title, price,
+ *   sold_count (or popularity), rating. Defaults to relevance when searching,
+ *   newest first otherwise
+ * - min_price / max_price: price range of the cheapest variant, in cents
+ *   (e.g. min_price=2000 for RM20.00), the same unit as facets.price_ranges
+ * - min_rating: products whose average rating rounds to this many stars
  * - delivery_speed: "today", "tomorrow", "few_days", "anytime"
  * - flash_sale: filter for flash sale products
  * - trending: filter for trending products
@@ -55,9 +96,13 @@ export const GET = async (
   const {
     q,
     category_id,
+    brand_id,
+    tags,
     limit,
     offset,
     order,
+    min_price,
+    max_price,
     min_rating,
     delivery_speed,
     flash_sale,
@@ -72,119 +117,39 @@ export const GET = async (
   const pricingModule = req.scope.resolve(Modules.PRICING)
   const inventoryModule = req.scope.resolve(Modules.INVENTORY)
 
-  // Build product filters
-  const productFilters: any = {
-    status: "published",
-  }
-
-  if (category_id) {
-    productFilters.categories = { id: category_id }
-  }
-
-  // Build order config
-  let orderConfig: any = { created_at: "DESC" } // Default: newest first
-  if (order) {
-    const isDesc = order.startsWith("-")
-    const field = isDesc ? order.slice(1) : order
-    orderConfig = { [field]: isDesc ? "DESC" : "ASC" }
-  }
-
-  // Fetch products with search
-  let products: any[] = []
-  
-  if (q) {
-    // Use search if query provided
-    products = await productModule.listProducts(
-      productFilters,
-      {
-        relations: ["variants", "images", "categories", "options", "options.values"],
-        take: 500, // Get more to filter later
-        order: orderConfig,
-      }
-    )
-    
-    // Filter by search query (title, description, handle)
-    const searchLower = q.toLowerCase()
-    products = products.filter((p: any) => 
-      p.title?.toLowerCase().includes(searchLower) ||
-      p.description?.toLowerCase().includes(searchLower) ||
-      p.handle?.toLowerCase().includes(searchLower)
-    )
-  } else {
-    products = await productModule.listProducts(
-      productFilters,
-      {
-        relations: ["variants", "images", "categories", "options", "options.values"],
-        take: 500, // Get more to filter later
-        order: orderConfig,
-      }
-    )
-  }
-
-  // Get all reviews for products to calculate real ratings
-  let allProductRatings: Record<string, number> = {} // product_id -> average_rating
-  try {
-    const reviewModule = req.scope.resolve(REVIEW_MODULE) as any
-    const allProductIds = products.map((p: any) => p.id)
-    const allReviews = await reviewModule.listReviews({ product_id: allProductIds })
-    
-    for (const product of products) {
-      const productReviews = allReviews.filter((r: any) => r.product_id === product.id)
-      if (productReviews.length > 0) {
-        const sum = productReviews.reduce((acc: number, r: any) => acc + r.rating, 0)
-        allProductRatings[product.id] = sum / productReviews.length
-      }
-    }
-  } catch (e) {
-    console.warn("Could not fetch reviews for rating filter:", e)
-  }
-
-  // Apply filters
-  if (min_rating !== undefined) {
-    products = products.filter((p: any) => {
-      const rating = allProductRatings[p.id] || 0
-      // Exact match: round rating and compare
-      const roundedRating = Math.round(rating)
-      return roundedRating === min_rating
-    })
-  }
-
-  if (delivery_speed) {
-    products = products.filter((p: any) => {
-      const shippingDays = p.metadata?.shipping_days || "3-7"
-      const [minDays] = shippingDays.split("-").map(Number)
-      
-      switch (delivery_speed) {
-        case "today":
-          return minDays === 0
-        case "tomorrow":
-          return minDays <= 1
-        case "few_days":
-          return minDays <= 3
-        case "anytime":
-        default:
-          return true
-      }
-    })
-  }
-
-  if (flash_sale) {
-    products = products.filter((p: any) => p.metadata?.flash_sale === true)
-  }
-
-  if (trending) {
-    products = products.filter((p: any) => p.metadata?.trending === true)
-  }
-
-  if (on_brand) {
-    products = products.filter((p: any) => p.metadata?.on_brand === true || p.metadata?.featured === true)
-  }
-
-  // Get total count before pagination
-  const totalCount = products.length
+  const search = await searchProducts(req.scope, {
+    q,
+    category_id,
+    brand_id,
+    tags,
+    min_price,
+    max_price,
+    rating: min_rating,
+    max_shipping_days: delivery_speed ? DELIVERY_SPEED_DAYS[delivery_speed] : undefined,
+    flash_sale,
+    trending,
+    on_brand,
+    sort: order
+      ? {
+          field: SORT_FIELDS[order.replace(/^-/, "")],
+          direction: order.startsWith("-") ? "desc" : "asc",
+        }
+      : undefined,
+    limit,
+    offset,
+  })
 
-  // Apply pagination
-  const paginatedProducts = products.slice(offset, offset + limit)
+  // Load the page's products, in search order
+  const pageProducts = search.ids.length > 0
+    ? await productModule.listProducts(
+        { id: search.ids },
+        { relations: ["variants", "images", "categories", "options", "options.values"] }
+      )
+    : []
+  const productById = new Map(pageProducts.map((p: any) => [p.id, p]))
+  const paginatedProducts: any[] = search.ids
+    .map((id) => productById.get(id))
+    .filter(Boolean)
 
   // Get variant IDs for pricing and inventory
   const variantIds = paginatedProducts.flatMap((p: any) =>
@@ -279,19 +244,6 @@ export const GET = async (
     }
   }
 
-  // Calculate rating distribution from already-fetched ratings (allProductRatings)
-  // Count exact matches per rating level (not cumulative)
-  const ratingCounts = { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 }
-  for (const product of products) {
-    const avgRating = allProductRatings[product.id]
-    if (avgRating && avgRating > 0) {
-      const roundedRating = Math.round(avgRating)
-      if (roundedRating >= 1 && roundedRating <= 5) {
-        ratingCounts[roundedRating as keyof typeof ratingCounts]++
-      }
-    }
-  }
-
   // Get review stats for paginated products only (for display - need total_reviews too)
   let productReviewStats: Record<string, { average_rating: number; total_reviews: number }> = {}
   try {
@@ -421,16 +373,11 @@ export const GET = async (
 
   res.json({
     products: formattedProducts,
-    count: totalCount,
+    count: search.count,
     offset,
     limit,
-    // Include rating distribution for filter UI
-    rating_counts: {
-      5: ratingCounts[5],
-      4: ratingCounts[4],
-      3: ratingCounts[3],
-      2: ratingCounts[2],
-      1: ratingCounts[1],
-    },
+    // Rating distribution for the filter UI (same as facets.ratings)
+    rating_counts: search.facets.ratings,
+    facets: search.facets,
   })
 }
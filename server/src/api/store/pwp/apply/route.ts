@@ -2,7 +2,17 @@ import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/framework/utils"
 import { PROMO_MODULE } from "../../../../modules/promo"
 import type PromoModuleService from "../../../../modules/promo/services/promo"
-import type { ApplyPWPRequest } from "../schemas"
+import {
+  calculatePWPDiscount,
+  countPWPRewardQuantity,
+  evaluatePWPRule,
+  getCartProductIds,
+  getPWPMaxRewardQuantity,
+  getPWPRewardProductIds,
+  getPWPTriggerProductIds,
+  type PWPRuleConditions,
+} from "../../../../utils/pwp-rules"
+import { ApplyPWPSchema, type ApplyPWPRequest } from "../schemas"
 
 /**
  * Helper function to get available inventory for a specific variant
@@ -64,16 +74,17 @@ export const POST = async (
   req: MedusaRequest<ApplyPWPRequest>,
   res: MedusaResponse
 ): Promise<void> => {
-  const body = req.validatedBody || req.body
-  const { cart_id, pwp_rule_id, variant_id } = body
-  const logger = req.scope.resolve("logger")
-
-  if (!cart_id || !pwp_rule_id || !variant_id) {
+  const parseResult = ApplyPWPSchema.safeParse(req.body ?? {})
+  if (!parseResult.success) {
     throw new MedusaError(
       MedusaError.Types.INVALID_DATA,
-      "Missing required fields: cart_id, pwp_rule_id, and variant_id are required"
+      parseResult.error.issues
+        .map((issue) => `${issue.path.join(".") || "body"}: ${issue.message}`)
+        .join("; ")
     )
   }
+  const { cart_id, pwp_rule_id, variant_id, quantity } = parseResult.data
+  const logger = req.scope.resolve("logger")
 
   try {
     const cartModuleService = req.scope.resolve(Modules.CART)
@@ -127,68 +138,43 @@ export const POST = async (
       )
     }
 
-    // Check usage limit
-    if (rule.usage_limit && rule.redemption_count >= rule.usage_limit) {
+    // Check usage limit (uses held by other carts count as taken)
+    if (rule.usage_limit && rule.redemption_count + (rule.reserved_count || 0) >= rule.usage_limit) {
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
         "This PWP offer has reached its usage limit"
       )
     }
 
-    // Check if this PWP is already applied to cart
-    const existingPWPItem = (cart.items || []).find(
-      (item) => item.metadata?.is_pwp_item && item.metadata?.pwp_rule_id === pwp_rule_id
-    )
-    if (existingPWPItem) {
+    // Check the rule's reward quantity cap (reward items already in the cart count)
+    const ruleConditions = rule as unknown as PWPRuleConditions
+    const maxRewardQuantity = getPWPMaxRewardQuantity(ruleConditions)
+    const existingRewardQuantity = countPWPRewardQuantity(cart.items || [], pwp_rule_id)
+    if (existingRewardQuantity + quantity > maxRewardQuantity) {
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
-        "This PWP offer is already applied to your cart"
+        existingRewardQuantity > 0 && maxRewardQuantity === 1
+          ? "This PWP offer is already applied to your cart"
+          : `You can add up to ${maxRewardQuantity} reward item(s) for this offer (${existingRewardQuantity} already in cart)`
       )
     }
 
-    // Check trigger condition
+    // Check trigger condition (cart value excludes other PWP items)
     const cartValue = (cart.items || []).reduce((sum, item) => {
-      // Exclude other PWP items from cart value calculation
       if (item.metadata?.is_pwp_item) return sum
       const unitPrice = Number(item.unit_price) || 0
       const qty = Number(item.quantity) || 0
       return sum + (unitPrice * qty)
     }, 0)
 
-    let triggerMet = false
-    if (rule.trigger_type === "cart_value") {
-      triggerMet = rule.trigger_cart_value ? cartValue >= rule.trigger_cart_value : false
-    } else if (rule.trigger_type === "product") {
-      // Check if trigger product is in cart
-      for (const item of cart.items || []) {
-        if (item.variant_id) {
-          try {
-            const variant = await productModuleService.retrieveProductVariant(item.variant_id, {
-              select: ["product_id"],
-            })
-            if (variant?.product_id === rule.trigger_product_id) {
-              triggerMet = true
-              break
-            }
-          } catch {
-            // Continue checking
-          }
-        }
-      }
-    }
+    const cartProductIds = await getCartProductIds(req.scope, cart.items || [])
+    const evaluation = evaluatePWPRule(ruleConditions, cartValue, cartProductIds)
 
-    if (!triggerMet) {
-      if (rule.trigger_type === "cart_value") {
-        throw new MedusaError(
-          MedusaError.Types.INVALID_DATA,
-          `Cart value must be at least ${((rule.trigger_cart_value || 0) / 100).toFixed(2)} to qualify for this offer`
-        )
-      } else {
-        throw new MedusaError(
-          MedusaError.Types.INVALID_DATA,
-          "You must have the trigger product in your cart to qualify for this offer"
-        )
-      }
+    if (!evaluation.trigger_met || !evaluation.reward) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        evaluation.error || "Your cart does not qualify for this offer"
+      )
     }
 
     // Verify variant belongs to reward product
@@ -203,16 +189,16 @@ export const POST = async (
       )
     }
 
-    if (variant.product_id !== rule.reward_product_id) {
+    if (!variant.product_id || !getPWPRewardProductIds(ruleConditions).includes(variant.product_id)) {
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
-        "Selected variant does not belong to the reward product"
+        "Selected variant does not belong to a reward product of this offer"
       )
     }
 
     // Check variant inventory before adding to cart
     const availableInventory = await getVariantAvailableInventory(query, variant_id)
-    if (availableInventory <= 0) {
+    if (availableInventory < quantity) {
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
         "Sorry, this PWP item is currently out of stock"
@@ -257,71 +243,90 @@ export const POST = async (
       )
     }
 
-    // Calculate discount amount
-    let discountAmount: number
-    if (rule.reward_type === "percentage") {
-      discountAmount = Math.round(originalPrice * (rule.reward_value / 100))
-    } else {
-      discountAmount = Math.min(rule.reward_value, originalPrice)
-    }
+    // Calculate per-unit discount at the reward tier the cart reaches
+    const reward = evaluation.reward
+    const discountAmount = calculatePWPDiscount(originalPrice, reward)
     const discountedPrice = originalPrice - discountAmount
 
     // Get product info for the line item title
-    const product = await productModuleService.retrieveProduct(rule.reward_product_id!, {
+    const product = await productModuleService.retrieveProduct(variant.product_id, {
       select: ["id", "title", "thumbnail"],
     })
 
-    // Add line item to cart at ORIGINAL price with PWP metadata
-    // The discount will be applied via line item adjustment
-    // Store trigger requirements in metadata for validation on cart update
-    const lineItems = await cartModuleService.addLineItems(cart_id, [
-      {
-        title: product?.title || "PWP Item",
-        variant_id: variant_id,
-        quantity: 1,
-        unit_price: originalPrice, // Use original price - discount via adjustment
-        thumbnail: product?.thumbnail || undefined,
-        metadata: {
-          is_pwp_item: true,
-          pwp_rule_id: rule.id,
-          pwp_rule_name: rule.name,
-          pwp_original_price: originalPrice,
-          pwp_discount_amount: discountAmount,
-          pwp_discount_type: rule.reward_type,
-          pwp_discount_value: rule.reward_value,
-          // Store trigger requirements for cart validation
-          pwp_trigger_type: rule.trigger_type,
-          pwp_trigger_cart_value: rule.trigger_type === "cart_value" ? rule.trigger_cart_value : null,
-          pwp_trigger_product_id: rule.trigger_type === "product" ? rule.trigger_product_id : null,
-        },
-      },
-    ])
-
-    const lineItemId = lineItems[0]?.id
-    if (!lineItemId) {
+    // Reserve one use of the offer for this cart (atomic - guarantees usage_limit)
+    const reservation = await promoService.reservePromo("pwp", rule.id, cart_id)
+    if (!reservation) {
       throw new MedusaError(
-        MedusaError.Types.UNEXPECTED_STATE,
-        "Failed to add PWP item to cart"
+        MedusaError.Types.NOT_ALLOWED,
+        "This PWP offer has reached its usage limit"
       )
     }
 
-    // Apply discount via line item adjustment (this persists across cart operations)
-    await cartModuleService.addLineItemAdjustments([
-      {
-        item_id: lineItemId,
-        code: `PWP_${rule.id}`,
-        amount: discountAmount, // Positive value - Medusa subtracts this from total
-        description: `PWP: ${rule.name}`,
-        promotion_id: null,
-      },
-    ])
+    let lineItemId: string | undefined
+    try {
+      // Add line item to cart at ORIGINAL price with PWP metadata
+      // The discount will be applied via line item adjustment
+      // Store trigger requirements in metadata for validation on cart update
+      const lineItems = await cartModuleService.addLineItems(cart_id, [
+        {
+          title: product?.title || "PWP Item",
+          variant_id: variant_id,
+          quantity,
+          unit_price: originalPrice, // Use original price - discount via adjustment
+          thumbnail: product?.thumbnail || undefined,
+          metadata: {
+            is_pwp_item: true,
+            pwp_rule_id: rule.id,
+            pwp_rule_name: rule.name,
+            pwp_original_price: originalPrice,
+            pwp_discount_amount: discountAmount, // Per unit
+            pwp_discount_type: reward.reward_type,
+            pwp_discount_value: reward.reward_value,
+            // Store trigger requirements for cart validation
+            pwp_trigger_type: rule.trigger_type,
+            pwp_trigger_cart_value: reward.min_cart_value || null,
+            pwp_trigger_product_id: rule.trigger_type === "product" ? rule.trigger_product_id : null,
+            pwp_trigger_product_ids: rule.trigger_type === "product" ? getPWPTriggerProductIds(ruleConditions) : null,
+            pwp_trigger_match: rule.trigger_match,
+            pwp_reward_tiers: rule.reward_tiers,
+            pwp_max_reward_quantity: maxRewardQuantity,
+          },
+        },
+      ])
+
+      lineItemId = lineItems[0]?.id
+      if (!lineItemId) {
+        throw new MedusaError(
+          MedusaError.Types.UNEXPECTED_STATE,
+          "Failed to add PWP item to cart"
+        )
+      }
+
+      // Apply discount via line item adjustment (this persists across cart operations)
+      await cartModuleService.addLineItemAdjustments([
+        {
+          item_id: lineItemId,
+          code: `PWP_${rule.id}`,
+          amount: discountAmount * quantity, // Positive value - Medusa subtracts this from total
+          description: `PWP: ${rule.name}`,
+          promotion_id: null,
+        },
+      ])
+    } catch (error) {
+      // Give the reserved use back if the offer couldn't be applied
+      // (unless earlier reward items of this offer still hold it)
+      if (existingRewardQuantity === 0) {
+        await promoService.releasePromoReservation("pwp", rule.id, cart_id)
+      }
+      throw error
+    }
 
     // Get updated cart
     const updatedCart = await cartModuleService.retrieveCart(cart_id, {
       relations: ["items", "items.adjustments"],
     })
 
-    logger.info(`Applied PWP rule ${rule.id} (${rule.name}) to cart ${cart_id} - discount: ${discountAmount} cents`)
+    logger.info(`Applied PWP rule ${rule.id} (${rule.name}) to cart ${cart_id} - ${quantity} item(s), discount: ${discountAmount} cents each`)
 
     res.json({
       success: true,
@@ -329,10 +334,12 @@ export const POST = async (
       pwp_item: {
         line_item_id: lineItemId,
         variant_id: variant_id,
+        quantity,
         original_price: originalPrice,
         discounted_price: discountedPrice,
         discount_amount: discountAmount,
         rule_name: rule.name,
+        remaining_reward_quantity: maxRewardQuantity - existingRewardQuantity - quantity,
       },
       cart: updatedCart,
     })
@@ -2,6 +2,18 @@ import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/framework/utils"
 import { PROMO_MODULE } from "../../../../modules/promo"
 import type PromoModuleService from "../../../../modules/promo/services/promo"
+import {
+  calculatePWPDiscount,
+  countPWPRewardQuantity,
+  evaluatePWPRule,
+  getCartProductIds,
+  getPWPMaxRewardQuantity,
+  getPWPRewardProductIds,
+  getPWPRewardTiers,
+  getPWPTriggerProductIds,
+  type PWPRewardTier,
+  type PWPRuleConditions,
+} from "../../../../utils/pwp-rules"
 import type { CheckPWPRequest } from "../schemas"
 
 /**
@@ -68,10 +80,142 @@ async function getVariantInventoryMap(
   return inventoryMap
 }
 
+type RewardProduct = {
+  id: string
+  title: string
+  thumbnail: string | null
+  variants: Array<{
+    id: string
+    title: string
+    sku: string | null
+    prices: Array<{
+      amount: number
+      currency_code: string
+    }>
+    inventory_quantity: number
+  }>
+  original_price: number | null
+  discounted_price: number | null
+  is_out_of_stock: boolean
+  total_inventory: number
+}
+
+/**
+ * Helper function to load a reward product with variant prices and inventory
+ * Discounted price is calculated from the first variant's price at the given reward
+ */
+async function getRewardProduct(
+  scope: MedusaRequest["scope"],
+  productId: string,
+  currencyCode: string,
+  reward: PWPRewardTier
+): Promise<RewardProduct | null> {
+  const logger = scope.resolve("logger")
+  const productModuleService = scope.resolve(Modules.PRODUCT)
+  const pricingModule = scope.resolve(Modules.PRICING)
+  const query = scope.resolve(ContainerRegistrationKeys.QUERY)
+
+  try {
+    const product = await productModuleService.retrieveProduct(productId, {
+      relations: ["variants"],
+    })
+
+    if (!product) return null
+
+    // Get variant IDs for price and inventory lookup
+    const variantIds = (product.variants || []).map((v: any) => v.id)
+
+    // Fetch prices via price set link (Medusa v2 pattern)
+    const priceMap = new Map<string, Array<{ amount: number; currency_code: string }>>()
+
+    // Fetch inventory levels for all variants
+    const inventoryMap = await getVariantInventoryMap(query, variantIds)
+
+    // Calculate total inventory across all variants
+    let totalInventory = 0
+    for (const variantId of variantIds) {
+      totalInventory += inventoryMap.get(variantId) || 0
+    }
+
+    if (variantIds.length > 0) {
+      try {
+        // Get variant price sets via link
+        const { data: variantPriceSets } = await query.graph({
+          entity: "product_variant_price_set",
+          fields: ["variant_id", "price_set_id"],
+          filters: {
+            variant_id: variantIds,
+          },
+        })
+
+        // Get prices for all price sets
+        const priceSetIds = variantPriceSets.map((vps: any) => vps.price_set_id).filter(Boolean)
+
+        if (priceSetIds.length > 0) {
+          const prices = await pricingModule.listPrices(
+            { price_set_id: priceSetIds },
+            { select: ["amount", "currency_code", "price_set_id"] }
+          )
+
+          // Create map of price_set_id to prices
+          const priceSetToPrices = new Map<string, Array<{ amount: number; currency_code: string }>>()
+          for (const price of prices) {
+            const existing = priceSetToPrices.get(price.price_set_id) || []
+            existing.push({ amount: Number(price.amount), currency_code: price.currency_code })
+            priceSetToPrices.set(price.price_set_id, existing)
+          }
+
+          // Map variant_id to prices
+          for (const vps of variantPriceSets) {
+            if (vps.price_set_id && priceSetToPrices.has(vps.price_set_id)) {
+              priceMap.set(vps.variant_id, priceSetToPrices.get(vps.price_set_id)!)
+            }
+          }
+        }
+      } catch (priceErr) {
+        logger.warn(`Failed to fetch prices for variants: ${priceErr}`)
+      }
+    }
+
+    // Get first variant price as original price
+    const firstVariant = product.variants?.[0] as any
+    const variantPrices = priceMap.get(firstVariant?.id) || []
+    const price = variantPrices.find(
+      (p: any) => p.currency_code === currencyCode
+    ) || variantPrices[0]
+
+    const originalPrice = price ? price.amount : null
+
+    return {
+      id: product.id,
+      title: product.title,
+      thumbnail: product.thumbnail,
+      variants: (product.variants || []).map((v: any) => ({
+        id: v.id,
+        title: v.title || "",
+        sku: v.sku,
+        prices: priceMap.get(v.id) || [],
+        inventory_quantity: inventoryMap.get(v.id) || 0,
+      })),
+      original_price: originalPrice,
+      discounted_price: originalPrice !== null
+        ? originalPrice - calculatePWPDiscount(originalPrice, reward)
+        : null,
+      // Product is out of stock if no variant has available inventory
+      is_out_of_stock: totalInventory <= 0,
+      total_inventory: totalInventory,
+    }
+  } catch (err) {
+    logger.warn(`Failed to retrieve reward product ${productId}: ${err}`)
+    return null
+  }
+}
+
 /**
  * POST /store/pwp/check
  * Check which PWP offers are eligible for a cart
- * Returns list of available PWP offers based on cart contents and value
+ * Returns list of available PWP offers based on cart contents and value,
+ * including the reward tier reached, the next tier and the reward product pool
  */
 export const POST = async (
   req: MedusaRequest<CheckPWPRequest>,
@@ -90,9 +234,6 @@ export const POST = async (
 
   try {
     const cartModuleService = req.scope.resolve(Modules.CART)
-    const productModuleService = req.scope.resolve(Modules.PRODUCT)
-    const pricingModule = req.scope.resolve(Modules.PRICING)
-    const query = req.scope.resolve(ContainerRegistrationKeys.QUERY)
     const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
 
     // Get cart with items
@@ -107,6 +248,8 @@ export const POST = async (
       )
     }
 
+    const currencyCode = cart.currency_code || "myr"
+
     // Calculate cart value (sum of all item totals, excluding PWP items)
     // PWP items should not count toward threshold eligibility
     const cartValue = (cart.items || []).reduce((sum, item) => {
@@ -117,22 +260,8 @@ export const POST = async (
       return sum + (unitPrice * qty)
     }, 0)
 
-    // Get product IDs in cart
-    const cartProductIds = new Set<string>()
-    for (const item of cart.items || []) {
-      if (item.variant_id) {
-        try {
-          const variant = await productModuleService.retrieveProductVariant(item.variant_id, {
-            select: ["product_id"],
-          })
-          if (variant?.product_id) {
-            cartProductIds.add(variant.product_id)
-          }
-        } catch {
-          // Variant might not exist, skip
-        }
-      }
-    }
+    // Get product IDs in cart (PWP items don't trigger other offers)
+    const cartProductIds = await getCartProductIds(req.scope, cart.items || [])
 
     // Get all active PWP rules
     const now = new Date()
@@ -149,25 +278,22 @@ export const POST = async (
       trigger_type: string
       trigger_cart_value: number | null
       trigger_product_id: string | null
+      trigger_product_ids: string[]
+      trigger_match: "any" | "all"
       trigger_met: boolean
+      missing_product_ids: string[]
+      amount_needed: number | null
       reward_product_id: string | null
-      reward_product: {
-        id: string
-        title: string
-        thumbnail: string | null
-        variants: Array<{
-          id: string
-          title: string
-          sku: string | null
-          prices: Array<{
-            amount: number
-            currency_code: string
-          }>
-          inventory_quantity: number
-        }>
-      } | null
+      reward_product: RewardProduct | null
+      reward_products: RewardProduct[]
       reward_type: string
       reward_value: number
+      reward_tiers: PWPRewardTier[]
+      current_reward: PWPRewardTier | null
+      next_tier: PWPRewardTier | null
+      max_reward_quantity: number
+      reward_quantity_in_cart: number
+      remaining_reward_quantity: number
       original_price: number | null
       discounted_price: number | null
       already_applied: boolean
@@ -175,14 +301,6 @@ export const POST = async (
       total_inventory: number
     }> = []
 
-    // Check if cart already has PWP items applied
-    const appliedPWPRuleIds = new Set<string>()
-    for (const item of cart.items || []) {
-      if (item.metadata?.is_pwp_item && item.metadata?.pwp_rule_id) {
-        appliedPWPRuleIds.add(item.metadata.pwp_rule_id as string)
-      }
-    }
-
     for (const rule of allRules) {
       // Check date validity
       if (rule.starts_at && new Date(rule.starts_at) > now) continue
@@ -191,120 +309,36 @@ export const POST = async (
       // Check usage limit
       if (rule.usage_limit && rule.redemption_count >= rule.usage_limit) continue
 
-      // Check trigger condition
-      let triggerMet = false
-      if (rule.trigger_type === "cart_value") {
-        triggerMet = rule.trigger_cart_value ? cartValue >= rule.trigger_cart_value : false
-      } else if (rule.trigger_type === "product") {
-        triggerMet = rule.trigger_product_id ? cartProductIds.has(rule.trigger_product_id) : false
-      }
-
-      // Get reward product info if available
-      let rewardProduct = null
-      let originalPrice: number | null = null
-      let discountedPrice: number | null = null
-      let isOutOfStock = false
-      let totalInventory = 0
-
-      if (rule.reward_product_id) {
-        try {
-          const product = await productModuleService.retrieveProduct(rule.reward_product_id, {
-            relations: ["variants"],
-          })
-
-          if (product) {
-            // Get variant IDs for price and inventory lookup
-            const variantIds = (product.variants || []).map((v: any) => v.id)
+      // Check trigger condition and the reward tier reached
+      const ruleConditions = rule as unknown as PWPRuleConditions
+      const evaluation = evaluatePWPRule(ruleConditions, cartValue, cartProductIds)
+      const rewardTiers = getPWPRewardTiers(ruleConditions)
 
-            // Fetch prices via price set link (Medusa v2 pattern)
-            const priceMap = new Map<string, Array<{ amount: number; currency_code: string }>>()
-
-            // Fetch inventory levels for all variants
-            const inventoryMap = await getVariantInventoryMap(query, variantIds)
-
-            // Calculate total inventory across all variants
-            for (const variantId of variantIds) {
-              totalInventory += inventoryMap.get(variantId) || 0
-            }
-
-            // Product is out of stock if no variant has available inventory
-            isOutOfStock = totalInventory <= 0
-
-            if (variantIds.length > 0) {
-              try {
-                // Get variant price sets via link
-                const { data: variantPriceSets } = await query.graph({
-                  entity: "product_variant_price_set",
-                  fields: ["variant_id", "price_set_id"],
-                  filters: {
-                    variant_id: variantIds,
-                  },
-                })
-
-                // Get prices for all price sets
-                const priceSetIds = variantPriceSets.map((vps: any) => vps.price_set_id).filter(Boolean)
-
-                if (priceSetIds.length > 0) {
-                  const prices = await pricingModule.listPrices(
-                    { price_set_id: priceSetIds },
-                    { select: ["amount", "currency_code", "price_set_id"] }
-                  )
-
-                  // Create map of price_set_id to prices
-                  const priceSetToPrices = new Map<string, Array<{ amount: number; currency_code: string }>>()
-                  for (const price of prices) {
-                    const existing = priceSetToPrices.get(price.price_set_id) || []
-                    existing.push({ amount: Number(price.amount), currency_code: price.currency_code })
-                    priceSetToPrices.set(price.price_set_id, existing)
-                  }
-
-                  // Map variant_id to prices
-                  for (const vps of variantPriceSets) {
-                    if (vps.price_set_id && priceSetToPrices.has(vps.price_set_id)) {
-                      priceMap.set(vps.variant_id, priceSetToPrices.get(vps.price_set_id)!)
-                    }
-                  }
-                }
-              } catch (priceErr) {
-                logger.warn(`Failed to fetch prices for variants: ${priceErr}`)
-              }
-            }
-
-            // Get first variant price as original price
-            const firstVariant = product.variants?.[0] as any
-            const variantPrices = priceMap.get(firstVariant?.id) || []
-            const price = variantPrices.find(
-              (p: any) => p.currency_code === (cart.currency_code || "myr")
-            ) || variantPrices[0]
-
-            if (price) {
-              originalPrice = price.amount
-              // Calculate discounted price
-              if (rule.reward_type === "percentage") {
-                discountedPrice = Math.round(originalPrice * (1 - rule.reward_value / 100))
-              } else {
-                discountedPrice = Math.max(0, originalPrice - rule.reward_value)
-              }
-            }
+      // Show prices at the reward reached, or the first tier when not yet eligible
+      const displayReward = evaluation.reward || rewardTiers[0] || {
+        min_cart_value: 0,
+        reward_type: rule.reward_type,
+        reward_value: rule.reward_value,
+      }
 
-            rewardProduct = {
-              id: product.id,
-              title: product.title,
-              thumbnail: product.thumbnail,
-              variants: (product.variants || []).map((v: any) => ({
-                id: v.id,
-                title: v.title || "",
-                sku: v.sku,
-                prices: priceMap.get(v.id) || [],
-                inventory_quantity: inventoryMap.get(v.id) || 0,
-              })),
-            }
-          }
-        } catch (err) {
-          logger.warn(`Failed to retrieve reward product ${rule.reward_product_id}: ${err}`)
+      const rewardProducts: RewardProduct[] = []
+      for (const productId of getPWPRewardProductIds(ruleConditions)) {
+        const rewardProduct = await getRewardProduct(req.scope, productId, currencyCode, displayReward)
+        if (rewardProduct) {
+          rewardProducts.push(rewardProduct)
         }
       }
 
+      // Headline prices come from the best deal in the pool
+      const bestProduct = rewardProducts.reduce<RewardProduct | null>((best, product) => {
+        const savings = (product.original_price || 0) - (product.discounted_price || 0)
+        const bestSavings = best ? (best.original_price || 0) - (best.discounted_price || 0) : -1
+        return savings > bestSavings ? product : best
+      }, null)
+
+      const maxRewardQuantity = getPWPMaxRewardQuantity(ruleConditions)
+      const rewardQuantityInCart = countPWPRewardQuantity(cart.items || [], rule.id)
+
       eligibleOffers.push({
         rule_id: rule.id,
         name: rule.name,
@@ -312,16 +346,27 @@ export const POST = async (
         trigger_type: rule.trigger_type,
         trigger_cart_value: rule.trigger_cart_value || null,
         trigger_product_id: rule.trigger_product_id || null,
-        trigger_met: triggerMet,
+        trigger_product_ids: getPWPTriggerProductIds(ruleConditions),
+        trigger_match: rule.trigger_match || "any",
+        trigger_met: evaluation.trigger_met,
+        missing_product_ids: evaluation.missing_product_ids,
+        amount_needed: evaluation.amount_needed,
         reward_product_id: rule.reward_product_id,
-        reward_product: rewardProduct,
-        reward_type: rule.reward_type,
-        reward_value: rule.reward_value,
-        original_price: originalPrice,
-        discounted_price: discountedPrice,
-        already_applied: appliedPWPRuleIds.has(rule.id),
-        is_out_of_stock: isOutOfStock,
-        total_inventory: totalInventory,
+        reward_product: rewardProducts[0] || null,
+        reward_products: rewardProducts,
+        reward_type: displayReward.reward_type,
+        reward_value: displayReward.reward_value,
+        reward_tiers: rewardTiers,
+        current_reward: evaluation.reward,
+        next_tier: evaluation.next_tier,
+        max_reward_quantity: maxRewardQuantity,
+        reward_quantity_in_cart: rewardQuantityInCart,
+        remaining_reward_quantity: Math.max(0, maxRewardQuantity - rewardQuantityInCart),
+        original_price: bestProduct?.original_price ?? null,
+        discounted_price: bestProduct?.discounted_price ?? null,
+        already_applied: rewardQuantityInCart > 0,
+        is_out_of_stock: rewardProducts.length > 0 && rewardProducts.every((p) => p.is_out_of_stock),
+        total_inventory: rewardProducts.reduce((sum, p) => sum + p.total_inventory, 0),
       })
     }
 
@@ -335,8 +380,8 @@ export const POST = async (
     res.json({
       success: true,
       cart_value: cartValue,
-      currency_code: cart.currency_code || "myr",
-      eligible_offers: eligibleOffers.filter(o => o.trigger_met && !o.already_applied),
+      currency_code: currencyCode,
+      eligible_offers: eligibleOffers.filter(o => o.trigger_met && o.remaining_reward_quantity > 0),
       all_offers: eligibleOffers,
     })
   } catch (error) {
@@ -1,5 +1,7 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { MedusaError, Modules } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../../../../modules/promo"
+import type PromoModuleService from "../../../../modules/promo/services/promo"
 import type { RemovePWPRequest } from "../schemas"
 
 /**
@@ -23,6 +25,7 @@ export const POST = async (
 
   try {
     const cartModuleService = req.scope.resolve(Modules.CART)
+    const promoService = req.scope.resolve<PromoModuleService>(PROMO_MODULE)
 
     // Get cart with items
     const cart = await cartModuleService.retrieveCart(cart_id, {
@@ -59,6 +62,12 @@ export const POST = async (
     // Remove the line item
     await cartModuleService.deleteLineItems([line_item_id])
 
+    // Release the reserved use of the offer
+    const pwpRuleId = lineItem.metadata?.pwp_rule_id as string | undefined
+    if (pwpRuleId) {
+      await promoService.releasePromoReservation("pwp", pwpRuleId, cart_id)
+    }
+
     // Get updated cart
     const updatedCart = await cartModuleService.retrieveCart(cart_id, {
       relations: ["items", "items.adjustments"],
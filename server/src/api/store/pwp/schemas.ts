@@ -26,12 +26,19 @@ export const ApplyPWPSchema = z
     cart_id: z.string().min(1).describe("The cart ID to apply PWP to"),
     pwp_rule_id: z.string().min(1).describe("The PWP rule ID to apply"),
     variant_id: z.string().min(1).describe("The variant ID of the reward product to add"),
+    quantity: z
+      .number()
+      .int()
+      .positive()
+      .default(1)
+      .describe("Number of reward items to add, up to the rule's max reward quantity"),
   })
   .openapi("ApplyPWPRequest", {
     example: {
       cart_id: "cart_01ABC123",
       pwp_rule_id: "pwp_01ABC123",
       variant_id: "variant_01ABC123",
+      quantity: 1,
     },
   })
 
@@ -0,0 +1,79 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { REVIEW_MODULE } from "../../../../../modules/review"
+import type ReviewModuleService from "../../../../../modules/review/services/review"
+import { getReviewVoter } from "../../../../../utils/review-voter"
+import { z } from "zod"
+
+const VoteSchema = z.object({
+  value: z.enum(["helpful", "not_helpful"]),
+})
+
+/**
+ * POST /store/reviews/:reviewId/vote
+ * Vote a review helpful or not helpful, once per customer or guest IP.
+ * Voting with the other value switches the vote
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const { reviewId } = req.params
+  const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
+
+  const parseResult = VoteSchema.safeParse(req.body)
+  if (!parseResult.success) {
+    res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.issues,
+    })
+    return
+  }
+
+  const voter = getReviewVoter(req)
+
+  try {
+    const review = await reviewService.castVote(reviewId, voter, parseResult.data.value)
+    res.json({
+      helpful_count: review.helpful_count,
+      not_helpful_count: review.not_helpful_count,
+      viewer_vote: parseResult.data.value,
+    })
+  } catch {
+    res.status(404).json({ message: "Review not found" })
+  }
+}
+
+/**
+ * DELETE /store/reviews/:reviewId/vote
+ * Undo the current customer's or guest's vote
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const { reviewId } = req.params
+  const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
+
+  const voter = getReviewVoter(req)
+
+  try {
+    const review = await reviewService.removeVote(reviewId, voter)
+    res.json({
+      helpful_count: review.helpful_count,
+      not_helpful_count: review.not_helpful_count,
+      viewer_vote: null,
+    })
+  } catch {
+    res.status(404).json({ message: "Review not found" })
+  }
+}
+
+/**
+ * OPTIONS /store/reviews/:reviewId/vote
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
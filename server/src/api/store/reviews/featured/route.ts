@@ -26,7 +26,7 @@ export const GET = async (
   try {
     // Use review service to fetch reviews
     const { reviews: allReviews } = await reviewService.listReviewsWithFilters(
-      {}, // No filters to get all reviews
+      { is_approved: true }, // Held and rejected reviews stay off the landing page
       {
         skip: 0,
         take: 50,
@@ -0,0 +1,165 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { Modules } from "@medusajs/framework/utils"
+import { REVIEW_MODULE } from "../../../../modules/review"
+import type ReviewModuleService from "../../../../modules/review/services/review"
+import { emitReviewEvent } from "../../../../utils/review-events"
+import { verifyReviewInvitation, type ReviewInvitation } from "../../../../utils/review-invitation"
+import { isUploadedFileUrl } from "../../../../utils/uploaded-file"
+import { z } from "zod"
+
+const InvitationQuerySchema = z.object({
+  token: z.string().min(1, "Token is required"),
+})
+
+const CreateInvitedReviewSchema = z.object({
+  token: z.string().min(1, "Token is required"),
+  rating: z.number().int().min(1).max(5),
+  title: z.string().max(200).optional().nullable(),
+  content: z.string().max(5000).optional().nullable(),
+  images: z.array(
+    z.string().url().refine(isUploadedFileUrl, "Photos must be uploaded through /store/uploads")
+  ).max(5).optional().default([]),
+})
+
+/**
+ * The order item a review link points at, or null when the link no longer
+ * matches the order (item removed, order moved to another customer)
+ */
+async function loadInvitedItem(
+  req: MedusaRequest,
+  invitation: ReviewInvitation
+): Promise<{ order: any; item: any } | null> {
+  const orderModule = req.scope.resolve(Modules.ORDER)
+
+  let order: any
+  try {
+    order = await orderModule.retrieveOrder(invitation.order_id, { relations: ["items"] })
+  } catch {
+    return null
+  }
+
+  const item = order.items?.find((i: any) => i.id === invitation.order_item_id)
+  if (order.customer_id !== invitation.customer_id || item?.product_id !== invitation.product_id) {
+    return null
+  }
+  return { order, item }
+}
+
+/**
+ * GET /store/reviews/invitation?token=...
+ * Look up the product a review request link is for (no login required)
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
+
+  const queryResult = InvitationQuerySchema.safeParse(req.query)
+  if (!queryResult.success) {
+    res.status(400).json({
+      message: "Invalid query parameters",
+      errors: queryResult.error.issues,
+    })
+    return
+  }
+
+  const invitation = verifyReviewInvitation(queryResult.data.token)
+  if (!invitation) {
+    res.status(410).json({ message: "This review link is invalid or has expired" })
+    return
+  }
+
+  const invited = await loadInvitedItem(req, invitation)
+  if (!invited) {
+    res.status(404).json({ message: "Order item not found" })
+    return
+  }
+
+  const { order, item } = invited
+  const existing = await reviewService.getCustomerProductReview(invitation.product_id, invitation.customer_id)
+
+  res.json({
+    invitation: {
+      order_id: order.id,
+      display_id: order.display_id,
+      order_item_id: item.id,
+      product_id: invitation.product_id,
+      title: item.product_title || item.title,
+      thumbnail: item.thumbnail || null,
+      quantity: item.quantity,
+    },
+    has_reviewed: !!existing,
+  })
+}
+
+/**
+ * POST /store/reviews/invitation
+ * Create a verified purchase review through a review request link. The token
+ * stands in for the login, so it can only review the item it was issued for
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
+
+  const parseResult = CreateInvitedReviewSchema.safeParse(req.body)
+  if (!parseResult.success) {
+    res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.issues,
+    })
+    return
+  }
+
+  const data = parseResult.data
+
+  const invitation = verifyReviewInvitation(data.token)
+  if (!invitation) {
+    res.status(410).json({ message: "This review link is invalid or has expired" })
+    return
+  }
+
+  const invited = await loadInvitedItem(req, invitation)
+  if (!invited) {
+    res.status(404).json({ message: "Order item not found" })
+    return
+  }
+
+  const hasReviewed = await reviewService.hasCustomerReviewed(invitation.product_id, invitation.customer_id)
+  if (hasReviewed) {
+    res.status(400).json({ message: "You have already reviewed this product" })
+    return
+  }
+
+  const review = await reviewService.submitReview({
+    product_id: invitation.product_id,
+    customer_id: invitation.customer_id,
+    order_id: invitation.order_id,
+    order_item_id: invitation.order_item_id,
+    rating: data.rating,
+    title: data.title || null,
+    content: data.content || null,
+    images: data.images,
+    is_verified_purchase: true,
+  })
+  await emitReviewEvent(req.scope, "review.created", review)
+
+  res.status(201).json({
+    review,
+    message: review.is_approved
+      ? "Review created successfully"
+      : "Review submitted successfully. It will be visible after moderation.",
+  })
+}
+
+/**
+ * OPTIONS /store/reviews/invitation
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
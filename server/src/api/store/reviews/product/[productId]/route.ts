@@ -2,16 +2,25 @@ import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { Modules } from "@medusajs/framework/utils"
 import { REVIEW_MODULE } from "../../../../../modules/review"
 import type ReviewModuleService from "../../../../../modules/review/services/review"
+import { REVIEW_SORT_ORDERS, type ReviewSort } from "../../../../../modules/review/services/review"
+import { formatPublicReview } from "../../../../../utils/format-review"
+import { getReviewVoter } from "../../../../../utils/review-voter"
 import { z } from "zod"
 
 const ListQuerySchema = z.object({
   limit: z.coerce.number().int().min(1).max(100).optional().default(20),
   offset: z.coerce.number().int().min(0).optional().default(0),
+  sort: z.enum(Object.keys(REVIEW_SORT_ORDERS) as [ReviewSort, ...ReviewSort[]]).optional().default("recent"),
 })
 
 /**
  * GET /store/reviews/product/:productId
  * Get all reviews for a specific product
+ *
+ * Query params:
+ * - sort: recent (default), helpful, rating_desc, rating_asc
+ *
+ * Each review has viewer_vote, the requesting customer's or guest's vote
  */
 export const GET = async (
   req: MedusaRequest,
@@ -22,15 +31,22 @@ export const GET = async (
   const customerModule = req.scope.resolve(Modules.CUSTOMER)
 
   const queryResult = ListQuerySchema.safeParse(req.query)
-  const query = queryResult.success ? queryResult.data : { limit: 20, offset: 0 }
+  const query = queryResult.success
+    ? queryResult.data
+    : { limit: 20, offset: 0, sort: "recent" as const }
 
   // Get reviews
   const { reviews, count } = await reviewService.getProductReviews(productId, {
     skip: query.offset,
     take: query.limit,
     approvedOnly: true,
+    sort: query.sort,
   })
 
+  // The viewer's own votes, so they can be shown and undone
+  const voter = getReviewVoter(req)
+  const viewerVotes = await reviewService.getVoterVotes(reviews.map((r: any) => r.id), voter.key)
+
   // Get customer info for each review
   const customerIds = [...new Set(reviews.map((r: any) => r.customer_id).filter(Boolean))]
   let customerMap = new Map<string, { first_name: string; last_name: string; avatar_url: string | null }>()
@@ -63,9 +79,10 @@ export const GET = async (
       : firstName || "Customer"
     
     return {
-      ...review,
+      ...formatPublicReview(review),
       customer_name: customerName,
       customer_avatar: customer?.avatar_url || null,
+      viewer_vote: viewerVotes[review.id] || null,
     }
   })
 
@@ -1,7 +1,11 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
 import { REVIEW_MODULE } from "../../../modules/review"
 import type ReviewModuleService from "../../../modules/review/services/review"
+import { REVIEW_SORT_ORDERS, type ReviewSort } from "../../../modules/review/services/review"
 import { getVerifiedCustomerId } from "../../../utils/store-auth"
+import { emitReviewEvent } from "../../../utils/review-events"
+import { formatPublicReview } from "../../../utils/format-review"
+import { isUploadedFileUrl } from "../../../utils/uploaded-file"
 import { z } from "zod"
 
 const ListQuerySchema = z.object({
@@ -9,6 +13,7 @@ const ListQuerySchema = z.object({
   offset: z.coerce.number().int().min(0).optional().default(0),
   product_id: z.string().optional(),
   customer_id: z.string().optional(),
+  sort: z.enum(Object.keys(REVIEW_SORT_ORDERS) as [ReviewSort, ...ReviewSort[]]).optional().default("recent"),
 })
 
 const CreateGuestReviewSchema = z.object({
@@ -19,7 +24,9 @@ const CreateGuestReviewSchema = z.object({
   rating: z.number().int().min(1).max(5),
   title: z.string().max(200).optional().nullable(),
   content: z.string().min(10, "Review must be at least 10 characters").max(5000),
-  images: z.array(z.string().url()).max(5).optional().default([]),
+  images: z.array(
+    z.string().url().refine(isUploadedFileUrl, "Photos must be uploaded through /store/uploads")
+  ).max(5).optional().default([]),
 })
 
 /**
@@ -33,7 +40,9 @@ export const GET = async (
   const reviewService = req.scope.resolve<ReviewModuleService>(REVIEW_MODULE)
 
   const queryResult = ListQuerySchema.safeParse(req.query)
-  const query = queryResult.success ? queryResult.data : { limit: 20, offset: 0 }
+  const query = queryResult.success
+    ? queryResult.data
+    : { limit: 20, offset: 0, sort: "recent" as const, product_id: undefined, customer_id: undefined }
 
   const { reviews, count } = await reviewService.listReviewsWithFilters(
     {
@@ -44,12 +53,12 @@ export const GET = async (
     {
       skip: query.offset,
       take: query.limit,
-      order: { created_at: "DESC" },
+      order: REVIEW_SORT_ORDERS[query.sort],
     }
   )
 
   res.json({
-    reviews,
+    reviews: reviews.map(formatPublicReview),
     count,
     limit: query.limit,
     offset: query.offset,
@@ -97,9 +106,8 @@ export const POST = async (
     return
   }
 
-  // Create the guest review
-  // Guest reviews require approval before being shown
-  const review = await reviewService.createReview({
+  // Create the guest review - screened and published or queued per the review settings
+  const review = await reviewService.submitReview({
     product_id: data.product_id,
     customer_id: null,
     guest_name: data.guest_name,
@@ -111,12 +119,14 @@ export const POST = async (
     images: data.images || [],
     is_verified_purchase: false, // Guest reviews are not verified purchases
     is_guest_review: true,
-    is_approved: false, // Guest reviews need moderation
   })
+  await emitReviewEvent(req.scope, "review.created", review)
 
   res.status(201).json({
-    review,
-    message: "Review submitted successfully. It will be visible after moderation.",
+    review: formatPublicReview(review),
+    message: review.is_approved
+      ? "Review submitted successfully"
+      : "Review submitted successfully. It will be visible after moderation.",
   })
 }
 
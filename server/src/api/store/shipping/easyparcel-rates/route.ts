@@ -1,4 +1,9 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import {
+  COURIER_MODULE,
+  CourierApiError,
+  type CourierModuleService,
+} from "../../../../modules/courier"
 import { SHIPPING_SETTINGS_MODULE } from "../../../../modules/shipping-settings"
 
 /**
@@ -9,37 +14,6 @@ interface RateCheckRequest {
   weight?: number // in kg, default 0.5
 }
 
-/**
- * EasyParcel API response types
- * Note: result is an array of EasyParcelRateCheckResult, each containing a rates array
- */
-interface EasyParcelRateItem {
-  service_id: string
-  service_name: string
-  courier_id: string
-  courier_name: string
-  courier_logo: string
-  pickup_date: string
-  delivery: string
-  price: number | string
-  addon_cod: string
-  addon_insurance: string
-  addon_packing: string
-}
-
-interface EasyParcelRateCheckResult {
-  status: string
-  remarks?: string
-  rates?: EasyParcelRateItem[]
-}
-
-interface EasyParcelAPIResponse {
-  api_status: string
-  error_code?: string | number
-  error_remark?: string
-  result?: EasyParcelRateCheckResult[]
-}
-
 /**
  * Formatted rate for storepage display
  */
@@ -66,10 +40,10 @@ export const POST = async (
   req: MedusaRequest,
   res: MedusaResponse
 ): Promise<void> => {
-  const apiKey = process.env.EASYPARCEL_API_KEY
-  const useDemo = process.env.EASYPARCEL_USE_DEMO === "true"
+  const courierService = req.scope.resolve<CourierModuleService>(COURIER_MODULE)
+  const environment = courierService.getEnvironment()
 
-  if (!apiKey) {
+  if (!courierService.isConfigured()) {
     res.status(400).json({
       success: false,
       message: "Shipping service is not configured",
@@ -113,117 +87,55 @@ export const POST = async (
   }
 
   const weight = body.weight || 0.5 // Default weight
-  const baseUrl = useDemo
-    ? "http://demo.connect.easyparcel.sg"
-    : "http://connect.easyparcel.sg"
 
   try {
-    // Build rate check request
-    const params = new URLSearchParams()
-    params.append("api", apiKey)
-
-    // Sender (pickup) info from settings
-    params.append("bulk[0][pick_code]", senderSettings.sender_postcode)
-    params.append("bulk[0][pick_country]", senderSettings.sender_country || "MY")
-
-    // Receiver info
-    params.append("bulk[0][send_code]", body.receiver_postcode)
-    params.append("bulk[0][send_country]", "MY") // Malaysia only
-
-    // Package details
-    params.append("bulk[0][weight]", weight.toString())
-
-    let response: Response
-    let data: EasyParcelAPIResponse
-
-    try {
-      response = await fetch(`${baseUrl}/?ac=EPRateCheckingBulk`, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/x-www-form-urlencoded",
-        },
-        body: params,
-      })
-      data = await response.json()
-    } catch (fetchError) {
-      console.error("[EasyParcel] Fetch error:", fetchError)
-      res.status(500).json({
-        success: false,
-        message: `Failed to connect to shipping service: ${fetchError instanceof Error ? fetchError.message : "Network error"}`,
-        rates: [],
-      } as any)
-      return
-    }
-
-    // Check for API errors
-    if (
-      data.api_status === "Error" ||
-      (data.error_code && data.error_code !== "0" && data.error_code !== 0)
-    ) {
-      res.status(400).json({
-        success: false,
-        message: data.error_remark || "Failed to fetch shipping rates",
-        rates: [],
-      } as any)
-      return
-    }
+    const result = await courierService.checkRates({
+      sender_postcode: senderSettings.sender_postcode,
+      sender_country: senderSettings.sender_country || "MY",
+      receiver_postcode: body.receiver_postcode,
+      receiver_country: "MY", // Malaysia only
+      weight,
+    })
 
-    // Extract rates from result (result is an array, rates are in result[0].rates)
-    const rateCheckResult = data.result?.[0]
-    if (!rateCheckResult || rateCheckResult.status !== "Success" || !rateCheckResult.rates) {
+    if (result.rates.length === 0) {
       res.json({
         success: true,
-        message: rateCheckResult?.remarks || "No shipping rates available for this postal code",
+        message: result.message || "No shipping rates available for this postal code",
         rates: [],
-        environment: useDemo ? "demo" : "production",
+        environment,
       })
       return
     }
 
-    // Filter out point-to-point services that require locker/dropoff selection
-    // These services need additional UI for selecting pickup/dropoff points
-    const filteredRates = rateCheckResult.rates.filter((rate) => {
-      const serviceName = rate.service_name.toLowerCase()
-      // Exclude services that require dropoff/pickup points
-      if (serviceName.includes("point to point") || serviceName.includes("dropoff")) {
-        return false
-      }
-      return true
-    })
-
     // Format rates for display
-    const rates: FormattedRate[] = filteredRates.map((rate) => {
-      const priceNum = parseFloat(rate.price.toString())
-      return {
-        service_id: rate.service_id,
-        service_name: rate.service_name,
-        courier_id: rate.courier_id,
-        courier_name: rate.courier_name,
-        courier_logo: rate.courier_logo,
-        price: Math.round(priceNum * 100), // Convert to cents
-        price_display: `$${priceNum.toFixed(2)}`,
-        pickup_date: rate.pickup_date,
-        delivery_eta: rate.delivery || "1-3 business days",
-        has_cod: rate.addon_cod === "1",
-        has_insurance: rate.addon_insurance === "1",
-      }
-    })
-
-    // Sort by price (cheapest first)
-    rates.sort((a, b) => a.price - b.price)
+    const rates: FormattedRate[] = result.rates.map((rate) => ({
+      ...rate,
+      price: Math.round(rate.price * 100), // Convert to cents
+      price_display: `$${rate.price.toFixed(2)}`,
+      delivery_eta: rate.delivery_eta || "1-3 business days",
+    }))
 
     res.json({
       success: true,
       rates,
       count: rates.length,
-      environment: useDemo ? "demo" : "production",
+      environment,
     })
   } catch (error) {
+    if (error instanceof CourierApiError) {
+      res.status(400).json({
+        success: false,
+        message: error.message || "Failed to fetch shipping rates",
+        rates: [],
+      } as any)
+      return
+    }
+    console.error("[EasyParcel] Rate check error:", error)
     const errorMessage =
       error instanceof Error ? error.message : "Unknown error occurred"
     res.status(500).json({
       success: false,
-      message: `Failed to fetch shipping rates: ${errorMessage}`,
+      message: `Failed to connect to shipping service: ${errorMessage}`,
       rates: [],
     } as any)
   }
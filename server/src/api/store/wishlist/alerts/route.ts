@@ -0,0 +1,72 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { WISHLIST_MODULE } from "../../../../modules/wishlist"
+import type { WishlistModuleService } from "../../../../modules/wishlist"
+import { getVerifiedCustomerId } from "../../../../utils/store-auth"
+import { z } from "zod"
+
+const AlertPreferencesSchema = z.object({
+  price_drop: z.boolean().optional(),
+  back_in_stock: z.boolean().optional(),
+})
+
+/**
+ * GET /store/wishlist/alerts
+ * Fetch customer's wishlist alert preferences
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    const preferences = await wishlistService.getAlertPreferences(customerId)
+
+    res.json({ preferences })
+  } catch (error) {
+    console.error("[API] Failed to fetch wishlist alert preferences:", error)
+    res.status(500).json({ message: "Failed to fetch wishlist alert preferences" })
+  }
+}
+
+/**
+ * POST /store/wishlist/alerts
+ * Turn price-drop and back in stock emails on or off
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  const parseResult = AlertPreferencesSchema.safeParse(req.body)
+  if (!parseResult.success) {
+    return res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.flatten(),
+    })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    const preferences = await wishlistService.updateAlertPreferences(customerId, parseResult.data)
+
+    res.json({ preferences })
+  } catch (error) {
+    console.error("[API] Failed to update wishlist alert preferences:", error)
+    res.status(500).json({ message: "Failed to update wishlist alert preferences" })
+  }
+}
@@ -0,0 +1,85 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { WISHLIST_MODULE } from "../../../../../../../modules/wishlist"
+import type { WishlistModuleService } from "../../../../../../../modules/wishlist"
+import { getVerifiedCustomerId } from "../../../../../../../utils/store-auth"
+import { z } from "zod"
+
+const UpdateItemSchema = z
+  .object({
+    quantity: z.number().int().min(1).max(999).optional(),
+    list_id: z.string().optional(),
+  })
+  .refine((data) => data.quantity !== undefined || data.list_id !== undefined, {
+    message: "Provide quantity or list_id",
+  })
+
+/**
+ * POST /store/wishlist/lists/[id]/items/[item_id]
+ * Change an item's quantity or move it to another wishlist
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  const parseResult = UpdateItemSchema.safeParse(req.body)
+  if (!parseResult.success) {
+    return res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.flatten(),
+    })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    const item = await wishlistService.updateListItem(
+      customerId,
+      req.params.id,
+      req.params.item_id,
+      parseResult.data
+    )
+
+    res.json({ item })
+  } catch (error) {
+    if (error instanceof MedusaError && error.type === MedusaError.Types.NOT_FOUND) {
+      return res.status(404).json({ message: error.message })
+    }
+    console.error("[API] Failed to update wishlist item:", error)
+    res.status(500).json({ message: "Failed to update wishlist item" })
+  }
+}
+
+/**
+ * DELETE /store/wishlist/lists/[id]/items/[item_id]
+ * Remove an item from one wishlist
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    await wishlistService.removeListItem(customerId, req.params.id, req.params.item_id)
+
+    res.json({ success: true })
+  } catch (error) {
+    console.error("[API] Failed to remove wishlist item:", error)
+    res.status(500).json({ message: "Failed to remove wishlist item" })
+  }
+}
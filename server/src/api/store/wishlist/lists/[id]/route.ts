@@ -0,0 +1,113 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { WISHLIST_MODULE } from "../../../../../modules/wishlist"
+import type { WishlistModuleService } from "../../../../../modules/wishlist"
+import { getVerifiedCustomerId } from "../../../../../utils/store-auth"
+import { z } from "zod"
+
+const UpdateListSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+})
+
+/**
+ * GET /store/wishlist/lists/[id]
+ * Fetch one of the customer's wishlists with its items
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+
+  try {
+    const list = await wishlistService.getCustomerList(customerId, req.params.id)
+    const items = await wishlistService.getListItems(list.id)
+
+    res.json({ list: { ...list, item_count: items.length }, items })
+  } catch (error) {
+    if (error instanceof MedusaError && error.type === MedusaError.Types.NOT_FOUND) {
+      return res.status(404).json({ message: error.message })
+    }
+    console.error("[API] Failed to fetch wishlist:", error)
+    res.status(500).json({ message: "Failed to fetch wishlist" })
+  }
+}
+
+/**
+ * POST /store/wishlist/lists/[id]
+ * Rename a wishlist
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  const parseResult = UpdateListSchema.safeParse(req.body)
+  if (!parseResult.success) {
+    return res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.flatten(),
+    })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    const list = await wishlistService.renameList(customerId, req.params.id, parseResult.data.name)
+
+    res.json({ list })
+  } catch (error) {
+    if (error instanceof MedusaError && error.type === MedusaError.Types.NOT_FOUND) {
+      return res.status(404).json({ message: error.message })
+    }
+    console.error("[API] Failed to rename wishlist:", error)
+    res.status(500).json({ message: "Failed to rename wishlist" })
+  }
+}
+
+/**
+ * DELETE /store/wishlist/lists/[id]
+ * Delete a wishlist and its items. The default wishlist can't be deleted
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    await wishlistService.deleteList(customerId, req.params.id)
+
+    res.json({ success: true })
+  } catch (error) {
+    if (error instanceof MedusaError && error.type === MedusaError.Types.NOT_FOUND) {
+      return res.status(404).json({ message: error.message })
+    }
+    if (error instanceof MedusaError && error.type === MedusaError.Types.NOT_ALLOWED) {
+      return res.status(400).json({ message: error.message })
+    }
+    console.error("[API] Failed to delete wishlist:", error)
+    res.status(500).json({ message: "Failed to delete wishlist" })
+  }
+}
@@ -0,0 +1,65 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
+import { WISHLIST_MODULE } from "../../../../../../modules/wishlist"
+import type { WishlistModuleService } from "../../../../../../modules/wishlist"
+import { getVerifiedCustomerId } from "../../../../../../utils/store-auth"
+
+/**
+ * POST /store/wishlist/lists/[id]/share
+ * Turn on the read-only share link of a wishlist
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    const list = await wishlistService.shareList(customerId, req.params.id)
+
+    res.json({ list })
+  } catch (error) {
+    if (error instanceof MedusaError && error.type === MedusaError.Types.NOT_FOUND) {
+      return res.status(404).json({ message: error.message })
+    }
+    console.error("[API] Failed to share wishlist:", error)
+    res.status(500).json({ message: "Failed to share wishlist" })
+  }
+}
+
+/**
+ * DELETE /store/wishlist/lists/[id]/share
+ * Turn off the share link; the old link stops working
+ */
+export const DELETE = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    const list = await wishlistService.unshareList(customerId, req.params.id)
+
+    res.json({ list })
+  } catch (error) {
+    if (error instanceof MedusaError && error.type === MedusaError.Types.NOT_FOUND) {
+      return res.status(404).json({ message: error.message })
+    }
+    console.error("[API] Failed to stop sharing wishlist:", error)
+    res.status(500).json({ message: "Failed to stop sharing wishlist" })
+  }
+}
@@ -0,0 +1,71 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { WISHLIST_MODULE } from "../../../../modules/wishlist"
+import type { WishlistModuleService } from "../../../../modules/wishlist"
+import { getVerifiedCustomerId } from "../../../../utils/store-auth"
+import { z } from "zod"
+
+const CreateListSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(100),
+})
+
+/**
+ * GET /store/wishlist/lists
+ * Fetch customer's wishlists with their item counts
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    const lists = await wishlistService.getCustomerLists(customerId)
+
+    res.json({ lists })
+  } catch (error) {
+    console.error("[API] Failed to fetch wishlists:", error)
+    res.status(500).json({ message: "Failed to fetch wishlists" })
+  }
+}
+
+/**
+ * POST /store/wishlist/lists
+ * Create a named wishlist
+ */
+export const POST = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  const customerId = getVerifiedCustomerId(req)
+
+  if (!customerId) {
+    return res.status(401).json({
+      message: "Unauthorized",
+    })
+  }
+
+  const parseResult = CreateListSchema.safeParse(req.body)
+  if (!parseResult.success) {
+    return res.status(400).json({
+      message: "Invalid request body",
+      errors: parseResult.error.flatten(),
+    })
+  }
+
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    const list = await wishlistService.createList(customerId, parseResult.data.name)
+
+    res.status(201).json({ list: { ...list, item_count: 0 } })
+  } catch (error) {
+    console.error("[API] Failed to create wishlist:", error)
+    res.status(500).json({ message: "Failed to create wishlist" })
+  }
+}
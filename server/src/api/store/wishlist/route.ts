@@ -1,16 +1,19 @@
 import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { MedusaError } from "@medusajs/framework/utils"
 import { WISHLIST_MODULE } from "../../../modules/wishlist"
 import type { WishlistModuleService } from "../../../modules/wishlist"
 import { getVerifiedCustomerId } from "../../../utils/store-auth"
 import { z } from "zod"
 
 const CreateWishlistSchema = z.object({
+  list_id: z.string().optional(),
   product_id: z.string(),
   variant_id: z.string().optional(),
   title: z.string(),
   thumbnail: z.string().nullable().optional(),
   price: z.number(),
   original_price: z.number().optional(),
+  quantity: z.number().int().min(1).max(999).optional(),
 })
 
 /**
@@ -45,7 +48,7 @@ export const GET = async (
 
 /**
  * POST /store/wishlist
- * Add item to wishlist
+ * Add item to wishlist, the default list unless list_id is given
  */
 export const POST = async (
   req: MedusaRequest,
@@ -73,16 +76,21 @@ export const POST = async (
     const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
     const item = await wishlistService.addItem({
       customer_id: customerId,
+      list_id: data.list_id,
       product_id: data.product_id,
       variant_id: data.variant_id,
       title: data.title,
       thumbnail: data.thumbnail,
       price: data.price,
       original_price: data.original_price,
+      quantity: data.quantity,
     })
 
     res.status(201).json({ item })
   } catch (error) {
+    if (error instanceof MedusaError && error.type === MedusaError.Types.NOT_FOUND) {
+      return res.status(404).json({ message: error.message })
+    }
     console.error("[API] Failed to add item to wishlist:", error)
     res.status(500).json({ message: "Failed to add item to wishlist" })
   }
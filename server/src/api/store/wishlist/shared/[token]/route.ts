@@ -0,0 +1,54 @@
+import type { MedusaRequest, MedusaResponse } from "@medusajs/framework/http"
+import { WISHLIST_MODULE } from "../../../../../modules/wishlist"
+import type { WishlistModuleService } from "../../../../../modules/wishlist"
+
+/**
+ * GET /store/wishlist/shared/[token]
+ * Read-only view of a shared wishlist, no login needed. Only the list name
+ * and items are returned, nothing about the owner
+ */
+export const GET = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+) => {
+  try {
+    const wishlistService = req.scope.resolve<WishlistModuleService>(WISHLIST_MODULE)
+    const shared = await wishlistService.getSharedList(req.params.token)
+
+    if (!shared) {
+      return res.status(404).json({ message: "This wishlist is no longer shared" })
+    }
+
+    res.json({
+      list: {
+        id: shared.list.id,
+        name: shared.list.name,
+        item_count: shared.items.length,
+      },
+      items: shared.items.map((item) => ({
+        id: item.id,
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        title: item.title,
+        thumbnail: item.thumbnail,
+        price: item.price,
+        original_price: item.original_price,
+        quantity: item.quantity,
+      })),
+    })
+  } catch (error) {
+    console.error("[API] Failed to fetch shared wishlist:", error)
+    res.status(500).json({ message: "Failed to fetch shared wishlist" })
+  }
+}
+
+/**
+ * OPTIONS /store/wishlist/shared/[token]
+ * Handle CORS preflight request
+ */
+export const OPTIONS = async (
+  req: MedusaRequest,
+  res: MedusaResponse
+): Promise<void> => {
+  res.status(204).send()
+}
@@ -0,0 +1,40 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+import { runWishlistAlerts } from "../utils/wishlist-alerts"
+
+/**
+ * Job to send wishlist price-drop and back in stock alerts
+ *
+ * Compares the current price and stock of wishlisted products with what was
+ * saved, emails each affected customer one digest, and answers "notify me
+ * when available" requests whose product is back. Prices are checked as
+ * calculated, so sales scheduled through price lists are picked up when they
+ * start.
+ *
+ * Schedule: Every hour at minute 20
+ */
+export default async function checkWishlistAlerts(
+  container: MedusaContainer
+): Promise<void> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+
+  try {
+    const result = await runWishlistAlerts(container)
+    logger.info(
+      `[WISHLIST-ALERTS] Sent ${result.digests_sent} wishlist digests and ` +
+      `${result.stock_notifications_sent} back in stock emails (${result.errors} errors)`
+    )
+  } catch (error) {
+    logger.error(`[WISHLIST-ALERTS] Job failed: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Job configuration
+ * Runs every hour at minute 20
+ */
+export const config = {
+  name: "check-wishlist-alerts",
+  schedule: "20 * * * *",
+}
@@ -1,6 +1,22 @@
-import type { MedusaContainer } from "@medusajs/framework/types"
+import type {
+  IEventBusModuleService,
+  INotificationModuleService,
+  MedusaContainer,
+} from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+import { STOREFRONT_URL } from "../lib/constants"
+import { EmailTemplates } from "../modules/email-notifications/templates"
 import { MEMBERSHIP_MODULE } from "../modules/membership"
 import { TIER_CONFIG_MODULE } from "../modules/tier-config"
+import { formatPrice } from "../utils/format-price"
+import { projectTierDowngrade } from "../utils/tier-progress"
+
+/**
+ * How many days before a rolling-window downgrade the member is warned
+ */
+const DOWNGRADE_WARNING_DAYS = 14
+
+const DAY_MS = 24 * 60 * 60 * 1000
 
 /**
  * Daily job to evaluate and process tier upgrades/downgrades
@@ -9,9 +25,12 @@ import { TIER_CONFIG_MODULE } from "../modules/tier-config"
  * 1. Recalculate rolling 12-month activity for all members
  * 2. Determine appropriate tier based on updated activity
  * 3. Upgrade or downgrade members accordingly
+ * 4. Warn members whose tier will drop within DOWNGRADE_WARNING_DAYS as their
+ *    oldest orders leave the window
  *
  * Tier changes are based on rolling 12-month activity, so as old orders
  * fall outside the 12-month window, customers may be downgraded.
+ * Upgrade and downgrade emails are sent by the membership.tier_changed subscriber.
  */
 export default async function evaluateTierDowngrades(
   container: MedusaContainer
@@ -27,9 +46,12 @@ export default async function evaluateTierDowngrades(
   let upgraded = 0
   let downgraded = 0
   let unchanged = 0
+  let warned = 0
   let errors = 0
 
   try {
+    const tiers = await tierConfigService.getActiveTiers()
+
     // Get all active memberships
     const [memberships] = await membershipService.listActiveMembers({ limit: 10000 })
 
@@ -78,19 +100,26 @@ export default async function evaluateTierDowngrades(
 
           // Emit tier change event for notifications
           try {
-            const eventBus: any = container.resolve("eventBus")
-            await eventBus.emit("membership.tier_changed", {
-              customer_id: membership.customer_id,
-              old_tier: membership.tier_slug,
-              new_tier: appropriateTier.slug,
-              tier_name: appropriateTier.name,
-              reason: "daily_evaluation",
+            const eventBus = container.resolve<IEventBusModuleService>(Modules.EVENT_BUS)
+            await eventBus.emit({
+              name: "membership.tier_changed",
+              data: {
+                customer_id: membership.customer_id,
+                old_tier: membership.tier_slug,
+                new_tier: appropriateTier.slug,
+                tier_name: appropriateTier.name,
+                reason: "daily_evaluation",
+              },
             })
           } catch (eventError) {
             logger.warn(`[TIER-EVAL] Failed to emit tier_changed event: ${eventError}`)
           }
         } else {
           unchanged++
+
+          if (await sendDowngradeWarningIfDue(container, membership, tiers)) {
+            warned++
+          }
         }
 
         processed++
@@ -108,7 +137,7 @@ export default async function evaluateTierDowngrades(
     logger.info(
       `[TIER-EVAL] Completed in ${duration}s. ` +
       `Processed: ${processed}, Upgraded: ${upgraded}, Downgraded: ${downgraded}, ` +
-      `Unchanged: ${unchanged}, Errors: ${errors}`
+      `Unchanged: ${unchanged}, Warned: ${warned}, Errors: ${errors}`
     )
   } catch (error) {
     logger.error(`[TIER-EVAL] Job failed: ${error}`)
@@ -116,6 +145,74 @@ export default async function evaluateTierDowngrades(
   }
 }
 
+/**
+ * Email a member whose tier will drop within DOWNGRADE_WARNING_DAYS
+ * Sent once per projected downgrade - a new order that pushes the date back
+ * allows another warning for the later date.
+ * @returns Whether a warning was sent
+ */
+async function sendDowngradeWarningIfDue(
+  container: MedusaContainer,
+  membership: any,
+  tiers: any[]
+): Promise<boolean> {
+  const membershipService = container.resolve(MEMBERSHIP_MODULE) as any
+  const currentTier = tiers.find((tier) => tier.slug === membership.tier_slug)
+  if (!currentTier) return false
+
+  const now = new Date()
+  const orders = await membershipService.listRollingActivityOrders(membership.customer_id, now)
+  const downgrade = projectTierDowngrade(tiers, currentTier, orders)
+  if (!downgrade) return false
+
+  const warnFrom = new Date(downgrade.date.getTime() - DOWNGRADE_WARNING_DAYS * DAY_MS)
+  if (now < warnFrom) return false
+
+  const sentAt = membership.downgrade_warning_sent_at ? new Date(membership.downgrade_warning_sent_at) : null
+  if (sentAt && sentAt >= warnFrom) return false
+
+  const customerModuleService = container.resolve(Modules.CUSTOMER)
+  const notificationModuleService = container.resolve<INotificationModuleService>(
+    Modules.NOTIFICATION
+  )
+  const customer = await customerModuleService.retrieveCustomer(membership.customer_id)
+  const daysRemaining = Math.max(1, Math.ceil((downgrade.date.getTime() - now.getTime()) / DAY_MS))
+
+  await notificationModuleService.createNotifications({
+    to: customer.email,
+    channel: "email",
+    template: EmailTemplates.TIER_DOWNGRADE_WARNING,
+    data: {
+      emailOptions: {
+        replyTo: "support@lb-frozen.com",
+        subject: `Your ${currentTier.name} status ends in ${daysRemaining} day${daysRemaining === 1 ? "" : "s"}`,
+      },
+      tierName: currentTier.name,
+      downgradeTierName: downgrade.tier.name,
+      downgradeDate: downgrade.date.toLocaleDateString("en-GB", {
+        day: "numeric",
+        month: "long",
+        year: "numeric",
+      }),
+      daysRemaining,
+      ordersToKeep: downgrade.orders_to_keep,
+      spendToKeep: downgrade.spend_to_keep > 0
+        ? formatPrice(downgrade.spend_to_keep)
+        : undefined,
+      shopLink: `${STOREFRONT_URL}/products`,
+      firstName: customer.first_name || undefined,
+      preview: `Order before ${downgrade.date.toLocaleDateString("en-GB")} to keep ${currentTier.name}`,
+    },
+  })
+
+  await membershipService.updateMemberships({
+    id: membership.id,
+    downgrade_warning_sent_at: now,
+  })
+
+  return true
+}
+
 /**
  * Job configuration
  * Runs daily at 2:00 AM server time
@@ -0,0 +1,43 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+import { POINTS_MODULE } from "../modules/points"
+import type PointsModuleService from "../modules/points/services/points"
+
+/**
+ * Daily job to expire points older than PointsConfig.expiration_months
+ *
+ * Each earning lot expires expiration_months after it was credited. Whatever
+ * is left of expired lots is written off as an "expired" transaction and
+ * removed from the customer's balance. Does nothing while expiration_months
+ * is 0 or the points system is disabled.
+ *
+ * Schedule: Daily at 1:00 AM
+ */
+export default async function expirePoints(
+  container: MedusaContainer
+): Promise<void> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+  const pointsService = container.resolve<PointsModuleService>(POINTS_MODULE)
+
+  try {
+    const result = await pointsService.expirePoints()
+
+    if (result.points_expired > 0) {
+      logger.info(
+        `[POINTS-EXPIRY] Expired ${result.points_expired} points for ${result.customers} customers`
+      )
+    }
+  } catch (error) {
+    logger.error(`[POINTS-EXPIRY] Job failed: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Job configuration
+ * Runs daily at 1:00 AM
+ */
+export const config = {
+  name: "expire-points",
+  schedule: "0 1 * * *",
+}
@@ -0,0 +1,154 @@
+import type {
+  ICustomerModuleService,
+  INotificationModuleService,
+  MedusaContainer,
+} from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { STOREFRONT_URL } from "../lib/constants"
+import { EmailTemplates } from "../modules/email-notifications/templates"
+import { MEMBERSHIP_MODULE } from "../modules/membership"
+import { PROMO_MODULE } from "../modules/promo"
+import type PromoModuleService from "../modules/promo/services/promo"
+import { TIER_CONFIG_MODULE } from "../modules/tier-config"
+import { formatPrice } from "../utils/format-price"
+
+const CUSTOMER_CHUNK_SIZE = 500
+
+/**
+ * Month (1-12) of a customer's birthday, stored by the storepage profile
+ * as metadata.date_of_birth ("YYYY-MM-DD")
+ */
+function getBirthdayMonth(metadata: Record<string, unknown> | null | undefined): number | null {
+  const dateOfBirth = metadata?.date_of_birth
+  if (typeof dateOfBirth !== "string") return null
+
+  const month = parseInt(dateOfBirth.split("-")[1], 10)
+  return month >= 1 && month <= 12 ? month : null
+}
+
+/**
+ * Daily job to issue birthday vouchers
+ *
+ * Every active member whose birthday is in the current month gets a personal
+ * single-use voucher for their tier's birthday_voucher_amount, valid until the
+ * end of the month, and an email with the code. Vouchers are issued once per
+ * customer per year, so running daily also picks up members who add their
+ * birthday or join mid-month. Vouchers whose email failed are emailed again
+ * on the next run.
+ *
+ * Schedule: Daily at 8:00 AM
+ */
+export default async function issueBirthdayVouchers(
+  container: MedusaContainer
+): Promise<void> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+  const membershipService = container.resolve(MEMBERSHIP_MODULE) as any
+  const tierConfigService = container.resolve(TIER_CONFIG_MODULE) as any
+  const promoService = container.resolve<PromoModuleService>(PROMO_MODULE)
+  const customerModuleService = container.resolve<ICustomerModuleService>(Modules.CUSTOMER)
+  const notificationModuleService = container.resolve<INotificationModuleService>(
+    Modules.NOTIFICATION
+  )
+
+  const now = new Date()
+  const month = now.getMonth() + 1
+  const year = now.getFullYear()
+
+  let issued = 0
+  let resent = 0
+  let errors = 0
+
+  try {
+    const tiers = await tierConfigService.getActiveTiers()
+    const tiersBySlug = new Map<string, any>(tiers.map((tier: any) => [tier.slug, tier]))
+
+    const [memberships] = await membershipService.listActiveMembers({ limit: 10000 })
+    const eligible = memberships.filter(
+      (membership: any) => Number(tiersBySlug.get(membership.tier_slug)?.birthday_voucher_amount) > 0
+    )
+
+    for (let i = 0; i < eligible.length; i += CUSTOMER_CHUNK_SIZE) {
+      const chunk = eligible.slice(i, i + CUSTOMER_CHUNK_SIZE)
+      const customers = await customerModuleService.listCustomers(
+        { id: chunk.map((membership: any) => membership.customer_id) },
+        { select: ["id", "email", "first_name", "metadata"] }
+      )
+      const customersById = new Map(customers.map((customer) => [customer.id, customer]))
+
+      for (const membership of chunk) {
+        const customer = customersById.get(membership.customer_id)
+        if (!customer || getBirthdayMonth(customer.metadata) !== month) continue
+
+        const tier = tiersBySlug.get(membership.tier_slug)
+
+        try {
+          const result = await promoService.issueBirthdayVoucher({
+            customer_id: customer.id,
+            tier_slug: tier.slug,
+            tier_name: tier.name,
+            amount: Number(tier.birthday_voucher_amount),
+            birthday_month: month,
+            year,
+          })
+          if (!result) continue
+
+          const { voucher, coupon, is_new } = result
+          if (is_new) {
+            issued++
+          } else {
+            resent++
+          }
+
+          await notificationModuleService.createNotifications({
+            to: customer.email,
+            channel: "email",
+            template: EmailTemplates.BIRTHDAY_VOUCHER,
+            data: {
+              emailOptions: {
+                replyTo: "support@lb-frozen.com",
+                subject: "Happy Birthday! Here's a gift from us",
+              },
+              code: coupon.code,
+              amount: formatPrice(voucher.amount),
+              tierName: tier.name,
+              validUntil: voucher.valid_until.toLocaleDateString("en-GB", {
+                day: "numeric",
+                month: "long",
+                year: "numeric",
+              }),
+              shopLink: `${STOREFRONT_URL}/products`,
+              firstName: customer.first_name || undefined,
+              preview: `Your ${formatPrice(voucher.amount)} birthday voucher is here`,
+            },
+          })
+
+          await promoService.updateBirthdayVouchers({
+            id: voucher.id,
+            email_sent_at: new Date(),
+          })
+        } catch (error) {
+          errors++
+          logger.error(
+            `[BIRTHDAY-VOUCHERS] Failed to issue voucher for customer ${customer.id}: ${error}`
+          )
+        }
+      }
+    }
+
+    logger.info(
+      `[BIRTHDAY-VOUCHERS] Issued ${issued} birthday vouchers, resent ${resent} unsent emails (${errors} errors)`
+    )
+  } catch (error) {
+    logger.error(`[BIRTHDAY-VOUCHERS] Job failed: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Job configuration
+ * Runs daily at 8:00 AM
+ */
+export const config = {
+  name: "issue-birthday-vouchers",
+  schedule: "0 8 * * *",
+}
@@ -0,0 +1,36 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+import { reindexProductSearch } from "../utils/product-search"
+
+/**
+ * Job to rebuild the product search index
+ *
+ * Subscribers keep documents current as products, prices, reviews and orders
+ * change. This catches anything they missed (e.g. prices changed through a
+ * price list, or events lost while the worker was down) and drops documents
+ * of products that no longer exist.
+ *
+ * Schedule: Daily at 3:30 AM
+ */
+export default async function reindexProductSearchJob(
+  container: MedusaContainer
+): Promise<void> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+
+  try {
+    const result = await reindexProductSearch(container)
+    logger.info(`[PRODUCT-SEARCH] Reindexed ${result.indexed} products, removed ${result.removed}`)
+  } catch (error) {
+    logger.error(`[PRODUCT-SEARCH] Reindex job failed: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Job configuration
+ * Runs daily at 3:30 AM
+ */
+export const config = {
+  name: "reindex-product-search",
+  schedule: "30 3 * * *",
+}
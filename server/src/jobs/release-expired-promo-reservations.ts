@@ -0,0 +1,43 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../modules/promo"
+import type PromoModuleService from "../modules/promo/services/promo"
+
+/**
+ * Job to release coupon and PWP reservations of idle carts
+ *
+ * Applying a coupon or PWP offer to a cart reserves one use of the promo
+ * so limited promos can't be oversold. Carts that are abandoned never place
+ * an order or remove the promo, so their reservations expire after
+ * PROMO_RESERVATION_TTL_MINUTES without cart activity and are released here.
+ * The promo stays on the cart; checkout has to reserve it again, which fails
+ * once the promo ran out (see workflows/hooks/complete-cart).
+ *
+ * Schedule: Every 15 minutes
+ */
+export default async function releaseExpiredPromoReservations(
+  container: MedusaContainer
+): Promise<void> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+  const promoService = container.resolve<PromoModuleService>(PROMO_MODULE)
+
+  try {
+    const released = await promoService.releaseExpiredPromoReservations()
+
+    if (released > 0) {
+      logger.info(`[PROMO-RESERVATIONS] Released ${released} expired promo reservations`)
+    }
+  } catch (error) {
+    logger.error(`[PROMO-RESERVATIONS] Job failed: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Job configuration
+ * Runs every 15 minutes
+ */
+export const config = {
+  name: "release-expired-promo-reservations",
+  schedule: "*/15 * * * *",
+}
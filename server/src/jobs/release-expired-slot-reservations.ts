@@ -0,0 +1,41 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+import { DELIVERY_SLOT_MODULE } from "../modules/delivery-slot"
+import type DeliverySlotModuleService from "../modules/delivery-slot/services/delivery-slot"
+
+/**
+ * Job to free delivery slot holds of abandoned checkouts
+ *
+ * Picking a delivery slot at checkout takes a place in the slot for the
+ * cart. When the cart never becomes an order, the hold expires after
+ * DELIVERY_SLOT_HOLD_MINUTES and the place is given back here so other
+ * customers can book it.
+ *
+ * Schedule: Every 15 minutes
+ */
+export default async function releaseExpiredSlotReservations(
+  container: MedusaContainer
+): Promise<void> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+  const deliverySlotService = container.resolve<DeliverySlotModuleService>(DELIVERY_SLOT_MODULE)
+
+  try {
+    const released = await deliverySlotService.releaseExpiredSlotReservations()
+
+    if (released > 0) {
+      logger.info(`[DELIVERY-SLOTS] Released ${released} expired delivery slot reservations`)
+    }
+  } catch (error) {
+    logger.error(`[DELIVERY-SLOTS] Job failed: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Job configuration
+ * Runs every 15 minutes
+ */
+export const config = {
+  name: "release-expired-slot-reservations",
+  schedule: "*/15 * * * *",
+}
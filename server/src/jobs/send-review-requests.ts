@@ -0,0 +1,204 @@
+import type {
+  ICustomerModuleService,
+  INotificationModuleService,
+  MedusaContainer,
+} from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { STOREFRONT_URL } from "../lib/constants"
+import { EmailTemplates } from "../modules/email-notifications/templates"
+import { MEMBERSHIP_MODULE } from "../modules/membership"
+import { ORDER_EXTENSION_MODULE } from "../modules/order-extension"
+import { POINTS_MODULE } from "../modules/points"
+import { REVIEW_MODULE } from "../modules/review"
+import type ReviewModuleService from "../modules/review/services/review"
+import { signReviewInvitation } from "../utils/review-invitation"
+
+const ORDER_CHUNK_SIZE = 100
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Orders delivered longer ago than the delay plus this are never asked, so
+// turning review requests on doesn't email every past customer
+const LOOKBACK_DAYS = 7
+
+/**
+ * Daily job to send review request emails
+ *
+ * Customers are emailed request_delay_days (review settings) after their order
+ * was delivered, with a link per product they haven't reviewed yet. Each link
+ * carries a signed token for one order item that expires after
+ * request_link_valid_days, and opens the order review page with the product
+ * pre-filled; reviews written through it count as verified purchases.
+ * Every order is asked once; failed sends are retried on the next run.
+ *
+ * Schedule: Daily at 10:00 AM
+ */
+export default async function sendReviewRequests(
+  container: MedusaContainer
+): Promise<void> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+  const reviewService = container.resolve<ReviewModuleService>(REVIEW_MODULE)
+  const orderExtensionService = container.resolve(ORDER_EXTENSION_MODULE) as any
+  const membershipService = container.resolve(MEMBERSHIP_MODULE) as any
+  const pointsService = container.resolve(POINTS_MODULE) as any
+  const orderModuleService = container.resolve(Modules.ORDER)
+  const customerModuleService = container.resolve<ICustomerModuleService>(Modules.CUSTOMER)
+  const notificationModuleService = container.resolve<INotificationModuleService>(
+    Modules.NOTIFICATION
+  )
+
+  let sent = 0
+  let skipped = 0
+  let errors = 0
+
+  try {
+    const settings = await reviewService.getSettings()
+    if (settings.request_delay_days <= 0) {
+      logger.info(`[REVIEW-REQUESTS] Review requests are turned off`)
+      return
+    }
+
+    const deliveredBefore = new Date(Date.now() - settings.request_delay_days * DAY_MS)
+    const deliveredAfter = new Date(deliveredBefore.getTime() - LOOKBACK_DAYS * DAY_MS)
+    const validUntil = new Date(Date.now() + settings.request_link_valid_days * DAY_MS)
+
+    const pointsConfig = await pointsService.getConfig()
+    const rewardPoints = pointsConfig.is_enabled ? Number(pointsConfig.review_reward_points) || 0 : 0
+    const photoBonusPoints = pointsConfig.is_enabled ? Number(pointsConfig.review_photo_bonus_points) || 0 : 0
+
+    for (let offset = 0; ; offset += ORDER_CHUNK_SIZE) {
+      const extensions = await orderExtensionService.listDeliveredBetween(deliveredAfter, deliveredBefore, {
+        limit: ORDER_CHUNK_SIZE,
+        offset,
+      })
+      if (extensions.length === 0) break
+
+      const orderIds: string[] = extensions.map((extension: any) => extension.order_id)
+      const requested = await reviewService.getRequestedOrderIds(orderIds)
+      const pendingIds = orderIds.filter((id) => !requested.has(id))
+      if (pendingIds.length === 0) continue
+
+      const orders = await orderModuleService.listOrders(
+        { id: pendingIds },
+        { relations: ["items"] }
+      )
+      const customerIds = [...new Set(orders.map((order) => order.customer_id).filter(Boolean))] as string[]
+      const customers = customerIds.length > 0
+        ? await customerModuleService.listCustomers(
+            { id: customerIds },
+            { select: ["id", "email", "first_name"] }
+          )
+        : []
+      const customersById = new Map(customers.map((customer) => [customer.id, customer]))
+
+      for (const order of orders) {
+        const customer = order.customer_id ? customersById.get(order.customer_id) : undefined
+        const email = customer?.email || order.email
+
+        try {
+          // Review links act on behalf of the customer, so guest orders aren't asked
+          if (!customer || !email) {
+            skipped++
+            await reviewService.recordReviewRequest({ order_id: order.id, email, status: "skipped" })
+            continue
+          }
+
+          // One link per product, leaving out products already reviewed
+          const itemsByProduct = new Map<string, any>()
+          for (const item of order.items || []) {
+            if (item.product_id && !itemsByProduct.has(item.product_id)) {
+              itemsByProduct.set(item.product_id, item)
+            }
+          }
+          const reviewed = await reviewService.getReviewedProductIds(customer.id, [...itemsByProduct.keys()])
+          const items = [...itemsByProduct.values()].filter((item) => !reviewed.has(item.product_id))
+
+          if (items.length === 0) {
+            skipped++
+            await reviewService.recordReviewRequest({
+              order_id: order.id,
+              customer_id: customer.id,
+              email,
+              status: "skipped",
+            })
+            continue
+          }
+
+          const isMember = rewardPoints > 0 && await membershipService.isMember(customer.id)
+
+          await notificationModuleService.createNotifications({
+            to: email,
+            channel: "email",
+            template: EmailTemplates.REVIEW_REQUEST,
+            data: {
+              emailOptions: {
+                replyTo: "support@lb-frozen.com",
+                subject: `How was your order #${order.display_id}?`,
+              },
+              orderNumber: String(order.display_id),
+              items: items.map((item) => {
+                const token = signReviewInvitation(
+                  {
+                    order_id: order.id,
+                    order_item_id: item.id,
+                    product_id: item.product_id,
+                    customer_id: customer.id,
+                  },
+                  settings.request_link_valid_days
+                )
+                return {
+                  title: item.product_title || item.title,
+                  thumbnail: item.thumbnail || undefined,
+                  reviewLink: `${STOREFRONT_URL}/orders/${order.id}/review?token=${encodeURIComponent(token)}`,
+                }
+              }),
+              validUntil: validUntil.toLocaleDateString("en-GB", {
+                day: "numeric",
+                month: "long",
+                year: "numeric",
+              }),
+              rewardPoints: isMember ? rewardPoints : undefined,
+              photoBonusPoints: isMember && photoBonusPoints > 0 ? photoBonusPoints : undefined,
+              firstName: customer.first_name || undefined,
+              preview: `Tell us what you thought of your order #${order.display_id}`,
+            },
+          })
+
+          sent++
+          await reviewService.recordReviewRequest({
+            order_id: order.id,
+            customer_id: customer.id,
+            email,
+            status: "sent",
+            item_count: items.length,
+          })
+        } catch (error) {
+          errors++
+          logger.error(`[REVIEW-REQUESTS] Failed to send review request for order ${order.id}: ${error}`)
+          await reviewService.recordReviewRequest({
+            order_id: order.id,
+            customer_id: customer?.id,
+            email,
+            status: "failed",
+            error: error instanceof Error ? error.message : String(error),
+          }).catch(() => undefined)
+        }
+      }
+    }
+
+    logger.info(
+      `[REVIEW-REQUESTS] Sent ${sent} review requests (${skipped} skipped, ${errors} errors)`
+    )
+  } catch (error) {
+    logger.error(`[REVIEW-REQUESTS] Job failed: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Job configuration
+ * Runs daily at 10:00 AM
+ */
+export const config = {
+  name: "send-review-requests",
+  schedule: "0 10 * * *",
+}
@@ -0,0 +1,40 @@
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+import { syncCourierTracking } from "../utils/courier-tracking"
+
+/**
+ * Job to sync courier tracking of shipped orders and returns
+ *
+ * Polls the courier for every paid or in-transit AWB and stores the checkpoint
+ * history shown on the storefront order page. Orders are marked delivered and
+ * return requests received once the courier reports delivery.
+ *
+ * Schedule: Every hour
+ */
+export default async function syncCourierTrackingJob(
+  container: MedusaContainer
+): Promise<void> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+
+  try {
+    const result = await syncCourierTracking(container)
+
+    if (result.tracked > 0 || result.failed > 0) {
+      logger.info(
+        `[COURIER-TRACKING] Tracked ${result.tracked} shipments, ${result.delivered} delivered, ${result.failed} failed`
+      )
+    }
+  } catch (error) {
+    logger.error(`[COURIER-TRACKING] Job failed: ${error}`)
+    throw error
+  }
+}
+
+/**
+ * Job configuration
+ * Runs every hour at minute 15
+ */
+export const config = {
+  name: "sync-courier-tracking",
+  schedule: "15 * * * *",
+}
@@ -97,6 +97,17 @@ export const STRIPE_WEBHOOK_SECRET = process.env.STRIPE_WEBHOOK_SECRET;
 export const MEILISEARCH_HOST = process.env.MEILISEARCH_HOST;
 export const MEILISEARCH_ADMIN_KEY = process.env.MEILISEARCH_ADMIN_KEY;
 
+/**
+ * Courier Configuration
+ * COURIER_PROVIDER picks the courier aggregator ("easyparcel" or "mock").
+ * EASYPARCEL_MOCK_PAYMENT keeps EasyParcel for rates and orders but simulates
+ * payment with dummy AWB numbers, for development without credits
+ */
+export const COURIER_PROVIDER = (process.env.COURIER_PROVIDER as 'easyparcel' | 'mock' | undefined) ?? 'easyparcel'
+export const EASYPARCEL_API_KEY = process.env.EASYPARCEL_API_KEY;
+export const EASYPARCEL_USE_DEMO = process.env.EASYPARCEL_USE_DEMO === 'true'
+export const EASYPARCEL_MOCK_PAYMENT = process.env.EASYPARCEL_MOCK_PAYMENT === 'true'
+
 /**
  * Worker mode
  */
@@ -126,6 +137,36 @@ export const POINTS_EARNING_RATE = parseFloat(process.env.POINTS_EARNING_RATE ||
 export const POINTS_REDEMPTION_RATE = parseFloat(process.env.POINTS_REDEMPTION_RATE || '0.01') // Default: 100 points = $1
 export const POINTS_ENABLED = process.env.POINTS_ENABLED !== 'false' // Default: true
 
+/**
+ * Promo Reservation Configuration
+ * Coupons/PWP offers applied to a cart hold one use of the promo's usage_limit
+ * until the order is placed, the promo is removed, or the cart goes idle this long
+ */
+export const PROMO_RESERVATION_TTL_MINUTES = parseInt(process.env.PROMO_RESERVATION_TTL_MINUTES || '1440', 10) // Default: 24 hours
+
+/**
+ * Delivery Slot Configuration
+ * Slot dates and cut-off times are in the store timezone. Customers can book up
+ * to DELIVERY_SLOT_BOOKING_DAYS ahead, and a chosen slot is held for the cart
+ * until the order is placed or the cart goes idle for DELIVERY_SLOT_HOLD_MINUTES
+ */
+export const DELIVERY_SLOT_TIMEZONE = process.env.DELIVERY_SLOT_TIMEZONE || 'Asia/Kuala_Lumpur'
+export const DELIVERY_SLOT_BOOKING_DAYS = parseInt(process.env.DELIVERY_SLOT_BOOKING_DAYS || '14', 10) // Default: 2 weeks
+export const DELIVERY_SLOT_HOLD_MINUTES = parseInt(process.env.DELIVERY_SLOT_HOLD_MINUTES || '60', 10) // Default: 1 hour
+
+/**
+ * Returns Configuration
+ * Days after delivery during which a return can be requested, by customers or admins
+ */
+export const RETURN_WINDOW_DAYS = parseInt(process.env.RETURN_WINDOW_DAYS || '30', 10) // Default: 30 days
+
+/**
+ * Customer Cancellation Configuration
+ * Minutes after placing an order during which the customer can cancel it
+ * themselves, as long as it hasn't started being fulfilled
+ */
+export const CUSTOMER_CANCEL_GRACE_MINUTES = parseInt(process.env.CUSTOMER_CANCEL_GRACE_MINUTES || '60', 10) // Default: 1 hour
+
 /**
  * Customer Pricing Roles
  * Used to determine which pricing tier a customer can see
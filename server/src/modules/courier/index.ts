@@ -0,0 +1,11 @@
+import { Module } from "@medusajs/framework/utils"
+import CourierModuleService from "./services/courier"
+
+export const COURIER_MODULE = "courierModuleService"
+
+export default Module(COURIER_MODULE, {
+  service: CourierModuleService,
+})
+
+export { CourierModuleService }
+export * from "./types"
@@ -0,0 +1,422 @@
+import type {
+  CourierAddress,
+  CourierCancelResult,
+  CourierEnvironment,
+  CourierLabelRequest,
+  CourierOrderRequest,
+  CourierOrderResult,
+  CourierParcelStatus,
+  CourierPaymentResult,
+  CourierProvider,
+  CourierRate,
+  CourierRateRequest,
+  CourierRateResult,
+  CourierTrackingEvent,
+  CourierTrackingResult,
+} from "../types"
+import { CourierApiError } from "../types"
+
+export type EasyParcelProviderOptions = {
+  api_key?: string
+  use_demo?: boolean
+}
+
+/**
+ * EasyParcel API response types
+ */
+interface EasyParcelAPIResponse<T> {
+  api_status: string
+  error_code?: string | number
+  error_remark?: string
+  result?: T[]
+}
+
+interface EasyParcelRate {
+  service_id: string
+  service_name: string
+  courier_id: string
+  courier_name: string
+  courier_logo: string
+  price: number | string
+  pickup_date: string
+  delivery: string
+  addon_cod: string
+  addon_insurance: string
+  addon_packing: string
+  dropoff_point?: string[]
+}
+
+interface EasyParcelRateCheckResult {
+  status: string
+  remarks?: string
+  rates?: EasyParcelRate[]
+}
+
+interface EasyParcelSubmitResult {
+  status: string
+  remarks?: string
+  order_number?: string
+  parcel_number?: string
+  price?: string
+  courier?: string
+  collect_date?: string
+}
+
+interface EasyParcelPayResult {
+  status?: string
+  remarks?: string
+  messagenow?: string // EasyParcel uses this for error messages
+  order_no?: string
+  order_number?: string
+  orderno?: string // EasyParcel sometimes uses this
+  parcel_no?: string
+  parcel_number?: string
+  awb?: string
+  awb_id_link?: string
+  tracking_url?: string
+  tracking_number?: string
+  parcel?: Array<{
+    awb?: string
+    awb_id_link?: string
+    tracking_url?: string
+  }>
+}
+
+interface EasyParcelTrackResult {
+  status: string
+  remarks?: string
+  awb?: string
+  courier?: string
+  parcel_status?: string
+  tracking?: CourierTrackingEvent[]
+}
+
+interface EasyParcelCancelResult {
+  status: string
+  remarks?: string
+  order_no?: string
+}
+
+/**
+ * Format and validate Malaysia phone number for EasyParcel
+ * EasyParcel requires format: 9-11 digit number (no country code)
+ * Returns null if phone number is invalid
+ */
+export function formatMalaysiaPhone(phone: string): string | null {
+  if (!phone) return null
+
+  // Remove all non-digit characters
+  let cleaned = phone.replace(/\D/g, "")
+
+  // Remove country code if present (60)
+  if (cleaned.startsWith("60") && cleaned.length > 9) {
+    cleaned = cleaned.slice(2)
+  }
+
+  // Remove leading 0 if present
+  if (cleaned.startsWith("0")) {
+    cleaned = cleaned.slice(1)
+  }
+
+  // Malaysia mobile numbers are 9-10 digits starting with 1
+  if ((cleaned.length === 9 || cleaned.length === 10) && cleaned.startsWith("1")) {
+    return cleaned
+  }
+
+  // Malaysia landlines are 8-9 digits starting with 3, 4, 5, 6, 7, 8, 9
+  if ((cleaned.length === 8 || cleaned.length === 9) && /^[3-9]/.test(cleaned)) {
+    return cleaned
+  }
+
+  // Return original cleaned number if it looks reasonable
+  if (cleaned.length >= 8 && cleaned.length <= 11) {
+    return cleaned
+  }
+
+  return null
+}
+
+/**
+ * Normalize an EasyParcel parcel status, e.g. "Successfully Delivered" or
+ * "Out For Delivery". Anything unrecognised counts as not yet picked up
+ */
+export function toParcelStatus(parcelStatus: string | null | undefined): CourierParcelStatus {
+  const status = (parcelStatus || "").toLowerCase()
+
+  if (/fail|unsuccessful|return(ed)? to sender|cancel/.test(status)) {
+    return "failed"
+  }
+  if (status.includes("delivered") && !status.includes("out for delivery")) {
+    return "delivered"
+  }
+  if (/transit|picked|collected|out for delivery|hub|depart|arriv|process/.test(status)) {
+    return "in_transit"
+  }
+  return "pending"
+}
+
+/**
+ * EasyParcelProvider
+ * Talks to the EasyParcel bulk API (http://[demo.]connect.easyparcel.sg).
+ * Every call is a form-encoded POST with PHP-style bulk[i][field] parameters
+ */
+export class EasyParcelProvider implements CourierProvider {
+  readonly identifier = "easyparcel"
+
+  protected apiKey: string | undefined
+  protected useDemo: boolean
+
+  constructor(options: EasyParcelProviderOptions = {}) {
+    this.apiKey = options.api_key
+    this.useDemo = options.use_demo ?? false
+  }
+
+  isConfigured(): boolean {
+    return !!this.apiKey
+  }
+
+  getEnvironment(): CourierEnvironment {
+    return this.useDemo ? "demo" : "production"
+  }
+
+  formatPhone(phone: string): string | null {
+    return formatMalaysiaPhone(phone)
+  }
+
+  async checkRates(request: CourierRateRequest): Promise<CourierRateResult> {
+    const data = await this.request<EasyParcelRateCheckResult>("EPRateCheckingBulk", [
+      {
+        pick_code: request.sender_postcode,
+        pick_country: request.sender_country,
+        send_code: request.receiver_postcode,
+        send_country: request.receiver_country,
+        weight: request.weight.toString(),
+      },
+    ])
+
+    const result = data.result?.[0]
+    if (!result || result.status !== "Success" || !result.rates) {
+      return { rates: [], message: result?.remarks }
+    }
+
+    // Point-to-point and dropoff services need a locker/dropoff point picked,
+    // which none of our flows support yet
+    const rates: CourierRate[] = result.rates
+      .filter((rate) => {
+        const serviceName = rate.service_name.toLowerCase()
+        return !serviceName.includes("point to point") && !serviceName.includes("dropoff")
+      })
+      .map((rate) => ({
+        service_id: rate.service_id,
+        service_name: rate.service_name,
+        courier_id: rate.courier_id,
+        courier_name: rate.courier_name,
+        courier_logo: rate.courier_logo,
+        price: parseFloat(rate.price.toString()),
+        pickup_date: rate.pickup_date,
+        delivery_eta: rate.delivery,
+        has_cod: rate.addon_cod === "1",
+        has_insurance: rate.addon_insurance === "1",
+      }))
+
+    return { rates }
+  }
+
+  async submitOrders(orders: CourierOrderRequest[]): Promise<CourierOrderResult[]> {
+    const data = await this.request<EasyParcelSubmitResult>(
+      "EPSubmitOrderBulk",
+      orders.map((order) => ({
+        ...this.addressParams("pick", order.sender),
+        ...this.addressParams("send", order.receiver),
+        weight: order.weight.toString(),
+        width: "10",
+        length: "10",
+        height: "10",
+        content: order.content,
+        value: order.value.toFixed(2),
+        service_id: order.service_id,
+        collect_date: order.collect_date,
+        sms: order.sms ? "1" : "0",
+        reference: order.reference,
+      }))
+    )
+
+    return (data.result || []).map((result, index) => {
+      const reference = orders[index]?.reference
+      if (result.status === "Success" && result.order_number) {
+        return {
+          reference,
+          success: true,
+          order_no: result.order_number,
+          parcel_no: result.parcel_number,
+        }
+      }
+      return {
+        reference,
+        success: false,
+        message: result.remarks,
+      }
+    })
+  }
+
+  async payOrders(orderNos: string[]): Promise<CourierPaymentResult[]> {
+    const data = await this.request<EasyParcelPayResult>(
+      "EPPayOrderBulk",
+      orderNos.map((orderNo) => ({ order_no: orderNo }))
+    )
+
+    return (data.result || []).map((result, index) => {
+      // EasyParcel uses various field names: orderno, order_no, order_number
+      const orderNo = result.orderno || result.order_no || result.order_number || orderNos[index] || ""
+      const parcelNo = result.parcel_no || result.parcel_number || ""
+
+      // AWB might be in different places, sometimes nested in the parcel array
+      let awb = result.awb || result.tracking_number || ""
+      let trackingUrl = result.tracking_url || result.awb_id_link || ""
+      let labelUrl = result.awb_id_link || ""
+      if (result.parcel && result.parcel.length > 0) {
+        awb = awb || result.parcel[0].awb || ""
+        trackingUrl = trackingUrl || result.parcel[0].tracking_url || ""
+        labelUrl = labelUrl || result.parcel[0].awb_id_link || ""
+      }
+
+      const errorMessage = result.messagenow || result.remarks || ""
+      if (errorMessage.toLowerCase().includes("insufficient credit")) {
+        return {
+          order_no: orderNo,
+          success: false,
+          message: errorMessage,
+          insufficient_credit: true,
+        }
+      }
+
+      // In demo mode, payment might succeed without an AWB
+      const isSuccess = result.status?.toLowerCase() === "success" ||
+        (!!awb && !errorMessage.toLowerCase().includes("insufficient"))
+
+      if (!isSuccess) {
+        return { order_no: orderNo, success: false, message: errorMessage }
+      }
+
+      return {
+        order_no: orderNo,
+        success: true,
+        parcel_no: parcelNo,
+        awb,
+        tracking_url: trackingUrl,
+        label_url: labelUrl || undefined,
+      }
+    })
+  }
+
+  async track(awb: string): Promise<CourierTrackingResult> {
+    const data = await this.request<EasyParcelTrackResult>("EPTrackingBulk", [{ awb }])
+
+    const result = data.result?.[0]
+    if (!result || result.status !== "Success") {
+      return { awb, success: false, status: "pending", events: [], message: result?.remarks }
+    }
+
+    return {
+      awb,
+      success: true,
+      courier: result.courier,
+      parcel_status: result.parcel_status,
+      status: toParcelStatus(result.parcel_status),
+      events: result.tracking || [],
+    }
+  }
+
+  /**
+   * EasyParcel has no label action - the AWB PDF is only reachable through the
+   * awb_id_link handed out on payment
+   */
+  async fetchLabel(request: CourierLabelRequest): Promise<Buffer> {
+    if (!request.label_url) {
+      throw new CourierApiError(`No AWB document for ${request.awb}`)
+    }
+
+    const response = await fetch(request.label_url)
+    if (!response.ok) {
+      throw new CourierApiError(`AWB document for ${request.awb} returned ${response.status}`)
+    }
+
+    const content = Buffer.from(await response.arrayBuffer())
+    // Expired links answer with an HTML page instead of the PDF
+    if (content.subarray(0, 5).toString() !== "%PDF-") {
+      throw new CourierApiError(`AWB document for ${request.awb} is not a PDF`)
+    }
+    return content
+  }
+
+  async cancelOrders(orderNos: string[]): Promise<CourierCancelResult[]> {
+    const data = await this.request<EasyParcelCancelResult>(
+      "EPCancelOrderBulk",
+      orderNos.map((orderNo) => ({ order_no: orderNo }))
+    )
+
+    return (data.result || []).map((result, index) => ({
+      order_no: result.order_no || orderNos[index] || "",
+      success: result.status === "Success",
+      message: result.remarks,
+    }))
+  }
+
+  /**
+   * Pickup (pick_*) or delivery (send_*) parameters of an address
+   */
+  private addressParams(prefix: "pick" | "send", address: CourierAddress): Record<string, string> {
+    const phone = this.formatPhone(address.phone) || address.phone
+
+    return {
+      [`${prefix}_name`]: address.name,
+      [`${prefix}_company`]: address.company || "",
+      [`${prefix}_contact`]: phone,
+      [`${prefix}_mobile`]: phone,
+      [`${prefix}_addr1`]: address.address_1,
+      [`${prefix}_addr2`]: address.address_2 || "",
+      [`${prefix}_unit`]: address.unit || "-",
+      [`${prefix}_state`]: address.state || "Singapore",
+      [`${prefix}_code`]: address.postcode,
+      [`${prefix}_country`]: address.country,
+    }
+  }
+
+  /**
+   * POST a bulk action to EasyParcel
+   * @throws CourierApiError when EasyParcel rejects the request
+   */
+  private async request<T>(
+    action: string,
+    bulk: Array<Record<string, string>>
+  ): Promise<EasyParcelAPIResponse<T>> {
+    const baseUrl = this.useDemo
+      ? "http://demo.connect.easyparcel.sg"
+      : "http://connect.easyparcel.sg"
+
+    const params = new URLSearchParams()
+    params.append("api", this.apiKey || "")
+    bulk.forEach((item, index) => {
+      for (const [field, value] of Object.entries(item)) {
+        params.append(`bulk[${index}][${field}]`, value)
+      }
+    })
+
+    const response = await fetch(`${baseUrl}/?ac=${action}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/x-www-form-urlencoded",
+      },
+      body: params,
+    })
+    const data: EasyParcelAPIResponse<T> = await response.json()
+
+    // error_code 3 = Required api key, 4 = Invalid api key, 5 = Unauthorized user
+    // Note: error_code "0" means success, so we check for truthy non-zero values
+    if (data.api_status === "Error" || (data.error_code && data.error_code !== "0" && data.error_code !== 0)) {
+      throw new CourierApiError(data.error_remark || "")
+    }
+
+    return data
+  }
+}
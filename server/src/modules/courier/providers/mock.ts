@@ -0,0 +1,193 @@
+import PDFDocument from "pdfkit"
+import type {
+  CourierCancelResult,
+  CourierEnvironment,
+  CourierLabelRequest,
+  CourierOrderRequest,
+  CourierOrderResult,
+  CourierPaymentResult,
+  CourierProvider,
+  CourierRateRequest,
+  CourierRateResult,
+  CourierTrackingResult,
+} from "../types"
+import { formatMalaysiaPhone } from "./easyparcel"
+
+/**
+ * Services the mock quotes for every route: base price plus a price per kg
+ */
+const MOCK_SERVICES = [
+  { service_id: "MOCK-STD", service_name: "Mock Standard", courier_id: "MOCK-1", courier_name: "Mock Express", base: 5, per_kg: 1.5, eta: "2-3 working days" },
+  { service_id: "MOCK-NXD", service_name: "Mock Next Day", courier_id: "MOCK-1", courier_name: "Mock Express", base: 8, per_kg: 2, eta: "1 working day" },
+  { service_id: "MOCK-ECO", service_name: "Mock Economy", courier_id: "MOCK-2", courier_name: "Mock Post", base: 4, per_kg: 1, eta: "3-5 working days" },
+]
+
+/**
+ * Generate a mock AWB number
+ * Format: MOCK-{timestamp}-{random}
+ */
+export function generateMockAwb(): string {
+  const timestamp = Date.now().toString(36).toUpperCase()
+  const random = Math.random().toString(36).substring(2, 8).toUpperCase()
+  return `MOCK-${timestamp}-${random}`
+}
+
+/**
+ * Generate a mock parcel number
+ * Format: MP-{5 digit number}
+ */
+export function generateMockParcelNo(): string {
+  const num = Math.floor(10000 + Math.random() * 90000)
+  return `MP-${num}`
+}
+
+/**
+ * Next day as YYYY-MM-DD
+ */
+function nextDay(): string {
+  const date = new Date(Date.now() + 24 * 60 * 60 * 1000)
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * MockCourierProvider
+ * Answers every call locally, without network or credits. Used for development
+ * and tests (COURIER_PROVIDER=mock), and for simulated payments with
+ * EASYPARCEL_MOCK_PAYMENT
+ */
+export class MockCourierProvider implements CourierProvider {
+  readonly identifier = "mock"
+
+  isConfigured(): boolean {
+    return true
+  }
+
+  getEnvironment(): CourierEnvironment {
+    return "mock"
+  }
+
+  formatPhone(phone: string): string | null {
+    return formatMalaysiaPhone(phone)
+  }
+
+  async checkRates(request: CourierRateRequest): Promise<CourierRateResult> {
+    if (!request.sender_postcode || !request.receiver_postcode) {
+      return { rates: [], message: "Postcode is required" }
+    }
+
+    const weight = Math.max(request.weight, 0.5)
+    return {
+      rates: MOCK_SERVICES.map((service) => ({
+        service_id: service.service_id,
+        service_name: service.service_name,
+        courier_id: service.courier_id,
+        courier_name: service.courier_name,
+        courier_logo: "",
+        price: Math.round((service.base + service.per_kg * Math.ceil(weight)) * 100) / 100,
+        pickup_date: nextDay(),
+        delivery_eta: service.eta,
+        has_cod: false,
+        has_insurance: false,
+      })),
+    }
+  }
+
+  async submitOrders(orders: CourierOrderRequest[]): Promise<CourierOrderResult[]> {
+    return orders.map((order) => ({
+      reference: order.reference,
+      success: true,
+      order_no: `MOCK-EI-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).substring(2, 6).toUpperCase()}`,
+    }))
+  }
+
+  async payOrders(orderNos: string[]): Promise<CourierPaymentResult[]> {
+    return orderNos.map((orderNo) => {
+      const awb = generateMockAwb()
+      return {
+        order_no: orderNo,
+        success: true,
+        parcel_no: generateMockParcelNo(),
+        awb,
+        tracking_url: `https://track.easyparcel.sg/?awb=${awb}`,
+      }
+    })
+  }
+
+  /**
+   * Mock parcels move along with the age of their AWB: picked up straight
+   * away, in transit after an hour and delivered a day after payment
+   */
+  async track(awb: string): Promise<CourierTrackingResult> {
+    const issuedAt = parseInt(awb.split("-")[1] || "", 36)
+    if (!awb.startsWith("MOCK-") || Number.isNaN(issuedAt)) {
+      return { awb, success: false, status: "pending", events: [], message: "Unknown mock AWB" }
+    }
+
+    const stages = [
+      { after: 0, status: "Picked Up", description: "Parcel collected from sender" },
+      { after: 60 * 60 * 1000, status: "In Transit", description: "Parcel departed sorting hub" },
+      { after: 24 * 60 * 60 * 1000, status: "Delivered", description: "Parcel delivered to receiver" },
+    ]
+    const reached = stages.filter((stage) => Date.now() - issuedAt >= stage.after)
+    const latest = reached[reached.length - 1]
+
+    return {
+      awb,
+      success: true,
+      courier: "Mock Express",
+      parcel_status: latest.status,
+      status: latest.status === "Delivered" ? "delivered" : "in_transit",
+      events: reached.map((stage) => {
+        const at = new Date(issuedAt + stage.after).toISOString()
+        return {
+          date: at.slice(0, 10),
+          time: at.slice(11, 19),
+          status: stage.status,
+          description: stage.description,
+        }
+      }),
+    }
+  }
+
+  /**
+   * A 4x6" label with the AWB and receiver, laid out like a courier's own
+   */
+  async fetchLabel(request: CourierLabelRequest): Promise<Buffer> {
+    const doc = new PDFDocument({ size: [288, 432], margin: 18 })
+    const chunks: Buffer[] = []
+    doc.on("data", (chunk: Buffer) => chunks.push(chunk))
+    const done = new Promise<Buffer>((resolve, reject) => {
+      doc.on("end", () => resolve(Buffer.concat(chunks)))
+      doc.on("error", reject)
+    })
+
+    doc.fontSize(16).font("Helvetica-Bold").text(request.courier_name || "Mock Express")
+    doc.fontSize(9).font("Helvetica").text(request.service_name || "Mock Standard")
+    doc.moveDown()
+    doc.fontSize(8).text("AWB")
+    doc.fontSize(18).font("Helvetica-Bold").text(request.awb)
+    doc.moveDown()
+
+    const receiver = request.receiver
+    if (receiver) {
+      doc.fontSize(8).font("Helvetica").text("DELIVER TO")
+      doc.fontSize(11).font("Helvetica-Bold").text(receiver.name)
+      doc.fontSize(10).font("Helvetica")
+      doc.text(receiver.address_1)
+      if (receiver.address_2) doc.text(receiver.address_2)
+      doc.text(`${receiver.postcode} ${receiver.country}`)
+      doc.text(receiver.phone)
+      doc.moveDown()
+    }
+
+    doc.fontSize(8).text(`Ref: ${request.reference}`)
+    doc.text("MOCK LABEL - NOT FOR SHIPPING")
+    doc.end()
+
+    return done
+  }
+
+  async cancelOrders(orderNos: string[]): Promise<CourierCancelResult[]> {
+    return orderNos.map((orderNo) => ({ order_no: orderNo, success: true }))
+  }
+}
@@ -0,0 +1,122 @@
+import type { Logger } from "@medusajs/framework/types"
+import { EasyParcelProvider, type EasyParcelProviderOptions } from "../providers/easyparcel"
+import { MockCourierProvider } from "../providers/mock"
+import type {
+  CourierCancelResult,
+  CourierEnvironment,
+  CourierLabelRequest,
+  CourierOrderRequest,
+  CourierOrderResult,
+  CourierPaymentResult,
+  CourierProvider,
+  CourierRateRequest,
+  CourierRateResult,
+  CourierTrackingResult,
+} from "../types"
+
+type InjectedDependencies = {
+  logger: Logger
+}
+
+export type CourierModuleOptions = {
+  provider?: "easyparcel" | "mock"
+  mock_payment?: boolean // Simulate payments while using the real provider otherwise
+  easyparcel?: EasyParcelProviderOptions
+}
+
+/**
+ * CourierModuleService
+ * Single entry point for courier aggregators. Routes call this service and the
+ * configured provider does the actual API work
+ */
+class CourierModuleService {
+  protected logger: Logger
+  protected provider: CourierProvider
+  protected paymentProvider: CourierProvider
+
+  constructor({ logger }: InjectedDependencies, options: CourierModuleOptions = {}) {
+    this.logger = logger
+
+    const mockProvider = new MockCourierProvider()
+    this.provider = options.provider === "mock"
+      ? mockProvider
+      : new EasyParcelProvider(options.easyparcel)
+    this.paymentProvider = options.mock_payment ? mockProvider : this.provider
+  }
+
+  /**
+   * Identifier of the active provider, e.g. "easyparcel"
+   */
+  getProviderIdentifier(): string {
+    return this.provider.identifier
+  }
+
+  isConfigured(): boolean {
+    return this.provider.isConfigured()
+  }
+
+  getEnvironment(): CourierEnvironment {
+    return this.provider.getEnvironment()
+  }
+
+  /**
+   * Whether payments are simulated, so no AWB from payOrders is real
+   */
+  isMockPayment(): boolean {
+    return this.paymentProvider.getEnvironment() === "mock"
+  }
+
+  formatPhone(phone: string): string | null {
+    return this.provider.formatPhone(phone)
+  }
+
+  /**
+   * Rates for a route, cheapest first
+   */
+  async checkRates(request: CourierRateRequest): Promise<CourierRateResult> {
+    const result = await this.provider.checkRates(request)
+    return {
+      ...result,
+      rates: [...result.rates].sort((a, b) => a.price - b.price),
+    }
+  }
+
+  async submitOrders(orders: CourierOrderRequest[]): Promise<CourierOrderResult[]> {
+    return this.provider.submitOrders(orders)
+  }
+
+  async payOrders(orderNos: string[]): Promise<CourierPaymentResult[]> {
+    if (this.isMockPayment() && this.paymentProvider !== this.provider) {
+      this.logger.info(`[COURIER] Mock payment for ${orderNos.length} order(s)`)
+    }
+    return this.paymentProvider.payOrders(orderNos)
+  }
+
+  /**
+   * Tracking of an AWB. Simulated payments hand out mock AWBs, which only the
+   * mock provider can track
+   */
+  async track(awb: string): Promise<CourierTrackingResult> {
+    if (this.isMockPayment() && awb.startsWith("MOCK-")) {
+      return this.paymentProvider.track(awb)
+    }
+    return this.provider.track(awb)
+  }
+
+  /**
+   * AWB label PDF of a paid shipment. Like tracking, mock AWBs only have a
+   * label at the mock provider
+   */
+  async fetchLabel(request: CourierLabelRequest): Promise<Buffer> {
+    if (this.isMockPayment() && request.awb.startsWith("MOCK-")) {
+      return this.paymentProvider.fetchLabel(request)
+    }
+    return this.provider.fetchLabel(request)
+  }
+
+  async cancelOrders(orderNos: string[]): Promise<CourierCancelResult[]> {
+    return this.provider.cancelOrders(orderNos)
+  }
+}
+
+export default CourierModuleService
@@ -0,0 +1,169 @@
+/**
+ * Courier Provider Types
+ * Shared by every courier aggregator the courier module can talk to
+ */
+
+export type CourierEnvironment = "demo" | "production" | "mock"
+
+/**
+ * Pickup or delivery party of a shipment
+ */
+export type CourierAddress = {
+  name: string
+  company?: string
+  phone: string
+  address_1: string
+  address_2?: string
+  unit?: string
+  state?: string
+  postcode: string
+  country: string
+}
+
+export type CourierRateRequest = {
+  sender_postcode: string
+  sender_country: string
+  receiver_postcode: string
+  receiver_country: string
+  weight: number // kg
+}
+
+/**
+ * A courier service offered for a route, priced in major units (e.g. 5.50)
+ */
+export type CourierRate = {
+  service_id: string
+  service_name: string
+  courier_id: string
+  courier_name: string
+  courier_logo: string
+  price: number
+  pickup_date: string
+  delivery_eta: string
+  has_cod: boolean
+  has_insurance: boolean
+}
+
+export type CourierRateResult = {
+  rates: CourierRate[]
+  message?: string // Why no rates were returned
+}
+
+export type CourierOrderRequest = {
+  reference: string // Our own id, e.g. the Medusa order id
+  service_id: string
+  collect_date: string // YYYY-MM-DD
+  sender: CourierAddress
+  receiver: CourierAddress
+  weight: number // kg
+  content: string
+  value: number // Declared value in major units
+  sms?: boolean // Notify the receiver by SMS
+}
+
+export type CourierOrderResult = {
+  reference: string
+  success: boolean
+  order_no?: string
+  parcel_no?: string
+  message?: string
+}
+
+export type CourierPaymentResult = {
+  order_no: string
+  success: boolean
+  parcel_no?: string
+  awb?: string
+  tracking_url?: string
+  label_url?: string // Courier's AWB/label PDF
+  message?: string
+  insufficient_credit?: boolean
+}
+
+/**
+ * A paid shipment whose AWB label is wanted
+ */
+export type CourierLabelRequest = {
+  awb: string
+  label_url?: string | null // Link handed out when the shipment was paid
+  reference: string
+  courier_name?: string
+  service_name?: string
+  receiver?: CourierAddress
+}
+
+/**
+ * Where a parcel is, normalized from the courier's own status wording
+ */
+export type CourierParcelStatus = "pending" | "in_transit" | "delivered" | "failed"
+
+export type CourierTrackingEvent = {
+  date: string
+  time: string
+  status: string
+  location?: string
+  description?: string
+}
+
+export type CourierTrackingResult = {
+  awb: string
+  success: boolean
+  courier?: string
+  parcel_status?: string // As reported by the courier
+  status: CourierParcelStatus
+  events: CourierTrackingEvent[]
+  message?: string
+}
+
+export type CourierCancelResult = {
+  order_no: string
+  success: boolean
+  message?: string
+}
+
+/**
+ * A courier aggregator (EasyParcel, an on-demand courier, the local mock).
+ * Bulk methods return one result per input, in the same order
+ */
+export interface CourierProvider {
+  readonly identifier: string
+
+  /**
+   * Whether the provider has the credentials it needs
+   */
+  isConfigured(): boolean
+
+  getEnvironment(): CourierEnvironment
+
+  /**
+   * Phone number in the format the provider accepts, or null when invalid
+   */
+  formatPhone(phone: string): string | null
+
+  checkRates(request: CourierRateRequest): Promise<CourierRateResult>
+
+  submitOrders(orders: CourierOrderRequest[]): Promise<CourierOrderResult[]>
+
+  payOrders(orderNos: string[]): Promise<CourierPaymentResult[]>
+
+  track(awb: string): Promise<CourierTrackingResult>
+
+  /**
+   * The printable AWB label as a PDF
+   * @throws CourierApiError when the courier has no label for the shipment
+   */
+  fetchLabel(request: CourierLabelRequest): Promise<Buffer>
+
+  cancelOrders(orderNos: string[]): Promise<CourierCancelResult[]>
+}
+
+/**
+ * Error reported by the courier's API itself (bad credentials, invalid request),
+ * as opposed to a network failure reaching it
+ */
+export class CourierApiError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CourierApiError"
+  }
+}
@@ -0,0 +1,8 @@
+import { Module } from "@medusajs/framework/utils"
+import DeliverySlotModuleService from "./services/delivery-slot"
+
+export const DELIVERY_SLOT_MODULE = "deliverySlotModuleService"
+
+export default Module(DELIVERY_SLOT_MODULE, {
+  service: DeliverySlotModuleService,
+})
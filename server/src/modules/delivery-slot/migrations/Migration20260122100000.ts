@@ -0,0 +1,33 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260122100000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table if not exists "delivery_slot" ("id" text not null, "service_zone_id" text not null, "day_of_week" integer not null, "start_time" text not null, "end_time" text not null, "capacity" integer not null, "same_day_cutoff" text null, "is_active" boolean not null default true, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "delivery_slot_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_slot_deleted_at" ON "delivery_slot" (deleted_at) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_slot_zone_day" ON "delivery_slot" (service_zone_id, day_of_week) WHERE deleted_at IS NULL;`);
+
+    this.addSql(`create table if not exists "delivery_blackout" ("id" text not null, "date" text not null, "type" text check ("type" in ('holiday', 'blackout')) not null default 'holiday', "reason" text not null, "service_zone_id" text null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "delivery_blackout_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_blackout_deleted_at" ON "delivery_blackout" (deleted_at) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_blackout_date" ON "delivery_blackout" (date) WHERE deleted_at IS NULL;`);
+
+    this.addSql(`create table if not exists "delivery_slot_usage" ("id" text not null, "slot_id" text not null, "delivery_date" text not null, "reserved_count" integer not null default 0, "booked_count" integer not null default 0, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "delivery_slot_usage_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_slot_usage_deleted_at" ON "delivery_slot_usage" (deleted_at) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_delivery_slot_usage_slot_date" ON "delivery_slot_usage" (slot_id, delivery_date) WHERE deleted_at IS NULL;`);
+
+    this.addSql(`create table if not exists "delivery_slot_reservation" ("id" text not null, "slot_id" text not null, "delivery_date" text not null, "cart_id" text not null, "status" text check ("status" in ('reserved', 'converted', 'released')) not null default 'reserved', "expires_at" timestamptz not null, "order_id" text null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "delivery_slot_reservation_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_slot_reservation_deleted_at" ON "delivery_slot_reservation" (deleted_at) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_slot_reservation_cart_status" ON "delivery_slot_reservation" (cart_id, status) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_slot_reservation_status_expires" ON "delivery_slot_reservation" (status, expires_at) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_slot_reservation_date_status" ON "delivery_slot_reservation" (delivery_date, status) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_slot_reservation_order_id" ON "delivery_slot_reservation" (order_id) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "delivery_slot_reservation" cascade;`);
+    this.addSql(`drop table if exists "delivery_slot_usage" cascade;`);
+    this.addSql(`drop table if exists "delivery_blackout" cascade;`);
+    this.addSql(`drop table if exists "delivery_slot" cascade;`);
+  }
+
+}
@@ -0,0 +1,18 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * DeliveryBlackout model
+ * A date without deliveries - a public holiday or an operational blackout
+ * (e.g. cold room maintenance). Applies to every zone when service_zone_id is null.
+ * - date: "YYYY-MM-DD" in the store timezone
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const DeliveryBlackout = model.define("delivery_blackout", {
+  id: model.id().primaryKey(),
+  date: model.text(),
+  type: model.enum(["holiday", "blackout"]).default("holiday"),
+  reason: model.text(),
+  service_zone_id: model.text().nullable(),
+})
+
+export default DeliveryBlackout
@@ -0,0 +1,22 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * DeliverySlotReservation model
+ * A cart's hold on a delivery slot between choosing it at checkout and placing the order
+ * - reserved: counted in the slot usage's reserved_count
+ * - converted: the order was placed and the slot is booked for it
+ * - released: another slot was chosen, the cart went idle past expires_at,
+ *   or the order was cancelled
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const DeliverySlotReservation = model.define("delivery_slot_reservation", {
+  id: model.id().primaryKey(),
+  slot_id: model.text(),
+  delivery_date: model.text(),
+  cart_id: model.text(),
+  status: model.enum(["reserved", "converted", "released"]).default("reserved"),
+  expires_at: model.dateTime(),
+  order_id: model.text().nullable(), // Set when converted
+})
+
+export default DeliverySlotReservation
@@ -0,0 +1,19 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * DeliverySlotUsage model
+ * How much of a slot's capacity is taken on one delivery date
+ * - reserved_count: held by carts that haven't checked out yet
+ * - booked_count: taken by placed orders
+ * One row per slot and date, updated atomically so a slot can't be overbooked
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const DeliverySlotUsage = model.define("delivery_slot_usage", {
+  id: model.id().primaryKey(),
+  slot_id: model.text(),
+  delivery_date: model.text(),
+  reserved_count: model.number().default(0),
+  booked_count: model.number().default(0),
+})
+
+export default DeliverySlotUsage
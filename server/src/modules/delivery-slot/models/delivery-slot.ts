@@ -0,0 +1,24 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * DeliverySlot model
+ * A recurring delivery window of a service zone on one day of the week,
+ * e.g. Mondays 09:00-12:00 in Klang Valley, for up to `capacity` orders per date.
+ * - day_of_week: 0 (Sunday) to 6 (Saturday)
+ * - start_time / end_time: "HH:MM" in the store timezone
+ * - same_day_cutoff: "HH:MM" until which the slot can still be booked for today,
+ *   null when the slot can't be booked on the day itself
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const DeliverySlot = model.define("delivery_slot", {
+  id: model.id().primaryKey(),
+  service_zone_id: model.text(),
+  day_of_week: model.number(),
+  start_time: model.text(),
+  end_time: model.text(),
+  capacity: model.number(),
+  same_day_cutoff: model.text().nullable(),
+  is_active: model.boolean().default(true),
+})
+
+export default DeliverySlot
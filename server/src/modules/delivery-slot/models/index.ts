@@ -0,0 +1,6 @@
+import DeliveryBlackout from "./delivery-blackout"
+import DeliverySlot from "./delivery-slot"
+import DeliverySlotReservation from "./delivery-slot-reservation"
+import DeliverySlotUsage from "./delivery-slot-usage"
+
+export { DeliveryBlackout, DeliverySlot, DeliverySlotReservation, DeliverySlotUsage }
@@ -0,0 +1,510 @@
+import {
+  generateEntityId,
+  InjectManager,
+  MedusaContext,
+  MedusaError,
+  MedusaService,
+} from "@medusajs/framework/utils"
+import type { Context, InferTypeOf } from "@medusajs/framework/types"
+import type { EntityManager } from "@mikro-orm/knex"
+import {
+  DELIVERY_SLOT_BOOKING_DAYS,
+  DELIVERY_SLOT_HOLD_MINUTES,
+  DELIVERY_SLOT_TIMEZONE,
+} from "../../../lib/constants"
+import {
+  DeliveryBlackout,
+  DeliverySlot,
+  DeliverySlotReservation,
+  DeliverySlotUsage,
+} from "../models"
+
+type DeliverySlotRecord = InferTypeOf<typeof DeliverySlot>
+type DeliverySlotReservationRecord = InferTypeOf<typeof DeliverySlotReservation>
+
+export type AvailableDeliverySlot = {
+  id: string
+  start_time: string
+  end_time: string
+  capacity: number
+  remaining: number
+  same_day: boolean
+  available: boolean // Open for booking and not full
+}
+
+export type AvailableDeliveryDate = {
+  date: string
+  day_of_week: number
+  closed_reason: string | null // Holiday or blackout name when there are no deliveries
+  slots: AvailableDeliverySlot[]
+}
+
+/**
+ * Delivery slot chosen for a cart, copied to cart and order metadata
+ */
+export type DeliverySlotSelection = {
+  reservation_id: string
+  slot_id: string
+  service_zone_id: string
+  date: string
+  start_time: string
+  end_time: string
+}
+
+/**
+ * Date ("YYYY-MM-DD"), time ("HH:MM") and weekday of an instant in the store timezone
+ */
+export function getStoreDateTime(at: Date = new Date()): {
+  date: string
+  time: string
+  day_of_week: number
+} {
+  const parts = new Intl.DateTimeFormat("en-CA", {
+    timeZone: DELIVERY_SLOT_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(at)
+  const part = (type: string): string => parts.find((p) => p.type === type)?.value || ""
+
+  const date = `${part("year")}-${part("month")}-${part("day")}`
+  return {
+    date,
+    time: `${part("hour")}:${part("minute")}`,
+    day_of_week: getDayOfWeek(date),
+  }
+}
+
+/**
+ * Weekday of a "YYYY-MM-DD" date, 0 (Sunday) to 6 (Saturday)
+ */
+export function getDayOfWeek(date: string): number {
+  return new Date(`${date}T00:00:00Z`).getUTCDay()
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`)
+  d.setUTCDate(d.getUTCDate() + days)
+  return d.toISOString().slice(0, 10)
+}
+
+/**
+ * DeliverySlotModuleService
+ * Delivery windows per service zone with per-date capacity, same-day cut-offs
+ * and blackout dates. Capacity is held for a cart when a slot is chosen at
+ * checkout and booked when the order is placed, following the same
+ * reserve -> convert/release lifecycle as promo reservations.
+ */
+class DeliverySlotModuleService extends MedusaService({
+  DeliveryBlackout,
+  DeliverySlot,
+  DeliverySlotReservation,
+  DeliverySlotUsage,
+}) {
+  /**
+   * Atomically take one place in a slot on a date for a cart
+   * Only succeeds while reserved + booked places are below the slot's capacity
+   * @returns true if a place was reserved
+   */
+  @InjectManager()
+  protected async incrementSlotReserved(
+    slotId: string,
+    date: string,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<boolean> {
+    const rows = await sharedContext.manager!.execute(
+      `INSERT INTO "delivery_slot_usage" ("id", "slot_id", "delivery_date", "reserved_count", "booked_count")
+       SELECT ?, "id", ?, 1, 0 FROM "delivery_slot" WHERE "id" = ? AND "capacity" > 0
+       ON CONFLICT ("slot_id", "delivery_date") WHERE "deleted_at" IS NULL
+       DO UPDATE SET "reserved_count" = "delivery_slot_usage"."reserved_count" + 1, "updated_at" = now()
+       WHERE "delivery_slot_usage"."reserved_count" + "delivery_slot_usage"."booked_count"
+         < (SELECT "capacity" FROM "delivery_slot" WHERE "id" = ?)
+       RETURNING "id"`,
+      [generateEntityId(undefined, "dsusage"), date, slotId, slotId]
+    )
+    return rows.length > 0
+  }
+
+  /**
+   * Atomically move reserved/booked places of a slot on a date, never below zero
+   */
+  @InjectManager()
+  protected async adjustSlotUsage(
+    slotId: string,
+    date: string,
+    reservedDelta: number,
+    bookedDelta: number,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<void> {
+    await sharedContext.manager!.execute(
+      `INSERT INTO "delivery_slot_usage" ("id", "slot_id", "delivery_date", "reserved_count", "booked_count")
+       VALUES (?, ?, ?, GREATEST(?, 0), GREATEST(?, 0))
+       ON CONFLICT ("slot_id", "delivery_date") WHERE "deleted_at" IS NULL
+       DO UPDATE SET
+         "reserved_count" = GREATEST("delivery_slot_usage"."reserved_count" + ?, 0),
+         "booked_count" = GREATEST("delivery_slot_usage"."booked_count" + ?, 0),
+         "updated_at" = now()`,
+      [
+        generateEntityId(undefined, "dsusage"),
+        slotId,
+        date,
+        reservedDelta,
+        bookedDelta,
+        reservedDelta,
+        bookedDelta,
+      ]
+    )
+  }
+
+  /**
+   * Atomically move a reservation from one status to another
+   * Guards against two callers (e.g. slot change + expiry job) both giving back the same place
+   * @returns true if this call made the transition
+   */
+  @InjectManager()
+  protected async closeReservation(
+    id: string,
+    from: "reserved" | "converted",
+    to: "converted" | "released",
+    orderId: string | null,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<boolean> {
+    const rows = await sharedContext.manager!.execute(
+      `UPDATE "delivery_slot_reservation" SET "status" = ?, "order_id" = COALESCE(?, "order_id"), "updated_at" = now()
+       WHERE "id" = ? AND "status" = ? RETURNING "id"`,
+      [to, orderId, id, from]
+    )
+    return rows.length > 0
+  }
+
+  private getReservationExpiry(): Date {
+    return new Date(Date.now() + DELIVERY_SLOT_HOLD_MINUTES * 60 * 1000)
+  }
+
+  /**
+   * Find the cart's active slot reservation
+   */
+  async getCartReservation(cartId: string): Promise<DeliverySlotReservationRecord | null> {
+    const [reservation] = await this.listDeliverySlotReservations(
+      { cart_id: cartId, status: "reserved" },
+      { take: 1 }
+    )
+    return reservation ?? null
+  }
+
+  /**
+   * Why a slot can't be booked for a date, or null when it can
+   */
+  async getBookingError(
+    slot: DeliverySlotRecord,
+    date: string,
+    now: Date = new Date()
+  ): Promise<string | null> {
+    if (!slot.is_active) {
+      return "This delivery slot is no longer offered"
+    }
+
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(new Date(`${date}T00:00:00Z`).getTime())) {
+      return "Invalid delivery date"
+    }
+
+    const today = getStoreDateTime(now)
+    if (date < today.date) {
+      return "The delivery date has passed"
+    }
+
+    if (date > addDays(today.date, DELIVERY_SLOT_BOOKING_DAYS)) {
+      return `Deliveries can be booked up to ${DELIVERY_SLOT_BOOKING_DAYS} days ahead`
+    }
+
+    if (getDayOfWeek(date) !== slot.day_of_week) {
+      return "This delivery slot isn't offered on the chosen date"
+    }
+
+    if (date === today.date && (!slot.same_day_cutoff || today.time >= slot.same_day_cutoff)) {
+      return slot.same_day_cutoff
+        ? `Same-day delivery in this slot closes at ${slot.same_day_cutoff}`
+        : "This delivery slot can't be booked on the same day"
+    }
+
+    const blackouts = await this.listDeliveryBlackouts({ date })
+    const blackout = blackouts.find(
+      (b) => !b.service_zone_id || b.service_zone_id === slot.service_zone_id
+    )
+    if (blackout) {
+      return `No deliveries on ${date} (${blackout.reason})`
+    }
+
+    return null
+  }
+
+  /**
+   * Delivery dates and slots of a service zone, from today up to DELIVERY_SLOT_BOOKING_DAYS ahead
+   * Dates without slots are left out, blacked out dates are kept with their reason
+   */
+  async getAvailableSlots(
+    serviceZoneId: string,
+    now: Date = new Date()
+  ): Promise<AvailableDeliveryDate[]> {
+    const slots = await this.listDeliverySlots(
+      { service_zone_id: serviceZoneId, is_active: true },
+      { order: { start_time: "ASC" } }
+    )
+    if (slots.length === 0) {
+      return []
+    }
+
+    const today = getStoreDateTime(now)
+    const dates = Array.from({ length: DELIVERY_SLOT_BOOKING_DAYS + 1 }, (_, i) => addDays(today.date, i))
+
+    const [blackouts, usages] = await Promise.all([
+      this.listDeliveryBlackouts({ date: dates }),
+      this.listDeliverySlotUsages({ slot_id: slots.map((s) => s.id), delivery_date: dates }),
+    ])
+
+    const taken = new Map(
+      usages.map((u) => [`${u.slot_id}:${u.delivery_date}`, u.reserved_count + u.booked_count])
+    )
+
+    return dates
+      .map((date) => {
+        const dayOfWeek = getDayOfWeek(date)
+        const blackout = blackouts.find(
+          (b) => b.date === date && (!b.service_zone_id || b.service_zone_id === serviceZoneId)
+        )
+        const daySlots = blackout
+          ? []
+          : slots
+            .filter((slot) => slot.day_of_week === dayOfWeek)
+            .map((slot) => {
+              const remaining = Math.max(0, slot.capacity - (taken.get(`${slot.id}:${date}`) || 0))
+              const sameDay = date === today.date
+              const open = !sameDay || (!!slot.same_day_cutoff && today.time < slot.same_day_cutoff)
+              return {
+                id: slot.id,
+                start_time: slot.start_time,
+                end_time: slot.end_time,
+                capacity: slot.capacity,
+                remaining,
+                same_day: sameDay,
+                available: open && remaining > 0,
+              }
+            })
+
+        return {
+          date,
+          day_of_week: dayOfWeek,
+          closed_reason: blackout?.reason ?? null,
+          slots: daySlots,
+        }
+      })
+      .filter((day) => day.closed_reason || day.slots.length > 0)
+  }
+
+  /**
+   * Hold a place in a slot for a cart
+   * Choosing another slot releases the previous hold once the new one is taken;
+   * choosing the same slot again extends the hold.
+   * @returns The selection, or null when the slot is full
+   */
+  async reserveSlot(
+    cartId: string,
+    slotId: string,
+    date: string,
+    serviceZoneId?: string | null
+  ): Promise<DeliverySlotSelection | null> {
+    const [slot] = await this.listDeliverySlots({ id: slotId }, { take: 1 })
+    if (!slot) {
+      throw new MedusaError(MedusaError.Types.NOT_FOUND, "Delivery slot not found")
+    }
+
+    if (serviceZoneId && slot.service_zone_id !== serviceZoneId) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        "This delivery slot isn't available for your delivery address"
+      )
+    }
+
+    const bookingError = await this.getBookingError(slot, date)
+    if (bookingError) {
+      throw new MedusaError(MedusaError.Types.NOT_ALLOWED, bookingError)
+    }
+
+    const toSelection = (reservationId: string): DeliverySlotSelection => ({
+      reservation_id: reservationId,
+      slot_id: slot.id,
+      service_zone_id: slot.service_zone_id,
+      date,
+      start_time: slot.start_time,
+      end_time: slot.end_time,
+    })
+
+    const existing = await this.getCartReservation(cartId)
+    if (existing && existing.slot_id === slot.id && existing.delivery_date === date) {
+      await this.updateDeliverySlotReservations({
+        id: existing.id,
+        expires_at: this.getReservationExpiry(),
+      })
+      return toSelection(existing.id)
+    }
+
+    const reserved = await this.incrementSlotReserved(slot.id, date)
+    if (!reserved) {
+      return null
+    }
+
+    let reservation: DeliverySlotReservationRecord
+    try {
+      reservation = await this.createDeliverySlotReservations({
+        slot_id: slot.id,
+        delivery_date: date,
+        cart_id: cartId,
+        status: "reserved",
+        expires_at: this.getReservationExpiry(),
+      })
+    } catch (error) {
+      // Give the place back if the reservation row couldn't be written
+      await this.adjustSlotUsage(slot.id, date, -1, 0)
+      throw error
+    }
+
+    if (existing) {
+      await this.releaseReservation(existing)
+    }
+
+    return toSelection(reservation.id)
+  }
+
+  private async releaseReservation(reservation: DeliverySlotReservationRecord): Promise<boolean> {
+    const released = await this.closeReservation(reservation.id, "reserved", "released", null)
+    if (released) {
+      await this.adjustSlotUsage(reservation.slot_id, reservation.delivery_date, -1, 0)
+    }
+    return released
+  }
+
+  /**
+   * Release the slot a cart is holding (slot removed at checkout)
+   * @returns true if a reservation was released
+   */
+  async releaseCartReservation(cartId: string): Promise<boolean> {
+    const reservation = await this.getCartReservation(cartId)
+    if (!reservation) {
+      return false
+    }
+    return await this.releaseReservation(reservation)
+  }
+
+  /**
+   * Book the slot for an order when it is placed
+   * Checkout re-takes the cart's hold right before the order is created (see
+   * workflows/hooks/complete-cart), so a hold is normally there to convert.
+   * Orders placed without one are still booked on the chosen slot, even if that
+   * takes it over capacity - the order exists and was promised the window.
+   */
+  async convertCartReservation(
+    cartId: string | null,
+    orderId: string,
+    selection: Pick<DeliverySlotSelection, "slot_id" | "date">
+  ): Promise<void> {
+    const reservation = cartId ? await this.getCartReservation(cartId) : null
+
+    if (
+      reservation &&
+      reservation.slot_id === selection.slot_id &&
+      reservation.delivery_date === selection.date &&
+      await this.closeReservation(reservation.id, "reserved", "converted", orderId)
+    ) {
+      await this.adjustSlotUsage(reservation.slot_id, reservation.delivery_date, -1, 1)
+      return
+    }
+
+    if (reservation) {
+      await this.releaseReservation(reservation)
+    }
+
+    await this.adjustSlotUsage(selection.slot_id, selection.date, 0, 1)
+    await this.createDeliverySlotReservations({
+      slot_id: selection.slot_id,
+      delivery_date: selection.date,
+      cart_id: cartId || orderId,
+      status: "converted",
+      expires_at: new Date(),
+      order_id: orderId,
+    })
+  }
+
+  /**
+   * Free the slot a cancelled order had booked
+   * @returns true if a booking was released
+   */
+  async releaseOrderBooking(orderId: string): Promise<boolean> {
+    const [reservation] = await this.listDeliverySlotReservations(
+      { order_id: orderId, status: "converted" },
+      { take: 1 }
+    )
+    if (!reservation) {
+      return false
+    }
+
+    const released = await this.closeReservation(reservation.id, "converted", "released", null)
+    if (released) {
+      await this.adjustSlotUsage(reservation.slot_id, reservation.delivery_date, 0, -1)
+    }
+    return released
+  }
+
+  /**
+   * Release slot holds of carts that went idle past their expiry
+   * @returns Number of reservations released
+   */
+  async releaseExpiredSlotReservations(now: Date = new Date()): Promise<number> {
+    const expired = await this.listDeliverySlotReservations(
+      { status: "reserved", expires_at: { $lt: now } },
+      { take: 1000 }
+    )
+
+    let released = 0
+    for (const reservation of expired) {
+      if (await this.releaseReservation(reservation)) {
+        released++
+      }
+    }
+
+    return released
+  }
+
+  /**
+   * Orders booked for delivery on a date, with their slot
+   */
+  async getBookingsForDate(date: string): Promise<Array<{
+    order_id: string
+    slot: DeliverySlotRecord | null
+  }>> {
+    const reservations = await this.listDeliverySlotReservations(
+      { delivery_date: date, status: "converted" },
+      { take: 1000 }
+    )
+    if (reservations.length === 0) {
+      return []
+    }
+
+    const slots = await this.listDeliverySlots(
+      { id: Array.from(new Set(reservations.map((r) => r.slot_id))) },
+      { withDeleted: true }
+    )
+    const slotMap = new Map(slots.map((slot) => [slot.id, slot]))
+
+    return reservations
+      .filter((r) => r.order_id)
+      .map((r) => ({
+        order_id: r.order_id!,
+        slot: slotMap.get(r.slot_id) ?? null,
+      }))
+  }
+}
+
+export default DeliverySlotModuleService
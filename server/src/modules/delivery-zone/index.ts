@@ -0,0 +1,8 @@
+import { Module } from "@medusajs/framework/utils"
+import DeliveryZoneModuleService from "./services/delivery-zone"
+
+export const DELIVERY_ZONE_MODULE = "deliveryZoneModuleService"
+
+export default Module(DELIVERY_ZONE_MODULE, {
+  service: DeliveryZoneModuleService,
+})
@@ -0,0 +1,15 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260123100000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table if not exists "delivery_zone" ("id" text not null, "name" text not null, "postcodes" jsonb null, "postcode_ranges" jsonb null, "rate" integer not null default 0, "free_shipping_threshold" integer null, "minimum_order_value" integer null, "shipping_option_ids" jsonb null, "priority" integer not null default 0, "is_active" boolean not null default true, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "delivery_zone_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_zone_deleted_at" ON "delivery_zone" (deleted_at) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_delivery_zone_active_priority" ON "delivery_zone" (is_active, priority) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "delivery_zone" cascade;`);
+  }
+
+}
@@ -0,0 +1,29 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * DeliveryZone model
+ * A group of postcodes with its own delivery rate and order rules.
+ * - postcodes: JSON array of single postcodes, e.g. ["50450", "50460"]
+ * - postcode_ranges: JSON array of inclusive ranges, e.g. [{ "from": "40000", "to": "48300" }]
+ * - rate: delivery charge in cents, replacing the shipping option's own price
+ * - free_shipping_threshold: order value in cents from which delivery is free
+ * - minimum_order_value: order value in cents below which the zone won't deliver
+ * - shipping_option_ids: JSON array of shipping options offered in the zone,
+ *   empty for all options
+ * - priority: when zones overlap, the highest priority zone wins
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const DeliveryZone = model.define("delivery_zone", {
+  id: model.id().primaryKey(),
+  name: model.text(),
+  postcodes: model.json().nullable(),
+  postcode_ranges: model.json().nullable(),
+  rate: model.number().default(0),
+  free_shipping_threshold: model.number().nullable(),
+  minimum_order_value: model.number().nullable(),
+  shipping_option_ids: model.json().nullable(),
+  priority: model.number().default(0),
+  is_active: model.boolean().default(true),
+})
+
+export default DeliveryZone
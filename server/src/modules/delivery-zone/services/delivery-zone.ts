@@ -0,0 +1,133 @@
+import { MedusaService } from "@medusajs/framework/utils"
+import type { InferTypeOf } from "@medusajs/framework/types"
+import DeliveryZone from "../models/delivery-zone"
+
+type DeliveryZoneRecord = InferTypeOf<typeof DeliveryZone>
+
+export type PostcodeRange = {
+  from: string
+  to: string
+}
+
+/**
+ * Delivery charge and order rules of a zone for one order value, stored in
+ * cart metadata and returned with the shipping options at checkout
+ */
+export type DeliveryZoneQuote = {
+  zone_id: string
+  name: string
+  postal_code: string
+  rate: number
+  shipping_amount: number         // 0 once the free shipping threshold is reached
+  order_value: number
+  free_shipping_threshold: number | null
+  amount_to_free_shipping: number | null
+  minimum_order_value: number | null
+  amount_to_minimum: number       // 0 when the minimum is met
+  meets_minimum: boolean
+}
+
+/**
+ * Postcodes are compared without spaces and case, so "50 450" matches "50450"
+ */
+export function normalizePostcode(postcode: string | null | undefined): string {
+  return (postcode || "").replace(/\s+/g, "").toUpperCase()
+}
+
+/**
+ * Order of two normalized postcodes - numerically when both are digits only
+ */
+export function comparePostcodes(a: string, b: string): number {
+  if (/^\d+$/.test(a) && /^\d+$/.test(b)) {
+    return Number(a) - Number(b)
+  }
+  return a.localeCompare(b)
+}
+
+/**
+ * Whether a postcode is in a zone's postcode list or one of its ranges
+ */
+export function isPostcodeInZone(
+  zone: { postcodes?: unknown; postcode_ranges?: unknown },
+  postcode: string
+): boolean {
+  const normalized = normalizePostcode(postcode)
+  if (!normalized) return false
+
+  const postcodes = (zone.postcodes as string[] | null) || []
+  if (postcodes.some((code) => normalizePostcode(code) === normalized)) {
+    return true
+  }
+
+  const ranges = (zone.postcode_ranges as PostcodeRange[] | null) || []
+  return ranges.some((range) => {
+    const from = normalizePostcode(range.from)
+    const to = normalizePostcode(range.to)
+    return comparePostcodes(normalized, from) >= 0 && comparePostcodes(normalized, to) <= 0
+  })
+}
+
+/**
+ * Whether a zone offers a shipping option - zones without a list offer all of them
+ */
+export function isShippingOptionInZone(
+  zone: { shipping_option_ids?: unknown },
+  shippingOptionId: string
+): boolean {
+  const optionIds = (zone.shipping_option_ids as string[] | null) || []
+  return optionIds.length === 0 || optionIds.includes(shippingOptionId)
+}
+
+/**
+ * Delivery charge and minimum order check of a zone for an order value (cents)
+ */
+export function quoteDeliveryZone(
+  zone: DeliveryZoneRecord,
+  postalCode: string,
+  orderValue: number
+): DeliveryZoneQuote {
+  const rate = Number(zone.rate) || 0
+  const threshold = zone.free_shipping_threshold ?? null
+  const minimum = zone.minimum_order_value ?? null
+  const freeShipping = threshold !== null && orderValue >= threshold
+
+  return {
+    zone_id: zone.id,
+    name: zone.name,
+    postal_code: normalizePostcode(postalCode),
+    rate,
+    shipping_amount: freeShipping ? 0 : rate,
+    order_value: orderValue,
+    free_shipping_threshold: threshold,
+    amount_to_free_shipping: threshold !== null ? Math.max(0, threshold - orderValue) : null,
+    minimum_order_value: minimum,
+    amount_to_minimum: minimum !== null ? Math.max(0, minimum - orderValue) : 0,
+    meets_minimum: minimum === null || orderValue >= minimum,
+  }
+}
+
+/**
+ * DeliveryZoneModuleService
+ * Manages postcode-based delivery zones and finds the zone of an address
+ */
+class DeliveryZoneModuleService extends MedusaService({
+  DeliveryZone,
+}) {
+  /**
+   * Active zone covering a postcode
+   * When zones overlap, the one with the highest priority (then the oldest) wins
+   * @returns The zone, or null when no zone covers the postcode
+   */
+  async findZoneForPostcode(postcode: string): Promise<DeliveryZoneRecord | null> {
+    if (!normalizePostcode(postcode)) return null
+
+    const zones = await this.listDeliveryZones(
+      { is_active: true },
+      { order: { priority: "DESC", created_at: "ASC" } }
+    )
+
+    return zones.find((zone) => isPostcodeInZone(zone, postcode)) || null
+  }
+}
+
+export default DeliveryZoneModuleService
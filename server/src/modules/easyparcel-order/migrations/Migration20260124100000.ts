@@ -0,0 +1,14 @@
+import { Migration } from "@mikro-orm/migrations"
+
+export class Migration20260124100000 extends Migration {
+  override async up(): Promise<void> {
+    // Courier tracking history, kept in sync by the sync-courier-tracking job
+    this.addSql(`alter table if exists "easyparcel_order" add column if not exists "tracking_status" text null, add column if not exists "tracking_events" jsonb null, add column if not exists "last_tracked_at" timestamptz null, add column if not exists "delivered_at" timestamptz null;`)
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_easyparcel_order_trackable" ON "easyparcel_order" (status, updated_at) WHERE awb IS NOT NULL AND deleted_at IS NULL;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`DROP INDEX IF EXISTS "IDX_easyparcel_order_trackable";`)
+    this.addSql(`alter table if exists "easyparcel_order" drop column if exists "tracking_status", drop column if exists "tracking_events", drop column if exists "last_tracked_at", drop column if exists "delivered_at";`)
+  }
+}
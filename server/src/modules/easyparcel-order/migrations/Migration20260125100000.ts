@@ -0,0 +1,12 @@
+import { Migration } from "@mikro-orm/migrations"
+
+export class Migration20260125100000 extends Migration {
+  override async up(): Promise<void> {
+    // AWB label: the courier's link and our stored copy in the file module
+    this.addSql(`alter table if exists "easyparcel_order" add column if not exists "awb_document_url" text null, add column if not exists "label_file_id" text null, add column if not exists "label_url" text null;`)
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`alter table if exists "easyparcel_order" drop column if exists "awb_document_url", drop column if exists "label_file_id", drop column if exists "label_url";`)
+  }
+}
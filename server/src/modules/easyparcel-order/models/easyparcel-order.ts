@@ -49,6 +49,15 @@ const EasyParcelOrder = model.define("easyparcel_order", {
 
   // Tracking
   tracking_url: model.text().nullable(),
+  tracking_status: model.text().nullable(), // Latest parcel status as reported by the courier
+  tracking_events: model.json().nullable(), // Checkpoint history, oldest first
+  last_tracked_at: model.dateTime().nullable(),
+  delivered_at: model.dateTime().nullable(),
+
+  // AWB label
+  awb_document_url: model.text().nullable(), // Courier's AWB PDF link (may expire)
+  label_file_id: model.text().nullable(), // Our stored copy in the file module
+  label_url: model.text().nullable(),
 
   // Metadata for additional info
   metadata: model.json().nullable(),
@@ -22,9 +22,23 @@ type EasyParcelOrderData = {
   receiver_country?: string
   status?: string
   tracking_url?: string | null
+  tracking_status?: string | null
+  tracking_events?: Record<string, unknown> | null // Array of checkpoints (json column)
+  last_tracked_at?: Date | null
+  delivered_at?: Date | null
+  awb_document_url?: string | null
+  label_file_id?: string | null
+  label_url?: string | null
   metadata?: Record<string, unknown> | null
 }
 
+type TrackingUpdate = {
+  status?: string
+  tracking_status?: string | null
+  tracking_events: Record<string, unknown>[]
+  delivered_at?: Date
+}
+
 /**
  * EasyParcelOrderModuleService
  * Handles EasyParcel order CRUD operations
@@ -124,17 +138,34 @@ class EasyParcelOrderModuleService extends MedusaService({
     id: string,
     parcelNo: string,
     awb: string,
-    trackingUrl?: string
+    trackingUrl?: string,
+    awbDocumentUrl?: string
   ): Promise<EasyParcelOrderData> {
     return this.updateEasyParcelOrders({
       id,
       parcel_no: parcelNo,
       awb,
       tracking_url: trackingUrl ?? null,
+      awb_document_url: awbDocumentUrl ?? null,
       status: "paid",
     })
   }
 
+  /**
+   * Link the stored copy of the AWB label
+   */
+  async attachLabel(
+    id: string,
+    fileId: string,
+    url: string
+  ): Promise<EasyParcelOrderData> {
+    return this.updateEasyParcelOrders({
+      id,
+      label_file_id: fileId,
+      label_url: url,
+    })
+  }
+
   /**
    * Update order status
    */
@@ -147,6 +178,32 @@ class EasyParcelOrderModuleService extends MedusaService({
       status,
     })
   }
+
+  /**
+   * Paid and in-transit shipments whose tracking should be polled,
+   * least recently updated first
+   */
+  async listTrackable(limit = 100): Promise<EasyParcelOrderData[]> {
+    return this.listEasyParcelOrders(
+      { awb: { $ne: null }, status: ["paid", "in_transit"] },
+      { take: limit, order: { updated_at: "ASC" } }
+    )
+  }
+
+  /**
+   * Store the latest tracking lookup of a shipment
+   */
+  async recordTracking(
+    id: string,
+    data: TrackingUpdate
+  ): Promise<EasyParcelOrderData> {
+    return this.updateEasyParcelOrders({
+      id,
+      ...data,
+      tracking_events: data.tracking_events as unknown as Record<string, unknown>,
+      last_tracked_at: new Date(),
+    })
+  }
 }
 
 export default EasyParcelOrderModuleService
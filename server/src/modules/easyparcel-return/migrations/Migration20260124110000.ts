@@ -0,0 +1,16 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260124110000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Courier tracking history, kept in sync by the sync-courier-tracking job
+    this.addSql(`alter table if exists "easyparcel_return" add column if not exists "tracking_status" text null, add column if not exists "tracking_events" jsonb null, add column if not exists "last_tracked_at" timestamptz null, add column if not exists "delivered_at" timestamptz null;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_easyparcel_return_trackable" ON "easyparcel_return" (status, updated_at) WHERE awb IS NOT NULL AND deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`DROP INDEX IF EXISTS "IDX_easyparcel_return_trackable";`);
+    this.addSql(`alter table if exists "easyparcel_return" drop column if exists "tracking_status", drop column if exists "tracking_events", drop column if exists "last_tracked_at", drop column if exists "delivered_at";`);
+  }
+
+}
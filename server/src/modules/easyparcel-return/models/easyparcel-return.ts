@@ -61,6 +61,10 @@ const EasyParcelReturn = model.define("easyparcel_return", {
 
   // Tracking
   tracking_url: model.text().nullable(),
+  tracking_status: model.text().nullable(), // Latest parcel status as reported by the courier
+  tracking_events: model.json().nullable(), // Checkpoint history, oldest first
+  last_tracked_at: model.dateTime().nullable(),
+  delivered_at: model.dateTime().nullable(),
 
   // Metadata for additional info
   metadata: model.json().nullable(),
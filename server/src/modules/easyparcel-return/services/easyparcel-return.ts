@@ -28,9 +28,20 @@ type EasyParcelReturnData = {
   receiver_country?: string
   status?: string
   tracking_url?: string | null
+  tracking_status?: string | null
+  tracking_events?: Record<string, unknown> | null // Array of checkpoints (json column)
+  last_tracked_at?: Date | null
+  delivered_at?: Date | null
   metadata?: Record<string, unknown> | null
 }
 
+type TrackingUpdate = {
+  status?: string
+  tracking_status?: string | null
+  tracking_events: Record<string, unknown>[]
+  delivered_at?: Date
+}
+
 /**
  * EasyParcelReturnModuleService
  * Handles EasyParcel return shipment CRUD operations
@@ -166,6 +177,32 @@ class EasyParcelReturnModuleService extends MedusaService({
       status,
     })
   }
+
+  /**
+   * Paid and in-transit shipments whose tracking should be polled,
+   * least recently updated first
+   */
+  async listTrackable(limit = 100): Promise<EasyParcelReturnData[]> {
+    return this.listEasyParcelReturns(
+      { awb: { $ne: null }, status: ["paid", "in_transit"] },
+      { take: limit, order: { updated_at: "ASC" } }
+    )
+  }
+
+  /**
+   * Store the latest tracking lookup of a shipment
+   */
+  async recordTracking(
+    id: string,
+    data: TrackingUpdate
+  ): Promise<EasyParcelReturnData> {
+    return this.updateEasyParcelReturns({
+      id,
+      ...data,
+      tracking_events: data.tracking_events as unknown as Record<string, unknown>,
+      last_tracked_at: new Date(),
+    })
+  }
 }
 
 export default EasyParcelReturnModuleService
@@ -0,0 +1,111 @@
+// @ts-nocheck - Ignore React 18/19 type conflicts with @react-email/components
+import { Button, Section, Text, Hr, Img } from '@react-email/components'
+import * as React from 'react'
+import { Base } from './base'
+
+/**
+ * The key for the BackInStock template
+ */
+export const BACK_IN_STOCK = 'back-in-stock'
+
+/**
+ * The props for the BackInStock template
+ */
+export interface BackInStockProps {
+  /**
+   * The product that is available again
+   */
+  productTitle: string
+  /**
+   * Product thumbnail URL
+   */
+  thumbnail?: string
+  /**
+   * Formatted current price, e.g. "$25.00 MYR"
+   */
+  price?: string
+  /**
+   * Link to the product page
+   */
+  productLink: string
+  /**
+   * The preview text for the email
+   */
+  preview?: string
+}
+
+/**
+ * Type guard for checking if the data is of type BackInStockProps
+ */
+export const isBackInStockData = (data: unknown): data is BackInStockProps => {
+  if (typeof data !== 'object' || data === null) return false
+  const d = data as Record<string, unknown>
+  return (
+    typeof d.productTitle === 'string' &&
+    typeof d.productLink === 'string' &&
+    (typeof d.thumbnail === 'string' || d.thumbnail === undefined) &&
+    (typeof d.price === 'string' || d.price === undefined) &&
+    (typeof d.preview === 'string' || d.preview === undefined)
+  )
+}
+
+/**
+ * The BackInStock template component
+ */
+export const BackInStockEmail = ({
+  productTitle,
+  thumbnail,
+  price,
+  productLink,
+  preview = 'It is back in stock',
+}: BackInStockProps): React.JSX.Element => {
+  return (
+    <Base preview={preview}>
+      <Section className="text-center">
+        <Text className="text-black text-[28px] font-bold leading-[36px] mt-0 mb-[16px]">
+          It&apos;s back in stock!
+        </Text>
+        <Text className="text-[#666666] text-[16px] leading-[26px] mt-0 mb-[24px]">
+          You asked us to let you know when {productTitle} was available again.
+        </Text>
+        {thumbnail && (
+          <Img
+            src={thumbnail}
+            alt={productTitle}
+            width="160"
+            height="160"
+            style={{ borderRadius: '8px', objectFit: 'cover', margin: '0 auto 16px' }}
+          />
+        )}
+        {price && (
+          <Text className="text-black text-[18px] font-semibold leading-[26px] mt-0 mb-[24px]">
+            {price}
+          </Text>
+        )}
+        <Section className="mb-[32px]">
+          <Button
+            className="bg-[#000000] rounded-full text-white text-[16px] font-semibold no-underline px-[32px] py-[16px]"
+            href={productLink}
+          >
+            Shop Now
+          </Button>
+        </Section>
+      </Section>
+      <Hr className="border border-solid border-[#eaeaea] my-0 mx-0 w-full" />
+      <Section className="mt-[24px]">
+        <Text className="text-[#999999] text-[13px] leading-[22px] mt-0 mb-[8px]">
+          Stock is limited and may sell out again. This is a one-time notification.
+        </Text>
+      </Section>
+    </Base>
+  )
+}
+
+BackInStockEmail.PreviewProps = {
+  productTitle: 'Salmon Fillet 300g',
+  price: '$25.00 MYR',
+  productLink: 'https://example.com/product/prod_456',
+  preview: 'Salmon Fillet 300g is available again',
+} as BackInStockProps
+
+export default BackInStockEmail
@@ -0,0 +1,120 @@
+// @ts-nocheck - Ignore React 18/19 type conflicts with @react-email/components
+import { Button, Section, Text, Hr } from '@react-email/components'
+import * as React from 'react'
+import { Base } from './base'
+
+/**
+ * The key for the BirthdayVoucher template
+ */
+export const BIRTHDAY_VOUCHER = 'birthday-voucher'
+
+/**
+ * The props for the BirthdayVoucher template
+ */
+export interface BirthdayVoucherProps {
+  /**
+   * The personal voucher code
+   */
+  code: string
+  /**
+   * Formatted voucher value, e.g. "$20.00 MYR"
+   */
+  amount: string
+  /**
+   * Membership tier the voucher was issued for
+   */
+  tierName: string
+  /**
+   * Formatted last day the voucher can be used
+   */
+  validUntil: string
+  /**
+   * Link to start shopping
+   */
+  shopLink: string
+  /**
+   * Customer's first name for personalization
+   */
+  firstName?: string
+  /**
+   * The preview text for the email
+   */
+  preview?: string
+}
+
+/**
+ * Type guard for checking if the data is of type BirthdayVoucherProps
+ */
+export const isBirthdayVoucherData = (data: unknown): data is BirthdayVoucherProps => {
+  if (typeof data !== 'object' || data === null) return false
+  const d = data as Record<string, unknown>
+  return (
+    typeof d.code === 'string' &&
+    typeof d.amount === 'string' &&
+    typeof d.tierName === 'string' &&
+    typeof d.validUntil === 'string' &&
+    typeof d.shopLink === 'string' &&
+    (typeof d.firstName === 'string' || d.firstName === undefined) &&
+    (typeof d.preview === 'string' || d.preview === undefined)
+  )
+}
+
+/**
+ * The BirthdayVoucher template component
+ */
+export const BirthdayVoucherEmail = ({
+  code,
+  amount,
+  tierName,
+  validUntil,
+  shopLink,
+  firstName,
+  preview = 'A birthday gift from LB Frozen',
+}: BirthdayVoucherProps): React.JSX.Element => {
+  return (
+    <Base preview={preview}>
+      <Section className="text-center">
+        <Text className="text-black text-[28px] font-bold leading-[36px] mt-0 mb-[16px]">
+          Happy Birthday{firstName ? `, ${firstName}` : ''}!
+        </Text>
+        <Text className="text-[#666666] text-[16px] leading-[26px] mt-0 mb-[32px]">
+          As a {tierName} member, here is a {amount} voucher to celebrate your birthday month.
+        </Text>
+        <Section className="mb-[32px]">
+          <Text className="text-black text-[24px] font-bold tracking-[2px] border border-dashed border-[#000000] rounded-[8px] py-[16px] mt-0 mb-[8px]">
+            {code}
+          </Text>
+          <Text className="text-[#999999] text-[14px] leading-[22px] mt-0">
+            Enter this code at checkout. Valid until {validUntil}.
+          </Text>
+        </Section>
+        <Section className="mb-[32px]">
+          <Button
+            className="bg-[#000000] rounded-full text-white text-[16px] font-semibold no-underline px-[32px] py-[16px]"
+            href={shopLink}
+          >
+            Start Shopping
+          </Button>
+        </Section>
+      </Section>
+      <Hr className="border border-solid border-[#eaeaea] my-0 mx-0 w-full" />
+      <Section className="mt-[24px]">
+        <Text className="text-[#999999] text-[13px] leading-[22px] mt-0 mb-[8px]">
+          This voucher is for your account only and can be used once.
+        </Text>
+      </Section>
+    </Base>
+  )
+}
+
+BirthdayVoucherEmail.PreviewProps = {
+  code: 'BDAY-7KQ2M9XP',
+  amount: '$20.00 MYR',
+  tierName: 'Gold',
+  validUntil: '31 March 2026',
+  shopLink: 'https://example.com/products',
+  firstName: 'John',
+  preview: 'A birthday gift from LB Frozen',
+} as BirthdayVoucherProps
+
+export default BirthdayVoucherEmail
@@ -5,12 +5,30 @@ import { InviteUserEmail, INVITE_USER, isInviteUserData } from './invite-user'
 import { OrderPlacedTemplate, ORDER_PLACED, isOrderPlacedTemplateData } from './order-placed'
 import { PasswordResetEmail, PASSWORD_RESET, isPasswordResetData } from './password-reset'
 import { EmailVerificationEmail, EMAIL_VERIFICATION, isEmailVerificationData } from './email-verification'
+import { BirthdayVoucherEmail, BIRTHDAY_VOUCHER, isBirthdayVoucherData } from './birthday-voucher'
+import { TierUpgradedEmail, TIER_UPGRADED, isTierUpgradedData } from './tier-upgraded'
+import { TierDowngradeWarningEmail, TIER_DOWNGRADE_WARNING, isTierDowngradeWarningData } from './tier-downgrade-warning'
+import { TierDowngradedEmail, TIER_DOWNGRADED, isTierDowngradedData } from './tier-downgraded'
+import { OrderCancelledEmail, ORDER_CANCELLED, isOrderCancelledData } from './order-cancelled'
+import { ReviewRequestEmail, REVIEW_REQUEST, isReviewRequestData } from './review-request'
+import { WishlistAlertEmail, WISHLIST_ALERT, isWishlistAlertData } from './wishlist-alert'
+import { BackInStockEmail, BACK_IN_STOCK, isBackInStockData } from './back-in-stock'
+import { NotifyMeConfirmEmail, NOTIFY_ME_CONFIRM, isNotifyMeConfirmData } from './notify-me-confirm'
 
 export const EmailTemplates = {
   INVITE_USER,
   ORDER_PLACED,
   PASSWORD_RESET,
   EMAIL_VERIFICATION,
+  BIRTHDAY_VOUCHER,
+  TIER_UPGRADED,
+  TIER_DOWNGRADE_WARNING,
+  TIER_DOWNGRADED,
+  ORDER_CANCELLED,
+  REVIEW_REQUEST,
+  WISHLIST_ALERT,
+  BACK_IN_STOCK,
+  NOTIFY_ME_CONFIRM,
 } as const
 
 export type EmailTemplateType = keyof typeof EmailTemplates
@@ -53,6 +71,87 @@ export function generateEmailTemplate(templateKey: string, data: unknown): React
       }
       return <EmailVerificationEmail {...data} />
 
+    case EmailTemplates.BIRTHDAY_VOUCHER:
+      if (!isBirthdayVoucherData(data)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Invalid data for template "${EmailTemplates.BIRTHDAY_VOUCHER}"`
+        )
+      }
+      return <BirthdayVoucherEmail {...data} />
+
+    case EmailTemplates.TIER_UPGRADED:
+      if (!isTierUpgradedData(data)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Invalid data for template "${EmailTemplates.TIER_UPGRADED}"`
+        )
+      }
+      return <TierUpgradedEmail {...data} />
+
+    case EmailTemplates.TIER_DOWNGRADE_WARNING:
+      if (!isTierDowngradeWarningData(data)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Invalid data for template "${EmailTemplates.TIER_DOWNGRADE_WARNING}"`
+        )
+      }
+      return <TierDowngradeWarningEmail {...data} />
+
+    case EmailTemplates.TIER_DOWNGRADED:
+      if (!isTierDowngradedData(data)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Invalid data for template "${EmailTemplates.TIER_DOWNGRADED}"`
+        )
+      }
+      return <TierDowngradedEmail {...data} />
+
+    case EmailTemplates.ORDER_CANCELLED:
+      if (!isOrderCancelledData(data)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Invalid data for template "${EmailTemplates.ORDER_CANCELLED}"`
+        )
+      }
+      return <OrderCancelledEmail {...data} />
+
+    case EmailTemplates.REVIEW_REQUEST:
+      if (!isReviewRequestData(data)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Invalid data for template "${EmailTemplates.REVIEW_REQUEST}"`
+        )
+      }
+      return <ReviewRequestEmail {...data} />
+
+    case EmailTemplates.WISHLIST_ALERT:
+      if (!isWishlistAlertData(data)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Invalid data for template "${EmailTemplates.WISHLIST_ALERT}"`
+        )
+      }
+      return <WishlistAlertEmail {...data} />
+
+    case EmailTemplates.BACK_IN_STOCK:
+      if (!isBackInStockData(data)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Invalid data for template "${EmailTemplates.BACK_IN_STOCK}"`
+        )
+      }
+      return <BackInStockEmail {...data} />
+
+    case EmailTemplates.NOTIFY_ME_CONFIRM:
+      if (!isNotifyMeConfirmData(data)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Invalid data for template "${EmailTemplates.NOTIFY_ME_CONFIRM}"`
+        )
+      }
+      return <NotifyMeConfirmEmail {...data} />
+
     default:
       throw new MedusaError(
         MedusaError.Types.INVALID_DATA,
@@ -61,4 +160,18 @@ export function generateEmailTemplate(templateKey: string, data: unknown): React
   }
 }
 
-export { InviteUserEmail, OrderPlacedTemplate, PasswordResetEmail, EmailVerificationEmail }
+export {
+  InviteUserEmail,
+  OrderPlacedTemplate,
+  PasswordResetEmail,
+  EmailVerificationEmail,
+  BirthdayVoucherEmail,
+  TierUpgradedEmail,
+  TierDowngradeWarningEmail,
+  TierDowngradedEmail,
+  OrderCancelledEmail,
+  ReviewRequestEmail,
+  WishlistAlertEmail,
+  BackInStockEmail,
+  NotifyMeConfirmEmail,
+}
@@ -0,0 +1,108 @@
+// @ts-nocheck - Ignore React 18/19 type conflicts with @react-email/components
+import { Button, Section, Text, Hr, Img, Link } from '@react-email/components'
+import * as React from 'react'
+import { Base } from './base'
+
+/**
+ * The key for the NotifyMeConfirm template
+ */
+export const NOTIFY_ME_CONFIRM = 'notify-me-confirm'
+
+/**
+ * The props for the NotifyMeConfirm template
+ */
+export interface NotifyMeConfirmProps {
+  /**
+   * The out of stock product the guest asked about
+   */
+  productTitle: string
+  /**
+   * Product thumbnail URL
+   */
+  thumbnail?: string
+  /**
+   * Link that confirms the request
+   */
+  confirmLink: string
+  /**
+   * Link that cancels the request
+   */
+  unsubscribeLink: string
+  /**
+   * The preview text for the email
+   */
+  preview?: string
+}
+
+/**
+ * Type guard for checking if the data is of type NotifyMeConfirmProps
+ */
+export const isNotifyMeConfirmData = (data: unknown): data is NotifyMeConfirmProps => {
+  if (typeof data !== 'object' || data === null) return false
+  const d = data as Record<string, unknown>
+  return (
+    typeof d.productTitle === 'string' &&
+    typeof d.confirmLink === 'string' &&
+    typeof d.unsubscribeLink === 'string' &&
+    (typeof d.thumbnail === 'string' || d.thumbnail === undefined) &&
+    (typeof d.preview === 'string' || d.preview === undefined)
+  )
+}
+
+/**
+ * The NotifyMeConfirm template component
+ */
+export const NotifyMeConfirmEmail = ({
+  productTitle,
+  thumbnail,
+  confirmLink,
+  unsubscribeLink,
+  preview = 'Confirm your back in stock alert',
+}: NotifyMeConfirmProps): React.JSX.Element => {
+  return (
+    <Base preview={preview}>
+      <Section className="text-center">
+        <Text className="text-black text-[28px] font-bold leading-[36px] mt-0 mb-[16px]">
+          Confirm your alert
+        </Text>
+        <Text className="text-[#666666] text-[16px] leading-[26px] mt-0 mb-[24px]">
+          Someone asked us to email this address when {productTitle} is back in stock.
+          Confirm to get the alert.
+        </Text>
+        {thumbnail && (
+          <Img
+            src={thumbnail}
+            alt={productTitle}
+            width="160"
+            height="160"
+            style={{ borderRadius: '8px', objectFit: 'cover', margin: '0 auto 16px' }}
+          />
+        )}
+        <Section className="mb-[32px]">
+          <Button
+            className="bg-[#000000] rounded-full text-white text-[16px] font-semibold no-underline px-[32px] py-[16px]"
+            href={confirmLink}
+          >
+            Confirm Alert
+          </Button>
+        </Section>
+      </Section>
+      <Hr className="border border-solid border-[#eaeaea] my-0 mx-0 w-full" />
+      <Section className="mt-[24px]">
+        <Text className="text-[#999999] text-[13px] leading-[22px] mt-0 mb-[8px]">
+          Didn&apos;t ask for this? Ignore this email and you won&apos;t hear from us. Changed
+          your mind later? <Link href={unsubscribeLink} className="text-[#999999] underline">Cancel the alert</Link>.
+        </Text>
+      </Section>
+    </Base>
+  )
+}
+
+NotifyMeConfirmEmail.PreviewProps = {
+  productTitle: 'Salmon Fillet 300g',
+  confirmLink: 'https://example.com/notify-me?action=confirm&token=abc',
+  unsubscribeLink: 'https://example.com/notify-me?action=unsubscribe&token=def',
+  preview: 'Confirm your alert for Salmon Fillet 300g',
+} as NotifyMeConfirmProps
+
+export default NotifyMeConfirmEmail
@@ -0,0 +1,143 @@
+// @ts-nocheck - Ignore React 18/19 type conflicts with @react-email/components
+import { Button, Section, Text, Hr } from '@react-email/components'
+import * as React from 'react'
+import { Base } from './base'
+
+/**
+ * The key for the OrderCancelled template
+ */
+export const ORDER_CANCELLED = 'order-cancelled'
+
+/**
+ * The props for the OrderCancelled template
+ */
+export interface OrderCancelledProps {
+  /**
+   * The order's display number
+   */
+  orderNumber: string
+  /**
+   * Whether the customer cancelled the order themselves or the store did
+   */
+  cancelledBy: 'customer' | 'admin'
+  /**
+   * Items of the cancelled order
+   */
+  items: Array<{ title: string; quantity: number }>
+  /**
+   * Formatted amount refunded to the customer's card, e.g. "$45.00 MYR"
+   */
+  refundAmount?: string
+  /**
+   * The payment was only authorized and the hold on the card was released
+   */
+  paymentReleased?: boolean
+  /**
+   * Points given back to the customer's balance
+   */
+  pointsRestored?: number
+  /**
+   * Link back to the shop
+   */
+  shopLink: string
+  /**
+   * The preview text for the email
+   */
+  preview?: string
+}
+
+/**
+ * Type guard for checking if the data is of type OrderCancelledProps
+ */
+export const isOrderCancelledData = (data: unknown): data is OrderCancelledProps => {
+  if (typeof data !== 'object' || data === null) return false
+  const d = data as Record<string, unknown>
+  return (
+    typeof d.orderNumber === 'string' &&
+    (d.cancelledBy === 'customer' || d.cancelledBy === 'admin') &&
+    Array.isArray(d.items) &&
+    (typeof d.refundAmount === 'string' || d.refundAmount === undefined) &&
+    (typeof d.paymentReleased === 'boolean' || d.paymentReleased === undefined) &&
+    (typeof d.pointsRestored === 'number' || d.pointsRestored === undefined) &&
+    typeof d.shopLink === 'string' &&
+    (typeof d.preview === 'string' || d.preview === undefined)
+  )
+}
+
+/**
+ * The OrderCancelled template component
+ */
+export const OrderCancelledEmail = ({
+  orderNumber,
+  cancelledBy,
+  items,
+  refundAmount,
+  paymentReleased,
+  pointsRestored,
+  shopLink,
+  preview = 'Your order has been cancelled',
+}: OrderCancelledProps): React.JSX.Element => {
+  return (
+    <Base preview={preview}>
+      <Section className="text-center">
+        <Text className="text-black text-[28px] font-bold leading-[36px] mt-0 mb-[16px]">
+          Order #{orderNumber} cancelled
+        </Text>
+        <Text className="text-[#666666] text-[16px] leading-[26px] mt-0 mb-[32px]">
+          {cancelledBy === 'customer'
+            ? 'As requested, we have cancelled your order. Nothing will be shipped.'
+            : 'We had to cancel your order. Nothing will be shipped. Please contact us if you have any questions.'}
+        </Text>
+      </Section>
+      <Section className="mb-[24px]">
+        {items.map((item, index) => (
+          <Text key={index} className="text-[#333333] text-[14px] leading-[22px] m-0">
+            {item.quantity} × {item.title}
+          </Text>
+        ))}
+      </Section>
+      <Hr className="border border-solid border-[#eaeaea] my-0 mx-0 w-full" />
+      <Section className="mt-[24px] mb-[32px]">
+        {refundAmount && (
+          <Text className="text-[#333333] text-[16px] leading-[26px] mt-0 mb-[8px]">
+            A refund of <strong>{refundAmount}</strong> has been issued to your original payment
+            method. It can take 5-10 business days to appear on your statement.
+          </Text>
+        )}
+        {paymentReleased && (
+          <Text className="text-[#333333] text-[16px] leading-[26px] mt-0 mb-[8px]">
+            Your card was not charged. The hold on your payment has been released.
+          </Text>
+        )}
+        {pointsRestored && (
+          <Text className="text-[#333333] text-[16px] leading-[26px] mt-0 mb-[8px]">
+            The {pointsRestored} points you used on this order are back in your balance.
+          </Text>
+        )}
+      </Section>
+      <Section className="text-center">
+        <Button
+          className="bg-[#000000] rounded-full text-white text-[16px] font-semibold no-underline px-[32px] py-[16px]"
+          href={shopLink}
+        >
+          Continue Shopping
+        </Button>
+      </Section>
+    </Base>
+  )
+}
+
+OrderCancelledEmail.PreviewProps = {
+  orderNumber: '1042',
+  cancelledBy: 'customer',
+  items: [
+    { title: 'Frozen Salmon Fillet', quantity: 2 },
+    { title: 'Wagyu Beef Cubes', quantity: 1 },
+  ],
+  refundAmount: '$89.90 MYR',
+  pointsRestored: 500,
+  shopLink: 'https://example.com/products',
+  preview: 'Order #1042 has been cancelled',
+} as OrderCancelledProps
+
+export default OrderCancelledEmail
@@ -0,0 +1,150 @@
+// @ts-nocheck - Ignore React 18/19 type conflicts with @react-email/components
+import { Button, Section, Text, Hr, Row, Column, Img } from '@react-email/components'
+import * as React from 'react'
+import { Base } from './base'
+
+/**
+ * The key for the ReviewRequest template
+ */
+export const REVIEW_REQUEST = 'review-request'
+
+/**
+ * The props for the ReviewRequest template
+ */
+export interface ReviewRequestProps {
+  /**
+   * The order's display number
+   */
+  orderNumber: string
+  /**
+   * Items to review, each with its own review link
+   */
+  items: Array<{ title: string; thumbnail?: string; reviewLink: string }>
+  /**
+   * Formatted last day the review links work
+   */
+  validUntil: string
+  /**
+   * Points for a review, when reviews are rewarded
+   */
+  rewardPoints?: number
+  /**
+   * Extra points for a review with a photo
+   */
+  photoBonusPoints?: number
+  /**
+   * Customer's first name for personalization
+   */
+  firstName?: string
+  /**
+   * The preview text for the email
+   */
+  preview?: string
+}
+
+/**
+ * Type guard for checking if the data is of type ReviewRequestProps
+ */
+export const isReviewRequestData = (data: unknown): data is ReviewRequestProps => {
+  if (typeof data !== 'object' || data === null) return false
+  const d = data as Record<string, unknown>
+  return (
+    typeof d.orderNumber === 'string' &&
+    Array.isArray(d.items) &&
+    typeof d.validUntil === 'string' &&
+    (typeof d.rewardPoints === 'number' || d.rewardPoints === undefined) &&
+    (typeof d.photoBonusPoints === 'number' || d.photoBonusPoints === undefined) &&
+    (typeof d.firstName === 'string' || d.firstName === undefined) &&
+    (typeof d.preview === 'string' || d.preview === undefined)
+  )
+}
+
+/**
+ * The ReviewRequest template component
+ */
+export const ReviewRequestEmail = ({
+  orderNumber,
+  items,
+  validUntil,
+  rewardPoints,
+  photoBonusPoints,
+  firstName,
+  preview = 'How was your order?',
+}: ReviewRequestProps): React.JSX.Element => {
+  return (
+    <Base preview={preview}>
+      <Section className="text-center">
+        <Text className="text-black text-[28px] font-bold leading-[36px] mt-0 mb-[16px]">
+          How was your order{firstName ? `, ${firstName}` : ''}?
+        </Text>
+        <Text className="text-[#666666] text-[16px] leading-[26px] mt-0 mb-[24px]">
+          Your order #{orderNumber} has been delivered. Tell other shoppers what you thought of
+          the products you bought.
+        </Text>
+        {rewardPoints ? (
+          <Text className="text-[#16A34A] text-[15px] font-semibold leading-[24px] mt-0 mb-[24px]">
+            Earn {rewardPoints} points for each review
+            {photoBonusPoints ? `, plus ${photoBonusPoints} more when you add a photo` : ''}.
+          </Text>
+        ) : null}
+      </Section>
+
+      {items.map((item, index) => (
+        <Section
+          key={index}
+          style={{ marginBottom: '16px', padding: '12px', backgroundColor: '#f9f9f9', borderRadius: '8px' }}
+        >
+          <Row>
+            <Column style={{ width: '60px', verticalAlign: 'middle' }}>
+              {item.thumbnail && (
+                <Img
+                  src={item.thumbnail}
+                  alt={item.title}
+                  width="50"
+                  height="50"
+                  style={{ borderRadius: '4px', objectFit: 'cover' }}
+                />
+              )}
+            </Column>
+            <Column style={{ paddingLeft: '12px', verticalAlign: 'middle' }}>
+              <Text style={{ margin: '0', fontWeight: '600', color: '#000', fontSize: '14px' }}>
+                {item.title}
+              </Text>
+            </Column>
+            <Column style={{ textAlign: 'right', verticalAlign: 'middle', width: '130px' }}>
+              <Button
+                className="bg-[#000000] rounded-full text-white text-[14px] font-semibold no-underline px-[20px] py-[10px]"
+                href={item.reviewLink}
+              >
+                Write a review
+              </Button>
+            </Column>
+          </Row>
+        </Section>
+      ))}
+
+      <Hr className="border border-solid border-[#eaeaea] my-0 mx-0 w-full" />
+      <Section className="mt-[24px]">
+        <Text className="text-[#999999] text-[13px] leading-[22px] mt-0 mb-[8px]">
+          These links are personal to you and work until {validUntil}. Reviews written through
+          them are marked as verified purchases.
+        </Text>
+      </Section>
+    </Base>
+  )
+}
+
+ReviewRequestEmail.PreviewProps = {
+  orderNumber: '1042',
+  items: [
+    { title: 'Wagyu Beef Cubes 500g', reviewLink: 'https://example.com/orders/order_123/review?token=abc' },
+    { title: 'Salmon Fillet 300g', reviewLink: 'https://example.com/orders/order_123/review?token=def' },
+  ],
+  validUntil: '14 March 2026',
+  rewardPoints: 20,
+  photoBonusPoints: 10,
+  firstName: 'John',
+  preview: 'How was your order?',
+} as ReviewRequestProps
+
+export default ReviewRequestEmail
@@ -0,0 +1,142 @@
+// @ts-nocheck - Ignore React 18/19 type conflicts with @react-email/components
+import { Button, Section, Text, Hr } from '@react-email/components'
+import * as React from 'react'
+import { Base } from './base'
+
+/**
+ * The key for the TierDowngradeWarning template
+ */
+export const TIER_DOWNGRADE_WARNING = 'tier-downgrade-warning'
+
+/**
+ * The props for the TierDowngradeWarning template
+ */
+export interface TierDowngradeWarningProps {
+  /**
+   * Name of the member's current tier
+   */
+  tierName: string
+  /**
+   * Name of the tier the member will move down to
+   */
+  downgradeTierName: string
+  /**
+   * Formatted date the downgrade takes effect
+   */
+  downgradeDate: string
+  /**
+   * Days left until the downgrade
+   */
+  daysRemaining: number
+  /**
+   * Further orders needed to keep the current tier (0 when spend is the only gap)
+   */
+  ordersToKeep: number
+  /**
+   * Formatted further spend needed to keep the current tier, e.g. "$120.00 MYR"
+   */
+  spendToKeep?: string
+  /**
+   * Link to start shopping
+   */
+  shopLink: string
+  /**
+   * Customer's first name for personalization
+   */
+  firstName?: string
+  /**
+   * The preview text for the email
+   */
+  preview?: string
+}
+
+/**
+ * Type guard for checking if the data is of type TierDowngradeWarningProps
+ */
+export const isTierDowngradeWarningData = (data: unknown): data is TierDowngradeWarningProps => {
+  if (typeof data !== 'object' || data === null) return false
+  const d = data as Record<string, unknown>
+  return (
+    typeof d.tierName === 'string' &&
+    typeof d.downgradeTierName === 'string' &&
+    typeof d.downgradeDate === 'string' &&
+    typeof d.daysRemaining === 'number' &&
+    typeof d.ordersToKeep === 'number' &&
+    (typeof d.spendToKeep === 'string' || d.spendToKeep === undefined) &&
+    typeof d.shopLink === 'string' &&
+    (typeof d.firstName === 'string' || d.firstName === undefined) &&
+    (typeof d.preview === 'string' || d.preview === undefined)
+  )
+}
+
+/**
+ * The TierDowngradeWarning template component
+ */
+export const TierDowngradeWarningEmail = ({
+  tierName,
+  downgradeTierName,
+  downgradeDate,
+  daysRemaining,
+  ordersToKeep,
+  spendToKeep,
+  shopLink,
+  firstName,
+  preview = 'Keep your membership tier',
+}: TierDowngradeWarningProps): React.JSX.Element => {
+  const requirements = [
+    ordersToKeep > 0 ? `${ordersToKeep} more order${ordersToKeep === 1 ? '' : 's'}` : null,
+    spendToKeep ? `${spendToKeep} more spend` : null,
+  ].filter(Boolean)
+
+  return (
+    <Base preview={preview}>
+      <Section className="text-center">
+        <Text className="text-black text-[28px] font-bold leading-[36px] mt-0 mb-[16px]">
+          Keep your {tierName} status{firstName ? `, ${firstName}` : ''}
+        </Text>
+        <Text className="text-[#666666] text-[16px] leading-[26px] mt-0 mb-[32px]">
+          Some of your orders are about to fall outside the 12-month window. Unless you order again,
+          your membership will move to {downgradeTierName} on {downgradeDate} ({daysRemaining} day{daysRemaining === 1 ? '' : 's'} from now).
+        </Text>
+        {requirements.length > 0 && (
+          <Section className="mb-[32px]">
+            <Text className="text-black text-[16px] font-semibold leading-[24px] border border-dashed border-[#000000] rounded-[8px] py-[16px] mt-0 mb-[8px]">
+              {requirements.join(' and ')} before {downgradeDate}
+            </Text>
+            <Text className="text-[#999999] text-[14px] leading-[22px] mt-0">
+              keeps you on {tierName}.
+            </Text>
+          </Section>
+        )}
+        <Section className="mb-[32px]">
+          <Button
+            className="bg-[#000000] rounded-full text-white text-[16px] font-semibold no-underline px-[32px] py-[16px]"
+            href={shopLink}
+          >
+            Shop Now
+          </Button>
+        </Section>
+      </Section>
+      <Hr className="border border-solid border-[#eaeaea] my-0 mx-0 w-full" />
+      <Section className="mt-[24px]">
+        <Text className="text-[#999999] text-[13px] leading-[22px] mt-0 mb-[8px]">
+          Tiers are based on your orders over the last 12 months, so each order counts for a year.
+        </Text>
+      </Section>
+    </Base>
+  )
+}
+
+TierDowngradeWarningEmail.PreviewProps = {
+  tierName: 'Gold',
+  downgradeTierName: 'Silver',
+  downgradeDate: '15 March 2026',
+  daysRemaining: 14,
+  ordersToKeep: 1,
+  spendToKeep: '$120.00 MYR',
+  shopLink: 'https://example.com/products',
+  firstName: 'John',
+  preview: 'Your Gold status ends in 14 days',
+} as TierDowngradeWarningProps
+
+export default TierDowngradeWarningEmail
@@ -0,0 +1,123 @@
+// @ts-nocheck - Ignore React 18/19 type conflicts with @react-email/components
+import { Button, Section, Text, Hr } from '@react-email/components'
+import * as React from 'react'
+import { Base } from './base'
+
+/**
+ * The key for the TierDowngraded template
+ */
+export const TIER_DOWNGRADED = 'tier-downgraded'
+
+/**
+ * The props for the TierDowngraded template
+ */
+export interface TierDowngradedProps {
+  /**
+   * Name of the member's new tier
+   */
+  tierName: string
+  /**
+   * Name of the tier the member moved down from
+   */
+  previousTierName: string
+  /**
+   * Orders needed to get the previous tier back
+   */
+  ordersToRegain: number
+  /**
+   * Formatted spend needed to get the previous tier back, e.g. "$120.00 MYR"
+   */
+  spendToRegain?: string
+  /**
+   * Link to the member's membership page
+   */
+  membershipLink: string
+  /**
+   * Customer's first name for personalization
+   */
+  firstName?: string
+  /**
+   * The preview text for the email
+   */
+  preview?: string
+}
+
+/**
+ * Type guard for checking if the data is of type TierDowngradedProps
+ */
+export const isTierDowngradedData = (data: unknown): data is TierDowngradedProps => {
+  if (typeof data !== 'object' || data === null) return false
+  const d = data as Record<string, unknown>
+  return (
+    typeof d.tierName === 'string' &&
+    typeof d.previousTierName === 'string' &&
+    typeof d.ordersToRegain === 'number' &&
+    (typeof d.spendToRegain === 'string' || d.spendToRegain === undefined) &&
+    typeof d.membershipLink === 'string' &&
+    (typeof d.firstName === 'string' || d.firstName === undefined) &&
+    (typeof d.preview === 'string' || d.preview === undefined)
+  )
+}
+
+/**
+ * The TierDowngraded template component
+ */
+export const TierDowngradedEmail = ({
+  tierName,
+  previousTierName,
+  ordersToRegain,
+  spendToRegain,
+  membershipLink,
+  firstName,
+  preview = 'Your membership tier has changed',
+}: TierDowngradedProps): React.JSX.Element => {
+  const requirements = [
+    ordersToRegain > 0 ? `${ordersToRegain} more order${ordersToRegain === 1 ? '' : 's'}` : null,
+    spendToRegain ? `${spendToRegain} more spend` : null,
+  ].filter(Boolean)
+
+  return (
+    <Base preview={preview}>
+      <Section className="text-center">
+        <Text className="text-black text-[28px] font-bold leading-[36px] mt-0 mb-[16px]">
+          Your membership is now {tierName}
+        </Text>
+        <Text className="text-[#666666] text-[16px] leading-[26px] mt-0 mb-[32px]">
+          {firstName ? `Hi ${firstName}, some` : 'Some'} of your orders are now more than 12 months old,
+          so your membership has moved from {previousTierName} to {tierName}.
+        </Text>
+        {requirements.length > 0 && (
+          <Text className="text-[#666666] text-[16px] leading-[26px] mt-0 mb-[32px]">
+            {requirements.join(' and ')} in the next 12 months will bring you back to {previousTierName}.
+          </Text>
+        )}
+        <Section className="mb-[32px]">
+          <Button
+            className="bg-[#000000] rounded-full text-white text-[16px] font-semibold no-underline px-[32px] py-[16px]"
+            href={membershipLink}
+          >
+            View My Membership
+          </Button>
+        </Section>
+      </Section>
+      <Hr className="border border-solid border-[#eaeaea] my-0 mx-0 w-full" />
+      <Section className="mt-[24px]">
+        <Text className="text-[#999999] text-[13px] leading-[22px] mt-0 mb-[8px]">
+          Your points balance is not affected by tier changes.
+        </Text>
+      </Section>
+    </Base>
+  )
+}
+
+TierDowngradedEmail.PreviewProps = {
+  tierName: 'Silver',
+  previousTierName: 'Gold',
+  ordersToRegain: 1,
+  spendToRegain: '$120.00 MYR',
+  membershipLink: 'https://example.com/account/membership',
+  firstName: 'John',
+  preview: 'Your membership is now Silver',
+} as TierDowngradedProps
+
+export default TierDowngradedEmail
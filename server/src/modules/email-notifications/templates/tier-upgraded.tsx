@@ -0,0 +1,117 @@
+// @ts-nocheck - Ignore React 18/19 type conflicts with @react-email/components
+import { Button, Section, Text, Hr } from '@react-email/components'
+import * as React from 'react'
+import { Base } from './base'
+
+/**
+ * The key for the TierUpgraded template
+ */
+export const TIER_UPGRADED = 'tier-upgraded'
+
+/**
+ * The props for the TierUpgraded template
+ */
+export interface TierUpgradedProps {
+  /**
+   * Name of the tier the member moved up to
+   */
+  tierName: string
+  /**
+   * Name of the tier the member was on before
+   */
+  previousTierName: string
+  /**
+   * Benefits of the new tier, e.g. "10% off every order"
+   */
+  benefits: string[]
+  /**
+   * Link to the member's membership page
+   */
+  membershipLink: string
+  /**
+   * Customer's first name for personalization
+   */
+  firstName?: string
+  /**
+   * The preview text for the email
+   */
+  preview?: string
+}
+
+/**
+ * Type guard for checking if the data is of type TierUpgradedProps
+ */
+export const isTierUpgradedData = (data: unknown): data is TierUpgradedProps => {
+  if (typeof data !== 'object' || data === null) return false
+  const d = data as Record<string, unknown>
+  return (
+    typeof d.tierName === 'string' &&
+    typeof d.previousTierName === 'string' &&
+    Array.isArray(d.benefits) &&
+    typeof d.membershipLink === 'string' &&
+    (typeof d.firstName === 'string' || d.firstName === undefined) &&
+    (typeof d.preview === 'string' || d.preview === undefined)
+  )
+}
+
+/**
+ * The TierUpgraded template component
+ */
+export const TierUpgradedEmail = ({
+  tierName,
+  previousTierName,
+  benefits,
+  membershipLink,
+  firstName,
+  preview = 'You have reached a new membership tier',
+}: TierUpgradedProps): React.JSX.Element => {
+  return (
+    <Base preview={preview}>
+      <Section className="text-center">
+        <Text className="text-black text-[28px] font-bold leading-[36px] mt-0 mb-[16px]">
+          Welcome to {tierName}{firstName ? `, ${firstName}` : ''}!
+        </Text>
+        <Text className="text-[#666666] text-[16px] leading-[26px] mt-0 mb-[32px]">
+          Thanks to your recent orders you have moved up from {previousTierName} to {tierName}.
+        </Text>
+      </Section>
+      {benefits.length > 0 && (
+        <Section className="mb-[32px]">
+          <Text className="text-black text-[16px] font-semibold leading-[24px] mt-0 mb-[8px]">
+            Your {tierName} benefits
+          </Text>
+          {benefits.map((benefit) => (
+            <Text key={benefit} className="text-[#666666] text-[14px] leading-[22px] my-[4px]">
+              • {benefit}
+            </Text>
+          ))}
+        </Section>
+      )}
+      <Section className="text-center mb-[32px]">
+        <Button
+          className="bg-[#000000] rounded-full text-white text-[16px] font-semibold no-underline px-[32px] py-[16px]"
+          href={membershipLink}
+        >
+          View My Membership
+        </Button>
+      </Section>
+      <Hr className="border border-solid border-[#eaeaea] my-0 mx-0 w-full" />
+      <Section className="mt-[24px]">
+        <Text className="text-[#999999] text-[13px] leading-[22px] mt-0 mb-[8px]">
+          Tiers are based on your orders over the last 12 months.
+        </Text>
+      </Section>
+    </Base>
+  )
+}
+
+TierUpgradedEmail.PreviewProps = {
+  tierName: 'Gold',
+  previousTierName: 'Silver',
+  benefits: ['10% off every order', '2x points on purchases', '$10.00 MYR birthday voucher'],
+  membershipLink: 'https://example.com/account/membership',
+  firstName: 'John',
+  preview: 'You have reached Gold',
+} as TierUpgradedProps
+
+export default TierUpgradedEmail
@@ -0,0 +1,156 @@
+// @ts-nocheck - Ignore React 18/19 type conflicts with @react-email/components
+import { Button, Section, Text, Hr, Row, Column, Img, Link } from '@react-email/components'
+import * as React from 'react'
+import { Base } from './base'
+
+/**
+ * The key for the WishlistAlert template
+ */
+export const WISHLIST_ALERT = 'wishlist-alert'
+
+/**
+ * The props for the WishlistAlert template
+ */
+export interface WishlistAlertProps {
+  /**
+   * Wishlist items whose price dropped or that are back in stock
+   */
+  items: Array<{
+    kind: 'price_drop' | 'back_in_stock'
+    title: string
+    thumbnail?: string
+    link: string
+    price?: string
+    previousPrice?: string
+  }>
+  /**
+   * Link to the wishlist, where alerts can be turned off
+   */
+  wishlistLink: string
+  /**
+   * Customer's first name for personalization
+   */
+  firstName?: string
+  /**
+   * The preview text for the email
+   */
+  preview?: string
+}
+
+/**
+ * Type guard for checking if the data is of type WishlistAlertProps
+ */
+export const isWishlistAlertData = (data: unknown): data is WishlistAlertProps => {
+  if (typeof data !== 'object' || data === null) return false
+  const d = data as Record<string, unknown>
+  return (
+    Array.isArray(d.items) &&
+    typeof d.wishlistLink === 'string' &&
+    (typeof d.firstName === 'string' || d.firstName === undefined) &&
+    (typeof d.preview === 'string' || d.preview === undefined)
+  )
+}
+
+/**
+ * The WishlistAlert template component
+ */
+export const WishlistAlertEmail = ({
+  items,
+  wishlistLink,
+  firstName,
+  preview = 'Items on your wishlist changed',
+}: WishlistAlertProps): React.JSX.Element => {
+  return (
+    <Base preview={preview}>
+      <Section className="text-center">
+        <Text className="text-black text-[28px] font-bold leading-[36px] mt-0 mb-[16px]">
+          Good news{firstName ? `, ${firstName}` : ''}!
+        </Text>
+        <Text className="text-[#666666] text-[16px] leading-[26px] mt-0 mb-[24px]">
+          Some of the items on your wishlist are cheaper or available again.
+        </Text>
+      </Section>
+
+      {items.map((item, index) => (
+        <Section
+          key={index}
+          style={{ marginBottom: '16px', padding: '12px', backgroundColor: '#f9f9f9', borderRadius: '8px' }}
+        >
+          <Row>
+            <Column style={{ width: '60px', verticalAlign: 'middle' }}>
+              {item.thumbnail && (
+                <Img
+                  src={item.thumbnail}
+                  alt={item.title}
+                  width="50"
+                  height="50"
+                  style={{ borderRadius: '4px', objectFit: 'cover' }}
+                />
+              )}
+            </Column>
+            <Column style={{ paddingLeft: '12px', verticalAlign: 'middle' }}>
+              <Link href={item.link} style={{ margin: '0', fontWeight: '600', color: '#000', fontSize: '14px' }}>
+                {item.title}
+              </Link>
+              <Text style={{ margin: '4px 0 0', color: item.kind === 'price_drop' ? '#16A34A' : '#2563EB', fontSize: '12px', fontWeight: '600' }}>
+                {item.kind === 'price_drop' ? 'Price dropped' : 'Back in stock'}
+              </Text>
+            </Column>
+            <Column style={{ textAlign: 'right', verticalAlign: 'middle', width: '110px' }}>
+              {item.price && (
+                <Text style={{ margin: '0', fontWeight: '600', color: '#000', fontSize: '14px' }}>
+                  {item.price}
+                </Text>
+              )}
+              {item.previousPrice && (
+                <Text style={{ margin: '4px 0 0', color: '#999', fontSize: '12px', textDecoration: 'line-through' }}>
+                  {item.previousPrice}
+                </Text>
+              )}
+            </Column>
+          </Row>
+        </Section>
+      ))}
+
+      <Section className="text-center mb-[32px]">
+        <Button
+          className="bg-[#000000] rounded-full text-white text-[16px] font-semibold no-underline px-[32px] py-[16px]"
+          href={wishlistLink}
+        >
+          View My Wishlist
+        </Button>
+      </Section>
+
+      <Hr className="border border-solid border-[#eaeaea] my-0 mx-0 w-full" />
+      <Section className="mt-[24px]">
+        <Text className="text-[#999999] text-[13px] leading-[22px] mt-0 mb-[8px]">
+          Prices and stock can change quickly. You can turn these alerts off on your{' '}
+          <Link href={wishlistLink} className="text-[#999999] underline">wishlist page</Link>.
+        </Text>
+      </Section>
+    </Base>
+  )
+}
+
+WishlistAlertEmail.PreviewProps = {
+  items: [
+    {
+      kind: 'price_drop',
+      title: 'Wagyu Beef Cubes 500g',
+      link: 'https://example.com/product/prod_123',
+      price: '$39.90 MYR',
+      previousPrice: '$49.90 MYR',
+    },
+    {
+      kind: 'back_in_stock',
+      title: 'Salmon Fillet 300g',
+      link: 'https://example.com/product/prod_456',
+      price: '$25.00 MYR',
+    },
+  ],
+  wishlistLink: 'https://example.com/wishlist',
+  firstName: 'John',
+  preview: '2 items on your wishlist changed',
+} as WishlistAlertProps
+
+export default WishlistAlertEmail
@@ -0,0 +1,18 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260118100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Line items the automatic tier discount skips at checkout
+    this.addSql(`ALTER TABLE "membership_config" ADD COLUMN IF NOT EXISTS "tier_discount_exclude_pwp" boolean NOT NULL DEFAULT true;`);
+    this.addSql(`ALTER TABLE "membership_config" ADD COLUMN IF NOT EXISTS "tier_discount_exclude_bulk" boolean NOT NULL DEFAULT true;`);
+    this.addSql(`ALTER TABLE "membership_config" ADD COLUMN IF NOT EXISTS "tier_discount_exclude_sale" boolean NOT NULL DEFAULT true;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`ALTER TABLE "membership_config" DROP COLUMN IF EXISTS "tier_discount_exclude_pwp";`);
+    this.addSql(`ALTER TABLE "membership_config" DROP COLUMN IF EXISTS "tier_discount_exclude_bulk";`);
+    this.addSql(`ALTER TABLE "membership_config" DROP COLUMN IF EXISTS "tier_discount_exclude_sale";`);
+  }
+
+}
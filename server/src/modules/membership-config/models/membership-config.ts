@@ -21,6 +21,11 @@ const MembershipConfig = model.define("membership_config", {
   // Auto-enrollment
   auto_enroll_on_first_order: model.boolean().default(true),
 
+  // Tier Discount Exclusions - line items the automatic tier discount skips
+  tier_discount_exclude_pwp: model.boolean().default(true),     // Purchase-with-purchase reward items
+  tier_discount_exclude_bulk: model.boolean().default(true),    // Items priced at a wholesale/bulk tier
+  tier_discount_exclude_sale: model.boolean().default(true),    // Items with a variant (sale) discount
+
   // Program Status
   is_enabled: model.boolean().default(true),
 })
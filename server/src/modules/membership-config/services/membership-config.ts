@@ -20,6 +20,9 @@ class MembershipConfigModuleService extends MedusaService({
         evaluation_period_months: 12,
         evaluation_trigger: "both",
         auto_enroll_on_first_order: true,
+        tier_discount_exclude_pwp: true,
+        tier_discount_exclude_bulk: true,
+        tier_discount_exclude_sale: true,
         is_enabled: true,
       })
     }
@@ -37,6 +40,9 @@ class MembershipConfigModuleService extends MedusaService({
     evaluation_period_months?: number
     evaluation_trigger?: "on_order" | "daily" | "both"
     auto_enroll_on_first_order?: boolean
+    tier_discount_exclude_pwp?: boolean
+    tier_discount_exclude_bulk?: boolean
+    tier_discount_exclude_sale?: boolean
     is_enabled?: boolean
   }): Promise<any> {
     const config = await this.getConfig()
@@ -79,6 +85,18 @@ class MembershipConfigModuleService extends MedusaService({
     return config.evaluation_trigger === "on_order" || config.evaluation_trigger === "both"
   }
 
+  /**
+   * Which line items the automatic tier discount skips
+   */
+  async getTierDiscountExclusions(): Promise<{ pwp: boolean; bulk: boolean; sale: boolean }> {
+    const config = await this.getConfig()
+    return {
+      pwp: config.tier_discount_exclude_pwp !== false,
+      bulk: config.tier_discount_exclude_bulk !== false,
+      sale: config.tier_discount_exclude_sale !== false,
+    }
+  }
+
   /**
    * Check if should run daily evaluation job
    */
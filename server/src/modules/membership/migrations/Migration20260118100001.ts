@@ -0,0 +1,14 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260118100001 extends Migration {
+
+  override async up(): Promise<void> {
+    // When the email warning about an upcoming rolling-window downgrade was sent
+    this.addSql(`ALTER TABLE "membership" ADD COLUMN IF NOT EXISTS "downgrade_warning_sent_at" timestamptz NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`ALTER TABLE "membership" DROP COLUMN IF EXISTS "downgrade_warning_sent_at";`);
+  }
+
+}
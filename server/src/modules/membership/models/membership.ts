@@ -15,6 +15,7 @@ const Membership = model.define("membership", {
   status: model.enum(["active", "cancelled"]).default("active"),
   tier_slug: model.text().default("classic"),      // Reference to tier_config.slug
   tier_updated_at: model.dateTime().nullable(),    // When tier was last changed
+  downgrade_warning_sent_at: model.dateTime().nullable(), // When the upcoming downgrade email was sent
   activated_at: model.dateTime(),
   stripe_payment_id: model.text().nullable(),      // Legacy field for paid memberships, nullable for free members
 })
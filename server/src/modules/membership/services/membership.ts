@@ -13,6 +13,27 @@ type InjectedDependencies = {
   logger: any
 }
 
+/**
+ * Length of the rolling activity window used for tier evaluation
+ */
+export const ACTIVITY_WINDOW_MONTHS = 12
+
+/**
+ * An order counted in the rolling window, with the date it drops out of it
+ */
+export type RollingActivityOrder = {
+  order_id: string
+  order_total: number
+  order_date: Date
+  drops_out_at: Date
+}
+
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date)
+  result.setMonth(result.getMonth() + months)
+  return result
+}
+
 /**
  * MembershipModuleService
  * Handles membership creation, retrieval, status management, and tier tracking
@@ -199,23 +220,12 @@ class MembershipModuleService extends MedusaService({
     orderCount: number
     totalSpend: number
   }> {
-    const twelveMonthsAgo = new Date()
-    twelveMonthsAgo.setMonth(twelveMonthsAgo.getMonth() - 12)
-
-    // Get all orders for this customer
-    const allOrders = await this.listCustomerActivityOrders(
-      { customer_id: customerId },
-      { take: 10000 }
-    )
-
-    // Filter to last 12 months only
-    const recentOrders = allOrders.filter(
-      (order: any) => new Date(order.order_date) >= twelveMonthsAgo
-    )
+    // Orders in the last 12 months only
+    const recentOrders = await this.listRollingActivityOrders(customerId)
 
     const orderCount = recentOrders.length
     const totalSpend = recentOrders.reduce(
-      (sum: number, order: any) => sum + Number(order.order_total),
+      (sum, order) => sum + order.order_total,
       0
     )
 
@@ -249,6 +259,32 @@ class MembershipModuleService extends MedusaService({
     return { orderCount, totalSpend }
   }
 
+  /**
+   * Orders inside the rolling window, oldest first
+   * Each order stops counting towards the tier on its drops_out_at date.
+   */
+  async listRollingActivityOrders(
+    customerId: string,
+    now: Date = new Date()
+  ): Promise<RollingActivityOrder[]> {
+    const windowStart = addMonths(now, -ACTIVITY_WINDOW_MONTHS)
+
+    const allOrders = await this.listCustomerActivityOrders(
+      { customer_id: customerId },
+      { take: 10000 }
+    )
+
+    return allOrders
+      .filter((order: any) => new Date(order.order_date) >= windowStart)
+      .map((order: any) => ({
+        order_id: order.order_id,
+        order_total: Number(order.order_total),
+        order_date: new Date(order.order_date),
+        drops_out_at: addMonths(new Date(order.order_date), ACTIVITY_WINDOW_MONTHS),
+      }))
+      .sort((a, b) => a.order_date.getTime() - b.order_date.getTime())
+  }
+
   /**
    * Get customer's current activity stats
    */
@@ -281,10 +317,12 @@ class MembershipModuleService extends MedusaService({
       `${membership.tier_slug} -> ${tierSlug}`
     )
 
+    // A downgrade warning only applies to the tier it was sent for
     const updated = await this.updateMemberships({
       id: membership.id,
       tier_slug: tierSlug,
       tier_updated_at: new Date(),
+      downgrade_warning_sent_at: null,
     })
 
     return updated
@@ -1,4 +1,6 @@
-import { MedusaService } from "@medusajs/framework/utils"
+import { InjectManager, MedusaContext, MedusaService } from "@medusajs/framework/utils"
+import type { Context } from "@medusajs/framework/types"
+import type { EntityManager } from "@mikro-orm/knex"
 import OrderExtension from "../models/order-extension"
 
 type PaymentStatus = "awaiting" | "paid" | "refunded" | "partially_refunded"
@@ -144,6 +146,26 @@ class OrderExtensionService extends MedusaService({
     return updated
   }
 
+  /**
+   * Atomically move an order to cancelled, only from the fulfillment status
+   * it was read with, so two concurrent cancellations can't both go ahead
+   * @returns true if this call claimed the cancellation
+   */
+  @InjectManager()
+  async claimCancellation(
+    orderId: string,
+    fromStatus: FulfillmentStatus,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<boolean> {
+    const rows = await sharedContext.manager!.execute(
+      `UPDATE "order_extension" SET "fulfillment_status" = 'cancelled', "updated_at" = now()
+       WHERE "order_id" = ? AND "fulfillment_status" = ? AND "deleted_at" IS NULL
+       RETURNING "id"`,
+      [orderId, fromStatus]
+    )
+    return rows.length > 0
+  }
+
   /**
    * Mark order as shipped with tracking info
    */
@@ -206,6 +228,27 @@ class OrderExtensionService extends MedusaService({
     )
   }
 
+  /**
+   * Get orders delivered within a time window, oldest delivery first
+   */
+  async listDeliveredBetween(
+    from: Date,
+    to: Date,
+    options?: { limit?: number; offset?: number }
+  ) {
+    return await this.listOrderExtensions(
+      {
+        fulfillment_status: "delivered",
+        delivered_at: { $gte: from, $lte: to },
+      },
+      {
+        take: options?.limit || 50,
+        skip: options?.offset || 0,
+        order: { delivered_at: "ASC" },
+      }
+    )
+  }
+
   /**
    * Get orders that are "ready to ship" (paid but not yet shipped)
    */
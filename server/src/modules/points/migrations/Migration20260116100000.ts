@@ -0,0 +1,60 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260116100000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`ALTER TABLE "points_transaction" ADD COLUMN IF NOT EXISTS "remaining_amount" integer NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_points_transaction_open_lots" ON "points_transaction" (customer_id, created_at) WHERE remaining_amount > 0 AND deleted_at IS NULL;`);
+
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      DROP CONSTRAINT IF EXISTS "points_transaction_type_check";
+    `);
+
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      ADD CONSTRAINT "points_transaction_type_check"
+      CHECK ("type" IN ('earned', 'redeemed', 'admin_added', 'admin_removed', 'return_deducted', 'return_restored', 'cancel_deducted', 'cancel_restored', 'expired'));
+    `);
+
+    // Backfill lots for existing credits: spending was FIFO, so the current
+    // balance is made up of the newest credits
+    this.addSql(`
+      UPDATE "points_transaction" AS t
+      SET "remaining_amount" = lots.remaining
+      FROM (
+        SELECT
+          c.id,
+          GREATEST(0, LEAST(
+            c.amount,
+            COALESCE(b.balance, 0) - (
+              SUM(c.amount) OVER (PARTITION BY c.customer_id ORDER BY c.created_at DESC, c.id DESC) - c.amount
+            )
+          ))::integer AS remaining
+        FROM "points_transaction" c
+        LEFT JOIN "points_balance" b ON b.customer_id = c.customer_id AND b.deleted_at IS NULL
+        WHERE c.amount > 0 AND c.deleted_at IS NULL
+      ) AS lots
+      WHERE t.id = lots.id AND t."remaining_amount" IS NULL;
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`DELETE FROM "points_transaction" WHERE "type" = 'expired';`);
+
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      DROP CONSTRAINT IF EXISTS "points_transaction_type_check";
+    `);
+
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      ADD CONSTRAINT "points_transaction_type_check"
+      CHECK ("type" IN ('earned', 'redeemed', 'admin_added', 'admin_removed', 'return_deducted', 'return_restored', 'cancel_deducted', 'cancel_restored'));
+    `);
+
+    this.addSql(`DROP INDEX IF EXISTS "IDX_points_transaction_open_lots";`);
+    this.addSql(`ALTER TABLE "points_transaction" DROP COLUMN IF EXISTS "remaining_amount";`);
+  }
+
+}
@@ -0,0 +1,34 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260120100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Allow store credit refunds from returns to be credited as points
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      DROP CONSTRAINT IF EXISTS "points_transaction_type_check";
+    `);
+
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      ADD CONSTRAINT "points_transaction_type_check"
+      CHECK ("type" IN ('earned', 'redeemed', 'admin_added', 'admin_removed', 'return_deducted', 'return_restored', 'cancel_deducted', 'cancel_restored', 'store_credit', 'expired'));
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`UPDATE "points_transaction" SET "type" = 'admin_added' WHERE "type" = 'store_credit';`);
+
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      DROP CONSTRAINT IF EXISTS "points_transaction_type_check";
+    `);
+
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      ADD CONSTRAINT "points_transaction_type_check"
+      CHECK ("type" IN ('earned', 'redeemed', 'admin_added', 'admin_removed', 'return_deducted', 'return_restored', 'cancel_deducted', 'cancel_restored', 'expired'));
+    `);
+  }
+
+}
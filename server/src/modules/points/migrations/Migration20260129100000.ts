@@ -0,0 +1,40 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260129100000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`ALTER TABLE "points_config" ADD COLUMN IF NOT EXISTS "review_reward_points" integer NOT NULL DEFAULT 0;`);
+    this.addSql(`ALTER TABLE "points_config" ADD COLUMN IF NOT EXISTS "review_photo_bonus_points" integer NOT NULL DEFAULT 0;`);
+
+    // Points awarded for product reviews
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      DROP CONSTRAINT IF EXISTS "points_transaction_type_check";
+    `);
+
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      ADD CONSTRAINT "points_transaction_type_check"
+      CHECK ("type" IN ('earned', 'redeemed', 'admin_added', 'admin_removed', 'return_deducted', 'return_restored', 'cancel_deducted', 'cancel_restored', 'store_credit', 'review_reward', 'expired'));
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`UPDATE "points_transaction" SET "type" = 'admin_added' WHERE "type" = 'review_reward';`);
+
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      DROP CONSTRAINT IF EXISTS "points_transaction_type_check";
+    `);
+
+    this.addSql(`
+      ALTER TABLE "points_transaction"
+      ADD CONSTRAINT "points_transaction_type_check"
+      CHECK ("type" IN ('earned', 'redeemed', 'admin_added', 'admin_removed', 'return_deducted', 'return_restored', 'cancel_deducted', 'cancel_restored', 'store_credit', 'expired'));
+    `);
+
+    this.addSql(`ALTER TABLE "points_config" DROP COLUMN IF EXISTS "review_photo_bonus_points";`);
+    this.addSql(`ALTER TABLE "points_config" DROP COLUMN IF EXISTS "review_reward_points";`);
+  }
+
+}
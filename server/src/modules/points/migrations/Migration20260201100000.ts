@@ -0,0 +1,31 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260201100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // What a transaction was for, e.g. the product of a review reward
+    this.addSql(`ALTER TABLE "points_transaction" ADD COLUMN IF NOT EXISTS "reference_id" text;`);
+
+    this.addSql(`
+      CREATE INDEX IF NOT EXISTS "IDX_points_transaction_review_reward"
+      ON "points_transaction" ("customer_id", "reference_id")
+      WHERE "type" = 'review_reward' AND "deleted_at" IS NULL;
+    `);
+
+    // Review rewards given so far name their review in the reason
+    this.addSql(`
+      UPDATE "points_transaction" AS pt
+      SET "reference_id" = r."product_id"
+      FROM "review" AS r
+      WHERE pt."type" = 'review_reward'
+        AND pt."reference_id" IS NULL
+        AND pt."reason" LIKE '%review ' || r."id";
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`DROP INDEX IF EXISTS "IDX_points_transaction_review_reward";`);
+    this.addSql(`ALTER TABLE "points_transaction" DROP COLUMN IF EXISTS "reference_id";`);
+  }
+
+}
@@ -0,0 +1,39 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260205100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Keep the first reward of any customer and product rewarded twice, so
+    // the index can be unique
+    this.addSql(`
+      UPDATE "points_transaction" SET "reference_id" = NULL
+      WHERE "id" IN (
+        SELECT "id" FROM (
+          SELECT "id", row_number() OVER (
+            PARTITION BY "customer_id", "reference_id" ORDER BY "created_at", "id"
+          ) AS "rank"
+          FROM "points_transaction"
+          WHERE "type" = 'review_reward' AND "reference_id" IS NOT NULL AND "deleted_at" IS NULL
+        ) AS ranked
+        WHERE "rank" > 1
+      );
+    `);
+
+    this.addSql(`DROP INDEX IF EXISTS "IDX_points_transaction_review_reward";`);
+    this.addSql(`
+      CREATE UNIQUE INDEX IF NOT EXISTS "IDX_points_transaction_review_reward_unique"
+      ON "points_transaction" ("customer_id", "reference_id")
+      WHERE "type" = 'review_reward' AND "deleted_at" IS NULL;
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`DROP INDEX IF EXISTS "IDX_points_transaction_review_reward_unique";`);
+    this.addSql(`
+      CREATE INDEX IF NOT EXISTS "IDX_points_transaction_review_reward"
+      ON "points_transaction" ("customer_id", "reference_id")
+      WHERE "type" = 'review_reward' AND "deleted_at" IS NULL;
+    `);
+  }
+
+}
@@ -18,6 +18,10 @@ const PointsConfig = model.define("points_config", {
   min_points_to_redeem: model.number().default(100), // Minimum points required for redemption
   max_redemption_percentage: model.number().default(50), // Max % of order payable by points
 
+  // Review Rewards
+  review_reward_points: model.number().default(0),      // Points per published verified review, 0 = off
+  review_photo_bonus_points: model.number().default(0), // Extra points when the review has a photo
+
   // Expiration Settings
   expiration_months: model.number().default(0),      // 0 = never expire
 
@@ -3,16 +3,22 @@ import { model } from "@medusajs/framework/utils"
 /**
  * PointsTransaction Model
  * Audit log of all point movements
+ *
+ * Credits (earned, admin_added, *_restored, store_credit, review_reward) are also earning lots:
+ * remaining_amount is how much of the lot is still unspent. Debits consume
+ * the oldest lots first, and lots expire expiration_months after created_at.
  */
 const PointsTransaction = model.define("points_transaction", {
   id: model.id().primaryKey(),
   customer_id: model.text(),
-  type: model.enum(["earned", "redeemed", "admin_added", "admin_removed", "return_deducted", "return_restored", "cancel_deducted", "cancel_restored"]),
+  type: model.enum(["earned", "redeemed", "admin_added", "admin_removed", "return_deducted", "return_restored", "cancel_deducted", "cancel_restored", "store_credit", "review_reward", "expired"]),
   amount: model.bigNumber(), // Positive for earn, negative for redeem
   order_id: model.text().nullable(),
   reason: model.text(), // e.g., "Purchase order #123", "Admin adjustment"
   balance_after: model.bigNumber(), // Snapshot of balance after transaction
   created_by: model.text().nullable(), // Admin user ID if manual adjustment
+  remaining_amount: model.number().nullable(), // Unspent points of a credit lot, null for debits
+  reference_id: model.text().nullable(), // Product of a review_reward, so each product is rewarded once per customer
 })
 
 export default PointsTransaction
@@ -5,8 +5,11 @@ import PointsConfig from "../models/points-config"
 import {
   calculateEarnedPoints,
   convertPointsToDiscount,
+  convertDiscountToPoints,
   calculateMaxRedeemablePoints,
   validatePointsRedemption,
+  calculatePointsExpiryDate,
+  calculateExpiredBefore,
 } from "../utils/calculate-points"
 
 type InjectedDependencies = {
@@ -42,6 +45,22 @@ type ReturnPointsInput = {
   points_to_restore?: number // Points redeemed on order that should be restored
 }
 
+type StoreCreditInput = {
+  customer_id: string
+  order_id: string
+  return_id: string
+  amount: number // Refund amount in cents to credit as points
+  admin_id?: string
+}
+
+type ReviewRewardInput = {
+  customer_id: string
+  review_id: string
+  product_id: string
+  order_id?: string | null
+  has_photo: boolean
+}
+
 type CancelOrderPointsInput = {
   customer_id: string
   order_id: string
@@ -49,10 +68,25 @@ type CancelOrderPointsInput = {
   points_to_restore?: number // Points redeemed on order that should be restored
 }
 
+type ExpiringPoints = {
+  points: number
+  expires_at: Date | null // Earliest expiry among the expiring lots
+}
+
+type ExpirationProjection = {
+  days: number
+  points: number
+  customers: number
+}
+
 /**
  * PointsModuleService
  * Manages customer points: earning, redeeming, balance tracking
  *
+ * Every credit is an earning lot that tracks its unspent points
+ * (remaining_amount). Debits consume lots oldest first (FIFO), and lots expire
+ * PointsConfig.expiration_months after they were credited.
+ *
  * IMPORTANT: The service class name must NOT match the pattern {ModelName}Service
  * because it would conflict with the internal service that Medusa auto-generates
  * for each model. Use a different name like PointsModuleService instead.
@@ -153,6 +187,8 @@ class PointsModuleService extends MedusaService({
     earning_type?: "percentage" | "per_currency"
     earning_rate?: number
     redemption_rate?: number
+    review_reward_points?: number
+    review_photo_bonus_points?: number
     is_enabled?: boolean
   }): Promise<any> {
     const config: any = await this.getConfig()
@@ -226,6 +262,7 @@ class PointsModuleService extends MedusaService({
       order_id: data.order_id,
       reason,
       balance_after: newBalance,
+      remaining_amount: pointsEarned,
     })
 
     this.logger.info(
@@ -293,6 +330,7 @@ class PointsModuleService extends MedusaService({
       balance: newBalance,
       total_redeemed: newTotalRedeemed,
     })
+    await this.consumeLots(data.customer_id, data.points)
 
     // Create transaction record
     await this.createPointsTransactions({
@@ -341,6 +379,9 @@ class PointsModuleService extends MedusaService({
       id: balance.id,
       balance: newBalance,
     })
+    if (data.amount < 0) {
+      await this.consumeLots(data.customer_id, -data.amount)
+    }
 
     // Create transaction record
     await this.createPointsTransactions({
@@ -351,6 +392,7 @@ class PointsModuleService extends MedusaService({
       reason: data.reason,
       balance_after: newBalance,
       created_by: data.admin_id,
+      remaining_amount: data.amount > 0 ? data.amount : null,
     })
 
     this.logger.info(
@@ -394,6 +436,7 @@ class PointsModuleService extends MedusaService({
       if (actualDeduction > 0) {
         currentBalance -= actualDeduction
         pointsDeducted = actualDeduction
+        await this.consumeLots(data.customer_id, actualDeduction, data.order_id)
 
         // Create deduction transaction
         await this.createPointsTransactions({
@@ -424,6 +467,7 @@ class PointsModuleService extends MedusaService({
         order_id: data.order_id,
         reason: `Points restored for return ${data.return_id} (order ${data.order_id})`,
         balance_after: currentBalance,
+        remaining_amount: data.points_to_restore,
       })
 
       this.logger.info(
@@ -445,6 +489,133 @@ class PointsModuleService extends MedusaService({
     }
   }
 
+  /**
+   * Refund a return into the customer's points balance
+   * The amount is converted at the redemption rate, so the credited points
+   * can be spent for the same value at checkout
+   */
+  async creditStoreCredit(data: StoreCreditInput): Promise<{
+    points_credited: number
+    new_balance: number
+  }> {
+    const config: any = await this.getConfig()
+    const redemptionRate = config.redemption_rate || 0.01
+    const points = convertDiscountToPoints(data.amount, redemptionRate)
+
+    let balance: any = await this.getBalance(data.customer_id)
+    if (!balance) {
+      balance = await this.initializeBalance(data.customer_id)
+    }
+
+    const newBalance = Number(balance.balance) + points
+
+    await this.updatePointsBalances({
+      id: balance.id,
+      balance: newBalance,
+    })
+
+    await this.createPointsTransactions({
+      customer_id: data.customer_id,
+      type: "store_credit",
+      amount: points,
+      order_id: data.order_id,
+      reason: `Store credit refund for return ${data.return_id} (order ${data.order_id})`,
+      balance_after: newBalance,
+      created_by: data.admin_id || null,
+      remaining_amount: points,
+    })
+
+    this.logger.info(
+      `[POINTS] Credited ${points} points to customer ${data.customer_id} as store credit for return ${data.return_id}`
+    )
+
+    return {
+      points_credited: points,
+      new_balance: newBalance,
+    }
+  }
+
+  /**
+   * Award the configured points for a published review, with the photo bonus
+   * when it has images. A customer is rewarded once per product, so deleting
+   * a review and posting it again earns nothing
+   */
+  async awardReviewPoints(data: ReviewRewardInput): Promise<{
+    points_awarded: number
+    new_balance: number
+    already_rewarded: boolean
+  }> {
+    const config: any = await this.getConfig()
+
+    if (!config.is_enabled) {
+      return { points_awarded: 0, new_balance: 0, already_rewarded: false }
+    }
+
+    const [, rewardedCount] = await this.listAndCountPointsTransactions(
+      { customer_id: data.customer_id, type: "review_reward", reference_id: data.product_id },
+      { select: ["id"], take: 1 }
+    )
+    if (rewardedCount > 0) {
+      return { points_awarded: 0, new_balance: 0, already_rewarded: true }
+    }
+
+    const points = Math.max(0, Number(config.review_reward_points) || 0) +
+      (data.has_photo ? Math.max(0, Number(config.review_photo_bonus_points) || 0) : 0)
+
+    if (points === 0) {
+      return { points_awarded: 0, new_balance: 0, already_rewarded: false }
+    }
+
+    let balance: any = await this.getBalance(data.customer_id)
+    if (!balance) {
+      balance = await this.initializeBalance(data.customer_id)
+    }
+
+    const newBalance = Number(balance.balance) + points
+
+    // The reward is written first: the unique review reward index rejects a
+    // concurrent second reward for the same product before any points move
+    try {
+      await this.createPointsTransactions({
+        customer_id: data.customer_id,
+        type: "review_reward",
+        amount: points,
+        order_id: data.order_id ?? null,
+        reason: data.has_photo
+          ? `Reward for photo review ${data.review_id}`
+          : `Reward for review ${data.review_id}`,
+        balance_after: newBalance,
+        remaining_amount: points,
+        reference_id: data.product_id,
+      })
+    } catch (error) {
+      const [, concurrentRewards] = await this.listAndCountPointsTransactions(
+        { customer_id: data.customer_id, type: "review_reward", reference_id: data.product_id },
+        { select: ["id"], take: 1 }
+      )
+      if (concurrentRewards > 0) {
+        return { points_awarded: 0, new_balance: 0, already_rewarded: true }
+      }
+      throw error
+    }
+
+    await this.updatePointsBalances({
+      id: balance.id,
+      balance: newBalance,
+      total_earned: Number(balance.total_earned) + points,
+    })
+
+    this.logger.info(
+      `[POINTS] Awarded ${points} points to customer ${data.customer_id} for review ${data.review_id}`
+    )
+
+    return {
+      points_awarded: points,
+      new_balance: newBalance,
+      already_rewarded: false,
+    }
+  }
+
   /**
    * Handle points adjustment for order cancellation
    * - Deducts points that were earned from the cancelled order
@@ -476,6 +647,7 @@ class PointsModuleService extends MedusaService({
       if (actualDeduction > 0) {
         currentBalance -= actualDeduction
         pointsDeducted = actualDeduction
+        await this.consumeLots(data.customer_id, actualDeduction, data.order_id)
 
         // Create deduction transaction
         await this.createPointsTransactions({
@@ -506,6 +678,7 @@ class PointsModuleService extends MedusaService({
         order_id: data.order_id,
         reason: `Points restored for cancelled order ${data.order_id}`,
         balance_after: currentBalance,
+        remaining_amount: data.points_to_restore,
       })
 
       this.logger.info(
@@ -681,6 +854,9 @@ class PointsModuleService extends MedusaService({
       balance: newBalance,
       total_earned: Number(balance.total_earned) + (amount > 0 ? amount : 0),
     })
+    if (amount < 0) {
+      await this.consumeLots(customerId, -amount)
+    }
 
     await this.createPointsTransactions({
       customer_id: customerId,
@@ -689,11 +865,228 @@ class PointsModuleService extends MedusaService({
       order_id: null,
       reason: reason,
       balance_after: newBalance,
+      remaining_amount: amount > 0 ? amount : null,
     })
 
     this.logger.info(`Adjusted ${amount} points for customer ${customerId}: ${reason}`)
   }
 
+  /**
+   * Spend points from a customer's earning lots, oldest first
+   * @param preferOrderId - Consume the lots earned on this order first, so a
+   *   return or cancellation takes back that order's own points
+   */
+  private async consumeLots(
+    customerId: string,
+    points: number,
+    preferOrderId?: string
+  ): Promise<void> {
+    if (points <= 0) return
+
+    const lots = await this.listPointsTransactions(
+      { customer_id: customerId, remaining_amount: { $gt: 0 } },
+      { take: 10000, order: { created_at: "ASC" } }
+    )
+
+    if (preferOrderId) {
+      const isOrderLot = (lot: any): boolean =>
+        lot.type === "earned" && lot.order_id === preferOrderId
+      lots.sort((a: any, b: any) => Number(isOrderLot(b)) - Number(isOrderLot(a)))
+    }
+
+    let left = points
+    const updates: { id: string; remaining_amount: number }[] = []
+
+    for (const lot of lots) {
+      if (left <= 0) break
+      const remaining = Number(lot.remaining_amount)
+      const used = Math.min(remaining, left)
+      updates.push({ id: lot.id, remaining_amount: remaining - used })
+      left -= used
+    }
+
+    if (updates.length > 0) {
+      await this.updatePointsTransactions(updates)
+    }
+  }
+
+  /**
+   * Expire earning lots older than PointsConfig.expiration_months
+   * Writes one "expired" transaction per customer and decrements the balance.
+   * Called by the expire-points job.
+   */
+  async expirePoints(now: Date = new Date()): Promise<{
+    customers: number
+    points_expired: number
+  }> {
+    const config: any = await this.getConfig()
+    const expiredBefore = calculateExpiredBefore(now, config.expiration_months)
+
+    if (!config.is_enabled || !expiredBefore) {
+      return { customers: 0, points_expired: 0 }
+    }
+
+    const lots = await this.listPointsTransactions(
+      { remaining_amount: { $gt: 0 }, created_at: { $lte: expiredBefore } },
+      { take: 10000, order: { created_at: "ASC" } }
+    )
+
+    const lotsByCustomer = new Map<string, any[]>()
+    for (const lot of lots) {
+      const customerLots = lotsByCustomer.get(lot.customer_id) || []
+      customerLots.push(lot)
+      lotsByCustomer.set(lot.customer_id, customerLots)
+    }
+
+    let customers = 0
+    let pointsExpired = 0
+
+    for (const [customerId, customerLots] of lotsByCustomer) {
+      try {
+        const balance: any = await this.getBalance(customerId)
+        const currentBalance = balance ? Number(balance.balance) : 0
+        const lotTotal = customerLots.reduce(
+          (sum: number, lot: any) => sum + Number(lot.remaining_amount),
+          0
+        )
+        // Never expire more than the customer still has
+        const expired = Math.min(lotTotal, currentBalance)
+
+        await this.updatePointsTransactions(
+          customerLots.map((lot: any) => ({ id: lot.id, remaining_amount: 0 }))
+        )
+
+        if (expired <= 0) continue
+
+        const newBalance = currentBalance - expired
+
+        await this.updatePointsBalances({
+          id: balance.id,
+          balance: newBalance,
+        })
+
+        await this.createPointsTransactions({
+          customer_id: customerId,
+          type: "expired",
+          amount: -expired,
+          order_id: null,
+          reason: `Points earned on or before ${expiredBefore.toISOString().slice(0, 10)} expired`,
+          balance_after: newBalance,
+        })
+
+        customers++
+        pointsExpired += expired
+
+        this.logger.info(`[POINTS] Expired ${expired} points for customer ${customerId}`)
+      } catch (error) {
+        this.logger.error(`[POINTS] Failed to expire points for customer ${customerId}: ${error}`)
+      }
+    }
+
+    return { customers, points_expired: pointsExpired }
+  }
+
+  /**
+   * Get points that will expire within the next days
+   */
+  async getExpiringPoints(
+    customerId: string,
+    withinDays: number = 30,
+    now: Date = new Date()
+  ): Promise<ExpiringPoints> {
+    const config: any = await this.getConfig()
+    const windowEnd = new Date(now.getTime() + withinDays * 24 * 60 * 60 * 1000)
+    const expiredBefore = calculateExpiredBefore(windowEnd, config.expiration_months)
+
+    if (!expiredBefore) {
+      return { points: 0, expires_at: null }
+    }
+
+    const [lots, balance] = await Promise.all([
+      this.listPointsTransactions(
+        {
+          customer_id: customerId,
+          remaining_amount: { $gt: 0 },
+          created_at: { $lte: expiredBefore },
+        },
+        { take: 10000, order: { created_at: "ASC" } }
+      ),
+      this.getBalance(customerId),
+    ])
+
+    if (lots.length === 0) {
+      return { points: 0, expires_at: null }
+    }
+
+    const lotTotal = lots.reduce((sum: number, lot: any) => sum + Number(lot.remaining_amount), 0)
+
+    return {
+      points: Math.min(lotTotal, balance ? Number(balance.balance) : 0),
+      expires_at: calculatePointsExpiryDate(new Date(lots[0].created_at), config.expiration_months),
+    }
+  }
+
+  /**
+   * Project points expiring across all customers in the next 30, 60 and 90 days
+   * Each window is cumulative and includes lots already due for the next job run.
+   */
+  async getExpirationProjections(
+    windows: number[] = [30, 60, 90],
+    now: Date = new Date()
+  ): Promise<{ expiration_months: number; projections: ExpirationProjection[] }> {
+    const config: any = await this.getConfig()
+    const expirationMonths = config.expiration_months ?? 0
+    const dayMs = 24 * 60 * 60 * 1000
+    const longestWindow = Math.max(...windows)
+    const expiredBefore = calculateExpiredBefore(
+      new Date(now.getTime() + longestWindow * dayMs),
+      expirationMonths
+    )
+
+    if (!expiredBefore) {
+      return {
+        expiration_months: expirationMonths,
+        projections: windows.map((days) => ({ days, points: 0, customers: 0 })),
+      }
+    }
+
+    const lots = await this.listPointsTransactions(
+      { remaining_amount: { $gt: 0 }, created_at: { $lte: expiredBefore } },
+      { take: 10000, order: { created_at: "ASC" } }
+    )
+    const balances = await this.getBalances(
+      Array.from(new Set(lots.map((lot: any) => lot.customer_id as string)))
+    )
+
+    const projections = windows.map((days) => {
+      const windowCutoff = calculateExpiredBefore(new Date(now.getTime() + days * dayMs), expirationMonths)!
+      const perCustomer = new Map<string, number>()
+
+      for (const lot of lots) {
+        if (new Date(lot.created_at) > windowCutoff) continue
+        perCustomer.set(
+          lot.customer_id,
+          (perCustomer.get(lot.customer_id) || 0) + Number(lot.remaining_amount)
+        )
+      }
+
+      let points = 0
+      let customers = 0
+      for (const [customerId, lotTotal] of perCustomer) {
+        const balance = balances.get(customerId)
+        const expiring = Math.min(lotTotal, balance ? Number(balance.balance) : 0)
+        if (expiring > 0) {
+          points += expiring
+          customers++
+        }
+      }
+
+      return { days, points, customers }
+    })
+
+    return { expiration_months: expirationMonths, projections }
+  }
+
   /**
    * Delete points balance and all transactions for a customer
    * Used when deleting a membership
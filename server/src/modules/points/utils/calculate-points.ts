@@ -37,6 +37,20 @@ export function convertPointsToDiscount(
   return Math.floor(points * redemptionRate * 100) // Convert to cents
 }
 
+/**
+ * Convert an amount of money to points, the inverse of convertPointsToDiscount
+ * Rounds up so the points are never worth less than the amount
+ * @param amount - Amount in smallest currency unit (cents)
+ * @param redemptionRate - Value of 1 point
+ * @returns Points worth the amount
+ */
+export function convertDiscountToPoints(
+  amount: number,
+  redemptionRate: number
+): number {
+  return Math.ceil(amount / (redemptionRate * 100))
+}
+
 /**
  * Calculate maximum points that can be redeemed for an order
  * @param orderTotal - Order total in smallest currency unit (cents)
@@ -89,3 +103,47 @@ export function validatePointsRedemption(
 
   return { valid: true }
 }
+
+/**
+ * Shift a date by whole calendar months
+ * @param date - Starting date
+ * @param months - Months to add (negative to subtract)
+ * @returns New date
+ */
+function addMonths(date: Date, months: number): Date {
+  const result = new Date(date)
+  result.setMonth(result.getMonth() + months)
+  return result
+}
+
+/**
+ * Calculate when an earning lot expires
+ * @param earnedAt - When the points were credited
+ * @param expirationMonths - Months points stay valid (0 = never expire)
+ * @returns Expiry date, or null if points never expire
+ */
+export function calculatePointsExpiryDate(
+  earnedAt: Date,
+  expirationMonths: number
+): Date | null {
+  if (!expirationMonths || expirationMonths <= 0) {
+    return null
+  }
+  return addMonths(earnedAt, expirationMonths)
+}
+
+/**
+ * Latest credit date whose points have expired by a given date
+ * @param date - Date to check expiry at
+ * @param expirationMonths - Months points stay valid (0 = never expire)
+ * @returns Lots credited at or before this date are expired, or null if points never expire
+ */
+export function calculateExpiredBefore(
+  date: Date,
+  expirationMonths: number
+): Date | null {
+  if (!expirationMonths || expirationMonths <= 0) {
+    return null
+  }
+  return addMonths(date, -expirationMonths)
+}
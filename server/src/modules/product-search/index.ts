@@ -0,0 +1,18 @@
+import { Module } from "@medusajs/framework/utils"
+import ProductSearchModuleService from "./services/product-search"
+
+export const PRODUCT_SEARCH_MODULE = "productSearchModuleService"
+
+/**
+ * Meilisearch index holding the product search documents. Registered in the
+ * Meilisearch plugin settings under its own type, so the plugin's product
+ * subscribers leave it alone
+ */
+export const PRODUCT_SEARCH_INDEX = "product_search"
+
+export default Module(PRODUCT_SEARCH_MODULE, {
+  service: ProductSearchModuleService,
+})
+
+export { ProductSearchModuleService }
+export * from "./services/product-search"
@@ -0,0 +1,18 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260126100000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`create table if not exists "product_search_document" ("id" text not null, "title" text not null, "subtitle" text null, "handle" text not null, "description" text null, "thumbnail" text null, "search_text" text not null, "skus" jsonb null, "category_ids" jsonb null, "category_names" jsonb null, "brand_id" text null, "brand_name" text null, "tags" jsonb null, "min_price" real null, "max_price" real null, "currency_code" text null, "price_bucket" text null, "average_rating" real not null default 0, "review_count" integer not null default 0, "rating_bucket" integer not null default 0, "sold_count" integer not null default 0, "shipping_min_days" integer not null default 3, "flash_sale" boolean not null default false, "trending" boolean not null default false, "on_brand" boolean not null default false, "product_created_at" timestamptz not null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "product_search_document_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_product_search_document_deleted_at" ON "product_search_document" (deleted_at) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_product_search_document_category_ids" ON "product_search_document" USING gin (category_ids) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_product_search_document_brand_id" ON "product_search_document" (brand_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_product_search_document_min_price" ON "product_search_document" (min_price) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_product_search_document_sold_count" ON "product_search_document" (sold_count) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "product_search_document" cascade;`);
+  }
+
+}
@@ -0,0 +1,34 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260202100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Price buckets are now in cents like min_price, re-bucket existing documents
+    this.addSql(`
+      UPDATE "product_search_document"
+      SET "price_bucket" = CASE
+        WHEN "min_price" IS NULL THEN NULL
+        WHEN "min_price" < 2000 THEN '0-2000'
+        WHEN "min_price" < 5000 THEN '2000-5000'
+        WHEN "min_price" < 10000 THEN '5000-10000'
+        WHEN "min_price" < 20000 THEN '10000-20000'
+        ELSE '20000+'
+      END;
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`
+      UPDATE "product_search_document"
+      SET "price_bucket" = CASE
+        WHEN "min_price" IS NULL THEN NULL
+        WHEN "min_price" < 20 THEN '0-20'
+        WHEN "min_price" < 50 THEN '20-50'
+        WHEN "min_price" < 100 THEN '50-100'
+        WHEN "min_price" < 200 THEN '100-200'
+        ELSE '200+'
+      END;
+    `);
+  }
+
+}
@@ -0,0 +1,46 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * ProductSearchDocument model
+ * Denormalized copy of a published product with everything search filters,
+ * facets and sorts on. The id is the product id. Kept in sync by the
+ * product-search subscribers; the same documents are pushed to Meilisearch
+ * when it is configured, and searched with SQL otherwise.
+ * - search_text: lowercased title, subtitle, description, SKUs, brand, categories and tags
+ * - category_ids / category_names / tags / skus: JSON arrays
+ * - min_price / max_price: cheapest and dearest variant price in cents
+ * - price_bucket: key of the PRICE_RANGES entry min_price falls in
+ * - rating_bucket: average rating rounded to a whole star, 0 without reviews
+ * - shipping_min_days: fastest delivery from metadata.shipping_days, e.g. "1-3" -> 1
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const ProductSearchDocument = model.define("product_search_document", {
+  id: model.id().primaryKey(),
+  title: model.text(),
+  subtitle: model.text().nullable(),
+  handle: model.text(),
+  description: model.text().nullable(),
+  thumbnail: model.text().nullable(),
+  search_text: model.text(),
+  skus: model.json().nullable(),
+  category_ids: model.json().nullable(),
+  category_names: model.json().nullable(),
+  brand_id: model.text().nullable(),
+  brand_name: model.text().nullable(),
+  tags: model.json().nullable(),
+  min_price: model.float().nullable(),
+  max_price: model.float().nullable(),
+  currency_code: model.text().nullable(),
+  price_bucket: model.text().nullable(),
+  average_rating: model.float().default(0),
+  review_count: model.number().default(0),
+  rating_bucket: model.number().default(0),
+  sold_count: model.number().default(0),
+  shipping_min_days: model.number().default(3),
+  flash_sale: model.boolean().default(false),
+  trending: model.boolean().default(false),
+  on_brand: model.boolean().default(false),
+  product_created_at: model.dateTime(),
+})
+
+export default ProductSearchDocument
@@ -0,0 +1,301 @@
+import {
+  InjectManager,
+  MedusaContext,
+  MedusaService,
+} from "@medusajs/framework/utils"
+import type { Context, InferTypeOf } from "@medusajs/framework/types"
+import type { EntityManager } from "@mikro-orm/knex"
+import ProductSearchDocument from "../models/product-search-document"
+
+type ProductSearchDocumentRecord = InferTypeOf<typeof ProductSearchDocument>
+
+/**
+ * Price range facet buckets, in cents like every stored price. `to` is exclusive
+ */
+export const PRICE_RANGES = [
+  { key: "0-2000", from: 0, to: 2000 },
+  { key: "2000-5000", from: 2000, to: 5000 },
+  { key: "5000-10000", from: 5000, to: 10000 },
+  { key: "10000-20000", from: 10000, to: 20000 },
+  { key: "20000+", from: 20000, to: null },
+] as const
+
+/**
+ * Fields a search can be sorted by. Without a sort, text searches are ranked
+ * by relevance and browsing lists newest first
+ */
+export type ProductSearchSortField = "created_at" | "title" | "price" | "sold_count" | "rating"
+
+export type ProductSearchSort = {
+  field: ProductSearchSortField
+  direction: "asc" | "desc"
+}
+
+export type ProductSearchParams = {
+  q?: string
+  category_id?: string
+  brand_id?: string
+  tags?: string[]
+  min_price?: number
+  max_price?: number
+  rating?: number // Whole-star rating, matched exactly
+  max_shipping_days?: number
+  flash_sale?: boolean
+  trending?: boolean
+  on_brand?: boolean
+  sort?: ProductSearchSort
+  limit: number
+  offset: number
+}
+
+/**
+ * Facet value -> number of matching products, per faceted field
+ */
+export type ProductSearchFacetDistribution = {
+  category_ids: Record<string, number>
+  brand_id: Record<string, number>
+  tags: Record<string, number>
+  price_bucket: Record<string, number>
+  rating_bucket: Record<string, number>
+}
+
+export type ProductSearchResult = {
+  ids: string[] // Product ids of the page, in result order
+  count: number
+  facets: ProductSearchFacetDistribution
+}
+
+export type ProductSearchDocumentData = {
+  id: string // Product id
+  title: string
+  subtitle: string | null
+  handle: string
+  description: string | null
+  thumbnail: string | null
+  search_text: string
+  skus: string[]
+  category_ids: string[]
+  category_names: string[]
+  brand_id: string | null
+  brand_name: string | null
+  tags: string[]
+  min_price: number | null
+  max_price: number | null
+  currency_code: string | null
+  price_bucket: string | null
+  average_rating: number
+  review_count: number
+  rating_bucket: number
+  sold_count: number
+  shipping_min_days: number
+  flash_sale: boolean
+  trending: boolean
+  on_brand: boolean
+  product_created_at: Date
+}
+
+/**
+ * Key of the price range a price (in cents) falls in
+ */
+export function getPriceBucket(price: number | null): string | null {
+  if (price === null) return null
+  const range = PRICE_RANGES.find((r) => price >= r.from && (r.to === null || price < r.to))
+  return range?.key ?? null
+}
+
+const SORT_COLUMNS: Record<ProductSearchSortField, string> = {
+  created_at: `"product_created_at"`,
+  title: `lower("title")`,
+  price: `"min_price"`,
+  sold_count: `"sold_count"`,
+  rating: `"average_rating"`,
+}
+
+/**
+ * ProductSearchModuleService
+ * Stores the product search documents and answers searches with SQL when no
+ * search index is configured. Building the documents needs other modules, so
+ * that happens in utils/product-search
+ */
+class ProductSearchModuleService extends MedusaService({
+  ProductSearchDocument,
+}) {
+  /**
+   * Create or replace the documents of products
+   */
+  async upsertDocuments(documents: ProductSearchDocumentData[]): Promise<void> {
+    if (documents.length === 0) return
+
+    const existing = await this.listProductSearchDocuments(
+      { id: documents.map((d) => d.id) },
+      { select: ["id"] }
+    )
+    const existingIds = new Set(existing.map((d) => d.id))
+
+    const toRecord = (document: ProductSearchDocumentData) => ({
+      ...document,
+      skus: document.skus as unknown as Record<string, unknown>,
+      category_ids: document.category_ids as unknown as Record<string, unknown>,
+      category_names: document.category_names as unknown as Record<string, unknown>,
+      tags: document.tags as unknown as Record<string, unknown>,
+    })
+
+    const updates = documents.filter((d) => existingIds.has(d.id))
+    const creates = documents.filter((d) => !existingIds.has(d.id))
+
+    if (updates.length > 0) {
+      await this.updateProductSearchDocuments(updates.map(toRecord))
+    }
+    if (creates.length > 0) {
+      await this.createProductSearchDocuments(creates.map(toRecord))
+    }
+  }
+
+  /**
+   * Drop the documents of products that were deleted or unpublished
+   */
+  async removeDocuments(productIds: string[]): Promise<void> {
+    if (productIds.length === 0) return
+    await this.deleteProductSearchDocuments(productIds)
+  }
+
+  async countDocuments(): Promise<number> {
+    const [, count] = await this.listAndCountProductSearchDocuments({}, { select: ["id"], take: 1 })
+    return count
+  }
+
+  /**
+   * Ids of every indexed product
+   */
+  async listDocumentIds(): Promise<string[]> {
+    const documents = await this.listProductSearchDocuments({}, { select: ["id"] })
+    return documents.map((d: Pick<ProductSearchDocumentRecord, "id">) => d.id)
+  }
+
+  /**
+   * SQL search over the documents: every word of the query must appear in the
+   * search text. Facet counts cover all matches, not just the page
+   */
+  async search(params: ProductSearchParams): Promise<ProductSearchResult> {
+    const { where, bindings } = this.buildWhere(params)
+    const { orderBy, orderBindings } = this.buildOrderBy(params)
+
+    const countRows = await this.runQuery(
+      `SELECT count(*)::int AS "count" FROM "product_search_document" WHERE ${where}`,
+      bindings
+    )
+    const pageRows = await this.runQuery(
+      `SELECT "id" FROM "product_search_document" WHERE ${where} ORDER BY ${orderBy}, "id" LIMIT ? OFFSET ?`,
+      [...bindings, ...orderBindings, params.limit, params.offset]
+    )
+    const facets = await this.countFacets(where, bindings)
+
+    return {
+      ids: pageRows.map((row) => row.id as string),
+      count: Number(countRows[0]?.count) || 0,
+      facets,
+    }
+  }
+
+  private async countFacets(
+    where: string,
+    bindings: unknown[]
+  ): Promise<ProductSearchFacetDistribution> {
+    const facetQueries: Record<keyof ProductSearchFacetDistribution, string> = {
+      category_ids: `SELECT value, count(*)::int AS "count" FROM "product_search_document", jsonb_array_elements_text(coalesce("category_ids", '[]'::jsonb)) AS value WHERE ${where} GROUP BY value`,
+      brand_id: `SELECT "brand_id" AS value, count(*)::int AS "count" FROM "product_search_document" WHERE ${where} AND "brand_id" IS NOT NULL GROUP BY "brand_id"`,
+      tags: `SELECT value, count(*)::int AS "count" FROM "product_search_document", jsonb_array_elements_text(coalesce("tags", '[]'::jsonb)) AS value WHERE ${where} GROUP BY value`,
+      price_bucket: `SELECT "price_bucket" AS value, count(*)::int AS "count" FROM "product_search_document" WHERE ${where} AND "price_bucket" IS NOT NULL GROUP BY "price_bucket"`,
+      rating_bucket: `SELECT "rating_bucket"::text AS value, count(*)::int AS "count" FROM "product_search_document" WHERE ${where} AND "rating_bucket" > 0 GROUP BY "rating_bucket"`,
+    }
+
+    const facets = {} as ProductSearchFacetDistribution
+    for (const [field, sql] of Object.entries(facetQueries)) {
+      const counts: Record<string, number> = {}
+      for (const row of await this.runQuery(sql, bindings)) {
+        counts[row.value as string] = Number(row.count) || 0
+      }
+      facets[field as keyof ProductSearchFacetDistribution] = counts
+    }
+    return facets
+  }
+
+  private buildWhere(params: ProductSearchParams): { where: string; bindings: unknown[] } {
+    const clauses: string[] = [`"deleted_at" IS NULL`]
+    const bindings: unknown[] = []
+
+    const terms = (params.q || "").toLowerCase().split(/\s+/).filter(Boolean)
+    for (const term of terms) {
+      clauses.push(`"search_text" LIKE ?`)
+      bindings.push(`%${term.replace(/[\\%_]/g, "\\$&")}%`)
+    }
+
+    if (params.category_id) {
+      clauses.push(`"category_ids" @> ?::jsonb`)
+      bindings.push(JSON.stringify([params.category_id]))
+    }
+    if (params.brand_id) {
+      clauses.push(`"brand_id" = ?`)
+      bindings.push(params.brand_id)
+    }
+    if (params.tags?.length) {
+      clauses.push(`"tags" @> ?::jsonb`)
+      bindings.push(JSON.stringify(params.tags))
+    }
+    if (params.min_price !== undefined) {
+      clauses.push(`"min_price" >= ?`)
+      bindings.push(params.min_price)
+    }
+    if (params.max_price !== undefined) {
+      clauses.push(`"min_price" <= ?`)
+      bindings.push(params.max_price)
+    }
+    if (params.rating !== undefined) {
+      clauses.push(`"rating_bucket" = ?`)
+      bindings.push(params.rating)
+    }
+    if (params.max_shipping_days !== undefined) {
+      clauses.push(`"shipping_min_days" <= ?`)
+      bindings.push(params.max_shipping_days)
+    }
+    if (params.flash_sale) clauses.push(`"flash_sale" = true`)
+    if (params.trending) clauses.push(`"trending" = true`)
+    if (params.on_brand) clauses.push(`"on_brand" = true`)
+
+    return { where: clauses.join(" AND "), bindings }
+  }
+
+  private buildOrderBy(params: ProductSearchParams): { orderBy: string; orderBindings: unknown[] } {
+    if (params.sort) {
+      const direction = params.sort.direction === "desc" ? "DESC" : "ASC"
+      return {
+        orderBy: `${SORT_COLUMNS[params.sort.field]} ${direction} NULLS LAST`,
+        orderBindings: [],
+      }
+    }
+
+    const q = (params.q || "").trim().toLowerCase()
+    if (!q) {
+      return { orderBy: `"product_created_at" DESC`, orderBindings: [] }
+    }
+
+    // Relevance: titles starting with the query, then titles containing it,
+    // then matches elsewhere - best sellers first within each group
+    const escaped = q.replace(/[\\%_]/g, "\\$&")
+    return {
+      orderBy: `CASE WHEN lower("title") LIKE ? THEN 0 WHEN lower("title") LIKE ? THEN 1 ELSE 2 END, "sold_count" DESC`,
+      orderBindings: [`${escaped}%`, `%${escaped}%`],
+    }
+  }
+
+  @InjectManager()
+  protected async runQuery(
+    sql: string,
+    bindings: unknown[],
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<Array<Record<string, unknown>>> {
+    return sharedContext.manager!.execute(sql, bindings as any[])
+  }
+}
+
+export default ProductSearchModuleService
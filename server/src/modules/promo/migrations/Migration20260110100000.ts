@@ -0,0 +1,36 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260110100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Add per-customer and eligibility restriction columns to coupon
+    this.addSql(`
+      ALTER TABLE "coupon"
+      ADD COLUMN IF NOT EXISTS "per_customer_limit" integer NULL,
+      ADD COLUMN IF NOT EXISTS "first_order_only" boolean NOT NULL DEFAULT false,
+      ADD COLUMN IF NOT EXISTS "eligible_customer_groups" jsonb NULL,
+      ADD COLUMN IF NOT EXISTS "eligible_tier_slugs" jsonb NULL;
+    `);
+
+    // Create coupon redemption ledger
+    this.addSql(`create table if not exists "coupon_redemption" ("id" text not null, "coupon_id" text not null, "code" text not null, "customer_id" text null, "email" text null, "order_id" text not null, "discount_amount" integer not null default 0, "currency_code" text not null default 'MYR', "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "coupon_redemption_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_coupon_redemption_coupon_id" ON "coupon_redemption" (coupon_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_coupon_redemption_customer_id" ON "coupon_redemption" (customer_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_coupon_redemption_email" ON "coupon_redemption" (email) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_coupon_redemption_coupon_order_unique" ON "coupon_redemption" (coupon_id, order_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_coupon_redemption_deleted_at" ON "coupon_redemption" (deleted_at) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "coupon_redemption" cascade;`);
+
+    this.addSql(`
+      ALTER TABLE "coupon"
+      DROP COLUMN IF EXISTS "per_customer_limit",
+      DROP COLUMN IF EXISTS "first_order_only",
+      DROP COLUMN IF EXISTS "eligible_customer_groups",
+      DROP COLUMN IF EXISTS "eligible_tier_slugs";
+    `);
+  }
+
+}
@@ -0,0 +1,34 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260111100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Add cart conditions and item scoping columns to coupon
+    this.addSql(`
+      ALTER TABLE "coupon"
+      ADD COLUMN IF NOT EXISTS "min_subtotal" integer NULL,
+      ADD COLUMN IF NOT EXISTS "max_discount_amount" integer NULL,
+      ADD COLUMN IF NOT EXISTS "include_product_ids" jsonb NULL,
+      ADD COLUMN IF NOT EXISTS "exclude_product_ids" jsonb NULL,
+      ADD COLUMN IF NOT EXISTS "include_category_ids" jsonb NULL,
+      ADD COLUMN IF NOT EXISTS "exclude_category_ids" jsonb NULL,
+      ADD COLUMN IF NOT EXISTS "include_brand_ids" jsonb NULL,
+      ADD COLUMN IF NOT EXISTS "exclude_brand_ids" jsonb NULL;
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "coupon"
+      DROP COLUMN IF EXISTS "min_subtotal",
+      DROP COLUMN IF EXISTS "max_discount_amount",
+      DROP COLUMN IF EXISTS "include_product_ids",
+      DROP COLUMN IF EXISTS "exclude_product_ids",
+      DROP COLUMN IF EXISTS "include_category_ids",
+      DROP COLUMN IF EXISTS "exclude_category_ids",
+      DROP COLUMN IF EXISTS "include_brand_ids",
+      DROP COLUMN IF EXISTS "exclude_brand_ids";
+    `);
+  }
+
+}
@@ -0,0 +1,22 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260112100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Create coupon batch table
+    this.addSql(`create table if not exists "coupon_batch" ("id" text not null, "name" text not null, "prefix" text not null, "code_length" integer not null default 8, "alphabet" text not null, "quantity" integer not null default 0, "type" text check ("type" in ('percentage', 'fixed')) not null default 'percentage', "value" integer not null default 0, "currency_code" text not null default 'MYR', "usage_limit_per_code" integer not null default 1, "starts_at" timestamptz null, "ends_at" timestamptz null, "metadata" jsonb null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "coupon_batch_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_coupon_batch_deleted_at" ON "coupon_batch" (deleted_at) WHERE deleted_at IS NULL;`);
+
+    // Link generated coupons to their batch
+    this.addSql(`ALTER TABLE "coupon" ADD COLUMN IF NOT EXISTS "batch_id" text NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_coupon_batch_id" ON "coupon" (batch_id) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`DROP INDEX IF EXISTS "IDX_coupon_batch_id";`);
+    this.addSql(`ALTER TABLE "coupon" DROP COLUMN IF EXISTS "batch_id";`);
+
+    this.addSql(`drop table if exists "coupon_batch" cascade;`);
+  }
+
+}
@@ -0,0 +1,26 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260113100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Uses held by carts that applied the promo but haven't placed an order yet
+    this.addSql(`ALTER TABLE "coupon" ADD COLUMN IF NOT EXISTS "reserved_count" integer NOT NULL DEFAULT 0;`);
+    this.addSql(`ALTER TABLE "pwp_rule" ADD COLUMN IF NOT EXISTS "reserved_count" integer NOT NULL DEFAULT 0;`);
+
+    // Create promo reservation table
+    this.addSql(`create table if not exists "promo_reservation" ("id" text not null, "promo_type" text check ("promo_type" in ('coupon', 'pwp')) not null, "promo_id" text not null, "cart_id" text not null, "status" text check ("status" in ('reserved', 'converted', 'released')) not null default 'reserved', "expires_at" timestamptz not null, "order_id" text null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "promo_reservation_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_promo_reservation_promo" ON "promo_reservation" (promo_type, promo_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_promo_reservation_cart_id" ON "promo_reservation" (cart_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_promo_reservation_expires_at" ON "promo_reservation" (expires_at) WHERE deleted_at IS NULL AND status = 'reserved';`);
+    this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_promo_reservation_active_unique" ON "promo_reservation" (promo_type, promo_id, cart_id) WHERE deleted_at IS NULL AND status = 'reserved';`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_promo_reservation_deleted_at" ON "promo_reservation" (deleted_at) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "promo_reservation" cascade;`);
+
+    this.addSql(`ALTER TABLE "pwp_rule" DROP COLUMN IF EXISTS "reserved_count";`);
+    this.addSql(`ALTER TABLE "coupon" DROP COLUMN IF EXISTS "reserved_count";`);
+  }
+
+}
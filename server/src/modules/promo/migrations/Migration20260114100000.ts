@@ -0,0 +1,24 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260114100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Multiple trigger products (any-of / all-of)
+    this.addSql(`ALTER TABLE "pwp_rule" ADD COLUMN IF NOT EXISTS "trigger_product_ids" jsonb NULL;`);
+    this.addSql(`ALTER TABLE "pwp_rule" ADD COLUMN IF NOT EXISTS "trigger_match" text check ("trigger_match" in ('any', 'all')) NOT NULL DEFAULT 'any';`);
+
+    // Reward product pool, stepped thresholds and reward quantity cap
+    this.addSql(`ALTER TABLE "pwp_rule" ADD COLUMN IF NOT EXISTS "reward_product_ids" jsonb NULL;`);
+    this.addSql(`ALTER TABLE "pwp_rule" ADD COLUMN IF NOT EXISTS "reward_tiers" jsonb NULL;`);
+    this.addSql(`ALTER TABLE "pwp_rule" ADD COLUMN IF NOT EXISTS "max_reward_quantity" integer NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`ALTER TABLE "pwp_rule" DROP COLUMN IF EXISTS "max_reward_quantity";`);
+    this.addSql(`ALTER TABLE "pwp_rule" DROP COLUMN IF EXISTS "reward_tiers";`);
+    this.addSql(`ALTER TABLE "pwp_rule" DROP COLUMN IF EXISTS "reward_product_ids";`);
+    this.addSql(`ALTER TABLE "pwp_rule" DROP COLUMN IF EXISTS "trigger_match";`);
+    this.addSql(`ALTER TABLE "pwp_rule" DROP COLUMN IF EXISTS "trigger_product_ids";`);
+  }
+
+}
@@ -0,0 +1,16 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260115100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Create automatic promotion table
+    this.addSql(`create table if not exists "auto_promotion" ("id" text not null, "name" text not null, "description" text null, "type" text check ("type" in ('buy_x_get_y', 'spend_threshold', 'category_sale', 'free_shipping')) not null default 'spend_threshold', "status" text check ("status" in ('active', 'non-active')) not null default 'active', "starts_at" timestamptz null, "ends_at" timestamptz null, "priority" integer not null default 0, "min_subtotal" integer null, "buy_quantity" integer null, "get_quantity" integer null, "product_ids" jsonb null, "category_ids" jsonb null, "discount_type" text check ("discount_type" in ('percentage', 'fixed')) not null default 'percentage', "discount_value" integer not null default 0, "max_discount_amount" integer null, "exclusive" boolean not null default false, "combine_with_coupons" boolean not null default true, "combine_with_pwp" boolean not null default true, "combine_with_membership_promos" boolean not null default true, "combine_with_points" boolean not null default true, "metadata" jsonb null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "auto_promotion_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_auto_promotion_deleted_at" ON "auto_promotion" (deleted_at) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_auto_promotion_status" ON "auto_promotion" (status) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "auto_promotion" cascade;`);
+  }
+
+}
@@ -0,0 +1,21 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260117100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Personal coupons
+    this.addSql(`ALTER TABLE "coupon" ADD COLUMN IF NOT EXISTS "customer_id" text NULL;`);
+
+    // Create birthday voucher table
+    this.addSql(`create table if not exists "birthday_voucher" ("id" text not null, "customer_id" text not null, "coupon_id" text not null, "code" text not null, "tier_slug" text not null, "amount" integer not null default 0, "currency_code" text not null default 'MYR', "year" integer not null, "valid_from" timestamptz not null, "valid_until" timestamptz not null, "email_sent_at" timestamptz null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "birthday_voucher_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_birthday_voucher_deleted_at" ON "birthday_voucher" (deleted_at) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_birthday_voucher_customer_year" ON "birthday_voucher" (customer_id, year) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "birthday_voucher" cascade;`);
+
+    this.addSql(`ALTER TABLE "coupon" DROP COLUMN IF EXISTS "customer_id";`);
+  }
+
+}
@@ -0,0 +1,46 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * Automatic Promotion model
+ * Cart-level promotions that apply without a code, e.g. "Buy 2 get 1 free",
+ * "RM20 off above RM150", "15% off frozen seafood" or "Free shipping above RM100".
+ * Evaluated on every cart update - see evaluateAutoPromotions in the promo service.
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const AutoPromotion = model.define("auto_promotion", {
+  id: model.id().primaryKey(),
+  name: model.text(), // Internal name
+  description: model.text().nullable(), // Customer-facing explanation, e.g. "Buy 2 get 1 free on all ice cream"
+  type: model
+    .enum(["buy_x_get_y", "spend_threshold", "category_sale", "free_shipping"])
+    .default("spend_threshold"),
+  status: model.enum(["active", "non-active"]).default("active"),
+  starts_at: model.dateTime().nullable(),
+  ends_at: model.dateTime().nullable(),
+  priority: model.number().default(0), // Higher priority promotions are evaluated first
+
+  // Conditions
+  min_subtotal: model.number().nullable(), // Spend threshold / free shipping threshold in cents
+  buy_quantity: model.number().nullable(), // Buy X (buy_x_get_y)
+  get_quantity: model.number().nullable(), // Get Y (buy_x_get_y)
+
+  // Item scoping (null/empty = all items)
+  product_ids: model.json().nullable(),
+  category_ids: model.json().nullable(),
+
+  // Reward - the discount on the Y items for buy_x_get_y (100% = free)
+  discount_type: model.enum(["percentage", "fixed"]).default("percentage"),
+  discount_value: model.number().default(0), // Percentage value (0-100) or fixed amount in cents
+  max_discount_amount: model.number().nullable(), // Cap in cents
+
+  // Stacking
+  exclusive: model.boolean().default(false), // Blocks every other automatic promotion
+  combine_with_coupons: model.boolean().default(true),
+  combine_with_pwp: model.boolean().default(true),
+  combine_with_membership_promos: model.boolean().default(true),
+  combine_with_points: model.boolean().default(true),
+
+  metadata: model.json().nullable(),
+})
+
+export default AutoPromotion
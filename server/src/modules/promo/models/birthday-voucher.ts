@@ -0,0 +1,24 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * BirthdayVoucher model
+ * One row per birthday voucher issued to a member - the voucher itself is a
+ * personal single-use coupon (coupon.customer_id). The year keeps the daily
+ * issuing job from issuing twice, even if the customer changes their birthday.
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const BirthdayVoucher = model.define("birthday_voucher", {
+  id: model.id().primaryKey(),
+  customer_id: model.text(),
+  coupon_id: model.text(),
+  code: model.text(), // Coupon code (snapshot)
+  tier_slug: model.text(), // Membership tier at issue time
+  amount: model.number().default(0), // Voucher value in cents
+  currency_code: model.text().default("MYR"),
+  year: model.number(), // Birthday year the voucher was issued for
+  valid_from: model.dateTime(),
+  valid_until: model.dateTime(),
+  email_sent_at: model.dateTime().nullable(),
+})
+
+export default BirthdayVoucher
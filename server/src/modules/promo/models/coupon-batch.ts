@@ -0,0 +1,25 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * CouponBatch model
+ * Parent of a set of generated single-use codes (e.g. influencer or flyer campaigns).
+ * Every generated coupon carries the batch's discount settings and a batch_id.
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const CouponBatch = model.define("coupon_batch", {
+  id: model.id().primaryKey(),
+  name: model.text(), // Campaign name, used as the name of every generated coupon
+  prefix: model.text(), // e.g. "FROZEN" -> FROZEN-7KQ2
+  code_length: model.number().default(8), // Length of the random part of the code
+  alphabet: model.text(), // Characters used for the random part
+  quantity: model.number().default(0), // Number of codes generated
+  type: model.enum(["percentage", "fixed"]).default("percentage"),
+  value: model.number().default(0), // Percentage value (0-100) or fixed amount in cents
+  currency_code: model.text().default("MYR"),
+  usage_limit_per_code: model.number().default(1), // 1 = single-use codes
+  starts_at: model.dateTime().nullable(),
+  ends_at: model.dateTime().nullable(),
+  metadata: model.json().nullable(),
+})
+
+export default CouponBatch
@@ -0,0 +1,20 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * CouponRedemption model
+ * Ledger of coupon uses - one row per order that redeemed a coupon.
+ * Used to enforce per-customer limits and for admin audits.
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const CouponRedemption = model.define("coupon_redemption", {
+  id: model.id().primaryKey(),
+  coupon_id: model.text(),
+  code: model.text(), // Code as it was applied (snapshot)
+  customer_id: model.text().nullable(), // Null for guest checkouts
+  email: model.text().nullable(), // Used to limit guest redemptions
+  order_id: model.text(),
+  discount_amount: model.number().default(0), // Discount given in cents
+  currency_code: model.text().default("MYR"),
+})
+
+export default CouponRedemption
@@ -17,6 +17,31 @@ const Coupon = model.define("coupon", {
   ends_at: model.dateTime().nullable(),
   usage_limit: model.number().nullable(), // Max total uses
   usage_count: model.number().default(0), // Current usage count
+  reserved_count: model.number().default(0), // Held by carts that applied the code (see promo_reservation)
+
+  // Per-customer restrictions
+  per_customer_limit: model.number().nullable(), // Max uses per customer (or per email for guests)
+  first_order_only: model.boolean().default(false), // Only valid on a customer's first order
+  customer_id: model.text().nullable(), // Personal coupon - only this customer can use it
+
+  // Eligibility (null/empty = everyone)
+  eligible_customer_groups: model.json().nullable(), // Customer roles, e.g. ["retail", "vip"]
+  eligible_tier_slugs: model.json().nullable(), // Membership tiers, e.g. ["gold", "platinum"]
+
+  // Cart conditions
+  min_subtotal: model.number().nullable(), // Minimum cart subtotal in cents
+  max_discount_amount: model.number().nullable(), // Cap for percentage discounts in cents
+
+  // Item scoping (null/empty = all items). Exclusions win over inclusions.
+  include_product_ids: model.json().nullable(),
+  exclude_product_ids: model.json().nullable(),
+  include_category_ids: model.json().nullable(),
+  exclude_category_ids: model.json().nullable(),
+  include_brand_ids: model.json().nullable(), // Matched against product.metadata.brand_id
+  exclude_brand_ids: model.json().nullable(),
+
+  batch_id: model.text().nullable(), // Set for codes generated by a coupon batch
+
   metadata: model.json().nullable(),
 })
 
@@ -1,4 +1,9 @@
+import AutoPromotion from "./auto-promotion"
+import BirthdayVoucher from "./birthday-voucher"
 import Coupon from "./coupon"
+import CouponBatch from "./coupon-batch"
+import CouponRedemption from "./coupon-redemption"
+import PromoReservation from "./promo-reservation"
 import PWPRule from "./pwp-rule"
 
-export { Coupon, PWPRule }
+export { AutoPromotion, BirthdayVoucher, Coupon, CouponBatch, CouponRedemption, PromoReservation, PWPRule }
@@ -0,0 +1,22 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * PromoReservation model
+ * Holds one use of a coupon or PWP rule for a cart between "applied to cart"
+ * and "order placed", so limited promos can't be oversold by concurrent checkouts.
+ * - reserved: counted in the promo's reserved_count
+ * - converted: the order was placed and usage/redemption count was incremented
+ * - released: removed from the cart or the cart went idle past expires_at
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const PromoReservation = model.define("promo_reservation", {
+  id: model.id().primaryKey(),
+  promo_type: model.enum(["coupon", "pwp"]),
+  promo_id: model.text(), // Coupon ID or PWP rule ID
+  cart_id: model.text(),
+  status: model.enum(["reserved", "converted", "released"]).default("reserved"),
+  expires_at: model.dateTime(),
+  order_id: model.text().nullable(), // Set when converted
+})
+
+export default PromoReservation
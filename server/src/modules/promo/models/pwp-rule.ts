@@ -13,12 +13,17 @@ const PWPRule = model.define("pwp_rule", {
   // Rule conditions
   trigger_type: model.enum(["product", "cart_value"]).default("product"),
   trigger_product_id: model.text().nullable(), // Product that triggers the rule
+  trigger_product_ids: model.json().nullable(), // Additional trigger products, e.g. ["prod_1", "prod_2"]
+  trigger_match: model.enum(["any", "all"]).default("any"), // Any-of or all-of the trigger products
   trigger_cart_value: model.number().nullable(), // Min cart value to trigger (in cents)
 
   // Rule rewards
   reward_product_id: model.text().nullable(), // Product offered as reward
   reward_type: model.enum(["percentage", "fixed"]).default("percentage"),
   reward_value: model.number().default(0), // Discount on reward product
+  reward_product_ids: model.json().nullable(), // Additional reward products the customer can choose from
+  reward_tiers: model.json().nullable(), // Stepped thresholds, e.g. [{ min_cart_value: 10000, reward_type: "percentage", reward_value: 20 }]
+  max_reward_quantity: model.number().nullable(), // Max reward items per order (null = 1)
 
   // Validity
   status: model.enum(["active", "non-active"]).default("active"),
@@ -28,6 +33,7 @@ const PWPRule = model.define("pwp_rule", {
   // Usage tracking
   usage_limit: model.number().nullable(),
   redemption_count: model.number().default(0),
+  reserved_count: model.number().default(0), // Held by carts that applied the offer (see promo_reservation)
 
   metadata: model.json().nullable(),
 })
@@ -1,6 +1,24 @@
-import { MedusaService } from "@medusajs/framework/utils"
-import type { InferTypeOf } from "@medusajs/framework/types"
-import { Coupon, PWPRule } from "../models"
+import { randomInt } from "crypto"
+import {
+  InjectManager,
+  InjectTransactionManager,
+  MedusaContext,
+  MedusaError,
+  MedusaService,
+} from "@medusajs/framework/utils"
+import type { Context, InferTypeOf } from "@medusajs/framework/types"
+import type { EntityManager } from "@mikro-orm/knex"
+import { PROMO_RESERVATION_TTL_MINUTES } from "../../../lib/constants"
+import { allocateCouponDiscount } from "../../../utils/coupon-discount"
+import {
+  AutoPromotion,
+  BirthdayVoucher,
+  Coupon,
+  CouponBatch,
+  CouponRedemption,
+  PromoReservation,
+  PWPRule,
+} from "../models"
 
 type CouponData = {
   code: string
@@ -12,18 +30,177 @@ type CouponData = {
   starts_at?: Date | null
   ends_at?: Date | null
   usage_limit?: number | null
+  per_customer_limit?: number | null
+  first_order_only?: boolean
+  customer_id?: string | null
+  eligible_customer_groups?: string[] | null
+  eligible_tier_slugs?: string[] | null
+  min_subtotal?: number | null
+  max_discount_amount?: number | null
+  include_product_ids?: string[] | null
+  exclude_product_ids?: string[] | null
+  include_category_ids?: string[] | null
+  exclude_category_ids?: string[] | null
+  include_brand_ids?: string[] | null
+  exclude_brand_ids?: string[] | null
+  batch_id?: string | null
   metadata?: Record<string, unknown> | null
 }
 
+/**
+ * Settings for generating a batch of unique codes
+ * All generated codes share the discount settings; usage_limit is per code
+ */
+type CouponBatchData = Omit<CouponData, "code" | "usage_limit" | "batch_id"> & {
+  prefix: string
+  code_length: number
+  alphabet: string
+  quantity: number
+  usage_limit_per_code?: number
+}
+
+/**
+ * Redemption stats of a coupon batch
+ */
+export type CouponBatchStats = {
+  batch_id: string
+  name: string
+  prefix: string
+  total_codes: number
+  redeemed_codes: number // Codes used at least once
+  redemption_count: number // Total uses across all codes
+}
+
+type BirthdayVoucherData = {
+  customer_id: string
+  tier_slug: string
+  tier_name: string
+  amount: number // Voucher value in cents
+  currency_code?: string
+  birthday_month: number // 1-12
+  year: number
+}
+
+/**
+ * Birthday voucher with its redemption state, as shown in the admin report
+ */
+export type BirthdayVoucherReportEntry = {
+  id: string
+  customer_id: string
+  code: string
+  tier_slug: string
+  amount: number
+  currency_code: string
+  valid_from: Date
+  valid_until: Date
+  email_sent_at: Date | null
+  redeemed: boolean
+  created_at: Date
+}
+
+export type BirthdayVoucherReport = {
+  year: number
+  issued: number
+  redeemed: number
+  issued_amount: number
+  redeemed_amount: number
+  by_tier: Array<{ tier_slug: string; issued: number; redeemed: number }>
+  vouchers: BirthdayVoucherReportEntry[]
+}
+
+/**
+ * Birthday voucher codes look like BDAY-XXXXXXXX
+ */
+const BIRTHDAY_VOUCHER_PREFIX = "BDAY"
+const BIRTHDAY_VOUCHER_CODE_LENGTH = 8
+const BIRTHDAY_VOUCHER_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789"
+
+/**
+ * Generated codes are inserted in chunks to keep queries reasonably sized
+ */
+const BATCH_CHUNK_SIZE = 500
+
+/**
+ * Coupon fields stored as JSON arrays
+ */
+const COUPON_LIST_FIELDS = [
+  "eligible_customer_groups",
+  "eligible_tier_slugs",
+  "include_product_ids",
+  "exclude_product_ids",
+  "include_category_ids",
+  "exclude_category_ids",
+  "include_brand_ids",
+  "exclude_brand_ids",
+] as const
+
+/**
+ * PWP rule fields stored as JSON arrays
+ */
+const PWP_LIST_FIELDS = [
+  "trigger_product_ids",
+  "reward_product_ids",
+  "reward_tiers",
+] as const
+
+/**
+ * Promos that can be reserved by a cart
+ */
+export type PromoReservationType = "coupon" | "pwp"
+
+/**
+ * Table and usage counter column per reservable promo type
+ * Used for atomic counter updates at the database level
+ */
+const PROMO_COUNTERS: Record<PromoReservationType, { table: string; usedColumn: string }> = {
+  coupon: { table: "coupon", usedColumn: "usage_count" },
+  pwp: { table: "pwp_rule", usedColumn: "redemption_count" },
+}
+
+type CouponRedemptionData = {
+  coupon_id: string
+  code: string
+  customer_id?: string | null
+  email?: string | null
+  order_id: string
+  discount_amount?: number
+  currency_code?: string
+}
+
+/**
+ * Who is trying to use a coupon - resolved by the caller from the cart
+ */
+export type CouponCustomerContext = {
+  customer_id: string | null
+  email: string | null
+  customer_group: string | null // Customer role, e.g. "retail", "bulk", "vip"
+  tier_slug: string | null // Active membership tier, null for non-members
+  previous_order_count: number | null // null when the orders couldn't be looked up
+}
+
+/**
+ * Stepped PWP threshold - the highest tier the cart value reaches applies
+ */
+export type PWPRewardTierData = {
+  min_cart_value: number // In cents
+  reward_type: "percentage" | "fixed"
+  reward_value: number
+}
+
 type PWPRuleData = {
   name: string
   rule_description: string
   trigger_type?: "product" | "cart_value"
   trigger_product_id?: string | null
+  trigger_product_ids?: string[] | null
+  trigger_match?: "any" | "all"
   trigger_cart_value?: number | null
   reward_product_id?: string | null
+  reward_product_ids?: string[] | null
   reward_type?: "percentage" | "fixed"
   reward_value?: number
+  reward_tiers?: PWPRewardTierData[] | null
+  max_reward_quantity?: number | null
   status?: "active" | "non-active"
   starts_at?: Date | null
   ends_at?: Date | null
@@ -31,11 +208,118 @@ type PWPRuleData = {
   metadata?: Record<string, unknown> | null
 }
 
+export type AutoPromotionType =
+  | "buy_x_get_y"
+  | "spend_threshold"
+  | "category_sale"
+  | "free_shipping"
+
+type AutoPromotionData = {
+  name: string
+  description?: string | null
+  type?: AutoPromotionType
+  status?: "active" | "non-active"
+  starts_at?: Date | null
+  ends_at?: Date | null
+  priority?: number
+  min_subtotal?: number | null
+  buy_quantity?: number | null
+  get_quantity?: number | null
+  product_ids?: string[] | null
+  category_ids?: string[] | null
+  discount_type?: "percentage" | "fixed"
+  discount_value?: number
+  max_discount_amount?: number | null
+  exclusive?: boolean
+  combine_with_coupons?: boolean
+  combine_with_pwp?: boolean
+  combine_with_membership_promos?: boolean
+  combine_with_points?: boolean
+  metadata?: Record<string, unknown> | null
+}
+
+/**
+ * Automatic promotion fields stored as JSON arrays
+ */
+const AUTO_PROMOTION_LIST_FIELDS = ["product_ids", "category_ids"] as const
+
+/**
+ * Cart line as seen by the automatic promotion engine
+ * Product categories are resolved by the caller (including parent categories)
+ */
+export type AutoPromotionCartItem = {
+  id: string
+  product_id: string | null
+  category_ids: string[]
+  unit_price: number
+  quantity: number
+  is_pwp_item: boolean
+  other_discount: number // Coupon, PWP, points and membership promo adjustments on the line
+}
+
+/**
+ * Cart state the stacking rules depend on
+ */
+export type AutoPromotionCartContext = {
+  items: AutoPromotionCartItem[]
+  has_coupon: boolean
+  has_membership_promo: boolean
+  has_points: boolean
+}
+
+export type AppliedAutoPromotion = {
+  promotion_id: string
+  name: string
+  type: AutoPromotionType
+  discount_amount: number
+  free_shipping: boolean
+  message: string // Why it applied, e.g. "Your qualifying subtotal of 160.00 reached 150.00"
+}
+
+export type SkippedAutoPromotion = {
+  promotion_id: string
+  name: string
+  type: AutoPromotionType
+  reason: string // Why it didn't apply, e.g. "Spend 20.00 more to unlock this promotion"
+}
+
+export type AutoPromotionAllocation = {
+  item_id: string
+  promotion_id: string
+  amount: number
+}
+
+export type AutoPromotionEvaluation = {
+  applied: AppliedAutoPromotion[]
+  not_applied: SkippedAutoPromotion[]
+  allocations: AutoPromotionAllocation[]
+  discount_total: number
+  free_shipping: boolean
+}
+
+type AutoPromotionOutcome =
+  | { allocations: Array<{ item_id: string; amount: number }>; free_shipping: boolean; message: string }
+  | { reason: string }
+
+function formatAmount(cents: number): string {
+  return (cents / 100).toFixed(2)
+}
+
+type AutoPromotionRecord = InferTypeOf<typeof AutoPromotion>
+type BirthdayVoucherRecord = InferTypeOf<typeof BirthdayVoucher>
 type CouponType = InferTypeOf<typeof Coupon>
+type CouponBatchType = InferTypeOf<typeof CouponBatch>
+type CouponRedemptionType = InferTypeOf<typeof CouponRedemption>
+type PromoReservationRecord = InferTypeOf<typeof PromoReservation>
 type PWPRuleType = InferTypeOf<typeof PWPRule>
 
 class PromoModuleService extends MedusaService({
+  AutoPromotion,
+  BirthdayVoucher,
   Coupon,
+  CouponBatch,
+  CouponRedemption,
+  PromoReservation,
   PWPRule,
 }) {
   /**
@@ -45,12 +329,19 @@ class PromoModuleService extends MedusaService({
     totalPromo: number
     activePromo: number
     redemptionCoupons: number
+    batches: CouponBatchStats[]
   }> {
-    const [coupons, pwpRules] = await Promise.all([
+    const [allCoupons, pwpRules, autoPromotions, batches] = await Promise.all([
       this.listCoupons({}, {}),
       this.listPWPRules({}, {}),
+      this.listAutoPromotions({}, {}),
+      this.getCouponBatchStats(),
     ])
 
+    // Generated batch codes are counted once per batch, not once per code,
+    // and personal coupons (birthday vouchers) aren't promos of their own
+    const coupons = allCoupons.filter((c) => !c.batch_id && !c.customer_id)
+
     const now = new Date()
 
     // Helper to check if a promo is truly active (status=active AND not expired)
@@ -60,12 +351,13 @@ class PromoModuleService extends MedusaService({
       return true
     }
 
-    const totalPromo = coupons.length + pwpRules.length
+    const totalPromo = coupons.length + batches.length + pwpRules.length + autoPromotions.length
     const activeCoupons = coupons.filter((c) => isActivePromo(c.status, c.ends_at)).length
     const activePWP = pwpRules.filter((r) => isActivePromo(r.status, r.ends_at)).length
-    const activePromo = activeCoupons + activePWP
+    const activeAuto = autoPromotions.filter((p) => isActivePromo(p.status, p.ends_at)).length
+    const activePromo = activeCoupons + activePWP + activeAuto
 
-    const redemptionCoupons = coupons.reduce(
+    const redemptionCoupons = allCoupons.reduce(
       (sum, c) => sum + (c.usage_count || 0),
       0
     )
@@ -74,6 +366,7 @@ class PromoModuleService extends MedusaService({
       totalPromo,
       activePromo,
       redemptionCoupons,
+      batches,
     }
   }
 
@@ -82,7 +375,7 @@ class PromoModuleService extends MedusaService({
    * Note: timestamps are auto-managed by MikroORM
    */
   async createCoupon(data: CouponData): Promise<CouponType> {
-    const coupon = await this.createCoupons(data)
+    const coupon = await this.createCoupons(this.toCouponRecord(data))
     return coupon
   }
 
@@ -95,11 +388,28 @@ class PromoModuleService extends MedusaService({
   ): Promise<CouponType> {
     const coupon = await this.updateCoupons({
       id,
-      ...data,
+      ...this.toCouponRecord(data),
     })
     return coupon
   }
 
+  /**
+   * Eligibility and scoping lists are stored as JSON arrays
+   * Empty lists are stored as null (= no restriction)
+   */
+  private toCouponRecord(data: Partial<CouponData>): Record<string, unknown> {
+    const record: Record<string, unknown> = { ...data }
+    for (const field of COUPON_LIST_FIELDS) {
+      const list = data[field]
+      if (list !== undefined) {
+        record[field] = list && list.length > 0
+          ? (list as unknown as Record<string, unknown>)
+          : null
+      }
+    }
+    return record
+  }
+
   /**
    * Soft delete a coupon
    */
@@ -107,15 +417,665 @@ class PromoModuleService extends MedusaService({
     await this.softDeleteCoupons([id])
   }
 
+  /**
+   * Create a coupon batch and generate its unique codes
+   * Codes look like `${prefix}-${random}` and all share the batch's discount settings.
+   * The batch and its codes are written in one transaction, so a failed chunk
+   * leaves no partial batch behind
+   */
+  @InjectTransactionManager()
+  async generateCouponBatch(
+    data: CouponBatchData,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<{ batch: CouponBatchType; codes: string[] }> {
+    const alphabet = Array.from(new Set(data.alphabet.toUpperCase().split(""))).join("")
+    const prefix = data.prefix.toUpperCase()
+
+    // Keep the code space at least twice the batch size so generation doesn't stall on collisions
+    const codeSpace = Math.pow(alphabet.length, data.code_length)
+    if (codeSpace < data.quantity * 2) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Code length ${data.code_length} with ${alphabet.length} characters is too short for ${data.quantity} unique codes`
+      )
+    }
+
+    const codes = await this.generateUniqueCodes(prefix, data.code_length, alphabet, data.quantity)
+
+    const {
+      prefix: _prefix,
+      code_length,
+      alphabet: _alphabet,
+      quantity,
+      usage_limit_per_code = 1,
+      ...settings
+    } = data
+
+    const batch = await this.createCouponBatches({
+      name: data.name,
+      prefix,
+      code_length,
+      alphabet,
+      quantity,
+      type: data.type,
+      value: data.value,
+      currency_code: data.currency_code,
+      usage_limit_per_code,
+      starts_at: data.starts_at ?? null,
+      ends_at: data.ends_at ?? null,
+      metadata: data.metadata ?? null,
+    }, sharedContext)
+
+    for (let i = 0; i < codes.length; i += BATCH_CHUNK_SIZE) {
+      const chunk = codes.slice(i, i + BATCH_CHUNK_SIZE)
+      await this.createCoupons(
+        chunk.map((code) =>
+          this.toCouponRecord({
+            ...settings,
+            code,
+            usage_limit: usage_limit_per_code,
+            batch_id: batch.id,
+          })
+        ),
+        sharedContext
+      )
+    }
+
+    return { batch, codes }
+  }
+
+  /**
+   * Generate codes that are unique within the batch and against existing coupons
+   */
+  private async generateUniqueCodes(
+    prefix: string,
+    length: number,
+    alphabet: string,
+    quantity: number
+  ): Promise<string[]> {
+    const codes = new Set<string>()
+    const maxRounds = 10
+
+    for (let round = 0; round < maxRounds && codes.size < quantity; round++) {
+      const candidates = new Set<string>()
+      while (candidates.size < quantity - codes.size) {
+        let random = ""
+        for (let i = 0; i < length; i++) {
+          random += alphabet[randomInt(alphabet.length)]
+        }
+        const code = prefix ? `${prefix}-${random}` : random
+        if (!codes.has(code)) {
+          candidates.add(code)
+        }
+      }
+
+      // Drop candidates that collide with existing coupon codes
+      const list = Array.from(candidates)
+      for (let i = 0; i < list.length; i += BATCH_CHUNK_SIZE) {
+        const chunk = list.slice(i, i + BATCH_CHUNK_SIZE)
+        const existing = await this.listCoupons({ code: chunk }, { select: ["code"] })
+        const taken = new Set(existing.map((c) => c.code))
+        for (const code of chunk) {
+          if (!taken.has(code)) codes.add(code)
+        }
+      }
+    }
+
+    if (codes.size < quantity) {
+      throw new MedusaError(
+        MedusaError.Types.UNEXPECTED_STATE,
+        `Could only generate ${codes.size} of ${quantity} unique codes, use a longer code length`
+      )
+    }
+
+    return Array.from(codes)
+  }
+
+  /**
+   * Redemption stats per coupon batch
+   * @param batchIds - Limit to these batches, defaults to all batches
+   */
+  async getCouponBatchStats(batchIds?: string[]): Promise<CouponBatchStats[]> {
+    const batches = await this.listCouponBatches(
+      batchIds ? { id: batchIds } : {},
+      { order: { created_at: "DESC" } }
+    )
+    if (batches.length === 0) return []
+
+    const coupons = await this.listCoupons(
+      { batch_id: batches.map((b) => b.id) },
+      { select: ["id", "batch_id", "usage_count"] }
+    )
+
+    return batches.map((batch) => {
+      const batchCoupons = coupons.filter((c) => c.batch_id === batch.id)
+      return {
+        batch_id: batch.id,
+        name: batch.name,
+        prefix: batch.prefix,
+        total_codes: batchCoupons.length,
+        redeemed_codes: batchCoupons.filter((c) => (c.usage_count || 0) > 0).length,
+        redemption_count: batchCoupons.reduce((sum, c) => sum + (c.usage_count || 0), 0),
+      }
+    })
+  }
+
+  /**
+   * Soft delete a coupon batch together with its generated codes
+   */
+  async deleteCouponBatch(id: string): Promise<void> {
+    const coupons = await this.listCoupons({ batch_id: id }, { select: ["id"] })
+    if (coupons.length > 0) {
+      await this.softDeleteCoupons(coupons.map((c) => c.id))
+    }
+    await this.softDeleteCouponBatches([id])
+  }
+
   /**
    * Increment coupon usage count
+   * Done atomically in the database so concurrent orders can't lose updates
    */
   async incrementCouponUsage(id: string): Promise<void> {
-    const coupon = await this.retrieveCoupon(id)
-    await this.updateCoupons({
-      id,
-      usage_count: (coupon.usage_count || 0) + 1,
+    await this.incrementPromoUsage("coupon", id)
+  }
+
+  /**
+   * Atomically increment the usage/redemption counter of a promo
+   */
+  @InjectManager()
+  protected async incrementPromoUsage(
+    type: PromoReservationType,
+    id: string,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<void> {
+    const { table, usedColumn } = PROMO_COUNTERS[type]
+    await sharedContext.manager!.execute(
+      `UPDATE "${table}" SET "${usedColumn}" = "${usedColumn}" + 1, "updated_at" = now() WHERE "id" = ?`,
+      [id]
+    )
+  }
+
+  /**
+   * Atomically count one use of a promo, only while used + reserved uses are
+   * below usage_limit
+   * @returns true if the use was counted
+   */
+  @InjectManager()
+  protected async incrementPromoUsageWithinLimit(
+    type: PromoReservationType,
+    id: string,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<boolean> {
+    const { table, usedColumn } = PROMO_COUNTERS[type]
+    const rows = await sharedContext.manager!.execute(
+      `UPDATE "${table}" SET "${usedColumn}" = "${usedColumn}" + 1, "updated_at" = now()
+       WHERE "id" = ?
+       AND ("usage_limit" IS NULL OR "${usedColumn}" + "reserved_count" < "usage_limit")
+       RETURNING "id"`,
+      [id]
+    )
+    return rows.length > 0
+  }
+
+  /**
+   * Atomically decrement the usage/redemption counter of a promo, never below zero
+   */
+  @InjectManager()
+  protected async decrementPromoUsage(
+    type: PromoReservationType,
+    id: string,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<void> {
+    const { table, usedColumn } = PROMO_COUNTERS[type]
+    await sharedContext.manager!.execute(
+      `UPDATE "${table}" SET "${usedColumn}" = GREATEST("${usedColumn}" - 1, 0), "updated_at" = now() WHERE "id" = ?`,
+      [id]
+    )
+  }
+
+  /**
+   * Atomically take one use of a promo for a reservation
+   * Only succeeds while used + reserved uses are below usage_limit
+   * @returns true if a use was reserved
+   */
+  @InjectManager()
+  protected async incrementPromoReserved(
+    type: PromoReservationType,
+    id: string,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<boolean> {
+    const { table, usedColumn } = PROMO_COUNTERS[type]
+    const rows = await sharedContext.manager!.execute(
+      `UPDATE "${table}" SET "reserved_count" = "reserved_count" + 1, "updated_at" = now()
+       WHERE "id" = ? AND "deleted_at" IS NULL
+       AND ("usage_limit" IS NULL OR "${usedColumn}" + "reserved_count" < "usage_limit")
+       RETURNING "id"`,
+      [id]
+    )
+    return rows.length > 0
+  }
+
+  /**
+   * Atomically give back a reserved use, optionally counting it as used
+   */
+  @InjectManager()
+  protected async decrementPromoReserved(
+    type: PromoReservationType,
+    id: string,
+    markUsed: boolean,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<void> {
+    const { table, usedColumn } = PROMO_COUNTERS[type]
+    const usedUpdate = markUsed ? `"${usedColumn}" = "${usedColumn}" + 1, ` : ""
+    await sharedContext.manager!.execute(
+      `UPDATE "${table}" SET ${usedUpdate}"reserved_count" = GREATEST("reserved_count" - 1, 0), "updated_at" = now() WHERE "id" = ?`,
+      [id]
+    )
+  }
+
+  /**
+   * Atomically move a reservation out of the "reserved" status
+   * Guards against two callers (e.g. remove + expiry job) both giving back the same use
+   * @returns true if this call made the transition
+   */
+  @InjectManager()
+  protected async closeReservation(
+    id: string,
+    status: "converted" | "released",
+    orderId: string | null,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<boolean> {
+    const rows = await sharedContext.manager!.execute(
+      `UPDATE "promo_reservation" SET "status" = ?, "order_id" = ?, "updated_at" = now()
+       WHERE "id" = ? AND "status" = 'reserved' RETURNING "id"`,
+      [status, orderId, id]
+    )
+    return rows.length > 0
+  }
+
+  /**
+   * Find the active reservation of a promo for a cart
+   */
+  private async getActiveReservation(
+    type: PromoReservationType,
+    promoId: string,
+    cartId: string
+  ): Promise<PromoReservationRecord | null> {
+    const [reservation] = await this.listPromoReservations(
+      { promo_type: type, promo_id: promoId, cart_id: cartId, status: "reserved" },
+      { take: 1 }
+    )
+    return reservation ?? null
+  }
+
+  private getReservationExpiry(): Date {
+    return new Date(Date.now() + PROMO_RESERVATION_TTL_MINUTES * 60 * 1000)
+  }
+
+  /**
+   * Reserve one use of a coupon or PWP rule for a cart
+   * Calling it again for the same cart extends the existing reservation.
+   * @returns The reservation, or null when the promo has no uses left
+   */
+  async reservePromo(
+    type: PromoReservationType,
+    promoId: string,
+    cartId: string
+  ): Promise<PromoReservationRecord | null> {
+    const existing = await this.getActiveReservation(type, promoId, cartId)
+    if (existing) {
+      return await this.updatePromoReservations({
+        id: existing.id,
+        expires_at: this.getReservationExpiry(),
+      })
+    }
+
+    const reserved = await this.incrementPromoReserved(type, promoId)
+    if (!reserved) {
+      return null
+    }
+
+    try {
+      return await this.createPromoReservations({
+        promo_type: type,
+        promo_id: promoId,
+        cart_id: cartId,
+        status: "reserved",
+        expires_at: this.getReservationExpiry(),
+      })
+    } catch (error) {
+      // Give the use back if the reservation row couldn't be written
+      await this.decrementPromoReserved(type, promoId, false)
+      throw error
+    }
+  }
+
+  /**
+   * Release a cart's reservation of a promo (promo removed from cart)
+   * @returns true if a reservation was released
+   */
+  async releasePromoReservation(
+    type: PromoReservationType,
+    promoId: string,
+    cartId: string
+  ): Promise<boolean> {
+    const reservation = await this.getActiveReservation(type, promoId, cartId)
+    if (!reservation) {
+      return false
+    }
+
+    const released = await this.closeReservation(reservation.id, "released", null)
+    if (released) {
+      await this.decrementPromoReserved(type, promoId, false)
+    }
+    return released
+  }
+
+  /**
+   * Convert a cart's reservation into a use when the order is placed
+   * Orders from carts without a reservation (e.g. applied before reservations
+   * existed, or released after going idle) only take a use while the promo
+   * is below its usage limit.
+   * @returns false when the order went over the promo's usage limit
+   */
+  async convertPromoReservation(
+    type: PromoReservationType,
+    promoId: string,
+    cartId: string | null,
+    orderId: string
+  ): Promise<boolean> {
+    const reservation = cartId
+      ? await this.getActiveReservation(type, promoId, cartId)
+      : null
+
+    const converted = reservation
+      ? await this.closeReservation(reservation.id, "converted", orderId)
+      : false
+
+    if (converted) {
+      await this.decrementPromoReserved(type, promoId, true)
+      return true
+    }
+    return this.incrementPromoUsageWithinLimit(type, promoId)
+  }
+
+  /**
+   * Give back the use a cancelled order took of a coupon or PWP rule
+   * The coupon redemption is removed from the ledger as well, so it stops
+   * counting towards the customer's per-customer limit
+   * @param usageCounted - false when the order went over the promo's usage
+   * limit, so no use was counted for it and there is none to give back
+   */
+  async restorePromoUsage(
+    type: PromoReservationType,
+    promoId: string,
+    orderId: string,
+    usageCounted: boolean = true
+  ): Promise<void> {
+    if (usageCounted) {
+      await this.decrementPromoUsage(type, promoId)
+    }
+
+    if (type === "coupon") {
+      const redemptions = await this.listCouponRedemptions(
+        { coupon_id: promoId, order_id: orderId },
+        { select: ["id"] }
+      )
+      if (redemptions.length > 0) {
+        await this.softDeleteCouponRedemptions(redemptions.map((r) => r.id))
+      }
+    }
+  }
+
+  /**
+   * Release reservations of carts that went idle past their expiry
+   * @returns Number of reservations released
+   */
+  async releaseExpiredPromoReservations(now: Date = new Date()): Promise<number> {
+    const expired = await this.listPromoReservations(
+      { status: "reserved", expires_at: { $lt: now } },
+      { take: 1000 }
+    )
+
+    let released = 0
+    for (const reservation of expired) {
+      if (await this.closeReservation(reservation.id, "released", null)) {
+        await this.decrementPromoReserved(
+          reservation.promo_type as PromoReservationType,
+          reservation.promo_id,
+          false
+        )
+        released++
+      }
+    }
+
+    return released
+  }
+
+  /**
+   * Count how many times a customer has redeemed a coupon
+   * Matches by customer_id when available, otherwise by email (guest checkout)
+   */
+  async countCustomerRedemptions(
+    couponId: string,
+    customer: { customer_id?: string | null; email?: string | null }
+  ): Promise<number> {
+    if (customer.customer_id) {
+      const [, count] = await this.listAndCountCouponRedemptions(
+        { coupon_id: couponId, customer_id: customer.customer_id },
+        { take: 1 }
+      )
+      return count
+    }
+
+    if (customer.email) {
+      const [, count] = await this.listAndCountCouponRedemptions(
+        { coupon_id: couponId, email: customer.email.toLowerCase() },
+        { take: 1 }
+      )
+      return count
+    }
+
+    return 0
+  }
+
+  /**
+   * Record a coupon redemption in the ledger
+   * Idempotent per coupon + order so a re-delivered order.placed event is harmless
+   */
+  async recordCouponRedemption(
+    data: CouponRedemptionData
+  ): Promise<CouponRedemptionType> {
+    const existing = await this.listCouponRedemptions(
+      { coupon_id: data.coupon_id, order_id: data.order_id },
+      { take: 1 }
+    )
+    if (existing[0]) {
+      return existing[0]
+    }
+
+    const redemption = await this.createCouponRedemptions({
+      coupon_id: data.coupon_id,
+      code: data.code,
+      customer_id: data.customer_id || null,
+      email: data.email ? data.email.toLowerCase() : null,
+      order_id: data.order_id,
+      discount_amount: data.discount_amount || 0,
+      currency_code: data.currency_code || "MYR",
     })
+    return redemption
+  }
+
+  /**
+   * Check customer-specific coupon restrictions
+   * (per-customer limit, first order only, customer group and tier eligibility).
+   * Global checks (status, dates, usage_limit) are done by the caller.
+   * @returns A customer-facing reason when the coupon can't be used, otherwise null
+   */
+  async getCouponEligibilityError(
+    coupon: CouponType,
+    context: CouponCustomerContext
+  ): Promise<string | null> {
+    const eligibleGroups = (coupon.eligible_customer_groups as unknown as string[] | null) || []
+    const eligibleTiers = (coupon.eligible_tier_slugs as unknown as string[] | null) || []
+
+    const needsIdentity =
+      coupon.customer_id !== null ||
+      coupon.per_customer_limit !== null ||
+      coupon.first_order_only ||
+      eligibleGroups.length > 0 ||
+      eligibleTiers.length > 0
+
+    if (needsIdentity && !context.customer_id && !context.email) {
+      return "Please sign in or enter your email to use this coupon"
+    }
+
+    if (coupon.customer_id && coupon.customer_id !== context.customer_id) {
+      return "This coupon belongs to another account"
+    }
+
+    if (eligibleGroups.length > 0) {
+      if (!context.customer_group || !eligibleGroups.includes(context.customer_group)) {
+        return "This coupon is not available for your account type"
+      }
+    }
+
+    if (eligibleTiers.length > 0) {
+      if (!context.tier_slug || !eligibleTiers.includes(context.tier_slug)) {
+        return "This coupon is only available for selected membership tiers"
+      }
+    }
+
+    if (coupon.first_order_only) {
+      if (context.previous_order_count === null) {
+        return "We couldn't verify your order history, please try again"
+      }
+      if (context.previous_order_count > 0) {
+        return "This coupon is only valid on your first order"
+      }
+    }
+
+    if (coupon.per_customer_limit !== null) {
+      const used = await this.countCustomerRedemptions(coupon.id, context)
+      if (used >= coupon.per_customer_limit) {
+        return "You have already used this coupon the maximum number of times"
+      }
+    }
+
+    return null
+  }
+
+  /**
+   * Issue a member's birthday voucher - a personal single-use fixed amount
+   * coupon valid for the whole birthday month
+   * This year's voucher is returned again (is_new false) while its email hasn't
+   * gone out and it is still valid, so a failed email is retried on the next run
+   * @returns The voucher, or null if this year's voucher was already issued and emailed
+   */
+  async issueBirthdayVoucher(
+    data: BirthdayVoucherData
+  ): Promise<{ voucher: BirthdayVoucherRecord; coupon: CouponType; is_new: boolean } | null> {
+    const [existing] = await this.listBirthdayVouchers(
+      { customer_id: data.customer_id, year: data.year },
+      { take: 1 }
+    )
+    if (existing) {
+      if (existing.email_sent_at || new Date(existing.valid_until) < new Date()) return null
+      const coupon = await this.retrieveCoupon(existing.coupon_id)
+      return { voucher: existing, coupon, is_new: false }
+    }
+
+    const validFrom = new Date(data.year, data.birthday_month - 1, 1)
+    const validUntil = new Date(data.year, data.birthday_month, 0, 23, 59, 59, 999)
+    const [code] = await this.generateUniqueCodes(
+      BIRTHDAY_VOUCHER_PREFIX,
+      BIRTHDAY_VOUCHER_CODE_LENGTH,
+      BIRTHDAY_VOUCHER_ALPHABET,
+      1
+    )
+
+    const coupon = await this.createCoupon({
+      code,
+      name: `${data.tier_name} Birthday Voucher ${data.year}`,
+      type: "fixed",
+      value: data.amount,
+      currency_code: data.currency_code || "MYR",
+      status: "active",
+      starts_at: validFrom,
+      ends_at: validUntil,
+      usage_limit: 1,
+      per_customer_limit: 1,
+      customer_id: data.customer_id,
+      metadata: { birthday_voucher: true },
+    })
+
+    const voucher = await this.createBirthdayVouchers({
+      customer_id: data.customer_id,
+      coupon_id: coupon.id,
+      code,
+      tier_slug: data.tier_slug,
+      amount: data.amount,
+      currency_code: data.currency_code || "MYR",
+      year: data.year,
+      valid_from: validFrom,
+      valid_until: validUntil,
+    })
+
+    return { voucher, coupon, is_new: true }
+  }
+
+  /**
+   * Birthday vouchers issued in a year and how many were redeemed
+   */
+  async getBirthdayVoucherReport(year: number): Promise<BirthdayVoucherReport> {
+    const vouchers = await this.listBirthdayVouchers(
+      { year },
+      { order: { created_at: "DESC" } }
+    )
+
+    const coupons = vouchers.length > 0
+      ? await this.listCoupons(
+        { id: vouchers.map((v) => v.coupon_id) },
+        { select: ["id", "usage_count"], withDeleted: true }
+      )
+      : []
+    const redeemedCouponIds = new Set(
+      coupons.filter((c) => (c.usage_count || 0) > 0).map((c) => c.id)
+    )
+
+    const entries: BirthdayVoucherReportEntry[] = vouchers.map((voucher) => ({
+      id: voucher.id,
+      customer_id: voucher.customer_id,
+      code: voucher.code,
+      tier_slug: voucher.tier_slug,
+      amount: voucher.amount,
+      currency_code: voucher.currency_code,
+      valid_from: voucher.valid_from,
+      valid_until: voucher.valid_until,
+      email_sent_at: voucher.email_sent_at,
+      redeemed: redeemedCouponIds.has(voucher.coupon_id),
+      created_at: voucher.created_at,
+    }))
+
+    const tiers = new Map<string, { tier_slug: string; issued: number; redeemed: number }>()
+    for (const entry of entries) {
+      const tier = tiers.get(entry.tier_slug) || { tier_slug: entry.tier_slug, issued: 0, redeemed: 0 }
+      tier.issued++
+      if (entry.redeemed) tier.redeemed++
+      tiers.set(entry.tier_slug, tier)
+    }
+
+    const redeemed = entries.filter((e) => e.redeemed)
+
+    return {
+      year,
+      issued: entries.length,
+      redeemed: redeemed.length,
+      issued_amount: entries.reduce((sum, e) => sum + e.amount, 0),
+      redeemed_amount: redeemed.reduce((sum, e) => sum + e.amount, 0),
+      by_tier: Array.from(tiers.values()),
+      vouchers: entries,
+    }
   }
 
   /**
@@ -123,7 +1083,7 @@ class PromoModuleService extends MedusaService({
    * Note: timestamps are auto-managed by MikroORM
    */
   async createPWPRule(data: PWPRuleData): Promise<PWPRuleType> {
-    const rule = await this.createPWPRules(data)
+    const rule = await this.createPWPRules(this.toPWPRuleRecord(data))
     return rule
   }
 
@@ -136,11 +1096,33 @@ class PromoModuleService extends MedusaService({
   ): Promise<PWPRuleType> {
     const rule = await this.updatePWPRules({
       id,
-      ...data,
+      ...this.toPWPRuleRecord(data),
     })
     return rule
   }
 
+  /**
+   * Product lists and reward tiers are stored as JSON arrays
+   * Empty lists are stored as null, tiers are kept sorted by threshold
+   */
+  private toPWPRuleRecord(data: Partial<PWPRuleData>): Record<string, unknown> {
+    const record: Record<string, unknown> = { ...data }
+    for (const field of PWP_LIST_FIELDS) {
+      const list = data[field]
+      if (list !== undefined) {
+        record[field] = list && list.length > 0
+          ? (list as unknown as Record<string, unknown>)
+          : null
+      }
+    }
+    if (data.reward_tiers && data.reward_tiers.length > 0) {
+      record.reward_tiers = [...data.reward_tiers].sort(
+        (a, b) => a.min_cart_value - b.min_cart_value
+      ) as unknown as Record<string, unknown>
+    }
+    return record
+  }
+
   /**
    * Soft delete a PWP rule
    */
@@ -150,13 +1132,389 @@ class PromoModuleService extends MedusaService({
 
   /**
    * Increment PWP rule redemption count
+   * Done atomically in the database so concurrent orders can't lose updates
    */
   async incrementPWPRedemption(id: string): Promise<void> {
-    const rule = await this.retrievePWPRule(id)
-    await this.updatePWPRules({
+    await this.incrementPromoUsage("pwp", id)
+  }
+
+  /**
+   * Create an automatic promotion
+   * Note: timestamps are auto-managed by MikroORM
+   */
+  async createAutoPromotion(data: AutoPromotionData): Promise<AutoPromotionRecord> {
+    const promotion = await this.createAutoPromotions(this.toAutoPromotionRecord(data))
+    return promotion
+  }
+
+  /**
+   * Update an automatic promotion
+   */
+  async updateAutoPromotion(
+    id: string,
+    data: Partial<AutoPromotionData>
+  ): Promise<AutoPromotionRecord> {
+    const promotion = await this.updateAutoPromotions({
       id,
-      redemption_count: (rule.redemption_count || 0) + 1,
+      ...this.toAutoPromotionRecord(data),
     })
+    return promotion
+  }
+
+  /**
+   * Product and category scoping is stored as JSON arrays
+   * Empty lists are stored as null (= all items)
+   */
+  private toAutoPromotionRecord(data: Partial<AutoPromotionData>): Record<string, unknown> {
+    const record: Record<string, unknown> = { ...data }
+    for (const field of AUTO_PROMOTION_LIST_FIELDS) {
+      const list = data[field]
+      if (list !== undefined) {
+        record[field] = list && list.length > 0
+          ? (list as unknown as Record<string, unknown>)
+          : null
+      }
+    }
+    return record
+  }
+
+  /**
+   * Soft delete an automatic promotion
+   */
+  async deleteAutoPromotion(id: string): Promise<void> {
+    await this.softDeleteAutoPromotions([id])
+  }
+
+  /**
+   * Active automatic promotions within their validity window, highest priority first
+   */
+  async listRunningAutoPromotions(now: Date = new Date()): Promise<AutoPromotionRecord[]> {
+    const promotions = await this.listAutoPromotions(
+      { status: "active" },
+      { order: { priority: "DESC", created_at: "ASC" } }
+    )
+
+    return promotions.filter((promotion) => {
+      if (promotion.starts_at && new Date(promotion.starts_at) > now) return false
+      if (promotion.ends_at && new Date(promotion.ends_at) < now) return false
+      return true
+    })
+  }
+
+  /**
+   * Evaluate the running automatic promotions against a cart
+   *
+   * Stacking rules:
+   * 1. PWP items are already discounted - they never count towards a promotion
+   *    and never receive an automatic discount
+   * 2. A promotion is skipped while the cart has a coupon, PWP item, membership
+   *    promo or points redemption it doesn't combine with
+   * 3. Promotions are evaluated by priority. An exclusive promotion only applies
+   *    when no other promotion did, and blocks every promotion after it
+   * 4. A line gets at most one item-level promotion (buy X get Y, category sale).
+   *    Spend thresholds apply on top, to what is left of the qualifying lines
+   * 5. Thresholds are checked against the qualifying subtotal before discounts,
+   *    the same way coupon minimum spends are
+   * 6. No line is discounted below zero - coupons, PWP, points and membership
+   *    promo adjustments on a line are taken into account
+   */
+  async evaluateAutoPromotions(
+    context: AutoPromotionCartContext,
+    now: Date = new Date()
+  ): Promise<AutoPromotionEvaluation> {
+    const promotions = await this.listRunningAutoPromotions(now)
+
+    const evaluation: AutoPromotionEvaluation = {
+      applied: [],
+      not_applied: [],
+      allocations: [],
+      discount_total: 0,
+      free_shipping: false,
+    }
+
+    const hasPWPItems = context.items.some((item) => item.is_pwp_item)
+    const remaining = new Map(
+      context.items.map((item) => [
+        item.id,
+        Math.max(0, item.unit_price * item.quantity - item.other_discount),
+      ])
+    )
+    const itemLevelDiscounted = new Set<string>()
+    let exclusiveApplied: string | null = null
+
+    for (const promotion of promotions) {
+      const skip = (reason: string): void => {
+        evaluation.not_applied.push({
+          promotion_id: promotion.id,
+          name: promotion.name,
+          type: promotion.type as AutoPromotionType,
+          reason,
+        })
+      }
+
+      if (exclusiveApplied) {
+        skip(`Can't be combined with ${exclusiveApplied}`)
+        continue
+      }
+      if (context.has_coupon && !promotion.combine_with_coupons) {
+        skip("Can't be combined with a coupon code")
+        continue
+      }
+      if (hasPWPItems && !promotion.combine_with_pwp) {
+        skip("Can't be combined with Purchase with Purchase offers")
+        continue
+      }
+      if (context.has_membership_promo && !promotion.combine_with_membership_promos) {
+        skip("Can't be combined with membership promotions")
+        continue
+      }
+      if (context.has_points && !promotion.combine_with_points) {
+        skip("Can't be combined with a points redemption")
+        continue
+      }
+
+      const qualifyingItems = context.items.filter(
+        (item) => !item.is_pwp_item && this.isInAutoPromotionScope(promotion, item)
+      )
+      const outcome = this.evaluateAutoPromotion(promotion, qualifyingItems, remaining, itemLevelDiscounted)
+
+      if ("reason" in outcome) {
+        skip(outcome.reason)
+        continue
+      }
+
+      if (promotion.exclusive && evaluation.applied.length > 0) {
+        skip("Can't be combined with other promotions in your cart")
+        continue
+      }
+
+      const discountAmount = outcome.allocations.reduce((sum, a) => sum + a.amount, 0)
+      for (const allocation of outcome.allocations) {
+        remaining.set(allocation.item_id, (remaining.get(allocation.item_id) || 0) - allocation.amount)
+        if (promotion.type === "buy_x_get_y" || promotion.type === "category_sale") {
+          itemLevelDiscounted.add(allocation.item_id)
+        }
+        evaluation.allocations.push({ ...allocation, promotion_id: promotion.id })
+      }
+
+      evaluation.applied.push({
+        promotion_id: promotion.id,
+        name: promotion.name,
+        type: promotion.type as AutoPromotionType,
+        discount_amount: discountAmount,
+        free_shipping: outcome.free_shipping,
+        message: promotion.description
+          ? `${promotion.description} - ${outcome.message}`
+          : outcome.message,
+      })
+      evaluation.discount_total += discountAmount
+      evaluation.free_shipping = evaluation.free_shipping || outcome.free_shipping
+
+      if (promotion.exclusive) {
+        exclusiveApplied = promotion.name
+      }
+    }
+
+    return evaluation
+  }
+
+  /**
+   * Whether a cart line falls within a promotion's product/category scope
+   * Each list that is set must be satisfied
+   */
+  private isInAutoPromotionScope(
+    promotion: AutoPromotionRecord,
+    item: AutoPromotionCartItem
+  ): boolean {
+    const productIds = (promotion.product_ids as unknown as string[] | null) || []
+    const categoryIds = (promotion.category_ids as unknown as string[] | null) || []
+
+    if (productIds.length > 0 && (!item.product_id || !productIds.includes(item.product_id))) {
+      return false
+    }
+    if (categoryIds.length > 0 && !item.category_ids.some((id) => categoryIds.includes(id))) {
+      return false
+    }
+    return true
+  }
+
+  /**
+   * Evaluate a single promotion against its qualifying lines
+   * @param remaining - Value left on each line after earlier discounts
+   * @param itemLevelDiscounted - Lines that already received an item-level promotion
+   */
+  private evaluateAutoPromotion(
+    promotion: AutoPromotionRecord,
+    items: AutoPromotionCartItem[],
+    remaining: Map<string, number>,
+    itemLevelDiscounted: Set<string>
+  ): AutoPromotionOutcome {
+    const subtotal = items.reduce((sum, item) => sum + item.unit_price * item.quantity, 0)
+    const minSubtotal = promotion.min_subtotal || 0
+
+    if (items.length === 0) {
+      return { reason: "No qualifying items in your cart" }
+    }
+    if (subtotal < minSubtotal) {
+      return {
+        reason: `Spend ${formatAmount(minSubtotal - subtotal)} more on qualifying items to unlock this promotion`,
+      }
+    }
+
+    switch (promotion.type) {
+      case "free_shipping":
+        return {
+          allocations: [],
+          free_shipping: true,
+          message: minSubtotal > 0
+            ? `Free shipping - your qualifying subtotal of ${formatAmount(subtotal)} reached ${formatAmount(minSubtotal)}`
+            : "Free shipping on this order",
+        }
+
+      case "buy_x_get_y":
+        return this.evaluateBuyXGetY(
+          promotion,
+          items.filter((item) => !itemLevelDiscounted.has(item.id)),
+          remaining
+        )
+
+      case "category_sale": {
+        const saleItems = items.filter((item) => !itemLevelDiscounted.has(item.id))
+        if (saleItems.length === 0) {
+          return { reason: "Qualifying items already have a better promotion" }
+        }
+
+        const raw = saleItems.map((item) => ({
+          item_id: item.id,
+          amount: promotion.discount_type === "percentage"
+            ? Math.round((item.unit_price * item.quantity * promotion.discount_value) / 100)
+            : promotion.discount_value * item.quantity,
+        }))
+        const allocations = this.capAutoPromotionAllocations(promotion, raw, remaining)
+        if (allocations.length === 0) {
+          return { reason: "Qualifying items are already fully discounted" }
+        }
+
+        const units = saleItems.reduce((sum, item) => sum + item.quantity, 0)
+        const discountLabel = promotion.discount_type === "percentage"
+          ? `${promotion.discount_value}% off`
+          : `${formatAmount(promotion.discount_value)} off each`
+        return {
+          allocations,
+          free_shipping: false,
+          message: `${discountLabel} ${units} sale item(s) in your cart`,
+        }
+      }
+
+      case "spend_threshold":
+      default: {
+        const remainingValue = items.reduce((sum, item) => sum + (remaining.get(item.id) || 0), 0)
+        let discountAmount = promotion.discount_type === "percentage"
+          ? Math.round((remainingValue * promotion.discount_value) / 100)
+          : promotion.discount_value
+        if (promotion.max_discount_amount) {
+          discountAmount = Math.min(discountAmount, promotion.max_discount_amount)
+        }
+        discountAmount = Math.min(discountAmount, remainingValue)
+
+        if (discountAmount <= 0) {
+          return { reason: "Qualifying items are already fully discounted" }
+        }
+
+        // Spread over the qualifying lines by what is left on each of them
+        const allocations = allocateCouponDiscount(
+          items.map((item) => ({ id: item.id, unit_price: remaining.get(item.id) || 0, quantity: 1 })),
+          discountAmount
+        )
+        return {
+          allocations,
+          free_shipping: false,
+          message: minSubtotal > 0
+            ? `Your qualifying subtotal of ${formatAmount(subtotal)} reached ${formatAmount(minSubtotal)}`
+            : "Applied to all qualifying items",
+        }
+      }
+    }
+  }
+
+  /**
+   * Buy X get Y - units are grouped most expensive first, and the cheapest
+   * Y units of every full group of X + Y are discounted
+   */
+  private evaluateBuyXGetY(
+    promotion: AutoPromotionRecord,
+    items: AutoPromotionCartItem[],
+    remaining: Map<string, number>
+  ): AutoPromotionOutcome {
+    const buy = promotion.buy_quantity || 1
+    const get = promotion.get_quantity || 1
+    const groupSize = buy + get
+
+    const units = items
+      .flatMap((item) => Array.from({ length: item.quantity }, () => ({ item_id: item.id, price: item.unit_price })))
+      .sort((a, b) => b.price - a.price)
+
+    const isFree = promotion.discount_type === "percentage" && promotion.discount_value >= 100
+    const rewardLabel = isFree
+      ? "free"
+      : promotion.discount_type === "percentage"
+        ? `at ${promotion.discount_value}% off`
+        : `at ${formatAmount(promotion.discount_value)} off`
+
+    const groups = Math.floor(units.length / groupSize)
+    if (groups === 0) {
+      return {
+        reason: `Add ${groupSize - units.length} more qualifying item(s) to get ${get} ${rewardLabel}`,
+      }
+    }
+
+    const rewardUnits = units.slice(units.length - groups * get)
+    const amounts = new Map<string, number>()
+    for (const unit of rewardUnits) {
+      const discount = promotion.discount_type === "percentage"
+        ? Math.round((unit.price * Math.min(promotion.discount_value, 100)) / 100)
+        : Math.min(promotion.discount_value, unit.price)
+      amounts.set(unit.item_id, (amounts.get(unit.item_id) || 0) + discount)
+    }
+
+    const allocations = this.capAutoPromotionAllocations(
+      promotion,
+      Array.from(amounts.entries()).map(([item_id, amount]) => ({ item_id, amount })),
+      remaining
+    )
+    if (allocations.length === 0) {
+      return { reason: "Qualifying items are already fully discounted" }
+    }
+
+    return {
+      allocations,
+      free_shipping: false,
+      message: `Buy ${buy} get ${get} ${rewardLabel} - ${rewardUnits.length} item(s) discounted`,
+    }
+  }
+
+  /**
+   * Keep per-line amounts within what is left on each line, then apply the
+   * promotion's max discount cap proportionally
+   */
+  private capAutoPromotionAllocations(
+    promotion: AutoPromotionRecord,
+    allocations: Array<{ item_id: string; amount: number }>,
+    remaining: Map<string, number>
+  ): Array<{ item_id: string; amount: number }> {
+    const capped = allocations
+      .map((a) => ({ item_id: a.item_id, amount: Math.min(a.amount, remaining.get(a.item_id) || 0) }))
+      .filter((a) => a.amount > 0)
+
+    const total = capped.reduce((sum, a) => sum + a.amount, 0)
+    if (!promotion.max_discount_amount || total <= promotion.max_discount_amount) {
+      return capped
+    }
+
+    return allocateCouponDiscount(
+      capped.map((a) => ({ id: a.item_id, unit_price: a.amount, quantity: 1 })),
+      promotion.max_discount_amount
+    )
   }
 }
 
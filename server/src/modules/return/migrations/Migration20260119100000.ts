@@ -0,0 +1,22 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260119100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Add customer photo evidence and who opened the return
+    this.addSql(`
+      ALTER TABLE "return_request"
+      ADD COLUMN IF NOT EXISTS "evidence_urls" jsonb NULL,
+      ADD COLUMN IF NOT EXISTS "requested_by" text check ("requested_by" in ('admin', 'customer')) NOT NULL DEFAULT 'admin';
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`
+      ALTER TABLE "return_request"
+      DROP COLUMN IF EXISTS "evidence_urls",
+      DROP COLUMN IF EXISTS "requested_by";
+    `);
+  }
+
+}
@@ -0,0 +1,95 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260120100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Refund transactions - a return can be refunded in parts, to card or store credit
+    this.addSql(`create table if not exists "return_refund" (
+      "id" text not null,
+      "return_id" text not null,
+      "order_id" text not null,
+      "method" text check ("method" in ('card', 'store_credit')) not null,
+      "amount" numeric not null,
+      "status" text check ("status" in ('pending', 'completed', 'failed')) not null default 'pending',
+      "stripe_refund_id" text null,
+      "points_credited" integer null,
+      "note" text null,
+      "failure_reason" text null,
+      "created_by" text null,
+      "processed_at" timestamptz null,
+      "created_at" timestamptz not null default now(),
+      "updated_at" timestamptz not null default now(),
+      "deleted_at" timestamptz null,
+      constraint "return_refund_pkey" primary key ("id")
+    );`);
+
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_return_refund_return_id" ON "return_refund" (return_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_return_refund_order_id" ON "return_refund" (order_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_return_refund_deleted_at" ON "return_refund" (deleted_at) WHERE deleted_at IS NULL;`);
+
+    this.addSql(`
+      ALTER TABLE "return_request"
+      ADD COLUMN IF NOT EXISTS "refunded_amount" numeric NOT NULL DEFAULT 0,
+      ADD COLUMN IF NOT EXISTS "original_refund_amount" numeric NULL,
+      ADD COLUMN IF NOT EXISTS "refund_adjustment_reason" text NULL;
+    `);
+
+    // Returns refunded before this migration were refunded in full, to card
+    this.addSql(`
+      UPDATE "return_request"
+      SET "refunded_amount" = "total_refund"
+      WHERE "refund_status" = 'completed';
+    `);
+
+    this.addSql(`
+      INSERT INTO "return_refund" ("id", "return_id", "order_id", "method", "amount", "status", "stripe_refund_id", "processed_at", "created_at", "updated_at")
+      SELECT 'retref_' || r."id", r."id", r."order_id", 'card', r."total_refund", 'completed', r."stripe_refund_id", r."refunded_at", COALESCE(r."refunded_at", now()), now()
+      FROM "return_request" r
+      WHERE r."refund_status" = 'completed' AND r."deleted_at" IS NULL
+      ON CONFLICT ("id") DO NOTHING;
+    `);
+
+    this.addSql(`ALTER TABLE "return_request" DROP CONSTRAINT IF EXISTS "return_request_return_type_check";`);
+    this.addSql(`
+      ALTER TABLE "return_request"
+      ADD CONSTRAINT "return_request_return_type_check"
+      CHECK ("return_type" IN ('refund', 'store_credit', 'replacement'));
+    `);
+
+    this.addSql(`ALTER TABLE "return_request" DROP CONSTRAINT IF EXISTS "return_request_refund_status_check";`);
+    this.addSql(`
+      ALTER TABLE "return_request"
+      ADD CONSTRAINT "return_request_refund_status_check"
+      CHECK ("refund_status" IN ('pending', 'processing', 'partially_refunded', 'completed', 'failed'));
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`UPDATE "return_request" SET "refund_status" = 'pending' WHERE "refund_status" = 'partially_refunded';`);
+    this.addSql(`UPDATE "return_request" SET "return_type" = 'refund' WHERE "return_type" = 'store_credit';`);
+
+    this.addSql(`ALTER TABLE "return_request" DROP CONSTRAINT IF EXISTS "return_request_refund_status_check";`);
+    this.addSql(`
+      ALTER TABLE "return_request"
+      ADD CONSTRAINT "return_request_refund_status_check"
+      CHECK ("refund_status" IN ('pending', 'processing', 'completed', 'failed'));
+    `);
+
+    this.addSql(`ALTER TABLE "return_request" DROP CONSTRAINT IF EXISTS "return_request_return_type_check";`);
+    this.addSql(`
+      ALTER TABLE "return_request"
+      ADD CONSTRAINT "return_request_return_type_check"
+      CHECK ("return_type" IN ('refund', 'replacement'));
+    `);
+
+    this.addSql(`
+      ALTER TABLE "return_request"
+      DROP COLUMN IF EXISTS "refunded_amount",
+      DROP COLUMN IF EXISTS "original_refund_amount",
+      DROP COLUMN IF EXISTS "refund_adjustment_reason";
+    `);
+
+    this.addSql(`drop table if exists "return_refund" cascade;`);
+  }
+
+}
@@ -0,0 +1,39 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260121100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Per-item inspection outcomes, restocking and write-offs of returns
+    this.addSql(`create table if not exists "return_inspection" (
+      "id" text not null,
+      "return_id" text not null,
+      "order_id" text not null,
+      "item_id" text not null,
+      "variant_id" text null,
+      "product_name" text not null,
+      "quantity" integer not null,
+      "result" text check ("result" in ('resellable', 'damaged', 'spoiled')) not null,
+      "restocked_quantity" integer not null default 0,
+      "stock_location_id" text null,
+      "inventory_item_id" text null,
+      "write_off_amount" numeric not null default 0,
+      "photo_urls" jsonb null,
+      "notes" text null,
+      "inspected_by" text null,
+      "inspected_at" timestamptz not null,
+      "created_at" timestamptz not null default now(),
+      "updated_at" timestamptz not null default now(),
+      "deleted_at" timestamptz null,
+      constraint "return_inspection_pkey" primary key ("id")
+    );`);
+
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_return_inspection_return_id" ON "return_inspection" (return_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_return_inspection_inspected_at" ON "return_inspection" (inspected_at) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_return_inspection_deleted_at" ON "return_inspection" (deleted_at) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "return_inspection" cascade;`);
+  }
+
+}
@@ -0,0 +1,27 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260203100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Refund amount held by in-flight transactions, so two refunds can't both
+    // take the same remaining amount
+    this.addSql(`ALTER TABLE "return_request" ADD COLUMN IF NOT EXISTS "pending_refund_amount" integer NOT NULL DEFAULT 0;`);
+
+    this.addSql(`
+      UPDATE "return_request" AS r
+      SET "pending_refund_amount" = p."amount"
+      FROM (
+        SELECT "return_id", SUM("amount")::integer AS "amount"
+        FROM "return_refund"
+        WHERE "status" = 'pending' AND "deleted_at" IS NULL
+        GROUP BY "return_id"
+      ) AS p
+      WHERE r."id" = p."return_id";
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`ALTER TABLE "return_request" DROP COLUMN IF EXISTS "pending_refund_amount";`);
+  }
+
+}
@@ -0,0 +1,22 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260206100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // When the order's points were adjusted for the return, claimed by the
+    // first refund so concurrent refunds can't both adjust them
+    this.addSql(`ALTER TABLE "return_request" ADD COLUMN IF NOT EXISTS "points_adjusted_at" timestamptz NULL;`);
+
+    // Returns refunded so far had their points adjusted with the first refund
+    this.addSql(`
+      UPDATE "return_request"
+      SET "points_adjusted_at" = COALESCE("refunded_at", "updated_at")
+      WHERE "refunded_amount" > 0 AND "points_adjusted_at" IS NULL;
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`ALTER TABLE "return_request" DROP COLUMN IF EXISTS "points_adjusted_at";`);
+  }
+
+}
@@ -0,0 +1,35 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * ReturnInspection Model
+ * Inspection outcome for one returned item of a return request
+ * Records whether the item goes back on the shelf and what was written off
+ */
+const ReturnInspection = model.define("return_inspection", {
+  id: model.id().primaryKey(),
+  return_id: model.text(),         // Links to return_request.id
+  order_id: model.text(),          // Links to Medusa's order.id
+  item_id: model.text(),           // Order line item ID from return_request.items
+  variant_id: model.text().nullable(),
+  product_name: model.text(),
+  quantity: model.number(),        // Units inspected
+
+  result: model.enum([
+    "resellable",    // Sealed and still frozen, can be sold again
+    "damaged",       // Packaging or product damaged
+    "spoiled"        // Thawed or spoiled, must be discarded
+  ]),
+
+  // Restock decision
+  restocked_quantity: model.number().default(0),         // Units added back to inventory
+  stock_location_id: model.text().nullable(),            // Location the units were restocked at
+  inventory_item_id: model.text().nullable(),
+
+  write_off_amount: model.bigNumber().default(0),        // Value of discarded units in cents
+  photo_urls: model.json().nullable(),                   // JSON array of inspection photo URLs
+  notes: model.text().nullable(),
+  inspected_by: model.text().nullable(),                 // Admin user ID
+  inspected_at: model.dateTime(),
+})
+
+export default ReturnInspection
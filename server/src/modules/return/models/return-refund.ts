@@ -0,0 +1,34 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * ReturnRefund Model
+ * One refund transaction issued against a return request
+ * A return can be refunded in several transactions, split between the
+ * customer's card and store credit (points)
+ */
+const ReturnRefund = model.define("return_refund", {
+  id: model.id().primaryKey(),
+  return_id: model.text(),         // Links to return_request.id
+  order_id: model.text(),          // Links to Medusa's order.id
+
+  method: model.enum([
+    "card",          // Refunded to the original payment through Stripe
+    "store_credit"   // Credited to the customer's points balance
+  ]),
+  amount: model.bigNumber(),       // Amount in cents
+
+  status: model.enum([
+    "pending",       // Created, not yet sent to Stripe / the points ledger
+    "completed",     // Money or points issued
+    "failed"         // Issuing failed, see failure_reason
+  ]).default("pending"),
+
+  stripe_refund_id: model.text().nullable(),       // Set for card refunds
+  points_credited: model.number().nullable(),      // Set for store credit refunds
+  note: model.text().nullable(),                   // Admin note for this transaction
+  failure_reason: model.text().nullable(),
+  created_by: model.text().nullable(),             // Admin user ID
+  processed_at: model.dateTime().nullable(),
+})
+
+export default ReturnRefund
@@ -3,7 +3,7 @@ import { model } from "@medusajs/framework/utils"
 /**
  * ReturnRequest Model
  * Tracks return requests and their lifecycle from request to completion
- * Supports both refund and replacement return types
+ * Supports refund, store credit and replacement return types
  * Named "return_request" to avoid conflicts with Medusa's built-in Return module
  */
 const Return = model.define("return_request", {
@@ -13,7 +13,7 @@ const Return = model.define("return_request", {
 
   // Return status lifecycle
   status: model.enum([
-    "requested",     // Admin created return request
+    "requested",     // Return requested by the customer or created by an admin
     "approved",      // Return approved, awaiting product
     "rejected",      // Return rejected
     "in_transit",    // Customer shipped product back
@@ -26,6 +26,7 @@ const Return = model.define("return_request", {
   // Return type
   return_type: model.enum([
     "refund",        // Money back
+    "store_credit",  // Refund into the customer's points balance
     "replacement"    // Send new product
   ]).default("refund"),
 
@@ -39,6 +40,15 @@ const Return = model.define("return_request", {
   ]),
   reason_details: model.text().nullable(),
 
+  // Photo evidence uploaded by the customer (JSON array of file URLs)
+  evidence_urls: model.json().nullable(),
+
+  // Who opened the return
+  requested_by: model.enum([
+    "admin",         // Created from the admin panel
+    "customer"       // Requested from the storefront
+  ]).default("admin"),
+
   // Items being returned (JSON array)
   // Format: [{item_id, variant_id, product_name, quantity, unit_price}]
   items: model.json(),
@@ -47,6 +57,12 @@ const Return = model.define("return_request", {
   refund_amount: model.bigNumber().default(0),      // Product refund in cents
   shipping_refund: model.bigNumber().default(0),    // Shipping refund (if seller pays)
   total_refund: model.bigNumber().default(0),       // Total refund amount
+  refunded_amount: model.bigNumber().default(0),    // Sum of completed refund transactions
+  pending_refund_amount: model.number().default(0), // Sum of refund transactions started but not yet completed or failed
+
+  // Admin edit of the refund amount (e.g. items thawed but still usable)
+  original_refund_amount: model.bigNumber().nullable(),   // Product refund before the first edit
+  refund_adjustment_reason: model.text().nullable(),
 
   // Original order discount information (for display purposes)
   original_order_total: model.bigNumber().default(0),     // Original order gross total
@@ -75,11 +91,13 @@ const Return = model.define("return_request", {
   refund_status: model.enum([
     "pending",       // Awaiting refund
     "processing",    // Processing with payment gateway
+    "partially_refunded", // Part of total_refund issued, more to follow
     "completed",     // Refund issued
     "failed"         // Refund failed
   ]).nullable(),
-  stripe_refund_id: model.text().nullable(),
+  stripe_refund_id: model.text().nullable(),       // Latest card refund, see return_refund for all
   refunded_at: model.dateTime().nullable(),
+  points_adjusted_at: model.dateTime().nullable(),  // Order points adjusted for the return, once
 
   // Replacement order info (for return_type: "replacement")
   replacement_order_id: model.text().nullable(),    // Links to new replacement order
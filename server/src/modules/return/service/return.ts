@@ -1,10 +1,22 @@
-import { MedusaService, MedusaError } from "@medusajs/framework/utils"
+import {
+  InjectManager,
+  InjectTransactionManager,
+  MedusaContext,
+  MedusaService,
+  MedusaError,
+} from "@medusajs/framework/utils"
+import type { Context } from "@medusajs/framework/types"
+import type { EntityManager } from "@mikro-orm/knex"
 import Return from "../models/return"
+import ReturnRefund from "../models/return-refund"
+import ReturnInspection from "../models/return-inspection"
 
 type ReturnStatus = "requested" | "approved" | "rejected" | "in_transit" | "received" | "inspecting" | "completed" | "cancelled"
-type ReturnType = "refund" | "replacement"
+type ReturnType = "refund" | "store_credit" | "replacement"
 type ReturnReason = "defective" | "wrong_item" | "not_as_described" | "changed_mind" | "other"
-type RefundStatus = "pending" | "processing" | "completed" | "failed"
+type RefundStatus = "pending" | "processing" | "partially_refunded" | "completed" | "failed"
+type RefundMethod = "card" | "store_credit"
+type InspectionResult = "resellable" | "damaged" | "spoiled"
 
 type ReturnItem = {
   item_id: string
@@ -20,10 +32,55 @@ type CreateReturnInput = {
   return_type: ReturnType
   reason: ReturnReason
   reason_details?: string
+  evidence_urls?: string[]
+  requested_by?: "admin" | "customer"
   items: ReturnItem[]
   refund_amount: number
   shipping_refund?: number
   admin_notes?: string
+  // Original order discount info
+  original_order_total?: number
+  coupon_code?: string | null
+  coupon_discount?: number
+  points_redeemed?: number
+  points_discount?: number
+  pwp_discount?: number
+}
+
+type AdjustRefundAmountInput = {
+  refund_amount: number // New product refund in cents, shipping refund is kept
+  reason: string
+}
+
+type StartRefundInput = {
+  method: RefundMethod
+  amount: number // in cents
+  note?: string
+  created_by?: string
+}
+
+type CompleteRefundInput = {
+  stripe_refund_id?: string
+  points_credited?: number
+}
+
+type RecordInspectionInput = {
+  item_id: string
+  quantity: number
+  result: InspectionResult
+  restocked_quantity: number
+  stock_location_id?: string | null
+  inventory_item_id?: string | null
+  write_off_amount: number // in cents
+  photo_urls?: string[]
+  notes?: string
+  inspected_by?: string
+}
+
+type InspectionTotals = {
+  units: number
+  restocked_units: number
+  write_off: number
 }
 
 type InjectedDependencies = {
@@ -36,6 +93,8 @@ type InjectedDependencies = {
  */
 class ReturnService extends MedusaService({
   Return,
+  ReturnRefund,
+  ReturnInspection,
 }) {
   protected logger: any
 
@@ -59,13 +118,23 @@ class ReturnService extends MedusaService({
       return_type: data.return_type,
       reason: data.reason,
       reason_details: data.reason_details || null,
+      evidence_urls: data.evidence_urls?.length
+        ? (data.evidence_urls as unknown as Record<string, unknown>)
+        : null,
+      requested_by: data.requested_by || "admin",
       items: data.items as unknown as Record<string, unknown>,
       refund_amount: data.refund_amount,
       shipping_refund: data.shipping_refund || 0,
       total_refund,
       requested_at: new Date(),
       admin_notes: data.admin_notes || null,
-      refund_status: data.return_type === "refund" ? "pending" : null,
+      refund_status: data.return_type !== "replacement" ? "pending" : null,
+      original_order_total: data.original_order_total || 0,
+      coupon_code: data.coupon_code || null,
+      coupon_discount: data.coupon_discount || 0,
+      points_redeemed: data.points_redeemed || 0,
+      points_discount: data.points_discount || 0,
+      pwp_discount: data.pwp_discount || 0,
     })
 
     this.logger.info(`Return request created: ${returnRequest.id}`)
@@ -284,6 +353,460 @@ class ReturnService extends MedusaService({
     return updated
   }
 
+  /**
+   * Change the product refund of a return, e.g. when returned items thawed
+   * but are still usable. The first edit keeps the calculated amount in
+   * original_refund_amount; the refund can be lowered, never raised above it.
+   */
+  async adjustRefundAmount(returnId: string, data: AdjustRefundAmountInput): Promise<any> {
+    this.logger.info(`Adjusting refund amount for return ${returnId} to ${data.refund_amount}`)
+
+    const returnRequest = await this.retrieveReturn(returnId)
+
+    if (returnRequest.return_type === "replacement") {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        "Cannot adjust the refund of a replacement return"
+      )
+    }
+
+    if (["rejected", "cancelled"].includes(returnRequest.status)) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Cannot adjust the refund of a return with status: ${returnRequest.status}`
+      )
+    }
+
+    if (returnRequest.refund_status === "completed") {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        "Refund has already been processed"
+      )
+    }
+
+    const originalRefundAmount = returnRequest.original_refund_amount != null
+      ? Number(returnRequest.original_refund_amount)
+      : Number(returnRequest.refund_amount)
+
+    if (data.refund_amount > originalRefundAmount) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Refund amount cannot exceed the calculated refund of ${originalRefundAmount}`
+      )
+    }
+
+    const shippingRefund = Number(returnRequest.shipping_refund) || 0
+    const refundedAmount = Number(returnRequest.refunded_amount) || 0
+    const pendingAmount = Number(returnRequest.pending_refund_amount) || 0
+    const totalRefund = data.refund_amount + shippingRefund
+
+    if (totalRefund < refundedAmount + pendingAmount) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Refund total cannot be lower than the ${refundedAmount + pendingAmount} already refunded or being refunded`
+      )
+    }
+
+    const updated = await this.updateReturns({
+      id: returnId,
+      refund_amount: data.refund_amount,
+      total_refund: totalRefund,
+      original_refund_amount: originalRefundAmount,
+      refund_adjustment_reason: data.reason,
+      ...(refundedAmount > 0 && refundedAmount >= totalRefund
+        ? { refund_status: "completed", refunded_at: new Date() }
+        : {}),
+    })
+
+    this.logger.info(`Refund amount adjusted for return ${returnId}`)
+    return updated
+  }
+
+  /**
+   * Atomically hold part of a return's refund for a transaction being issued
+   * Only succeeds while the amount fits in what is neither refunded nor held
+   * by another transaction, so concurrent refunds can't both take it
+   * @returns true if the amount was held
+   */
+  @InjectManager()
+  protected async holdRefundAmount(
+    returnId: string,
+    amount: number,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<boolean> {
+    const rows = await sharedContext.manager!.execute(
+      `UPDATE "return_request"
+       SET "pending_refund_amount" = "pending_refund_amount" + ?, "updated_at" = now()
+       WHERE "id" = ? AND "deleted_at" IS NULL
+         AND "total_refund" - "refunded_amount" - "pending_refund_amount" >= ?
+       RETURNING "id"`,
+      [amount, returnId, amount]
+    )
+    return rows.length > 0
+  }
+
+  /**
+   * Atomically give back an amount held by holdRefundAmount, never below zero
+   */
+  @InjectManager()
+  protected async releaseRefundAmount(
+    returnId: string,
+    amount: number,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<void> {
+    await sharedContext.manager!.execute(
+      `UPDATE "return_request"
+       SET "pending_refund_amount" = GREATEST("pending_refund_amount" - ?, 0), "updated_at" = now()
+       WHERE "id" = ?`,
+      [amount, returnId]
+    )
+  }
+
+  /**
+   * Atomically move a refund transaction out of pending
+   * Guards against the same transaction being completed or failed twice
+   * @returns true if this call made the transition
+   */
+  @InjectManager()
+  protected async closeRefund(
+    refundId: string,
+    to: "completed" | "failed",
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<boolean> {
+    const rows = await sharedContext.manager!.execute(
+      `UPDATE "return_refund" SET "status" = ?, "processed_at" = now(), "updated_at" = now()
+       WHERE "id" = ? AND "status" = 'pending' RETURNING "id"`,
+      [to, refundId]
+    )
+    return rows.length > 0
+  }
+
+  /**
+   * Atomically claim the one-time points adjustment of a return
+   * @returns true if this call claimed it
+   */
+  @InjectManager()
+  async claimPointsAdjustment(
+    returnId: string,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<boolean> {
+    const rows = await sharedContext.manager!.execute(
+      `UPDATE "return_request" SET "points_adjusted_at" = now(), "updated_at" = now()
+       WHERE "id" = ? AND "points_adjusted_at" IS NULL AND "deleted_at" IS NULL
+       RETURNING "id"`,
+      [returnId]
+    )
+    return rows.length > 0
+  }
+
+  /**
+   * Record a refund transaction before it is issued
+   * Fails when the amount is more than what is left to refund, counting
+   * transactions that are still being issued
+   */
+  async startRefund(returnId: string, data: StartRefundInput): Promise<any> {
+    const returnRequest = await this.retrieveReturn(returnId)
+
+    if (!(await this.holdRefundAmount(returnId, data.amount))) {
+      const remaining = this.getRemainingRefund(await this.retrieveReturn(returnId))
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Refund amount ${data.amount} exceeds the remaining refund of ${remaining}`
+      )
+    }
+
+    let refund: any
+    try {
+      refund = await this.createReturnRefunds({
+        return_id: returnId,
+        order_id: returnRequest.order_id,
+        method: data.method,
+        amount: data.amount,
+        status: "pending",
+        note: data.note || null,
+        created_by: data.created_by || null,
+      })
+    } catch (error) {
+      // Give the amount back if the transaction couldn't be written
+      await this.releaseRefundAmount(returnId, data.amount)
+      throw error
+    }
+
+    await this.updateReturns({ id: returnId, refund_status: "processing" })
+
+    this.logger.info(`Refund ${refund.id} started for return ${returnId}: ${data.method} ${data.amount}`)
+    return refund
+  }
+
+  /**
+   * Mark a refund transaction issued and add it to the return's refunded amount
+   */
+  async completeRefund(refundId: string, data: CompleteRefundInput = {}): Promise<any> {
+    const refund = await this.retrieveReturnRefund(refundId)
+
+    if (!(await this.closeRefund(refundId, "completed"))) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Refund ${refundId} is no longer pending`
+      )
+    }
+
+    await this.updateReturnRefunds({
+      id: refundId,
+      stripe_refund_id: data.stripe_refund_id || null,
+      points_credited: data.points_credited ?? null,
+    })
+    await this.releaseRefundAmount(refund.return_id, Number(refund.amount))
+
+    // Sum the completed transactions rather than adding to the stored amount,
+    // so refunds completing at the same time are all counted
+    const returnRequest = await this.retrieveReturn(refund.return_id)
+    const completed = await this.listReturnRefunds({ return_id: refund.return_id, status: "completed" })
+    const refundedAmount = completed.reduce((sum: number, r: any) => sum + (Number(r.amount) || 0), 0)
+    const fullyRefunded = refundedAmount >= Number(returnRequest.total_refund)
+
+    const updated = await this.updateReturns({
+      id: returnRequest.id,
+      refunded_amount: refundedAmount,
+      refund_status: fullyRefunded ? "completed" : "partially_refunded",
+      refunded_at: fullyRefunded ? new Date() : returnRequest.refunded_at,
+      stripe_refund_id: data.stripe_refund_id || returnRequest.stripe_refund_id,
+    })
+
+    this.logger.info(`Refund ${refundId} completed for return ${returnRequest.id}`)
+    return updated
+  }
+
+  /**
+   * Mark a refund transaction failed and give its amount back to the return
+   * The return goes back to partially_refunded if earlier refunds went through
+   */
+  async failRefund(refundId: string, reason: string): Promise<any> {
+    const refund = await this.retrieveReturnRefund(refundId)
+
+    if (!(await this.closeRefund(refundId, "failed"))) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Refund ${refundId} is no longer pending`
+      )
+    }
+
+    await this.updateReturnRefunds({ id: refundId, failure_reason: reason })
+    await this.releaseRefundAmount(refund.return_id, Number(refund.amount))
+
+    const returnRequest = await this.retrieveReturn(refund.return_id)
+    const updated = await this.updateReturns({
+      id: returnRequest.id,
+      refund_status: Number(returnRequest.refunded_amount) > 0 ? "partially_refunded" : "failed",
+    })
+
+    this.logger.warn(`Refund ${refundId} failed for return ${returnRequest.id}: ${reason}`)
+    return updated
+  }
+
+  /**
+   * Amount of a return still to be refunded, in cents
+   * Amounts held by refund transactions still being issued are not available
+   */
+  getRemainingRefund(returnRequest: any): number {
+    const remaining = Number(returnRequest.total_refund)
+      - (Number(returnRequest.refunded_amount) || 0)
+      - (Number(returnRequest.pending_refund_amount) || 0)
+    return Math.max(0, remaining)
+  }
+
+  /**
+   * Get refund transactions of a return, oldest first
+   */
+  async getRefundsByReturnId(returnId: string): Promise<any[]> {
+    return await this.listReturnRefunds(
+      { return_id: returnId },
+      { order: { created_at: "ASC" } }
+    )
+  }
+
+  /**
+   * Sum of completed refunds across all returns of an order, in cents
+   */
+  async getRefundedAmountForOrder(orderId: string, method?: RefundMethod): Promise<number> {
+    const refunds = await this.listReturnRefunds({
+      order_id: orderId,
+      status: "completed",
+      ...(method ? { method } : {}),
+    })
+    return refunds.reduce((sum: number, r: any) => sum + (Number(r.amount) || 0), 0)
+  }
+
+  /**
+   * Record inspection outcomes for returned items
+   * Starts the inspection when the return was only received. An item can be
+   * split across outcomes, but never for more units than were returned.
+   * Runs in one transaction holding a lock on the return, so concurrent
+   * submissions are checked against each other's inspections
+   */
+  @InjectTransactionManager()
+  async recordInspections(
+    returnId: string,
+    inputs: RecordInspectionInput[],
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<any[]> {
+    await sharedContext.transactionManager!.execute(
+      `SELECT "id" FROM "return_request" WHERE "id" = ? AND "deleted_at" IS NULL FOR UPDATE`,
+      [returnId]
+    )
+
+    let returnRequest = await this.retrieveReturn(returnId, {}, sharedContext)
+
+    if (returnRequest.status === "received") {
+      returnRequest = await this.updateReturns({ id: returnId, status: "inspecting" }, sharedContext)
+      this.logger.info(`Return ${returnId} inspection started`)
+    } else if (returnRequest.status !== "inspecting") {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        `Cannot inspect return with status: ${returnRequest.status}`
+      )
+    }
+
+    const returnItems = (returnRequest.items || []) as unknown as ReturnItem[]
+    const existing = await this.listReturnInspections({ return_id: returnId }, {}, sharedContext)
+
+    const inspectedUnits = new Map<string, number>()
+    for (const inspection of existing) {
+      inspectedUnits.set(
+        inspection.item_id,
+        (inspectedUnits.get(inspection.item_id) || 0) + Number(inspection.quantity)
+      )
+    }
+
+    const now = new Date()
+    const toCreate = inputs.map((input) => {
+      const item = returnItems.find((i) => i.item_id === input.item_id)
+      if (!item) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Item ${input.item_id} is not part of this return`
+        )
+      }
+
+      const alreadyInspected = inspectedUnits.get(input.item_id) || 0
+      if (alreadyInspected + input.quantity > Number(item.quantity)) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Only ${Number(item.quantity) - alreadyInspected} unit(s) of ${item.product_name} are left to inspect`
+        )
+      }
+      inspectedUnits.set(input.item_id, alreadyInspected + input.quantity)
+
+      if (input.restocked_quantity > input.quantity) {
+        throw new MedusaError(
+          MedusaError.Types.INVALID_DATA,
+          `Cannot restock more units of ${item.product_name} than were inspected`
+        )
+      }
+
+      return {
+        return_id: returnId,
+        order_id: returnRequest.order_id,
+        item_id: input.item_id,
+        variant_id: item.variant_id || null,
+        product_name: item.product_name,
+        quantity: input.quantity,
+        result: input.result,
+        restocked_quantity: input.restocked_quantity,
+        stock_location_id: input.restocked_quantity > 0 ? input.stock_location_id || null : null,
+        inventory_item_id: input.inventory_item_id || null,
+        write_off_amount: input.write_off_amount,
+        photo_urls: input.photo_urls?.length
+          ? (input.photo_urls as unknown as Record<string, unknown>)
+          : null,
+        notes: input.notes || null,
+        inspected_by: input.inspected_by || null,
+        inspected_at: now,
+      }
+    })
+
+    const inspections = await this.createReturnInspections(toCreate, sharedContext)
+
+    this.logger.info(`Recorded ${inspections.length} inspection result(s) for return ${returnId}`)
+    return inspections
+  }
+
+  /**
+   * Get inspection results of a return, oldest first
+   */
+  async getInspectionsByReturnId(returnId: string): Promise<any[]> {
+    return await this.listReturnInspections(
+      { return_id: returnId },
+      { order: { inspected_at: "ASC" } }
+    )
+  }
+
+  /**
+   * Summarise inspection outcomes between two dates
+   * Spoilage is reported separately since it is written off in full
+   */
+  async getInspectionReport(from: Date, to: Date): Promise<{
+    from: Date
+    to: Date
+    returns_inspected: number
+    totals: InspectionTotals
+    by_result: Record<InspectionResult, InspectionTotals>
+    spoilage: InspectionTotals & { returns: number }
+    top_spoiled_products: Array<{ variant_id: string | null; product_name: string; units: number; write_off: number }>
+  }> {
+    const inspections = await this.listReturnInspections(
+      { inspected_at: { $gte: from, $lte: to } },
+      { take: 10000 }
+    )
+
+    const emptyTotals = (): InspectionTotals => ({ units: 0, restocked_units: 0, write_off: 0 })
+    const addTo = (totals: InspectionTotals, inspection: any): void => {
+      totals.units += Number(inspection.quantity) || 0
+      totals.restocked_units += Number(inspection.restocked_quantity) || 0
+      totals.write_off += Number(inspection.write_off_amount) || 0
+    }
+
+    const totals = emptyTotals()
+    const byResult: Record<InspectionResult, InspectionTotals> = {
+      resellable: emptyTotals(),
+      damaged: emptyTotals(),
+      spoiled: emptyTotals(),
+    }
+    const spoiledReturns = new Set<string>()
+    const spoiledProducts = new Map<string, { variant_id: string | null; product_name: string; units: number; write_off: number }>()
+
+    for (const inspection of inspections) {
+      addTo(totals, inspection)
+      addTo(byResult[inspection.result as InspectionResult], inspection)
+
+      if (inspection.result === "spoiled") {
+        spoiledReturns.add(inspection.return_id)
+        const key = inspection.variant_id || inspection.product_name
+        const product = spoiledProducts.get(key) || {
+          variant_id: inspection.variant_id,
+          product_name: inspection.product_name,
+          units: 0,
+          write_off: 0,
+        }
+        product.units += Number(inspection.quantity) || 0
+        product.write_off += Number(inspection.write_off_amount) || 0
+        spoiledProducts.set(key, product)
+      }
+    }
+
+    return {
+      from,
+      to,
+      returns_inspected: new Set(inspections.map((i: any) => i.return_id)).size,
+      totals,
+      by_result: byResult,
+      spoilage: { ...byResult.spoiled, returns: spoiledReturns.size },
+      top_spoiled_products: Array.from(spoiledProducts.values())
+        .sort((a, b) => b.write_off - a.write_off)
+        .slice(0, 10),
+    }
+  }
+
   /**
    * Get return by ID
    */
@@ -350,7 +873,7 @@ class ReturnService extends MedusaService({
 
     // Calculate total refunded amount from completed returns
     const totalRefunded = completed.reduce((sum: number, r: any) => {
-      return sum + (Number(r.total_refund) || 0)
+      return sum + (Number(r.refunded_amount) || 0)
     }, 0)
 
     return {
@@ -0,0 +1,26 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260127100000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table if exists "review" add column if not exists "status" text check ("status" in ('pending', 'flagged', 'approved', 'rejected')) not null default 'approved', add column if not exists "moderation_flags" jsonb null, add column if not exists "moderated_by" text null, add column if not exists "moderated_at" timestamptz null, add column if not exists "reply_content" text null, add column if not exists "reply_author_id" text null, add column if not exists "replied_at" timestamptz null;`);
+    // Reviews that were never approved are waiting for moderation
+    this.addSql(`update "review" set "status" = 'pending' where "is_approved" = false;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_review_status" ON "review" (status) WHERE deleted_at IS NULL;`);
+
+    this.addSql(`create table if not exists "review_setting" ("id" text not null, "default_status" text check ("default_status" in ('approved', 'pending')) not null default 'approved', "guest_default_status" text check ("guest_default_status" in ('approved', 'pending')) not null default 'pending', "banned_words" jsonb not null default '{"items": []}', "flag_links" boolean not null default true, "flag_phone_numbers" boolean not null default true, "flag_duplicates" boolean not null default true, "max_reviews_per_day" integer not null default 3, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "review_setting_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_review_setting_deleted_at" ON "review_setting" (deleted_at) WHERE deleted_at IS NULL;`);
+
+    this.addSql(`create table if not exists "review_moderation_log" ("id" text not null, "review_id" text not null, "action" text check ("action" in ('submitted', 'flagged', 'approved', 'rejected', 'replied', 'reply_removed')) not null, "actor_type" text check ("actor_type" in ('system', 'admin')) not null, "actor_id" text null, "previous_status" text null, "new_status" text null, "note" text null, "metadata" jsonb null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "review_moderation_log_pkey" primary key ("id"));`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_review_moderation_log_review_id" ON "review_moderation_log" (review_id, created_at);`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_review_moderation_log_deleted_at" ON "review_moderation_log" (deleted_at) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "review_moderation_log" cascade;`);
+    this.addSql(`drop table if exists "review_setting" cascade;`);
+    this.addSql(`drop index if exists "IDX_review_status";`);
+    this.addSql(`alter table if exists "review" drop column if exists "status", drop column if exists "moderation_flags", drop column if exists "moderated_by", drop column if exists "moderated_at", drop column if exists "reply_content", drop column if exists "reply_author_id", drop column if exists "replied_at";`);
+  }
+
+}
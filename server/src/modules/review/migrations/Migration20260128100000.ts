@@ -0,0 +1,27 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260128100000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table if exists "review" add column if not exists "not_helpful_count" integer not null default 0, add column if not exists "report_count" integer not null default 0;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_review_product_helpful" ON "review" (product_id, helpful_count) WHERE deleted_at IS NULL;`);
+    this.addSql(`alter table if exists "review_setting" add column if not exists "report_threshold" integer not null default 3;`);
+
+    this.addSql(`create table if not exists "review_vote" ("id" text not null, "review_id" text not null, "voter_key" text not null, "customer_id" text null, "fingerprint" text null, "value" text check ("value" in ('helpful', 'not_helpful')) not null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "review_vote_pkey" primary key ("id"));`);
+    this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_review_vote_review_voter_unique" ON "review_vote" (review_id, voter_key) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_review_vote_deleted_at" ON "review_vote" (deleted_at) WHERE deleted_at IS NULL;`);
+
+    this.addSql(`create table if not exists "review_report" ("id" text not null, "review_id" text not null, "customer_id" text not null, "reason" text check ("reason" in ('spam', 'offensive', 'inappropriate', 'fake', 'other')) not null, "details" text null, "status" text check ("status" in ('open', 'dismissed')) not null default 'open', "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "review_report_pkey" primary key ("id"));`);
+    this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_review_report_review_customer_unique" ON "review_report" (review_id, customer_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_review_report_deleted_at" ON "review_report" (deleted_at) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "review_report" cascade;`);
+    this.addSql(`drop table if exists "review_vote" cascade;`);
+    this.addSql(`alter table if exists "review_setting" drop column if exists "report_threshold";`);
+    this.addSql(`drop index if exists "IDX_review_product_helpful";`);
+    this.addSql(`alter table if exists "review" drop column if exists "not_helpful_count", drop column if exists "report_count";`);
+  }
+
+}
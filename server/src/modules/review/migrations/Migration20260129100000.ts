@@ -0,0 +1,20 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260129100000 extends Migration {
+
+  override async up(): Promise<void> {
+    this.addSql(`alter table if exists "review" add column if not exists "rewarded_points" integer not null default 0, add column if not exists "rewarded_at" timestamptz null;`);
+    this.addSql(`alter table if exists "review_setting" add column if not exists "request_delay_days" integer not null default 3, add column if not exists "request_link_valid_days" integer not null default 30;`);
+
+    this.addSql(`create table if not exists "review_request" ("id" text not null, "order_id" text not null, "customer_id" text null, "email" text null, "status" text check ("status" in ('sent', 'failed', 'skipped')) not null, "item_count" integer not null default 0, "sent_at" timestamptz null, "error" text null, "created_at" timestamptz not null default now(), "updated_at" timestamptz not null default now(), "deleted_at" timestamptz null, constraint "review_request_pkey" primary key ("id"));`);
+    this.addSql(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_review_request_order_id_unique" ON "review_request" (order_id) WHERE deleted_at IS NULL;`);
+    this.addSql(`CREATE INDEX IF NOT EXISTS "IDX_review_request_deleted_at" ON "review_request" (deleted_at) WHERE deleted_at IS NULL;`);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`drop table if exists "review_request" cascade;`);
+    this.addSql(`alter table if exists "review_setting" drop column if exists "request_delay_days", drop column if exists "request_link_valid_days";`);
+    this.addSql(`alter table if exists "review" drop column if exists "rewarded_points", drop column if exists "rewarded_at";`);
+  }
+
+}
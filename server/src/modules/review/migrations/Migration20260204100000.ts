@@ -0,0 +1,25 @@
+import { Migration } from '@mikro-orm/migrations';
+
+export class Migration20260204100000 extends Migration {
+
+  override async up(): Promise<void> {
+    // Edits that pass screening are logged too
+    this.addSql(`ALTER TABLE "review_moderation_log" DROP CONSTRAINT IF EXISTS "review_moderation_log_action_check";`);
+    this.addSql(`
+      ALTER TABLE "review_moderation_log"
+      ADD CONSTRAINT "review_moderation_log_action_check"
+      CHECK ("action" IN ('submitted', 'flagged', 'edited', 'approved', 'rejected', 'replied', 'reply_removed'));
+    `);
+  }
+
+  override async down(): Promise<void> {
+    this.addSql(`DELETE FROM "review_moderation_log" WHERE "action" = 'edited';`);
+    this.addSql(`ALTER TABLE "review_moderation_log" DROP CONSTRAINT IF EXISTS "review_moderation_log_action_check";`);
+    this.addSql(`
+      ALTER TABLE "review_moderation_log"
+      ADD CONSTRAINT "review_moderation_log_action_check"
+      CHECK ("action" IN ('submitted', 'flagged', 'approved', 'rejected', 'replied', 'reply_removed'));
+    `);
+  }
+
+}
@@ -0,0 +1,24 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * ReviewModerationLog Model
+ * One entry per moderation action on a review
+ * - actor_type "system" entries come from automatic screening, with the
+ *   triggered rules in metadata.flags, or record an author's edit that
+ *   passed screening ("edited")
+ * - actor_type "admin" entries record the admin user in actor_id
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const ReviewModerationLog = model.define("review_moderation_log", {
+  id: model.id().primaryKey(),
+  review_id: model.text(),
+  action: model.enum(["submitted", "flagged", "edited", "approved", "rejected", "replied", "reply_removed"]),
+  actor_type: model.enum(["system", "admin"]),
+  actor_id: model.text().nullable(),
+  previous_status: model.text().nullable(),
+  new_status: model.text().nullable(),
+  note: model.text().nullable(),
+  metadata: model.json().nullable(),
+})
+
+export default ReviewModerationLog
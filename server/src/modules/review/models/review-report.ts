@@ -0,0 +1,19 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * ReviewReport Model
+ * A customer reporting a review as abusive, at most once per review
+ * - open: counts towards the setting's report_threshold
+ * - dismissed: a moderator approved the review again, no longer counted
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const ReviewReport = model.define("review_report", {
+  id: model.id().primaryKey(),
+  review_id: model.text(),
+  customer_id: model.text(),
+  reason: model.enum(["spam", "offensive", "inappropriate", "fake", "other"]),
+  details: model.text().nullable(),
+  status: model.enum(["open", "dismissed"]).default("open"),
+})
+
+export default ReviewReport
@@ -0,0 +1,22 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * ReviewRequest Model
+ * The review invitation email sent for a delivered order, at most one per order
+ * - sent: the email went out
+ * - failed: sending failed, retried on the next run
+ * - skipped: nothing left to review (guest order, already reviewed)
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const ReviewRequest = model.define("review_request", {
+  id: model.id().primaryKey(),
+  order_id: model.text(),
+  customer_id: model.text().nullable(),
+  email: model.text().nullable(),
+  status: model.enum(["sent", "failed", "skipped"]),
+  item_count: model.number().default(0), // Items listed in the email
+  sent_at: model.dateTime().nullable(),
+  error: model.text().nullable(),
+})
+
+export default ReviewRequest
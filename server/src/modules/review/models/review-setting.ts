@@ -0,0 +1,33 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * ReviewSetting Model
+ * Moderation configuration for product reviews
+ * Only one record should exist (singleton pattern for settings)
+ *
+ * Screening rules flag a review for manual moderation instead of publishing it:
+ * - banned_words: whole-word, case-insensitive matches in the title or content
+ * - flag_links / flag_phone_numbers: URLs and phone numbers in the text
+ * - flag_duplicates: the same text was already posted in another review
+ * - max_reviews_per_day: reviews per email (or customer) in 24 hours, 0 = no limit
+ * - report_threshold: open abuse reports that hide a published review, 0 = never
+ *
+ * Review requests email customers a link to review what they bought:
+ * - request_delay_days: days after delivery the email is sent, 0 = never sent
+ * - request_link_valid_days: how long the review links in the email work
+ */
+const ReviewSetting = model.define("review_setting", {
+  id: model.id().primaryKey(),
+  default_status: model.enum(["approved", "pending"]).default("approved"), // Verified purchase reviews
+  guest_default_status: model.enum(["approved", "pending"]).default("pending"), // Guest reviews
+  banned_words: model.json().default({ items: [] }),
+  flag_links: model.boolean().default(true),
+  flag_phone_numbers: model.boolean().default(true),
+  flag_duplicates: model.boolean().default(true),
+  max_reviews_per_day: model.number().default(3),
+  report_threshold: model.number().default(3),
+  request_delay_days: model.number().default(3),
+  request_link_valid_days: model.number().default(30),
+})
+
+export default ReviewSetting
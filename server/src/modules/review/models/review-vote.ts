@@ -0,0 +1,21 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * ReviewVote Model
+ * One helpful / not helpful vote per voter per review
+ * - voter_key: "customer:<customer_id>" or "guest:<fingerprint>", unique per review
+ * - fingerprint: hash of the guest's IP address, see utils/review-voter
+ * Casting, switching or undoing a vote adjusts the review's helpful_count and
+ * not_helpful_count by one, so counts from before votes were recorded are kept
+ * Note: created_at, updated_at, deleted_at are auto-managed by Medusa
+ */
+const ReviewVote = model.define("review_vote", {
+  id: model.id().primaryKey(),
+  review_id: model.text(),
+  voter_key: model.text(),
+  customer_id: model.text().nullable(),
+  fingerprint: model.text().nullable(),
+  value: model.enum(["helpful", "not_helpful"]),
+})
+
+export default ReviewVote
@@ -22,9 +22,28 @@ const Review = model.define("review", {
   images: model.json().default({ items: [] }), // Array of image URLs
   is_verified_purchase: model.boolean().default(false), // Customer actually bought this
   is_guest_review: model.boolean().default(false), // True if submitted by guest
-  is_approved: model.boolean().default(true), // For moderation
+  is_approved: model.boolean().default(true), // Visible on the storefront (status === "approved")
   is_featured: model.boolean().default(false), // Highlight this review
-  helpful_count: model.number().default(0), // How many found this helpful
+  helpful_count: model.number().default(0), // Helpful votes, kept in step with review_vote
+  not_helpful_count: model.number().default(0), // Not helpful votes, kept in step with review_vote
+  report_count: model.number().default(0), // Open abuse reports
+
+  // Moderation
+  // - pending: waiting for a moderator (default status set to pending)
+  // - flagged: held back by a screening rule, see moderation_flags
+  status: model.enum(["pending", "flagged", "approved", "rejected"]).default("approved"),
+  moderation_flags: model.json().nullable(), // Array of { rule, detail } from screening
+  moderated_by: model.text().nullable(), // Admin user who last approved/rejected
+  moderated_at: model.dateTime().nullable(),
+
+  // Public merchant reply
+  reply_content: model.text().nullable(),
+  reply_author_id: model.text().nullable(), // Admin user who wrote the reply
+  replied_at: model.dateTime().nullable(),
+
+  // Points awarded for the review, at most once
+  rewarded_points: model.number().default(0),
+  rewarded_at: model.dateTime().nullable(),
 })
 
 export default Review
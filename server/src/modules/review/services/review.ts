@@ -1,5 +1,81 @@
-import { MedusaService } from "@medusajs/framework/utils"
+import {
+  InjectManager,
+  MedusaContext,
+  MedusaError,
+  MedusaService,
+} from "@medusajs/framework/utils"
+import type { Context } from "@medusajs/framework/types"
+import type { EntityManager } from "@mikro-orm/knex"
 import Review from "../models/review"
+import ReviewModerationLog from "../models/review-moderation-log"
+import ReviewReport from "../models/review-report"
+import ReviewRequest from "../models/review-request"
+import ReviewSetting from "../models/review-setting"
+import ReviewVote from "../models/review-vote"
+
+export type ReviewStatus = "pending" | "flagged" | "approved" | "rejected"
+
+export type ModerationFlag = {
+  rule: "banned_word" | "link" | "phone_number" | "duplicate" | "rate_limit" | "reported"
+  detail: string
+}
+
+export type ReviewSettingsData = {
+  default_status: "approved" | "pending"
+  guest_default_status: "approved" | "pending"
+  banned_words: string[]
+  flag_links: boolean
+  flag_phone_numbers: boolean
+  flag_duplicates: boolean
+  max_reviews_per_day: number
+  report_threshold: number
+  request_delay_days: number
+  request_link_valid_days: number
+}
+
+export type ReviewVoteValue = "helpful" | "not_helpful"
+
+export type ReviewReportReason = "spam" | "offensive" | "inappropriate" | "fake" | "other"
+
+/**
+ * Who is voting: a signed-in customer or a guest browser
+ */
+export type ReviewVoter = {
+  key: string // "customer:<id>" or "guest:<fingerprint>"
+  customer_id: string | null
+  fingerprint: string | null
+}
+
+/**
+ * Orders of the review listings
+ */
+export const REVIEW_SORT_ORDERS = {
+  recent: { created_at: "DESC" },
+  helpful: { helpful_count: "DESC", not_helpful_count: "ASC", created_at: "DESC" },
+  rating_desc: { rating: "DESC", created_at: "DESC" },
+  rating_asc: { rating: "ASC", created_at: "DESC" },
+} satisfies Record<string, Record<string, "ASC" | "DESC">>
+
+export type ReviewSort = keyof typeof REVIEW_SORT_ORDERS
+
+const DEFAULT_SETTINGS: ReviewSettingsData = {
+  default_status: "approved",
+  guest_default_status: "pending",
+  banned_words: [],
+  flag_links: true,
+  flag_phone_numbers: true,
+  flag_duplicates: true,
+  max_reviews_per_day: 3,
+  report_threshold: 3,
+  request_delay_days: 3,
+  request_link_valid_days: 30,
+}
+
+const LINK_PATTERN = /\b(?:https?:\/\/|www\.)\S+|\b[a-z0-9-]+\.(?:com|net|org|info|biz|io|co|my|sg)(?:\/\S*)?\b/i
+const PHONE_PATTERN = /\+?\d(?:[\s-]?\d){8,}/
+
+// Shorter texts ("Great!", "Very fresh") are expected to repeat
+const DUPLICATE_MIN_LENGTH = 20
 
 type CreateReviewInput = {
   product_id: string
@@ -16,9 +92,13 @@ type CreateReviewInput = {
   is_verified_purchase?: boolean
   is_guest_review?: boolean
   is_approved?: boolean
+  status?: ReviewStatus
+  moderation_flags?: ModerationFlag[] | null
   is_featured?: boolean
 }
 
+type SubmitReviewInput = Omit<CreateReviewInput, "is_approved" | "status" | "moderation_flags">
+
 type UpdateReviewInput = {
   id: string
   rating?: number
@@ -26,24 +106,58 @@ type UpdateReviewInput = {
   content?: string | null
   images?: string[]
   is_approved?: boolean
+  status?: ReviewStatus
+  moderation_flags?: ModerationFlag[] | null
+  moderated_by?: string | null
+  moderated_at?: Date | null
+  reply_content?: string | null
+  reply_author_id?: string | null
+  replied_at?: Date | null
   is_featured?: boolean
   helpful_count?: number
+  not_helpful_count?: number
+  report_count?: number
 }
 
-type ListReviewsFilter = {
+export type ListReviewsFilter = {
   product_id?: string
   customer_id?: string
   is_approved?: boolean
+  status?: ReviewStatus | ReviewStatus[]
   is_featured?: boolean
   is_guest_review?: boolean
 }
 
+type RecordReviewRequestInput = {
+  order_id: string
+  customer_id?: string | null
+  email?: string | null
+  status: "sent" | "failed" | "skipped"
+  item_count?: number
+  error?: string | null
+}
+
+type LogModerationInput = {
+  review_id: string
+  action: "submitted" | "flagged" | "edited" | "approved" | "rejected" | "replied" | "reply_removed"
+  actor_id?: string | null // Admin user, null for automatic screening
+  previous_status?: string | null
+  new_status?: string | null
+  note?: string | null
+  metadata?: Record<string, unknown> | null
+}
+
 /**
  * ReviewModuleService
  * Handles product review CRUD operations
  */
 class ReviewModuleService extends MedusaService({
   Review,
+  ReviewSetting,
+  ReviewModerationLog,
+  ReviewVote,
+  ReviewReport,
+  ReviewRequest,
 }) {
   /**
    * Create a new review (supports both customer and guest reviews)
@@ -52,6 +166,10 @@ class ReviewModuleService extends MedusaService({
     // Validate rating is 1-5
     const rating = Math.min(5, Math.max(1, Math.round(data.rating)))
 
+    // status and is_approved always agree; status wins when both are given
+    const status: ReviewStatus = data.status
+      ?? (data.is_approved === false ? "pending" : "approved")
+
     const review = await this.createReviews({
       product_id: data.product_id,
       customer_id: data.customer_id || null,
@@ -66,7 +184,9 @@ class ReviewModuleService extends MedusaService({
       images: { items: data.images || [] },
       is_verified_purchase: data.is_verified_purchase || false,
       is_guest_review: data.is_guest_review || false,
-      is_approved: data.is_approved !== undefined ? data.is_approved : true,
+      is_approved: status === "approved",
+      status,
+      moderation_flags: (data.moderation_flags ?? null) as unknown as Record<string, unknown> | null,
       is_featured: data.is_featured || false,
       helpful_count: 0,
     })
@@ -86,9 +206,23 @@ class ReviewModuleService extends MedusaService({
     if (data.title !== undefined) updateData.title = data.title
     if (data.content !== undefined) updateData.content = data.content
     if (data.images !== undefined) updateData.images = { items: data.images }
-    if (data.is_approved !== undefined) updateData.is_approved = data.is_approved
+    if (data.status !== undefined) {
+      updateData.status = data.status
+      updateData.is_approved = data.status === "approved"
+    } else if (data.is_approved !== undefined) {
+      updateData.is_approved = data.is_approved
+      updateData.status = data.is_approved ? "approved" : "rejected"
+    }
+    if (data.moderation_flags !== undefined) updateData.moderation_flags = data.moderation_flags
+    if (data.moderated_by !== undefined) updateData.moderated_by = data.moderated_by
+    if (data.moderated_at !== undefined) updateData.moderated_at = data.moderated_at
+    if (data.reply_content !== undefined) updateData.reply_content = data.reply_content
+    if (data.reply_author_id !== undefined) updateData.reply_author_id = data.reply_author_id
+    if (data.replied_at !== undefined) updateData.replied_at = data.replied_at
     if (data.is_featured !== undefined) updateData.is_featured = data.is_featured
     if (data.helpful_count !== undefined) updateData.helpful_count = data.helpful_count
+    if (data.not_helpful_count !== undefined) updateData.not_helpful_count = data.not_helpful_count
+    if (data.report_count !== undefined) updateData.report_count = data.report_count
 
     const review = await this.updateReviews(updateData)
 
@@ -115,6 +249,7 @@ class ReviewModuleService extends MedusaService({
     if (filters.product_id) where.product_id = filters.product_id
     if (filters.customer_id) where.customer_id = filters.customer_id
     if (filters.is_approved !== undefined) where.is_approved = filters.is_approved
+    if (filters.status !== undefined) where.status = filters.status
     if (filters.is_featured !== undefined) where.is_featured = filters.is_featured
     if (filters.is_guest_review !== undefined) where.is_guest_review = filters.is_guest_review
 
@@ -137,7 +272,7 @@ class ReviewModuleService extends MedusaService({
    */
   async getProductReviews(
     productId: string,
-    options?: { skip?: number; take?: number; approvedOnly?: boolean }
+    options?: { skip?: number; take?: number; approvedOnly?: boolean; sort?: ReviewSort }
   ): Promise<{ reviews: any[]; count: number }> {
     return this.listReviewsWithFilters(
       {
@@ -147,7 +282,7 @@ class ReviewModuleService extends MedusaService({
       {
         skip: options?.skip,
         take: options?.take,
-        order: { created_at: "DESC" },
+        order: REVIEW_SORT_ORDERS[options?.sort || "recent"],
       }
     )
   }
@@ -246,14 +381,204 @@ class ReviewModuleService extends MedusaService({
   }
 
   /**
-   * Increment helpful count
+   * Vote a review helpful or not helpful. Voting again with the other value
+   * switches the vote; the same value again changes nothing
    */
-  async markReviewHelpful(reviewId: string): Promise<any> {
+  async castVote(reviewId: string, voter: ReviewVoter, value: ReviewVoteValue): Promise<any> {
     const review = await this.retrieveReview(reviewId)
-    return this.updateReview({
-      id: reviewId,
-      helpful_count: (review.helpful_count || 0) + 1,
+    const [existing] = await this.listReviewVotes(
+      { review_id: reviewId, voter_key: voter.key },
+      { take: 1 }
+    )
+
+    if (existing?.value === value) {
+      return review
+    }
+
+    const deltas: Record<ReviewVoteValue, number> = { helpful: 0, not_helpful: 0 }
+    if (existing) {
+      // A concurrent request already switched this vote
+      if (!(await this.switchVoteValue(existing.id, existing.value as ReviewVoteValue, value))) {
+        return this.retrieveReview(reviewId)
+      }
+      deltas[existing.value as ReviewVoteValue] -= 1
+    } else {
+      // The unique (review_id, voter_key) index rejects a concurrent duplicate
+      await this.createReviewVotes({
+        review_id: reviewId,
+        voter_key: voter.key,
+        customer_id: voter.customer_id,
+        fingerprint: voter.fingerprint,
+        value,
+      })
+    }
+    deltas[value] += 1
+
+    await this.adjustVoteCounts(reviewId, deltas.helpful, deltas.not_helpful)
+    return this.retrieveReview(reviewId)
+  }
+
+  /**
+   * Undo a voter's vote on a review
+   */
+  async removeVote(reviewId: string, voter: ReviewVoter): Promise<any> {
+    const review = await this.retrieveReview(reviewId)
+    const [existing] = await this.listReviewVotes(
+      { review_id: reviewId, voter_key: voter.key },
+      { take: 1 }
+    )
+    if (!existing) {
+      return review
+    }
+
+    const removedValue = await this.deleteVote(existing.id)
+    if (removedValue) {
+      await this.adjustVoteCounts(
+        reviewId,
+        removedValue === "helpful" ? -1 : 0,
+        removedValue === "not_helpful" ? -1 : 0
+      )
+    }
+    return this.retrieveReview(reviewId)
+  }
+
+  /**
+   * Atomically switch a vote's value, only from the value it was read with
+   * @returns true if the vote was switched
+   */
+  @InjectManager()
+  protected async switchVoteValue(
+    voteId: string,
+    from: ReviewVoteValue,
+    to: ReviewVoteValue,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<boolean> {
+    const rows = await sharedContext.manager!.execute(
+      `UPDATE "review_vote" SET "value" = ?, "updated_at" = now()
+       WHERE "id" = ? AND "value" = ? AND "deleted_at" IS NULL
+       RETURNING "id"`,
+      [to, voteId, from]
+    )
+    return rows.length > 0
+  }
+
+  /**
+   * Atomically delete a vote
+   * @returns The deleted vote's value, or null if it was already gone
+   */
+  @InjectManager()
+  protected async deleteVote(
+    voteId: string,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<ReviewVoteValue | null> {
+    const rows = await sharedContext.manager!.execute(
+      `DELETE FROM "review_vote" WHERE "id" = ? AND "deleted_at" IS NULL RETURNING "value"`,
+      [voteId]
+    )
+    return rows[0]?.value ?? null
+  }
+
+  /**
+   * Atomically move a review's vote counts, never below zero
+   * Done in the database so concurrent votes can't lose updates
+   */
+  @InjectManager()
+  protected async adjustVoteCounts(
+    reviewId: string,
+    helpfulDelta: number,
+    notHelpfulDelta: number,
+    @MedusaContext() sharedContext: Context<EntityManager> = {}
+  ): Promise<void> {
+    await sharedContext.manager!.execute(
+      `UPDATE "review"
+       SET "helpful_count" = GREATEST("helpful_count" + ?, 0),
+           "not_helpful_count" = GREATEST("not_helpful_count" + ?, 0),
+           "updated_at" = now()
+       WHERE "id" = ?`,
+      [helpfulDelta, notHelpfulDelta, reviewId]
+    )
+  }
+
+  /**
+   * A voter's votes on the given reviews, by review id
+   */
+  async getVoterVotes(reviewIds: string[], voterKey: string): Promise<Record<string, ReviewVoteValue>> {
+    if (reviewIds.length === 0) return {}
+    const votes = await this.listReviewVotes(
+      { review_id: reviewIds, voter_key: voterKey },
+      { select: ["review_id", "value"] }
+    )
+    return Object.fromEntries(votes.map((vote) => [vote.review_id, vote.value]))
+  }
+
+  /**
+   * Report a review as abusive. Once the open reports reach the threshold a
+   * published review is hidden and sent back to the moderation queue
+   */
+  async reportReview(
+    reviewId: string,
+    customerId: string,
+    reason: ReviewReportReason,
+    details?: string | null
+  ): Promise<any> {
+    const review = await this.retrieveReview(reviewId)
+    if (review.customer_id === customerId) {
+      throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "You cannot report your own review")
+    }
+
+    const [existing] = await this.listReviewReports(
+      { review_id: reviewId, customer_id: customerId },
+      { take: 1 }
+    )
+    if (existing) {
+      throw new MedusaError(MedusaError.Types.DUPLICATE_ERROR, "You have already reported this review")
+    }
+
+    await this.createReviewReports({
+      review_id: reviewId,
+      customer_id: customerId,
+      reason,
+      details: details ?? null,
     })
+
+    const [, openReports] = await this.listAndCountReviewReports(
+      { review_id: reviewId, status: "open" },
+      { select: ["id"], take: 1 }
+    )
+    const updated = await this.updateReview({ id: reviewId, report_count: openReports })
+
+    const { report_threshold } = await this.getSettings()
+    if (report_threshold > 0 && openReports >= report_threshold && review.status === "approved") {
+      const flags: ModerationFlag[] = [
+        ...((review.moderation_flags as unknown as ModerationFlag[] | null) || []).filter((f) => f.rule !== "reported"),
+        { rule: "reported", detail: `${openReports} reports` },
+      ]
+      const hidden = await this.updateReview({
+        id: reviewId,
+        status: "flagged",
+        moderation_flags: flags,
+      })
+      await this.logModeration({
+        review_id: reviewId,
+        action: "flagged",
+        previous_status: review.status,
+        new_status: "flagged",
+        metadata: { flags },
+      })
+      return hidden
+    }
+
+    return updated
+  }
+
+  /**
+   * Abuse reports of a review, newest first
+   */
+  async getReviewReports(reviewId: string): Promise<any[]> {
+    return this.listReviewReports(
+      { review_id: reviewId },
+      { order: { created_at: "DESC" } }
+    )
   }
 
   /**
@@ -291,6 +616,365 @@ class ReviewModuleService extends MedusaService({
       images: updatedImages,
     })
   }
+
+  /**
+   * Get the moderation settings, falling back to the defaults until saved
+   */
+  async getSettings(): Promise<ReviewSettingsData & { id?: string }> {
+    const settings = await this.listReviewSettings({}, { take: 1 })
+    if (settings.length === 0) {
+      return { ...DEFAULT_SETTINGS }
+    }
+    const setting = settings[0]
+    return {
+      id: setting.id,
+      default_status: setting.default_status,
+      guest_default_status: setting.guest_default_status,
+      banned_words: ((setting.banned_words as any)?.items || []) as string[],
+      flag_links: setting.flag_links,
+      flag_phone_numbers: setting.flag_phone_numbers,
+      flag_duplicates: setting.flag_duplicates,
+      max_reviews_per_day: setting.max_reviews_per_day,
+      report_threshold: setting.report_threshold,
+      request_delay_days: setting.request_delay_days,
+      request_link_valid_days: setting.request_link_valid_days,
+    }
+  }
+
+  /**
+   * Create or update the moderation settings
+   */
+  async upsertSettings(data: Partial<ReviewSettingsData>): Promise<ReviewSettingsData> {
+    const existing = await this.listReviewSettings({}, { take: 1 })
+    const merged = { ...(await this.getSettings()), ...data }
+    const record = {
+      default_status: merged.default_status,
+      guest_default_status: merged.guest_default_status,
+      banned_words: {
+        items: [...new Set(merged.banned_words.map((w) => w.trim().toLowerCase()).filter(Boolean))],
+      },
+      flag_links: merged.flag_links,
+      flag_phone_numbers: merged.flag_phone_numbers,
+      flag_duplicates: merged.flag_duplicates,
+      max_reviews_per_day: merged.max_reviews_per_day,
+      report_threshold: merged.report_threshold,
+      request_delay_days: merged.request_delay_days,
+      request_link_valid_days: merged.request_link_valid_days,
+    }
+
+    if (existing.length > 0) {
+      await this.updateReviewSettings({ id: existing[0].id, ...record })
+    } else {
+      await this.createReviewSettings(record)
+    }
+    return this.getSettings()
+  }
+
+  /**
+   * Run the screening rules against a review's text and author
+   * @returns The rules the review breaks, empty when it can be published
+   */
+  async screenReview(data: {
+    id?: string // Review being edited, excluded from duplicate and rate checks
+    title?: string | null
+    content?: string | null
+    customer_id?: string | null
+    guest_email?: string | null
+  }): Promise<ModerationFlag[]> {
+    const settings = await this.getSettings()
+    const flags: ModerationFlag[] = []
+    const text = [data.title, data.content].filter(Boolean).join("\n")
+
+    const lowered = text.toLowerCase()
+    for (const word of settings.banned_words) {
+      const escaped = word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+      if (new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, "u").test(lowered)) {
+        flags.push({ rule: "banned_word", detail: word })
+      }
+    }
+
+    if (settings.flag_links) {
+      const link = text.match(LINK_PATTERN)
+      if (link) flags.push({ rule: "link", detail: link[0] })
+    }
+
+    if (settings.flag_phone_numbers) {
+      const phone = text.match(PHONE_PATTERN)
+      if (phone) flags.push({ rule: "phone_number", detail: phone[0].trim() })
+    }
+
+    const content = (data.content || "").trim()
+    if (settings.flag_duplicates && content.length >= DUPLICATE_MIN_LENGTH) {
+      const escaped = content.replace(/[\\%_]/g, "\\$&")
+      const duplicates = await this.listReviews(
+        { content: { $ilike: escaped }, ...(data.id ? { id: { $ne: data.id } } : {}) },
+        { select: ["id"], take: 1 }
+      )
+      if (duplicates.length > 0) {
+        flags.push({ rule: "duplicate", detail: duplicates[0].id })
+      }
+    }
+
+    const author = data.customer_id
+      ? { customer_id: data.customer_id }
+      : data.guest_email
+        ? { guest_email: { $ilike: data.guest_email.replace(/[\\%_]/g, "\\$&") } }
+        : null
+    if (author && settings.max_reviews_per_day > 0) {
+      const [, recent] = await this.listAndCountReviews(
+        {
+          ...author,
+          created_at: { $gte: new Date(Date.now() - 24 * 60 * 60 * 1000) },
+          ...(data.id ? { id: { $ne: data.id } } : {}),
+        },
+        { select: ["id"], take: 1 }
+      )
+      if (recent >= settings.max_reviews_per_day) {
+        flags.push({ rule: "rate_limit", detail: `${recent} reviews in the last 24 hours` })
+      }
+    }
+
+    return flags
+  }
+
+  /**
+   * Create a review from the storefront: screened first, then published or
+   * queued according to the default status for its kind of reviewer
+   */
+  async submitReview(data: SubmitReviewInput): Promise<any> {
+    const settings = await this.getSettings()
+    const flags = await this.screenReview(data)
+
+    const defaultStatus = data.is_guest_review ? settings.guest_default_status : settings.default_status
+    const status: ReviewStatus = flags.length > 0 ? "flagged" : defaultStatus
+
+    const review = await this.createReview({
+      ...data,
+      status,
+      moderation_flags: flags.length > 0 ? flags : null,
+    })
+
+    await this.logModeration({
+      review_id: review.id,
+      action: flags.length > 0 ? "flagged" : "submitted",
+      new_status: status,
+      metadata: flags.length > 0 ? { flags } : null,
+    })
+
+    return review
+  }
+
+  /**
+   * Screen a review again after its author edited it. A review that now breaks
+   * a rule is flagged. A clean edit goes back to pending when reviews of its
+   * kind need approval, so the new text is moderated too, and otherwise keeps
+   * the current status
+   */
+  async rescreenReview(reviewId: string): Promise<any> {
+    const review = await this.retrieveReview(reviewId)
+    const flags = await this.screenReview({
+      id: review.id,
+      title: review.title,
+      content: review.content,
+      customer_id: review.customer_id,
+      guest_email: review.guest_email,
+    })
+    if (flags.length === 0) {
+      const settings = await this.getSettings()
+      const defaultStatus = review.is_guest_review ? settings.guest_default_status : settings.default_status
+      const status: ReviewStatus =
+        defaultStatus === "pending" && review.status !== "flagged" ? "pending" : review.status
+
+      const updated = status !== review.status
+        ? await this.updateReview({ id: review.id, status })
+        : review
+      await this.logModeration({
+        review_id: review.id,
+        action: "edited",
+        previous_status: review.status,
+        new_status: status,
+      })
+      return updated
+    }
+
+    const updated = await this.updateReview({
+      id: review.id,
+      status: "flagged",
+      moderation_flags: flags,
+    })
+    await this.logModeration({
+      review_id: review.id,
+      action: "flagged",
+      previous_status: review.status,
+      new_status: "flagged",
+      metadata: { flags },
+    })
+    return updated
+  }
+
+  /**
+   * Approve or reject a review on behalf of an admin user
+   */
+  async moderateReview(
+    reviewId: string,
+    decision: "approved" | "rejected",
+    actorId: string | null,
+    note?: string | null
+  ): Promise<any> {
+    const review = await this.retrieveReview(reviewId)
+
+    // Approving a reported review clears the reports so it isn't hidden again straight away
+    if (decision === "approved" && (review.report_count || 0) > 0) {
+      const openReports = await this.listReviewReports(
+        { review_id: reviewId, status: "open" },
+        { select: ["id"] }
+      )
+      if (openReports.length > 0) {
+        await this.updateReviewReports(openReports.map((report) => ({ id: report.id, status: "dismissed" as const })))
+      }
+    }
+
+    const updated = await this.updateReview({
+      id: reviewId,
+      status: decision,
+      moderated_by: actorId,
+      moderated_at: new Date(),
+      ...(decision === "approved" ? { report_count: 0 } : {}),
+    })
+    await this.logModeration({
+      review_id: reviewId,
+      action: decision,
+      actor_id: actorId,
+      previous_status: review.status,
+      new_status: decision,
+      note: note ?? null,
+    })
+    return updated
+  }
+
+  /**
+   * Add or replace the public merchant reply of a review
+   */
+  async replyToReview(reviewId: string, content: string, actorId: string | null): Promise<any> {
+    const review = await this.retrieveReview(reviewId)
+
+    const updated = await this.updateReview({
+      id: reviewId,
+      reply_content: content,
+      reply_author_id: actorId,
+      replied_at: new Date(),
+    })
+    await this.logModeration({
+      review_id: reviewId,
+      action: "replied",
+      actor_id: actorId,
+      metadata: review.reply_content ? { previous_reply: review.reply_content } : null,
+    })
+    return updated
+  }
+
+  /**
+   * Remove the merchant reply of a review
+   */
+  async removeReply(reviewId: string, actorId: string | null): Promise<any> {
+    const review = await this.retrieveReview(reviewId)
+    if (!review.reply_content) {
+      throw new MedusaError(MedusaError.Types.NOT_FOUND, "Review has no reply")
+    }
+
+    const updated = await this.updateReview({
+      id: reviewId,
+      reply_content: null,
+      reply_author_id: null,
+      replied_at: null,
+    })
+    await this.logModeration({
+      review_id: reviewId,
+      action: "reply_removed",
+      actor_id: actorId,
+      metadata: { previous_reply: review.reply_content },
+    })
+    return updated
+  }
+
+  /**
+   * Moderation history of a review, oldest first
+   */
+  async getModerationLog(reviewId: string): Promise<any[]> {
+    return this.listReviewModerationLogs(
+      { review_id: reviewId },
+      { order: { created_at: "ASC" } }
+    )
+  }
+
+  /**
+   * Orders among the given ones that were already handled by a review request.
+   * Failed requests are left out so they are tried again
+   */
+  async getRequestedOrderIds(orderIds: string[]): Promise<Set<string>> {
+    if (orderIds.length === 0) return new Set()
+    const requests = await this.listReviewRequests(
+      { order_id: orderIds, status: ["sent", "skipped"] },
+      { select: ["order_id"] }
+    )
+    return new Set(requests.map((request) => request.order_id))
+  }
+
+  /**
+   * Record the outcome of a review request, replacing an earlier failed attempt
+   */
+  async recordReviewRequest(data: RecordReviewRequestInput): Promise<any> {
+    const [existing] = await this.listReviewRequests({ order_id: data.order_id }, { take: 1 })
+    const record = {
+      customer_id: data.customer_id ?? null,
+      email: data.email ?? null,
+      status: data.status,
+      item_count: data.item_count ?? 0,
+      sent_at: data.status === "sent" ? new Date() : null,
+      error: data.error ?? null,
+    }
+
+    if (existing) {
+      return this.updateReviewRequests({ id: existing.id, ...record })
+    }
+    return this.createReviewRequests({ order_id: data.order_id, ...record })
+  }
+
+  /**
+   * Products among the given ones the customer has already reviewed
+   */
+  async getReviewedProductIds(customerId: string, productIds: string[]): Promise<Set<string>> {
+    if (productIds.length === 0) return new Set()
+    const reviews = await this.listReviews(
+      { customer_id: customerId, product_id: productIds },
+      { select: ["product_id"] }
+    )
+    return new Set(reviews.map((review) => review.product_id))
+  }
+
+  /**
+   * Record the points awarded for a review
+   */
+  async markReviewRewarded(reviewId: string, points: number): Promise<any> {
+    return this.updateReviews({
+      id: reviewId,
+      rewarded_points: points,
+      rewarded_at: new Date(),
+    })
+  }
+
+  private async logModeration(data: LogModerationInput): Promise<void> {
+    await this.createReviewModerationLogs({
+      review_id: data.review_id,
+      action: data.action,
+      actor_type: data.actor_id ? "admin" : "system",
+      actor_id: data.actor_id ?? null,
+      previous_status: data.previous_status ?? null,
+      new_status: data.new_status ?? null,
+      note: data.note ?? null,
+      metadata: data.metadata ?? null,
+    })
+  }
 }
 
 export default ReviewModuleService
@@ -0,0 +1,63 @@
+import { Migration } from "@mikro-orm/migrations"
+
+export class Migration20260130100000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      alter table if exists "wishlist"
+        add column if not exists "last_notified_price" numeric,
+        add column if not exists "in_stock" boolean,
+        add column if not exists "notified_at" timestamptz;
+    `)
+
+    this.addSql(`
+      create table if not exists "wishlist_alert_preference" (
+        "id" text not null,
+        "customer_id" text not null,
+        "price_drop" boolean not null default true,
+        "back_in_stock" boolean not null default true,
+        "created_at" timestamptz not null default now(),
+        "updated_at" timestamptz not null default now(),
+        "deleted_at" timestamptz,
+        constraint "wishlist_alert_preference_pkey" primary key ("id")
+      );
+    `)
+
+    this.addSql(`
+      create unique index if not exists "IDX_wishlist_alert_preference_customer_id_unique"
+      on "wishlist_alert_preference" ("customer_id") where deleted_at is null;
+    `)
+
+    this.addSql(`
+      create table if not exists "stock_subscription" (
+        "id" text not null,
+        "product_id" text not null,
+        "variant_id" text,
+        "email" text not null,
+        "customer_id" text,
+        "status" text check ("status" in ('active', 'notified', 'cancelled')) not null default 'active',
+        "notified_at" timestamptz,
+        "created_at" timestamptz not null default now(),
+        "updated_at" timestamptz not null default now(),
+        "deleted_at" timestamptz,
+        constraint "stock_subscription_pkey" primary key ("id")
+      );
+    `)
+
+    this.addSql(`
+      create index if not exists "IDX_stock_subscription_active_product"
+      on "stock_subscription" ("product_id") where status = 'active' and deleted_at is null;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`drop table if exists "stock_subscription" cascade;`)
+    this.addSql(`drop table if exists "wishlist_alert_preference" cascade;`)
+
+    this.addSql(`
+      alter table if exists "wishlist"
+        drop column if exists "last_notified_price",
+        drop column if exists "in_stock",
+        drop column if exists "notified_at";
+    `)
+  }
+}
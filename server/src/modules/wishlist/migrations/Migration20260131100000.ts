@@ -0,0 +1,75 @@
+import { Migration } from "@mikro-orm/migrations"
+
+export class Migration20260131100000 extends Migration {
+  async up(): Promise<void> {
+    this.addSql(`
+      create table if not exists "wishlist_list" (
+        "id" text not null,
+        "customer_id" text not null,
+        "name" text not null,
+        "is_default" boolean not null default false,
+        "share_token" text,
+        "shared_at" timestamptz,
+        "created_at" timestamptz not null default now(),
+        "updated_at" timestamptz not null default now(),
+        "deleted_at" timestamptz,
+        constraint "wishlist_list_pkey" primary key ("id")
+      );
+    `)
+
+    this.addSql(`
+      create index if not exists "IDX_wishlist_list_customer_id"
+      on "wishlist_list" ("customer_id") where deleted_at is null;
+    `)
+
+    this.addSql(`
+      create unique index if not exists "IDX_wishlist_list_share_token_unique"
+      on "wishlist_list" ("share_token") where share_token is not null and deleted_at is null;
+    `)
+
+    this.addSql(`
+      alter table if exists "wishlist"
+        add column if not exists "list_id" text,
+        add column if not exists "quantity" integer not null default 1;
+    `)
+
+    // A product may now be on several lists of the same customer
+    this.addSql(`
+      alter table if exists "wishlist" drop constraint if exists "wishlist_customer_product_unique";
+    `)
+
+    this.addSql(`
+      create unique index if not exists "IDX_wishlist_list_product_unique"
+      on "wishlist" ("list_id", "product_id") where deleted_at is null;
+    `)
+
+    // Existing items move to a default list per customer
+    this.addSql(`
+      insert into "wishlist_list" ("id", "customer_id", "name", "is_default")
+      select 'wlist_' || md5("customer_id"), "customer_id", 'My Wishlist', true
+      from "wishlist"
+      where "deleted_at" is null
+      group by "customer_id"
+      on conflict do nothing;
+    `)
+
+    this.addSql(`
+      update "wishlist" as w
+      set "list_id" = l."id"
+      from "wishlist_list" as l
+      where l."customer_id" = w."customer_id" and l."is_default" = true and w."list_id" is null;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`drop index if exists "IDX_wishlist_list_product_unique";`)
+
+    this.addSql(`
+      alter table if exists "wishlist"
+        drop column if exists "list_id",
+        drop column if exists "quantity";
+    `)
+
+    this.addSql(`drop table if exists "wishlist_list" cascade;`)
+  }
+}
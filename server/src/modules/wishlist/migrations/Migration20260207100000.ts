@@ -0,0 +1,21 @@
+import { Migration } from "@mikro-orm/migrations"
+
+export class Migration20260207100000 extends Migration {
+  async up(): Promise<void> {
+    // Guests confirm their stock requests from an email before they count
+    this.addSql(`alter table "stock_subscription" drop constraint if exists "stock_subscription_status_check";`)
+    this.addSql(`
+      alter table "stock_subscription" add constraint "stock_subscription_status_check"
+      check ("status" in ('pending', 'active', 'notified', 'cancelled'));
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`update "stock_subscription" set "status" = 'cancelled' where "status" = 'pending';`)
+    this.addSql(`alter table "stock_subscription" drop constraint if exists "stock_subscription_status_check";`)
+    this.addSql(`
+      alter table "stock_subscription" add constraint "stock_subscription_status_check"
+      check ("status" in ('active', 'notified', 'cancelled'));
+    `)
+  }
+}
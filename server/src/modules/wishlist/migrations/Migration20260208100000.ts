@@ -0,0 +1,28 @@
+import { Migration } from "@mikro-orm/migrations"
+
+export class Migration20260208100000 extends Migration {
+  async up(): Promise<void> {
+    // Concurrent first saves could each create a default list. Keep the oldest
+    // as the default; the others stay as regular lists so no items are lost
+    this.addSql(`
+      update "wishlist_list" set "is_default" = false, "updated_at" = now()
+      where "id" in (
+        select "id" from (
+          select "id", row_number() over (partition by "customer_id" order by "created_at", "id") as rn
+          from "wishlist_list"
+          where "is_default" = true and "deleted_at" is null
+        ) ranked
+        where ranked.rn > 1
+      );
+    `)
+
+    this.addSql(`
+      create unique index if not exists "IDX_wishlist_list_customer_default_unique"
+      on "wishlist_list" ("customer_id") where is_default = true and deleted_at is null;
+    `)
+  }
+
+  async down(): Promise<void> {
+    this.addSql(`drop index if exists "IDX_wishlist_list_customer_default_unique";`)
+  }
+}
@@ -0,0 +1,22 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * StockSubscription Model
+ * A "notify me when available" request for an out of stock product, from a
+ * customer or a guest email
+ * - pending: a guest's request, waiting for them to confirm it from the email
+ * - active: waiting for the product (or variant) to be restocked
+ * - notified: the back in stock email was sent
+ * - cancelled: the customer no longer wants to be told
+ */
+const StockSubscription = model.define("stock_subscription", {
+  id: model.id().primaryKey(),
+  product_id: model.text(),
+  variant_id: model.text().nullable(), // null = any variant of the product
+  email: model.text(),
+  customer_id: model.text().nullable(), // null for guests
+  status: model.enum(["pending", "active", "notified", "cancelled"]).default("active"),
+  notified_at: model.dateTime().nullable(),
+})
+
+export default StockSubscription
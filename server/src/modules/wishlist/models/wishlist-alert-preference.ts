@@ -0,0 +1,15 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * WishlistAlertPreference Model
+ * Which wishlist alert emails a customer receives. Customers without a record
+ * get both
+ */
+const WishlistAlertPreference = model.define("wishlist_alert_preference", {
+  id: model.id().primaryKey(),
+  customer_id: model.text().unique(),
+  price_drop: model.boolean().default(true), // Price fell below the price when wishlisted
+  back_in_stock: model.boolean().default(true), // An out of stock item is available again
+})
+
+export default WishlistAlertPreference
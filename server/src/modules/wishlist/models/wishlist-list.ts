@@ -0,0 +1,17 @@
+import { model } from "@medusajs/framework/utils"
+
+/**
+ * WishlistList Model
+ * A named list of wishlist items. Every customer has one default list, which
+ * is where items saved with the heart button go
+ */
+const WishlistList = model.define("wishlist_list", {
+  id: model.id().primaryKey(),
+  customer_id: model.text(), // Medusa customer ID
+  name: model.text(), // e.g. "CNY reunion dinner"
+  is_default: model.boolean().default(false),
+  share_token: model.text().nullable(), // Set while the list is shared by link
+  shared_at: model.dateTime().nullable(),
+})
+
+export default WishlistList
@@ -7,12 +7,19 @@ import { model } from "@medusajs/framework/utils"
 const Wishlist = model.define("wishlist", {
   id: model.id().primaryKey(),
   customer_id: model.text(), // Medusa customer ID
+  list_id: model.text().nullable(), // WishlistList the item is on, null only for rows saved before lists existed
   product_id: model.text(), // Medusa product ID
   variant_id: model.text().nullable(), // Variant ID (optional, for specific variant tracking)
   title: model.text(), // Product title (denormalized for quick display)
   thumbnail: model.text().nullable(), // Product thumbnail URL
   price: model.number(), // Product price at time of adding
   original_price: model.number().nullable(), // Original price if on discount
+  quantity: model.number().default(1), // How many to buy when adding the list to cart
+
+  // Alert tracking, updated by the wishlist alerts job
+  last_notified_price: model.number().nullable(), // Price of the last price-drop alert, reset once the price is back up
+  in_stock: model.boolean().nullable(), // Availability at the last check, null until first checked
+  notified_at: model.dateTime().nullable(), // Last alert sent for this item
 })
 
 export default Wishlist
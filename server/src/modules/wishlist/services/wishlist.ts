@@ -1,43 +1,94 @@
-import { MedusaService } from "@medusajs/framework/utils"
+import { MedusaError, MedusaService } from "@medusajs/framework/utils"
+import crypto from "crypto"
 import Wishlist from "../models/wishlist"
+import WishlistList from "../models/wishlist-list"
+import WishlistAlertPreference from "../models/wishlist-alert-preference"
+import StockSubscription from "../models/stock-subscription"
 
 interface CreateWishlistItemInput {
   customer_id: string
+  list_id?: string // Defaults to the customer's default list
   product_id: string
   variant_id?: string
   title: string
   thumbnail?: string | null
   price: number
   original_price?: number
+  quantity?: number
+}
+
+interface UpdateWishlistItemInput {
+  quantity?: number
+  list_id?: string // Move the item to another of the customer's lists
+}
+
+export interface WishlistAlertPreferences {
+  price_drop: boolean
+  back_in_stock: boolean
+}
+
+interface WishlistItemCheck {
+  id: string
+  in_stock?: boolean | null
+  last_notified_price?: number | null
+  notified_at?: Date | null
+}
+
+interface StockSubscriptionInput {
+  product_id: string
+  variant_id?: string | null
+  email: string
+  customer_id?: string | null
+  confirmed: boolean // false for guests, who confirm from an email first
+}
+
+const DEFAULT_LIST_NAME = "My Wishlist"
+
+const DEFAULT_ALERT_PREFERENCES: WishlistAlertPreferences = {
+  price_drop: true,
+  back_in_stock: true,
 }
 
 class WishlistModuleService extends MedusaService({
   Wishlist,
+  WishlistList,
+  WishlistAlertPreference,
+  StockSubscription,
 }) {
   /**
-   * Add an item to customer's wishlist
+   * Add an item to one of the customer's lists, the default list unless
+   * list_id is given
    */
   async addItem(input: CreateWishlistItemInput) {
     try {
+      const list = input.list_id
+        ? await this.getCustomerList(input.customer_id, input.list_id)
+        : await this.getDefaultList(input.customer_id)
+
       // Check if already exists
       const existing = await this.listWishlists({
-        customer_id: input.customer_id,
+        list_id: list.id,
         product_id: input.product_id,
       })
 
       if (existing.length > 0) {
+        if (input.quantity && input.quantity !== existing[0].quantity) {
+          return this.updateWishlists({ id: existing[0].id, quantity: input.quantity })
+        }
         return existing[0]
       }
 
       // Create new wishlist item
       const wishlist = await this.createWishlists({
         customer_id: input.customer_id,
+        list_id: list.id,
         product_id: input.product_id,
         variant_id: input.variant_id,
         title: input.title,
         thumbnail: input.thumbnail,
         price: input.price,
         original_price: input.original_price,
+        quantity: input.quantity ?? 1,
       })
 
       return wishlist
@@ -47,7 +98,7 @@ class WishlistModuleService extends MedusaService({
   }
 
   /**
-   * Remove an item from customer's wishlist
+   * Remove a product from every list of the customer
    */
   async removeItem(customer_id: string, product_id: string) {
     try {
@@ -123,6 +174,340 @@ class WishlistModuleService extends MedusaService({
     }
   }
 
+  /**
+   * Get the customer's default list, creating it on first use
+   * A unique index allows one default list per customer, so when a concurrent
+   * request creates it first the create fails and that list is returned
+   */
+  async getDefaultList(customer_id: string) {
+    const [list] = await this.listWishlistLists({ customer_id, is_default: true }, { take: 1 })
+    if (list) {
+      return list
+    }
+
+    try {
+      return await this.createWishlistLists({ customer_id, name: DEFAULT_LIST_NAME, is_default: true })
+    } catch (error) {
+      const [created] = await this.listWishlistLists({ customer_id, is_default: true }, { take: 1 })
+      if (created) {
+        return created
+      }
+      throw error
+    }
+  }
+
+  /**
+   * Get one of the customer's lists
+   * @throws NOT_FOUND when the list doesn't exist or belongs to someone else
+   */
+  async getCustomerList(customer_id: string, list_id: string) {
+    const [list] = await this.listWishlistLists({ id: list_id, customer_id }, { take: 1 })
+    if (!list) {
+      throw new MedusaError(MedusaError.Types.NOT_FOUND, "Wishlist not found")
+    }
+    return list
+  }
+
+  /**
+   * All lists of a customer with their item counts, default list first
+   */
+  async getCustomerLists(customer_id: string) {
+    await this.getDefaultList(customer_id)
+
+    const lists = await this.listWishlistLists(
+      { customer_id },
+      { order: { is_default: "DESC", created_at: "ASC" } }
+    )
+    const items = await this.listWishlists({ customer_id }, { select: ["id", "list_id"] })
+
+    const counts = new Map<string, number>()
+    for (const item of items) {
+      if (item.list_id) {
+        counts.set(item.list_id, (counts.get(item.list_id) || 0) + 1)
+      }
+    }
+
+    return lists.map((list) => ({ ...list, item_count: counts.get(list.id) || 0 }))
+  }
+
+  /**
+   * Items of a list, most recently added first
+   */
+  async getListItems(list_id: string) {
+    return this.listWishlists({ list_id }, { order: { created_at: "DESC" } })
+  }
+
+  async createList(customer_id: string, name: string) {
+    return this.createWishlistLists({ customer_id, name: name.trim() })
+  }
+
+  async renameList(customer_id: string, list_id: string, name: string) {
+    await this.getCustomerList(customer_id, list_id)
+    return this.updateWishlistLists({ id: list_id, name: name.trim() })
+  }
+
+  /**
+   * Delete a list and its items. The default list can only be emptied
+   * @throws NOT_ALLOWED for the default list
+   */
+  async deleteList(customer_id: string, list_id: string) {
+    const list = await this.getCustomerList(customer_id, list_id)
+    if (list.is_default) {
+      throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "The default wishlist cannot be deleted")
+    }
+
+    const items = await this.listWishlists({ list_id }, { select: ["id"] })
+    if (items.length > 0) {
+      await this.deleteWishlists(items.map((item) => item.id))
+    }
+    await this.deleteWishlistLists(list_id)
+
+    return { success: true }
+  }
+
+  /**
+   * Change the quantity of a list item or move it to another list. Moving onto
+   * a list that already has the product keeps that list's item
+   */
+  async updateListItem(
+    customer_id: string,
+    list_id: string,
+    item_id: string,
+    data: UpdateWishlistItemInput
+  ) {
+    const [item] = await this.listWishlists({ id: item_id, list_id, customer_id }, { take: 1 })
+    if (!item) {
+      throw new MedusaError(MedusaError.Types.NOT_FOUND, "Wishlist item not found")
+    }
+
+    if (data.list_id && data.list_id !== list_id) {
+      await this.getCustomerList(customer_id, data.list_id)
+
+      const [duplicate] = await this.listWishlists(
+        { list_id: data.list_id, product_id: item.product_id },
+        { take: 1 }
+      )
+      if (duplicate) {
+        await this.deleteWishlists(item.id)
+        return data.quantity
+          ? this.updateWishlists({ id: duplicate.id, quantity: data.quantity })
+          : duplicate
+      }
+    }
+
+    return this.updateWishlists({
+      id: item.id,
+      ...(data.quantity !== undefined && { quantity: data.quantity }),
+      ...(data.list_id !== undefined && { list_id: data.list_id }),
+    })
+  }
+
+  async removeListItem(customer_id: string, list_id: string, item_id: string) {
+    const items = await this.listWishlists({ id: item_id, list_id, customer_id }, { select: ["id"] })
+    if (items.length > 0) {
+      await this.deleteWishlists(items.map((item) => item.id))
+    }
+    return { success: true }
+  }
+
+  /**
+   * Turn on the share link of a list, keeping the existing link if it has one
+   */
+  async shareList(customer_id: string, list_id: string) {
+    const list = await this.getCustomerList(customer_id, list_id)
+    if (list.share_token) {
+      return list
+    }
+    return this.updateWishlistLists({
+      id: list_id,
+      share_token: crypto.randomBytes(16).toString("hex"),
+      shared_at: new Date(),
+    })
+  }
+
+  /**
+   * Turn off the share link of a list. Sharing again gives a new link
+   */
+  async unshareList(customer_id: string, list_id: string) {
+    await this.getCustomerList(customer_id, list_id)
+    return this.updateWishlistLists({ id: list_id, share_token: null, shared_at: null })
+  }
+
+  /**
+   * A shared list and its items, or null when the link was turned off
+   */
+  async getSharedList(share_token: string) {
+    const [list] = await this.listWishlistLists({ share_token }, { take: 1 })
+    if (!list) {
+      return null
+    }
+    return { list, items: await this.getListItems(list.id) }
+  }
+
+  /**
+   * Get a customer's wishlist alert preferences, both on until changed
+   */
+  async getAlertPreferences(customer_id: string): Promise<WishlistAlertPreferences> {
+    const [preference] = await this.listWishlistAlertPreferences({ customer_id }, { take: 1 })
+    if (!preference) {
+      return { ...DEFAULT_ALERT_PREFERENCES }
+    }
+    return {
+      price_drop: preference.price_drop,
+      back_in_stock: preference.back_in_stock,
+    }
+  }
+
+  /**
+   * Alert preferences of several customers, by customer id
+   */
+  async getAlertPreferencesByCustomer(
+    customer_ids: string[]
+  ): Promise<Map<string, WishlistAlertPreferences>> {
+    const preferences = customer_ids.length > 0
+      ? await this.listWishlistAlertPreferences({ customer_id: customer_ids })
+      : []
+    const byCustomer = new Map(
+      preferences.map((p) => [p.customer_id, { price_drop: p.price_drop, back_in_stock: p.back_in_stock }])
+    )
+    return new Map(
+      customer_ids.map((id) => [id, byCustomer.get(id) || { ...DEFAULT_ALERT_PREFERENCES }])
+    )
+  }
+
+  /**
+   * Turn a customer's wishlist alerts on or off
+   */
+  async updateAlertPreferences(
+    customer_id: string,
+    data: Partial<WishlistAlertPreferences>
+  ): Promise<WishlistAlertPreferences> {
+    const [existing] = await this.listWishlistAlertPreferences({ customer_id }, { take: 1 })
+    const merged = { ...(await this.getAlertPreferences(customer_id)), ...data }
+
+    if (existing) {
+      await this.updateWishlistAlertPreferences({ id: existing.id, ...merged })
+    } else {
+      await this.createWishlistAlertPreferences({ customer_id, ...merged })
+    }
+    return merged
+  }
+
+  /**
+   * Store what the alerts job saw for wishlist items
+   */
+  async recordItemChecks(checks: WishlistItemCheck[]) {
+    if (checks.length === 0) return
+    await this.updateWishlists(checks)
+  }
+
+  /**
+   * Ask to be emailed when a product (or one variant) is back in stock.
+   * Unconfirmed requests start pending. Asking again while a request is
+   * waiting returns the existing one, confirming it if this ask is confirmed
+   * @returns The request, and whether it was created by this call
+   */
+  async subscribeToStock(input: StockSubscriptionInput) {
+    const email = input.email.trim().toLowerCase()
+    const [existing] = await this.listStockSubscriptions(
+      {
+        product_id: input.product_id,
+        variant_id: input.variant_id ?? null,
+        email,
+        status: ["pending", "active"],
+      },
+      { take: 1 }
+    )
+    if (existing) {
+      if (existing.status === "pending" && input.confirmed) {
+        const subscription = await this.updateStockSubscriptions({
+          id: existing.id,
+          status: "active",
+          customer_id: input.customer_id ?? existing.customer_id,
+        })
+        return { subscription, is_new: false }
+      }
+      return { subscription: existing, is_new: false }
+    }
+
+    const subscription = await this.createStockSubscriptions({
+      product_id: input.product_id,
+      variant_id: input.variant_id ?? null,
+      email,
+      customer_id: input.customer_id ?? null,
+      status: input.confirmed ? "active" : "pending",
+    })
+    return { subscription, is_new: true }
+  }
+
+  /**
+   * Confirm a guest's pending stock request from the link in its email
+   * @returns The request, or null when it was cancelled or already answered
+   */
+  async confirmStockSubscription(id: string) {
+    const [subscription] = await this.listStockSubscriptions({ id }, { take: 1 })
+    if (!subscription || (subscription.status !== "pending" && subscription.status !== "active")) {
+      return null
+    }
+    if (subscription.status === "active") {
+      return subscription
+    }
+    return this.updateStockSubscriptions({ id, status: "active" })
+  }
+
+  /**
+   * Cancel one stock request, from the unsubscribe link in its email
+   * @returns The request, or null when it doesn't exist
+   */
+  async cancelStockSubscription(id: string) {
+    const [subscription] = await this.listStockSubscriptions({ id }, { take: 1 })
+    if (!subscription) {
+      return null
+    }
+    if (subscription.status !== "pending" && subscription.status !== "active") {
+      return subscription
+    }
+    return this.updateStockSubscriptions({ id, status: "cancelled" })
+  }
+
+  /**
+   * Cancel a customer's waiting stock requests for a product
+   */
+  async cancelStockSubscriptions(customer_id: string, product_id: string) {
+    const subscriptions = await this.listStockSubscriptions(
+      { customer_id, product_id, status: ["pending", "active"] },
+      { select: ["id"] }
+    )
+    if (subscriptions.length > 0) {
+      await this.updateStockSubscriptions(
+        subscriptions.map((s) => ({ id: s.id, status: "cancelled" as const }))
+      )
+    }
+    return { cancelled: subscriptions.length }
+  }
+
+  /**
+   * Whether a customer is waiting for a product to be restocked
+   */
+  async hasActiveStockSubscription(customer_id: string, product_id: string) {
+    const [, count] = await this.listAndCountStockSubscriptions(
+      { customer_id, product_id, status: "active" },
+      { select: ["id"], take: 1 }
+    )
+    return count > 0
+  }
+
+  /**
+   * Mark stock requests as answered
+   */
+  async markStockSubscriptionsNotified(ids: string[]) {
+    if (ids.length === 0) return
+    const now = new Date()
+    await this.updateStockSubscriptions(
+      ids.map((id) => ({ id, status: "notified" as const, notified_at: now }))
+    )
+  }
+
   /**
    * Get count of items in customer's wishlist
    */
@@ -1,13 +1,25 @@
 import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
 import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
-import type { Logger } from "@medusajs/framework/types"
+import type { ICartModuleService, Logger } from "@medusajs/framework/types"
 import { PROMO_MODULE } from "../modules/promo"
+import { applyAutoPromotionsToCart } from "../utils/auto-promotion-cart"
+import { removeCouponFromCart, syncCouponWithCart } from "../utils/coupon-cart"
+import { clearDeliverySlotOnZoneChange } from "../utils/delivery-slot-cart"
+import { applyDeliveryZoneToCart } from "../utils/delivery-zone-cart"
+import { applyTierDiscountToCart } from "../utils/tier-discount-cart"
 import {
   calculateCartValueExcludingPWP,
   getApplicableBulkTier,
   getBasePrice,
+  validatePWPItem,
   type CartItem,
 } from "../utils/cart-validation"
+import {
+  calculatePWPDiscount,
+  evaluatePWPRule,
+  getCartProductIds,
+  type PWPRuleConditions,
+} from "../utils/pwp-rules"
 
 interface CartUpdatedData {
   id: string
@@ -20,8 +32,19 @@ const processingCarts = new Set<string>()
  * Cart Updated Subscriber
  *
  * Automatically validates and adjusts pricing when cart items are modified:
- * 1. PWP items: Removes if cart value drops below minimum or trigger product removed
+ * 1. PWP items: Removes if cart value drops below minimum, trigger products are removed
+ *    or the reward quantity cap is exceeded; re-prices them when a stepped tier changes
  * 2. Bulk priced items: Adjusts price based on current quantity
+ * 3. Promo reservations: Keeps the coupon/PWP uses held by an active cart alive,
+ *    and releases them when PWP items are removed
+ * 4. Coupon conditions: Re-checks min spend, item scoping and the discount cap,
+ *    re-allocating the coupon discount or removing the coupon
+ * 5. Automatic promotions: Re-evaluates no-code promotions against the final cart
+ * 6. Tier discount: Keeps the member's tier discount in line with the items
+ * 7. Delivery zone: Re-applies the zone rate of the shipping postcode, which
+ *    Medusa resets when it refreshes the cart's shipping methods
+ * 8. Delivery slot: Clears a slot chosen for another service zone than the
+ *    cart's shipping method is in now
  *
  * This prevents pricing exploits where users manipulate cart to keep discounts
  * they're no longer eligible for.
@@ -35,7 +58,6 @@ export default async function cartUpdatedHandler({
 }: SubscriberArgs<CartUpdatedData>): Promise<void> {
   const logger = container.resolve<Logger>("logger")
   const cartModuleService = container.resolve(Modules.CART)
-  const productModuleService = container.resolve(Modules.PRODUCT)
   const pricingModule = container.resolve(Modules.PRICING)
   const query = container.resolve(ContainerRegistrationKeys.QUERY)
   const promoService = container.resolve(PROMO_MODULE) as any
@@ -72,10 +94,16 @@ export default async function cartUpdatedHandler({
     const items = cart.items as CartItem[]
     const itemsToRemove: string[] = []
     const itemsToUpdate: Array<{ id: string; unit_price: number; metadata: any }> = []
+    const pwpDiscountUpdates = new Map<string, { amount: number; metadata: any }>()
 
     // Calculate cart value excluding PWP items
     const cartValueExcludingPWP = calculateCartValueExcludingPWP(items)
 
+    // Products in cart, used to re-check PWP trigger products
+    const cartProductIds = items.some((item) => item.metadata?.is_pwp_item)
+      ? await getCartProductIds(container, items)
+      : new Set<string>()
+
     // ========================================
     // 1. Validate PWP Items
     // ========================================
@@ -108,44 +136,47 @@ export default async function cartUpdatedHandler({
           continue
         }
 
-        if (rule.trigger_type === "cart_value") {
-          const minCartValue = rule.trigger_cart_value || 0
+        // Re-check trigger products, cart value tier and reward quantity cap
+        const ruleConditions = rule as PWPRuleConditions
+        const issue = validatePWPItem(item, items, cartValueExcludingPWP, {
+          rule: ruleConditions,
+          cartProductIds,
+        })
+
+        if (issue) {
+          itemsToRemove.push(item.id)
+          logger.info(`[CART-UPDATED] Marking PWP item ${item.id} for removal - ${issue.message}`)
+          continue
+        }
 
-          if (cartValueExcludingPWP < minCartValue) {
-            // Cart value below minimum - remove PWP item
-            itemsToRemove.push(item.id)
+        // Stepped tiers: keep the discount in line with the tier the cart reaches now
+        const reward = evaluatePWPRule(ruleConditions, cartValueExcludingPWP, cartProductIds).reward
+        const originalPrice = Number(item.metadata.pwp_original_price) || Number(item.unit_price) || 0
+        if (reward && originalPrice > 0) {
+          const discountPerUnit = calculatePWPDiscount(originalPrice, reward)
+          const expectedAmount = discountPerUnit * (Number(item.quantity) || 0)
+          const adjustment = (item.adjustments || []).find((adj) => adj.code === `PWP_${rule.id}`)
+
+          if (
+            discountPerUnit !== Number(item.metadata.pwp_discount_amount) ||
+            !adjustment ||
+            Number(adjustment.amount) !== expectedAmount
+          ) {
+            pwpDiscountUpdates.set(item.id, {
+              amount: expectedAmount,
+              metadata: {
+                ...item.metadata,
+                pwp_discount_amount: discountPerUnit,
+                pwp_discount_type: reward.reward_type,
+                pwp_discount_value: reward.reward_value,
+                pwp_trigger_cart_value: reward.min_cart_value || null,
+              },
+            })
             logger.info(
-              `[CART-UPDATED] Marking PWP item ${item.id} for removal - ` +
-              `cart value $${(cartValueExcludingPWP / 100).toFixed(2)} < min $${(minCartValue / 100).toFixed(2)}`
+              `[CART-UPDATED] Re-pricing PWP item ${item.id}: ` +
+              `${item.metadata.pwp_discount_amount} -> ${discountPerUnit} off per unit`
             )
           }
-        } else if (rule.trigger_type === "product") {
-          // Check if trigger product is still in cart
-          const triggerProductId = rule.trigger_product_id
-          let triggerFound = false
-
-          for (const cartItem of items) {
-            if (cartItem.metadata?.is_pwp_item) continue
-            if (itemsToRemove.includes(cartItem.id)) continue
-            if (!cartItem.variant_id) continue
-
-            try {
-              const variant = await productModuleService.retrieveProductVariant(cartItem.variant_id, {
-                select: ["product_id"],
-              })
-              if (variant?.product_id === triggerProductId) {
-                triggerFound = true
-                break
-              }
-            } catch {
-              // Continue checking
-            }
-          }
-
-          if (!triggerFound) {
-            itemsToRemove.push(item.id)
-            logger.info(`[CART-UPDATED] Marking PWP item ${item.id} for removal - trigger product removed`)
-          }
         }
       } catch (err) {
         // Rule fetch failed - remove to be safe
@@ -241,8 +272,107 @@ export default async function cartUpdatedHandler({
       logger.info(`[CART-UPDATED] Updated ${itemsToUpdate.length} bulk priced items in cart ${cartId}`)
     }
 
-    if (itemsToRemove.length > 0 || itemsToUpdate.length > 0) {
-      logger.info(`[CART-UPDATED] Cart ${cartId} validation complete - ${itemsToRemove.length} removed, ${itemsToUpdate.length} updated`)
+    // Re-price PWP items whose reward tier or quantity changed
+    if (pwpDiscountUpdates.size > 0) {
+      await updatePWPDiscounts(cartModuleService, cartId, items, itemsToRemove, pwpDiscountUpdates)
+      logger.info(`[CART-UPDATED] Re-priced ${pwpDiscountUpdates.size} PWP items in cart ${cartId}`)
+    }
+
+    // ========================================
+    // 4. Sync Promo Reservations
+    // ========================================
+    await syncPromoReservations(container, cart, items, itemsToRemove, logger)
+
+    // ========================================
+    // 5. Re-check Coupon Conditions
+    // ========================================
+    if (!cart.completed_at && cart.metadata?.applied_coupon_id) {
+      try {
+        const currentCart = await cartModuleService.retrieveCart(cartId, {
+          relations: ["items", "items.adjustments"],
+        })
+        const couponSync = await syncCouponWithCart(container, currentCart)
+        if (couponSync?.action === "removed") {
+          logger.info(`[CART-UPDATED] Removed coupon ${couponSync.code} from cart ${cartId} - ${couponSync.reason}`)
+        } else if (couponSync) {
+          logger.info(`[CART-UPDATED] Re-allocated coupon ${couponSync.code} on cart ${cartId} (${couponSync.discount_amount} off)`)
+        }
+      } catch (err) {
+        logger.warn(`[CART-UPDATED] Failed to re-check coupon on cart ${cartId}: ${err}`)
+      }
+    }
+
+    // ========================================
+    // 6. Apply Automatic Promotions
+    // ========================================
+    try {
+      // Re-read the cart - items, adjustments and coupon metadata may have changed above
+      const currentCart = await cartModuleService.retrieveCart(cartId, {
+        relations: ["items", "items.adjustments"],
+      })
+      const evaluation = await applyAutoPromotionsToCart(container, currentCart)
+      if (evaluation && evaluation.applied.length > 0) {
+        logger.info(
+          `[CART-UPDATED] Automatic promotions on cart ${cartId}: ` +
+          `${evaluation.applied.map((p) => p.name).join(", ")} (${evaluation.discount_total} off)`
+        )
+      }
+    } catch (err) {
+      logger.warn(`[CART-UPDATED] Failed to apply automatic promotions to cart ${cartId}: ${err}`)
+    }
+
+    // ========================================
+    // 7. Apply Tier Discount
+    // ========================================
+    try {
+      const currentCart = await cartModuleService.retrieveCart(cartId, {
+        relations: ["items", "items.adjustments"],
+      })
+      const tierDiscount = await applyTierDiscountToCart(container, currentCart)
+      if (tierDiscount) {
+        logger.info(
+          `[CART-UPDATED] Tier discount on cart ${cartId}: ` +
+          `${tierDiscount.name} ${tierDiscount.discount_percentage}% (${tierDiscount.discount_amount} off)`
+        )
+      }
+    } catch (err) {
+      logger.warn(`[CART-UPDATED] Failed to apply tier discount to cart ${cartId}: ${err}`)
+    }
+
+    // ========================================
+    // 8. Apply Delivery Zone Rate
+    // ========================================
+    try {
+      const currentCart = await cartModuleService.retrieveCart(cartId, {
+        relations: ["items", "items.adjustments", "shipping_address", "shipping_methods"],
+      })
+      const deliveryZone = await applyDeliveryZoneToCart(container, currentCart)
+      if (deliveryZone) {
+        logger.info(
+          `[CART-UPDATED] Delivery zone on cart ${cartId}: ` +
+          `${deliveryZone.name} (${deliveryZone.shipping_amount} shipping)`
+        )
+      }
+    } catch (err) {
+      logger.warn(`[CART-UPDATED] Failed to apply delivery zone to cart ${cartId}: ${err}`)
+    }
+
+    // ========================================
+    // 9. Clear Delivery Slot of Another Zone
+    // ========================================
+    try {
+      const currentCart = await cartModuleService.retrieveCart(cartId, {
+        relations: ["shipping_methods"],
+      })
+      if (await clearDeliverySlotOnZoneChange(container, currentCart)) {
+        logger.info(`[CART-UPDATED] Cleared delivery slot of cart ${cartId} after its service zone changed`)
+      }
+    } catch (err) {
+      logger.warn(`[CART-UPDATED] Failed to check delivery slot of cart ${cartId}: ${err}`)
+    }
+
+    if (itemsToRemove.length > 0 || itemsToUpdate.length > 0 || pwpDiscountUpdates.size > 0) {
+      logger.info(`[CART-UPDATED] Cart ${cartId} validation complete - ${itemsToRemove.length} removed, ${itemsToUpdate.length + pwpDiscountUpdates.size} updated`)
     }
   } catch (error) {
     logger.error(`[CART-UPDATED] Cart validation failed for ${cartId}: ${error}`)
@@ -253,6 +383,117 @@ export default async function cartUpdatedHandler({
   }
 }
 
+/**
+ * Set new PWP adjustment amounts and discount metadata
+ * setLineItemAdjustments replaces all adjustments on the cart, so every other
+ * adjustment of the remaining items is passed through unchanged.
+ */
+async function updatePWPDiscounts(
+  cartModuleService: ICartModuleService,
+  cartId: string,
+  items: CartItem[],
+  removedItemIds: string[],
+  updates: Map<string, { amount: number; metadata: any }>
+): Promise<void> {
+  const adjustments = items
+    .filter((item) => !removedItemIds.includes(item.id))
+    .flatMap((item) => {
+      const update = updates.get(item.id)
+      const pwpCode = `PWP_${item.metadata?.pwp_rule_id}`
+      const existing = (item.adjustments || []) as Array<Record<string, any>>
+
+      const kept = existing
+        .filter((adj) => !update || adj.code !== pwpCode)
+        .map((adj) => ({
+          id: adj.id,
+          item_id: item.id,
+          code: adj.code,
+          amount: adj.amount,
+          description: adj.description,
+          promotion_id: adj.promotion_id || null,
+        }))
+
+      if (!update) return kept
+
+      return [
+        ...kept,
+        {
+          item_id: item.id,
+          code: pwpCode,
+          amount: update.amount,
+          description: `PWP: ${item.metadata?.pwp_rule_name}`,
+          promotion_id: null,
+        },
+      ]
+    })
+
+  await cartModuleService.setLineItemAdjustments(cartId, adjustments)
+  await cartModuleService.updateLineItems(
+    Array.from(updates.entries()).map(([id, update]) => ({ id, metadata: update.metadata }))
+  )
+}
+
+/**
+ * Release reservations of removed PWP items and extend the reservations of
+ * promos still in the cart (re-reserving if the cart went idle and lost them).
+ * A coupon that can no longer be reserved is removed from the cart.
+ */
+async function syncPromoReservations(
+  container: SubscriberArgs<CartUpdatedData>["container"],
+  cart: {
+    id: string
+    completed_at?: Date | string | null
+    metadata?: Record<string, unknown> | null
+    items?: any[] | null
+  },
+  items: CartItem[],
+  removedItemIds: string[],
+  logger: Logger
+): Promise<void> {
+  // Reservations of completed carts were already converted by the order-placed subscriber
+  if (cart.completed_at) return
+
+  const promoService = container.resolve(PROMO_MODULE) as any
+
+  // A rule can have several reward items - its use is held while any of them remains
+  const pwpRuleIds = new Set<string>()
+  const keptPWPRuleIds = new Set<string>()
+  for (const item of items) {
+    const pwpRuleId = item.metadata?.is_pwp_item ? item.metadata?.pwp_rule_id : null
+    if (!pwpRuleId) continue
+    pwpRuleIds.add(pwpRuleId)
+    if (!removedItemIds.includes(item.id)) keptPWPRuleIds.add(pwpRuleId)
+  }
+
+  for (const pwpRuleId of pwpRuleIds) {
+    try {
+      if (!keptPWPRuleIds.has(pwpRuleId)) {
+        await promoService.releasePromoReservation("pwp", pwpRuleId, cart.id)
+      } else {
+        const reservation = await promoService.reservePromo("pwp", pwpRuleId, cart.id)
+        if (!reservation) {
+          logger.warn(`[CART-UPDATED] PWP rule ${pwpRuleId} is fully reserved - cart ${cart.id} holds an unreserved PWP item`)
+        }
+      }
+    } catch (err) {
+      logger.warn(`[CART-UPDATED] Failed to sync reservation for PWP rule ${pwpRuleId}: ${err}`)
+    }
+  }
+
+  const couponId = cart.metadata?.applied_coupon_id as string | undefined
+  if (couponId) {
+    try {
+      const reservation = await promoService.reservePromo("coupon", couponId, cart.id)
+      if (!reservation) {
+        const removedCode = await removeCouponFromCart(container, cart)
+        logger.info(`[CART-UPDATED] Removed coupon ${removedCode} from cart ${cart.id} - usage limit reached while cart was idle`)
+      }
+    } catch (err) {
+      logger.warn(`[CART-UPDATED] Failed to sync reservation for coupon ${couponId}: ${err}`)
+    }
+  }
+}
+
 export const config: SubscriberConfig = {
   event: [
     "cart.line_item_created",
@@ -0,0 +1,127 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import type { INotificationModuleService, Logger } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+import { STOREFRONT_URL } from "../lib/constants"
+import { EmailTemplates } from "../modules/email-notifications/templates"
+import { MEMBERSHIP_MODULE } from "../modules/membership"
+import { TIER_CONFIG_MODULE } from "../modules/tier-config"
+import { formatPrice } from "../utils/format-price"
+
+type MembershipTierChangedData = {
+  customer_id: string
+  order_id?: string
+  old_tier: string
+  new_tier: string
+  tier_name: string
+  reason?: string
+}
+
+/**
+ * Customer-facing benefits of a tier, as listed in the upgrade email
+ */
+function describeTierBenefits(tier: any): string[] {
+  const benefits: string[] = []
+
+  if (Number(tier.discount_percentage) > 0) {
+    benefits.push(`${tier.discount_percentage}% off every order`)
+  }
+  if (Number(tier.points_multiplier) > 1) {
+    benefits.push(`${Number(tier.points_multiplier)}x points on purchases`)
+  }
+  if (Number(tier.birthday_voucher_amount) > 0) {
+    benefits.push(`${formatPrice(Number(tier.birthday_voucher_amount))} birthday voucher`)
+  }
+
+  return benefits
+}
+
+/**
+ * Subscriber: membership.tier_changed
+ * Triggered when an order or the daily evaluation job moves a member to another tier
+ * Sends the tier upgrade or downgrade email
+ */
+export default async function membershipTierChangedHandler({
+  event: { data },
+  container,
+}: SubscriberArgs<MembershipTierChangedData>) {
+  const logger = container.resolve<Logger>("logger")
+
+  logger.info(
+    `[TIER-CHANGED] Customer ${data.customer_id}: ${data.old_tier} -> ${data.new_tier}`
+  )
+
+  try {
+    const tierConfigService = container.resolve(TIER_CONFIG_MODULE) as any
+    const [oldTier, newTier] = await Promise.all([
+      tierConfigService.getTierBySlug(data.old_tier),
+      tierConfigService.getTierBySlug(data.new_tier),
+    ])
+
+    if (!oldTier || !newTier) {
+      logger.warn(`[TIER-CHANGED] Unknown tier for customer ${data.customer_id} - no email sent`)
+      return
+    }
+
+    const customerModuleService = container.resolve(Modules.CUSTOMER)
+    const customer = await customerModuleService.retrieveCustomer(data.customer_id)
+    const notificationModuleService = container.resolve<INotificationModuleService>(
+      Modules.NOTIFICATION
+    )
+    const membershipLink = `${STOREFRONT_URL}/profile`
+
+    if (newTier.rank > oldTier.rank) {
+      await notificationModuleService.createNotifications({
+        to: customer.email,
+        channel: "email",
+        template: EmailTemplates.TIER_UPGRADED,
+        data: {
+          emailOptions: {
+            replyTo: "support@lb-frozen.com",
+            subject: `You're now a ${newTier.name} member`,
+          },
+          tierName: newTier.name,
+          previousTierName: oldTier.name,
+          benefits: describeTierBenefits(newTier),
+          membershipLink,
+          firstName: customer.first_name || undefined,
+          preview: `Welcome to ${newTier.name}`,
+        },
+      })
+    } else {
+      // What it takes to win the previous tier back, from the current rolling activity
+      const membershipService = container.resolve(MEMBERSHIP_MODULE) as any
+      const activity = await membershipService.getCustomerActivity(data.customer_id)
+      const orderCount = Number(activity?.rolling_order_count) || 0
+      const spendTotal = Number(activity?.rolling_spend_total) || 0
+      const spendToRegain = Math.max(0, (Number(oldTier.spend_threshold) || 0) - spendTotal)
+
+      await notificationModuleService.createNotifications({
+        to: customer.email,
+        channel: "email",
+        template: EmailTemplates.TIER_DOWNGRADED,
+        data: {
+          emailOptions: {
+            replyTo: "support@lb-frozen.com",
+            subject: `Your membership is now ${newTier.name}`,
+          },
+          tierName: newTier.name,
+          previousTierName: oldTier.name,
+          ordersToRegain: Math.max(0, oldTier.order_threshold - orderCount),
+          spendToRegain: spendToRegain > 0 ? formatPrice(spendToRegain) : undefined,
+          membershipLink,
+          firstName: customer.first_name || undefined,
+          preview: `Your membership has moved to ${newTier.name}`,
+        },
+      })
+    }
+
+    logger.info(`[TIER-CHANGED] Tier change email sent to ${customer.email}`)
+  } catch (error) {
+    logger.error(`[TIER-CHANGED] Failed to send tier change email: ${error}`)
+    // Don't throw - the tier change itself has already been saved
+  }
+}
+
+export const config: SubscriberConfig = {
+  event: "membership.tier_changed",
+}
@@ -1,8 +1,9 @@
 import { Modules } from '@medusajs/framework/utils'
-import { INotificationModuleService, IOrderModuleService, IPaymentModuleService, Logger } from '@medusajs/framework/types'
+import { IEventBusModuleService, INotificationModuleService, IOrderModuleService, IPaymentModuleService, Logger } from '@medusajs/framework/types'
 import { SubscriberArgs, SubscriberConfig } from '@medusajs/medusa'
 import { capturePaymentWorkflow } from '@medusajs/medusa/core-flows'
 import { EmailTemplates } from '../modules/email-notifications/templates'
+import { DELIVERY_SLOT_MODULE } from '../modules/delivery-slot'
 import { MEMBERSHIP_MODULE } from '../modules/membership'
 import { MEMBERSHIP_CONFIG_MODULE } from '../modules/membership-config'
 import { POINTS_MODULE } from '../modules/points'
@@ -116,19 +117,102 @@ export default async function orderPlacedHandler({
     logger.error('Error sending order confirmation notification:', error)
   }
 
-  // Increment coupon usage count if a coupon was used
+  // Resolve the cart the order was placed from - promo reservations are held per cart
+  let cartId: string | null = null
+  try {
+    const query = container.resolve("query")
+    const { data: [orderWithCart] } = await query.graph({
+      entity: "order",
+      fields: ["id", "cart.id"],
+      filters: { id: order.id }
+    })
+    cartId = (orderWithCart as any)?.cart?.id || null
+  } catch (error) {
+    logger.warn(`[ORDER-PLACED] Could not resolve cart for order ${order.id}: ${error}`)
+  }
+
+  // Promos whose usage limit this order went over. The cart-complete check
+  // re-reserves promos, so this only happens when two carts race for the last use
+  const promosOverLimit: string[] = []
+
+  // Convert the coupon reservation into a use if a coupon was used
   const couponId = order.metadata?.applied_coupon_id as string | undefined
   if (couponId) {
     try {
       const promoService = container.resolve(PROMO_MODULE) as any
-      await promoService.incrementCouponUsage(couponId)
-      logger.info(`[ORDER-PLACED] Incremented usage count for coupon ${couponId} (code: ${order.metadata?.applied_coupon_code})`)
+      const counted = await promoService.convertPromoReservation('coupon', couponId, cartId, order.id)
+      if (counted) {
+        logger.info(`[ORDER-PLACED] Incremented usage count for coupon ${couponId} (code: ${order.metadata?.applied_coupon_code})`)
+      } else {
+        promosOverLimit.push(`coupon:${couponId}`)
+        logger.warn(`[ORDER-PLACED] Order ${order.id} used coupon ${couponId} (code: ${order.metadata?.applied_coupon_code}) past its usage limit`)
+      }
+
+      // Record redemption in the ledger (used for per-customer limits and audits)
+      await promoService.recordCouponRedemption({
+        coupon_id: couponId,
+        code: order.metadata?.applied_coupon_code as string,
+        customer_id: order.customer_id || null,
+        email: order.email || null,
+        order_id: order.id,
+        discount_amount: Number(order.metadata?.applied_coupon_discount) || 0,
+        currency_code: (order.metadata?.applied_coupon_currency as string) || undefined,
+      })
     } catch (error) {
       logger.error(`[ORDER-PLACED] Error incrementing coupon usage: ${error}`)
       // Don't fail the order if coupon increment fails
     }
   }
 
+  // Convert PWP reservations into redemptions for each PWP offer in the order
+  const pwpRuleIds = new Set<string>()
+  for (const item of order.items || []) {
+    const itemMetadata = (item as any).metadata
+    if (itemMetadata?.is_pwp_item && itemMetadata?.pwp_rule_id) {
+      pwpRuleIds.add(itemMetadata.pwp_rule_id as string)
+    }
+  }
+  for (const pwpRuleId of pwpRuleIds) {
+    try {
+      const promoService = container.resolve(PROMO_MODULE) as any
+      const counted = await promoService.convertPromoReservation('pwp', pwpRuleId, cartId, order.id)
+      if (counted) {
+        logger.info(`[ORDER-PLACED] Incremented redemption count for PWP rule ${pwpRuleId}`)
+      } else {
+        promosOverLimit.push(`pwp:${pwpRuleId}`)
+        logger.warn(`[ORDER-PLACED] Order ${order.id} redeemed PWP rule ${pwpRuleId} past its usage limit`)
+      }
+    } catch (error) {
+      logger.error(`[ORDER-PLACED] Error incrementing PWP redemption for rule ${pwpRuleId}: ${error}`)
+    }
+  }
+
+  // Flag the order so staff can review it before fulfilment
+  if (promosOverLimit.length > 0) {
+    try {
+      await orderModuleService.updateOrders(order.id, {
+        metadata: { ...order.metadata, promo_over_limit: promosOverLimit },
+      })
+    } catch (error) {
+      logger.error(`[ORDER-PLACED] Error flagging order ${order.id} for promo usage: ${error}`)
+    }
+  }
+
+  // Book the delivery slot chosen at checkout, turning the cart's hold into a booking
+  const deliverySlot = order.metadata?.delivery_slot as { slot_id?: string; date?: string } | undefined
+  if (deliverySlot?.slot_id && deliverySlot?.date) {
+    try {
+      const deliverySlotService = container.resolve(DELIVERY_SLOT_MODULE) as any
+      await deliverySlotService.convertCartReservation(cartId, order.id, {
+        slot_id: deliverySlot.slot_id,
+        date: deliverySlot.date,
+      })
+      logger.info(`[ORDER-PLACED] Booked delivery slot ${deliverySlot.slot_id} on ${deliverySlot.date} for order ${order.id}`)
+    } catch (error) {
+      logger.error(`[ORDER-PLACED] Error booking delivery slot for order ${order.id}: ${error}`)
+    }
+  }
+
   // Process membership, points, and tier evaluation for customers
   if (order.customer_id) {
     const tierConfigService = container.resolve(TIER_CONFIG_MODULE) as any
@@ -301,13 +385,16 @@ export default async function orderPlacedHandler({
             )
 
             // Emit tier change event for notifications
-            const eventBus: any = container.resolve("eventBus")
-            await eventBus.emit("membership.tier_changed", {
-              customer_id: order.customer_id,
-              order_id: order.id,
-              old_tier: oldTierSlug,
-              new_tier: appropriateTier.slug,
-              tier_name: appropriateTier.name,
+            const eventBus = container.resolve<IEventBusModuleService>(Modules.EVENT_BUS)
+            await eventBus.emit({
+              name: "membership.tier_changed",
+              data: {
+                customer_id: order.customer_id,
+                order_id: order.id,
+                old_tier: oldTierSlug,
+                new_tier: appropriateTier.slug,
+                tier_name: appropriateTier.name,
+              },
             })
           }
         }
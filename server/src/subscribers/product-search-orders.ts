@@ -0,0 +1,34 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import type { Logger } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+import { syncProductSearch } from "../utils/product-search"
+
+/**
+ * Subscriber: order.placed
+ * Refreshes the units sold of the ordered products, which popularity sorting
+ * and relevance ranking use
+ */
+export default async function productSearchOrdersHandler({
+  event: { data },
+  container,
+}: SubscriberArgs<{ id: string }>) {
+  const logger = container.resolve<Logger>("logger")
+  const orderModuleService = container.resolve(Modules.ORDER)
+
+  try {
+    const order = await orderModuleService.retrieveOrder(data.id, { relations: ["items"] })
+    const productIds = [
+      ...new Set((order.items || []).map((item) => item.product_id).filter(Boolean)),
+    ] as string[]
+
+    if (productIds.length > 0) {
+      await syncProductSearch(container, productIds)
+    }
+  } catch (error) {
+    logger.error(`[PRODUCT-SEARCH] Failed to sync products of order ${data.id}: ${error}`)
+  }
+}
+
+export const config: SubscriberConfig = {
+  event: "order.placed",
+}
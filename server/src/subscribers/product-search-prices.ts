@@ -0,0 +1,58 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import type { Logger } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { syncProductSearch } from "../utils/product-search"
+
+/**
+ * Subscriber: product-variant.created, product-variant.updated,
+ * product-variant.deleted, price.created, price.updated
+ * Keeps the prices and SKUs of the variant's product in its search document
+ */
+export default async function productSearchPricesHandler({
+  event: { data, name },
+  container,
+}: SubscriberArgs<{ id: string }>) {
+  const logger = container.resolve<Logger>("logger")
+  const query = container.resolve(ContainerRegistrationKeys.QUERY)
+  const productModule = container.resolve(Modules.PRODUCT)
+  const pricingModule = container.resolve(Modules.PRICING)
+
+  try {
+    let variantIds: string[] = [data.id]
+
+    if (name.startsWith("price.")) {
+      // Price -> price set -> variant
+      const [price] = await pricingModule.listPrices({ id: [data.id] }, { select: ["price_set_id"] })
+      if (!price?.price_set_id) return
+
+      const { data: links } = await query.graph({
+        entity: "product_variant_price_set",
+        fields: ["variant_id"],
+        filters: { price_set_id: price.price_set_id },
+      })
+      variantIds = links.map((link: any) => link.variant_id).filter(Boolean)
+    }
+    if (variantIds.length === 0) return
+
+    const variants = await productModule.listProductVariants(
+      { id: variantIds },
+      { select: ["product_id"], withDeleted: true }
+    )
+    const productIds = [...new Set(variants.map((v) => v.product_id).filter(Boolean))] as string[]
+    if (productIds.length > 0) {
+      await syncProductSearch(container, productIds)
+    }
+  } catch (error) {
+    logger.error(`[PRODUCT-SEARCH] Failed to sync after ${name} ${data.id}: ${error}`)
+  }
+}
+
+export const config: SubscriberConfig = {
+  event: [
+    "product-variant.created",
+    "product-variant.updated",
+    "product-variant.deleted",
+    "price.created",
+    "price.updated",
+  ],
+}
@@ -0,0 +1,25 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import type { Logger } from "@medusajs/framework/types"
+import { syncProductSearch } from "../utils/product-search"
+
+/**
+ * Subscriber: product.created, product.updated, product.deleted
+ * Rebuilds the product's search document. Deleted and unpublished products
+ * are dropped from the index
+ */
+export default async function productSearchProductsHandler({
+  event: { data, name },
+  container,
+}: SubscriberArgs<{ id: string }>) {
+  const logger = container.resolve<Logger>("logger")
+
+  try {
+    await syncProductSearch(container, [data.id])
+  } catch (error) {
+    logger.error(`[PRODUCT-SEARCH] Failed to sync product ${data.id} after ${name}: ${error}`)
+  }
+}
+
+export const config: SubscriberConfig = {
+  event: ["product.created", "product.updated", "product.deleted"],
+}
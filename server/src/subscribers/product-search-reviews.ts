@@ -0,0 +1,30 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import type { Logger } from "@medusajs/framework/types"
+import { syncProductSearch } from "../utils/product-search"
+
+type ReviewEventData = {
+  id: string
+  product_id: string
+}
+
+/**
+ * Subscriber: review.created, review.updated, review.deleted
+ * Emitted by the review routes. Refreshes the product's rating in its search
+ * document, which the rating filter and facet use
+ */
+export default async function productSearchReviewsHandler({
+  event: { data, name },
+  container,
+}: SubscriberArgs<ReviewEventData>) {
+  const logger = container.resolve<Logger>("logger")
+
+  try {
+    await syncProductSearch(container, [data.product_id])
+  } catch (error) {
+    logger.error(`[PRODUCT-SEARCH] Failed to sync product ${data.product_id} after ${name}: ${error}`)
+  }
+}
+
+export const config: SubscriberConfig = {
+  event: ["review.created", "review.updated", "review.deleted"],
+}
@@ -0,0 +1,72 @@
+import type { SubscriberArgs, SubscriberConfig } from "@medusajs/framework"
+import type { Logger } from "@medusajs/framework/types"
+import { MEMBERSHIP_MODULE } from "../modules/membership"
+import { POINTS_MODULE } from "../modules/points"
+import { REVIEW_MODULE } from "../modules/review"
+import type ReviewModuleService from "../modules/review/services/review"
+
+type ReviewEventData = {
+  id: string
+  product_id: string
+}
+
+/**
+ * Subscriber: review.created, review.updated
+ * Awards the review points of the points config once a verified purchase
+ * review by a member is published, with the photo bonus when it has images.
+ * A review is rewarded at most once, even if it is hidden and approved again,
+ * and a customer only once per product, even across deleted reviews
+ */
+export default async function reviewRewardPointsHandler({
+  event: { data },
+  container,
+}: SubscriberArgs<ReviewEventData>) {
+  const logger = container.resolve<Logger>("logger")
+  const reviewService = container.resolve<ReviewModuleService>(REVIEW_MODULE)
+  const membershipService = container.resolve(MEMBERSHIP_MODULE) as any
+  const pointsService = container.resolve(POINTS_MODULE) as any
+
+  try {
+    const [review] = await reviewService.listReviews({ id: data.id }, { take: 1 })
+    if (
+      !review ||
+      review.rewarded_at ||
+      review.status !== "approved" ||
+      !review.is_verified_purchase ||
+      !review.customer_id
+    ) {
+      return
+    }
+
+    const isMember = await membershipService.isMember(review.customer_id)
+    if (!isMember) return
+
+    const images = ((review.images as any)?.items || []) as string[]
+    const result = await pointsService.awardReviewPoints({
+      customer_id: review.customer_id,
+      review_id: review.id,
+      product_id: review.product_id,
+      order_id: review.order_id,
+      has_photo: images.length > 0,
+    })
+
+    if (result.already_rewarded) {
+      // Mark it so later updates of this review skip the lookup
+      await reviewService.markReviewRewarded(review.id, 0)
+      logger.info(
+        `[REVIEW-REWARD] Customer ${review.customer_id} was already rewarded for product ${review.product_id}, review ${review.id} earns no points`
+      )
+    } else if (result.points_awarded > 0) {
+      await reviewService.markReviewRewarded(review.id, result.points_awarded)
+      logger.info(
+        `[REVIEW-REWARD] Customer ${review.customer_id} earned ${result.points_awarded} points for review ${review.id}`
+      )
+    }
+  } catch (error) {
+    logger.error(`[REVIEW-REWARD] Failed to reward review ${data.id}: ${error}`)
+  }
+}
+
+export const config: SubscriberConfig = {
+  event: ["review.created", "review.updated"],
+}
@@ -0,0 +1,246 @@
+/**
+ * Automatic Promotion Cart Utility
+ *
+ * Applies automatic (no code) promotions to a cart:
+ * 1. Evaluates the running promotions with the promo module's stacking rules
+ * 2. Sets one AUTO_<promotion id> line item adjustment per discounted line
+ *    (keeping all other adjustments)
+ * 3. Records which promotions applied and why the others didn't in cart
+ *    metadata, so every cart response carries the explanation
+ * 4. Free shipping: sets AUTO_<promotion id> shipping method adjustments and the
+ *    free_shipping_applied metadata read by orders, emails and analytics
+ *
+ * Writes only happen when something changed, so the cart.updated events our
+ * own updates emit settle after one extra pass.
+ */
+
+import type { ICartModuleService, MedusaContainer } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../modules/promo"
+import type PromoModuleService from "../modules/promo/services/promo"
+import type {
+  AppliedAutoPromotion,
+  AutoPromotionEvaluation,
+  SkippedAutoPromotion,
+} from "../modules/promo/services/promo"
+import { loadProductScopes } from "./coupon-discount"
+
+export const AUTO_PROMOTION_CODE_PREFIX = "AUTO_"
+
+type CartWithItems = {
+  id: string
+  completed_at?: Date | string | null
+  metadata?: Record<string, unknown> | null
+  items?: Array<{
+    id: string
+    product_id?: string | null
+    unit_price: number | string | unknown
+    quantity: number | string | unknown
+    metadata?: Record<string, unknown> | null
+    adjustments?: Array<Record<string, any>> | null
+  }> | null
+}
+
+/**
+ * Automatic promotions of a cart, as returned in cart responses
+ */
+export type CartAutoPromotionSummary = {
+  applied: AppliedAutoPromotion[]
+  not_applied: SkippedAutoPromotion[]
+  discount_total: number
+  free_shipping: boolean
+}
+
+function isAutoPromotionAdjustment(adjustment: Record<string, any>): boolean {
+  return typeof adjustment.code === "string" && adjustment.code.startsWith(AUTO_PROMOTION_CODE_PREFIX)
+}
+
+function adjustmentKey(itemId: string, code: string, amount: unknown): string {
+  return `${itemId}:${code}:${Number(amount) || 0}`
+}
+
+/**
+ * Read the automatic promotion explanation stored on a cart
+ */
+export function getCartAutoPromotionSummary(
+  metadata: Record<string, unknown> | null | undefined
+): CartAutoPromotionSummary {
+  return {
+    applied: (metadata?.auto_promotions_applied as AppliedAutoPromotion[] | null) || [],
+    not_applied: (metadata?.auto_promotions_not_applied as SkippedAutoPromotion[] | null) || [],
+    discount_total: Number(metadata?.auto_promotion_discount) || 0,
+    free_shipping: !!metadata?.free_shipping_promotion_id,
+  }
+}
+
+/**
+ * Evaluate and apply automatic promotions to a cart
+ * @param cart - Cart retrieved with items and items.adjustments
+ * @returns The evaluation, or null when the cart is completed or nothing needs evaluating
+ */
+export async function applyAutoPromotionsToCart(
+  container: MedusaContainer,
+  cart: CartWithItems
+): Promise<AutoPromotionEvaluation | null> {
+  if (cart.completed_at) return null
+
+  const cartModuleService = container.resolve<ICartModuleService>(Modules.CART)
+  const promoService = container.resolve<PromoModuleService>(PROMO_MODULE)
+
+  const items = cart.items || []
+  const metadata = cart.metadata || {}
+  const existingAutoAdjustments = items.flatMap((item) =>
+    (item.adjustments || [])
+      .filter(isAutoPromotionAdjustment)
+      .map((adj) => adjustmentKey(item.id, adj.code, adj.amount))
+  )
+
+  // Skip the product lookup when there is nothing to apply and nothing to clear
+  const [running] = await promoService.listAutoPromotions({ status: "active" }, { take: 1, select: ["id"] })
+  if (!running && existingAutoAdjustments.length === 0 && !metadata.auto_promotions_applied && !metadata.auto_promotions_not_applied) {
+    return null
+  }
+
+  const productIds = Array.from(
+    new Set(items.map((item) => item.product_id).filter((id): id is string => !!id))
+  )
+  const scopes = await loadProductScopes(container, productIds)
+
+  const evaluation = await promoService.evaluateAutoPromotions({
+    items: items.map((item) => ({
+      id: item.id,
+      product_id: item.product_id || null,
+      category_ids: item.product_id ? scopes.get(item.product_id)?.category_ids || [] : [],
+      unit_price: Number(item.unit_price) || 0,
+      quantity: Number(item.quantity) || 0,
+      is_pwp_item: !!item.metadata?.is_pwp_item,
+      other_discount: (item.adjustments || [])
+        .filter((adj) => !isAutoPromotionAdjustment(adj))
+        .reduce((sum, adj) => sum + (Number(adj.amount) || 0), 0),
+    })),
+    has_coupon: !!metadata.applied_coupon_code,
+    has_membership_promo: !!metadata.applied_membership_promo_id,
+    has_points: (Number(metadata.points_to_redeem) || 0) > 0,
+  })
+
+  const names = new Map(evaluation.applied.map((promotion) => [promotion.promotion_id, promotion.name]))
+  const autoAdjustments = evaluation.allocations.map((allocation) => ({
+    item_id: allocation.item_id,
+    code: `${AUTO_PROMOTION_CODE_PREFIX}${allocation.promotion_id}`,
+    amount: allocation.amount,
+    description: `Promotion: ${names.get(allocation.promotion_id)}`,
+    promotion_id: null,
+  }))
+
+  const adjustmentsChanged =
+    autoAdjustments.map((adj) => adjustmentKey(adj.item_id, adj.code, adj.amount)).sort().join("|") !==
+    [...existingAutoAdjustments].sort().join("|")
+
+  if (adjustmentsChanged) {
+    // setLineItemAdjustments replaces all adjustments on the cart, so every
+    // other adjustment is passed through unchanged
+    const keptAdjustments = items.flatMap((item) =>
+      (item.adjustments || [])
+        .filter((adj) => !isAutoPromotionAdjustment(adj))
+        .map((adj) => ({
+          id: adj.id,
+          item_id: item.id,
+          code: adj.code,
+          amount: adj.amount,
+          description: adj.description,
+          promotion_id: adj.promotion_id || null,
+        }))
+    )
+
+    await cartModuleService.setLineItemAdjustments(cart.id, [...keptAdjustments, ...autoAdjustments])
+  }
+
+  const freeShippingPromotion = evaluation.applied.find((promotion) => promotion.free_shipping)
+  await syncFreeShippingAdjustments(cartModuleService, cart.id, freeShippingPromotion || null)
+
+  const updates: Record<string, unknown> = {
+    auto_promotions_applied: evaluation.applied.length > 0 ? evaluation.applied : null,
+    auto_promotions_not_applied: evaluation.not_applied.length > 0 ? evaluation.not_applied : null,
+    auto_promotion_discount: evaluation.discount_total || null,
+  }
+
+  if (freeShippingPromotion) {
+    const shipping = metadata.easyparcel_shipping as { price?: number } | undefined
+    updates.free_shipping_applied = true
+    updates.free_shipping_promotion_id = freeShippingPromotion.promotion_id
+    updates.free_shipping_discount = typeof shipping?.price === "number" ? shipping.price : null
+  } else if (metadata.free_shipping_promotion_id) {
+    // Only clear free shipping that an automatic promotion granted
+    updates.free_shipping_applied = null
+    updates.free_shipping_promotion_id = null
+    updates.free_shipping_discount = null
+  }
+
+  const metadataChanged = Object.entries(updates).some(
+    ([key, value]) => JSON.stringify(metadata[key] ?? null) !== JSON.stringify(value)
+  )
+
+  if (metadataChanged) {
+    await cartModuleService.updateCarts(cart.id, {
+      metadata: { ...metadata, ...updates },
+    })
+  }
+
+  return evaluation
+}
+
+/**
+ * Zero the cart's shipping methods while a free shipping promotion applies,
+ * and drop those adjustments again once it no longer does
+ */
+async function syncFreeShippingAdjustments(
+  cartModuleService: ICartModuleService,
+  cartId: string,
+  promotion: AppliedAutoPromotion | null
+): Promise<void> {
+  const shippingMethods = await cartModuleService.listShippingMethods(
+    { cart_id: cartId },
+    { relations: ["adjustments"] }
+  )
+  if (shippingMethods.length === 0) return
+
+  const existing = shippingMethods.flatMap((method) =>
+    (method.adjustments || []).map((adj) => ({ ...adj, shipping_method_id: method.id }))
+  )
+
+  const freeShippingAdjustments = promotion
+    ? shippingMethods
+      .filter((method) => Number(method.amount) > 0)
+      .map((method) => ({
+        shipping_method_id: method.id,
+        code: `${AUTO_PROMOTION_CODE_PREFIX}${promotion.promotion_id}`,
+        amount: Number(method.amount),
+        description: `Promotion: ${promotion.name}`,
+        promotion_id: null,
+      }))
+    : []
+
+  const changed =
+    freeShippingAdjustments.map((adj) => adjustmentKey(adj.shipping_method_id, adj.code, adj.amount)).sort().join("|") !==
+    existing
+      .filter(isAutoPromotionAdjustment)
+      .map((adj) => adjustmentKey(adj.shipping_method_id, adj.code as string, adj.amount))
+      .sort()
+      .join("|")
+
+  if (!changed) return
+
+  // Like line item adjustments, this replaces all shipping adjustments on the cart
+  const kept = existing
+    .filter((adj) => !isAutoPromotionAdjustment(adj))
+    .map((adj) => ({
+      id: adj.id,
+      shipping_method_id: adj.shipping_method_id,
+      code: adj.code as string,
+      amount: adj.amount,
+      description: adj.description,
+      promotion_id: adj.promotion_id || null,
+    }))
+
+  await cartModuleService.setShippingMethodAdjustments(cartId, [...kept, ...freeShippingAdjustments])
+}
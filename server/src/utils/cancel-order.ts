@@ -0,0 +1,352 @@
+/**
+ * Order Cancellation Utility
+ *
+ * Cancels an order and unwinds everything placing it did:
+ * 1. Claims the cancellation by atomically moving the order extension to cancelled
+ * 2. Refunds a captured Stripe payment, or voids one that is only authorized
+ * 3. Sets the payment status and marks the order canceled, recording who
+ *    cancelled it in order metadata
+ * 4. Takes back the points earned on the order and restores points redeemed on it
+ * 5. Releases the inventory reserved for the order's items
+ * 6. Gives back the coupon and PWP uses the order took
+ * 7. Frees the delivery slot booked for the order
+ * 8. Emails the customer
+ *
+ * If the payment can't be refunded or voided, the claim is released and the
+ * error is thrown, so the order is left as it was. Steps after the refund are
+ * best effort - a failure is logged and reported in the result, but the order
+ * stays cancelled.
+ * Callers check beforehand that the order may be cancelled.
+ */
+
+import type {
+  INotificationModuleService,
+  Logger,
+  MedusaContainer,
+} from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/framework/utils"
+import Stripe from "stripe"
+import { STOREFRONT_URL, STRIPE_API_KEY } from "../lib/constants"
+import { DELIVERY_SLOT_MODULE } from "../modules/delivery-slot"
+import { EmailTemplates } from "../modules/email-notifications/templates"
+import { ORDER_EXTENSION_MODULE } from "../modules/order-extension"
+import { POINTS_MODULE } from "../modules/points"
+import { PROMO_MODULE } from "../modules/promo"
+import { formatPrice } from "./format-price"
+
+export type CancelledBy = "customer" | "admin"
+
+export type CancelOrderOptions = {
+  cancelled_by: CancelledBy
+  reason?: string
+}
+
+export type CancelOrderRefundResult = {
+  refunded: boolean
+  /** The payment was only authorized, so the authorization was released instead */
+  voided?: boolean
+  amount?: number
+  stripe_refund_id?: string
+}
+
+export type CancelOrderResult = {
+  order: any
+  payment_status: string
+  refund: CancelOrderRefundResult
+  points: { points_deducted: number; points_restored: number; new_balance: number } | null
+  inventory_released: number
+  promos_restored: string[]
+  delivery_slot_released: boolean
+}
+
+/**
+ * Refund a captured Stripe payment, or cancel an uncaptured payment intent
+ * Throws when there is a Stripe payment that couldn't be refunded or voided
+ */
+async function refundOrVoidPayment(
+  container: MedusaContainer,
+  orderId: string,
+  cancelledBy: CancelledBy,
+  logger: Logger
+): Promise<CancelOrderRefundResult> {
+  const query = container.resolve(ContainerRegistrationKeys.QUERY)
+
+  const { data: ordersWithPayments } = await query.graph({
+    entity: "order",
+    filters: { id: orderId },
+    fields: [
+      "id",
+      "payment_collections.payments.id",
+      "payment_collections.payments.provider_id",
+      "payment_collections.payments.captured_at",
+      "payment_collections.payments.canceled_at",
+      "payment_collections.payments.data",
+      "payment_collections.payments.amount",
+    ],
+  })
+
+  const payments = ((ordersWithPayments[0] as any)?.payment_collections || [])
+    .flatMap((collection: any) => collection.payments || [])
+    .filter((p: any) => p.provider_id === "pp_stripe_stripe" && !p.canceled_at)
+
+  const payment = payments.find((p: any) => p.captured_at) || payments[0]
+  if (!payment) {
+    logger.info(`[CANCEL] No Stripe payment found for order ${orderId}, no refund needed`)
+    return { refunded: false }
+  }
+
+  if (!STRIPE_API_KEY) {
+    throw new Error("Stripe API key not configured")
+  }
+
+  const paymentIntentId = (payment.data as any)?.id
+  if (!paymentIntentId) {
+    throw new Error("Could not find payment intent ID")
+  }
+
+  const stripe = new Stripe(STRIPE_API_KEY, {
+    // @ts-ignore - Using latest Stripe API version
+    apiVersion: "2024-12-18.acacia",
+  })
+
+  if (!payment.captured_at) {
+    const paymentIntent = await stripe.paymentIntents.cancel(paymentIntentId, {
+      cancellation_reason: "requested_by_customer",
+    })
+
+    logger.info(`[CANCEL] Stripe authorization voided for order ${orderId}: payment_intent=${paymentIntentId}`)
+    return { refunded: false, voided: true, amount: paymentIntent.amount }
+  }
+
+  const stripeRefund = await stripe.refunds.create({
+    payment_intent: paymentIntentId,
+    reason: "requested_by_customer",
+    metadata: {
+      order_id: orderId,
+      cancellation_reason: "order_cancelled",
+      cancelled_by: cancelledBy,
+    },
+  })
+
+  logger.info(
+    `[CANCEL] Stripe refund processed for order ${orderId}: refund_id=${stripeRefund.id}, amount=${stripeRefund.amount}`
+  )
+  return { refunded: true, amount: stripeRefund.amount, stripe_refund_id: stripeRefund.id }
+}
+
+/**
+ * Delete the inventory reservations held for the order's line items
+ * @returns Number of reservations released
+ */
+async function releaseReservedInventory(
+  container: MedusaContainer,
+  order: any
+): Promise<number> {
+  const itemIds = (order.items || []).map((item: any) => item.id)
+  if (itemIds.length === 0) return 0
+
+  const inventoryModule = container.resolve(Modules.INVENTORY)
+  const reservations = await inventoryModule.listReservationItems({ line_item_id: itemIds })
+  if (reservations.length === 0) return 0
+
+  await inventoryModule.deleteReservationItems(reservations.map((r) => r.id))
+  return reservations.length
+}
+
+/**
+ * Give back the coupon and PWP uses counted when the order was placed
+ * @returns IDs of the promos whose use was restored
+ */
+async function restorePromoUsage(
+  container: MedusaContainer,
+  order: any,
+  logger: Logger
+): Promise<string[]> {
+  const promoService = container.resolve(PROMO_MODULE) as any
+  const restored: string[] = []
+
+  // Uses past the usage limit were never counted (see the order.placed subscriber)
+  const overLimit = new Set<string>(order.metadata?.promo_over_limit || [])
+
+  const couponId = order.metadata?.applied_coupon_id as string | undefined
+  if (couponId) {
+    try {
+      // The redemption is still recorded, so it is removed even when uncounted
+      await promoService.restorePromoUsage(
+        "coupon",
+        couponId,
+        order.id,
+        !overLimit.has(`coupon:${couponId}`)
+      )
+      restored.push(couponId)
+    } catch (error) {
+      logger.error(`[CANCEL] Error restoring usage of coupon ${couponId}: ${error}`)
+    }
+  }
+
+  const pwpRuleIds = new Set<string>()
+  for (const item of order.items || []) {
+    if (item.metadata?.is_pwp_item && item.metadata?.pwp_rule_id) {
+      pwpRuleIds.add(item.metadata.pwp_rule_id as string)
+    }
+  }
+  for (const pwpRuleId of pwpRuleIds) {
+    if (overLimit.has(`pwp:${pwpRuleId}`)) {
+      continue
+    }
+    try {
+      await promoService.restorePromoUsage("pwp", pwpRuleId, order.id)
+      restored.push(pwpRuleId)
+    } catch (error) {
+      logger.error(`[CANCEL] Error restoring redemption of PWP rule ${pwpRuleId}: ${error}`)
+    }
+  }
+
+  return restored
+}
+
+/**
+ * Cancel an order, refund it and release what it held
+ * @param order - Order retrieved with items
+ */
+export async function cancelOrder(
+  container: MedusaContainer,
+  order: any,
+  options: CancelOrderOptions
+): Promise<CancelOrderResult> {
+  const logger = container.resolve<Logger>("logger")
+  const orderModule = container.resolve(Modules.ORDER)
+  const orderExtensionService = container.resolve(ORDER_EXTENSION_MODULE) as any
+
+  const extension = await orderExtensionService.getOrCreate(order.id)
+  const claimed = extension.fulfillment_status !== "cancelled" &&
+    await orderExtensionService.claimCancellation(order.id, extension.fulfillment_status)
+  if (!claimed) {
+    throw new MedusaError(MedusaError.Types.NOT_ALLOWED, "This order is already cancelled")
+  }
+
+  let refund: CancelOrderRefundResult
+  try {
+    refund = await refundOrVoidPayment(container, order.id, options.cancelled_by, logger)
+  } catch (refundError: any) {
+    logger.error(`[CANCEL] Error processing refund for order ${order.id}: ${refundError.message}`)
+    await orderExtensionService.updateOrderExtensions({
+      id: extension.id,
+      fulfillment_status: extension.fulfillment_status,
+    })
+    throw new MedusaError(
+      MedusaError.Types.UNEXPECTED_STATE,
+      "The payment could not be refunded, so the order was not cancelled. Please try again or contact support."
+    )
+  }
+
+  // A released authorization counts as refunded, like Medusa's canceled payments
+  const paymentStatus = refund.refunded || refund.voided ? "refunded" : extension.payment_status
+  await orderExtensionService.updateOrderExtensions({
+    id: extension.id,
+    payment_status: paymentStatus,
+  })
+
+  const [updatedOrder] = await orderModule.updateOrders([
+    {
+      id: order.id,
+      status: "canceled",
+      metadata: {
+        ...(order.metadata || {}),
+        cancelled_by: options.cancelled_by,
+        cancelled_at: new Date().toISOString(),
+        cancellation_reason: options.reason || null,
+      },
+    },
+  ])
+
+  let points: CancelOrderResult["points"] = null
+  if (order.customer_id) {
+    try {
+      const pointsService = container.resolve(POINTS_MODULE) as any
+      const [pointsEarned, pointsRedeemed] = await Promise.all([
+        pointsService.getPointsEarnedFromOrder(order.customer_id, order.id),
+        pointsService.getPointsRedeemedOnOrder(order.customer_id, order.id),
+      ])
+
+      if (pointsEarned > 0 || pointsRedeemed > 0) {
+        points = await pointsService.handleCancelOrderPoints({
+          customer_id: order.customer_id,
+          order_id: order.id,
+          points_to_deduct: pointsEarned,
+          points_to_restore: pointsRedeemed,
+        })
+
+        logger.info(
+          `[CANCEL] Points adjusted for order ${order.id}: ` +
+          `deducted=${points!.points_deducted}, restored=${points!.points_restored}, ` +
+          `new_balance=${points!.new_balance}`
+        )
+      }
+    } catch (pointsError: any) {
+      logger.error(`[CANCEL] Error adjusting points for order ${order.id}: ${pointsError.message}`)
+    }
+  }
+
+  let inventoryReleased = 0
+  try {
+    inventoryReleased = await releaseReservedInventory(container, order)
+    logger.info(`[CANCEL] Released ${inventoryReleased} inventory reservation(s) for order ${order.id}`)
+  } catch (inventoryError: any) {
+    logger.error(`[CANCEL] Error releasing inventory for order ${order.id}: ${inventoryError.message}`)
+  }
+
+  const promosRestored = await restorePromoUsage(container, order, logger)
+
+  let deliverySlotReleased = false
+  if (order.metadata?.delivery_slot) {
+    try {
+      const deliverySlotService = container.resolve(DELIVERY_SLOT_MODULE) as any
+      deliverySlotReleased = await deliverySlotService.releaseOrderBooking(order.id)
+    } catch (slotError: any) {
+      logger.error(`[CANCEL] Error releasing delivery slot for order ${order.id}: ${slotError.message}`)
+    }
+  }
+
+  if (order.email) {
+    try {
+      const notificationModuleService = container.resolve<INotificationModuleService>(
+        Modules.NOTIFICATION
+      )
+      await notificationModuleService.createNotifications({
+        to: order.email,
+        channel: "email",
+        template: EmailTemplates.ORDER_CANCELLED,
+        data: {
+          emailOptions: {
+            replyTo: "support@lb-frozen.com",
+            subject: `Your order #${order.display_id} has been cancelled`,
+          },
+          orderNumber: String(order.display_id),
+          cancelledBy: options.cancelled_by,
+          items: (order.items || []).map((item: any) => ({
+            title: item.product_title || item.title,
+            quantity: Number(item.quantity) || 0,
+          })),
+          refundAmount: refund.refunded && refund.amount ? formatPrice(refund.amount) : undefined,
+          paymentReleased: refund.voided || undefined,
+          pointsRestored: points?.points_restored || undefined,
+          shopLink: `${STOREFRONT_URL}/products`,
+          preview: `Order #${order.display_id} has been cancelled`,
+        },
+      })
+    } catch (emailError) {
+      logger.error(`[CANCEL] Failed to send cancellation email for order ${order.id}: ${emailError}`)
+    }
+  }
+
+  return {
+    order: updatedOrder,
+    payment_status: paymentStatus,
+    refund,
+    points,
+    inventory_released: inventoryReleased,
+    promos_restored: promosRestored,
+    delivery_slot_released: deliverySlotReleased,
+  }
+}
@@ -10,6 +10,13 @@
  * - User adds $100 worth to get PWP 50% off, then removes items but keeps PWP discount
  */
 
+import {
+  countPWPRewardQuantity,
+  evaluatePWPRule,
+  getPWPMaxRewardQuantity,
+  type PWPRuleConditions,
+} from "./pwp-rules"
+
 export interface CartItem {
   id: string
   variant_id: string | null
@@ -24,6 +31,10 @@ export interface CartItem {
     pwp_trigger_type?: string
     pwp_trigger_cart_value?: number
     pwp_trigger_product_id?: string
+    pwp_trigger_product_ids?: string[]
+    pwp_trigger_match?: "any" | "all"
+    pwp_reward_tiers?: unknown
+    pwp_max_reward_quantity?: number
     is_bulk_price?: boolean
     bulk_min_quantity?: number
     bulk_tier_price?: number
@@ -42,7 +53,11 @@ export interface CartItem {
 export interface ValidationIssue {
   item_id: string
   variant_id: string | null
-  issue_type: "pwp_ineligible" | "bulk_quantity_below_minimum" | "trigger_product_removed"
+  issue_type:
+    | "pwp_ineligible"
+    | "pwp_quantity_exceeded"
+    | "bulk_quantity_below_minimum"
+    | "trigger_product_removed"
   message: string
   current_value?: number
   required_value?: number
@@ -90,42 +105,87 @@ export function calculateCartValueAtOriginalPrices(items: CartItem[]): number {
   }, 0)
 }
 
+/**
+ * Rebuild the rule conditions stored on a PWP item when it was added to the cart
+ */
+function getPWPConditionsFromMetadata(item: CartItem): PWPRuleConditions {
+  const metadata = item.metadata || {}
+  return {
+    id: metadata.pwp_rule_id || "",
+    name: metadata.pwp_rule_name || "",
+    trigger_type: metadata.pwp_trigger_type === "cart_value" ? "cart_value" : "product",
+    trigger_product_id: metadata.pwp_trigger_product_id || null,
+    trigger_product_ids: metadata.pwp_trigger_product_ids,
+    trigger_match: metadata.pwp_trigger_match || "any",
+    trigger_cart_value: metadata.pwp_trigger_cart_value || null,
+    reward_type: "percentage",
+    reward_value: 0,
+    reward_tiers: metadata.pwp_reward_tiers,
+    max_reward_quantity: metadata.pwp_max_reward_quantity || null,
+  }
+}
+
 /**
  * Validate PWP item eligibility
- * PWP items require certain conditions to be met (cart value or trigger product)
+ * PWP items require certain conditions to be met (cart value tier, trigger
+ * products) and the rule's reward items in the cart must stay within its cap.
+ *
+ * @param context.rule - Current rule; falls back to the conditions stored on the item
+ * @param context.cartProductIds - Products of non-PWP items; the trigger product
+ *   check is skipped without it since the utility has no product module access
  */
 export function validatePWPItem(
   pwpItem: CartItem,
   allItems: CartItem[],
-  cartValueExcludingPWP: number
+  cartValueExcludingPWP: number,
+  context: { rule?: PWPRuleConditions; cartProductIds?: Set<string> } = {}
 ): ValidationIssue | null {
   const metadata = pwpItem.metadata
   if (!metadata?.is_pwp_item) return null
 
-  const triggerType = metadata.pwp_trigger_type
+  const rule = context.rule || getPWPConditionsFromMetadata(pwpItem)
+  const ruleName = rule.name || metadata.pwp_rule_name
+  const evaluation = evaluatePWPRule(rule, cartValueExcludingPWP, context.cartProductIds || null)
 
-  if (triggerType === "cart_value") {
-    const minCartValue = metadata.pwp_trigger_cart_value || 0
+  // Trigger products are checked first - no amount needed means the products are missing
+  if (!evaluation.trigger_met && evaluation.amount_needed === null) {
+    return {
+      item_id: pwpItem.id,
+      variant_id: pwpItem.variant_id,
+      issue_type: "trigger_product_removed",
+      message: `Trigger product for "${ruleName}" offer is no longer in cart`,
+      recommended_action: "remove_item",
+    }
+  }
 
-    if (cartValueExcludingPWP < minCartValue) {
-      return {
-        item_id: pwpItem.id,
-        variant_id: pwpItem.variant_id,
-        issue_type: "pwp_ineligible",
-        message: `Cart value ($${(cartValueExcludingPWP / 100).toFixed(2)}) is below the minimum ($${(minCartValue / 100).toFixed(2)}) required for "${metadata.pwp_rule_name}" offer`,
-        current_value: cartValueExcludingPWP,
-        required_value: minCartValue,
-        recommended_action: "remove_item",
-      }
+  if (!evaluation.trigger_met) {
+    const minCartValue = cartValueExcludingPWP + (evaluation.amount_needed || 0)
+    return {
+      item_id: pwpItem.id,
+      variant_id: pwpItem.variant_id,
+      issue_type: "pwp_ineligible",
+      message: `Cart value ($${(cartValueExcludingPWP / 100).toFixed(2)}) is below the minimum ($${(minCartValue / 100).toFixed(2)}) required for "${ruleName}" offer`,
+      current_value: cartValueExcludingPWP,
+      required_value: minCartValue,
+      recommended_action: "remove_item",
     }
-  } else if (triggerType === "product") {
-    const triggerProductId = metadata.pwp_trigger_product_id
-
-    if (triggerProductId) {
-      // Check if trigger product variant is still in cart
-      // Note: We need variant's product_id, which isn't stored here
-      // This check would need to be done at API level with product module access
-      // For now, we'll skip this check in the utility
+  }
+
+  // Reward items added earlier use up the cap first
+  const maxQuantity = getPWPMaxRewardQuantity(rule)
+  const itemIndex = allItems.findIndex((item) => item.id === pwpItem.id)
+  const earlierItems = itemIndex >= 0 ? allItems.slice(0, itemIndex + 1) : [...allItems, pwpItem]
+  const quantity = countPWPRewardQuantity(earlierItems, rule.id || metadata.pwp_rule_id || "")
+
+  if (quantity > maxQuantity) {
+    return {
+      item_id: pwpItem.id,
+      variant_id: pwpItem.variant_id,
+      issue_type: "pwp_quantity_exceeded",
+      message: `Only ${maxQuantity} reward item(s) are allowed for "${ruleName}" offer`,
+      current_value: quantity,
+      required_value: maxQuantity,
+      recommended_action: "remove_item",
     }
   }
 
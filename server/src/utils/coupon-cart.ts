@@ -0,0 +1,196 @@
+/**
+ * Coupon Cart Utility
+ *
+ * Removes an applied coupon from a cart:
+ * 1. Drops the coupon's line item adjustments (keeping all other adjustments)
+ * 2. Clears the applied_coupon_* cart metadata
+ * 3. Releases the coupon use reserved for the cart
+ *
+ * And keeps an applied coupon in line with the cart as items change: the
+ * discount is re-calculated and re-allocated, or the coupon removed once the
+ * cart stops meeting its conditions.
+ */
+
+import type { ICartModuleService, Logger, MedusaContainer } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+import { PROMO_MODULE } from "../modules/promo"
+import type PromoModuleService from "../modules/promo/services/promo"
+import { calculateCouponDiscount } from "./coupon-discount"
+
+type CartWithCoupon = {
+  id: string
+  metadata?: Record<string, unknown> | null
+  items?: Array<{
+    id: string
+    product_id?: string | null
+    unit_price?: unknown
+    quantity?: unknown
+    adjustments?: Array<Record<string, any>> | null
+  }> | null
+}
+
+export type CouponSyncResult =
+  | { action: "removed"; code: string; reason: string }
+  | { action: "reallocated"; code: string; discount_amount: number }
+
+/**
+ * Remove the applied coupon from a cart
+ * @param cart - Cart retrieved with items and items.adjustments
+ * @returns The removed coupon code, or null if no coupon was applied
+ */
+export async function removeCouponFromCart(
+  container: MedusaContainer,
+  cart: CartWithCoupon
+): Promise<string | null> {
+  const cartModuleService = container.resolve<ICartModuleService>(Modules.CART)
+  const promoService = container.resolve<PromoModuleService>(PROMO_MODULE)
+  const logger = container.resolve<Logger>("logger")
+
+  const appliedCode = cart.metadata?.applied_coupon_code as string | undefined
+  if (!appliedCode) {
+    return null
+  }
+
+  // In Medusa v2, setLineItemAdjustments replaces all adjustments on the cart,
+  // so collect the remaining adjustments of every item and set them in one call
+  const couponAdjustmentCode = `COUPON_${appliedCode}`
+  const hasCouponAdjustment = (cart.items || []).some((item) =>
+    (item.adjustments || []).some((adj) => adj.code === couponAdjustmentCode)
+  )
+
+  if (hasCouponAdjustment) {
+    // Keep only non-coupon adjustments
+    const remainingAdjustments = (cart.items || []).flatMap((item) =>
+      (item.adjustments || [])
+        .filter((adj) => adj.code !== couponAdjustmentCode)
+        .map((adj) => ({
+          id: adj.id,
+          item_id: item.id,
+          code: adj.code,
+          amount: adj.amount,
+          description: adj.description,
+          promotion_id: adj.promotion_id || null,
+        }))
+    )
+
+    await cartModuleService.setLineItemAdjustments(cart.id, remainingAdjustments)
+  }
+
+  // Release the reserved coupon use
+  const couponId = cart.metadata?.applied_coupon_id as string | undefined
+  if (couponId) {
+    try {
+      await promoService.releasePromoReservation("coupon", couponId, cart.id)
+    } catch (error) {
+      logger.warn(`[COUPON] Failed to release reservation of coupon ${couponId} for cart ${cart.id}: ${error}`)
+    }
+  }
+
+  // Clear coupon metadata by setting values to null
+  // Using null instead of delete to ensure proper clearing in database
+  const metadata = { ...cart.metadata }
+  metadata.applied_coupon_code = null
+  metadata.applied_coupon_id = null
+  metadata.applied_coupon_name = null
+  metadata.applied_coupon_type = null
+  metadata.applied_coupon_value = null
+  metadata.applied_coupon_discount = null
+  metadata.applied_coupon_currency = null
+
+  await cartModuleService.updateCarts(cart.id, {
+    metadata,
+  })
+
+  return appliedCode
+}
+
+/**
+ * Re-check the applied coupon against the current cart items
+ * Min spend, item scoping and the discount cap are evaluated again, so items
+ * removed after applying the coupon can't keep a discount they no longer earn.
+ * @param cart - Cart retrieved with items and items.adjustments
+ * @returns What changed, or null when the coupon still matches the cart
+ */
+export async function syncCouponWithCart(
+  container: MedusaContainer,
+  cart: CartWithCoupon
+): Promise<CouponSyncResult | null> {
+  const couponId = cart.metadata?.applied_coupon_id as string | undefined
+  const appliedCode = cart.metadata?.applied_coupon_code as string | undefined
+  if (!couponId || !appliedCode) {
+    return null
+  }
+
+  const cartModuleService = container.resolve<ICartModuleService>(Modules.CART)
+  const promoService = container.resolve<PromoModuleService>(PROMO_MODULE)
+
+  const [coupon] = await promoService.listCoupons({ id: couponId })
+  const now = new Date()
+  let reason: string | null = null
+  if (!coupon || coupon.status !== "active") {
+    reason = "This coupon is no longer active"
+  } else if (coupon.ends_at && new Date(coupon.ends_at) < now) {
+    reason = "This coupon has expired"
+  }
+
+  const items = (cart.items || []).map((item) => ({
+    id: item.id,
+    product_id: item.product_id,
+    unit_price: item.unit_price,
+    quantity: item.quantity,
+  }))
+  const discount = reason ? null : await calculateCouponDiscount(container, coupon, items)
+  reason = reason || discount?.error || null
+
+  if (reason || !discount) {
+    await removeCouponFromCart(container, cart)
+    return { action: "removed", code: appliedCode, reason: reason || "Coupon removed" }
+  }
+
+  // Nothing to do when every item already carries its allocated amount
+  const couponAdjustmentCode = `COUPON_${appliedCode}`
+  const allocated = new Map(discount.allocations.map((a) => [a.item_id, a.amount]))
+  const unchanged = (cart.items || []).every((item) => {
+    const current = (item.adjustments || [])
+      .filter((adj) => adj.code === couponAdjustmentCode)
+      .reduce((sum, adj) => sum + Number(adj.amount), 0)
+    return current === (allocated.get(item.id) || 0)
+  })
+  if (unchanged && Number(cart.metadata?.applied_coupon_discount) === discount.discount_amount) {
+    return null
+  }
+
+  // setLineItemAdjustments replaces all adjustments on the cart
+  const adjustments = (cart.items || []).flatMap((item) => {
+    const kept = (item.adjustments || [])
+      .filter((adj) => adj.code !== couponAdjustmentCode)
+      .map((adj) => ({
+        id: adj.id,
+        item_id: item.id,
+        code: adj.code,
+        amount: adj.amount,
+        description: adj.description,
+        promotion_id: adj.promotion_id || null,
+      }))
+    const amount = allocated.get(item.id)
+    if (!amount) return kept
+
+    return [
+      ...kept,
+      {
+        item_id: item.id,
+        code: couponAdjustmentCode,
+        amount,
+        description: `Coupon: ${appliedCode} (${coupon.name})`,
+        promotion_id: null,
+      },
+    ]
+  })
+
+  await cartModuleService.setLineItemAdjustments(cart.id, adjustments)
+  await cartModuleService.updateCarts(cart.id, {
+    metadata: { ...cart.metadata, applied_coupon_discount: discount.discount_amount },
+  })
+
+  return { action: "reallocated", code: appliedCode, discount_amount: discount.discount_amount }
+}
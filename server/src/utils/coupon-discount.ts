@@ -0,0 +1,240 @@
+/**
+ * Coupon Discount Utility
+ *
+ * Calculates coupon discounts under the coupon's cart conditions:
+ * 1. Minimum cart subtotal
+ * 2. Product / category / brand include and exclude lists
+ * 3. Maximum discount cap for percentage coupons
+ *
+ * The discount is only allocated to eligible line items, proportionally
+ * to each item's line total, so returns and refunds can prorate it per item.
+ */
+
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+
+export interface CouponCartItem {
+  id: string
+  product_id?: string | null
+  unit_price: number | string | unknown
+  quantity: number | string | unknown
+}
+
+/**
+ * Coupon fields used for discount calculation
+ */
+export interface CouponDiscountRules {
+  type: "percentage" | "fixed"
+  value: number
+  min_subtotal?: number | null
+  max_discount_amount?: number | null
+  include_product_ids?: unknown
+  exclude_product_ids?: unknown
+  include_category_ids?: unknown
+  exclude_category_ids?: unknown
+  include_brand_ids?: unknown
+  exclude_brand_ids?: unknown
+}
+
+export interface CouponItemAllocation {
+  item_id: string
+  amount: number
+}
+
+export interface CouponDiscountResult {
+  cart_subtotal: number
+  eligible_subtotal: number
+  discount_amount: number
+  allocations: CouponItemAllocation[]
+  /** Customer-facing reason when the coupon can't be applied to this cart */
+  error: string | null
+}
+
+export type ProductScope = {
+  category_ids: string[]
+  brand_id: string | null
+}
+
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? (value as string[]) : []
+}
+
+function lineTotal(item: CouponCartItem): number {
+  return (Number(item.unit_price) || 0) * (Number(item.quantity) || 0)
+}
+
+function hasItemScoping(coupon: CouponDiscountRules): boolean {
+  return [
+    coupon.include_product_ids,
+    coupon.exclude_product_ids,
+    coupon.include_category_ids,
+    coupon.exclude_category_ids,
+    coupon.include_brand_ids,
+    coupon.exclude_brand_ids,
+  ].some((list) => asList(list).length > 0)
+}
+
+/**
+ * Load categories (including parent categories) and brand for the cart's products
+ */
+export async function loadProductScopes(
+  container: MedusaContainer,
+  productIds: string[]
+): Promise<Map<string, ProductScope>> {
+  const scopes = new Map<string, ProductScope>()
+  if (productIds.length === 0) return scopes
+
+  const productModuleService = container.resolve(Modules.PRODUCT)
+  const products = await productModuleService.listProducts(
+    { id: productIds },
+    { select: ["id", "metadata"], relations: ["categories"] }
+  )
+
+  for (const product of products) {
+    const categoryIds = new Set<string>()
+    for (const category of product.categories || []) {
+      categoryIds.add(category.id)
+      if (category.parent_category_id) {
+        categoryIds.add(category.parent_category_id)
+      }
+    }
+
+    scopes.set(product.id, {
+      category_ids: Array.from(categoryIds),
+      brand_id: (product.metadata?.brand_id as string | undefined) || null,
+    })
+  }
+
+  return scopes
+}
+
+/**
+ * Check whether a single product falls within the coupon's scope
+ * Exclusions always win over inclusions
+ */
+function isProductEligible(
+  coupon: CouponDiscountRules,
+  productId: string | null | undefined,
+  scope: ProductScope | undefined
+): boolean {
+  const categoryIds = scope?.category_ids || []
+  const brandId = scope?.brand_id || null
+
+  const excludeProducts = asList(coupon.exclude_product_ids)
+  const excludeCategories = asList(coupon.exclude_category_ids)
+  const excludeBrands = asList(coupon.exclude_brand_ids)
+
+  if (productId && excludeProducts.includes(productId)) return false
+  if (categoryIds.some((id) => excludeCategories.includes(id))) return false
+  if (brandId && excludeBrands.includes(brandId)) return false
+
+  const includeProducts = asList(coupon.include_product_ids)
+  const includeCategories = asList(coupon.include_category_ids)
+  const includeBrands = asList(coupon.include_brand_ids)
+
+  // Each include list that is set must be satisfied
+  if (includeProducts.length > 0 && (!productId || !includeProducts.includes(productId))) {
+    return false
+  }
+  if (includeCategories.length > 0 && !categoryIds.some((id) => includeCategories.includes(id))) {
+    return false
+  }
+  if (includeBrands.length > 0 && (!brandId || !includeBrands.includes(brandId))) {
+    return false
+  }
+
+  return true
+}
+
+/**
+ * Split a discount across items proportionally to their line totals
+ * Rounding remainder goes to the largest line so allocations sum exactly to the discount
+ */
+export function allocateCouponDiscount(
+  items: CouponCartItem[],
+  discountAmount: number
+): CouponItemAllocation[] {
+  const subtotal = items.reduce((sum, item) => sum + lineTotal(item), 0)
+  if (discountAmount <= 0 || subtotal <= 0) return []
+
+  const allocations = items
+    .filter((item) => lineTotal(item) > 0)
+    .map((item) => ({
+      item_id: item.id,
+      amount: Math.floor((discountAmount * lineTotal(item)) / subtotal),
+      line_total: lineTotal(item),
+    }))
+
+  const allocated = allocations.reduce((sum, a) => sum + a.amount, 0)
+  const remainder = discountAmount - allocated
+  if (remainder > 0 && allocations.length > 0) {
+    const largest = allocations.reduce((max, a) => (a.line_total > max.line_total ? a : max))
+    largest.amount += remainder
+  }
+
+  return allocations
+    .filter((a) => a.amount > 0)
+    .map(({ item_id, amount }) => ({ item_id, amount }))
+}
+
+/**
+ * Calculate the coupon discount for a cart
+ */
+export async function calculateCouponDiscount(
+  container: MedusaContainer,
+  coupon: CouponDiscountRules,
+  items: CouponCartItem[]
+): Promise<CouponDiscountResult> {
+  const cartSubtotal = items.reduce((sum, item) => sum + lineTotal(item), 0)
+
+  const result: CouponDiscountResult = {
+    cart_subtotal: cartSubtotal,
+    eligible_subtotal: 0,
+    discount_amount: 0,
+    allocations: [],
+    error: null,
+  }
+
+  if (coupon.min_subtotal && cartSubtotal < coupon.min_subtotal) {
+    result.error = `A minimum spend of ${(coupon.min_subtotal / 100).toFixed(2)} is required for this coupon`
+    return result
+  }
+
+  let eligibleItems = items
+  if (hasItemScoping(coupon)) {
+    const productIds = Array.from(
+      new Set(items.map((item) => item.product_id).filter((id): id is string => !!id))
+    )
+    const scopes = await loadProductScopes(container, productIds)
+    eligibleItems = items.filter((item) =>
+      isProductEligible(coupon, item.product_id, item.product_id ? scopes.get(item.product_id) : undefined)
+    )
+  }
+
+  const eligibleSubtotal = eligibleItems.reduce((sum, item) => sum + lineTotal(item), 0)
+  result.eligible_subtotal = eligibleSubtotal
+
+  if (eligibleSubtotal <= 0) {
+    result.error = "This coupon does not apply to any items in your cart"
+    return result
+  }
+
+  let discountAmount: number
+  if (coupon.type === "percentage") {
+    discountAmount = Math.round((eligibleSubtotal * coupon.value) / 100)
+    if (coupon.max_discount_amount) {
+      discountAmount = Math.min(discountAmount, coupon.max_discount_amount)
+    }
+  } else {
+    // Fixed amount in cents
+    discountAmount = coupon.value
+  }
+
+  // Ensure discount doesn't exceed the eligible items' value
+  discountAmount = Math.min(discountAmount, eligibleSubtotal)
+
+  result.discount_amount = discountAmount
+  result.allocations = allocateCouponDiscount(eligibleItems, discountAmount)
+
+  return result
+}
@@ -0,0 +1,95 @@
+/**
+ * Coupon Eligibility Utility
+ *
+ * Resolves who is using a coupon from the cart so that customer-specific
+ * coupon restrictions can be enforced:
+ * 1. Per-customer usage limits (by customer ID, or by email for guests)
+ * 2. First-order-only coupons
+ * 3. Customer group (retail/bulk/vip/supplier) and membership tier eligibility
+ */
+
+import type { Logger, MedusaContainer } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+import { DEFAULT_CUSTOMER_ROLE } from "../lib/constants"
+import CustomerRolesService from "../modules/customer-roles/services/customer-roles"
+import { MEMBERSHIP_MODULE } from "../modules/membership"
+import type { CouponCustomerContext } from "../modules/promo/services/promo"
+
+type CartIdentity = {
+  customer_id?: string | null
+  email?: string | null
+}
+
+/**
+ * Count the customer's previous (non-canceled) orders
+ * Guests are matched by email
+ */
+async function countPreviousOrders(
+  container: MedusaContainer,
+  identity: CartIdentity
+): Promise<number> {
+  const orderModuleService = container.resolve(Modules.ORDER)
+
+  const filters: Record<string, unknown> = identity.customer_id
+    ? { customer_id: identity.customer_id }
+    : { email: identity.email }
+
+  const orders = await orderModuleService.listOrders(filters, {
+    select: ["id", "status"],
+  })
+
+  return orders.filter((order) => order.status !== "canceled").length
+}
+
+/**
+ * Build the coupon customer context for a cart
+ * Lookups that fail are logged and treated as "no data" so a broken
+ * membership lookup never blocks checkout for unrestricted coupons. A failed
+ * order count leaves previous_order_count null, which first-order-only
+ * coupons refuse rather than treating the customer as new.
+ */
+export async function getCouponCustomerContext(
+  container: MedusaContainer,
+  cart: CartIdentity
+): Promise<CouponCustomerContext> {
+  const logger = container.resolve<Logger>("logger")
+  const customerId = cart.customer_id || null
+  const email = cart.email ? cart.email.toLowerCase() : null
+
+  const context: CouponCustomerContext = {
+    customer_id: customerId,
+    email,
+    customer_group: DEFAULT_CUSTOMER_ROLE,
+    tier_slug: null,
+    previous_order_count: 0,
+  }
+
+  if (customerId) {
+    const rolesService = new CustomerRolesService({ logger })
+    context.customer_group = await rolesService.getCustomerRole(customerId, container)
+
+    try {
+      const membershipService = container.resolve(MEMBERSHIP_MODULE) as any
+      const membership = await membershipService.getMembershipByCustomer(customerId)
+      if (membership && membership.status === "active") {
+        context.tier_slug = membership.tier_slug
+      }
+    } catch (error) {
+      logger.warn(`[COUPON] Failed to resolve membership tier for ${customerId}: ${error}`)
+    }
+  }
+
+  if (customerId || email) {
+    try {
+      context.previous_order_count = await countPreviousOrders(container, {
+        customer_id: customerId,
+        email,
+      })
+    } catch (error) {
+      logger.warn(`[COUPON] Failed to count previous orders: ${error}`)
+      context.previous_order_count = null
+    }
+  }
+
+  return context
+}
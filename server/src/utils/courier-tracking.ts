@@ -0,0 +1,185 @@
+/**
+ * Courier Tracking Utility
+ *
+ * Keeps EasyParcel shipments in step with the courier's tracking:
+ * 1. Looks up the tracking of paid and in-transit AWBs through the courier module
+ * 2. Stores the checkpoint history and the courier's latest parcel status on the
+ *    order or return shipment
+ * 3. Order shipments: marks the order extension as shipped once the parcel moves,
+ *    and as delivered when the courier reports delivery
+ * 4. Return shipments: marks the return request as received when the parcel
+ *    reaches the warehouse
+ *
+ * Failed deliveries are recorded but left for an admin to follow up.
+ */
+
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys } from "@medusajs/framework/utils"
+import {
+  COURIER_MODULE,
+  type CourierModuleService,
+  type CourierTrackingResult,
+} from "../modules/courier"
+import { EASYPARCEL_ORDER_MODULE } from "../modules/easyparcel-order"
+import { EASYPARCEL_RETURN_MODULE } from "../modules/easyparcel-return"
+import { ORDER_EXTENSION_MODULE } from "../modules/order-extension"
+import { RETURN_MODULE } from "../modules/return"
+
+type TrackedShipment = {
+  id: string
+  awb?: string | null
+  status?: string
+  courier_name: string
+  tracking_events?: unknown
+}
+
+export type CourierTrackingSyncResult = {
+  tracked: number
+  delivered: number
+  failed: number
+}
+
+/**
+ * Shipment status after a tracking lookup - only ever moves forward
+ */
+function nextShipmentStatus(current: string | undefined, tracking: CourierTrackingResult): string | undefined {
+  if (tracking.status === "delivered") return "delivered"
+  if (tracking.status === "in_transit" && current === "paid") return "in_transit"
+  return undefined
+}
+
+async function applyToOrderShipment(
+  container: MedusaContainer,
+  shipment: TrackedShipment & { order_id: string },
+  tracking: CourierTrackingResult
+): Promise<void> {
+  const easyParcelOrderService = container.resolve(EASYPARCEL_ORDER_MODULE) as any
+  const orderExtensionService = container.resolve(ORDER_EXTENSION_MODULE) as any
+
+  const status = nextShipmentStatus(shipment.status, tracking)
+  await easyParcelOrderService.recordTracking(shipment.id, {
+    status,
+    tracking_status: tracking.parcel_status || null,
+    tracking_events: tracking.events,
+    delivered_at: status === "delivered" ? new Date() : undefined,
+  })
+
+  if (tracking.status !== "in_transit" && tracking.status !== "delivered") return
+
+  const extension = await orderExtensionService.getByOrderId(shipment.order_id)
+  const fulfillmentStatus = extension?.fulfillment_status || "unfulfilled"
+  if (fulfillmentStatus === "delivered" || fulfillmentStatus === "cancelled") return
+
+  if (fulfillmentStatus !== "shipped") {
+    await orderExtensionService.markAsShipped(shipment.order_id, {
+      courier: shipment.courier_name,
+      tracking_number: shipment.awb,
+    })
+  }
+  if (tracking.status === "delivered") {
+    await orderExtensionService.markAsDelivered(shipment.order_id)
+  }
+}
+
+async function applyToReturnShipment(
+  container: MedusaContainer,
+  shipment: TrackedShipment & { return_id: string },
+  tracking: CourierTrackingResult
+): Promise<void> {
+  const easyParcelReturnService = container.resolve(EASYPARCEL_RETURN_MODULE) as any
+  const returnService = container.resolve(RETURN_MODULE) as any
+
+  const status = nextShipmentStatus(shipment.status, tracking)
+  await easyParcelReturnService.recordTracking(shipment.id, {
+    status,
+    tracking_status: tracking.parcel_status || null,
+    tracking_events: tracking.events,
+    delivered_at: status === "delivered" ? new Date() : undefined,
+  })
+
+  if (tracking.status !== "delivered") return
+
+  const returnRequest = await returnService.getReturn(shipment.return_id)
+  if (returnRequest?.status === "in_transit") {
+    await returnService.markReturnReceived(shipment.return_id)
+  }
+}
+
+/**
+ * Store a tracking lookup on the order or return shipment with its AWB
+ * @returns Which kind of shipment was updated, or null when the AWB is unknown
+ */
+export async function applyCourierTracking(
+  container: MedusaContainer,
+  tracking: CourierTrackingResult
+): Promise<"order" | "return" | null> {
+  if (!tracking.success) return null
+
+  const easyParcelOrderService = container.resolve(EASYPARCEL_ORDER_MODULE) as any
+  const orderShipment = await easyParcelOrderService.getByAwb(tracking.awb)
+  if (orderShipment) {
+    await applyToOrderShipment(container, orderShipment, tracking)
+    return "order"
+  }
+
+  const easyParcelReturnService = container.resolve(EASYPARCEL_RETURN_MODULE) as any
+  const returnShipment = await easyParcelReturnService.getByAwb(tracking.awb)
+  if (returnShipment) {
+    await applyToReturnShipment(container, returnShipment, tracking)
+    return "return"
+  }
+
+  return null
+}
+
+/**
+ * Poll the tracking of every paid or in-transit order and return shipment
+ * @param limit - Most shipments of each kind to look up in one run
+ */
+export async function syncCourierTracking(
+  container: MedusaContainer,
+  limit = 100
+): Promise<CourierTrackingSyncResult> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+  const courierService = container.resolve<CourierModuleService>(COURIER_MODULE)
+  const easyParcelOrderService = container.resolve(EASYPARCEL_ORDER_MODULE) as any
+  const easyParcelReturnService = container.resolve(EASYPARCEL_RETURN_MODULE) as any
+
+  const result: CourierTrackingSyncResult = { tracked: 0, delivered: 0, failed: 0 }
+  if (!courierService.isConfigured()) return result
+
+  const shipments: Array<{ kind: "order" | "return"; shipment: any }> = [
+    ...(await easyParcelOrderService.listTrackable(limit)).map((shipment: any) => ({ kind: "order" as const, shipment })),
+    ...(await easyParcelReturnService.listTrackable(limit)).map((shipment: any) => ({ kind: "return" as const, shipment })),
+  ]
+
+  for (const { kind, shipment } of shipments) {
+    try {
+      const tracking = await courierService.track(shipment.awb)
+
+      if (!tracking.success) {
+        // Keep the stored history, but move the shipment to the back of the queue
+        const service = kind === "order" ? easyParcelOrderService : easyParcelReturnService
+        await service.recordTracking(shipment.id, {
+          tracking_events: (shipment.tracking_events as any[]) || [],
+        })
+        result.failed++
+        continue
+      }
+
+      if (kind === "order") {
+        await applyToOrderShipment(container, shipment, tracking)
+      } else {
+        await applyToReturnShipment(container, shipment, tracking)
+      }
+
+      result.tracked++
+      if (tracking.status === "delivered") result.delivered++
+    } catch (error) {
+      logger.error(`[COURIER-TRACKING] Failed to track ${kind} shipment ${shipment.id} (${shipment.awb}): ${error}`)
+      result.failed++
+    }
+  }
+
+  return result
+}
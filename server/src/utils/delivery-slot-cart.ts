@@ -0,0 +1,75 @@
+/**
+ * Delivery Slot Cart Utility
+ *
+ * Delivery slots are offered per service zone. At checkout the zone comes
+ * from the shipping option the customer picked, so slots can only be shown
+ * once a shipping method is on the cart. A slot chosen for one zone is
+ * dropped when the cart moves to another (new address or shipping option).
+ */
+
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+import { DELIVERY_SLOT_MODULE } from "../modules/delivery-slot"
+import type DeliverySlotModuleService from "../modules/delivery-slot/services/delivery-slot"
+import type { DeliverySlotSelection } from "../modules/delivery-slot/services/delivery-slot"
+
+type DeliverySlotCart = {
+  id: string
+  metadata?: Record<string, unknown> | null
+  shipping_methods?: Array<{ shipping_option_id?: string | null }> | null
+}
+
+/**
+ * Service zone of the shipping option selected on a cart
+ * @returns The zone ID, or null when the cart has no shipping method yet
+ */
+export async function getCartServiceZoneId(
+  container: MedusaContainer,
+  cart: { shipping_methods?: Array<{ shipping_option_id?: string | null }> | null }
+): Promise<string | null> {
+  const shippingOptionId = (cart.shipping_methods || [])
+    .map((method) => method.shipping_option_id)
+    .find((id): id is string => !!id)
+
+  if (!shippingOptionId) {
+    return null
+  }
+
+  const fulfillmentModule = container.resolve(Modules.FULFILLMENT)
+  const [shippingOption] = await fulfillmentModule.listShippingOptions(
+    { id: shippingOptionId },
+    { select: ["id", "service_zone_id"] }
+  )
+
+  return shippingOption?.service_zone_id || null
+}
+
+/**
+ * Clear the cart's delivery slot when its shipping method is now in another
+ * service zone, giving the held place back
+ * Carts without a shipping method keep their slot until one is picked again
+ * @returns true if the slot was cleared
+ */
+export async function clearDeliverySlotOnZoneChange(
+  container: MedusaContainer,
+  cart: DeliverySlotCart
+): Promise<boolean> {
+  const selection = cart.metadata?.delivery_slot as DeliverySlotSelection | undefined
+  if (!selection?.slot_id) {
+    return false
+  }
+
+  const serviceZoneId = await getCartServiceZoneId(container, cart)
+  if (!serviceZoneId || serviceZoneId === selection.service_zone_id) {
+    return false
+  }
+
+  const deliverySlotService = container.resolve<DeliverySlotModuleService>(DELIVERY_SLOT_MODULE)
+  await deliverySlotService.releaseCartReservation(cart.id)
+
+  const { delivery_slot: _removed, ...metadata } = cart.metadata || {}
+  const cartModule = container.resolve(Modules.CART)
+  await cartModule.updateCarts(cart.id, { metadata })
+
+  return true
+}
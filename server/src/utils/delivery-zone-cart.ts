@@ -0,0 +1,146 @@
+/**
+ * Delivery Zone Cart Utility
+ *
+ * Prices a cart's delivery by the zone its shipping postcode falls in:
+ * 1. Finds the active delivery zone of the postcode (the cart's shipping
+ *    address, or one passed in before the address is saved)
+ * 2. Quotes the zone against the order value - the items after PWP and line
+ *    item discounts - for the free shipping threshold and minimum order value
+ * 3. Removes shipping methods the zone doesn't offer - all of them while the
+ *    cart is below the zone's minimum order value - and sets the zone's charge
+ *    on the others, replacing the shipping option's own price
+ * 4. Records the quote in cart metadata, which carries over to the order
+ *
+ * Postcodes outside every zone keep the shipping options' own prices.
+ * Medusa re-prices shipping methods whenever the cart is refreshed, so this is
+ * re-applied on cart updates. Writes only happen when something changed.
+ */
+
+import type { ICartModuleService, MedusaContainer } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+import { DELIVERY_ZONE_MODULE } from "../modules/delivery-zone"
+import {
+  isShippingOptionInZone,
+  quoteDeliveryZone,
+  type DeliveryZoneQuote,
+} from "../modules/delivery-zone/services/delivery-zone"
+
+type DeliveryZoneCartItem = {
+  unit_price: number | string | unknown
+  quantity: number | string | unknown
+  metadata?: Record<string, unknown> | null
+  adjustments?: Array<Record<string, any>> | null
+}
+
+type DeliveryZoneCart = {
+  id: string
+  completed_at?: Date | string | null
+  metadata?: Record<string, unknown> | null
+  items?: DeliveryZoneCartItem[] | null
+  shipping_address?: { postal_code?: string | null } | null
+  shipping_methods?: Array<{
+    id: string
+    shipping_option_id?: string | null
+    amount: number | string | unknown
+  }> | null
+}
+
+/**
+ * Value of the cart's items after PWP and line item discounts, in cents
+ */
+export function getCartOrderValue(items: DeliveryZoneCartItem[] | null | undefined): number {
+  const value = (items || []).reduce((sum, item) => {
+    const quantity = Number(item.quantity) || 0
+    let lineTotal = (Number(item.unit_price) || 0) * quantity
+
+    if (item.metadata?.is_pwp_item && item.metadata?.pwp_discount_amount) {
+      lineTotal -= Number(item.metadata.pwp_discount_amount) * quantity
+    }
+
+    const adjustments = (item.adjustments || []).reduce(
+      (adjSum, adj) => adjSum + (Number(adj.amount) || 0),
+      0
+    )
+
+    return sum + lineTotal - adjustments
+  }, 0)
+
+  return Math.max(0, Math.round(value))
+}
+
+/**
+ * Delivery zone quote of a cart
+ * @param postalCode - Postcode to use instead of the cart's shipping address
+ * @returns The zone and its quote, or null when no zone covers the postcode
+ */
+export async function getCartDeliveryZone(
+  container: MedusaContainer,
+  cart: DeliveryZoneCart,
+  postalCode?: string | null
+): Promise<{ zone: any; quote: DeliveryZoneQuote } | null> {
+  const postcode = postalCode || cart.shipping_address?.postal_code
+  if (!postcode) return null
+
+  const deliveryZoneService = container.resolve(DELIVERY_ZONE_MODULE) as any
+  const zone = await deliveryZoneService.findZoneForPostcode(postcode)
+  if (!zone) return null
+
+  return {
+    zone,
+    quote: quoteDeliveryZone(zone, postcode, getCartOrderValue(cart.items)),
+  }
+}
+
+/**
+ * Apply the delivery zone of a cart's shipping address to its shipping methods,
+ * or clear the recorded zone when the address is outside every zone
+ * @param cart - Cart retrieved with items, items.adjustments, shipping_address
+ *   and shipping_methods
+ * @returns The zone quote, or null when no zone applies
+ */
+export async function applyDeliveryZoneToCart(
+  container: MedusaContainer,
+  cart: DeliveryZoneCart
+): Promise<DeliveryZoneQuote | null> {
+  if (cart.completed_at) return null
+
+  const cartModuleService = container.resolve<ICartModuleService>(Modules.CART)
+  const resolved = await getCartDeliveryZone(container, cart)
+
+  if (resolved) {
+    const { zone, quote } = resolved
+    const methods = cart.shipping_methods || []
+
+    // Below the minimum order value the zone doesn't deliver at all, so the
+    // cart can't keep a shipping method and can't be checked out
+    const methodsToRemove = methods
+      .filter((method) =>
+        !quote.meets_minimum ||
+        (method.shipping_option_id && !isShippingOptionInZone(zone, method.shipping_option_id))
+      )
+      .map((method) => method.id)
+
+    const methodsToUpdate = methods
+      .filter((method) => !methodsToRemove.includes(method.id))
+      .filter((method) => Number(method.amount) !== quote.shipping_amount)
+      .map((method) => ({ id: method.id, amount: quote.shipping_amount }))
+
+    if (methodsToRemove.length > 0) {
+      await cartModuleService.deleteShippingMethods(methodsToRemove)
+    }
+    if (methodsToUpdate.length > 0) {
+      await cartModuleService.updateShippingMethods(methodsToUpdate)
+    }
+  }
+
+  const metadata = cart.metadata || {}
+  const quote = resolved?.quote || null
+
+  if (JSON.stringify(metadata.delivery_zone ?? null) !== JSON.stringify(quote)) {
+    await cartModuleService.updateCarts(cart.id, {
+      metadata: { ...metadata, delivery_zone: quote },
+    })
+  }
+
+  return quote
+}
@@ -1,4 +1,5 @@
 import { formatCustomerName } from "./format-customer"
+import { isTierDiscountAdjustment } from "./tier-discount-cart"
 
 /**
  * Convert any numeric value (number, string, BigNumber) to number
@@ -50,10 +51,12 @@ export function calculateOrderTotal(items: Array<{ unit_price?: unknown; quantit
  * Calculate discount total from order items' adjustments, PWP metadata, variant discounts, and wholesale/bulk discounts
  * Uses 'any' type to handle Medusa's BigNumberValue (string | number | BigNumber)
  */
-export function calculateDiscountTotal(items: Array<{ unit_price?: unknown; adjustments?: Array<{ amount?: unknown }> | null; quantity?: unknown; metadata?: Record<string, unknown> | null }> | null | undefined): number {
+export function calculateDiscountTotal(items: Array<{ unit_price?: unknown; adjustments?: Array<{ code?: unknown; amount?: unknown }> | null; quantity?: unknown; metadata?: Record<string, unknown> | null }> | null | undefined): number {
   return items?.reduce((sum, item) => {
-    // Calculate discount from adjustments
-    const itemDiscount = item.adjustments?.reduce((adjSum, adj) => adjSum + toNumber(adj.amount), 0) || 0
+    // Calculate discount from adjustments - the tier discount is added from order metadata
+    const itemDiscount = item.adjustments
+      ?.filter((adj) => !isTierDiscountAdjustment(adj))
+      .reduce((adjSum, adj) => adjSum + toNumber(adj.amount), 0) || 0
 
     // Calculate PWP discount from item metadata (per item * quantity)
     let pwpDiscount = 0
@@ -394,6 +397,7 @@ export function formatOrderResponse(options: OrderFormatOptions) {
     shipped_at: extension?.shipped_at || null,
     delivered_at: extension?.delivered_at || null,
     estimated_delivery: extension?.estimated_delivery || null,
+    delivery_slot: order.metadata?.delivery_slot || null, // Delivery window chosen at checkout
     paid_at: extension?.paid_at || null,
     has_rating: false,
     shipping_address: formatShippingAddress(order.shipping_address),
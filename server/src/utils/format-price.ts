@@ -0,0 +1,10 @@
+/**
+ * Price Formatting Utility
+ *
+ * Prices are stored in cents of the store currency (MYR). Emails and error
+ * messages show them the way the storefront does, e.g. 4799 -> "RM47.99".
+ */
+
+export function formatPrice(cents: number): string {
+  return `RM${(cents / 100).toFixed(2)}`
+}
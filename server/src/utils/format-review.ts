@@ -0,0 +1,28 @@
+/**
+ * Format a review for the storefront
+ * Drops guest contact details, moderation internals, report counts and rewarded points, and nests the
+ * merchant reply under `reply` (null when there is none)
+ */
+export function formatPublicReview(review: Record<string, any>): Record<string, any> {
+  const {
+    guest_email: _guestEmail,
+    guest_phone: _guestPhone,
+    moderation_flags: _moderationFlags,
+    moderated_by: _moderatedBy,
+    moderated_at: _moderatedAt,
+    report_count: _reportCount,
+    reply_content,
+    reply_author_id: _replyAuthorId,
+    replied_at,
+    rewarded_points: _rewardedPoints,
+    rewarded_at: _rewardedAt,
+    ...rest
+  } = review
+
+  return {
+    ...rest,
+    reply: reply_content
+      ? { content: reply_content, created_at: replied_at }
+      : null,
+  }
+}
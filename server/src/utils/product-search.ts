@@ -0,0 +1,429 @@
+/**
+ * Product Search Utility
+ *
+ * Builds the product search documents and answers product searches:
+ * 1. Gathers each published product's categories, tags, brand, variant prices,
+ *    approved review aggregates and units sold into one search document
+ * 2. Stores the documents in the product-search module, and pushes them to the
+ *    Meilisearch index when the plugin is configured (MEILISEARCH_HOST)
+ * 3. Searches Meilisearch when available - typo-tolerant, with facet counts -
+ *    and falls back to SQL over the stored documents otherwise, or when
+ *    Meilisearch errors
+ * 4. Resolves category and brand facet ids to names for the storefront
+ *
+ * Subscribers call syncProductSearch when products, prices, reviews or orders
+ * change; the reindex job rebuilds every document nightly.
+ */
+
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { MEILISEARCH_MODULE, type MeiliSearchService } from "@rokmohar/medusa-plugin-meilisearch"
+import { BRAND_MODULE } from "../modules/brand"
+import {
+  getPriceBucket,
+  PRICE_RANGES,
+  PRODUCT_SEARCH_INDEX,
+  PRODUCT_SEARCH_MODULE,
+  type ProductSearchDocumentData,
+  type ProductSearchFacetDistribution,
+  type ProductSearchModuleService,
+  type ProductSearchParams,
+  type ProductSearchResult,
+} from "../modules/product-search"
+import { REVIEW_MODULE } from "../modules/review"
+
+export type ProductSearchFacets = {
+  categories: Array<{ id: string; name: string; count: number }>
+  brands: Array<{ id: string; name: string; count: number }>
+  price_ranges: Array<{ key: string; from: number; to: number | null; count: number }>
+  ratings: { 5: number; 4: number; 3: number; 2: number; 1: number }
+  tags: Array<{ value: string; count: number }>
+}
+
+export type ProductSearchResponse = {
+  ids: string[]
+  count: number
+  facets: ProductSearchFacets
+  engine: "meilisearch" | "sql"
+}
+
+const FACET_FIELDS: Array<keyof ProductSearchFacetDistribution> = [
+  "category_ids",
+  "brand_id",
+  "tags",
+  "price_bucket",
+  "rating_bucket",
+]
+
+/**
+ * Meilisearch plugin service, or null when the plugin isn't registered
+ */
+function getMeilisearch(container: MedusaContainer): MeiliSearchService | null {
+  if (!container.hasRegistration(MEILISEARCH_MODULE)) return null
+  return container.resolve<MeiliSearchService>(MEILISEARCH_MODULE)
+}
+
+/**
+ * Fastest delivery in days from metadata.shipping_days, e.g. "1-3" -> 1
+ */
+function parseShippingMinDays(shippingDays: unknown): number {
+  const [minDays] = String(shippingDays || "3-7").split("-").map(Number)
+  return Number.isFinite(minDays) ? minDays : 3
+}
+
+/**
+ * Search documents of the given products. Products that no longer exist or
+ * aren't published are returned in `removed`
+ */
+export async function buildSearchDocuments(
+  container: MedusaContainer,
+  productIds: string[]
+): Promise<{ documents: ProductSearchDocumentData[]; removed: string[] }> {
+  const query = container.resolve(ContainerRegistrationKeys.QUERY)
+  const productModule = container.resolve(Modules.PRODUCT)
+  const pricingModule = container.resolve(Modules.PRICING)
+  const regionModule = container.resolve(Modules.REGION)
+  const orderModule = container.resolve(Modules.ORDER) as any
+  const reviewModule = container.resolve(REVIEW_MODULE) as any
+  const brandModule = container.resolve(BRAND_MODULE) as any
+
+  const uniqueIds = [...new Set(productIds)]
+  if (uniqueIds.length === 0) return { documents: [], removed: [] }
+
+  const products = await productModule.listProducts(
+    { id: uniqueIds, status: "published" },
+    { relations: ["variants", "categories", "tags"] }
+  )
+  const found = new Set(products.map((p) => p.id))
+  const removed = uniqueIds.filter((id) => !found.has(id))
+  if (products.length === 0) return { documents: [], removed }
+
+  // Prices in the default region's currency
+  const [region] = await regionModule.listRegions({}, { take: 1 })
+  const currencyCode = region?.currency_code || "myr"
+  const variantIds = products.flatMap((p) => p.variants?.map((v) => v.id) || [])
+  const variantPrices = new Map<string, number[]>()
+  if (variantIds.length > 0) {
+    const { data: variantPriceSets } = await query.graph({
+      entity: "product_variant_price_set",
+      fields: ["variant_id", "price_set_id"],
+      filters: { variant_id: variantIds },
+    })
+    const priceSetIds = variantPriceSets.map((vps: any) => vps.price_set_id).filter(Boolean)
+    if (priceSetIds.length > 0) {
+      const prices = await pricingModule.listPrices(
+        { price_set_id: priceSetIds, currency_code: currencyCode },
+        { select: ["amount", "price_set_id", "min_quantity"] }
+      )
+      const priceSetToVariant = new Map(variantPriceSets.map((vps: any) => [vps.price_set_id, vps.variant_id]))
+      for (const price of prices) {
+        // Bulk tiers only apply from their min_quantity, so only base prices count
+        if (price.min_quantity && Number(price.min_quantity) > 1) continue
+        const variantId = priceSetToVariant.get(price.price_set_id) as string | undefined
+        if (!variantId) continue
+        variantPrices.set(variantId, [...(variantPrices.get(variantId) || []), Number(price.amount)])
+      }
+    }
+  }
+
+  // Approved review aggregates
+  const reviews = await reviewModule.listReviews(
+    { product_id: products.map((p) => p.id), is_approved: true },
+    { select: ["product_id", "rating"] }
+  )
+  const reviewStats = new Map<string, { sum: number; count: number }>()
+  for (const review of reviews) {
+    const stats = reviewStats.get(review.product_id) || { sum: 0, count: 0 }
+    stats.sum += review.rating
+    stats.count++
+    reviewStats.set(review.product_id, stats)
+  }
+
+  // Units sold
+  const soldCounts = new Map<string, number>()
+  if (variantIds.length > 0) {
+    const items = await orderModule.listOrderLineItems(
+      { variant_id: variantIds },
+      { select: ["variant_id", "quantity"] }
+    )
+    const variantToProduct = new Map(
+      products.flatMap((p) => (p.variants || []).map((v) => [v.id, p.id] as const))
+    )
+    for (const item of items) {
+      const productId = variantToProduct.get(item.variant_id)
+      if (!productId) continue
+      soldCounts.set(productId, (soldCounts.get(productId) || 0) + (Number(item.quantity) || 0))
+    }
+  }
+
+  // Brands (product.metadata.brand_id)
+  const brandIds = [...new Set(products.map((p) => p.metadata?.brand_id as string | undefined).filter(Boolean))]
+  const brandNames = new Map<string, string>()
+  if (brandIds.length > 0) {
+    const brands = await brandModule.listBrands({ id: brandIds }, { select: ["id", "name"] })
+    for (const brand of brands) brandNames.set(brand.id, brand.name)
+  }
+
+  const documents = products.map((product): ProductSearchDocumentData => {
+    const prices = (product.variants || []).flatMap((v) => variantPrices.get(v.id) || [])
+    const minPrice = prices.length > 0 ? Math.min(...prices) : null
+    const stats = reviewStats.get(product.id)
+    const averageRating = stats ? Math.round((stats.sum / stats.count) * 10) / 10 : 0
+    const brandId = (product.metadata?.brand_id as string | undefined) || null
+    const brandName = brandId ? brandNames.get(brandId) || null : null
+    const skus = (product.variants || []).map((v) => v.sku).filter(Boolean) as string[]
+    const categories = product.categories || []
+    const tags = (product.tags || []).map((t) => t.value)
+
+    return {
+      id: product.id,
+      title: product.title,
+      subtitle: product.subtitle || null,
+      handle: product.handle,
+      description: product.description || null,
+      thumbnail: product.thumbnail || null,
+      search_text: [
+        product.title,
+        product.subtitle,
+        product.description,
+        brandName,
+        ...skus,
+        ...categories.map((c) => c.name),
+        ...tags,
+      ].filter(Boolean).join(" ").toLowerCase(),
+      skus,
+      category_ids: categories.map((c) => c.id),
+      category_names: categories.map((c) => c.name),
+      brand_id: brandId,
+      brand_name: brandName,
+      tags,
+      min_price: minPrice,
+      max_price: prices.length > 0 ? Math.max(...prices) : null,
+      currency_code: prices.length > 0 ? currencyCode : null,
+      price_bucket: getPriceBucket(minPrice),
+      average_rating: averageRating,
+      review_count: stats?.count || 0,
+      rating_bucket: Math.round(averageRating),
+      sold_count: soldCounts.get(product.id) || 0,
+      shipping_min_days: parseShippingMinDays(product.metadata?.shipping_days),
+      flash_sale: product.metadata?.flash_sale === true,
+      trending: product.metadata?.trending === true,
+      on_brand: product.metadata?.on_brand === true || product.metadata?.featured === true,
+      product_created_at: new Date(product.created_at),
+    }
+  })
+
+  return { documents, removed }
+}
+
+/**
+ * Rebuild the search documents of the given products in the database and,
+ * when configured, in Meilisearch
+ */
+export async function syncProductSearch(
+  container: MedusaContainer,
+  productIds: string[]
+): Promise<{ indexed: number; removed: number }> {
+  const productSearchService = container.resolve<ProductSearchModuleService>(PRODUCT_SEARCH_MODULE)
+  const { documents, removed } = await buildSearchDocuments(container, productIds)
+
+  await productSearchService.upsertDocuments(documents)
+  await productSearchService.removeDocuments(removed)
+
+  const meilisearch = getMeilisearch(container)
+  if (meilisearch) {
+    if (documents.length > 0) {
+      await meilisearch.addDocuments(
+        PRODUCT_SEARCH_INDEX,
+        documents.map((d) => ({ ...d, product_created_at: d.product_created_at.toISOString() }))
+      )
+    }
+    if (removed.length > 0) {
+      await meilisearch.deleteDocuments(PRODUCT_SEARCH_INDEX, removed)
+    }
+  }
+
+  return { indexed: documents.length, removed: removed.length }
+}
+
+/**
+ * Rebuild every document: all published products, in batches, and drop the
+ * documents of products that are gone
+ */
+export async function reindexProductSearch(
+  container: MedusaContainer,
+  batchSize = 100
+): Promise<{ indexed: number; removed: number }> {
+  const productModule = container.resolve(Modules.PRODUCT)
+  const productSearchService = container.resolve<ProductSearchModuleService>(PRODUCT_SEARCH_MODULE)
+
+  const result = { indexed: 0, removed: 0 }
+  const seen = new Set<string>()
+
+  for (let skip = 0; ; skip += batchSize) {
+    const products = await productModule.listProducts(
+      { status: "published" },
+      { select: ["id"], skip, take: batchSize, order: { id: "ASC" } }
+    )
+    if (products.length === 0) break
+
+    const batch = await syncProductSearch(container, products.map((p) => p.id))
+    result.indexed += batch.indexed
+    products.forEach((p) => seen.add(p.id))
+
+    if (products.length < batchSize) break
+  }
+
+  const stale = (await productSearchService.listDocumentIds()).filter((id) => !seen.has(id))
+  if (stale.length > 0) {
+    const batch = await syncProductSearch(container, stale)
+    result.removed += batch.removed
+  }
+
+  return result
+}
+
+/**
+ * Meilisearch filter expressions for the search params
+ */
+function toMeilisearchFilter(params: ProductSearchParams): string[] {
+  const filter: string[] = []
+  if (params.category_id) filter.push(`category_ids = ${JSON.stringify(params.category_id)}`)
+  if (params.brand_id) filter.push(`brand_id = ${JSON.stringify(params.brand_id)}`)
+  for (const tag of params.tags || []) filter.push(`tags = ${JSON.stringify(tag)}`)
+  if (params.min_price !== undefined) filter.push(`min_price >= ${params.min_price}`)
+  if (params.max_price !== undefined) filter.push(`min_price <= ${params.max_price}`)
+  if (params.rating !== undefined) filter.push(`rating_bucket = ${params.rating}`)
+  if (params.max_shipping_days !== undefined) filter.push(`shipping_min_days <= ${params.max_shipping_days}`)
+  if (params.flash_sale) filter.push("flash_sale = true")
+  if (params.trending) filter.push("trending = true")
+  if (params.on_brand) filter.push("on_brand = true")
+  return filter
+}
+
+async function searchMeilisearch(
+  meilisearch: MeiliSearchService,
+  params: ProductSearchParams
+): Promise<ProductSearchResult> {
+  const sortFields = {
+    created_at: "product_created_at",
+    title: "title",
+    price: "min_price",
+    sold_count: "sold_count",
+    rating: "average_rating",
+  }
+  // Browsing without a query lists newest first, like the SQL fallback
+  const sort = params.sort
+    ? [`${sortFields[params.sort.field]}:${params.sort.direction}`]
+    : params.q?.trim() ? undefined : ["product_created_at:desc"]
+
+  const response = await meilisearch.search(PRODUCT_SEARCH_INDEX, params.q || "", {
+    paginationOptions: { limit: params.limit, offset: params.offset },
+    filter: toMeilisearchFilter(params),
+    additionalOptions: {
+      facets: FACET_FIELDS,
+      attributesToRetrieve: ["id"],
+      ...(sort ? { sort } : {}),
+    },
+  })
+
+  const distribution = (response.facetDistribution || {}) as Partial<ProductSearchFacetDistribution>
+  return {
+    ids: response.hits.map((hit) => hit.id as string),
+    count: response.estimatedTotalHits ?? response.totalHits ?? response.hits.length,
+    facets: {
+      category_ids: distribution.category_ids || {},
+      brand_id: distribution.brand_id || {},
+      tags: distribution.tags || {},
+      price_bucket: distribution.price_bucket || {},
+      rating_bucket: distribution.rating_bucket || {},
+    },
+  }
+}
+
+/**
+ * Category and brand names for the facet ids, most matches first
+ */
+async function labelFacets(
+  container: MedusaContainer,
+  distribution: ProductSearchFacetDistribution
+): Promise<ProductSearchFacets> {
+  const productModule = container.resolve(Modules.PRODUCT)
+  const brandModule = container.resolve(BRAND_MODULE) as any
+
+  const byCount = <T extends { count: number }>(a: T, b: T) => b.count - a.count
+
+  const categoryIds = Object.keys(distribution.category_ids)
+  const categories = categoryIds.length > 0
+    ? await productModule.listProductCategories({ id: categoryIds }, { select: ["id", "name"] })
+    : []
+  const brandIds = Object.keys(distribution.brand_id)
+  const brands = brandIds.length > 0
+    ? await brandModule.listBrands({ id: brandIds }, { select: ["id", "name"] })
+    : []
+
+  const ratings = { 5: 0, 4: 0, 3: 0, 2: 0, 1: 0 }
+  for (const [bucket, count] of Object.entries(distribution.rating_bucket)) {
+    const rating = Number(bucket)
+    if (rating >= 1 && rating <= 5) ratings[rating as keyof typeof ratings] = count
+  }
+
+  return {
+    categories: categories
+      .map((c) => ({ id: c.id, name: c.name, count: distribution.category_ids[c.id] || 0 }))
+      .sort(byCount),
+    brands: brands
+      .map((b: { id: string; name: string }) => ({ id: b.id, name: b.name, count: distribution.brand_id[b.id] || 0 }))
+      .sort(byCount),
+    price_ranges: PRICE_RANGES.map((range) => ({
+      key: range.key,
+      from: range.from,
+      to: range.to,
+      count: distribution.price_bucket[range.key] || 0,
+    })),
+    ratings,
+    tags: Object.entries(distribution.tags)
+      .map(([value, count]) => ({ value, count }))
+      .sort(byCount),
+  }
+}
+
+/**
+ * Search published products. Builds the documents first if none exist yet,
+ * e.g. right after the migration
+ */
+export async function searchProducts(
+  container: MedusaContainer,
+  params: ProductSearchParams
+): Promise<ProductSearchResponse> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+  const productSearchService = container.resolve<ProductSearchModuleService>(PRODUCT_SEARCH_MODULE)
+
+  if ((await productSearchService.countDocuments()) === 0) {
+    const result = await reindexProductSearch(container)
+    logger.info(`[PRODUCT-SEARCH] Built search index on first search: ${result.indexed} products`)
+  }
+
+  let result: ProductSearchResult | null = null
+  let engine: ProductSearchResponse["engine"] = "sql"
+
+  const meilisearch = getMeilisearch(container)
+  if (meilisearch) {
+    try {
+      result = await searchMeilisearch(meilisearch, params)
+      engine = "meilisearch"
+    } catch (error) {
+      logger.warn(`[PRODUCT-SEARCH] Meilisearch search failed, falling back to SQL: ${error}`)
+    }
+  }
+  if (!result) {
+    result = await productSearchService.search(params)
+  }
+
+  return {
+    ids: result.ids,
+    count: result.count,
+    facets: await labelFacets(container, result.facets),
+    engine,
+  }
+}
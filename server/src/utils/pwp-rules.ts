@@ -0,0 +1,233 @@
+/**
+ * PWP Rule Utility
+ *
+ * Evaluates Purchase-with-Purchase rules against a cart:
+ * 1. Trigger products - any-of or all-of a list of products
+ * 2. Cart value trigger, with optional stepped reward tiers
+ *    (e.g. RM100 → 20% off, RM200 → 40% off)
+ * 3. Reward product pool and maximum reward quantity per order
+ *
+ * Rules created before multi-product support only set trigger_product_id and
+ * reward_product_id - these are merged into the lists so both shapes behave the same.
+ */
+
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+
+export type PWPRewardType = "percentage" | "fixed"
+
+export interface PWPRewardTier {
+  min_cart_value: number
+  reward_type: PWPRewardType
+  reward_value: number
+}
+
+/**
+ * PWP rule fields used for eligibility checks
+ */
+export interface PWPRuleConditions {
+  id: string
+  name: string
+  trigger_type: "product" | "cart_value"
+  trigger_product_id?: string | null
+  trigger_product_ids?: unknown
+  trigger_match?: "any" | "all" | null
+  trigger_cart_value?: number | null
+  reward_product_id?: string | null
+  reward_product_ids?: unknown
+  reward_type: PWPRewardType
+  reward_value: number
+  reward_tiers?: unknown
+  max_reward_quantity?: number | null
+}
+
+export interface PWPRuleEvaluation {
+  trigger_met: boolean
+  /** Reward for the current cart - the highest tier reached, null when not eligible */
+  reward: PWPRewardTier | null
+  /** Next stepped threshold the cart can reach for a better reward */
+  next_tier: PWPRewardTier | null
+  /** Cart value still needed to unlock the first reward */
+  amount_needed: number | null
+  missing_product_ids: string[]
+  /** Customer-facing reason when the rule isn't met */
+  error: string | null
+}
+
+interface PWPCartItem {
+  id: string
+  variant_id?: string | null
+  quantity: number | string | unknown
+  metadata?: Record<string, unknown> | null
+}
+
+function asList(value: unknown): string[] {
+  return Array.isArray(value) ? (value as string[]) : []
+}
+
+function unique(ids: Array<string | null | undefined>): string[] {
+  return Array.from(new Set(ids.filter((id): id is string => !!id)))
+}
+
+/**
+ * All products that trigger the rule
+ */
+export function getPWPTriggerProductIds(rule: PWPRuleConditions): string[] {
+  return unique([rule.trigger_product_id, ...asList(rule.trigger_product_ids)])
+}
+
+/**
+ * All products the customer can choose as a reward
+ */
+export function getPWPRewardProductIds(rule: PWPRuleConditions): string[] {
+  return unique([rule.reward_product_id, ...asList(rule.reward_product_ids)])
+}
+
+/**
+ * Maximum reward items per order - rules without a cap allow a single reward item
+ */
+export function getPWPMaxRewardQuantity(rule: PWPRuleConditions): number {
+  return rule.max_reward_quantity && rule.max_reward_quantity > 0
+    ? rule.max_reward_quantity
+    : 1
+}
+
+/**
+ * Reward tiers sorted by threshold (lowest first)
+ * A cart value rule without stepped tiers has a single tier at trigger_cart_value.
+ * Product rules without tiers have no cart value requirement (empty list).
+ */
+export function getPWPRewardTiers(rule: PWPRuleConditions): PWPRewardTier[] {
+  const tiers = Array.isArray(rule.reward_tiers)
+    ? (rule.reward_tiers as PWPRewardTier[])
+    : []
+
+  if (tiers.length > 0) {
+    return [...tiers].sort((a, b) => a.min_cart_value - b.min_cart_value)
+  }
+
+  if (rule.trigger_type === "cart_value") {
+    return [
+      {
+        min_cart_value: rule.trigger_cart_value || 0,
+        reward_type: rule.reward_type,
+        reward_value: rule.reward_value,
+      },
+    ]
+  }
+
+  return []
+}
+
+/**
+ * Evaluate a PWP rule against the cart value (excluding PWP items) and the
+ * products in the cart
+ *
+ * @param cartProductIds - Products of non-PWP items. Pass null to skip the
+ *   trigger product check when product data isn't available.
+ */
+export function evaluatePWPRule(
+  rule: PWPRuleConditions,
+  cartValue: number,
+  cartProductIds: Set<string> | null
+): PWPRuleEvaluation {
+  const result: PWPRuleEvaluation = {
+    trigger_met: false,
+    reward: null,
+    next_tier: null,
+    amount_needed: null,
+    missing_product_ids: [],
+    error: null,
+  }
+
+  if (rule.trigger_type === "product" && cartProductIds) {
+    const triggerProductIds = getPWPTriggerProductIds(rule)
+    result.missing_product_ids = triggerProductIds.filter((id) => !cartProductIds.has(id))
+
+    const productsMet = rule.trigger_match === "all"
+      ? triggerProductIds.length > 0 && result.missing_product_ids.length === 0
+      : result.missing_product_ids.length < triggerProductIds.length
+
+    if (!productsMet) {
+      result.error = rule.trigger_match === "all" && triggerProductIds.length > 1
+        ? "You must have all of the trigger products in your cart to qualify for this offer"
+        : "You must have the trigger product in your cart to qualify for this offer"
+      return result
+    }
+  }
+
+  const tiers = getPWPRewardTiers(rule)
+  if (tiers.length === 0) {
+    result.trigger_met = true
+    result.reward = {
+      min_cart_value: 0,
+      reward_type: rule.reward_type,
+      reward_value: rule.reward_value,
+    }
+    return result
+  }
+
+  // Highest tier the cart value reaches applies
+  for (const tier of tiers) {
+    if (cartValue >= tier.min_cart_value) {
+      result.reward = tier
+    } else if (!result.next_tier) {
+      result.next_tier = tier
+    }
+  }
+
+  if (!result.reward) {
+    result.amount_needed = tiers[0].min_cart_value - cartValue
+    result.error = `Cart value must be at least ${(tiers[0].min_cart_value / 100).toFixed(2)} to qualify for this offer`
+    return result
+  }
+
+  result.trigger_met = true
+  return result
+}
+
+/**
+ * Per-unit discount of a reward product at the given reward
+ */
+export function calculatePWPDiscount(originalPrice: number, reward: PWPRewardTier): number {
+  if (reward.reward_type === "percentage") {
+    return Math.round(originalPrice * (reward.reward_value / 100))
+  }
+  return Math.min(reward.reward_value, originalPrice)
+}
+
+/**
+ * Total reward quantity already in the cart for a rule
+ */
+export function countPWPRewardQuantity(
+  items: PWPCartItem[],
+  ruleId: string
+): number {
+  return items.reduce((sum, item) => {
+    if (!item.metadata?.is_pwp_item || item.metadata?.pwp_rule_id !== ruleId) return sum
+    return sum + (Number(item.quantity) || 0)
+  }, 0)
+}
+
+/**
+ * Products of the cart's non-PWP items - PWP items never count as a trigger
+ */
+export async function getCartProductIds(
+  container: MedusaContainer,
+  items: PWPCartItem[]
+): Promise<Set<string>> {
+  const variantIds = unique(
+    items
+      .filter((item) => !item.metadata?.is_pwp_item)
+      .map((item) => item.variant_id)
+  )
+  if (variantIds.length === 0) return new Set()
+
+  const productModuleService = container.resolve(Modules.PRODUCT)
+  const variants = await productModuleService.listProductVariants(
+    { id: variantIds },
+    { select: ["id", "product_id"] }
+  )
+
+  return new Set(unique(variants.map((variant) => variant.product_id)))
+}
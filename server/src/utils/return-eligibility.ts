@@ -0,0 +1,305 @@
+/**
+ * Return Eligibility Utility
+ *
+ * Decides whether an order can still be returned and what each line refunds:
+ * 1. The order must be delivered, not cancelled, and within RETURN_WINDOW_DAYS
+ *    of delivery, with no other return in progress
+ * 2. Quantities already covered by earlier returns (other than rejected or
+ *    cancelled ones) are no longer returnable
+ * 3. Every order-level discount is spread over the lines by value, so a line
+ *    refunds what the customer actually paid for it
+ *
+ * Shared by the admin can-return check and the storefront return request.
+ */
+
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { RETURN_WINDOW_DAYS } from "../lib/constants"
+import { ORDER_EXTENSION_MODULE } from "../modules/order-extension"
+import { RETURN_MODULE } from "../modules/return"
+import { isTierDiscountAdjustment } from "./tier-discount-cart"
+
+export type ReturnableItem = {
+  item_id: string
+  variant_id: string
+  product_name: string
+  original_quantity: number
+  returned_quantity: number
+  returnable_quantity: number
+  unit_price: number
+  /** Discount-adjusted refund per unit, rounded down */
+  refund_per_unit: number
+  /** Discount-adjusted refund for the whole line */
+  refund_total: number
+  /** Cents lost to per-unit rounding, refunded with the last unit */
+  refund_remainder: number
+  thumbnail: string | null
+}
+
+export type ReturnDiscountInfo = {
+  original_order_total: number
+  coupon_code: string | null
+  coupon_discount: number
+  points_redeemed: number
+  points_discount: number
+  pwp_discount: number
+  variant_discount: number
+  wholesale_discount: number
+  tier_name: string | null
+  tier_discount: number
+  membership_promo_discount: number
+  total_discounts: number
+  actual_paid_for_items: number
+}
+
+/**
+ * Result of a return eligibility check - `reason` is set when the order can't
+ * be returned, the remaining fields when it can
+ */
+export type ReturnEligibility = {
+  can_return: boolean
+  reason?: string
+  days_since_delivery?: number
+  days_remaining?: number
+  delivered_at?: Date
+  returnable_items?: ReturnableItem[]
+  discount_info?: ReturnDiscountInfo
+}
+
+export type ReturnItemSelection = {
+  item_id: string
+  quantity: number
+}
+
+function sumAdjustments(adjustments: any[]): number {
+  return adjustments.reduce((sum: number, adj: any) => sum + (Number(adj.amount) || 0), 0)
+}
+
+/**
+ * Quantity of each order line already covered by a return that still stands
+ */
+async function getReturnedQuantities(
+  container: MedusaContainer,
+  orderId: string
+): Promise<Map<string, number>> {
+  const returnService = container.resolve(RETURN_MODULE) as any
+  const existingReturns = await returnService.getReturnsByOrderId(orderId)
+  const returnedItems = new Map<string, number>()
+
+  for (const ret of existingReturns) {
+    if (ret.status === "rejected" || ret.status === "cancelled") continue
+
+    const items = (ret.items || []) as Array<{ item_id: string; quantity: number }>
+    for (const item of items) {
+      returnedItems.set(item.item_id, (returnedItems.get(item.item_id) || 0) + item.quantity)
+    }
+  }
+
+  return returnedItems
+}
+
+/**
+ * Discounts applied to an order, as recorded on its lines and metadata
+ */
+function calculateDiscountInfo(order: any): {
+  info: ReturnDiscountInfo
+  itemTierDiscounts: Map<string, number>
+  recordedTierDiscount: number
+} {
+  const orderItems = order.items || []
+  const orderMetadata = order.metadata || {}
+
+  // Gross total before discounts - original_price is recorded for items with
+  // wholesale/variant discounts, otherwise unit_price is the gross price
+  const originalOrderTotal = orderItems.reduce((sum: number, item: any) => {
+    const originalPrice = Number(item.metadata?.original_price) || Number(item.unit_price) || 0
+    return sum + originalPrice * (Number(item.quantity) || 0)
+  }, 0)
+
+  const pwpDiscount = orderItems.reduce((sum: number, item: any) => {
+    if (item.metadata?.is_pwp_item && item.metadata?.pwp_discount_amount) {
+      return sum + Number(item.metadata.pwp_discount_amount) * (Number(item.quantity) || 1)
+    }
+    return sum
+  }, 0)
+
+  // Set Discount Global from admin
+  const variantDiscount = orderItems.reduce((sum: number, item: any) => {
+    if (item.metadata?.variant_discount_amount) {
+      return sum + Number(item.metadata.variant_discount_amount) * (Number(item.quantity) || 1)
+    }
+    return sum
+  }, 0)
+
+  // Wholesale tier discount (original price vs current price)
+  const wholesaleDiscount = orderItems.reduce((sum: number, item: any) => {
+    if (item.metadata?.is_wholesale_tier_discount && item.metadata?.original_price) {
+      const originalPrice = Number(item.metadata.original_price) || 0
+      const currentPrice = Number(item.unit_price) || 0
+      if (originalPrice > currentPrice) {
+        return sum + (originalPrice - currentPrice) * (Number(item.quantity) || 1)
+      }
+    }
+    return sum
+  }, 0)
+
+  // Coupon discount from item adjustments (tier discount is counted separately)
+  const couponDiscountFromAdjustments = orderItems.reduce((sum: number, item: any) => {
+    return sum + sumAdjustments((item.adjustments || []).filter((adj: any) => !isTierDiscountAdjustment(adj)))
+  }, 0)
+
+  // Tier discount recorded per line - excluded items (PWP, bulk, sale) carry none
+  const itemTierDiscounts = new Map<string, number>(
+    orderItems.map((item: any) => [
+      item.id,
+      sumAdjustments((item.adjustments || []).filter(isTierDiscountAdjustment)),
+    ])
+  )
+  const recordedTierDiscount = Array.from(itemTierDiscounts.values()).reduce((sum, amount) => sum + amount, 0)
+
+  const couponDiscount = couponDiscountFromAdjustments > 0
+    ? couponDiscountFromAdjustments
+    : (Number(orderMetadata.applied_coupon_discount) || 0)
+  const pointsDiscount = Number(orderMetadata.points_discount_amount) || 0
+
+  // From the line adjustments, or order metadata for orders placed before the
+  // tier discount was recorded per line
+  const tierDiscount = recordedTierDiscount > 0
+    ? recordedTierDiscount
+    : (Number(orderMetadata.tier_discount_amount) || 0)
+
+  const membershipPromoDiscount = Number(orderMetadata.applied_membership_promo_discount) || 0
+
+  const totalDiscounts = couponDiscount + pointsDiscount + pwpDiscount + tierDiscount + membershipPromoDiscount + variantDiscount + wholesaleDiscount
+
+  return {
+    info: {
+      original_order_total: originalOrderTotal,
+      coupon_code: orderMetadata.coupon_code || null,
+      coupon_discount: couponDiscount,
+      points_redeemed: Number(orderMetadata.points_to_redeem) || 0,
+      points_discount: pointsDiscount,
+      pwp_discount: pwpDiscount,
+      variant_discount: variantDiscount,
+      wholesale_discount: wholesaleDiscount,
+      tier_name: orderMetadata.tier_name || null,
+      tier_discount: tierDiscount,
+      membership_promo_discount: membershipPromoDiscount,
+      total_discounts: totalDiscounts,
+      // What the customer actually paid for items (excluding shipping)
+      actual_paid_for_items: Math.max(0, originalOrderTotal - totalDiscounts),
+    },
+    itemTierDiscounts,
+    recordedTierDiscount,
+  }
+}
+
+/**
+ * Check whether an order can be returned, and what each line can still refund
+ * @param order - Order retrieved with items and items.adjustments
+ */
+export async function getReturnEligibility(
+  container: MedusaContainer,
+  order: any
+): Promise<ReturnEligibility> {
+  if (order.status === "canceled") {
+    return { can_return: false, reason: "Order is cancelled" }
+  }
+
+  const orderExtensionService = container.resolve(ORDER_EXTENSION_MODULE) as any
+  const extension = await orderExtensionService.getByOrderId(order.id)
+
+  if (!extension) {
+    return { can_return: false, reason: "Order extension not found" }
+  }
+
+  if (extension.fulfillment_status !== "delivered") {
+    return {
+      can_return: false,
+      reason: `Order must be delivered to request a return. Current status: ${extension.fulfillment_status}`,
+    }
+  }
+
+  const deliveredAt = extension.delivered_at
+  if (!deliveredAt) {
+    return { can_return: false, reason: "Delivery date not recorded" }
+  }
+
+  const daysSinceDelivery = Math.floor(
+    (Date.now() - new Date(deliveredAt).getTime()) / (1000 * 60 * 60 * 24)
+  )
+
+  if (daysSinceDelivery > RETURN_WINDOW_DAYS) {
+    return {
+      can_return: false,
+      reason: `Return window has expired. Orders can only be returned within ${RETURN_WINDOW_DAYS} days of delivery.`,
+      days_since_delivery: daysSinceDelivery,
+    }
+  }
+
+  const returnService = container.resolve(RETURN_MODULE) as any
+  if (await returnService.hasExistingPendingReturn(order.id)) {
+    return { can_return: false, reason: "This order already has a pending return request" }
+  }
+
+  const returnedItems = await getReturnedQuantities(container, order.id)
+  const { info, itemTierDiscounts, recordedTierDiscount } = calculateDiscountInfo(order)
+
+  const returnableItems: ReturnableItem[] = (order.items || [])
+    .map((item: any) => {
+      const quantity = Number(item.quantity) || 0
+      const returnedQty = returnedItems.get(item.id) || 0
+
+      // This line's share of the order-level discounts, by value.
+      // A per-line tier discount belongs to its own line instead of being spread
+      const itemGrossValue = (Number(item.unit_price) || 0) * quantity
+      const itemProportion = info.original_order_total > 0 ? itemGrossValue / info.original_order_total : 0
+      const itemTierDiscount = itemTierDiscounts.get(item.id) || 0
+      const itemProportionalDiscount = (info.total_discounts - recordedTierDiscount) * itemProportion + itemTierDiscount
+
+      // What the customer actually paid for the line. Per-unit amounts round
+      // down so partial returns never over-refund; the remainder goes with the last unit
+      const refundTotal = Math.round(itemGrossValue - itemProportionalDiscount)
+      const refundPerUnit = quantity > 0 ? Math.floor(refundTotal / quantity) : 0
+
+      return {
+        item_id: item.id,
+        variant_id: item.variant_id,
+        product_name: item.title,
+        original_quantity: quantity,
+        returned_quantity: returnedQty,
+        returnable_quantity: quantity - returnedQty,
+        unit_price: Number(item.unit_price) || 0,
+        refund_per_unit: refundPerUnit,
+        refund_total: refundTotal,
+        refund_remainder: refundTotal - refundPerUnit * quantity,
+        thumbnail: item.thumbnail || null,
+      }
+    })
+    .filter((item: ReturnableItem) => item.returnable_quantity > 0)
+
+  return {
+    can_return: true,
+    days_remaining: RETURN_WINDOW_DAYS - daysSinceDelivery,
+    delivered_at: deliveredAt,
+    returnable_items: returnableItems,
+    discount_info: info,
+  }
+}
+
+/**
+ * Refund for the selected quantities of returnable lines
+ * Returning the last units of a line adds the rounding remainder, so a line
+ * returned in full (at once or over several returns) refunds exactly refund_total
+ */
+export function calculateReturnRefund(
+  returnableItems: ReturnableItem[],
+  selections: ReturnItemSelection[]
+): number {
+  return selections.reduce((total, selection) => {
+    const item = returnableItems.find((i) => i.item_id === selection.item_id)
+    if (!item) return total
+
+    const refund = item.refund_per_unit * selection.quantity
+    return total + (selection.quantity === item.returnable_quantity ? refund + item.refund_remainder : refund)
+  }, 0)
+}
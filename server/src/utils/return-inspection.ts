@@ -0,0 +1,239 @@
+/**
+ * Return Inspection Utility
+ *
+ * Records what the warehouse found when inspecting returned items and puts
+ * resellable stock back into Medusa inventory:
+ * - resellable units are restocked in full unless told otherwise
+ * - damaged units are only restocked when asked to
+ * - spoiled (thawed) units are never restocked
+ * Units that are not restocked are written off at what the return refunds for
+ * them, unless an explicit write-off value is given.
+ */
+
+import type { Logger, MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, MedusaError, Modules } from "@medusajs/framework/utils"
+import { RETURN_MODULE } from "../modules/return"
+
+export type InspectionResult = "resellable" | "damaged" | "spoiled"
+
+export type InspectItemInput = {
+  item_id: string
+  quantity: number
+  result: InspectionResult
+  restock_quantity?: number
+  write_off_amount?: number
+  photo_urls?: string[]
+  notes?: string
+}
+
+export type InspectReturnInput = {
+  stock_location_id?: string
+  items: InspectItemInput[]
+  inspected_by?: string
+}
+
+export type InspectReturnResult = {
+  inspections: any[]
+  restocked_units: number
+  restock_errors: Array<{ item_id: string; error: string }>
+}
+
+/**
+ * Shape an inspection record for API responses
+ */
+export function formatInspection(inspection: any) {
+  return {
+    id: inspection.id,
+    item_id: inspection.item_id,
+    variant_id: inspection.variant_id,
+    product_name: inspection.product_name,
+    quantity: Number(inspection.quantity) || 0,
+    result: inspection.result,
+    restocked_quantity: Number(inspection.restocked_quantity) || 0,
+    stock_location_id: inspection.stock_location_id,
+    write_off_amount: Number(inspection.write_off_amount) || 0,
+    photo_urls: (inspection.photo_urls as string[] | null) || [],
+    notes: inspection.notes,
+    inspected_by: inspection.inspected_by,
+    inspected_at: inspection.inspected_at,
+  }
+}
+
+function defaultRestockQuantity(input: InspectItemInput): number {
+  if (input.result === "spoiled") return 0
+  if (input.restock_quantity !== undefined) return input.restock_quantity
+  return input.result === "resellable" ? input.quantity : 0
+}
+
+/**
+ * What the return refunds per unit of each item, in cents
+ * The product refund is spread over the items by gross value, so discounts
+ * and admin refund edits reduce the write-off the same way they did the refund
+ */
+function getNetUnitRefunds(returnRequest: any): Map<string, number> {
+  const items = (returnRequest.items || []) as Array<{ item_id: string; quantity?: number; unit_price?: number }>
+  const grossTotal = items.reduce(
+    (sum, item) => sum + (Number(item.unit_price) || 0) * (Number(item.quantity) || 0),
+    0
+  )
+  const ratio = grossTotal > 0 ? (Number(returnRequest.refund_amount) || 0) / grossTotal : 0
+
+  return new Map(items.map((item) => [item.item_id, (Number(item.unit_price) || 0) * ratio]))
+}
+
+/**
+ * Look up the inventory item behind each variant
+ */
+async function getInventoryItemIds(
+  container: MedusaContainer,
+  variantIds: string[]
+): Promise<Map<string, string>> {
+  if (variantIds.length === 0) return new Map()
+
+  const query = container.resolve(ContainerRegistrationKeys.QUERY)
+  const { data: links } = await query.graph({
+    entity: "product_variant_inventory_item",
+    fields: ["variant_id", "inventory_item_id"],
+    filters: { variant_id: variantIds },
+  })
+
+  return new Map(
+    links
+      .filter((link: any) => link.inventory_item_id)
+      .map((link: any) => [link.variant_id as string, link.inventory_item_id as string])
+  )
+}
+
+/**
+ * Add units back to an inventory item's stock at a location
+ * Creates the inventory level when the item isn't stocked there yet
+ */
+async function restockInventory(
+  container: MedusaContainer,
+  inventoryItemId: string,
+  locationId: string,
+  quantity: number
+): Promise<void> {
+  const inventoryModule = container.resolve(Modules.INVENTORY)
+
+  const levels = await inventoryModule.listInventoryLevels({
+    inventory_item_id: inventoryItemId,
+    location_id: locationId,
+  })
+
+  if (levels.length === 0) {
+    await inventoryModule.createInventoryLevels({
+      inventory_item_id: inventoryItemId,
+      location_id: locationId,
+      stocked_quantity: quantity,
+    })
+    return
+  }
+
+  await inventoryModule.adjustInventory(inventoryItemId, locationId, quantity)
+}
+
+/**
+ * Record inspection results for a return and restock what can be sold again
+ * @param returnRequest - Return request in received or inspecting status
+ */
+export async function inspectReturnItems(
+  container: MedusaContainer,
+  returnRequest: any,
+  input: InspectReturnInput
+): Promise<InspectReturnResult> {
+  const logger = container.resolve<Logger>("logger")
+  const returnService = container.resolve(RETURN_MODULE) as any
+
+  const restockQuantities = input.items.map(defaultRestockQuantity)
+  const needsRestock = restockQuantities.some((quantity) => quantity > 0)
+
+  if (needsRestock) {
+    if (!input.stock_location_id) {
+      throw new MedusaError(
+        MedusaError.Types.INVALID_DATA,
+        "A stock location is required to restock items"
+      )
+    }
+
+    const stockLocationModule = container.resolve(Modules.STOCK_LOCATION)
+    const locations = await stockLocationModule.listStockLocations({ id: input.stock_location_id })
+    if (locations.length === 0) {
+      throw new MedusaError(MedusaError.Types.NOT_FOUND, "Stock location not found")
+    }
+  }
+
+  const returnItems = (returnRequest.items || []) as Array<{
+    item_id: string
+    variant_id?: string
+  }>
+  const variantIds = Array.from(new Set(
+    input.items
+      .map((item) => returnItems.find((i) => i.item_id === item.item_id)?.variant_id)
+      .filter((id): id is string => !!id)
+  ))
+  const inventoryItemIds = await getInventoryItemIds(container, variantIds)
+  const netUnitRefunds = getNetUnitRefunds(returnRequest)
+
+  const inspections = await returnService.recordInspections(
+    returnRequest.id,
+    input.items.map((item, index) => {
+      const returnItem = returnItems.find((i) => i.item_id === item.item_id)
+      const restocked = restockQuantities[index]
+      const unitRefund = netUnitRefunds.get(item.item_id) || 0
+
+      return {
+        item_id: item.item_id,
+        quantity: item.quantity,
+        result: item.result,
+        restocked_quantity: restocked,
+        stock_location_id: input.stock_location_id,
+        inventory_item_id: returnItem?.variant_id ? inventoryItemIds.get(returnItem.variant_id) : null,
+        write_off_amount: item.write_off_amount ?? Math.round(unitRefund * (item.quantity - restocked)),
+        photo_urls: item.photo_urls,
+        notes: item.notes,
+        inspected_by: input.inspected_by,
+      }
+    })
+  )
+
+  // Inventory changes come after the results are recorded, so a failed
+  // adjustment is visible on the inspection instead of silently lost
+  let restockedUnits = 0
+  const restockErrors: InspectReturnResult["restock_errors"] = []
+
+  for (const inspection of inspections) {
+    const quantity = Number(inspection.restocked_quantity)
+    if (quantity <= 0) continue
+
+    try {
+      if (!inspection.inventory_item_id) {
+        throw new Error("No inventory item is linked to this variant")
+      }
+
+      await restockInventory(container, inspection.inventory_item_id, inspection.stock_location_id, quantity)
+      restockedUnits += quantity
+      logger.info(
+        `[RETURN-INSPECTION] Restocked ${quantity} x ${inspection.product_name} at ${inspection.stock_location_id} for return ${returnRequest.id}`
+      )
+    } catch (error: any) {
+      logger.error(
+        `[RETURN-INSPECTION] Failed to restock ${inspection.product_name} for return ${returnRequest.id}: ${error.message}`
+      )
+      await returnService.updateReturnInspections({
+        id: inspection.id,
+        restocked_quantity: 0,
+        stock_location_id: null,
+        notes: [inspection.notes, `Restock failed: ${error.message}`].filter(Boolean).join("\n"),
+      })
+      inspection.restocked_quantity = 0
+      restockErrors.push({ item_id: inspection.item_id, error: error.message })
+    }
+  }
+
+  return {
+    inspections,
+    restocked_units: restockedUnits,
+    restock_errors: restockErrors,
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Review Events Utility
+ *
+ * The review module doesn't emit events itself, so the review routes call
+ * emitReviewEvent after changing a review. Subscribers (e.g. the product
+ * search sync) react to review.created, review.updated and review.deleted.
+ */
+
+import type { IEventBusModuleService, MedusaContainer } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+
+export type ReviewEventName = "review.created" | "review.updated" | "review.deleted"
+
+export async function emitReviewEvent(
+  container: MedusaContainer,
+  name: ReviewEventName,
+  review: { id: string; product_id: string }
+): Promise<void> {
+  const eventBusService = container.resolve<IEventBusModuleService>(Modules.EVENT_BUS)
+  await eventBusService.emit({
+    name,
+    data: { id: review.id, product_id: review.product_id },
+  })
+}
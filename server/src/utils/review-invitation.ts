@@ -0,0 +1,53 @@
+import jwt from "jsonwebtoken"
+import { JWT_SECRET } from "../lib/constants"
+
+const AUDIENCE = "review-invitation"
+
+/**
+ * What a review link in a review request email lets its holder review:
+ * one item of a delivered order, on behalf of the customer who bought it
+ */
+export type ReviewInvitation = {
+  order_id: string
+  order_item_id: string
+  product_id: string
+  customer_id: string
+}
+
+/**
+ * Sign a review link token that expires after the given number of days
+ */
+export function signReviewInvitation(invitation: ReviewInvitation, validDays: number): string {
+  return jwt.sign(invitation, JWT_SECRET, {
+    audience: AUDIENCE,
+    expiresIn: `${Math.max(1, validDays)}d`,
+  })
+}
+
+/**
+ * Verify a review link token
+ * @returns The invitation, or null when the token is forged, malformed or expired
+ */
+export function verifyReviewInvitation(token: string): ReviewInvitation | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET, { audience: AUDIENCE }) as jwt.JwtPayload
+
+    if (
+      typeof payload.order_id !== "string" ||
+      typeof payload.order_item_id !== "string" ||
+      typeof payload.product_id !== "string" ||
+      typeof payload.customer_id !== "string"
+    ) {
+      return null
+    }
+
+    return {
+      order_id: payload.order_id,
+      order_item_id: payload.order_item_id,
+      product_id: payload.product_id,
+      customer_id: payload.customer_id,
+    }
+  } catch {
+    return null
+  }
+}
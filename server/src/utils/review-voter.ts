@@ -0,0 +1,33 @@
+/**
+ * Review Voter Utility
+ *
+ * Identifies who is voting on a review so each person gets one vote:
+ * 1. Signed-in customers vote as "customer:<customer_id>"
+ * 2. Guests are identified by the server alone: their IP address is hashed
+ *    into a fingerprint, and they vote as "guest:<fingerprint>". Headers the
+ *    client controls (like the user agent) are left out so changing them
+ *    can't buy another vote on the same review
+ */
+
+import type { MedusaRequest } from "@medusajs/framework/http"
+import crypto from "crypto"
+import { getTrustedClientIP } from "../api/middlewares/rate-limit"
+import type { ReviewVoter } from "../modules/review/services/review"
+import { getVerifiedCustomerId } from "./store-auth"
+
+/**
+ * Resolve the voter of a request
+ */
+export function getReviewVoter(req: MedusaRequest): ReviewVoter {
+  const customerId = getVerifiedCustomerId(req)
+  if (customerId) {
+    return { key: `customer:${customerId}`, customer_id: customerId, fingerprint: null }
+  }
+
+  const fingerprint = crypto
+    .createHash("sha256")
+    .update(getTrustedClientIP(req))
+    .digest("hex")
+
+  return { key: `guest:${fingerprint}`, customer_id: null, fingerprint }
+}
@@ -0,0 +1,251 @@
+/**
+ * Shipping Labels Utility
+ *
+ * Keeps a copy of every EasyParcel AWB label and prints them in batches:
+ * 1. Downloads the label PDF through the courier module once a shipment is paid
+ * 2. Stores it through the file module (minio-file) and links it to the
+ *    EasyParcelOrder, so reprints don't depend on the courier's expiring link
+ * 3. Renders a packing slip per order (items, quantities, delivery address)
+ * 4. Merges label and packing slip of every selected order into one PDF
+ */
+
+import type { MedusaContainer } from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { PDFDocument as PDFMerger } from "pdf-lib"
+import PDFDocument from "pdfkit"
+import type { Readable } from "stream"
+import { COURIER_MODULE, type CourierModuleService } from "../modules/courier"
+import { EASYPARCEL_ORDER_MODULE } from "../modules/easyparcel-order"
+
+type LabelledShipment = {
+  id: string
+  order_id: string
+  awb?: string | null
+  service_name: string
+  courier_name: string
+  receiver_name: string
+  receiver_phone: string
+  receiver_address: string
+  receiver_postcode: string
+  receiver_country?: string
+  awb_document_url?: string | null
+  label_file_id?: string | null
+  label_url?: string | null
+}
+
+export type LabelBatchResult = {
+  pdf: Buffer
+  printed: number
+  missing_labels: string[] // Order ids printed with a packing slip only
+}
+
+async function streamToBuffer(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = []
+  for await (const chunk of stream) {
+    chunks.push(Buffer.isBuffer(chunk) ? chunk : Buffer.from(chunk))
+  }
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Download the AWB label of a paid shipment and store it in the file module
+ * @returns The shipment with its label linked
+ * @throws When the courier has no label or the upload fails
+ */
+export async function storeShippingLabel(
+  container: MedusaContainer,
+  shipment: LabelledShipment
+): Promise<LabelledShipment> {
+  if (!shipment.awb) {
+    throw new Error(`Shipment ${shipment.id} has no AWB yet`)
+  }
+
+  const courierService = container.resolve<CourierModuleService>(COURIER_MODULE)
+  const fileModule = container.resolve(Modules.FILE)
+  const easyParcelOrderService = container.resolve(EASYPARCEL_ORDER_MODULE) as any
+
+  const label = await courierService.fetchLabel({
+    awb: shipment.awb,
+    label_url: shipment.awb_document_url,
+    reference: shipment.order_id,
+    courier_name: shipment.courier_name,
+    service_name: shipment.service_name,
+    receiver: {
+      name: shipment.receiver_name,
+      phone: shipment.receiver_phone,
+      address_1: shipment.receiver_address,
+      postcode: shipment.receiver_postcode,
+      country: shipment.receiver_country || "MY",
+    },
+  })
+
+  // The minio provider reads content as a binary string
+  const file = await fileModule.createFiles({
+    filename: `awb-${shipment.awb}.pdf`,
+    mimeType: "application/pdf",
+    content: label.toString("binary"),
+  })
+
+  return easyParcelOrderService.attachLabel(shipment.id, file.id, file.url)
+}
+
+/**
+ * Stored AWB label of a shipment, fetching and storing it first when missing
+ */
+async function loadShippingLabel(
+  container: MedusaContainer,
+  shipment: LabelledShipment
+): Promise<Buffer> {
+  const fileModule = container.resolve(Modules.FILE)
+
+  const stored = shipment.label_file_id
+    ? shipment
+    : await storeShippingLabel(container, shipment)
+
+  return streamToBuffer(await fileModule.getDownloadStream(stored.label_file_id!))
+}
+
+/**
+ * A4 packing slip listing what goes into the parcel
+ */
+async function renderPackingSlip(order: any, shipment: LabelledShipment | null): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "A4",
+    margin: 50,
+    info: {
+      Title: `Packing Slip #${order.display_id}`,
+      Author: "LB Frozen",
+    },
+  })
+  const chunks: Buffer[] = []
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk))
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)))
+    doc.on("error", reject)
+  })
+
+  // === HEADER ===
+  doc.fontSize(24).font("Helvetica-Bold").text("PACKING SLIP", 50, 50)
+  doc.fontSize(10).font("Helvetica")
+  doc.text("LB Frozen", 400, 50, { align: "right" })
+  doc.text("Malaysia", 400, 65, { align: "right" })
+
+  doc.text(`Order #: ${order.display_id}`, 50, 100)
+  doc.text(`Date: ${new Date(order.created_at).toLocaleDateString("en-MY")}`, 50, 115)
+  if (shipment?.awb) {
+    doc.text(`AWB: ${shipment.awb} (${shipment.courier_name})`, 50, 130)
+  } else {
+    doc.text("AWB: label not available", 50, 130)
+  }
+
+  // === SHIP TO ===
+  doc.fontSize(12).font("Helvetica-Bold").text("Ship To:", 50, 170)
+  doc.fontSize(10).font("Helvetica")
+
+  const address = order.shipping_address
+  const lines = address
+    ? [
+        `${address.first_name || ""} ${address.last_name || ""}`.trim(),
+        address.company,
+        address.address_1,
+        address.address_2,
+        [address.postal_code, address.city].filter(Boolean).join(" "),
+        address.province,
+        address.phone,
+      ]
+    : [shipment?.receiver_name, shipment?.receiver_address, shipment?.receiver_postcode, shipment?.receiver_phone]
+
+  let yPos = 185
+  for (const line of lines.filter(Boolean)) {
+    doc.text(line as string, 50, yPos)
+    yPos += 15
+  }
+
+  // === ITEMS ===
+  yPos += 20
+  doc.fontSize(10).font("Helvetica-Bold")
+  doc.text("Item", 50, yPos)
+  doc.text("SKU", 330, yPos)
+  doc.text("Qty", 480, yPos, { width: 65, align: "right" })
+  yPos += 15
+  doc.moveTo(50, yPos).lineTo(545, yPos).stroke()
+  yPos += 10
+
+  doc.font("Helvetica")
+  let totalQuantity = 0
+  for (const item of order.items || []) {
+    if (yPos > 760) {
+      doc.addPage()
+      yPos = 50
+    }
+
+    const title = item.variant_title && item.variant_title !== "Default"
+      ? `${item.product_title || item.title} - ${item.variant_title}`
+      : item.product_title || item.title
+    doc.text(title, 50, yPos, { width: 270 })
+    doc.text(item.variant_sku || "-", 330, yPos, { width: 140 })
+    doc.text(String(item.quantity), 480, yPos, { width: 65, align: "right" })
+    yPos = Math.max(doc.y, yPos + 15) + 5
+    totalQuantity += Number(item.quantity) || 0
+  }
+
+  doc.moveTo(50, yPos).lineTo(545, yPos).stroke()
+  yPos += 10
+  doc.font("Helvetica-Bold").text(`Total items: ${totalQuantity}`, 50, yPos, { width: 495, align: "right" })
+
+  doc.end()
+  return done
+}
+
+/**
+ * One PDF with the AWB label followed by the packing slip of every order,
+ * in the order given. Orders whose label can't be fetched still get a packing
+ * slip and are reported in missing_labels
+ */
+export async function buildLabelBatch(
+  container: MedusaContainer,
+  orderIds: string[]
+): Promise<LabelBatchResult> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+  const orderModuleService = container.resolve(Modules.ORDER)
+  const easyParcelOrderService = container.resolve(EASYPARCEL_ORDER_MODULE) as any
+
+  const orders = await orderModuleService.listOrders(
+    { id: orderIds },
+    { relations: ["items", "shipping_address"] }
+  )
+  const orderMap = new Map(orders.map((order) => [order.id, order]))
+
+  const merged = await PDFMerger.create()
+  const result: LabelBatchResult = { pdf: Buffer.alloc(0), printed: 0, missing_labels: [] }
+
+  for (const orderId of orderIds) {
+    const order = orderMap.get(orderId)
+    if (!order) continue
+
+    const shipment: LabelledShipment | null = await easyParcelOrderService.getByOrderId(orderId)
+    const documents: Buffer[] = []
+
+    if (shipment?.awb) {
+      try {
+        documents.push(await loadShippingLabel(container, shipment))
+      } catch (error) {
+        logger.warn(`[SHIPPING-LABELS] No label for order ${orderId} (${shipment.awb}): ${error}`)
+        result.missing_labels.push(orderId)
+      }
+    } else {
+      result.missing_labels.push(orderId)
+    }
+    documents.push(await renderPackingSlip(order, shipment))
+
+    for (const document of documents) {
+      const source = await PDFMerger.load(document)
+      const pages = await merged.copyPages(source, source.getPageIndices())
+      pages.forEach((page) => merged.addPage(page))
+    }
+    result.printed++
+  }
+
+  result.pdf = Buffer.from(await merged.save())
+  return result
+}
@@ -0,0 +1,51 @@
+import jwt from "jsonwebtoken"
+import { JWT_SECRET } from "../lib/constants"
+
+const AUDIENCE = "stock-subscription"
+const CONFIRM_VALID_DAYS = 7
+
+/**
+ * What a link in a notify-me email does to its stock request
+ */
+export type StockSubscriptionAction = "confirm" | "unsubscribe"
+
+export type StockSubscriptionToken = {
+  subscription_id: string
+  action: StockSubscriptionAction
+}
+
+/**
+ * Sign a notify-me email link token
+ * Confirm links expire after a week; unsubscribe links keep working
+ */
+export function signStockSubscriptionToken(
+  subscriptionId: string,
+  action: StockSubscriptionAction
+): string {
+  return jwt.sign({ subscription_id: subscriptionId, action }, JWT_SECRET, {
+    audience: AUDIENCE,
+    ...(action === "confirm" ? { expiresIn: `${CONFIRM_VALID_DAYS}d` } : {}),
+  })
+}
+
+/**
+ * Verify a notify-me email link token
+ * @returns The token, or null when it is forged, malformed, expired or for
+ *   another action
+ */
+export function verifyStockSubscriptionToken(
+  token: string,
+  action: StockSubscriptionAction
+): StockSubscriptionToken | null {
+  try {
+    const payload = jwt.verify(token, JWT_SECRET, { audience: AUDIENCE }) as jwt.JwtPayload
+
+    if (typeof payload.subscription_id !== "string" || payload.action !== action) {
+      return null
+    }
+
+    return { subscription_id: payload.subscription_id, action }
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,224 @@
+/**
+ * Tier Discount Cart Utility
+ *
+ * Applies the member's tier discount (TierConfig.discount_percentage) to a cart:
+ * 1. Resolves the tier of the cart's customer from their active membership
+ * 2. Sets one TIER_DISCOUNT line item adjustment per eligible line
+ *    (keeping all other adjustments), so the discount is part of the cart and
+ *    order totals and each order line records its own share
+ * 3. Skips the line items excluded in the membership settings - PWP rewards,
+ *    bulk-priced items and items already on sale
+ * 4. Records the tier and discount total in cart metadata, which carries over
+ *    to the order for emails, invoices and analytics
+ *
+ * Writes only happen when something changed, so the cart.updated events our
+ * own updates emit settle after one extra pass.
+ */
+
+import type { ICartModuleService, MedusaContainer } from "@medusajs/framework/types"
+import { Modules } from "@medusajs/framework/utils"
+import { MEMBERSHIP_MODULE } from "../modules/membership"
+import { MEMBERSHIP_CONFIG_MODULE } from "../modules/membership-config"
+import { TIER_CONFIG_MODULE } from "../modules/tier-config"
+
+export const TIER_DISCOUNT_CODE = "TIER_DISCOUNT"
+
+export type TierDiscountExclusions = {
+  pwp: boolean
+  bulk: boolean
+  sale: boolean
+}
+
+type TierDiscountItem = {
+  id: string
+  unit_price: number | string | unknown
+  quantity: number | string | unknown
+  metadata?: Record<string, unknown> | null
+  adjustments?: Array<Record<string, any>> | null
+}
+
+type CartWithItems = {
+  id: string
+  customer_id?: string | null
+  completed_at?: Date | string | null
+  metadata?: Record<string, unknown> | null
+  items?: TierDiscountItem[] | null
+}
+
+/**
+ * Tier discount of a cart, as returned in cart responses
+ */
+export type CartTierDiscountSummary = {
+  slug: string
+  name: string
+  discount_percentage: number
+  discount_amount: number
+}
+
+export function isTierDiscountAdjustment(adjustment: { code?: unknown }): boolean {
+  return adjustment.code === TIER_DISCOUNT_CODE
+}
+
+function adjustmentKey(itemId: string, amount: unknown): string {
+  return `${itemId}:${Number(amount) || 0}`
+}
+
+/**
+ * Whether the tier discount skips a line item
+ */
+export function isExcludedFromTierDiscount(
+  item: { metadata?: Record<string, unknown> | null },
+  exclusions: TierDiscountExclusions
+): boolean {
+  const metadata = item.metadata || {}
+  if (exclusions.pwp && metadata.is_pwp_item) return true
+  if (exclusions.bulk && (metadata.is_bulk_price || metadata.is_wholesale_tier_discount)) return true
+  if (exclusions.sale && metadata.is_variant_discount) return true
+  return false
+}
+
+/**
+ * Tier discount of a single line - a PWP reward is discounted on its net price
+ */
+export function calculateItemTierDiscount(item: TierDiscountItem, percentage: number): number {
+  const quantity = Number(item.quantity) || 0
+  let lineTotal = (Number(item.unit_price) || 0) * quantity
+
+  if (item.metadata?.is_pwp_item && item.metadata?.pwp_discount_amount) {
+    lineTotal -= Number(item.metadata.pwp_discount_amount) * quantity
+  }
+
+  return Math.max(0, Math.round(lineTotal * percentage / 100))
+}
+
+/**
+ * Read the tier discount stored on a cart or order
+ */
+export function getCartTierDiscountSummary(
+  metadata: Record<string, unknown> | null | undefined
+): CartTierDiscountSummary | null {
+  if (!metadata?.tier_slug || !metadata?.tier_discount_percentage) return null
+
+  return {
+    slug: metadata.tier_slug as string,
+    name: (metadata.tier_name as string) || (metadata.tier_slug as string),
+    discount_percentage: Number(metadata.tier_discount_percentage) || 0,
+    discount_amount: Number(metadata.tier_discount_amount) || 0,
+  }
+}
+
+/**
+ * Tier of the cart's customer, when it carries a discount
+ */
+async function resolveDiscountTier(
+  container: MedusaContainer,
+  customerId: string | null | undefined
+): Promise<{ slug: string; name: string; discount_percentage: number } | null> {
+  if (!customerId) return null
+
+  const membershipService = container.resolve(MEMBERSHIP_MODULE) as any
+  const membership = await membershipService.getMembershipByCustomer(customerId)
+  if (!membership || membership.status !== "active" || !membership.tier_slug) return null
+
+  const tierConfigService = container.resolve(TIER_CONFIG_MODULE) as any
+  const tier = await tierConfigService.getTierBySlug(membership.tier_slug)
+  if (!tier || !tier.is_active || !(Number(tier.discount_percentage) > 0)) return null
+
+  return {
+    slug: tier.slug,
+    name: tier.name,
+    discount_percentage: Number(tier.discount_percentage),
+  }
+}
+
+/**
+ * Apply the customer's tier discount to a cart, or clear it when the customer
+ * no longer has a discount tier
+ * @param cart - Cart retrieved with items and items.adjustments
+ * @returns The applied tier discount, or null when none applies
+ */
+export async function applyTierDiscountToCart(
+  container: MedusaContainer,
+  cart: CartWithItems
+): Promise<CartTierDiscountSummary | null> {
+  if (cart.completed_at) return null
+
+  const cartModuleService = container.resolve<ICartModuleService>(Modules.CART)
+
+  const items = cart.items || []
+  const metadata = cart.metadata || {}
+  const existingTierAdjustments = items.flatMap((item) =>
+    (item.adjustments || [])
+      .filter(isTierDiscountAdjustment)
+      .map((adj) => adjustmentKey(item.id, adj.amount))
+  )
+
+  const tier = await resolveDiscountTier(container, cart.customer_id)
+
+  let tierAdjustments: Array<{
+    item_id: string
+    code: string
+    amount: number
+    description: string
+    promotion_id: null
+  }> = []
+
+  if (tier) {
+    const configService = container.resolve(MEMBERSHIP_CONFIG_MODULE) as any
+    const exclusions: TierDiscountExclusions = await configService.getTierDiscountExclusions()
+
+    tierAdjustments = items
+      .filter((item) => !isExcludedFromTierDiscount(item, exclusions))
+      .map((item) => ({
+        item_id: item.id,
+        code: TIER_DISCOUNT_CODE,
+        amount: calculateItemTierDiscount(item, tier.discount_percentage),
+        description: `${tier.name} member discount (${tier.discount_percentage}%)`,
+        promotion_id: null,
+      }))
+      .filter((adj) => adj.amount > 0)
+  }
+
+  const adjustmentsChanged =
+    tierAdjustments.map((adj) => adjustmentKey(adj.item_id, adj.amount)).sort().join("|") !==
+    [...existingTierAdjustments].sort().join("|")
+
+  if (adjustmentsChanged) {
+    // setLineItemAdjustments replaces all adjustments on the cart, so every
+    // other adjustment is passed through unchanged
+    const keptAdjustments = items.flatMap((item) =>
+      (item.adjustments || [])
+        .filter((adj) => !isTierDiscountAdjustment(adj))
+        .map((adj) => ({
+          id: adj.id,
+          item_id: item.id,
+          code: adj.code,
+          amount: adj.amount,
+          description: adj.description,
+          promotion_id: adj.promotion_id || null,
+        }))
+    )
+
+    await cartModuleService.setLineItemAdjustments(cart.id, [...keptAdjustments, ...tierAdjustments])
+  }
+
+  const discountAmount = tierAdjustments.reduce((sum, adj) => sum + adj.amount, 0)
+  const updates: Record<string, unknown> = {
+    tier_discount_percentage: tier && discountAmount > 0 ? tier.discount_percentage : null,
+    tier_discount_amount: discountAmount || null,
+    tier_slug: tier && discountAmount > 0 ? tier.slug : null,
+    tier_name: tier && discountAmount > 0 ? tier.name : null,
+  }
+
+  const metadataChanged = Object.entries(updates).some(
+    ([key, value]) => JSON.stringify(metadata[key] ?? null) !== JSON.stringify(value)
+  )
+
+  if (metadataChanged) {
+    await cartModuleService.updateCarts(cart.id, {
+      metadata: { ...metadata, ...updates },
+    })
+  }
+
+  return getCartTierDiscountSummary(updates)
+}
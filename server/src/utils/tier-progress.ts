@@ -0,0 +1,143 @@
+/**
+ * Tier Progress Utility
+ *
+ * Works out where a member stands in the rolling activity window:
+ * 1. Orders and spend still needed to reach the next tier
+ * 2. When the oldest orders drop out of the window
+ * 3. Whether dropping those orders will downgrade the member, when, and what
+ *    it takes to keep the current tier
+ *
+ * Tier matching mirrors TierConfigModuleService.determineTierForActivity so the
+ * projection agrees with what the daily evaluation job will do.
+ */
+
+import type { RollingActivityOrder } from "../modules/membership/services/membership"
+
+export type ProgressTier = {
+  slug: string
+  name: string
+  rank: number
+  order_threshold: number
+  spend_threshold: number | unknown
+  is_default?: boolean
+}
+
+export type TierDropOff = {
+  date: Date
+  order_count: number
+  spend: number
+}
+
+export type TierDowngradeProjection = {
+  date: Date
+  tier: ProgressTier
+  /** Further orders needed before the date to keep the current tier */
+  orders_to_keep: number
+  /** Further spend (cents) needed before the date to keep the current tier */
+  spend_to_keep: number
+}
+
+export type TierProgress = {
+  current_tier: ProgressTier | null
+  next_tier: ProgressTier | null
+  order_count: number
+  spend_total: number
+  orders_needed: number
+  spend_needed: number
+  next_drop_off: TierDropOff | null
+  projected_downgrade: TierDowngradeProjection | null
+}
+
+function sameDay(a: Date, b: Date): boolean {
+  return a.toDateString() === b.toDateString()
+}
+
+/**
+ * Highest tier an activity qualifies for, falling back to the default tier
+ * @param tiers - Active tiers sorted by rank (lowest first)
+ */
+export function findTierForActivity(
+  tiers: ProgressTier[],
+  orderCount: number,
+  spendTotal: number
+): ProgressTier | null {
+  for (let i = tiers.length - 1; i >= 0; i--) {
+    const tier = tiers[i]
+    if (orderCount >= tier.order_threshold && spendTotal >= (Number(tier.spend_threshold) || 0)) {
+      return tier
+    }
+  }
+
+  return tiers.find((tier) => tier.is_default) || tiers[0] || null
+}
+
+/**
+ * First date on which dropping old orders leaves the member below their current tier
+ * Assumes no new orders are placed in the meantime.
+ */
+export function projectTierDowngrade(
+  tiers: ProgressTier[],
+  currentTier: ProgressTier,
+  orders: RollingActivityOrder[]
+): TierDowngradeProjection | null {
+  let orderCount = orders.length
+  let spendTotal = orders.reduce((sum, order) => sum + order.order_total, 0)
+
+  for (const order of orders) {
+    orderCount -= 1
+    spendTotal -= order.order_total
+
+    const tier = findTierForActivity(tiers, orderCount, spendTotal)
+    if (tier && tier.rank < currentTier.rank) {
+      return {
+        date: order.drops_out_at,
+        tier,
+        orders_to_keep: Math.max(0, currentTier.order_threshold - orderCount),
+        spend_to_keep: Math.max(0, (Number(currentTier.spend_threshold) || 0) - spendTotal),
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Progress of a member towards the next tier, and the outlook for the current one
+ * @param tiers - Active tiers sorted by rank (lowest first)
+ * @param currentTierSlug - Membership.tier_slug
+ * @param orders - Orders in the rolling window, oldest first
+ */
+export function calculateTierProgress(
+  tiers: ProgressTier[],
+  currentTierSlug: string,
+  orders: RollingActivityOrder[]
+): TierProgress {
+  const currentTier = tiers.find((tier) => tier.slug === currentTierSlug) || null
+  const nextTier = currentTier
+    ? tiers.find((tier) => tier.rank > currentTier.rank) || null
+    : null
+
+  const orderCount = orders.length
+  const spendTotal = orders.reduce((sum, order) => sum + order.order_total, 0)
+
+  let nextDropOff: TierDropOff | null = null
+  if (orders.length > 0) {
+    const dropping = orders.filter((order) => sameDay(order.drops_out_at, orders[0].drops_out_at))
+    nextDropOff = {
+      date: orders[0].drops_out_at,
+      order_count: dropping.length,
+      spend: dropping.reduce((sum, order) => sum + order.order_total, 0),
+    }
+  }
+
+  return {
+    current_tier: currentTier,
+    next_tier: nextTier,
+    order_count: orderCount,
+    spend_total: spendTotal,
+    orders_needed: nextTier ? Math.max(0, nextTier.order_threshold - orderCount) : 0,
+    spend_needed: nextTier ? Math.max(0, (Number(nextTier.spend_threshold) || 0) - spendTotal) : 0,
+    next_drop_off: nextDropOff,
+    projected_downgrade: currentTier ? projectTierDowngrade(tiers, currentTier, orders) : null,
+  }
+}
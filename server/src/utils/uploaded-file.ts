@@ -0,0 +1,38 @@
+/**
+ * Uploaded File Utility
+ *
+ * Photos customers attach (return evidence, review images) must be files they
+ * uploaded through /store/uploads, not arbitrary links.
+ */
+
+import {
+  BACKEND_URL,
+  MINIO_ACCESS_KEY,
+  MINIO_BUCKET,
+  MINIO_ENDPOINT,
+  MINIO_SECRET_KEY,
+} from "../lib/constants"
+
+/**
+ * Whether a URL points at a file stored through /store/uploads - the MinIO
+ * bucket when MinIO is configured, the backend's static folder otherwise
+ * (see the file providers in medusa-config)
+ */
+export function isUploadedFileUrl(value: unknown): boolean {
+  if (typeof value !== "string") return false
+
+  let url: URL
+  try {
+    url = new URL(value)
+  } catch {
+    return false
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return false
+
+  if (MINIO_ENDPOINT && MINIO_ACCESS_KEY && MINIO_SECRET_KEY) {
+    return url.hostname === MINIO_ENDPOINT && url.pathname.startsWith(`/${MINIO_BUCKET || "medusa-media"}/`)
+  }
+
+  const staticUrl = new URL(`${BACKEND_URL}/static/`)
+  return url.host === staticUrl.host && url.pathname.startsWith(staticUrl.pathname)
+}
@@ -0,0 +1,333 @@
+/**
+ * Wishlist Alerts Utility
+ *
+ * Tells shoppers when something they are waiting for changes:
+ * 1. Price drops: a wishlisted product's current price, price lists included,
+ *    is below the price saved when it was wishlisted
+ * 2. Restocks: a wishlisted product that was out of stock at the last check
+ *    can be bought again
+ * 3. "Notify me when available" requests on out of stock products, which
+ *    guests can make too
+ * Wishlist changes go out as one digest email per customer, respecting their
+ * alert preferences. Runs from the check-wishlist-alerts job.
+ */
+
+import type {
+  ICustomerModuleService,
+  INotificationModuleService,
+  MedusaContainer,
+} from "@medusajs/framework/types"
+import { ContainerRegistrationKeys, Modules } from "@medusajs/framework/utils"
+import { STOREFRONT_URL } from "../lib/constants"
+import { EmailTemplates } from "../modules/email-notifications/templates"
+import { WISHLIST_MODULE, type WishlistModuleService } from "../modules/wishlist"
+import { formatPrice } from "./format-price"
+
+type VariantAvailability = {
+  price: number | null // Current price in cents
+  in_stock: boolean
+}
+
+type ProductAvailability = {
+  title: string
+  thumbnail: string | null
+  price: number | null // Lowest current variant price in cents
+  in_stock: boolean // Any variant can be bought
+  variants: Map<string, VariantAvailability>
+}
+
+type WishlistAlertItem = {
+  kind: "price_drop" | "back_in_stock"
+  title: string
+  thumbnail?: string
+  link: string
+  price?: string
+  previousPrice?: string
+}
+
+export type WishlistAlertsResult = {
+  digests_sent: number
+  stock_notifications_sent: number
+  errors: number
+}
+
+/**
+ * Current price and stock of published products, per product and variant.
+ * Variants that don't manage inventory or allow backorders are always in stock
+ */
+export async function getProductAvailability(
+  container: MedusaContainer,
+  productIds: string[]
+): Promise<Map<string, ProductAvailability>> {
+  const query = container.resolve(ContainerRegistrationKeys.QUERY)
+  const productModule = container.resolve(Modules.PRODUCT)
+  const pricingModule = container.resolve(Modules.PRICING)
+  const regionModule = container.resolve(Modules.REGION)
+
+  const availability = new Map<string, ProductAvailability>()
+  const uniqueIds = [...new Set(productIds)]
+  if (uniqueIds.length === 0) return availability
+
+  const products = await productModule.listProducts(
+    { id: uniqueIds, status: "published" },
+    { relations: ["variants"], select: ["id", "title", "thumbnail"] }
+  )
+  const variants = products.flatMap((p) => p.variants || [])
+  const variantIds = variants.map((v) => v.id)
+
+  // Calculated prices (sale price lists applied) in the default region's currency
+  const [region] = await regionModule.listRegions({}, { take: 1 })
+  const currencyCode = region?.currency_code || "myr"
+  const variantPrices = new Map<string, number>()
+  if (variantIds.length > 0) {
+    const { data: variantPriceSets } = await query.graph({
+      entity: "product_variant_price_set",
+      fields: ["variant_id", "price_set_id"],
+      filters: { variant_id: variantIds },
+    })
+    const priceSetToVariant = new Map<string, string>(
+      variantPriceSets.map((vps: any) => [vps.price_set_id, vps.variant_id])
+    )
+    if (priceSetToVariant.size > 0) {
+      const calculated = await pricingModule.calculatePrices(
+        { id: [...priceSetToVariant.keys()] },
+        { context: { currency_code: currencyCode } }
+      )
+      for (const price of calculated) {
+        const variantId = priceSetToVariant.get(price.id)
+        if (variantId && price.calculated_amount !== null && price.calculated_amount !== undefined) {
+          variantPrices.set(variantId, Number(price.calculated_amount))
+        }
+      }
+    }
+  }
+
+  // Available quantity (stocked - reserved over all locations)
+  const variantStock = new Map<string, number>()
+  if (variantIds.length > 0) {
+    const { data: inventoryLinks } = await query.graph({
+      entity: "product_variant_inventory_item",
+      fields: ["variant_id", "inventory_item_id"],
+      filters: { variant_id: variantIds },
+    })
+    const inventoryItemIds = inventoryLinks.map((link: any) => link.inventory_item_id).filter(Boolean)
+    const itemQuantities = new Map<string, number>()
+    if (inventoryItemIds.length > 0) {
+      const { data: levels } = await query.graph({
+        entity: "inventory_level",
+        fields: ["inventory_item_id", "stocked_quantity", "reserved_quantity"],
+        filters: { inventory_item_id: inventoryItemIds },
+      })
+      for (const level of levels) {
+        const available = (Number(level.stocked_quantity) || 0) - (Number(level.reserved_quantity) || 0)
+        itemQuantities.set(level.inventory_item_id, (itemQuantities.get(level.inventory_item_id) || 0) + available)
+      }
+    }
+    for (const link of inventoryLinks) {
+      variantStock.set(link.variant_id, itemQuantities.get(link.inventory_item_id) || 0)
+    }
+  }
+
+  for (const product of products) {
+    const productVariants = new Map<string, VariantAvailability>()
+    for (const variant of product.variants || []) {
+      productVariants.set(variant.id, {
+        price: variantPrices.get(variant.id) ?? null,
+        in_stock: !variant.manage_inventory || variant.allow_backorder || (variantStock.get(variant.id) || 0) > 0,
+      })
+    }
+
+    const prices = [...productVariants.values()].map((v) => v.price).filter((p): p is number => p !== null)
+    availability.set(product.id, {
+      title: product.title,
+      thumbnail: product.thumbnail || null,
+      price: prices.length > 0 ? Math.min(...prices) : null,
+      in_stock: [...productVariants.values()].some((v) => v.in_stock),
+      variants: productVariants,
+    })
+  }
+
+  return availability
+}
+
+/**
+ * Check every wishlisted product and every waiting stock request, and email
+ * the customers whose items changed
+ */
+export async function runWishlistAlerts(container: MedusaContainer): Promise<WishlistAlertsResult> {
+  const logger = container.resolve(ContainerRegistrationKeys.LOGGER) as any
+  const wishlistService = container.resolve<WishlistModuleService>(WISHLIST_MODULE)
+  const customerModuleService = container.resolve<ICustomerModuleService>(Modules.CUSTOMER)
+  const notificationModuleService = container.resolve<INotificationModuleService>(
+    Modules.NOTIFICATION
+  )
+
+  const result: WishlistAlertsResult = { digests_sent: 0, stock_notifications_sent: 0, errors: 0 }
+
+  const items = await wishlistService.listWishlists({}, { order: { created_at: "ASC" } })
+  const subscriptions = await wishlistService.listStockSubscriptions({ status: "active" })
+
+  const availability = await getProductAvailability(container, [
+    ...items.map((item) => item.product_id),
+    ...subscriptions.map((subscription) => subscription.product_id),
+  ])
+
+  // === WISHLIST DIGESTS ===
+  const itemsByCustomer = new Map<string, typeof items>()
+  for (const item of items) {
+    itemsByCustomer.set(item.customer_id, [...(itemsByCustomer.get(item.customer_id) || []), item])
+  }
+  const customerIds = [...itemsByCustomer.keys()]
+  const preferences = await wishlistService.getAlertPreferencesByCustomer(customerIds)
+  const customers = customerIds.length > 0
+    ? await customerModuleService.listCustomers(
+        { id: customerIds },
+        { select: ["id", "email", "first_name"] }
+      )
+    : []
+  const customersById = new Map(customers.map((customer) => [customer.id, customer]))
+
+  for (const [customerId, customerItems] of itemsByCustomer) {
+    const preference = preferences.get(customerId)!
+    const customer = customersById.get(customerId)
+    const alerts: WishlistAlertItem[] = []
+    const checks: Parameters<WishlistModuleService["recordItemChecks"]>[0] = []
+    const alertChecks: typeof checks = []
+
+    for (const item of customerItems) {
+      const product = availability.get(item.product_id)
+      if (!product) continue
+
+      const variant = item.variant_id ? product.variants.get(item.variant_id) : undefined
+      const price = variant ? variant.price : product.price
+      const inStock = variant ? variant.in_stock : product.in_stock
+      const savedPrice = Number(item.price)
+      const lastNotifiedPrice = item.last_notified_price === null ? null : Number(item.last_notified_price)
+
+      const check: (typeof checks)[number] = { id: item.id }
+      let alerted = false
+
+      if (item.in_stock === false && inStock && preference.back_in_stock) {
+        alerts.push({
+          kind: "back_in_stock",
+          title: item.title,
+          thumbnail: item.thumbnail || undefined,
+          link: `${STOREFRONT_URL}/product/${item.product_id}`,
+          price: price !== null ? formatPrice(price) : undefined,
+        })
+        alerted = true
+      }
+
+      // Each lower price is announced once; the price going back up re-arms the alert
+      if (price !== null) {
+        const threshold = Math.min(savedPrice, lastNotifiedPrice ?? Infinity)
+        if (price < threshold && inStock && preference.price_drop) {
+          alerts.push({
+            kind: "price_drop",
+            title: item.title,
+            thumbnail: item.thumbnail || undefined,
+            link: `${STOREFRONT_URL}/product/${item.product_id}`,
+            price: formatPrice(price),
+            previousPrice: formatPrice(lastNotifiedPrice ?? savedPrice),
+          })
+          check.last_notified_price = price
+          alerted = true
+        } else if (price >= savedPrice && lastNotifiedPrice !== null) {
+          check.last_notified_price = null
+        }
+      }
+
+      if (item.in_stock !== inStock) {
+        check.in_stock = inStock
+      }
+
+      if (alerted) {
+        alertChecks.push({ ...check, notified_at: new Date() })
+      } else if (Object.keys(check).length > 1) {
+        checks.push(check)
+      }
+    }
+
+    // A product saved on several lists is mentioned once
+    const seen = new Set<string>()
+    const digest = alerts.filter((alert) => {
+      const key = `${alert.kind}:${alert.link}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+
+    // Alerted items are only updated once the email went out, so a failed
+    // send is retried on the next run
+    if (digest.length > 0 && customer?.email) {
+      try {
+        await notificationModuleService.createNotifications({
+          to: customer.email,
+          channel: "email",
+          template: EmailTemplates.WISHLIST_ALERT,
+          data: {
+            emailOptions: {
+              replyTo: "support@lb-frozen.com",
+              subject: digest.every((a) => a.kind === "price_drop")
+                ? "Prices dropped on your wishlist"
+                : "Good news about your wishlist",
+            },
+            items: digest,
+            wishlistLink: `${STOREFRONT_URL}/wishlist`,
+            firstName: customer.first_name || undefined,
+            preview: `${digest.length} item${digest.length === 1 ? "" : "s"} on your wishlist changed`,
+          },
+        })
+        checks.push(...alertChecks)
+        result.digests_sent++
+      } catch (error) {
+        result.errors++
+        logger.error(`[WISHLIST-ALERTS] Failed to email customer ${customerId}: ${error}`)
+      }
+    } else {
+      checks.push(...alertChecks.map(({ notified_at: _notifiedAt, ...check }) => check))
+    }
+
+    await wishlistService.recordItemChecks(checks)
+  }
+
+  // === NOTIFY ME WHEN AVAILABLE ===
+  const notified: string[] = []
+  for (const subscription of subscriptions) {
+    const product = availability.get(subscription.product_id)
+    if (!product) continue
+
+    const variant = subscription.variant_id ? product.variants.get(subscription.variant_id) : undefined
+    const inStock = subscription.variant_id ? !!variant?.in_stock : product.in_stock
+    if (!inStock) continue
+
+    const price = variant ? variant.price : product.price
+
+    try {
+      await notificationModuleService.createNotifications({
+        to: subscription.email,
+        channel: "email",
+        template: EmailTemplates.BACK_IN_STOCK,
+        data: {
+          emailOptions: {
+            replyTo: "support@lb-frozen.com",
+            subject: `${product.title} is back in stock`,
+          },
+          productTitle: product.title,
+          thumbnail: product.thumbnail || undefined,
+          price: price !== null ? formatPrice(price) : undefined,
+          productLink: `${STOREFRONT_URL}/product/${subscription.product_id}`,
+          preview: `${product.title} is available again`,
+        },
+      })
+      notified.push(subscription.id)
+      result.stock_notifications_sent++
+    } catch (error) {
+      result.errors++
+      logger.error(`[WISHLIST-ALERTS] Failed to send stock notification ${subscription.id}: ${error}`)
+    }
+  }
+  await wishlistService.markStockSubscriptionsNotified(notified)
+
+  return result
+}
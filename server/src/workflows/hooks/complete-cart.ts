@@ -0,0 +1,97 @@
+import { completeCartWorkflow } from "@medusajs/medusa/core-flows"
+import { MedusaError } from "@medusajs/framework/utils"
+import { DELIVERY_SLOT_MODULE } from "../../modules/delivery-slot"
+import type DeliverySlotModuleService from "../../modules/delivery-slot/services/delivery-slot"
+import type { DeliverySlotSelection } from "../../modules/delivery-slot/services/delivery-slot"
+import { isShippingOptionInZone } from "../../modules/delivery-zone/services/delivery-zone"
+import { PROMO_MODULE } from "../../modules/promo"
+import type PromoModuleService from "../../modules/promo/services/promo"
+import { getCartServiceZoneId } from "../../utils/delivery-slot-cart"
+import { getCartDeliveryZone } from "../../utils/delivery-zone-cart"
+import { formatPrice } from "../../utils/format-price"
+
+/**
+ * Checks run right before a cart becomes an order. Throwing stops the
+ * checkout, so the customer can fix the cart instead of getting an order
+ * that breaks a limit
+ */
+completeCartWorkflow.hooks.validate(async ({ cart }, { container }) => {
+  const promoService = container.resolve<PromoModuleService>(PROMO_MODULE)
+
+  // Reservations of idle carts are released by the expiry job while the
+  // promo stays on the cart - take a use again, or refuse the checkout
+  const couponId = cart.metadata?.applied_coupon_id as string | undefined
+  if (couponId) {
+    const reservation = await promoService.reservePromo("coupon", couponId, cart.id)
+    if (!reservation) {
+      const code = cart.metadata?.applied_coupon_code || couponId
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `Coupon ${code} has reached its usage limit. Please remove it to continue.`
+      )
+    }
+  }
+
+  const pwpRuleIds = new Set<string>()
+  for (const item of cart.items || []) {
+    if (item?.metadata?.is_pwp_item && item.metadata.pwp_rule_id) {
+      pwpRuleIds.add(item.metadata.pwp_rule_id as string)
+    }
+  }
+  for (const pwpRuleId of pwpRuleIds) {
+    const reservation = await promoService.reservePromo("pwp", pwpRuleId, cart.id)
+    if (!reservation) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        "A purchase-with-purchase offer in your cart is no longer available. Please remove it to continue."
+      )
+    }
+  }
+
+  // Shipping methods are removed once the cart drops below its zone's minimum
+  // order value, but that runs after the update - check the final cart too
+  const deliveryZone = await getCartDeliveryZone(container, cart)
+  if (deliveryZone && !deliveryZone.quote.meets_minimum) {
+    const { quote } = deliveryZone
+    throw new MedusaError(
+      MedusaError.Types.NOT_ALLOWED,
+      `The minimum order for delivery to ${quote.name} is ${formatPrice(quote.minimum_order_value || 0)}. ` +
+      `Add ${formatPrice(quote.amount_to_minimum)} more to check out.`
+    )
+  }
+
+  // Shipping methods must be ones the zone offers, at the zone's charge
+  if (deliveryZone) {
+    const { zone, quote } = deliveryZone
+    const invalidMethod = (cart.shipping_methods || []).find((method) =>
+      (method.shipping_option_id && !isShippingOptionInZone(zone, method.shipping_option_id)) ||
+      Number(method.amount) !== quote.shipping_amount
+    )
+    if (invalidMethod) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        `The delivery option in your cart is no longer valid for ${quote.name}. Please choose a delivery option again.`
+      )
+    }
+  }
+
+  // The slot hold may have expired while the customer was paying - hold it
+  // again, which re-checks the date, cut-off, blackouts, zone and capacity
+  const deliverySlot = cart.metadata?.delivery_slot as DeliverySlotSelection | undefined
+  if (deliverySlot?.slot_id && deliverySlot.date) {
+    const deliverySlotService = container.resolve<DeliverySlotModuleService>(DELIVERY_SLOT_MODULE)
+    const serviceZoneId = await getCartServiceZoneId(container, cart)
+    const selection = await deliverySlotService.reserveSlot(
+      cart.id,
+      deliverySlot.slot_id,
+      deliverySlot.date,
+      serviceZoneId
+    )
+    if (!selection) {
+      throw new MedusaError(
+        MedusaError.Types.NOT_ALLOWED,
+        "Your delivery slot is now fully booked. Please choose another to continue."
+      )
+    }
+  }
+})
@@ -7,6 +7,7 @@ import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import { useCartContext } from "@/lib/CartContext";
 import { useAuthContext } from "@/lib/AuthContext";
 import { useToast } from "@/components/ui/toast";
+import type { AppliedAutoPromotion, SkippedAutoPromotion } from "@/lib/api/types";
 
 // Type for item to remove
 interface RemoveItemData {
@@ -216,7 +217,17 @@ export default function CartPage() {
   // Calculate discount from promo (from cart metadata or local state)
   const discountAmount = cart?.metadata?.applied_membership_promo_discount || appliedPromo?.discount || 0;
   
-  const total = subtotal - discountAmount + shipping;
+  // Automatic promotions are applied by the server on every cart update
+  const autoPromotions: AppliedAutoPromotion[] = cart?.metadata?.auto_promotions_applied || [];
+  const skippedPromotions: SkippedAutoPromotion[] = cart?.metadata?.auto_promotions_not_applied || [];
+  const autoPromotionDiscount = Number(cart?.metadata?.auto_promotion_discount) || 0;
+
+  // Member tier discount, applied by the server to eligible items
+  const tierDiscount = Number(cart?.metadata?.tier_discount_amount) || 0;
+  const tierName: string | undefined = cart?.metadata?.tier_name;
+  const tierDiscountPercentage = Number(cart?.metadata?.tier_discount_percentage) || 0;
+
+  const total = subtotal - discountAmount - autoPromotionDiscount - tierDiscount + shipping;
 
   return (
     <div className="relative">
@@ -621,6 +632,36 @@ export default function CartPage() {
                     </div>
                   )}
 
+                  {tierDiscount > 0 && (
+                    <div className="flex justify-between text-green-600">
+                      <span>
+                        {tierName ? `${tierName} member discount` : "Member discount"} ({tierDiscountPercentage}%)
+                      </span>
+                      <span className="font-medium">-RM{(tierDiscount / 100).toFixed(2)}</span>
+                    </div>
+                  )}
+
+                  {autoPromotions.map((promotion) => (
+                    <div key={promotion.promotion_id} className="text-green-600">
+                      <div className="flex justify-between">
+                        <span>{promotion.name}</span>
+                        <span className="font-medium">
+                          {promotion.discount_amount > 0
+                            ? `-RM${(promotion.discount_amount / 100).toFixed(2)}`
+                            : "Applied"}
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-0.5">{promotion.message}</p>
+                    </div>
+                  ))}
+
+                  {skippedPromotions.map((promotion) => (
+                    <div key={promotion.promotion_id} className="text-xs text-gray-500">
+                      <span className="font-medium text-gray-700">{promotion.name}:</span>{" "}
+                      {promotion.reason}
+                    </div>
+                  ))}
+
                   <div className="border-t border-dotted border-gray-300 my-4"></div>
 
                   <div className="flex justify-between text-gray-700">
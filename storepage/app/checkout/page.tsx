@@ -5,12 +5,15 @@ import Image from "next/image";
 import { useRouter } from "next/navigation";
 import { AddAddressDialog } from "@/components/AddAddressDialog";
 import { CheckoutStepper } from "@/components/shared/CheckoutStepper";
+import { DeliverySlotPicker } from "@/components/shared/DeliverySlotPicker";
 import { OrderSummary } from "@/components/shared/OrderSummary";
 import { useAuthContext } from "@/lib/AuthContext";
 import { 
   useCheckoutQuery, 
   useAddShippingMethodMutation, 
-  useUpdateShippingAddressMutation 
+  useUpdateShippingAddressMutation,
+  useDeliverySlotsQuery,
+  useSelectDeliverySlotMutation,
 } from "@/lib/queries";
 import { useCheckoutStore } from "@/lib/stores";
 import type { Address } from "@/lib/api/types";
@@ -19,11 +22,6 @@ export default function CheckoutPage() {
   const router = useRouter();
   const { customer, loading: authLoading } = useAuthContext();
   
-  // React Query hooks
-  const { data: checkoutData, isLoading: checkoutLoading } = useCheckoutQuery();
-  const cart = checkoutData?.cart || null;
-  const shippingOptions = checkoutData?.shippingOptions || [];
-
   // Zustand checkout store
   const {
     shippingMethod,
@@ -35,9 +33,30 @@ export default function CheckoutPage() {
     selectedShippingOptionId,
     setSelectedShippingOptionId,
   } = useCheckoutStore();
+
+  // Guests type their address on this page, so price shipping by the postcode
+  // as soon as it's complete rather than waiting for the address to be saved
+  const guestPostalCode = !customer && guestAddress.postal_code.trim().length >= 5
+    ? guestAddress.postal_code.trim()
+    : undefined;
+
+  // React Query hooks
+  const { data: checkoutData, isLoading: checkoutLoading } = useCheckoutQuery(guestPostalCode);
+  const cart = checkoutData?.cart || null;
+  const shippingOptions = checkoutData?.shippingOptions || [];
+  const deliveryZone = checkoutData?.deliveryZone || null;
   
   const addShippingMethodMutation = useAddShippingMethodMutation();
   const updateShippingAddressMutation = useUpdateShippingAddressMutation();
+  const selectDeliverySlotMutation = useSelectDeliverySlotMutation();
+
+  // Delivery slots are offered per service zone of the chosen shipping option
+  const { data: deliverySlotData } = useDeliverySlotsQuery(
+    cart?.id || null,
+    !!selectedShippingOptionId
+  );
+  const deliveryDates = deliverySlotData?.dates || [];
+  const selectedDeliverySlot = deliverySlotData?.selected || null;
   
   const selectShippingMethod = useCallback(async (optionId: string) => {
     return await addShippingMethodMutation.mutateAsync(optionId);
@@ -52,6 +71,7 @@ export default function CheckoutPage() {
   // Local error states (keep as useState since they're transient)
   const [guestAddressError, setGuestAddressError] = useState("");
   const [shippingTypeError, setShippingTypeError] = useState("");
+  const [deliverySlotError, setDeliverySlotError] = useState("");
 
   // Redirect to cart if cart is empty
   useEffect(() => {
@@ -108,6 +128,18 @@ export default function CheckoutPage() {
     }
   };
 
+  // Handle delivery slot selection
+  const handleDeliverySlotSelect = async (slotId: string, date: string) => {
+    try {
+      setDeliverySlotError("");
+      await selectDeliverySlotMutation.mutateAsync({ slotId, date });
+    } catch (error) {
+      setDeliverySlotError(
+        error instanceof Error ? error.message : "Failed to book delivery slot. Please try again."
+      );
+    }
+  };
+
   // Handle address selection
   const handleAddressSelect = async (address: Address) => {
     try {
@@ -118,6 +150,20 @@ export default function CheckoutPage() {
     }
   };
 
+  // Re-check the shipping method against the delivery zone of the saved address
+  const applyZoneShipping = async (): Promise<boolean> => {
+    if (!selectedShippingOptionId || shippingOptions.length === 0) return true;
+    try {
+      await selectShippingMethod(selectedShippingOptionId);
+      return true;
+    } catch (error) {
+      setShippingTypeError(
+        error instanceof Error ? error.message : "Shipping isn't available for this address."
+      );
+      return false;
+    }
+  };
+
   const handleProceedToPayment = async () => {
     // Validate shipping type is selected
     if (!selectedShippingOptionId) {
@@ -126,6 +172,21 @@ export default function CheckoutPage() {
     }
     setShippingTypeError("");
 
+    // The delivery zone of the address may require a minimum order
+    if (deliveryZone && !deliveryZone.meets_minimum) {
+      setShippingTypeError(
+        `Add RM${(deliveryZone.amount_to_minimum / 100).toFixed(2)} more to reach the minimum order for delivery to ${deliveryZone.name}.`
+      );
+      return;
+    }
+
+    // A delivery slot is required when the shipping option offers slots
+    if (deliveryDates.length > 0 && !selectedDeliverySlot) {
+      setDeliverySlotError("Please choose a delivery slot");
+      return;
+    }
+    setDeliverySlotError("");
+
     if (!customer) {
       // Validate guest address
       if (!guestAddress.first_name || !guestAddress.last_name || !guestAddress.address_1 || !guestAddress.city || !guestAddress.postal_code || !guestAddress.country_code) {
@@ -140,9 +201,12 @@ export default function CheckoutPage() {
           country_code: guestAddress.country_code.toLowerCase(),
         };
         await updateShippingAddress(addressToSubmit);
-        router.push("/payment");
       } catch (error) {
         setGuestAddressError("Failed to set shipping address. Please try again.");
+        return;
+      }
+      if (await applyZoneShipping()) {
+        router.push("/payment");
       }
     } else {
       // Make sure address is set before proceeding
@@ -164,7 +228,9 @@ export default function CheckoutPage() {
           console.error("Failed to update shipping address:", error);
         }
       }
-      router.push("/payment");
+      if (await applyZoneShipping()) {
+        router.push("/payment");
+      }
     }
   };
 
@@ -352,11 +418,55 @@ export default function CheckoutPage() {
                   </>
                 )}
               </div>
+              {deliveryZone && (
+                <div
+                  className={`mt-3 rounded-xl px-4 py-3 text-sm ${
+                    deliveryZone.meets_minimum ? "bg-gray-50 text-gray-700" : "bg-amber-50 text-amber-800"
+                  }`}
+                >
+                  {!deliveryZone.meets_minimum ? (
+                    <>
+                      Minimum order for delivery to {deliveryZone.name} is RM
+                      {((deliveryZone.minimum_order_value || 0) / 100).toFixed(2)}. Add RM
+                      {(deliveryZone.amount_to_minimum / 100).toFixed(2)} more to check out.
+                    </>
+                  ) : deliveryZone.shipping_amount === 0 && deliveryZone.free_shipping_threshold !== null ? (
+                    <>Your order qualifies for free delivery to {deliveryZone.name}.</>
+                  ) : deliveryZone.amount_to_free_shipping ? (
+                    <>
+                      Add RM{(deliveryZone.amount_to_free_shipping / 100).toFixed(2)} more for free delivery
+                      to {deliveryZone.name}.
+                    </>
+                  ) : (
+                    <>Delivering to {deliveryZone.name} ({deliveryZone.postal_code}).</>
+                  )}
+                </div>
+              )}
               {shippingTypeError && (
                 <p className="text-red-600 text-sm mt-2">{shippingTypeError}</p>
               )}
             </div>
 
+            {/* Delivery Slot */}
+            {selectedShippingOptionId && deliveryDates.length > 0 && (
+              <div className="mb-6 lg:mb-8">
+                <h2 className="text-lg lg:text-xl font-bold text-gray-900 mb-1">
+                  Delivery slot
+                </h2>
+                <p className="text-sm text-gray-600 mb-3 lg:mb-4">
+                  Choose when you&apos;ll be home to receive your frozen items.
+                </p>
+                <DeliverySlotPicker
+                  key={deliverySlotData?.service_zone_id || "none"}
+                  dates={deliveryDates}
+                  selected={selectedDeliverySlot}
+                  onSelect={handleDeliverySlotSelect}
+                  isSaving={selectDeliverySlotMutation.isPending}
+                  error={deliverySlotError}
+                />
+              </div>
+            )}
+
             {/* Shipping Address */}
             <div className="mb-6 lg:mb-8">
               <div className="flex items-center justify-between mb-3 lg:mb-4">
@@ -0,0 +1,106 @@
+"use client";
+
+import { Suspense, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import { Bell, BellOff, Loader2 } from "lucide-react";
+import ProtectedNavbar from "@/components/layout/ProtectedNavbar";
+import NewsletterFooter from "@/components/shared/NewsletterFooter";
+import { cancelNotifyMeByToken, confirmNotifyMe } from "@/lib/api/wishlist";
+
+type Status = "loading" | "done" | "error";
+
+/**
+ * Landing page of the links in a back in stock confirmation email:
+ * ?action=confirm turns the alert on, ?action=unsubscribe cancels it
+ */
+function NotifyMeContent() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+  const action = searchParams.get("action") === "unsubscribe" ? "unsubscribe" : "confirm";
+  const [status, setStatus] = useState<Status>("loading");
+  const [productId, setProductId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const submitted = useRef(false);
+
+  useEffect(() => {
+    if (submitted.current) return;
+    submitted.current = true;
+
+    if (!token) {
+      setError("This link is missing its token.");
+      setStatus("error");
+      return;
+    }
+
+    const request = action === "confirm" ? confirmNotifyMe(token) : cancelNotifyMeByToken(token);
+    request
+      .then((result) => {
+        setProductId(result.product_id);
+        setStatus("done");
+      })
+      .catch((err) => {
+        setError(err instanceof Error ? err.message : "Something went wrong, please try again");
+        setStatus("error");
+      });
+  }, [token, action]);
+
+  return (
+    <div className="mx-auto px-4 py-16 text-center">
+      {status === "loading" ? (
+        <Loader2 className="w-12 h-12 text-gray-300 mx-auto animate-spin" />
+      ) : status === "error" ? (
+        <>
+          <BellOff className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            We couldn&apos;t update your alert
+          </h1>
+          <p className="text-gray-600 mb-6">{error}</p>
+        </>
+      ) : action === "confirm" ? (
+        <>
+          <Bell className="w-16 h-16 text-[#23429B] mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Your alert is on</h1>
+          <p className="text-gray-600 mb-6">
+            We&apos;ll email you once this product is back in stock.
+          </p>
+        </>
+      ) : (
+        <>
+          <BellOff className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">Alert cancelled</h1>
+          <p className="text-gray-600 mb-6">
+            You won&apos;t get a back in stock email for this product.
+          </p>
+        </>
+      )}
+
+      {status !== "loading" && (
+        <Link
+          href={productId ? `/product/${productId}` : "/products"}
+          className="inline-flex items-center gap-2 bg-[#23429B] text-white px-6 py-3 rounded-full font-semibold hover:bg-[#1a3178] transition-colors"
+        >
+          {productId ? "View Product" : "Browse Products"}
+        </Link>
+      )}
+    </div>
+  );
+}
+
+export default function NotifyMePage() {
+  return (
+    <div className="min-h-screen bg-white">
+      <ProtectedNavbar />
+      <Suspense
+        fallback={
+          <div className="mx-auto px-4 py-16 text-center">
+            <Loader2 className="w-12 h-12 text-gray-300 mx-auto animate-spin" />
+          </div>
+        }
+      >
+        <NotifyMeContent />
+      </Suspense>
+      <NewsletterFooter />
+    </div>
+  );
+}
@@ -5,8 +5,10 @@ import { useParams, useSearchParams, useRouter } from "next/navigation";
 import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import ProfileSidebar from "@/components/layout/ProfileSidebar";
-import { useOrderQuery } from "@/lib/queries";
-import { CheckCircle, Package, Truck, MapPin, Clock, AlertCircle } from "lucide-react";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { useToast } from "@/components/ui/toast";
+import { useCancelOrderMutation, useOrderQuery } from "@/lib/queries";
+import { CheckCircle, Package, Truck, MapPin, Clock, AlertCircle, RotateCcw, ExternalLink } from "lucide-react";
 
 // Order status configuration
 const ORDER_STATUSES = [
@@ -50,6 +52,25 @@ export default function OrderDetailPage() {
   const error = queryError as Error | null;
   const refresh = () => refetch();
   const [showSuccessMessage, setShowSuccessMessage] = useState(isSuccess);
+  const [cancelConfirmOpen, setCancelConfirmOpen] = useState(false);
+  const cancelOrder = useCancelOrderMutation(orderId);
+  const { showToast } = useToast();
+
+  const handleCancelOrder = async () => {
+    try {
+      const result = await cancelOrder.mutateAsync(undefined);
+      setCancelConfirmOpen(false);
+      showToast(
+        result.refund.refunded
+          ? `Order cancelled. RM${(result.refund.amount / 100).toFixed(2)} will be refunded to your card.`
+          : "Order cancelled.",
+        "success"
+      );
+    } catch (err: any) {
+      setCancelConfirmOpen(false);
+      showToast(err.message || "Failed to cancel order", "error");
+    }
+  };
 
   // Hide success message after 5 seconds
   useEffect(() => {
@@ -176,6 +197,74 @@ export default function OrderDetailPage() {
                 </div>
               </div>
 
+              {/* Shipment Tracking */}
+              {(order.tracking || order.tracking_number) && (
+                <div className="bg-white border-l border-r border-gray-200 p-4 sm:p-6">
+                  <div className="flex flex-wrap items-start justify-between gap-2 mb-4">
+                    <div>
+                      <h2 className="text-lg font-bold text-gray-900">Shipment Tracking</h2>
+                      <p className="text-sm text-gray-500">
+                        {order.tracking?.courier || order.courier}
+                        {" · "}
+                        <span className="font-mono">{order.tracking?.awb || order.tracking_number}</span>
+                      </p>
+                    </div>
+                    {order.tracking?.tracking_url && (
+                      <a
+                        href={order.tracking.tracking_url}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="inline-flex items-center gap-1 text-sm text-blue-600 hover:underline"
+                      >
+                        Track on courier site
+                        <ExternalLink className="w-3.5 h-3.5" />
+                      </a>
+                    )}
+                  </div>
+
+                  {order.tracking && order.tracking.events.length > 0 ? (
+                    <div className="space-y-4">
+                      {[...order.tracking.events].reverse().map((event, index, events) => {
+                        const isLatest = index === 0;
+                        const isLast = index === events.length - 1;
+
+                        return (
+                          <div key={`${event.date}-${event.time}-${index}`} className="flex gap-4">
+                            <div className="flex flex-col items-center">
+                              <div className={`w-3 h-3 rounded-full ${isLatest ? "bg-blue-600" : "bg-gray-300"}`} />
+                              {!isLast && <div className="w-0.5 flex-1 bg-gray-200 mt-1" />}
+                            </div>
+                            <div className={!isLast ? "pb-4" : ""}>
+                              <p className={`font-medium ${isLatest ? "text-gray-900" : "text-gray-600"}`}>
+                                {event.status}
+                              </p>
+                              {(event.description || event.location) && (
+                                <p className="text-sm text-gray-600">
+                                  {[event.description, event.location].filter(Boolean).join(" · ")}
+                                </p>
+                              )}
+                              <p className="text-xs text-gray-500">
+                                {event.date} {event.time}
+                              </p>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-gray-500">
+                      No tracking updates yet. Checkpoints appear here once the courier picks up your parcel.
+                    </p>
+                  )}
+
+                  {order.tracking?.last_tracked_at && (
+                    <p className="mt-4 text-xs text-gray-400">
+                      Last updated {formatDate(order.tracking.last_tracked_at)}
+                    </p>
+                  )}
+                </div>
+              )}
+
               {/* Order Timeline */}
               <div className="bg-white border-l border-r border-gray-200 p-4 sm:p-6">
                 <h2 className="text-lg font-bold text-gray-900 mb-4">Order Timeline</h2>
@@ -407,10 +496,22 @@ export default function OrderDetailPage() {
                     Download Invoice
                   </Button>
 
-                  {order.status === "pending" && (
+                  {(order.fulfillment_status as string) === "delivered" && (
+                    <Button
+                      className="w-full"
+                      onClick={() => router.push(`/orders/${orderId}/return`)}
+                      variant="outline"
+                    >
+                      <RotateCcw className="w-4 h-4 mr-2" />
+                      Returns
+                    </Button>
+                  )}
+
+                  {order.status === "pending" && (order.fulfillment_status as string) === "unfulfilled" && (
                     <Button 
                       className="w-full text-red-600 border-red-200 hover:bg-red-50" 
                       variant="outline"
+                      onClick={() => setCancelConfirmOpen(true)}
                     >
                       Cancel Order
                     </Button>
@@ -429,6 +530,18 @@ export default function OrderDetailPage() {
           </div>
         </div>
       </div>
+
+      <ConfirmDialog
+        open={cancelConfirmOpen}
+        onOpenChange={setCancelConfirmOpen}
+        title="Cancel Order"
+        description="Are you sure you want to cancel this order? Your payment will be refunded and any points you used will be returned."
+        confirmText="Cancel Order"
+        cancelText="Keep Order"
+        variant="destructive"
+        loading={cancelOrder.isPending}
+        onConfirm={handleCancelOrder}
+      />
     </div>
   );
 }
@@ -0,0 +1,487 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { useParams } from "next/navigation";
+import Image from "next/image";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import ProfileSidebar from "@/components/layout/ProfileSidebar";
+import { useToast } from "@/components/ui/toast";
+import MediaUploader, { type MediaUploaderRef } from "@/components/shared/MediaUploader";
+import { useOrderQuery, useOrderReturnsQuery, useRequestReturnMutation } from "@/lib/queries";
+import type { ReturnReason, ReturnRequest, ReturnStatus, ReturnType } from "@/lib/api/types";
+import { ArrowLeft, Package, RotateCcw, XCircle } from "lucide-react";
+
+const RETURN_REASONS: Array<{ value: ReturnReason; label: string }> = [
+  { value: "defective", label: "Damaged or defective" },
+  { value: "wrong_item", label: "Wrong item received" },
+  { value: "not_as_described", label: "Not as described" },
+  { value: "changed_mind", label: "Changed my mind" },
+  { value: "other", label: "Other" },
+];
+
+const RETURN_TYPE_LABELS: Record<ReturnType, string> = {
+  refund: "Refund",
+  store_credit: "Store credit",
+  replacement: "Replacement",
+};
+
+// Resolution choices on the request form
+const RETURN_TYPE_OPTIONS: Record<ReturnType, string> = {
+  refund: "A refund",
+  store_credit: "Store credit (points)",
+  replacement: "A replacement",
+};
+
+// Happy path of a return, in order
+const RETURN_STEPS: Array<{ key: ReturnStatus; label: string; dateField?: keyof ReturnRequest }> = [
+  { key: "requested", label: "Return requested", dateField: "requested_at" },
+  { key: "approved", label: "Approved", dateField: "approved_at" },
+  { key: "in_transit", label: "Sent back" },
+  { key: "received", label: "Received by us", dateField: "received_at" },
+  { key: "inspecting", label: "Inspecting items" },
+  { key: "completed", label: "Completed", dateField: "completed_at" },
+];
+
+const STATUS_LABELS: Record<ReturnStatus, string> = {
+  requested: "Awaiting review",
+  approved: "Approved",
+  rejected: "Rejected",
+  in_transit: "On its way back",
+  received: "Received",
+  inspecting: "Inspecting",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+const STATUS_STYLES: Record<ReturnStatus, string> = {
+  requested: "bg-yellow-100 text-yellow-800",
+  approved: "bg-blue-100 text-blue-800",
+  rejected: "bg-red-100 text-red-800",
+  in_transit: "bg-blue-100 text-blue-800",
+  received: "bg-blue-100 text-blue-800",
+  inspecting: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  cancelled: "bg-gray-100 text-gray-800",
+};
+
+// Helper to format date
+function formatDate(dateString: string): string {
+  return new Date(dateString).toLocaleDateString("en-MY", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+  });
+}
+
+function formatPrice(amount: number): string {
+  return `RM${(amount / 100).toFixed(2)}`;
+}
+
+// Status timeline of one return request
+function ReturnTimeline({ returnRequest }: { returnRequest: ReturnRequest }) {
+  const isClosed = returnRequest.status === "rejected" || returnRequest.status === "cancelled";
+
+  // A rejected or cancelled return stops after the steps it reached
+  const steps = isClosed
+    ? RETURN_STEPS.filter((step) => step.key === "requested" || (step.key === "approved" && returnRequest.approved_at))
+    : RETURN_STEPS;
+  const currentIndex = isClosed
+    ? steps.length - 1
+    : RETURN_STEPS.findIndex((step) => step.key === returnRequest.status);
+
+  return (
+    <div className="space-y-4">
+      {steps.map((step, index) => {
+        const isCompleted = index <= currentIndex;
+        const date = step.dateField ? (returnRequest[step.dateField] as string | null) : null;
+
+        return (
+          <div key={step.key} className="flex gap-4">
+            <div className="flex flex-col items-center">
+              <div className={`w-3 h-3 rounded-full ${
+                !isCompleted ? "bg-gray-200" : index === currentIndex && !isClosed ? "bg-blue-600" : "bg-green-500"
+              }`} />
+              {(index < steps.length - 1 || isClosed) && <div className="w-0.5 flex-1 bg-gray-200 mt-1" />}
+            </div>
+            <div className="pb-4">
+              <p className={`font-medium ${isCompleted ? "text-gray-900" : "text-gray-400"}`}>{step.label}</p>
+              {isCompleted && date && <p className="text-sm text-gray-500">{formatDate(date)}</p>}
+            </div>
+          </div>
+        );
+      })}
+
+      {isClosed && (
+        <div className="flex gap-4">
+          <div className="flex flex-col items-center">
+            <XCircle className="w-3 h-3 text-red-500" />
+          </div>
+          <div>
+            <p className="font-medium text-gray-900">
+              {returnRequest.status === "rejected" ? "Rejected" : "Cancelled"}
+            </p>
+            {returnRequest.rejected_at && (
+              <p className="text-sm text-gray-500">{formatDate(returnRequest.rejected_at)}</p>
+            )}
+            {returnRequest.rejection_reason && (
+              <p className="text-sm text-red-600 mt-1">{returnRequest.rejection_reason}</p>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function OrderReturnPage() {
+  const params = useParams();
+  const { showToast } = useToast();
+  const orderId = params.id as string;
+
+  const { data: order, isLoading: orderLoading } = useOrderQuery(orderId);
+  const { data: returnData, isLoading: returnsLoading, error: queryError } = useOrderReturnsQuery(orderId);
+  const requestReturn = useRequestReturnMutation(orderId);
+
+  const [quantities, setQuantities] = useState<Record<string, number>>({});
+  const [reason, setReason] = useState<ReturnReason | "">("");
+  const [reasonDetails, setReasonDetails] = useState("");
+  const [returnType, setReturnType] = useState<ReturnType>("refund");
+  const [uploading, setUploading] = useState(false);
+  const mediaUploaderRef = useRef<MediaUploaderRef | null>(null);
+
+  const loading = orderLoading || returnsLoading;
+  const returns = returnData?.returns || [];
+  const eligibility = returnData?.eligibility;
+  const returnableItems = eligibility?.returnable_items || [];
+
+  // Estimated refund - the final amount is confirmed once the items are inspected
+  const estimatedRefund = returnableItems.reduce((total, item) => {
+    const quantity = quantities[item.item_id] || 0;
+    if (quantity === 0) return total;
+    const refund = item.refund_per_unit * quantity;
+    return total + (quantity === item.returnable_quantity ? refund + item.refund_remainder : refund);
+  }, 0);
+
+  const setQuantity = (itemId: string, quantity: number, max: number) => {
+    setQuantities((prev) => ({ ...prev, [itemId]: Math.max(0, Math.min(quantity, max)) }));
+  };
+
+  const resetForm = () => {
+    setQuantities({});
+    setReason("");
+    setReasonDetails("");
+    setReturnType("refund");
+  };
+
+  const handleSubmit = async () => {
+    const items = Object.entries(quantities)
+      .filter(([, quantity]) => quantity > 0)
+      .map(([item_id, quantity]) => ({ item_id, quantity }));
+
+    if (items.length === 0) {
+      showToast("Select at least one item to return", "warning");
+      return;
+    }
+    if (!reason) {
+      showToast("Please select a reason", "warning");
+      return;
+    }
+
+    // Upload photos first if any
+    let evidenceUrls: string[] = [];
+    if (mediaUploaderRef.current?.hasFiles()) {
+      setUploading(true);
+      try {
+        evidenceUrls = await mediaUploaderRef.current.uploadAll();
+      } catch (uploadError: any) {
+        showToast(uploadError.message || "Failed to upload photos", "error");
+        return;
+      } finally {
+        setUploading(false);
+      }
+    }
+
+    try {
+      await requestReturn.mutateAsync({
+        items,
+        reason,
+        reason_details: reasonDetails || undefined,
+        evidence_urls: evidenceUrls.length > 0 ? evidenceUrls : undefined,
+        return_type: returnType,
+      });
+      resetForm();
+      showToast("Return requested. We'll review it shortly.", "success");
+    } catch (err: any) {
+      showToast(err.message || "Failed to request return", "error");
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="mx-auto px-4 sm:px-6 py-4 sm:py-8">
+        <div className="flex items-center justify-center min-h-100">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#23429B] mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading returns...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (queryError || !order || !returnData) {
+    return (
+      <div className="mx-auto px-4 sm:px-6 py-4 sm:py-8">
+        <div className="text-center py-12">
+          <p className="text-red-500 mb-4">Failed to load order</p>
+          <Link href="/orders">
+            <Button>Back to Orders</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const isSubmitting = uploading || requestReturn.isPending;
+  const hasOpenReturn = returns.some((r) => !["completed", "rejected", "cancelled"].includes(r.status));
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <div className="mx-auto px-4 sm:px-6 py-4 sm:py-8">
+        <div className="flex flex-col lg:flex-row gap-6 lg:gap-8">
+          {/* Sidebar */}
+          <div className="hidden lg:block lg:w-64 shrink-0">
+            <ProfileSidebar activeMenu="My orders" />
+          </div>
+
+          {/* Main Content */}
+          <div className="flex-1 space-y-6">
+            <div className="bg-white rounded-2xl shadow-sm overflow-hidden">
+              {/* Header */}
+              <div className="px-4 sm:px-6 py-4 border-b border-gray-100">
+                <div className="flex items-center gap-3">
+                  <Link href={`/orders/${orderId}`} className="text-gray-500 hover:text-gray-700">
+                    <ArrowLeft className="w-5 h-5" />
+                  </Link>
+                  <div>
+                    <h1 className="text-xl font-bold text-gray-900">Returns</h1>
+                    <p className="text-sm text-gray-500">Order #{order.display_id}</p>
+                  </div>
+                </div>
+              </div>
+
+              {/* Existing Returns */}
+              {returns.length > 0 && (
+                <div className="p-4 sm:p-6 space-y-6 border-b border-gray-100">
+                  {returns.map((returnRequest) => (
+                    <div key={returnRequest.id} className="border border-gray-200 rounded-xl p-4 sm:p-5">
+                      <div className="flex items-start justify-between gap-4 mb-4">
+                        <div>
+                          <p className="font-semibold text-gray-900">
+                            {RETURN_TYPE_LABELS[returnRequest.return_type]} request
+                          </p>
+                          <p className="text-sm text-gray-500">
+                            {RETURN_REASONS.find((r) => r.value === returnRequest.reason)?.label || returnRequest.reason}
+                          </p>
+                        </div>
+                        <span className={`inline-block px-2 py-1 text-xs font-medium rounded ${STATUS_STYLES[returnRequest.status]}`}>
+                          {STATUS_LABELS[returnRequest.status]}
+                        </span>
+                      </div>
+
+                      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+                        <ReturnTimeline returnRequest={returnRequest} />
+
+                        <div className="space-y-3">
+                          {returnRequest.items.map((item) => (
+                            <div key={item.item_id} className="flex justify-between text-sm">
+                              <span className="text-gray-700">{item.quantity} × {item.product_name}</span>
+                            </div>
+                          ))}
+
+                          {returnRequest.return_type !== "replacement" && (
+                            <div className="border-t border-gray-100 pt-3 space-y-1">
+                              <div className="flex justify-between text-sm">
+                                <span className="text-gray-600">
+                                  {returnRequest.refund_status === "completed" ? "Refunded" : "Refund"}
+                                </span>
+                                <span className="font-medium text-gray-900">{formatPrice(returnRequest.total_refund)}</span>
+                              </div>
+                              {returnRequest.refund_status === "partially_refunded" && (
+                                <div className="flex justify-between text-sm">
+                                  <span className="text-gray-600">Refunded so far</span>
+                                  <span className="text-gray-900">{formatPrice(returnRequest.refunded_amount)}</span>
+                                </div>
+                              )}
+                              {returnRequest.refund_adjustment_reason && (
+                                <p className="text-xs text-gray-500">{returnRequest.refund_adjustment_reason}</p>
+                              )}
+                            </div>
+                          )}
+
+                          {returnRequest.evidence_urls.length > 0 && (
+                            <div className="flex flex-wrap gap-2 pt-1">
+                              {returnRequest.evidence_urls.map((url) => (
+                                <a key={url} href={url} target="_blank" rel="noopener noreferrer" className="w-14 h-14 rounded-lg overflow-hidden bg-gray-100">
+                                  <Image src={url} alt="Return photo" width={56} height={56} className="w-full h-full object-cover" />
+                                </a>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Request Form */}
+              <div className="p-4 sm:p-6">
+                {!eligibility?.can_return ? (
+                  !hasOpenReturn && (
+                    <div className="text-center py-8">
+                      <RotateCcw className="w-10 h-10 text-gray-300 mx-auto mb-3" />
+                      <p className="text-gray-600">{eligibility?.reason || "This order can't be returned."}</p>
+                    </div>
+                  )
+                ) : (
+                  <div className="space-y-6">
+                    <div>
+                      <h2 className="text-lg font-bold text-gray-900">Request a return</h2>
+                      <p className="text-sm text-gray-500">
+                        {eligibility.days_remaining} day{eligibility.days_remaining === 1 ? "" : "s"} left to request a return
+                      </p>
+                    </div>
+
+                    {/* Items */}
+                    <div className="space-y-3">
+                      {returnableItems.map((item) => {
+                        const quantity = quantities[item.item_id] || 0;
+
+                        return (
+                          <div key={item.item_id} className="flex items-center gap-4 p-3 bg-gray-50 rounded-lg">
+                            <div className="w-16 h-16 bg-white rounded-lg overflow-hidden shrink-0">
+                              {item.thumbnail ? (
+                                <Image src={item.thumbnail} alt={item.product_name} width={64} height={64} className="w-full h-full object-cover" />
+                              ) : (
+                                <div className="w-full h-full flex items-center justify-center">
+                                  <Package className="w-6 h-6 text-gray-400" />
+                                </div>
+                              )}
+                            </div>
+                            <div className="flex-1">
+                              <h3 className="font-semibold text-gray-900">{item.product_name}</h3>
+                              <p className="text-sm text-gray-500">
+                                {item.returnable_quantity} returnable · {formatPrice(item.refund_per_unit)} each
+                              </p>
+                            </div>
+                            <div className="flex items-center border border-gray-200 rounded-lg bg-white">
+                              <button
+                                type="button"
+                                onClick={() => setQuantity(item.item_id, quantity - 1, item.returnable_quantity)}
+                                disabled={quantity === 0}
+                                className="px-3 py-1 text-gray-600 disabled:text-gray-300 cursor-pointer"
+                              >
+                                −
+                              </button>
+                              <span className="w-8 text-center text-sm font-medium">{quantity}</span>
+                              <button
+                                type="button"
+                                onClick={() => setQuantity(item.item_id, quantity + 1, item.returnable_quantity)}
+                                disabled={quantity >= item.returnable_quantity}
+                                className="px-3 py-1 text-gray-600 disabled:text-gray-300 cursor-pointer"
+                              >
+                                +
+                              </button>
+                            </div>
+                          </div>
+                        );
+                      })}
+                    </div>
+
+                    {/* Reason */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Reason</label>
+                      <select
+                        value={reason}
+                        onChange={(e) => setReason(e.target.value as ReturnReason)}
+                        className="w-full px-4 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">Select a reason</option>
+                        {RETURN_REASONS.map((r) => (
+                          <option key={r.value} value={r.value}>{r.label}</option>
+                        ))}
+                      </select>
+                    </div>
+
+                    {/* Details */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Details (optional)</label>
+                      <textarea
+                        value={reasonDetails}
+                        onChange={(e) => setReasonDetails(e.target.value)}
+                        placeholder="Tell us what went wrong..."
+                        rows={3}
+                        className="w-full px-4 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                        maxLength={2000}
+                      />
+                    </div>
+
+                    {/* Resolution */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">I would like</label>
+                      <div className="flex flex-wrap gap-3">
+                        {(["refund", "store_credit", "replacement"] as const).map((type) => (
+                          <button
+                            key={type}
+                            type="button"
+                            onClick={() => setReturnType(type)}
+                            className={`px-4 py-2 rounded-lg border text-sm cursor-pointer ${
+                              returnType === type
+                                ? "border-[#23429B] bg-blue-50 text-[#23429B] font-medium"
+                                : "border-gray-200 text-gray-700"
+                            }`}
+                          >
+                            {RETURN_TYPE_OPTIONS[type]}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+
+                    {/* Photo Evidence */}
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">
+                        Photos (recommended for damaged or wrong items)
+                      </label>
+                      <MediaUploader ref={mediaUploaderRef} maxFiles={5} maxSizeMB={10} />
+                    </div>
+
+                    {/* Submit */}
+                    <div className="flex items-center justify-between gap-4 border-t border-gray-100 pt-4">
+                      {returnType === "refund" ? (
+                        <p className="text-sm text-gray-600">
+                          Estimated refund: <span className="font-semibold text-gray-900">{formatPrice(estimatedRefund)}</span>
+                        </p>
+                      ) : (
+                        <span />
+                      )}
+                      <Button
+                        onClick={handleSubmit}
+                        disabled={isSubmitting}
+                        className="text-white cursor-pointer rounded-full"
+                        style={{ background: "linear-gradient(to right, #23429B, #C52129)" }}
+                      >
+                        {isSubmitting ? "Submitting..." : "Request Return"}
+                      </Button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
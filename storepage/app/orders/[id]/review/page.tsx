@@ -1,17 +1,17 @@
 "use client";
 
 import { useState, useEffect, useRef } from "react";
-import { useParams, useRouter } from "next/navigation";
+import { useParams, useSearchParams } from "next/navigation";
 import Image from "next/image";
 import { Button } from "@/components/ui/button";
 import ProfileSidebar from "@/components/layout/ProfileSidebar";
-import { createReview } from "@/lib/api/reviews";
+import { createInvitedReview, createReview } from "@/lib/api/reviews";
 import { useToast } from "@/components/ui/toast";
 import { ArrowLeft, Star, Package, Check } from "lucide-react";
 import Link from "next/link";
 import type { LineItem } from "@/lib/api/types";
 import MediaUploader, { type MediaUploaderRef } from "@/components/shared/MediaUploader";
-import { useOrderQuery, useProductReviewStatusQuery } from "@/lib/queries";
+import { useOrderQuery, useProductReviewStatusQuery, useReviewInvitationQuery } from "@/lib/queries";
 
 // Star rating component
 function StarRating({
@@ -72,9 +72,217 @@ function getProductId(item: any): string {
   return "";
 }
 
+// Single product review opened from a review request email. The signed
+// token identifies the order item, so no login is needed
+function InvitedReview({ token }: { token: string }) {
+  const { showToast } = useToast();
+  const { data, isLoading, error } = useReviewInvitationQuery(token);
+  const [form, setForm] = useState<ReviewFormData>({
+    rating: 5,
+    title: "",
+    content: "",
+    imageUrls: [],
+  });
+  const [submitting, setSubmitting] = useState(false);
+  const [submitted, setSubmitted] = useState<string | null>(null);
+  const mediaUploaderRef = useRef<MediaUploaderRef | null>(null);
+
+  const handleSubmit = async () => {
+    if (form.rating === 0) {
+      showToast("Please select a rating", "warning");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      let imageUrls: string[] = [];
+      if (mediaUploaderRef.current?.hasFiles()) {
+        try {
+          imageUrls = await mediaUploaderRef.current.uploadAll();
+        } catch (uploadError: any) {
+          showToast(uploadError.message || "Failed to upload photos", "error");
+          return;
+        }
+      }
+
+      const { message } = await createInvitedReview({
+        token,
+        rating: form.rating,
+        title: form.title || undefined,
+        content: form.content || undefined,
+        images: imageUrls.length > 0 ? imageUrls : undefined,
+      });
+
+      setSubmitted(message || "Review submitted successfully!");
+      showToast(message || "Review submitted successfully!", "success");
+    } catch (err: any) {
+      showToast(err.message || "Failed to submit review", "error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="mx-auto px-4 sm:px-6 py-4 sm:py-8">
+        <div className="flex items-center justify-center min-h-100">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-[#23429B] mx-auto mb-4"></div>
+            <p className="text-gray-500">Loading...</p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="mx-auto px-4 sm:px-6 py-4 sm:py-8">
+        <div className="text-center py-12">
+          <p className="text-red-500 mb-4">
+            {(error as Error | null)?.message || "This review link is invalid or has expired"}
+          </p>
+          <p className="text-sm text-gray-500 mb-4">
+            You can still review your purchases from your orders after logging in.
+          </p>
+          <Link href="/orders">
+            <Button>Go to My Orders</Button>
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const { invitation, has_reviewed } = data;
+  const isDone = has_reviewed || !!submitted;
+
+  return (
+    <div className="bg-gray-50 min-h-screen">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 py-4 sm:py-8">
+        <div className="bg-white rounded-2xl shadow-sm overflow-hidden">
+          {/* Header */}
+          <div className="px-4 sm:px-6 py-4 border-b border-gray-100">
+            <h1 className="text-xl font-bold text-gray-900">Review Your Purchase</h1>
+            <p className="text-sm text-gray-500">Order #{invitation.display_id}</p>
+          </div>
+
+          <div className="p-4 sm:p-6">
+            {/* Product Info */}
+            <div className="flex items-start gap-4 mb-6">
+              <div className="w-16 h-16 bg-gray-100 rounded-lg overflow-hidden shrink-0">
+                {invitation.thumbnail ? (
+                  <Image
+                    src={invitation.thumbnail}
+                    alt={invitation.title}
+                    width={64}
+                    height={64}
+                    className="w-full h-full object-cover"
+                  />
+                ) : (
+                  <div className="w-full h-full flex items-center justify-center">
+                    <Package className="w-6 h-6 text-gray-400" />
+                  </div>
+                )}
+              </div>
+              <div className="flex-1">
+                <h3 className="font-semibold text-gray-900">{invitation.title}</h3>
+                <p className="text-sm text-gray-500">Qty: {invitation.quantity}</p>
+              </div>
+            </div>
+
+            {isDone ? (
+              <div className="text-center py-8">
+                <div className="w-16 h-16 mx-auto mb-4 bg-green-100 rounded-full flex items-center justify-center">
+                  <Check className="w-8 h-8 text-green-600" />
+                </div>
+                <h2 className="text-lg font-semibold text-gray-900 mb-2">
+                  {submitted ? "Thank you for your review!" : "You have already reviewed this product"}
+                </h2>
+                {submitted && <p className="text-gray-600 mb-4">{submitted}</p>}
+                <Link href={`/product/${invitation.product_id}`}>
+                  <Button>View Product</Button>
+                </Link>
+              </div>
+            ) : (
+              <div className="space-y-4">
+                {/* Rating */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Your Rating
+                  </label>
+                  <StarRating
+                    rating={form.rating}
+                    onChange={(rating) => setForm((prev) => ({ ...prev, rating }))}
+                  />
+                </div>
+
+                {/* Title */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Review Title (optional)
+                  </label>
+                  <input
+                    type="text"
+                    value={form.title}
+                    onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+                    placeholder="Summarize your experience"
+                    className="w-full px-4 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    maxLength={200}
+                  />
+                </div>
+
+                {/* Content */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Your Review (optional)
+                  </label>
+                  <textarea
+                    value={form.content}
+                    onChange={(e) => setForm((prev) => ({ ...prev, content: e.target.value }))}
+                    placeholder="Share your thoughts about this product..."
+                    rows={3}
+                    className="w-full px-4 py-2 border border-gray-200 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
+                    maxLength={5000}
+                  />
+                </div>
+
+                {/* Media Upload */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Photos (optional)
+                  </label>
+                  <MediaUploader ref={mediaUploaderRef} maxFiles={5} maxSizeMB={10} />
+                </div>
+
+                {/* Submit */}
+                <Button
+                  onClick={handleSubmit}
+                  disabled={submitting}
+                  className="text-white cursor-pointer rounded-full"
+                  style={{
+                    background: "linear-gradient(to right, #23429B, #C52129)",
+                  }}
+                >
+                  {submitting ? "Submitting..." : "Submit Review"}
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 export default function OrderReviewPage() {
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token");
+
+  return token ? <InvitedReview token={token} /> : <OrderReview />;
+}
+
+function OrderReview() {
   const params = useParams();
-  const router = useRouter();
   const { showToast } = useToast();
   const orderId = params.id as string;
 
@@ -179,7 +387,7 @@ export default function OrderReviewPage() {
         }
       }
 
-      await createReview({
+      const { message } = await createReview({
         product_id: productId,
         order_id: orderId,
         rating: form.rating,
@@ -190,7 +398,7 @@ export default function OrderReviewPage() {
 
       setSubmitSuccess((prev) => new Set([...prev, productId]));
       setReviewedProducts((prev) => new Set([...prev, productId]));
-      showToast("Review submitted successfully!", "success");
+      showToast(message || "Review submitted successfully!", "success");
     } catch (err: any) {
       showToast(err.message || "Failed to submit review", "error");
     } finally {
@@ -9,6 +9,7 @@ import { AddToCartSuccessDialog } from "@/components/shared/AddToCartSuccessDial
 import { ProductReviews } from "@/components/shared/ProductReviews";
 import { ProductImageGallery } from "@/components/shared/ProductImageGallery";
 import { ShareDialog } from "@/components/shared/ShareDialog";
+import { NotifyMeForm } from "@/components/shared/NotifyMeForm";
 import { useAuthContext } from "@/lib/AuthContext";
 import { useWishlist } from "@/lib/WishlistContext";
 import { useToast } from "@/components/ui/toast";
@@ -560,14 +561,21 @@ export default function ProductDetailPage() {
                 ? "Adding..."
                 : "Buy it now"}
             </Button>
-            <Button
-              variant="outline"
-              onClick={handleAddToCart}
-              disabled={addingToCart || displayStock === 0}
-              className="w-full py-4 lg:py-6 text-base lg:text-lg disabled:opacity-50"
-            >
-              {addingToCart ? "Adding..." : "Add to cart"}
-            </Button>
+            {displayStock === 0 ? (
+              <NotifyMeForm
+                productId={productId}
+                variantId={variantOptions.length > 0 ? selectedVariant?.id : undefined}
+              />
+            ) : (
+              <Button
+                variant="outline"
+                onClick={handleAddToCart}
+                disabled={addingToCart}
+                className="w-full py-4 lg:py-6 text-base lg:text-lg disabled:opacity-50"
+              >
+                {addingToCart ? "Adding..." : "Add to cart"}
+              </Button>
+            )}
           </div>
 
           {/* Product Insights */}
@@ -483,6 +483,9 @@ export default function ProfilePage() {
                       className="h-12"
                     />
                   </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Members receive a birthday voucher during their birthday month
+                  </p>
                 </div>
               </div>
 
@@ -2,14 +2,21 @@
 
 import Image from "next/image";
 import Link from "next/link";
-import { useState } from "react";
-import { Heart, Trash2, ShoppingCart, ArrowLeft } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Heart, Trash2, ShoppingCart, ArrowLeft, Bell } from "lucide-react";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Switch } from "@/components/ui/switch";
 import ProtectedNavbar from "@/components/layout/ProtectedNavbar";
 import NewsletterFooter from "@/components/shared/NewsletterFooter";
+import { WishlistLists } from "@/components/shared/WishlistLists";
 import { useWishlist, WishlistItem } from "@/lib/WishlistContext";
 import { useCartContext } from "@/lib/CartContext";
 import { useAuthContext } from "@/lib/AuthContext";
+import {
+  fetchWishlistAlertPreferences,
+  updateWishlistAlertPreferences,
+  type WishlistAlertPreferences,
+} from "@/lib/api/wishlist";
 import { useRouter } from "next/navigation";
 
 export default function WishlistPage() {
@@ -20,6 +27,31 @@ export default function WishlistPage() {
   const [addingToCart, setAddingToCart] = useState<string | null>(null);
   const [clearAllDialogOpen, setClearAllDialogOpen] = useState(false);
   const [clearing, setClearing] = useState(false);
+  const [alertPreferences, setAlertPreferences] =
+    useState<WishlistAlertPreferences | null>(null);
+
+  useEffect(() => {
+    if (!customer) return;
+    fetchWishlistAlertPreferences()
+      .then(setAlertPreferences)
+      .catch((error) =>
+        console.error("Failed to load wishlist alert preferences:", error)
+      );
+  }, [customer]);
+
+  const handleAlertToggle = async (
+    key: keyof WishlistAlertPreferences,
+    enabled: boolean
+  ) => {
+    const previous = alertPreferences;
+    if (previous) setAlertPreferences({ ...previous, [key]: enabled });
+    try {
+      setAlertPreferences(await updateWishlistAlertPreferences({ [key]: enabled }));
+    } catch (error) {
+      console.error("Failed to update wishlist alert preferences:", error);
+      setAlertPreferences(previous);
+    }
+  };
 
   const handleAddToCart = async (item: WishlistItem) => {
     // Check if variant_id exists
@@ -58,8 +90,9 @@ export default function WishlistPage() {
     }
   };
 
-  // Show empty state when no items and not loading
-  if (items.length === 0 && !loading) {
+  // Show empty state when no items and not loading. Customers always get
+  // their lists, which may be empty
+  if (!customer && items.length === 0 && !loading) {
     return (
       <div className="min-h-screen bg-white">
         <ProtectedNavbar />
@@ -107,7 +140,7 @@ export default function WishlistPage() {
             </div>
           </div>
 
-          {items.length > 0 && (
+          {!customer && items.length > 0 && (
             <button
               onClick={() => setClearAllDialogOpen(true)}
               className="text-red-600 hover:text-red-700 text-sm font-medium flex items-center gap-1"
@@ -118,7 +151,33 @@ export default function WishlistPage() {
           )}
         </div>
 
-        {loading ? (
+        {/* Alert emails */}
+        {alertPreferences && items.length > 0 && (
+          <div className="flex flex-wrap items-center gap-x-6 gap-y-3 bg-gray-50 rounded-2xl px-5 py-4 mb-8">
+            <span className="flex items-center gap-2 text-sm font-medium text-gray-900">
+              <Bell className="w-4 h-4 text-[#23429B]" />
+              Email me when
+            </span>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <Switch
+                checked={alertPreferences.price_drop}
+                onCheckedChange={(checked) => handleAlertToggle("price_drop", checked)}
+              />
+              a price drops
+            </label>
+            <label className="flex items-center gap-2 text-sm text-gray-700 cursor-pointer">
+              <Switch
+                checked={alertPreferences.back_in_stock}
+                onCheckedChange={(checked) => handleAlertToggle("back_in_stock", checked)}
+              />
+              an item is back in stock
+            </label>
+          </div>
+        )}
+
+        {customer ? (
+          <WishlistLists />
+        ) : loading ? (
           // Loading skeleton
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
             {[...Array(4)].map((_, i) => (
@@ -0,0 +1,130 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useParams } from "next/navigation";
+import { Heart } from "lucide-react";
+import ProtectedNavbar from "@/components/layout/ProtectedNavbar";
+import NewsletterFooter from "@/components/shared/NewsletterFooter";
+import { AddListToCartButton } from "@/components/shared/AddListToCartButton";
+import { useSharedWishlistQuery } from "@/lib/queries";
+
+export default function SharedWishlistPage() {
+  const params = useParams();
+  const token = params.token as string;
+  const { data, isLoading, error } = useSharedWishlistQuery(token);
+
+  if (!isLoading && (error || !data)) {
+    return (
+      <div className="min-h-screen bg-white">
+        <ProtectedNavbar />
+        <div className="mx-auto px-4 py-16 text-center">
+          <Heart className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+          <h1 className="text-2xl font-bold text-gray-900 mb-2">
+            This wishlist isn&apos;t available
+          </h1>
+          <p className="text-gray-600 mb-6">
+            The link may have been turned off by its owner.
+          </p>
+          <Link
+            href="/products"
+            className="inline-flex items-center gap-2 bg-[#23429B] text-white px-6 py-3 rounded-full font-semibold hover:bg-[#1a3178] transition-colors"
+          >
+            Browse Products
+          </Link>
+        </div>
+        <NewsletterFooter />
+      </div>
+    );
+  }
+
+  const items = data?.items || [];
+  const total = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+
+  return (
+    <div className="min-h-screen bg-white">
+      <ProtectedNavbar />
+
+      <div className="mx-auto px-4 py-8">
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+          <div>
+            <p className="text-sm text-gray-500 mb-1">Shared wishlist</p>
+            <h1 className="text-2xl lg:text-3xl font-bold text-gray-900">
+              {isLoading ? (
+                <span className="inline-block h-8 w-56 bg-gray-200 rounded animate-pulse"></span>
+              ) : (
+                data?.list.name
+              )}
+            </h1>
+            {!isLoading && (
+              <p className="text-gray-600">
+                {items.length} {items.length === 1 ? "item" : "items"} · RM
+                {(total / 100).toFixed(2)}
+              </p>
+            )}
+          </div>
+          {items.length > 0 && <AddListToCartButton items={items} />}
+        </div>
+
+        {isLoading ? (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {[...Array(4)].map((_, i) => (
+              <div key={i} className="bg-white rounded-2xl overflow-hidden shadow-sm animate-pulse">
+                <div className="aspect-square bg-gray-200"></div>
+                <div className="p-4">
+                  <div className="h-5 bg-gray-200 rounded mb-2 w-3/4"></div>
+                  <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : items.length === 0 ? (
+          <div className="text-center py-16">
+            <Heart className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-600">This wishlist is empty.</p>
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+            {items.map((item) => (
+              <Link
+                key={item.id}
+                href={`/product/${item.product_id}`}
+                className="bg-white rounded-2xl overflow-hidden shadow-sm hover:shadow-lg transition-shadow"
+              >
+                <div className="relative aspect-square bg-gray-50">
+                  {item.quantity > 1 && (
+                    <div className="absolute top-3 left-3 bg-[#23429B] text-white text-xs font-semibold px-3 py-1 rounded-full z-10">
+                      × {item.quantity}
+                    </div>
+                  )}
+                  {item.thumbnail ? (
+                    <Image src={item.thumbnail} alt={item.title} fill className="object-contain p-4" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-gray-400">
+                      No Image
+                    </div>
+                  )}
+                </div>
+                <div className="p-4">
+                  <h3 className="font-semibold text-gray-900 mb-1 line-clamp-2">{item.title}</h3>
+                  <div className="flex items-baseline gap-2">
+                    <span className="text-xl font-bold text-gray-900">
+                      RM{(item.price / 100).toFixed(2)}
+                    </span>
+                    {item.original_price && item.original_price > item.price && (
+                      <span className="text-sm text-gray-400 line-through">
+                        RM{(item.original_price / 100).toFixed(2)}
+                      </span>
+                    )}
+                  </div>
+                </div>
+              </Link>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <NewsletterFooter />
+    </div>
+  );
+}
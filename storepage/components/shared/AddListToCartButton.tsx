@@ -0,0 +1,66 @@
+"use client";
+
+import { useState } from "react";
+import { ShoppingCart } from "lucide-react";
+import { useToast } from "@/components/ui/toast";
+import { useCartContext } from "@/lib/CartContext";
+
+interface AddListToCartButtonProps {
+  items: { variant_id?: string; quantity?: number }[];
+}
+
+/**
+ * Adds every item of a wishlist to the cart with its saved quantity.
+ * Items that can't be added (no variant, out of stock) are skipped and counted
+ */
+export function AddListToCartButton({ items }: AddListToCartButtonProps) {
+  const { addItem } = useCartContext();
+  const { showToast } = useToast();
+  const [adding, setAdding] = useState(false);
+
+  const handleAddAll = async () => {
+    setAdding(true);
+    let added = 0;
+    let skipped = 0;
+
+    // One at a time, each add updates the same cart
+    for (const item of items) {
+      if (!item.variant_id) {
+        skipped++;
+        continue;
+      }
+      try {
+        await addItem(item.variant_id, item.quantity || 1);
+        added++;
+      } catch (error) {
+        console.error("Failed to add wishlist item to cart:", error);
+        skipped++;
+      }
+    }
+
+    setAdding(false);
+    if (added === 0) {
+      showToast("None of these items could be added to your cart", "error");
+    } else if (skipped > 0) {
+      showToast(`Added ${added} items to cart, ${skipped} unavailable`, "info");
+    } else {
+      showToast(`Added ${added} items to cart`, "success");
+    }
+  };
+
+  return (
+    <button
+      onClick={handleAddAll}
+      disabled={adding || items.length === 0}
+      className="flex items-center justify-center gap-2 text-white px-5 py-2.5 rounded-full font-medium transition-opacity hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed"
+      style={{ background: "linear-gradient(to right, #23429B, #C52129)" }}
+    >
+      {adding ? (
+        <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+      ) : (
+        <ShoppingCart className="w-4 h-4" />
+      )}
+      Add all to cart
+    </button>
+  );
+}
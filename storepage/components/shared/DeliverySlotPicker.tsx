@@ -0,0 +1,110 @@
+"use client";
+
+import { useState } from "react";
+import type { DeliveryDate, DeliverySlotSelection } from "@/lib/api/delivery-slots";
+
+interface DeliverySlotPickerProps {
+  dates: DeliveryDate[];
+  selected: DeliverySlotSelection | null;
+  onSelect: (slotId: string, date: string) => void;
+  isSaving?: boolean;
+  error?: string;
+}
+
+function formatDateLabel(date: string): { weekday: string; day: string } {
+  const d = new Date(`${date}T00:00:00`);
+  return {
+    weekday: d.toLocaleDateString("en-MY", { weekday: "short" }),
+    day: d.toLocaleDateString("en-MY", { day: "numeric", month: "short" }),
+  };
+}
+
+/**
+ * Delivery date and time window picker for checkout
+ * Dates without deliveries (holidays, fully booked) are shown but can't be picked
+ */
+export function DeliverySlotPicker({
+  dates,
+  selected,
+  onSelect,
+  isSaving = false,
+  error,
+}: DeliverySlotPickerProps) {
+  const firstOpenDate = dates.find((d) => d.slots.some((s) => s.available))?.date || dates[0]?.date || null;
+  const [activeDate, setActiveDate] = useState<string | null>(selected?.date || firstOpenDate);
+
+  const currentDate = dates.find((d) => d.date === activeDate) || dates.find((d) => d.date === firstOpenDate);
+
+  return (
+    <div>
+      {/* Dates */}
+      <div className="flex gap-2 overflow-x-auto pb-2">
+        {dates.map((day) => {
+          const { weekday, day: label } = formatDateLabel(day.date);
+          const isOpen = !day.closed_reason && day.slots.some((s) => s.available);
+          const isActive = currentDate?.date === day.date;
+          return (
+            <button
+              key={day.date}
+              type="button"
+              onClick={() => setActiveDate(day.date)}
+              className={`cursor-pointer shrink-0 min-w-18 px-3 py-2 rounded-xl border text-center transition-colors ${
+                isActive
+                  ? "border-blue-600 bg-blue-50"
+                  : "border-gray-200 hover:border-gray-300"
+              } ${isOpen ? "" : "opacity-50"}`}
+            >
+              <div className="text-xs text-gray-600">{weekday}</div>
+              <div className="font-semibold text-gray-900 text-sm">{label}</div>
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Slots for the chosen date */}
+      {currentDate && (
+        <div className="mt-3">
+          {currentDate.closed_reason ? (
+            <p className="text-sm text-gray-600">No deliveries on this day ({currentDate.closed_reason}).</p>
+          ) : (
+            <div className="grid grid-cols-2 lg:grid-cols-3 gap-3">
+              {currentDate.slots.map((slot) => {
+                const isSelected = selected?.slot_id === slot.id && selected?.date === currentDate.date;
+                return (
+                  <button
+                    key={slot.id}
+                    type="button"
+                    disabled={!slot.available || isSaving}
+                    onClick={() => onSelect(slot.id, currentDate.date)}
+                    className={`p-3 rounded-xl border text-left transition-colors ${
+                      isSelected
+                        ? "border-blue-600 bg-blue-50"
+                        : slot.available
+                          ? "cursor-pointer border-gray-200 hover:border-gray-300"
+                          : "cursor-not-allowed border-gray-200 bg-gray-50 opacity-60"
+                    }`}
+                  >
+                    <div className="font-semibold text-gray-900 text-sm lg:text-base">
+                      {slot.start_time} - {slot.end_time}
+                    </div>
+                    <div className="text-xs text-gray-600 mt-1">
+                      {slot.remaining === 0
+                        ? "Fully booked"
+                        : !slot.available && slot.same_day
+                          ? "Same-day cut-off passed"
+                          : slot.remaining <= 3
+                            ? `${slot.remaining} left`
+                            : "Available"}
+                    </div>
+                  </button>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+
+      {error && <p className="text-red-600 text-sm mt-2">{error}</p>}
+    </div>
+  );
+}
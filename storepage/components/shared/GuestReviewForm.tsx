@@ -83,7 +83,7 @@ export function GuestReviewForm({
         }
       }
 
-      await createGuestReview({
+      const { message } = await createGuestReview({
         product_id: productId,
         guest_name: formData.guest_name.trim(),
         guest_email: formData.guest_email.trim(),
@@ -95,7 +95,7 @@ export function GuestReviewForm({
       });
 
       showToast(
-        "Thank you for your review! It will be visible after moderation.",
+        message || "Thank you for your review! It will be visible after moderation.",
         "success"
       );
       onSuccess?.();
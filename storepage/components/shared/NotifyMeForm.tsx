@@ -0,0 +1,138 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Bell, BellOff, Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/toast";
+import { useAuthContext } from "@/lib/AuthContext";
+import {
+  fetchNotifyMeStatus,
+  subscribeToNotifyMe,
+  unsubscribeFromNotifyMe,
+} from "@/lib/api/wishlist";
+
+interface NotifyMeFormProps {
+  productId: string;
+  variantId?: string;
+}
+
+/**
+ * Shown instead of the buy buttons while a product is out of stock.
+ * Guests leave an email and confirm the alert from the email they get;
+ * logged-in customers subscribe with one click
+ */
+export function NotifyMeForm({ productId, variantId }: NotifyMeFormProps) {
+  const { isAuthenticated } = useAuthContext();
+  const { showToast } = useToast();
+  const [email, setEmail] = useState("");
+  const [subscribed, setSubscribed] = useState(false);
+  const [pendingConfirmation, setPendingConfirmation] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    fetchNotifyMeStatus(productId)
+      .then(setSubscribed)
+      .catch((err) => console.error("Failed to load notify-me status:", err));
+  }, [productId, isAuthenticated]);
+
+  const handleSubscribe = async () => {
+    if (!isAuthenticated && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      showToast("Please enter a valid email", "error");
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      const result = await subscribeToNotifyMe(productId, {
+        email: isAuthenticated ? undefined : email.trim(),
+        variant_id: variantId,
+      });
+      if (result.pending_confirmation) {
+        setPendingConfirmation(true);
+        showToast("Check your email to confirm the alert", "success");
+      } else {
+        setSubscribed(true);
+        showToast("We'll email you when it's back in stock", "success");
+      }
+    } catch (err) {
+      console.error("Failed to subscribe to stock notification:", err);
+      showToast(err instanceof Error ? err.message : "Failed to subscribe, please try again", "error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleUnsubscribe = async () => {
+    setSubmitting(true);
+    try {
+      await unsubscribeFromNotifyMe(productId);
+      setSubscribed(false);
+    } catch (err) {
+      console.error("Failed to cancel stock notification:", err);
+      showToast("Failed to cancel, please try again", "error");
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (pendingConfirmation) {
+    return (
+      <div className="flex items-center gap-2 rounded-lg bg-blue-50 px-4 py-3 text-sm text-[#23429B]">
+        <Bell className="w-4 h-4" />
+        Check your email and confirm to get the alert
+      </div>
+    );
+  }
+
+  if (subscribed) {
+    return (
+      <div className="flex items-center justify-between gap-3 rounded-lg bg-blue-50 px-4 py-3">
+        <p className="flex items-center gap-2 text-sm text-[#23429B]">
+          <Bell className="w-4 h-4" />
+          We&apos;ll email you when this is back in stock
+        </p>
+        {isAuthenticated && (
+          <button
+            onClick={handleUnsubscribe}
+            disabled={submitting}
+            className="flex items-center gap-1 text-xs text-gray-500 hover:text-gray-700 disabled:opacity-50"
+          >
+            <BellOff className="w-3.5 h-3.5" />
+            Cancel
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {!isAuthenticated && (
+        <Input
+          type="email"
+          placeholder="Your email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+          disabled={submitting}
+        />
+      )}
+      <Button
+        variant="outline"
+        onClick={handleSubscribe}
+        disabled={submitting}
+        className="w-full py-4 lg:py-6 text-base lg:text-lg"
+      >
+        {submitting ? (
+          <Loader2 className="w-5 h-5 animate-spin" />
+        ) : (
+          <>
+            <Bell className="w-5 h-5" />
+            Notify me when available
+          </>
+        )}
+      </Button>
+    </div>
+  );
+}
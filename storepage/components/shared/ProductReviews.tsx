@@ -8,12 +8,20 @@ import {
   getProductReviews,
   getMyProductReview,
   deleteReview,
-  markReviewHelpful,
+  voteOnReview,
+  removeReviewVote,
+  reportReview,
+} from "@/lib/api/reviews";
+import type {
+  Review,
+  ReviewStats,
+  ReviewSort,
+  ReviewVoteValue,
+  ReviewReportReason,
 } from "@/lib/api/reviews";
-import type { Review, ReviewStats } from "@/lib/api/reviews";
 import ImageLightbox from "./ImageLightbox";
 import { GuestReviewForm } from "./GuestReviewForm";
-import { Play, MessageSquare } from "lucide-react";
+import { Play, MessageSquare, ThumbsDown, Flag } from "lucide-react";
 import { useProductReviewsQuery, useProductReviewStatusQuery } from "@/lib/queries";
 
 interface ProductReviewsProps {
@@ -89,21 +97,34 @@ function StarRating({
 // Note: Review form has been moved to /orders/[id]/review page
 // Reviews can only be submitted for completed orders
 
+const REPORT_REASONS: { value: ReviewReportReason; label: string }[] = [
+  { value: "spam", label: "Spam or advertising" },
+  { value: "offensive", label: "Offensive or abusive" },
+  { value: "inappropriate", label: "Inappropriate content" },
+  { value: "fake", label: "Fake review" },
+  { value: "other", label: "Other" },
+];
+
 // Single review card
 function ReviewCard({
   review,
   isOwn,
   onDelete,
-  onHelpful,
+  onVote,
+  onReport,
   showToast,
 }: {
   review: Review;
   isOwn: boolean;
   onDelete?: () => void;
-  onHelpful?: () => void;
+  onVote?: (value: ReviewVoteValue) => void;
+  onReport?: (reason: ReviewReportReason) => Promise<void>; // Logged-in customers only
   showToast: (message: string, type?: "success" | "error" | "info" | "warning") => void;
 }) {
   const [deleting, setDeleting] = useState(false);
+  const [reporting, setReporting] = useState(false);
+  const [reportReason, setReportReason] = useState<ReviewReportReason | "">("");
+  const [reported, setReported] = useState(false);
   const [lightboxOpen, setLightboxOpen] = useState(false);
   const [lightboxIndex, setLightboxIndex] = useState(0);
 
@@ -120,6 +141,17 @@ function ReviewCard({
     }
   };
 
+  const handleReport = async () => {
+    if (!reportReason || !onReport) return;
+    try {
+      await onReport(reportReason);
+      setReported(true);
+      setReporting(false);
+    } catch (err) {
+      showToast(err instanceof Error ? err.message : "Failed to report review", "error");
+    }
+  };
+
   const openLightbox = (index: number) => {
     setLightboxIndex(index);
     setLightboxOpen(true);
@@ -243,6 +275,18 @@ function ReviewCard({
           </div>
         )}
 
+        {review.reply && (
+          <div className="mb-2 lg:mb-3 pl-3 border-l-2 border-[#23429B]/40 bg-gray-50 rounded-r-lg py-2 pr-3">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-semibold text-[#23429B]">Response from the store</span>
+              <span className="text-xs text-gray-500">{formatDate(review.reply.created_at)}</span>
+            </div>
+            <p className="text-xs lg:text-sm text-gray-700 leading-relaxed whitespace-pre-line">
+              {review.reply.content}
+            </p>
+          </div>
+        )}
+
         {/* Lightbox */}
         {lightboxOpen && mediaUrls.length > 0 && (
           <ImageLightbox
@@ -252,22 +296,75 @@ function ReviewCard({
           />
         )}
 
-        <div className="flex items-center gap-4 text-xs lg:text-sm text-gray-600">
-          {!isOwn && (
+        {reporting && (
+          <div className="flex flex-wrap items-center gap-2 mb-2 text-xs lg:text-sm">
+            <select
+              value={reportReason}
+              onChange={(e) => setReportReason(e.target.value as ReviewReportReason)}
+              className="px-2 py-1.5 border border-gray-200 rounded-lg"
+            >
+              <option value="">Why are you reporting this review?</option>
+              {REPORT_REASONS.map((reason) => (
+                <option key={reason.value} value={reason.value}>{reason.label}</option>
+              ))}
+            </select>
             <button
-              onClick={onHelpful}
-              className="flex items-center gap-1 hover:text-gray-900"
+              onClick={handleReport}
+              disabled={!reportReason}
+              className="px-3 py-1.5 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:opacity-50"
             >
-              <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5"
-                />
-              </svg>
-              Helpful ({review.helpful_count})
+              Report
+            </button>
+            <button
+              onClick={() => setReporting(false)}
+              className="px-3 py-1.5 text-gray-600 hover:text-gray-900"
+            >
+              Cancel
             </button>
+          </div>
+        )}
+
+        <div className="flex items-center gap-4 text-xs lg:text-sm text-gray-600">
+          {!isOwn && (
+            <>
+              <button
+                onClick={() => onVote?.("helpful")}
+                className={`flex items-center gap-1 hover:text-gray-900 ${
+                  review.viewer_vote === "helpful" ? "text-[#23429B] font-medium" : ""
+                }`}
+              >
+                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M14 10h4.764a2 2 0 011.789 2.894l-3.5 7A2 2 0 0115.263 21h-4.017c-.163 0-.326-.02-.485-.06L7 20m7-10V5a2 2 0 00-2-2h-.095c-.5 0-.905.405-.905.905 0 .714-.211 1.412-.608 2.006L7 11v9m7-10h-2M7 20H5a2 2 0 01-2-2v-6a2 2 0 012-2h2.5"
+                  />
+                </svg>
+                Helpful ({review.helpful_count})
+              </button>
+              <button
+                onClick={() => onVote?.("not_helpful")}
+                className={`flex items-center gap-1 hover:text-gray-900 ${
+                  review.viewer_vote === "not_helpful" ? "text-[#23429B] font-medium" : ""
+                }`}
+              >
+                <ThumbsDown className="w-4 h-4" />
+                Not helpful ({review.not_helpful_count || 0})
+              </button>
+              {onReport && !reported && !reporting && (
+                <button
+                  onClick={() => setReporting(true)}
+                  className="flex items-center gap-1 text-gray-400 hover:text-red-600 ml-auto"
+                >
+                  <Flag className="w-3.5 h-3.5" />
+                  Report
+                </button>
+              )}
+              {reported && (
+                <span className="text-gray-400 ml-auto">Reported</span>
+              )}
+            </>
           )}
           {isOwn && (
             <button
@@ -293,7 +390,8 @@ export function ProductReviews({
   const { showToast } = useToast();
   
   // React Query for reviews
-  const { data: reviewsData, isLoading: loading, refetch: refetchReviews } = useProductReviewsQuery(productId);
+  const [sortBy, setSortBy] = useState<ReviewSort>("recent");
+  const { data: reviewsData, isLoading: loading, refetch: refetchReviews } = useProductReviewsQuery(productId, sortBy);
   const reviews = reviewsData?.reviews || [];
   const stats = reviewsData?.stats || null;
   
@@ -301,39 +399,31 @@ export function ProductReviews({
   const { data: myReviewData } = useProductReviewStatusQuery(isAuthenticated ? productId : null);
   const myReview = myReviewData?.review || null;
   
-  const [sortBy, setSortBy] = useState<"recent" | "helpful" | "high" | "low">("recent");
   const [filterRating, setFilterRating] = useState<number | null>(null);
   const [showGuestForm, setShowGuestForm] = useState(false);
 
-  // Handle helpful click
-  const handleHelpful = async (reviewId: string) => {
-    if (!isAuthenticated) {
-      showToast("Please log in to mark reviews as helpful", "info");
-      return;
-    }
+  // Voting the same value again undoes the vote
+  const handleVote = async (review: Review, value: ReviewVoteValue) => {
     try {
-      await markReviewHelpful(reviewId);
+      if (review.viewer_vote === value) {
+        await removeReviewVote(review.id);
+      } else {
+        await voteOnReview(review.id, value);
+      }
       refetchReviews();
     } catch (err) {
-      console.error("Failed to mark helpful:", err);
+      console.error("Failed to vote on review:", err);
     }
   };
 
-  // Filter and sort reviews
-  const displayedReviews = reviews
-    .filter((r) => !filterRating || r.rating === filterRating)
-    .sort((a, b) => {
-      switch (sortBy) {
-        case "helpful":
-          return b.helpful_count - a.helpful_count;
-        case "high":
-          return b.rating - a.rating;
-        case "low":
-          return a.rating - b.rating;
-        default:
-          return new Date(b.created_at).getTime() - new Date(a.created_at).getTime();
-      }
-    });
+  const handleReport = async (reviewId: string, reason: ReviewReportReason) => {
+    const { message } = await reportReview(reviewId, reason);
+    showToast(message, "success");
+    refetchReviews();
+  };
+
+  // Reviews come sorted from the server
+  const displayedReviews = reviews.filter((r) => !filterRating || r.rating === filterRating);
 
   // Calculate rating bar widths
   const getRatingWidth = (stars: number) => {
@@ -504,13 +594,13 @@ export function ProductReviews({
             </select>
             <select
               value={sortBy}
-              onChange={(e) => setSortBy(e.target.value as typeof sortBy)}
+              onChange={(e) => setSortBy(e.target.value as ReviewSort)}
               className="px-3 lg:px-4 py-2 border border-gray-200 rounded-lg text-xs lg:text-sm"
             >
               <option value="recent">Most recent</option>
               <option value="helpful">Most helpful</option>
-              <option value="high">Highest rating</option>
-              <option value="low">Lowest rating</option>
+              <option value="rating_desc">Highest rating</option>
+              <option value="rating_asc">Lowest rating</option>
             </select>
           </div>
         </div>
@@ -532,7 +622,8 @@ export function ProductReviews({
                 onDelete={() => {
                   refetchReviews();
                 }}
-                onHelpful={() => handleHelpful(review.id)}
+                onVote={(value) => handleVote(review, value)}
+                onReport={isAuthenticated ? (reason) => handleReport(review.id, reason) : undefined}
                 showToast={showToast}
               />
             ))
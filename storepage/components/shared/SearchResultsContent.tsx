@@ -37,6 +37,9 @@ const SORT_OPTIONS = [
   { value: "-created_at", label: "Oldest" },
   { value: "title", label: "Name A-Z" },
   { value: "-title", label: "Name Z-A" },
+  { value: "price", label: "Price: Low to High" },
+  { value: "-price", label: "Price: High to Low" },
+  { value: "-sold_count", label: "Most Popular" },
 ] as const;
 
 // Items per page
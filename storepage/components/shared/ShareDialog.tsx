@@ -8,6 +8,7 @@ interface ShareDialogProps {
   onOpenChange: (open: boolean) => void;
   productTitle: string;
   productUrl: string;
+  title?: string;
 }
 
 export function ShareDialog({
@@ -15,6 +16,7 @@ export function ShareDialog({
   onOpenChange,
   productTitle,
   productUrl,
+  title = "Share products",
 }: ShareDialogProps) {
   const [copied, setCopied] = useState(false);
 
@@ -62,7 +64,7 @@ export function ShareDialog({
       <div className="relative bg-white rounded-2xl w-full max-w-md mx-4 p-6 shadow-xl">
         {/* Header */}
         <div className="flex items-center justify-between mb-6">
-          <h2 className="text-lg font-semibold text-gray-900">Share products</h2>
+          <h2 className="text-lg font-semibold text-gray-900">{title}</h2>
           <button
             onClick={() => onOpenChange(false)}
             className="w-8 h-8 flex items-center justify-center rounded-full hover:bg-gray-100 transition-colors"
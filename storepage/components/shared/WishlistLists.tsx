@@ -0,0 +1,399 @@
+"use client";
+
+import Image from "next/image";
+import Link from "next/link";
+import { useEffect, useState } from "react";
+import { Heart, Trash2, Plus, Pencil, Share2, Link2Off } from "lucide-react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { ConfirmDialog } from "@/components/ui/confirm-dialog";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/components/ui/toast";
+import { ShareDialog } from "@/components/shared/ShareDialog";
+import { AddListToCartButton } from "@/components/shared/AddListToCartButton";
+import {
+  useWishlistListsQuery,
+  useWishlistListQuery,
+  useCreateWishlistListMutation,
+  useRenameWishlistListMutation,
+  useDeleteWishlistListMutation,
+  useUpdateWishlistListItemMutation,
+  useRemoveWishlistListItemMutation,
+  useShareWishlistListMutation,
+} from "@/lib/queries";
+
+/**
+ * A logged-in customer's named wishlists: switch between lists, change
+ * quantities, move items, share a list by link and add a whole list to cart
+ */
+export function WishlistLists() {
+  const { showToast } = useToast();
+  const { data: lists = [], isLoading: loadingLists } = useWishlistListsQuery();
+  const [selectedListId, setSelectedListId] = useState<string | null>(null);
+  const { data: selected, isLoading: loadingItems } = useWishlistListQuery(selectedListId);
+
+  const createList = useCreateWishlistListMutation();
+  const renameList = useRenameWishlistListMutation();
+  const deleteList = useDeleteWishlistListMutation();
+  const updateItem = useUpdateWishlistListItemMutation();
+  const removeItem = useRemoveWishlistListItemMutation();
+  const shareList = useShareWishlistListMutation();
+
+  // "new" while creating a list, the list id while renaming one
+  const [nameDialog, setNameDialog] = useState<"new" | string | null>(null);
+  const [listName, setListName] = useState("");
+  const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
+  const [shareDialogOpen, setShareDialogOpen] = useState(false);
+
+  // Start on the default list, and fall back to it when the selected list is deleted
+  useEffect(() => {
+    if (lists.length > 0 && !lists.some((list) => list.id === selectedListId)) {
+      setSelectedListId(lists[0].id);
+    }
+  }, [lists, selectedListId]);
+
+  const list = lists.find((l) => l.id === selectedListId);
+  const items = selected?.items || [];
+  const shareUrl =
+    list?.share_token && typeof window !== "undefined"
+      ? `${window.location.origin}/wishlist/shared/${list.share_token}`
+      : "";
+
+  const openNameDialog = (target: "new" | string, name = "") => {
+    setListName(name);
+    setNameDialog(target);
+  };
+
+  const handleSaveName = async () => {
+    const name = listName.trim();
+    if (!name || !nameDialog) return;
+
+    try {
+      if (nameDialog === "new") {
+        const created = await createList.mutateAsync(name);
+        setSelectedListId(created.id);
+      } else {
+        await renameList.mutateAsync({ listId: nameDialog, name });
+      }
+      setNameDialog(null);
+    } catch (error) {
+      console.error("Failed to save wishlist:", error);
+      showToast("Failed to save wishlist", "error");
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!list) return;
+    try {
+      await deleteList.mutateAsync(list.id);
+      setDeleteDialogOpen(false);
+      showToast(`Deleted "${list.name}"`, "success");
+    } catch (error) {
+      console.error("Failed to delete wishlist:", error);
+      showToast("Failed to delete wishlist", "error");
+    }
+  };
+
+  const handleShare = async () => {
+    if (!list) return;
+    try {
+      if (!list.share_token) {
+        await shareList.mutateAsync({ listId: list.id, shared: true });
+      }
+      setShareDialogOpen(true);
+    } catch (error) {
+      console.error("Failed to share wishlist:", error);
+      showToast("Failed to create share link", "error");
+    }
+  };
+
+  const handleStopSharing = async () => {
+    if (!list) return;
+    try {
+      await shareList.mutateAsync({ listId: list.id, shared: false });
+      showToast("Share link turned off", "success");
+    } catch (error) {
+      console.error("Failed to stop sharing wishlist:", error);
+      showToast("Failed to turn off share link", "error");
+    }
+  };
+
+  const handleQuantity = (itemId: string, quantity: number) => {
+    if (!list || quantity < 1) return;
+    updateItem.mutate(
+      { listId: list.id, itemId, data: { quantity } },
+      { onError: () => showToast("Failed to update quantity", "error") }
+    );
+  };
+
+  const handleMove = (itemId: string, targetListId: string) => {
+    if (!list) return;
+    const target = lists.find((l) => l.id === targetListId);
+    updateItem.mutate(
+      { listId: list.id, itemId, data: { list_id: targetListId } },
+      {
+        onSuccess: () => showToast(`Moved to "${target?.name}"`, "success"),
+        onError: () => showToast("Failed to move item", "error"),
+      }
+    );
+  };
+
+  const handleRemove = (itemId: string) => {
+    if (!list) return;
+    removeItem.mutate({ listId: list.id, itemId });
+  };
+
+  if (loadingLists) {
+    return (
+      <div className="flex gap-3 mb-8 animate-pulse">
+        {[...Array(3)].map((_, i) => (
+          <div key={i} className="h-10 w-32 bg-gray-200 rounded-full"></div>
+        ))}
+      </div>
+    );
+  }
+
+  return (
+    <>
+      {/* List tabs */}
+      <div className="flex items-center gap-2 overflow-x-auto pb-2 mb-6">
+        {lists.map((l) => (
+          <button
+            key={l.id}
+            onClick={() => setSelectedListId(l.id)}
+            className={`shrink-0 px-4 py-2 rounded-full text-sm font-medium border transition-colors ${
+              l.id === selectedListId
+                ? "bg-[#23429B] border-[#23429B] text-white"
+                : "bg-white border-gray-200 text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {l.name}
+            <span className="ml-1.5 opacity-70">{l.item_count}</span>
+          </button>
+        ))}
+        <button
+          onClick={() => openNameDialog("new")}
+          className="shrink-0 flex items-center gap-1 px-4 py-2 rounded-full text-sm font-medium border border-dashed border-gray-300 text-gray-600 hover:bg-gray-50"
+        >
+          <Plus className="w-4 h-4" />
+          New list
+        </button>
+      </div>
+
+      {list && (
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <h2 className="text-xl font-semibold text-gray-900">{list.name}</h2>
+            {list.share_token && (
+              <span className="text-xs font-medium text-[#23429B] bg-blue-50 px-2 py-1 rounded-full">
+                Shared
+              </span>
+            )}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-2">
+            <button
+              onClick={handleShare}
+              disabled={shareList.isPending}
+              className="flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium border border-gray-200 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              <Share2 className="w-4 h-4" />
+              Share
+            </button>
+            {list.share_token && (
+              <button
+                onClick={handleStopSharing}
+                disabled={shareList.isPending}
+                className="flex items-center gap-1.5 px-4 py-2 rounded-full text-sm font-medium border border-gray-200 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+              >
+                <Link2Off className="w-4 h-4" />
+                Stop sharing
+              </button>
+            )}
+            {!list.is_default && (
+              <>
+                <button
+                  onClick={() => openNameDialog(list.id, list.name)}
+                  className="w-9 h-9 flex items-center justify-center rounded-full border border-gray-200 text-gray-600 hover:bg-gray-50"
+                  aria-label="Rename list"
+                >
+                  <Pencil className="w-4 h-4" />
+                </button>
+                <button
+                  onClick={() => setDeleteDialogOpen(true)}
+                  className="w-9 h-9 flex items-center justify-center rounded-full border border-gray-200 text-red-500 hover:bg-red-50"
+                  aria-label="Delete list"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </>
+            )}
+            <AddListToCartButton items={items} />
+          </div>
+        </div>
+      )}
+
+      {loadingItems ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {[...Array(4)].map((_, i) => (
+            <div key={i} className="bg-white rounded-2xl overflow-hidden shadow-sm animate-pulse">
+              <div className="aspect-square bg-gray-200"></div>
+              <div className="p-4">
+                <div className="h-5 bg-gray-200 rounded mb-2 w-3/4"></div>
+                <div className="h-10 bg-gray-200 rounded"></div>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-16">
+          <div className="w-24 h-24 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Heart className="w-12 h-12 text-gray-300" />
+          </div>
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">This list is empty</h2>
+          <p className="text-gray-600 mb-6 max-w-md mx-auto">
+            {list?.is_default
+              ? "Start adding items you love by clicking the heart icon on any product."
+              : "Move items here from your other lists to plan your order."}
+          </p>
+          <Link
+            href="/products"
+            className="inline-flex items-center gap-2 bg-[#23429B] text-white px-6 py-3 rounded-full font-semibold hover:bg-[#1a3178] transition-colors"
+          >
+            Browse Products
+          </Link>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
+          {items.map((item) => (
+            <div
+              key={item.id}
+              className="bg-white rounded-2xl overflow-hidden shadow-sm hover:shadow-lg transition-shadow group"
+            >
+              <Link href={`/product/${item.product_id}`} className="block relative">
+                <div className="relative aspect-square bg-gray-50">
+                  <button
+                    onClick={(e) => {
+                      e.preventDefault();
+                      handleRemove(item.id);
+                    }}
+                    className="absolute top-3 right-3 w-8 h-8 bg-white rounded-full flex items-center justify-center shadow-sm hover:bg-red-50 z-10 opacity-0 group-hover:opacity-100 transition-opacity"
+                    aria-label="Remove from list"
+                  >
+                    <Trash2 className="w-4 h-4 text-red-500" />
+                  </button>
+                  {item.thumbnail ? (
+                    <Image src={item.thumbnail} alt={item.title} fill className="object-contain p-4" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-gray-400">
+                      No Image
+                    </div>
+                  )}
+                </div>
+              </Link>
+
+              <div className="p-4 space-y-3">
+                <Link href={`/product/${item.product_id}`}>
+                  <h3 className="font-semibold text-gray-900 line-clamp-2 hover:text-[#23429B] transition-colors">
+                    {item.title}
+                  </h3>
+                </Link>
+
+                <div className="flex items-baseline gap-2">
+                  <span className="text-xl font-bold text-gray-900">
+                    RM{(item.price / 100).toFixed(2)}
+                  </span>
+                  {item.original_price && item.original_price > item.price && (
+                    <span className="text-sm text-gray-400 line-through">
+                      RM{(item.original_price / 100).toFixed(2)}
+                    </span>
+                  )}
+                </div>
+
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2">
+                    <button
+                      onClick={() => handleQuantity(item.id, item.quantity - 1)}
+                      disabled={item.quantity <= 1 || updateItem.isPending}
+                      className="w-8 h-8 rounded-lg border border-gray-200 flex items-center justify-center hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      −
+                    </button>
+                    <span className="w-8 text-center font-semibold">{item.quantity}</span>
+                    <button
+                      onClick={() => handleQuantity(item.id, item.quantity + 1)}
+                      disabled={updateItem.isPending}
+                      className="w-8 h-8 rounded-lg border border-gray-200 flex items-center justify-center hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                    >
+                      +
+                    </button>
+                  </div>
+
+                  {lists.length > 1 && (
+                    <select
+                      value=""
+                      onChange={(e) => e.target.value && handleMove(item.id, e.target.value)}
+                      className="max-w-[9rem] text-sm border border-gray-200 rounded-lg px-2 py-1.5 text-gray-600 bg-white"
+                      aria-label="Move to list"
+                    >
+                      <option value="">Move to…</option>
+                      {lists
+                        .filter((l) => l.id !== list?.id)
+                        .map((l) => (
+                          <option key={l.id} value={l.id}>
+                            {l.name}
+                          </option>
+                        ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* New / rename list dialog */}
+      <Dialog open={nameDialog !== null} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-md rounded-2xl">
+          <DialogTitle>{nameDialog === "new" ? "New wishlist" : "Rename wishlist"}</DialogTitle>
+          <Input
+            autoFocus
+            placeholder="e.g. CNY reunion dinner"
+            value={listName}
+            maxLength={100}
+            onChange={(e) => setListName(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleSaveName()}
+          />
+          <button
+            onClick={handleSaveName}
+            disabled={!listName.trim() || createList.isPending || renameList.isPending}
+            className="w-full py-3 rounded-full font-medium text-white bg-[#23429B] hover:bg-[#1a3178] transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {nameDialog === "new" ? "Create list" : "Save"}
+          </button>
+        </DialogContent>
+      </Dialog>
+
+      <ConfirmDialog
+        open={deleteDialogOpen}
+        onOpenChange={setDeleteDialogOpen}
+        title={`Delete "${list?.name}"?`}
+        description={`The list and its ${list?.item_count ?? 0} items will be removed. This action cannot be undone.`}
+        confirmText="Delete list"
+        variant="destructive"
+        loading={deleteList.isPending}
+        onConfirm={handleDelete}
+      />
+
+      {list && shareUrl && (
+        <ShareDialog
+          open={shareDialogOpen}
+          onOpenChange={setShareDialogOpen}
+          title="Share wishlist"
+          productTitle={list.name}
+          productUrl={shareUrl}
+        />
+      )}
+    </>
+  );
+}
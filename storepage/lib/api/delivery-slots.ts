@@ -0,0 +1,76 @@
+/**
+ * Delivery Slots API Service
+ * Delivery windows customers book for cold-chain deliveries at checkout
+ */
+
+import { apiClient } from './client';
+import type { Cart } from './types';
+import { getStoredCartId } from './cart';
+
+/**
+ * A delivery window on a date
+ */
+export interface DeliverySlotOption {
+  id: string;
+  start_time: string; // HH:MM
+  end_time: string; // HH:MM
+  capacity: number;
+  remaining: number;
+  same_day: boolean;
+  available: boolean; // Still bookable (before the cut-off and not full)
+}
+
+/**
+ * A delivery date with its slots, or the reason there are no deliveries
+ */
+export interface DeliveryDate {
+  date: string; // YYYY-MM-DD
+  day_of_week: number;
+  closed_reason: string | null;
+  slots: DeliverySlotOption[];
+}
+
+/**
+ * Delivery slot held for the cart
+ */
+export interface DeliverySlotSelection {
+  reservation_id: string;
+  slot_id: string;
+  service_zone_id: string;
+  date: string;
+  start_time: string;
+  end_time: string;
+}
+
+export interface DeliverySlotsResponse {
+  service_zone_id: string | null;
+  dates: DeliveryDate[];
+  selected: DeliverySlotSelection | null;
+}
+
+/**
+ * Get the delivery dates and slots for the cart's shipping method
+ */
+export async function getDeliverySlots(cartId?: string): Promise<DeliverySlotsResponse> {
+  const id = cartId || getStoredCartId();
+  if (!id) throw new Error('No cart found');
+
+  return apiClient.get(`/store/delivery-slots?cart_id=${id}`);
+}
+
+/**
+ * Book a delivery slot for the cart
+ * The slot is held for the cart until the order is placed
+ */
+export async function selectDeliverySlot(slotId: string, date: string): Promise<{
+  cart: Cart;
+  delivery_slot: DeliverySlotSelection;
+}> {
+  const cartId = getStoredCartId();
+  if (!cartId) throw new Error('No cart found');
+
+  return apiClient.post(`/store/carts/${cartId}/delivery-slot`, {
+    slot_id: slotId,
+    date,
+  });
+}
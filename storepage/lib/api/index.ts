@@ -20,4 +20,5 @@ export * from './membership';
 export * from './content';
 export * from './payment';
 export * from './payment-methods';
+export * from './delivery-slots';
 export * from './reviews';
@@ -4,7 +4,7 @@
  */
 
 import { apiClient } from './client';
-import type { Membership, MembershipTier } from './types';
+import type { Membership, MembershipProgress, MembershipTier } from './types';
 
 /**
  * Get customer membership
@@ -24,6 +24,13 @@ export async function getMembershipTiers(): Promise<{ tiers: MembershipTier[] }>
   return apiClient.get('/store/membership/tiers');
 }
 
+/**
+ * Get progress towards the next tier and when old orders stop counting
+ */
+export async function getMembershipProgress(): Promise<{ progress: MembershipProgress }> {
+  return apiClient.get('/store/membership/progress');
+}
+
 /**
  * Purchase or upgrade membership
  */
@@ -4,7 +4,7 @@
  */
 
 import { apiClient } from './client';
-import type { Order, PaginatedResponse } from './types';
+import type { Order, PaginatedResponse, ReturnEligibility, ReturnReason, ReturnRequest, ReturnType } from './types';
 
 /**
  * Get customer orders
@@ -52,23 +52,48 @@ export async function downloadInvoice(orderId: string): Promise<Blob> {
   return response.blob();
 }
 
+/**
+ * Get the return requests of an order and whether it can still be returned
+ */
+export async function getOrderReturns(orderId: string): Promise<{
+  returns: ReturnRequest[];
+  eligibility: ReturnEligibility;
+}> {
+  return apiClient.get(`/store/orders/${orderId}/return`);
+}
+
 /**
  * Request order return
+ * Photos are uploaded beforehand via /store/uploads
  */
 export async function requestReturn(orderId: string, data: {
   items: Array<{
     item_id: string;
     quantity: number;
-    reason?: string;
   }>;
-  note?: string;
-}): Promise<{ return: any }> {
+  reason: ReturnReason;
+  reason_details?: string;
+  evidence_urls?: string[];
+  return_type?: ReturnType;
+}): Promise<{ return: ReturnRequest }> {
   return apiClient.post(`/store/orders/${orderId}/return`, data);
 }
 
 /**
  * Cancel order (if allowed)
+ * Only unfulfilled orders within the cancellation grace period can be cancelled
  */
-export async function cancelOrder(orderId: string): Promise<{ order: Order }> {
-  return apiClient.post(`/store/orders/${orderId}/cancel`);
+export async function cancelOrder(orderId: string, reason?: string): Promise<{
+  order: Pick<Order, 'id' | 'display_id' | 'status'> & {
+    payment_status: string;
+    fulfillment_status: string;
+  };
+  refund: {
+    refunded: boolean;
+    voided: boolean;
+    amount: number;
+  };
+  points_restored: number;
+}> {
+  return apiClient.post(`/store/orders/${orderId}/cancel`, reason ? { reason } : undefined);
 }
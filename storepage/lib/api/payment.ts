@@ -20,6 +20,24 @@ export interface ShippingOption {
   data?: Record<string, any>;
 }
 
+/**
+ * Delivery zone of the shipping postcode, with the zone's delivery charge
+ * and how far the cart is from its minimum order and free shipping
+ */
+export interface DeliveryZoneQuote {
+  zone_id: string;
+  name: string;
+  postal_code: string;
+  rate: number;
+  shipping_amount: number;
+  order_value: number;
+  free_shipping_threshold: number | null;
+  amount_to_free_shipping: number | null;
+  minimum_order_value: number | null;
+  amount_to_minimum: number;
+  meets_minimum: boolean;
+}
+
 /**
  * Payment provider type
  */
@@ -29,28 +47,38 @@ export interface PaymentProvider {
 }
 
 /**
- * Get available shipping options for the cart's region
+ * Get available shipping options for the cart, priced by the delivery zone
+ * of its shipping postcode
+ * @param postalCode - Postcode to price by before the address is saved on the cart
  */
-export async function getShippingOptions(cartId?: string): Promise<{ shipping_options: ShippingOption[] }> {
+export async function getShippingOptions(
+  cartId?: string,
+  postalCode?: string
+): Promise<{ shipping_options: ShippingOption[]; delivery_zone: DeliveryZoneQuote | null }> {
   const id = cartId || getStoredCartId();
   if (!id) throw new Error('No cart found');
 
-  return apiClient.get(`/store/shipping-options?cart_id=${id}`);
+  const params = new URLSearchParams({ cart_id: id });
+  if (postalCode) params.set('postal_code', postalCode);
+
+  return apiClient.get(`/store/delivery-zones/shipping-options?${params.toString()}`);
 }
 
 /**
  * Add shipping method to cart
+ * Fails when the delivery zone doesn't offer the option or the cart is below
+ * the zone's minimum order value
  */
 export async function addShippingMethod(optionId: string): Promise<Cart> {
   const cartId = getStoredCartId();
   if (!cartId) throw new Error('No cart found');
 
-  const response = await apiClient.post<{ cart: Cart }>(
-    `/store/carts/${cartId}/shipping-methods`,
+  await apiClient.post(
+    `/store/carts/${cartId}/zone-shipping-method`,
     { option_id: optionId }
   );
 
-  return response.cart;
+  return getCart(cartId);
 }
 
 /**
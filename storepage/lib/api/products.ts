@@ -13,7 +13,11 @@ export interface ProductFilters {
   limit?: number;
   offset?: number;
   order?: string;
+  brand_id?: string;
+  tags?: string[];
   // Advanced filters
+  min_price?: number; // In cents
+  max_price?: number; // In cents
   min_rating?: number;
   delivery_speed?: 'today' | 'tomorrow' | 'few_days' | 'anytime';
   flash_sale?: boolean;
@@ -21,6 +25,14 @@ export interface ProductFilters {
   on_brand?: boolean;
 }
 
+export interface SearchFacets {
+  categories: Array<{ id: string; name: string; count: number }>;
+  brands: Array<{ id: string; name: string; count: number }>;
+  price_ranges: Array<{ key: string; from: number; to: number | null; count: number }>; // from/to in cents
+  ratings: { 5: number; 4: number; 3: number; 2: number; 1: number };
+  tags: Array<{ value: string; count: number }>;
+}
+
 export interface SearchResponse extends PaginatedResponse<Product> {
   rating_counts?: {
     5: number;
@@ -29,6 +41,7 @@ export interface SearchResponse extends PaginatedResponse<Product> {
     2: number;
     1: number;
   };
+  facets?: SearchFacets;
 }
 
 /**
@@ -68,11 +81,15 @@ export async function getProducts(
       // For search endpoint, use single category_id
       params.append('category_id', categories[0]);
     }
+    if (filters.brand_id) params.append('brand_id', filters.brand_id);
+    if (filters.tags?.length) params.append('tags', filters.tags.join(','));
     if (filters.limit) params.append('limit', filters.limit.toString());
     if (filters.offset) params.append('offset', filters.offset.toString());
     if (filters.order) params.append('order', filters.order);
     
     // Advanced filters
+    if (filters.min_price !== undefined) params.append('min_price', filters.min_price.toString());
+    if (filters.max_price !== undefined) params.append('max_price', filters.max_price.toString());
     if (filters.min_rating) params.append('min_rating', filters.min_rating.toString());
     if (filters.delivery_speed) params.append('delivery_speed', filters.delivery_speed);
     if (filters.flash_sale) params.append('flash_sale', 'true');
@@ -96,6 +113,7 @@ export async function getProducts(
       2: number;
       1: number;
     };
+    facets?: SearchFacets;
   }>(endpoint);
 
   // Map the response to match SearchResponse interface
@@ -105,6 +123,7 @@ export async function getProducts(
     offset: response.offset,
     limit: response.limit,
     rating_counts: response.rating_counts,
+    facets: response.facets,
   };
 }
 
@@ -22,10 +22,30 @@ export interface Review {
   is_approved: boolean;
   is_featured: boolean;
   helpful_count: number;
+  not_helpful_count?: number;
+  viewer_vote?: ReviewVoteValue | null; // The current customer's or browser's vote
+  reply?: ReviewReply | null; // Public reply from the store
   created_at: string;
   updated_at: string;
 }
 
+export type ReviewVoteValue = 'helpful' | 'not_helpful';
+
+export type ReviewSort = 'recent' | 'helpful' | 'rating_desc' | 'rating_asc';
+
+export type ReviewReportReason = 'spam' | 'offensive' | 'inappropriate' | 'fake' | 'other';
+
+export interface ReviewVoteResponse {
+  helpful_count: number;
+  not_helpful_count: number;
+  viewer_vote: ReviewVoteValue | null;
+}
+
+export interface ReviewReply {
+  content: string;
+  created_at: string;
+}
+
 export interface ReviewStats {
   average_rating: number;
   total_reviews: number;
@@ -67,11 +87,12 @@ export interface UpdateReviewData {
  */
 export async function getProductReviews(
   productId: string,
-  options?: { limit?: number; offset?: number }
+  options?: { limit?: number; offset?: number; sort?: ReviewSort }
 ): Promise<ProductReviewsResponse> {
   const params = new URLSearchParams();
   if (options?.limit) params.append('limit', options.limit.toString());
   if (options?.offset) params.append('offset', options.offset.toString());
+  if (options?.sort) params.append('sort', options.sort);
   
   const queryString = params.toString();
   const endpoint = `/store/reviews/product/${productId}${queryString ? `?${queryString}` : ''}`;
@@ -156,6 +177,36 @@ export async function markReviewHelpful(
   });
 }
 
+/**
+ * Vote a review helpful or not helpful (guests and customers)
+ */
+export async function voteOnReview(
+  reviewId: string,
+  value: ReviewVoteValue
+): Promise<ReviewVoteResponse> {
+  return apiClient.post(`/store/reviews/${reviewId}/vote`, { value });
+}
+
+/**
+ * Undo a helpful / not helpful vote
+ */
+export async function removeReviewVote(reviewId: string): Promise<ReviewVoteResponse> {
+  return apiClient.delete(`/store/reviews/${reviewId}/vote`);
+}
+
+/**
+ * Report a review as abusive (requires login)
+ */
+export async function reportReview(
+  reviewId: string,
+  reason: ReviewReportReason,
+  details?: string
+): Promise<{ message: string }> {
+  return apiClient.post(`/store/customer/reviews/${reviewId}/report`, { reason, details }, {
+    headers: getAuthHeaders(),
+  });
+}
+
 export interface FeaturedReview {
   id: string;
   rating: number;
@@ -200,6 +251,45 @@ export async function createGuestReview(
   return apiClient.post('/store/reviews', data);
 }
 
+/**
+ * The order item a review request email link is for
+ */
+export interface ReviewInvitation {
+  order_id: string;
+  display_id: number;
+  order_item_id: string;
+  product_id: string;
+  title: string;
+  thumbnail: string | null;
+  quantity: number;
+}
+
+export interface CreateInvitedReviewData {
+  token: string;
+  rating: number;
+  title?: string;
+  content?: string;
+  images?: string[];
+}
+
+/**
+ * Look up a review request link (no authentication required)
+ */
+export async function getReviewInvitation(
+  token: string
+): Promise<{ invitation: ReviewInvitation; has_reviewed: boolean }> {
+  return apiClient.get(`/store/reviews/invitation?token=${encodeURIComponent(token)}`);
+}
+
+/**
+ * Create a verified review through a review request link (no authentication required)
+ */
+export async function createInvitedReview(
+  data: CreateInvitedReviewData
+): Promise<{ review: Review; message: string }> {
+  return apiClient.post('/store/reviews/invitation', data);
+}
+
 /**
  * Get featured reviews with photos for landing page
  */
@@ -115,6 +115,30 @@ export interface Cart {
   updated_at: string;
 }
 
+/**
+ * Automatic (no code) promotion applied to a cart
+ * Stored in cart.metadata.auto_promotions_applied
+ */
+export interface AppliedAutoPromotion {
+  promotion_id: string;
+  name: string;
+  type: "buy_x_get_y" | "spend_threshold" | "category_sale" | "free_shipping";
+  discount_amount: number;
+  free_shipping: boolean;
+  message: string;
+}
+
+/**
+ * Automatic promotion that didn't apply, with the reason
+ * Stored in cart.metadata.auto_promotions_not_applied
+ */
+export interface SkippedAutoPromotion {
+  promotion_id: string;
+  name: string;
+  type: AppliedAutoPromotion["type"];
+  reason: string;
+}
+
 export interface LineItem {
   id: string;
   cart_id: string;
@@ -230,11 +254,104 @@ export interface Order {
     id: string;
     payment_sessions?: PaymentSession[];
   };
+  courier?: string | null;
+  tracking_number?: string | null;
+  tracking?: ShipmentTracking | null;
   metadata?: Record<string, any>;
   created_at: string;
   updated_at: string;
 }
 
+export interface TrackingCheckpoint {
+  date: string;
+  time: string;
+  status: string;
+  location?: string;
+  description?: string;
+}
+
+/**
+ * Courier shipment of an order with the checkpoints recorded so far
+ */
+export interface ShipmentTracking {
+  courier: string;
+  awb: string;
+  tracking_url: string | null;
+  status: string;
+  tracking_status: string | null;
+  events: TrackingCheckpoint[];
+  last_tracked_at: string | null;
+  delivered_at: string | null;
+}
+
+export type ReturnReason = 'defective' | 'wrong_item' | 'not_as_described' | 'changed_mind' | 'other';
+
+export type ReturnStatus =
+  | 'requested'
+  | 'approved'
+  | 'rejected'
+  | 'in_transit'
+  | 'received'
+  | 'inspecting'
+  | 'completed'
+  | 'cancelled';
+
+export interface ReturnableItem {
+  item_id: string;
+  variant_id: string;
+  product_name: string;
+  original_quantity: number;
+  returned_quantity: number;
+  returnable_quantity: number;
+  unit_price: number;
+  refund_per_unit: number;
+  refund_total: number;
+  refund_remainder: number;
+  thumbnail: string | null;
+}
+
+export interface ReturnEligibility {
+  can_return: boolean;
+  reason?: string;
+  days_remaining?: number;
+  delivered_at?: string;
+  returnable_items?: ReturnableItem[];
+}
+
+export type ReturnType = 'refund' | 'store_credit' | 'replacement';
+
+export interface ReturnRequest {
+  id: string;
+  status: ReturnStatus;
+  return_type: ReturnType;
+  reason: ReturnReason;
+  reason_details: string | null;
+  evidence_urls: string[];
+  items: Array<{
+    item_id: string;
+    variant_id: string;
+    product_name: string;
+    quantity: number;
+    unit_price: number;
+  }>;
+  refund_amount: number;
+  shipping_refund: number;
+  total_refund: number;
+  refunded_amount: number;
+  refund_adjustment_reason: string | null;
+  refund_status: 'pending' | 'processing' | 'partially_refunded' | 'completed' | 'failed' | null;
+  refunded_at: string | null;
+  rejection_reason: string | null;
+  return_tracking_number: string | null;
+  return_courier: string | null;
+  requested_at: string;
+  approved_at: string | null;
+  rejected_at: string | null;
+  received_at: string | null;
+  completed_at: string | null;
+  updated_at: string;
+}
+
 // ============================================================================
 // Payment Types
 // ============================================================================
@@ -298,6 +415,37 @@ export interface MembershipTier {
   metadata?: Record<string, any>;
 }
 
+export interface MembershipProgressTier {
+  slug: string;
+  name: string;
+  rank: number;
+  order_threshold: number;
+  spend_threshold: number;
+}
+
+export interface MembershipProgress {
+  current_tier: MembershipProgressTier | null;
+  next_tier: MembershipProgressTier | null;
+  activity: {
+    order_count: number;
+    spend_total: number;
+    window_months: number;
+  };
+  orders_needed: number;
+  spend_needed: number;
+  next_drop_off: {
+    date: string;
+    order_count: number;
+    spend: number;
+  } | null;
+  projected_downgrade: {
+    date: string;
+    tier: MembershipProgressTier | null;
+    orders_to_keep: number;
+    spend_to_keep: number;
+  } | null;
+}
+
 // ============================================================================
 // Points Types
 // ============================================================================
@@ -307,6 +455,11 @@ export interface PointsBalance {
   balance: number;
   lifetime_earned: number;
   lifetime_spent: number;
+  expiring_soon?: {
+    points: number;
+    expires_at: string | null;
+    within_days: number;
+  };
 }
 
 export interface PointsTransaction {
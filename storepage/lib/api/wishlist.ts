@@ -3,16 +3,36 @@ import { apiClient } from './client';
 export interface WishlistItem {
   id: string;
   customer_id: string;
+  list_id?: string | null;
   product_id: string;
   variant_id?: string;
   title: string;
   thumbnail?: string | null;
   price: number;
   original_price?: number;
+  quantity: number;
   created_at: string;
   updated_at: string;
 }
 
+export interface WishlistList {
+  id: string;
+  name: string;
+  is_default: boolean;
+  share_token?: string | null;
+  shared_at?: string | null;
+  item_count: number;
+  created_at: string;
+}
+
+export interface SharedWishlist {
+  list: Pick<WishlistList, 'id' | 'name' | 'item_count'>;
+  items: Pick<
+    WishlistItem,
+    'id' | 'product_id' | 'variant_id' | 'title' | 'thumbnail' | 'price' | 'original_price' | 'quantity'
+  >[];
+}
+
 export interface WishlistResponse {
   wishlist: WishlistItem[];
 }
@@ -26,15 +46,17 @@ export async function fetchWishlist(): Promise<WishlistItem[]> {
 }
 
 /**
- * Add item to wishlist
+ * Add item to wishlist, the default list unless list_id is given
  */
 export async function addToWishlist(data: {
+  list_id?: string;
   product_id: string;
   variant_id?: string;
   title: string;
   thumbnail?: string | null;
   price: number;
   original_price?: number;
+  quantity?: number;
 }): Promise<WishlistItem> {
   const response = await apiClient.post<{ item: WishlistItem }>('/store/wishlist', data);
   return response.item;
@@ -57,3 +79,150 @@ export async function clearWishlist(): Promise<void> {
     wishlistItems.map(item => removeFromWishlist(item.product_id))
   );
 }
+
+/**
+ * Fetch customer's named wishlists with their item counts
+ */
+export async function fetchWishlistLists(): Promise<WishlistList[]> {
+  const response = await apiClient.get<{ lists: WishlistList[] }>('/store/wishlist/lists');
+  return response.lists || [];
+}
+
+/**
+ * Fetch one wishlist with its items
+ */
+export async function fetchWishlistList(
+  list_id: string
+): Promise<{ list: WishlistList; items: WishlistItem[] }> {
+  return apiClient.get(`/store/wishlist/lists/${list_id}`);
+}
+
+/**
+ * Create a named wishlist
+ */
+export async function createWishlistList(name: string): Promise<WishlistList> {
+  const response = await apiClient.post<{ list: WishlistList }>('/store/wishlist/lists', { name });
+  return response.list;
+}
+
+/**
+ * Rename a wishlist
+ */
+export async function renameWishlistList(list_id: string, name: string): Promise<void> {
+  await apiClient.post(`/store/wishlist/lists/${list_id}`, { name });
+}
+
+/**
+ * Delete a wishlist and its items
+ */
+export async function deleteWishlistList(list_id: string): Promise<void> {
+  await apiClient.delete(`/store/wishlist/lists/${list_id}`);
+}
+
+/**
+ * Change an item's quantity or move it to another wishlist
+ */
+export async function updateWishlistListItem(
+  list_id: string,
+  item_id: string,
+  data: { quantity?: number; list_id?: string }
+): Promise<WishlistItem> {
+  const response = await apiClient.post<{ item: WishlistItem }>(
+    `/store/wishlist/lists/${list_id}/items/${item_id}`,
+    data
+  );
+  return response.item;
+}
+
+/**
+ * Remove an item from one wishlist
+ */
+export async function removeWishlistListItem(list_id: string, item_id: string): Promise<void> {
+  await apiClient.delete(`/store/wishlist/lists/${list_id}/items/${item_id}`);
+}
+
+/**
+ * Turn the share link of a wishlist on or off
+ */
+export async function setWishlistListShared(list_id: string, shared: boolean): Promise<WishlistList> {
+  const endpoint = `/store/wishlist/lists/${list_id}/share`;
+  const response = shared
+    ? await apiClient.post<{ list: WishlistList }>(endpoint)
+    : await apiClient.delete<{ list: WishlistList }>(endpoint);
+  return response.list;
+}
+
+/**
+ * Fetch a wishlist someone shared, no login needed
+ */
+export async function fetchSharedWishlist(token: string): Promise<SharedWishlist> {
+  return apiClient.get<SharedWishlist>(`/store/wishlist/shared/${token}`);
+}
+
+export interface WishlistAlertPreferences {
+  price_drop: boolean;
+  back_in_stock: boolean;
+}
+
+/**
+ * Fetch which wishlist alert emails the customer receives
+ */
+export async function fetchWishlistAlertPreferences(): Promise<WishlistAlertPreferences> {
+  const response = await apiClient.get<{ preferences: WishlistAlertPreferences }>('/store/wishlist/alerts');
+  return response.preferences;
+}
+
+/**
+ * Turn price-drop or back in stock emails on or off
+ */
+export async function updateWishlistAlertPreferences(
+  data: Partial<WishlistAlertPreferences>
+): Promise<WishlistAlertPreferences> {
+  const response = await apiClient.post<{ preferences: WishlistAlertPreferences }>('/store/wishlist/alerts', data);
+  return response.preferences;
+}
+
+/**
+ * Check whether the customer already asked to be told when a product is back
+ */
+export async function fetchNotifyMeStatus(product_id: string): Promise<boolean> {
+  const response = await apiClient.get<{ subscribed: boolean }>(`/store/products/${product_id}/notify-me`);
+  return response.subscribed;
+}
+
+/**
+ * Ask to be emailed once an out of stock product is available again.
+ * Guests must pass an email and confirm the alert from the email they get;
+ * customers are subscribed with their account email
+ * @returns Whether the alert is active, or waiting for the guest to confirm it
+ */
+export async function subscribeToNotifyMe(
+  product_id: string,
+  data: { email?: string; variant_id?: string } = {}
+): Promise<{ subscribed: boolean; pending_confirmation?: boolean }> {
+  return apiClient.post<{ subscribed: boolean; pending_confirmation?: boolean }>(
+    `/store/products/${product_id}/notify-me`,
+    data
+  );
+}
+
+/**
+ * Stop waiting for a product to come back in stock
+ */
+export async function unsubscribeFromNotifyMe(product_id: string): Promise<void> {
+  await apiClient.delete(`/store/products/${product_id}/notify-me`);
+}
+
+/**
+ * Confirm a guest's back in stock alert from the link in its email
+ */
+export async function confirmNotifyMe(token: string): Promise<{ product_id: string }> {
+  return apiClient.post<{ subscribed: boolean; product_id: string }>('/store/notify-me/confirm', { token });
+}
+
+/**
+ * Cancel a back in stock alert from the link in its email
+ */
+export async function cancelNotifyMeByToken(token: string): Promise<{ product_id: string }> {
+  return apiClient.post<{ subscribed: boolean; product_id: string }>('/store/notify-me/unsubscribe', { token });
+}
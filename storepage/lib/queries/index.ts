@@ -6,6 +6,7 @@
 "use client";
 
 import {
+  keepPreviousData,
   useQuery,
   useMutation,
   useQueryClient,
@@ -39,13 +40,18 @@ export const queryKeys = {
   
   // Wishlist
   wishlist: ["wishlist"] as const,
+  wishlistLists: ["wishlistLists"] as const,
+  wishlistList: (id: string) => ["wishlistList", id] as const,
+  sharedWishlist: (token: string) => ["sharedWishlist", token] as const,
   
   // Orders
   orders: ["orders"] as const,
   order: (id: string) => ["order", id] as const,
+  orderReturns: (id: string) => ["orderReturns", id] as const,
   
   // Shipping
   shippingOptions: (cartId: string) => ["shippingOptions", cartId] as const,
+  deliverySlots: (cartId: string) => ["deliverySlots", cartId] as const,
   
   // Addresses
   addresses: ["addresses"] as const,
@@ -70,6 +76,7 @@ export function useProductsQuery(filters?: api.ProductFilters) {
         products: response.data,
         count: response.count || 0,
         ratingCounts: response.rating_counts || null,
+        facets: response.facets || null,
       };
     },
     staleTime: 2 * 60 * 1000, // 2 minutes
@@ -433,6 +440,50 @@ export function useOrderQuery(orderId: string | null) {
   });
 }
 
+/**
+ * Cancel order mutation
+ */
+export function useCancelOrderMutation(orderId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (reason?: string) => api.cancelOrder(orderId, reason),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.order(orderId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.orders });
+    },
+  });
+}
+
+/**
+ * Fetch an order's return requests and return eligibility
+ */
+export function useOrderReturnsQuery(orderId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.orderReturns(orderId || ""),
+    queryFn: async () => {
+      if (!orderId) return null;
+      return await api.getOrderReturns(orderId);
+    },
+    enabled: !!orderId,
+  });
+}
+
+/**
+ * Request a return mutation
+ */
+export function useRequestReturnMutation(orderId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (data: Parameters<typeof api.requestReturn>[1]) =>
+      api.requestReturn(orderId, data),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.orderReturns(orderId) });
+    },
+  });
+}
+
 // ============================================
 // ADDRESSES
 // ============================================
@@ -548,12 +599,12 @@ export function useFeaturedReviewsQuery(limit: number = 12) {
 /**
  * Fetch product reviews
  */
-export function useProductReviewsQuery(productId: string | null) {
+export function useProductReviewsQuery(productId: string | null, sort: api.ReviewSort = "recent") {
   return useQuery({
-    queryKey: queryKeys.productReviews(productId || ""),
+    queryKey: [...queryKeys.productReviews(productId || ""), sort],
     queryFn: async () => {
       if (!productId) return { reviews: [], stats: null };
-      const response = await api.getProductReviews(productId);
+      const response = await api.getProductReviews(productId, { sort });
       return response;
     },
     enabled: !!productId,
@@ -615,6 +666,18 @@ export function useProductReviewStatusQuery(productId: string | null) {
   });
 }
 
+/**
+ * Look up the product a review request link is for
+ */
+export function useReviewInvitationQuery(token: string | null) {
+  return useQuery({
+    queryKey: ['review-invitation', token],
+    queryFn: () => api.getReviewInvitation(token!),
+    enabled: !!token,
+    retry: false,
+  });
+}
+
 /**
  * Submit product review mutation
  */
@@ -659,21 +722,24 @@ export function useSubmitReviewMutation() {
 
 /**
  * Fetch checkout data (cart + shipping options)
+ * @param postalCode - Guest postcode to price shipping by before the address is saved
  */
-export function useCheckoutQuery() {
+export function useCheckoutQuery(postalCode?: string) {
   return useQuery({
-    queryKey: ['checkout'],
+    queryKey: ['checkout', postalCode || null],
     queryFn: async () => {
       const cart = await api.getOrCreateCart();
-      const { shipping_options } = await api.getShippingOptions(cart.id);
+      const { shipping_options, delivery_zone } = await api.getShippingOptions(cart.id, postalCode);
       
       return {
         cart,
         shippingOptions: shipping_options,
+        deliveryZone: delivery_zone,
         selectedShippingOption: null, // Will be set when user selects
       };
     },
     staleTime: 30 * 1000, // 30 seconds
+    placeholderData: keepPreviousData, // Keep checkout on screen while a new postcode is priced
   });
 }
 
@@ -752,6 +818,42 @@ export function useAddShippingMethodMutation() {
     onSuccess: (cart) => {
       queryClient.setQueryData(queryKeys.cart, cart);
       queryClient.invalidateQueries({ queryKey: ['checkout'] });
+      // Slots depend on the shipping option's service zone
+      queryClient.invalidateQueries({ queryKey: ['deliverySlots'] });
+    },
+  });
+}
+
+/**
+ * Fetch delivery dates and slots for the cart's shipping method
+ */
+export function useDeliverySlotsQuery(cartId: string | null, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.deliverySlots(cartId || ""),
+    queryFn: () => api.getDeliverySlots(cartId!),
+    enabled: !!cartId && enabled,
+    staleTime: 30 * 1000, // 30 seconds - remaining capacity changes as others book
+  });
+}
+
+/**
+ * Select delivery slot mutation
+ */
+export function useSelectDeliverySlotMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ slotId, date }: { slotId: string; date: string }) => {
+      return await api.selectDeliverySlot(slotId, date);
+    },
+    onSuccess: ({ cart }) => {
+      queryClient.setQueryData(queryKeys.cart, cart);
+      queryClient.invalidateQueries({ queryKey: ['checkout'] });
+      queryClient.invalidateQueries({ queryKey: ['deliverySlots'] });
+    },
+    onError: () => {
+      // The slot may have just filled up
+      queryClient.invalidateQueries({ queryKey: ['deliverySlots'] });
     },
   });
 }
@@ -855,6 +957,8 @@ export function useAddToWishlistMutation() {
       // Invalidate wishlist query to refetch
       console.log("[Wishlist] Invalidating queries");
       queryClient.invalidateQueries({ queryKey: queryKeys.wishlist });
+      queryClient.invalidateQueries({ queryKey: queryKeys.wishlistLists });
+      queryClient.invalidateQueries({ queryKey: ["wishlistList"] });
     },
     onError: (error) => {
       console.error("[Wishlist] Add failed:", error);
@@ -878,12 +982,137 @@ export function useRemoveFromWishlistMutation() {
       // Invalidate wishlist query to refetch
       console.log("[Wishlist] Invalidating queries after remove");
       queryClient.invalidateQueries({ queryKey: queryKeys.wishlist });
+      queryClient.invalidateQueries({ queryKey: queryKeys.wishlistLists });
+      queryClient.invalidateQueries({ queryKey: ["wishlistList"] });
     },
     onError: (error) => {
       console.error("[Wishlist] Remove failed:", error);
     },
   });
 }
+
+/**
+ * Fetch customer's named wishlists
+ */
+export function useWishlistListsQuery() {
+  const { customer } = useAuthStore();
+
+  return useQuery({
+    queryKey: queryKeys.wishlistLists,
+    queryFn: () => wishlistApi.fetchWishlistLists(),
+    enabled: !!customer,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * Fetch one wishlist with its items
+ */
+export function useWishlistListQuery(listId: string | null) {
+  const { customer } = useAuthStore();
+
+  return useQuery({
+    queryKey: queryKeys.wishlistList(listId || ""),
+    queryFn: () => wishlistApi.fetchWishlistList(listId!),
+    enabled: !!customer && !!listId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
+
+/**
+ * Fetch a shared wishlist by its link token
+ */
+export function useSharedWishlistQuery(token: string) {
+  return useQuery({
+    queryKey: queryKeys.sharedWishlist(token),
+    queryFn: () => wishlistApi.fetchSharedWishlist(token),
+    enabled: !!token,
+    retry: false,
+  });
+}
+
+/**
+ * Refetch everything wishlist related after a list changes
+ */
+function invalidateWishlistLists(queryClient: ReturnType<typeof useQueryClient>) {
+  queryClient.invalidateQueries({ queryKey: queryKeys.wishlist });
+  queryClient.invalidateQueries({ queryKey: queryKeys.wishlistLists });
+  queryClient.invalidateQueries({ queryKey: ["wishlistList"] });
+}
+
+/**
+ * Create, rename or delete a named wishlist
+ */
+export function useCreateWishlistListMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (name: string) => wishlistApi.createWishlistList(name),
+    onSuccess: () => invalidateWishlistLists(queryClient),
+  });
+}
+
+export function useRenameWishlistListMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ listId, name }: { listId: string; name: string }) =>
+      wishlistApi.renameWishlistList(listId, name),
+    onSuccess: () => invalidateWishlistLists(queryClient),
+  });
+}
+
+export function useDeleteWishlistListMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (listId: string) => wishlistApi.deleteWishlistList(listId),
+    onSuccess: () => invalidateWishlistLists(queryClient),
+  });
+}
+
+/**
+ * Change a list item's quantity or move it to another list
+ */
+export function useUpdateWishlistListItemMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({
+      listId,
+      itemId,
+      data,
+    }: {
+      listId: string;
+      itemId: string;
+      data: { quantity?: number; list_id?: string };
+    }) => wishlistApi.updateWishlistListItem(listId, itemId, data),
+    onSuccess: () => invalidateWishlistLists(queryClient),
+  });
+}
+
+export function useRemoveWishlistListItemMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ listId, itemId }: { listId: string; itemId: string }) =>
+      wishlistApi.removeWishlistListItem(listId, itemId),
+    onSuccess: () => invalidateWishlistLists(queryClient),
+  });
+}
+
+/**
+ * Turn a wishlist's share link on or off
+ */
+export function useShareWishlistListMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ listId, shared }: { listId: string; shared: boolean }) =>
+      wishlistApi.setWishlistListShared(listId, shared),
+    onSuccess: () => invalidateWishlistLists(queryClient),
+  });
+}
 // ============================================
 
 